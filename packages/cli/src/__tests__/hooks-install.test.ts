@@ -1,17 +1,17 @@
 /**
  * Phase 4-2 CC hook installer tests.
  *
- * Verifies that fuel-code registers all 10 hook entries across 7 CC event
+ * Verifies that fuel-code registers all 12 hook entries across 9 CC event
  * types. Tests call runCCInstall() directly — the backfill scan lives in the
  * CLI command action (createInstallSubcommand), not in runCCInstall(), so
  * these tests are unaffected by it.
  *
  * Tests:
- *   1. All 10 hook entries are registered after install
+ *   1. All 12 hook entries are registered after install
  *   2. PostToolUse has 4 entries with correct matchers
  *   3. Install is idempotent (run twice = same result)
- *   4. Status reports all 10 hooks accurately
- *   5. Background wrapper applied to SessionStart/SessionEnd only
+ *   4. Status reports all 12 hooks accurately
+ *   5. Background wrapper applied to SessionStart/SessionEnd/UserPromptSubmit/PreCompact only
  */
 
 import {
@@ -96,17 +96,19 @@ function countFuelCodeHooks(settings: Settings): number {
 // Tests
 // ---------------------------------------------------------------------------
 
-describe("Phase 4-2: CC hook installer registers all 10 entries", () => {
-  it("installs all 10 hook entries across 7 event types", async () => {
+describe("Phase 4-2: CC hook installer registers all 12 entries", () => {
+  it("installs all 12 hook entries across 9 event types", async () => {
     await runCCInstall();
 
     const settings = readSettings();
     expect(settings.hooks).toBeDefined();
 
-    // All 7 event types should be present
+    // All 9 event types should be present
     const expectedEvents = [
       "SessionStart",
       "SessionEnd",
+      "UserPromptSubmit",
+      "PreCompact",
       "SubagentStart",
       "SubagentStop",
       "PostToolUse",
@@ -119,8 +121,8 @@ describe("Phase 4-2: CC hook installer registers all 10 entries", () => {
       expect(settings.hooks![event].length).toBeGreaterThan(0);
     }
 
-    // Total should be exactly 10 fuel-code hook entries
-    expect(countFuelCodeHooks(settings)).toBe(10);
+    // Total should be exactly 12 fuel-code hook entries
+    expect(countFuelCodeHooks(settings)).toBe(12);
   });
 
   it("PostToolUse has 4 config blocks with correct matchers", async () => {
@@ -178,7 +180,7 @@ describe("Phase 4-2: CC hook installer registers all 10 entries", () => {
     expect(wtRemove[0].hooks[0].command).toContain("cc-hook worktree-remove");
   });
 
-  it("SessionStart/SessionEnd use background bash wrapper", async () => {
+  it("SessionStart/SessionEnd/UserPromptSubmit/PreCompact use background bash wrapper", async () => {
     await runCCInstall();
 
     const settings = readSettings();
@@ -194,6 +196,18 @@ describe("Phase 4-2: CC hook installer registers all 10 entries", () => {
     expect(seCmd).toContain("bash -c");
     expect(seCmd).toContain("&'");
     expect(seCmd).toContain("cc-hook session-end");
+
+    // UserPromptSubmit: blocks the prompt until it returns, so must background
+    const upCmd = settings.hooks!.UserPromptSubmit[0].hooks[0].command;
+    expect(upCmd).toContain("bash -c");
+    expect(upCmd).toContain("&'");
+    expect(upCmd).toContain("cc-hook user-prompt");
+
+    // PreCompact: blocks compaction until it returns (and may upload a snapshot)
+    const pcCmd = settings.hooks!.PreCompact[0].hooks[0].command;
+    expect(pcCmd).toContain("bash -c");
+    expect(pcCmd).toContain("&'");
+    expect(pcCmd).toContain("cc-hook pre-compact");
   });
 
   it("non-backgrounded hooks do NOT use bash wrapper", async () => {
@@ -216,13 +230,13 @@ describe("Phase 4-2: CC hook installer idempotency", () => {
     await runCCInstall();
     const secondCount = countFuelCodeHooks(readSettings());
 
-    expect(firstCount).toBe(10);
-    expect(secondCount).toBe(10);
+    expect(firstCount).toBe(12);
+    expect(secondCount).toBe(12);
   });
 });
 
-describe("Phase 4-2: CC hook status reports all 10 hooks", () => {
-  it("reports all 10 hooks as installed after install", async () => {
+describe("Phase 4-2: CC hook status reports all 12 hooks", () => {
+  it("reports all 12 hooks as installed after install", async () => {
     await runCCInstall();
 
     const lines: string[] = [];
@@ -242,6 +256,8 @@ describe("Phase 4-2: CC hook status reports all 10 hooks", () => {
     const expectedLabels = [
       "SessionStart:",
       "SessionEnd:",
+      "UserPromptSubmit:",
+      "PreCompact:",
       "SubagentStart:",
       "SubagentStop:",
       "PostToolUse[TeamCreate]:",
@@ -280,6 +296,8 @@ describe("Phase 4-2: CC hook status reports all 10 hooks", () => {
     const ccLabels = [
       "SessionStart:",
       "SessionEnd:",
+      "UserPromptSubmit:",
+      "PreCompact:",
       "SubagentStart:",
       "SubagentStop:",
       "PostToolUse[TeamCreate]:",
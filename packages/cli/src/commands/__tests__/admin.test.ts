@@ -0,0 +1,370 @@
+/**
+ * Tests for the `fuel-code admin dead-letters`, `admin reap` and
+ * `admin recorrelate` commands.
+ *
+ * Uses Bun.serve() as a mock HTTP server with per-route handlers so the
+ * replay-all sweep can page through list responses and record each replay.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "bun";
+import type { DeadLetterEvent } from "@fuel-code/shared";
+import { FuelApiClient, type DeadLetterSummary } from "../../lib/api-client.js";
+import { stripAnsi } from "../../lib/formatters.js";
+import {
+  replayAllDeadLetters,
+  formatDeadLetterList,
+  formatDeadLetterDetail,
+  runDeadLettersReplay,
+  runDeadLettersDelete,
+  formatReapResult,
+  runReap,
+  formatRecorrelateResult,
+  runRecorrelate,
+} from "../admin.js";
+
+// ---------------------------------------------------------------------------
+// Mock HTTP Server
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let serverPort: number;
+let requests: Array<{ method: string; path: string; body?: unknown }> = [];
+let routes: Record<string, (url: URL) => { status: number; body?: unknown }> = {};
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      const text = await req.text();
+      requests.push({ method: req.method, path: url.pathname + url.search, body: text ? JSON.parse(text) : undefined });
+
+      const handler = routes[`${req.method} ${url.pathname}`];
+      const res = handler ? handler(url) : { status: 404, body: { error: "Not found" } };
+      if (res.status === 204) return new Response(null, { status: 204 });
+      return new Response(JSON.stringify(res.body), {
+        status: res.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    },
+  });
+  serverPort = server.port;
+});
+
+afterAll(() => {
+  server.stop();
+});
+
+beforeEach(() => {
+  requests = [];
+  routes = {};
+});
+
+function makeClient(): FuelApiClient {
+  return new FuelApiClient({
+    baseUrl: `http://localhost:${serverPort}`,
+    apiKey: "test-key",
+    timeout: 5000,
+  });
+}
+
+/** Run fn with stdout captured and FuelApiClient.fromConfig stubbed */
+async function captureRun(fn: () => Promise<void>): Promise<string> {
+  let captured = "";
+  const origWrite = process.stdout.write;
+  process.stdout.write = ((chunk: string) => {
+    captured += chunk;
+    return true;
+  }) as typeof process.stdout.write;
+
+  const origFromConfig = FuelApiClient.fromConfig;
+  FuelApiClient.fromConfig = () => makeClient();
+
+  try {
+    await fn();
+  } finally {
+    process.stdout.write = origWrite;
+    FuelApiClient.fromConfig = origFromConfig;
+  }
+  return captured;
+}
+
+// ---------------------------------------------------------------------------
+// Test fixtures
+// ---------------------------------------------------------------------------
+
+function makeDeadLetter(overrides?: Partial<DeadLetterSummary>): DeadLetterSummary {
+  return {
+    id: "dl-001",
+    event_id: "evt-001",
+    event_type: "git.commit",
+    stream_id: "1700000000000-0",
+    attempts: 3,
+    last_error: "relation \"git_activity\" does not exist",
+    handler_name: "handleGitCommit",
+    status: "pending",
+    replay_count: 0,
+    first_failed_at: "2025-06-15T10:00:00Z",
+    last_failed_at: "2025-06-15T10:00:00Z",
+    replayed_at: null,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// replayAllDeadLetters
+// ---------------------------------------------------------------------------
+
+describe("replayAllDeadLetters", () => {
+  it("pages through pending dead letters and replays each one", async () => {
+    routes["GET /api/dead-letters"] = (url) =>
+      url.searchParams.get("cursor")
+        ? { status: 200, body: { dead_letters: [makeDeadLetter({ id: "dl-003" })], next_cursor: null, has_more: false } }
+        : {
+            status: 200,
+            body: {
+              dead_letters: [makeDeadLetter({ id: "dl-001" }), makeDeadLetter({ id: "dl-002" })],
+              next_cursor: "page2",
+              has_more: true,
+            },
+          };
+    routes["POST /api/dead-letters/dl-001/replay"] = () => ({
+      status: 202,
+      body: { dead_letter: makeDeadLetter({ status: "replayed" }), stream_id: "1-0" },
+    });
+    routes["POST /api/dead-letters/dl-002/replay"] = () => ({
+      status: 503,
+      body: { error: "Failed to publish event evt-002 to stream" },
+    });
+    routes["POST /api/dead-letters/dl-003/replay"] = () => ({
+      status: 202,
+      body: { dead_letter: makeDeadLetter({ id: "dl-003", status: "replayed" }), stream_id: "2-0" },
+    });
+
+    const result = await replayAllDeadLetters(makeClient(), { eventType: "git.commit" });
+
+    expect(result.replayed).toEqual(["dl-001", "dl-003"]);
+    expect(result.errors).toEqual([
+      { id: "dl-002", error: "Failed to publish event evt-002 to stream" },
+    ]);
+
+    const listUrl = new URL(requests[0].path, "http://x");
+    expect(listUrl.searchParams.get("status")).toBe("pending");
+    expect(listUrl.searchParams.get("event_type")).toBe("git.commit");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Presentation
+// ---------------------------------------------------------------------------
+
+describe("formatDeadLetterList", () => {
+  it("shows an empty state", () => {
+    const out = stripAnsi(formatDeadLetterList({ dead_letters: [], next_cursor: null, has_more: false }));
+    expect(out).toContain("No dead letters found.");
+  });
+
+  it("renders one row per dead letter with a next-page hint", () => {
+    const out = stripAnsi(
+      formatDeadLetterList({ dead_letters: [makeDeadLetter()], next_cursor: "abc", has_more: true }),
+    );
+    expect(out).toContain("dl-001");
+    expect(out).toContain("git.commit");
+    expect(out).toContain("handleGitCommit");
+    expect(out).toContain("--cursor abc");
+  });
+});
+
+describe("formatDeadLetterDetail", () => {
+  it("includes the error and original event payload", () => {
+    const dl: DeadLetterEvent = {
+      ...makeDeadLetter({ replay_count: 2, replayed_at: "2025-06-15T11:00:00Z" }),
+      event: {
+        id: "evt-001",
+        type: "git.commit",
+        timestamp: "2025-06-15T09:59:00Z",
+        device_id: "dev-001",
+        workspace_id: "github.com/user/repo",
+        session_id: null,
+        data: { hash: "abc123" },
+        ingested_at: null,
+        blob_refs: [],
+      },
+    };
+
+    const out = stripAnsi(formatDeadLetterDetail(dl));
+    expect(out).toContain("evt-001 (git.commit)");
+    expect(out).toContain("Replayed:  2x");
+    expect(out).toContain('relation "git_activity" does not exist');
+    expect(out).toContain('"hash": "abc123"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Command handlers
+// ---------------------------------------------------------------------------
+
+describe("runDeadLettersReplay", () => {
+  it("requires an id or --all", async () => {
+    const out = await captureRun(() => runDeadLettersReplay(undefined, {}));
+    expect(out).toContain("Specify a dead letter ID or --all.");
+    expect(process.exitCode).toBe(1);
+    expect(requests).toHaveLength(0);
+    process.exitCode = 0;
+  });
+
+  it("replays a single dead letter by id", async () => {
+    routes["POST /api/dead-letters/dl-001/replay"] = () => ({
+      status: 202,
+      body: { dead_letter: makeDeadLetter({ status: "replayed" }), stream_id: "1700-0" },
+    });
+
+    const out = stripAnsi(await captureRun(() => runDeadLettersReplay("dl-001", {})));
+    expect(out).toContain("Replayed dl-001 (git.commit) as stream entry 1700-0");
+  });
+});
+
+describe("runDeadLettersDelete", () => {
+  it("bulk deletes by status", async () => {
+    routes["DELETE /api/dead-letters"] = () => ({ status: 200, body: { deleted: 4 } });
+
+    const out = await captureRun(() => runDeadLettersDelete(undefined, { status: "replayed" }));
+    expect(out).toContain("Deleted 4 dead letters");
+    expect(new URL(requests[0].path, "http://x").searchParams.get("status")).toBe("replayed");
+  });
+
+  it("rejects an unknown status", async () => {
+    const out = await captureRun(() => runDeadLettersDelete(undefined, { status: "lost" }));
+    expect(out).toContain('Invalid status "lost"');
+    expect(requests).toHaveLength(0);
+    process.exitCode = 0;
+  });
+});
+
+// ---------------------------------------------------------------------------
+// admin reap
+// ---------------------------------------------------------------------------
+
+describe("formatReapResult", () => {
+  const reaped = {
+    found: 2,
+    reaped: 2,
+    reconciled: 1,
+    dryRun: false,
+    sessions: [
+      { sessionId: "sess-aaaaaaaa-1", reason: "device_offline" as const, lastActivityAt: "2025-06-15T10:00:00Z", next: "reconcile" as const },
+      { sessionId: "sess-bbbbbbbb-2", reason: "max_idle" as const, lastActivityAt: "2025-06-15T09:00:00Z", next: "awaiting_transcript" as const },
+    ],
+    errors: [],
+  };
+
+  it("summarizes reaped sessions", () => {
+    const out = stripAnsi(formatReapResult(reaped));
+    expect(out).toContain("device offline");
+    expect(out).toContain("idle too long");
+    expect(out).toContain("awaiting transcript");
+    expect(out).toContain("Ended 2 sessions as crashed; 1 queued for reconcile.");
+  });
+
+  it("previews a dry run", () => {
+    const out = stripAnsi(formatReapResult({ ...reaped, reaped: 0, reconciled: 0, dryRun: true }));
+    expect(out).toContain("Would end 2 sessions as crashed.");
+  });
+
+  it("reports when nothing is abandoned", () => {
+    const out = stripAnsi(formatReapResult({ ...reaped, found: 0, reaped: 0, sessions: [] }));
+    expect(out).toBe("No abandoned sessions found.");
+  });
+});
+
+describe("runReap", () => {
+  it("sends thresholds and dry_run in the request body", async () => {
+    routes["POST /api/sessions/reap"] = () => ({
+      status: 200,
+      body: { found: 0, reaped: 0, reconciled: 0, dryRun: true, sessions: [], errors: [] },
+    });
+
+    const out = stripAnsi(await captureRun(() => runReap({ idleMinutes: "20", maxIdleHours: "4", dryRun: true })));
+    expect(out).toContain("No abandoned sessions found.");
+    expect(requests[0].body).toEqual({ idle_minutes: 20, max_idle_hours: 4, dry_run: true });
+  });
+
+  it("rejects a non-positive threshold", async () => {
+    const out = await captureRun(() => runReap({ offlineMinutes: "0" }));
+    expect(out).toContain('Invalid --offline-minutes "0"');
+    expect(requests).toHaveLength(0);
+    process.exitCode = 0;
+  });
+});
+
+// ---------------------------------------------------------------------------
+// admin recorrelate
+// ---------------------------------------------------------------------------
+
+describe("formatRecorrelateResult", () => {
+  const result = {
+    scanned: 5,
+    correlated: 3,
+    byConfidence: { trailer: 2, active: 0, heuristic: 1 },
+    dryRun: false,
+    next_cursor: null,
+  };
+
+  it("summarizes linked rows by confidence", () => {
+    const out = stripAnsi(formatRecorrelateResult(result));
+    expect(out).toContain("Linked 3 of 5 orphan rows to a session.");
+    expect(out).toContain("trailer: 2  active: 0  heuristic: 1");
+  });
+
+  it("previews a dry run", () => {
+    const out = stripAnsi(formatRecorrelateResult({ ...result, dryRun: true }));
+    expect(out).toContain("Would link 3 of 5 orphan rows to a session.");
+    expect(out).toContain("Run without --dry-run to apply.");
+  });
+
+  it("tells how to continue when more orphans remain", () => {
+    const out = stripAnsi(formatRecorrelateResult({ ...result, next_cursor: "eyJ0IjoiMSJ9" }));
+    expect(out).toContain("continue with --cursor eyJ0IjoiMSJ9");
+  });
+
+  it("reports when there are no orphans", () => {
+    const out = stripAnsi(formatRecorrelateResult({ ...result, scanned: 0, correlated: 0 }));
+    expect(out).toBe("No git activity without a session.");
+  });
+});
+
+describe("runRecorrelate", () => {
+  it("sends filters and dry_run in the request body", async () => {
+    routes["POST /api/git-activity/recorrelate"] = () => ({
+      status: 200,
+      body: {
+        scanned: 0,
+        correlated: 0,
+        byConfidence: { trailer: 0, active: 0, heuristic: 0 },
+        dryRun: true,
+        next_cursor: null,
+      },
+    });
+
+    const out = stripAnsi(
+      await captureRun(() =>
+        runRecorrelate({ since: "2025-06-01T00:00:00.000Z", limit: "50", cursor: "abc", dryRun: true }),
+      ),
+    );
+    expect(out).toContain("No git activity without a session.");
+    expect(requests[0].body).toEqual({
+      since: "2025-06-01T00:00:00.000Z",
+      limit: 50,
+      cursor: "abc",
+      dry_run: true,
+    });
+  });
+
+  it("rejects a non-positive limit", async () => {
+    const out = await captureRun(() => runRecorrelate({ limit: "0" }));
+    expect(out).toContain('Invalid --limit "0"');
+    expect(requests).toHaveLength(0);
+    process.exitCode = 0;
+  });
+});
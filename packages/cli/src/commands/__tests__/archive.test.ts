@@ -0,0 +1,137 @@
+/**
+ * Tests for the `fuel-code archive` command.
+ *
+ * Uses Bun.serve() as a mock HTTP server to check the request body sent to
+ * POST /api/sessions/archive and the dry-run / real-run output.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "bun";
+import { FuelApiClient, type ArchiveSessionsResponse } from "../../lib/api-client.js";
+import { stripAnsi } from "../../lib/formatters.js";
+import { formatArchiveResult, runArchive } from "../archive.js";
+
+// ---------------------------------------------------------------------------
+// Mock HTTP Server
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let serverPort: number;
+let requests: Array<{ method: string; path: string; body: unknown }> = [];
+let responseBody: ArchiveSessionsResponse;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      requests.push({ method: req.method, path: url.pathname, body: await req.json().catch(() => null) });
+      return new Response(JSON.stringify(responseBody), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    },
+  });
+  serverPort = server.port;
+});
+
+afterAll(() => {
+  server.stop();
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+/** Run fn with stdout captured and FuelApiClient.fromConfig stubbed */
+async function captureRun(fn: () => Promise<void>): Promise<string> {
+  let captured = "";
+  const origWrite = process.stdout.write;
+  process.stdout.write = ((chunk: string) => {
+    captured += chunk;
+    return true;
+  }) as typeof process.stdout.write;
+
+  const origFromConfig = FuelApiClient.fromConfig;
+  FuelApiClient.fromConfig = () =>
+    new FuelApiClient({ baseUrl: `http://localhost:${serverPort}`, apiKey: "test-key", timeout: 5000 });
+
+  try {
+    await fn();
+  } finally {
+    process.stdout.write = origWrite;
+    FuelApiClient.fromConfig = origFromConfig;
+  }
+  return captured;
+}
+
+function makeResult(overrides?: Partial<ArchiveSessionsResponse>): ArchiveSessionsResponse {
+  return {
+    found: 0,
+    archived: 0,
+    reclaimedBytes: 0,
+    dryRun: false,
+    skipped: [],
+    errors: [],
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// runArchive
+// ---------------------------------------------------------------------------
+
+describe("runArchive", () => {
+  it("sends a dry run and reports reclaimable space", async () => {
+    responseBody = makeResult({
+      found: 1,
+      archived: 1,
+      reclaimedBytes: 3 * 1024 * 1024,
+      dryRun: true,
+      candidates: [
+        { sessionId: "01JABCDEF0000", endedAt: "2025-01-01T00:00:00Z", messageCount: 40, blockCount: 90, bytes: 3 * 1024 * 1024 },
+      ],
+    });
+
+    const out = stripAnsi(await captureRun(() => runArchive({ olderThan: "30", dryRun: true })));
+
+    expect(requests[0].path).toBe("/api/sessions/archive");
+    expect(requests[0].body).toEqual({ older_than_days: 30, limit: 100, dry_run: true });
+    expect(out).toContain("01JABCDE");
+    expect(out).toContain("Would archive 1 session, reclaiming ~3 MB.");
+  });
+
+  it("rejects a non-positive --older-than without calling the server", async () => {
+    const out = await captureRun(() => runArchive({ olderThan: "0" }));
+    expect(out).toContain('Invalid --older-than "0"');
+    expect(requests).toHaveLength(0);
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatArchiveResult
+// ---------------------------------------------------------------------------
+
+describe("formatArchiveResult", () => {
+  it("summarizes archived and skipped sessions", () => {
+    const out = stripAnsi(
+      formatArchiveResult(
+        makeResult({
+          found: 3,
+          archived: 2,
+          reclaimedBytes: 2048,
+          skipped: [{ sessionId: "01JSKIPPED000", reason: "backup_mismatch" }],
+        }),
+      ),
+    );
+    expect(out).toContain("Archived 2 sessions, reclaiming ~2 KB.");
+    expect(out).toContain("01JSKIPP: backup_mismatch");
+  });
+
+  it("shows an empty state when nothing is old enough", () => {
+    const out = stripAnsi(formatArchiveResult(makeResult({ dryRun: true, candidates: [] })));
+    expect(out).toContain("No sessions are old enough to archive.");
+  });
+});
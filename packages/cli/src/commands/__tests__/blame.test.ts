@@ -0,0 +1,213 @@
+/**
+ * Tests for the `fuel-code blame` command.
+ *
+ * Uses Bun.serve() as a mock HTTP server for real HTTP round-trips through
+ * FuelApiClient, and a throwaway git repo for path resolution. Tests the data
+ * layer (resolveRepoPath), the presentation layer (formatFileHistory), and
+ * runBlame.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "bun";
+import { execSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, realpathSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { FileHistoryResponse } from "@fuel-code/shared";
+import { FuelApiClient } from "../../lib/api-client.js";
+import { stripAnsi } from "../../lib/formatters.js";
+import { resolveRepoPath, formatFileHistory, runBlame } from "../blame.js";
+
+// ---------------------------------------------------------------------------
+// Mock HTTP Server
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let serverPort: number;
+let lastRequestUrl: string;
+let nextResponse: { status: number; body: unknown } = { status: 200, body: {} };
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      lastRequestUrl = url.pathname + url.search;
+      return new Response(JSON.stringify(nextResponse.body), {
+        status: nextResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    },
+  });
+  serverPort = server.port;
+});
+
+afterAll(() => {
+  server.stop();
+});
+
+beforeEach(() => {
+  lastRequestUrl = "";
+});
+
+/** Run fn with stdout captured and FuelApiClient.fromConfig stubbed */
+async function captureRun(fn: () => Promise<void>): Promise<string> {
+  let captured = "";
+  const origWrite = process.stdout.write;
+  process.stdout.write = ((chunk: string) => {
+    captured += chunk;
+    return true;
+  }) as typeof process.stdout.write;
+
+  const origFromConfig = FuelApiClient.fromConfig;
+  FuelApiClient.fromConfig = () =>
+    new FuelApiClient({ baseUrl: `http://localhost:${serverPort}`, apiKey: "test-key", timeout: 5000 });
+
+  try {
+    await fn();
+  } finally {
+    process.stdout.write = origWrite;
+    FuelApiClient.fromConfig = origFromConfig;
+  }
+  return captured;
+}
+
+// ---------------------------------------------------------------------------
+// Test fixtures
+// ---------------------------------------------------------------------------
+
+/** A session that edited two files under src/auth, then the commit it made */
+function makeHistory(overrides?: Partial<FileHistoryResponse>): FileHistoryResponse {
+  return {
+    workspace_id: "01HQRS0000WORKSPACE1AAAAAA",
+    path: "src/auth",
+    entries: [
+      {
+        kind: "session",
+        timestamp: "2025-01-15T10:05:00.000Z",
+        session_id: "01HQSESSION0000000000AAAAA",
+        lifecycle: "summarized",
+        started_at: "2025-01-15T10:00:00.000Z",
+        summary: "Refactored the auth middleware",
+        initial_prompt: "Clean up auth",
+        access: "write",
+        paths: ["src/auth/index.ts", "src/auth/middleware.ts"],
+        tools: ["Edit", "Read"],
+      },
+      {
+        kind: "commit",
+        timestamp: "2025-01-15T10:30:00.000Z",
+        git_activity_id: "ga-01",
+        commit_sha: "abc1234def5678",
+        message: "Refactor auth middleware\n\nLonger body",
+        branch: "main",
+        session_id: "01HQSESSION0000000000AAAAA",
+        paths: ["src/auth/middleware.ts"],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Data layer
+// ---------------------------------------------------------------------------
+
+describe("resolveRepoPath", () => {
+  let repo: string;
+
+  beforeAll(() => {
+    repo = realpathSync(mkdtempSync(join(tmpdir(), "fuel-code-blame-")));
+    mkdirSync(join(repo, "src", "auth"), { recursive: true });
+    const git = (cmd: string) => execSync(`git ${cmd}`, { cwd: repo, stdio: "pipe" });
+    git("init -q");
+    git("remote add origin git@github.com:user/repo-alpha.git");
+  });
+
+  afterAll(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("makes paths repo-relative and derives the workspace from the remote", () => {
+    expect(resolveRepoPath("middleware.ts", join(repo, "src", "auth"))).toEqual({
+      canonicalId: "github.com/user/repo-alpha",
+      path: "src/auth/middleware.ts",
+    });
+    expect(resolveRepoPath("../auth/", join(repo, "src", "auth")).path).toBe("src/auth");
+    expect(resolveRepoPath(join(repo, "src"), repo).path).toBe("src");
+    expect(resolveRepoPath(".", repo).path).toBe(".");
+  });
+
+  it("rejects paths outside the repository", () => {
+    expect(() => resolveRepoPath("../elsewhere", repo)).toThrow("outside the repository");
+  });
+
+  it("requires a git repository", () => {
+    const dir = mkdtempSync(join(tmpdir(), "fuel-code-blame-nogit-"));
+    try {
+      expect(() => resolveRepoPath("a.ts", dir)).toThrow("Not inside a git repository");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Presentation
+// ---------------------------------------------------------------------------
+
+describe("formatFileHistory", () => {
+  it("lists sessions and commits in order with counts", () => {
+    const out = stripAnsi(formatFileHistory(makeHistory()));
+    const lines = out.split("\n");
+
+    expect(lines[0]).toBe("src/auth  1 session, 1 commit");
+    expect(lines[2]).toMatch(/session {2}01HQSESS {2}wrote {2}Refactored the auth middleware {2}Edit, Read$/);
+    expect(lines[3].trim()).toBe("src/auth/index.ts");
+    expect(lines[5]).toMatch(/commit {3}abc1234 {3}wrote {2}Refactor auth middleware {2}\(session 01HQSESS\)$/);
+    expect(out).not.toContain("Longer body");
+  });
+
+  it("omits the path list when only the queried file matched", () => {
+    const out = stripAnsi(formatFileHistory(makeHistory({ path: "src/auth/middleware.ts" })));
+    expect(out.split("\n").filter((l) => l.trim() === "src/auth/middleware.ts")).toHaveLength(0);
+  });
+
+  it("shows an empty state", () => {
+    const out = stripAnsi(formatFileHistory(makeHistory({ path: "README.md", entries: [] })));
+    expect(out).toBe("No sessions or commits touched README.md.");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Command handler
+// ---------------------------------------------------------------------------
+
+describe("runBlame", () => {
+  it("queries the named workspace with the path and limit", async () => {
+    nextResponse = { status: 200, body: makeHistory() };
+    const out = await captureRun(() => runBlame("src/auth", { workspace: "repo-alpha", limit: "20" }));
+
+    const url = new URL(lastRequestUrl, "http://x");
+    expect(url.pathname).toBe("/api/workspaces/repo-alpha/files");
+    expect(url.searchParams.get("path")).toBe("src/auth");
+    expect(url.searchParams.get("limit")).toBe("20");
+    expect(stripAnsi(out)).toContain("1 session, 1 commit");
+  });
+
+  it("outputs raw JSON with --json", async () => {
+    const body = makeHistory();
+    nextResponse = { status: 200, body };
+    const out = await captureRun(() => runBlame("src/auth", { workspace: "repo-alpha", json: true }));
+    expect(JSON.parse(out)).toEqual(body);
+  });
+
+  it("reports an unknown workspace", async () => {
+    const prevExitCode = process.exitCode;
+    nextResponse = { status: 404, body: { error: "Workspace not found" } };
+    const out = await captureRun(() => runBlame("a.ts", { workspace: "nope" }));
+    expect(stripAnsi(out)).toContain("Workspace not found");
+    expect(process.exitCode).toBe(1);
+    process.exitCode = prevExitCode;
+  });
+});
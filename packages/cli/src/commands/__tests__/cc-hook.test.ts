@@ -9,9 +9,11 @@
  *   - Bun.stdin.text() — returns test JSON payloads
  *   - runEmit (from ./emit.js) — captures emitted events
  *   - runTranscriptUpload (from ./transcript.js) — captures transcript upload calls
+ *   - active-sessions registry — captures open-session record/forget calls
  *   - execSync (from node:child_process) — controls git command responses
  *   - process.exit — prevents test process from exiting
  *   - deriveWorkspaceCanonicalId — returns predictable workspace IDs
+ *   - loadConfig — supplies the optional prompts and transcripts sections
  */
 
 import {
@@ -24,6 +26,9 @@ import {
   mock,
   spyOn,
 } from "bun:test";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 
 // ---------------------------------------------------------------------------
 // Module mocks — must be set up BEFORE importing the module under test
@@ -43,10 +48,23 @@ mock.module("../transcript.js", () => ({
   runTranscriptUpload: mockRunTranscriptUpload,
 }));
 
+const mockRecordActiveSession = mock((_entry: { id: string; transcript_path: string; worktree?: string }) => {});
+const mockForgetActiveSession = mock((_id: string) => {});
+mock.module("../../lib/active-sessions.js", () => ({
+  recordActiveSession: mockRecordActiveSession,
+  forgetActiveSession: mockForgetActiveSession,
+}));
+
 mock.module("../../lib/exec.js", () => ({
   execSync: mockExecSync,
 }));
 
+let mockPromptsConfig: { capture: boolean; redact_patterns: string[] } | undefined;
+let mockTranscriptsConfig: { snapshot_on_compact: boolean } | undefined;
+mock.module("../../lib/config.js", () => ({
+  loadConfig: () => ({ prompts: mockPromptsConfig, transcripts: mockTranscriptsConfig }),
+}));
+
 mock.module("../../lib/workspace.js", () => ({
   deriveWorkspaceCanonicalId: (
     remote: string | null,
@@ -88,6 +106,7 @@ function setupGitMocks(opts?: {
   remote?: string | null;
   remoteList?: string | null;
   firstCommitHash?: string | null;
+  toplevel?: string | null;
   ccVersion?: string;
 }): void {
   const {
@@ -96,6 +115,7 @@ function setupGitMocks(opts?: {
     remote = "git@github.com:user/repo.git",
     remoteList = "origin",
     firstCommitHash = null,
+    toplevel = null,
     ccVersion = "1.0.0",
   } = opts ?? {};
 
@@ -119,6 +139,10 @@ function setupGitMocks(opts?: {
       if (!firstCommitHash) throw new Error("no commits");
       return Buffer.from(firstCommitHash);
     }
+    if (cmd === "git rev-parse --show-toplevel") {
+      if (!toplevel) throw new Error("no worktree");
+      return Buffer.from(toplevel);
+    }
     if (cmd === "claude --version") {
       return Buffer.from(ccVersion);
     }
@@ -141,6 +165,10 @@ beforeEach(() => {
   mockRunEmit.mockClear();
   mockRunTranscriptUpload.mockClear();
   mockExecSync.mockClear();
+  mockRecordActiveSession.mockClear();
+  mockForgetActiveSession.mockClear();
+  mockPromptsConfig = undefined;
+  mockTranscriptsConfig = undefined;
 
   // Default: git repo with origin remote
   setupGitMocks();
@@ -204,6 +232,66 @@ describe("cc-hook session-start", () => {
     expect(data.transcript_path).toBe("/tmp/transcript.jsonl");
   });
 
+  it("sends the first-commit local workspace ID when the repo has a remote", async () => {
+    setupGitMocks({ firstCommitHash: "abc123" });
+    setStdin({ session_id: "sess-remote-1", cwd: "/home/user/project" });
+
+    const cmd = createCCHookCommand();
+    await cmd.parseAsync(["node", "test", "session-start"]);
+
+    const [, opts] = mockRunEmit.mock.calls[0] as [string, { data: string; workspaceId: string }];
+    expect(opts.workspaceId).toBe("canonical:git@github.com:user/repo.git");
+    expect(JSON.parse(opts.data).local_workspace_id).toBe("local:abc123");
+  });
+
+  it("sends the worktree root as git_root when started in a subdirectory", async () => {
+    setupGitMocks({ toplevel: "/home/user/project" });
+    setStdin({ session_id: "sess-subdir-1", cwd: "/home/user/project/packages/api" });
+
+    const cmd = createCCHookCommand();
+    await cmd.parseAsync(["node", "test", "session-start"]);
+
+    const [, opts] = mockRunEmit.mock.calls[0] as [string, { data: string; workspaceId: string }];
+    const data = JSON.parse(opts.data);
+    expect(data.cwd).toBe("/home/user/project/packages/api");
+    expect(data.git_root).toBe("/home/user/project");
+  });
+
+  it("omits local_workspace_id for local-only repos", async () => {
+    setupGitMocks({ remote: null, remoteList: null, firstCommitHash: "abc123" });
+    setStdin({ session_id: "sess-local-1", cwd: "/home/user/project" });
+
+    const cmd = createCCHookCommand();
+    await cmd.parseAsync(["node", "test", "session-start"]);
+
+    const [, opts] = mockRunEmit.mock.calls[0] as [string, { data: string; workspaceId: string }];
+    expect(opts.workspaceId).toBe("local:abc123");
+    expect(JSON.parse(opts.data)).not.toHaveProperty("local_workspace_id");
+  });
+
+  it("records the session as open for activity reports", async () => {
+    setStdin({ session_id: "sess-open-1", cwd: "/home/user/project", transcript_path: "/tmp/t.jsonl" });
+
+    const cmd = createCCHookCommand();
+    await cmd.parseAsync(["node", "test", "session-start"]);
+
+    expect(mockRecordActiveSession).toHaveBeenCalledWith({ id: "sess-open-1", transcript_path: "/tmp/t.jsonl" });
+  });
+
+  it("records the session's worktree so commits can be stamped with it", async () => {
+    setupGitMocks({ toplevel: "/home/user/project" });
+    setStdin({ session_id: "sess-open-2", cwd: "/home/user/project/src", transcript_path: "/tmp/t.jsonl" });
+
+    const cmd = createCCHookCommand();
+    await cmd.parseAsync(["node", "test", "session-start"]);
+
+    expect(mockRecordActiveSession).toHaveBeenCalledWith({
+      id: "sess-open-2",
+      transcript_path: "/tmp/t.jsonl",
+      worktree: "/home/user/project",
+    });
+  });
+
   it("exits silently when stdin is not valid JSON", async () => {
     setStdin("this is not json {{{");
 
@@ -400,6 +488,15 @@ describe("cc-hook session-end", () => {
     expect(data.transcript_path).toBe("/tmp/transcript.jsonl");
   });
 
+  it("forgets the open session", async () => {
+    setStdin({ session_id: "sess-open-1", cwd: "/home/user/project", reason: "exit" });
+
+    const cmd = createCCHookCommand();
+    await cmd.parseAsync(["node", "test", "session-end"]);
+
+    expect(mockForgetActiveSession).toHaveBeenCalledWith("sess-open-1");
+  });
+
   it("triggers transcript upload when transcript_path is provided", async () => {
     setStdin({
       session_id: "sess-transcript",
@@ -605,3 +702,172 @@ describe("cc-hook session-end", () => {
     });
   });
 });
+
+// ---------------------------------------------------------------------------
+// Tests: user-prompt
+// ---------------------------------------------------------------------------
+
+describe("cc-hook user-prompt", () => {
+  it("emits session.prompt with the prompt and branch", async () => {
+    setStdin({
+      session_id: "sess-prompt-1",
+      cwd: "/home/user/project",
+      prompt: "add retries to the drain loop",
+    });
+
+    const cmd = createCCHookCommand();
+    await cmd.parseAsync(["node", "test", "user-prompt"]);
+
+    expect(mockRunEmit).toHaveBeenCalledTimes(1);
+    const [eventType, opts] = mockRunEmit.mock.calls[0] as [
+      string,
+      { data: string; workspaceId: string },
+    ];
+    expect(eventType).toBe("session.prompt");
+    expect(opts.workspaceId).toBe("canonical:git@github.com:user/repo.git");
+
+    const data = JSON.parse(opts.data);
+    expect(data).toEqual({
+      cc_session_id: "sess-prompt-1",
+      prompt: "add retries to the drain loop",
+      redacted: false,
+      truncated: false,
+      git_branch: "main",
+    });
+    expect(exitSpy).toHaveBeenCalledWith(0);
+  });
+
+  it("applies configured redaction patterns before emitting", async () => {
+    mockPromptsConfig = { capture: true, redact_patterns: ["ghp_\\w+"] };
+    setStdin({
+      session_id: "sess-prompt-2",
+      cwd: "/home/user/project",
+      prompt: "push with ghp_abc123XYZ please",
+    });
+
+    const cmd = createCCHookCommand();
+    await cmd.parseAsync(["node", "test", "user-prompt"]);
+
+    const [, opts] = mockRunEmit.mock.calls[0] as [string, { data: string }];
+    const data = JSON.parse(opts.data);
+    expect(data.prompt).toBe("push with [REDACTED] please");
+    expect(data.redacted).toBe(true);
+  });
+
+  it("does not emit when capture is disabled", async () => {
+    mockPromptsConfig = { capture: false, redact_patterns: [] };
+    setStdin({ session_id: "sess-prompt-3", prompt: "hello" });
+
+    const cmd = createCCHookCommand();
+    await cmd.parseAsync(["node", "test", "user-prompt"]);
+
+    expect(mockRunEmit).not.toHaveBeenCalled();
+    expect(exitSpy).toHaveBeenCalledWith(0);
+  });
+
+  it("does not emit for an empty prompt", async () => {
+    setStdin({ session_id: "sess-prompt-4", prompt: "   " });
+
+    const cmd = createCCHookCommand();
+    await cmd.parseAsync(["node", "test", "user-prompt"]);
+
+    expect(mockRunEmit).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tests: pre-compact
+// ---------------------------------------------------------------------------
+
+describe("cc-hook pre-compact", () => {
+  let tmpDir: string;
+  let transcriptPath: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "fuel-code-precompact-"));
+    transcriptPath = join(tmpDir, "sess.jsonl");
+    // One earlier compaction already in the transcript
+    writeFileSync(
+      transcriptPath,
+      [
+        JSON.stringify({ type: "user", message: { role: "user", content: "hi" } }),
+        JSON.stringify({ type: "system", subtype: "compact_boundary", content: "Conversation compacted" }),
+        JSON.stringify({ type: "user", message: { role: "user", content: "more" } }),
+      ].join("\n"),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("emits session.compact with the next compact_sequence", async () => {
+    setStdin({
+      session_id: "sess-compact-1",
+      cwd: "/home/user/project",
+      transcript_path: transcriptPath,
+      trigger: "auto",
+    });
+
+    const cmd = createCCHookCommand();
+    await cmd.parseAsync(["node", "test", "pre-compact"]);
+
+    expect(mockRunEmit).toHaveBeenCalledTimes(1);
+    const [eventType, opts] = mockRunEmit.mock.calls[0] as [
+      string,
+      { data: string; workspaceId: string },
+    ];
+    expect(eventType).toBe("session.compact");
+    expect(JSON.parse(opts.data)).toEqual({
+      cc_session_id: "sess-compact-1",
+      compact_sequence: 1,
+      transcript_path: transcriptPath,
+      trigger: "auto",
+      snapshot_s3_key: null,
+    });
+
+    // Snapshots are opt-in
+    expect(mockRunTranscriptUpload).not.toHaveBeenCalled();
+  });
+
+  it("uploads a snapshot first when snapshot_on_compact is enabled", async () => {
+    mockTranscriptsConfig = { snapshot_on_compact: true };
+    mockRunTranscriptUpload.mockImplementationOnce((async () =>
+      "transcripts/ws/sess-compact-2/compact-1.jsonl") as any);
+    setStdin({
+      session_id: "sess-compact-2",
+      cwd: "/home/user/project",
+      transcript_path: transcriptPath,
+      trigger: "manual",
+    });
+
+    const cmd = createCCHookCommand();
+    await cmd.parseAsync(["node", "test", "pre-compact"]);
+
+    expect(mockRunTranscriptUpload).toHaveBeenCalledWith(
+      "sess-compact-2",
+      transcriptPath,
+      undefined,
+      1,
+    );
+    const [, opts] = mockRunEmit.mock.calls[0] as [string, { data: string }];
+    expect(JSON.parse(opts.data).snapshot_s3_key).toBe(
+      "transcripts/ws/sess-compact-2/compact-1.jsonl",
+    );
+  });
+
+  it("falls back to compact_sequence 0 when the transcript is unreadable", async () => {
+    setStdin({
+      session_id: "sess-compact-3",
+      cwd: "/home/user/project",
+      transcript_path: join(tmpDir, "missing.jsonl"),
+    });
+
+    const cmd = createCCHookCommand();
+    await cmd.parseAsync(["node", "test", "pre-compact"]);
+
+    const [, opts] = mockRunEmit.mock.calls[0] as [string, { data: string }];
+    expect(JSON.parse(opts.data).compact_sequence).toBe(0);
+    expect(exitSpy).toHaveBeenCalledWith(0);
+  });
+});
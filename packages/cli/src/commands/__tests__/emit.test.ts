@@ -358,6 +358,51 @@ pipeline:
     }
   });
 
+  it("piggybacks a heartbeat on the ingest request at most once a minute", async () => {
+    overrideConfigPaths(tmpDir);
+
+    const configContent = `
+backend:
+  url: "http://localhost:9999"
+  api_key: "test-key"
+device:
+  id: "01HZDEVICE0000000000000001"
+  name: "test-device"
+  type: "local"
+pipeline:
+  queue_path: "${queueDir}"
+  drain_interval_seconds: 10
+  batch_size: 50
+  post_timeout_ms: 2000
+`;
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, "config.yaml"), configContent);
+
+    const batches: Event[][] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = mock(async (_url: unknown, init?: RequestInit) => {
+      batches.push(JSON.parse(init!.body as string).events);
+      return new Response(
+        JSON.stringify({ ingested: 1, duplicates: 0 }),
+        { status: 200, headers: { "Content-Type": "application/json" } },
+      );
+    }) as unknown as typeof fetch;
+
+    try {
+      await runEmit("git.commit", { data: '{"sha":"abc123"}', workspaceId: "ws-test" });
+      await runEmit("git.push", { data: "{}", workspaceId: "ws-test" });
+
+      expect(batches.map((b) => b.map((e) => e.type))).toEqual([
+        ["git.commit", "system.heartbeat"],
+        ["git.push"],
+      ]);
+      expect(batches[0][1].data.source).toBe("hook");
+      expect(batches[0][1].device_id).toBe("01HZDEVICE0000000000000001");
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
   it("wraps non-JSON --data as { _raw: theString }", async () => {
     overrideConfigPaths(tmpDir);
 
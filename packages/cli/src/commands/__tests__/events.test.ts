@@ -0,0 +1,264 @@
+/**
+ * Tests for the `fuel-code events` command.
+ *
+ * Uses Bun.serve() as a mock HTTP server for real HTTP round-trips through
+ * FuelApiClient (JSON pages and the NDJSON export), and an EventEmitter
+ * stand-in for WsClient to test follow mode.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { EventEmitter } from "node:events";
+import type { Server } from "bun";
+import type { Event } from "@fuel-code/shared";
+import { FuelApiClient, ApiError, type EventListResponse } from "../../lib/api-client.js";
+import { stripAnsi } from "../../lib/formatters.js";
+import {
+  fetchEvents,
+  eventQueryToWsFilter,
+  formatEventLine,
+  formatEventsTable,
+  followEvents,
+} from "../events.js";
+
+// ---------------------------------------------------------------------------
+// Mock HTTP Server
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let serverPort: number;
+let lastRequestUrl: string;
+let nextResponse: { status: number; body: string; contentType: string } = {
+  status: 200,
+  body: "{}",
+  contentType: "application/json",
+};
+
+function mockResponse(status: number, body: unknown) {
+  nextResponse = { status, body: JSON.stringify(body), contentType: "application/json" };
+}
+
+function mockNdjson(events: Event[]) {
+  nextResponse = {
+    status: 200,
+    body: events.map((e) => JSON.stringify(e) + "\n").join(""),
+    contentType: "application/x-ndjson",
+  };
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      lastRequestUrl = url.pathname + url.search;
+
+      return new Response(nextResponse.body, {
+        status: nextResponse.status,
+        headers: { "Content-Type": nextResponse.contentType },
+      });
+    },
+  });
+  serverPort = server.port;
+});
+
+afterAll(() => {
+  server.stop();
+});
+
+function makeClient(): FuelApiClient {
+  return new FuelApiClient({
+    baseUrl: `http://localhost:${serverPort}`,
+    apiKey: "test-key",
+    timeout: 5000,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Test fixtures
+// ---------------------------------------------------------------------------
+
+function makeEvent(overrides?: Partial<Event>): Event {
+  return {
+    id: "evt-001",
+    type: "git.commit",
+    timestamp: "2025-06-15T10:05:00.000Z",
+    device_id: "dev-001",
+    workspace_id: "ws-001",
+    session_id: null,
+    data: { commit_sha: "abc1234def", message: "fix the flaky test", additions: 3, deletions: 1 },
+    ingested_at: "2025-06-15T10:05:01.000Z",
+    blob_refs: [],
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// fetchEvents / exportEvents
+// ---------------------------------------------------------------------------
+
+describe("fetchEvents", () => {
+  it("sends mapped filters as snake_case query params", async () => {
+    mockResponse(200, { events: [makeEvent()], next_cursor: null, has_more: false });
+
+    const result = await fetchEvents(makeClient(), {
+      types: "git.*,session.start",
+      workspaceId: "ws-001",
+      deviceId: "dev-001",
+      sessionId: "sess-001",
+      after: "2025-06-01T00:00:00.000Z",
+      data: '$.branch == "main"',
+      limit: 25,
+    });
+
+    expect(result.events).toHaveLength(1);
+    const url = new URL(lastRequestUrl, "http://x");
+    expect(url.pathname).toBe("/api/events");
+    expect(url.searchParams.get("type")).toBe("git.*,session.start");
+    expect(url.searchParams.get("workspace_id")).toBe("ws-001");
+    expect(url.searchParams.get("device_id")).toBe("dev-001");
+    expect(url.searchParams.get("session_id")).toBe("sess-001");
+    expect(url.searchParams.get("after")).toBe("2025-06-01T00:00:00.000Z");
+    expect(url.searchParams.get("data")).toBe('$.branch == "main"');
+    expect(url.searchParams.get("limit")).toBe("25");
+    expect(url.searchParams.has("before")).toBe(false);
+  });
+});
+
+describe("FuelApiClient.exportEvents", () => {
+  it("requests format=ndjson and yields each line as an event", async () => {
+    mockNdjson([makeEvent({ id: "evt-001" }), makeEvent({ id: "evt-002", type: "system.heartbeat" })]);
+
+    const ids: string[] = [];
+    for await (const evt of makeClient().exportEvents({ types: "git.commit", order: "asc" })) {
+      ids.push(evt.id);
+    }
+
+    expect(ids).toEqual(["evt-001", "evt-002"]);
+    const url = new URL(lastRequestUrl, "http://x");
+    expect(url.searchParams.get("format")).toBe("ndjson");
+    expect(url.searchParams.get("order")).toBe("asc");
+    expect(url.searchParams.get("type")).toBe("git.commit");
+  });
+
+  it("throws ApiError with the server's message on a 400", async () => {
+    mockResponse(400, { error: "Invalid data predicate" });
+
+    const iterate = async () => {
+      for await (const _ of makeClient().exportEvents({ data: "$.x = " })) {
+        // unreachable
+      }
+    };
+    await expect(iterate()).rejects.toBeInstanceOf(ApiError);
+    await expect(iterate()).rejects.toThrow("Invalid data predicate");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Presentation
+// ---------------------------------------------------------------------------
+
+describe("formatEventsTable", () => {
+  it("lists a newest-first page in chronological order", () => {
+    const page: EventListResponse = {
+      events: [
+        makeEvent({ id: "evt-002", type: "system.heartbeat", timestamp: "2025-06-15T10:10:00.000Z", data: {} }),
+        makeEvent({ id: "evt-001", session_id: "01JSESSION0000000000" }),
+      ],
+      next_cursor: "abc123",
+      has_more: true,
+    };
+
+    const output = stripAnsi(formatEventsTable(page));
+    const lines = output.split("\n");
+    expect(lines[0]).toContain("TIME");
+    expect(lines[1]).toContain("git.commit");
+    expect(lines[1]).toContain("01JSESSI");
+    expect(lines[1]).toContain('abc1234 "fix the flaky test" (+3 -1)');
+    expect(lines[2]).toContain("system.heartbeat");
+    expect(output).toContain("--cursor abc123");
+  });
+
+  it("shows an empty state", () => {
+    const output = stripAnsi(formatEventsTable({ events: [], next_cursor: null, has_more: false }));
+    expect(output).toBe("No events match these filters.");
+  });
+});
+
+describe("formatEventLine", () => {
+  it("shows type, session prefix and type-specific data", () => {
+    const line = stripAnsi(formatEventLine(makeEvent({ session_id: "01JSESSION0000000000" })));
+    expect(line).toContain("git.commit");
+    expect(line).toContain("01JSESSI");
+    expect(line).toContain("abc1234");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Follow mode
+// ---------------------------------------------------------------------------
+
+describe("events — follow mode", () => {
+  /** Minimal WsClient stand-in: an EventEmitter with recorded calls */
+  function makeStubWs() {
+    const ws = new EventEmitter() as EventEmitter & {
+      subscriptions: unknown[];
+      disconnected: boolean;
+      connect(): Promise<void>;
+      subscribe(opts: unknown): void;
+      disconnect(): void;
+    };
+    ws.subscriptions = [];
+    ws.disconnected = false;
+    ws.connect = async () => {};
+    ws.subscribe = (opts) => ws.subscriptions.push(opts);
+    ws.disconnect = () => {
+      ws.disconnected = true;
+    };
+    return ws;
+  }
+
+  it("maps query filters to an event subscription", () => {
+    expect(
+      eventQueryToWsFilter({ types: "git.*, session.start", workspaceId: "ws-001", sessionId: "sess-001" }),
+    ).toEqual({
+      types: ["event"],
+      event_types: ["git.*", "session.start"],
+      workspace_id: "ws-001",
+      session_id: "sess-001",
+    });
+    expect(eventQueryToWsFilter({})).toEqual({ types: ["event"] });
+  });
+
+  it("prints new events until aborted, skipping ones already listed", async () => {
+    const ws = makeStubWs();
+    const controller = new AbortController();
+    const writes: string[] = [];
+    const spy = spyOn(process.stdout, "write").mockImplementation((chunk: any) => {
+      writes.push(String(chunk));
+      return true;
+    });
+
+    try {
+      const done = followEvents(ws as any, {
+        filter: { types: ["event"], event_types: ["git.*"] },
+        json: true,
+        seen: new Set(["evt-001"]),
+        signal: controller.signal,
+      });
+      await new Promise((r) => setTimeout(r, 0));
+
+      ws.emit("event", makeEvent({ id: "evt-001" }));
+      ws.emit("event", makeEvent({ id: "evt-002" }));
+      ws.emit("event", makeEvent({ id: "evt-002" }));
+      controller.abort();
+      await done;
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(ws.subscriptions).toEqual([{ filter: { types: ["event"], event_types: ["git.*"] } }]);
+    expect(writes.map((w) => JSON.parse(w).id)).toEqual(["evt-002"]);
+    expect(ws.disconnected).toBe(true);
+    expect(ws.listenerCount("event")).toBe(0);
+  });
+});
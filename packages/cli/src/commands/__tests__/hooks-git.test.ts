@@ -6,7 +6,7 @@
  * fresh temp directory and isolated git config file.
  *
  * Tests cover:
- *   - install --git-only creates hooks dir with all 4 hooks + resolve-workspace.sh
+ *   - install --git-only creates hooks dir with all 5 hooks + resolve-workspace.sh
  *   - install --git-only sets git config core.hooksPath
  *   - All hook files are executable
  *   - Install twice is idempotent
@@ -170,10 +170,10 @@ function readGitConfigHooksPath(): string | null {
 // ---------------------------------------------------------------------------
 
 describe("hooks install --git-only", () => {
-  it("creates hooks dir with all 4 hooks + resolve-workspace.sh", async () => {
+  it("creates hooks dir with all 5 hooks + resolve-workspace.sh", async () => {
     const result = await installGitHooks();
 
-    // All 4 hooks should be installed
+    // All 5 hooks should be installed
     expect(result.installed).toEqual([...GIT_HOOK_NAMES]);
 
     // Verify files exist on disk
@@ -213,12 +213,12 @@ describe("hooks install --git-only", () => {
     // Should NOT have created .user backup files (already our hooks)
     expect(result2.backedUp).toEqual([]);
 
-    // Still only 4 hook files + resolve-workspace.sh
+    // Still only 5 hook files + resolve-workspace.sh
     const files = fs.readdirSync(hooksDir);
     const hookFiles = files.filter(
       (f) => !f.endsWith(".user") && f !== "resolve-workspace.sh",
     );
-    expect(hookFiles).toHaveLength(4);
+    expect(hookFiles).toHaveLength(GIT_HOOK_NAMES.length);
   });
 
   it("backs up and chains .user files when existing core.hooksPath points elsewhere", async () => {
@@ -0,0 +1,208 @@
+/**
+ * Tests for the `fuel-code search` command.
+ *
+ * Uses Bun.serve() as a mock HTTP server for real HTTP round-trips through
+ * FuelApiClient. Tests the data layer (fetchSearch, groupHitsBySession) and
+ * presentation layer (formatSearchResults, renderSnippet).
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import type { Server } from "bun";
+import { FuelApiClient, type SearchHit, type SearchResponse } from "../../lib/api-client.js";
+import { stripAnsi } from "../../lib/formatters.js";
+import {
+  fetchSearch,
+  groupHitsBySession,
+  formatSearchResults,
+  renderSnippet,
+} from "../search.js";
+
+// ---------------------------------------------------------------------------
+// Mock HTTP Server
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let serverPort: number;
+let lastRequestUrl: string;
+let nextResponse: { status: number; body: unknown } = {
+  status: 200,
+  body: {},
+};
+
+function mockResponse(status: number, body: unknown) {
+  nextResponse = { status, body };
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      lastRequestUrl = url.pathname + url.search;
+
+      return new Response(JSON.stringify(nextResponse.body), {
+        status: nextResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    },
+  });
+  serverPort = server.port;
+});
+
+afterAll(() => {
+  server.stop();
+});
+
+function makeClient(): FuelApiClient {
+  return new FuelApiClient({
+    baseUrl: `http://localhost:${serverPort}`,
+    apiKey: "test-key",
+    timeout: 5000,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Test fixtures
+// ---------------------------------------------------------------------------
+
+function makeHit(overrides?: Partial<SearchHit>): SearchHit {
+  return {
+    block_id: "cb-001",
+    session_id: "sess-001",
+    message_id: "msg-001",
+    block_type: "text",
+    tool_name: null,
+    rank: 0.5,
+    ordinal: 12,
+    timestamp: "2025-06-15T10:05:00Z",
+    workspace_id: "ws-001",
+    workspace_name: "fuel-code",
+    device_id: "dev-001",
+    device_name: "macbook",
+    session_lifecycle: "complete",
+    session_started_at: "2025-06-15T10:00:00Z",
+    session_summary: "Fixed the flaky redis test",
+    session_initial_prompt: "redis test keeps failing in CI",
+    snippet: "the <mark>redis</mark> consumer test was\nracing the ack",
+    ...overrides,
+  };
+}
+
+function makeResponse(results: SearchHit[], next_cursor: string | null = null): SearchResponse {
+  return { results, next_cursor, has_more: next_cursor !== null };
+}
+
+// ---------------------------------------------------------------------------
+// fetchSearch tests
+// ---------------------------------------------------------------------------
+
+describe("fetchSearch", () => {
+  it("sends q and mapped filters as snake_case query params", async () => {
+    mockResponse(200, makeResponse([makeHit()]));
+
+    const result = await fetchSearch(makeClient(), "flaky redis", {
+      workspaceId: "ws-001",
+      deviceId: "dev-001",
+      toolName: "Bash",
+      blockType: "tool_result",
+      after: "2025-06-01T00:00:00.000Z",
+      limit: 10,
+    });
+
+    expect(result.results).toHaveLength(1);
+    const url = new URL(lastRequestUrl, "http://x");
+    expect(url.pathname).toBe("/api/search");
+    expect(url.searchParams.get("q")).toBe("flaky redis");
+    expect(url.searchParams.get("workspace_id")).toBe("ws-001");
+    expect(url.searchParams.get("device_id")).toBe("dev-001");
+    expect(url.searchParams.get("tool_name")).toBe("Bash");
+    expect(url.searchParams.get("block_type")).toBe("tool_result");
+    expect(url.searchParams.get("after")).toBe("2025-06-01T00:00:00.000Z");
+    expect(url.searchParams.get("limit")).toBe("10");
+    expect(url.searchParams.has("before")).toBe(false);
+  });
+
+  it("propagates server validation errors", async () => {
+    mockResponse(400, { error: "Invalid query parameters" });
+    await expect(fetchSearch(makeClient(), "x", {})).rejects.toThrow("Invalid query parameters");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// groupHitsBySession tests
+// ---------------------------------------------------------------------------
+
+describe("groupHitsBySession", () => {
+  it("groups hits by session, ordered by each session's best hit", () => {
+    const groups = groupHitsBySession([
+      makeHit({ block_id: "a", session_id: "sess-B", rank: 0.9 }),
+      makeHit({ block_id: "b", session_id: "sess-A", rank: 0.7 }),
+      makeHit({ block_id: "c", session_id: "sess-B", rank: 0.4 }),
+    ]);
+
+    expect(groups.map((g) => g.session_id)).toEqual(["sess-B", "sess-A"]);
+    expect(groups[0].hits.map((h) => h.block_id)).toEqual(["a", "c"]);
+    expect(groups[1].hits).toHaveLength(1);
+  });
+
+  it("returns an empty array for no hits", () => {
+    expect(groupHitsBySession([])).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Presentation tests
+// ---------------------------------------------------------------------------
+
+describe("renderSnippet", () => {
+  it("strips <mark> tags and collapses whitespace", () => {
+    const out = stripAnsi(renderSnippet("the <mark>redis</mark>   test\n\nfailed"));
+    expect(out).toBe("the redis test failed");
+  });
+});
+
+describe("formatSearchResults", () => {
+  it("shows an empty state naming the query", () => {
+    const out = stripAnsi(formatSearchResults("nothing here", makeResponse([])));
+    expect(out).toContain('No matches for "nothing here"');
+  });
+
+  it("renders session headers, snippets, and transcript hints", () => {
+    const out = stripAnsi(
+      formatSearchResults(
+        "redis",
+        makeResponse([
+          makeHit(),
+          makeHit({
+            block_id: "cb-002",
+            block_type: "tool_result",
+            tool_name: "Bash",
+            ordinal: 14,
+            snippet: "FAIL <mark>redis</mark>.test.ts",
+          }),
+        ]),
+      ),
+    );
+
+    expect(out).toContain("sess-001");
+    expect(out).toContain("fuel-code · macbook");
+    expect(out).toContain("Fixed the flaky redis test");
+    expect(out).toContain("#12 text");
+    expect(out).toContain("#14 Bash result");
+    expect(out).toContain("the redis consumer test was racing the ack");
+    expect(out).toContain("fuel-code session sess-001 --transcript");
+    expect(out).toContain("2 matches in 1 session");
+  });
+
+  it("falls back to the initial prompt when there is no summary", () => {
+    const out = stripAnsi(
+      formatSearchResults("redis", makeResponse([makeHit({ session_summary: null })])),
+    );
+    expect(out).toContain("redis test keeps failing in CI");
+  });
+
+  it("shows a next-page hint when more matches are available", () => {
+    const out = stripAnsi(formatSearchResults("redis", makeResponse([makeHit()], "abc123")));
+    expect(out).toContain("--cursor abc123");
+  });
+});
@@ -3,8 +3,8 @@
  *
  * Uses Bun.serve() as a mock HTTP server to test real HTTP round-trips
  * through FuelApiClient. Tests cover the default summary view, --json,
- * --transcript (with tools, thinking, truncation), --events, --git,
- * --export json/md, --tag (add + duplicate), --reparse, not found,
+ * --transcript (with tools, thinking, truncation), --events, --git, --diff, --patch,
+ * --export json/md, --tag (add + duplicate), --reparse, --reprice, --restore, --output, not found,
  * ambiguous prefix, short prefix, and lifecycle-gated transcript access.
  */
 
@@ -19,10 +19,13 @@ import {
   fetchSessionTranscript,
   fetchSessionEvents,
   fetchSessionGit,
+  fetchSessionDiff,
   fetchSessionExportData,
+  fetchToolResultOutput,
   formatSessionSummary,
   formatSessionEvents,
   formatSessionGitActivity,
+  formatSessionDiff,
   generateMarkdownExport,
   runSessionDetail,
   type SessionDetail,
@@ -459,6 +462,95 @@ describe("session detail — --git", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Tests: --diff / --patch
+// ---------------------------------------------------------------------------
+
+function makeSessionDiff() {
+  return {
+    session_id: "01JTEST1234567890ABCDEFGHI",
+    files: [
+      {
+        path: "src/app.ts",
+        status: "modified" as const,
+        complete: true,
+        operations: 1,
+        additions: 1,
+        deletions: 1,
+        hunks: [{ old_start: 4, old_lines: 2, new_start: 4, new_lines: 2, lines: [" keep", "-old", "+new"] }],
+      },
+      {
+        path: "src/unread.ts",
+        status: "modified" as const,
+        complete: false,
+        operations: 1,
+        additions: 1,
+        deletions: 0,
+        hunks: [{ old_start: null, old_lines: 0, new_start: null, new_lines: 1, lines: ["+added"] }],
+      },
+    ],
+    stats: { files: 2, additions: 2, deletions: 1 },
+  };
+}
+
+describe("session detail — --diff", () => {
+  it("renders per-file hunks and flags incomplete files", async () => {
+    const session = makeSession();
+    routeHandlers[`GET /api/sessions/${session.id}/diff`] = () => ({
+      status: 200,
+      body: makeSessionDiff(),
+    });
+
+    const api = makeClient();
+    const fetched = await fetchSessionDiff(api, session.id);
+    const plain = stripAnsi(formatSessionDiff(fetched));
+
+    expect(plain).toContain("src/app.ts (modified) +1 -1");
+    expect(plain).toContain("@@ -4,2 +4,2 @@\n keep\n-old\n+new");
+    expect(plain).toContain("@@ (position unknown) @@");
+    expect(plain).toContain("original content unknown");
+    expect(plain).toContain("2 files changed, 2 insertions(+), 1 deletions(-)");
+  });
+
+  it("handles a session without file changes", () => {
+    const plain = stripAnsi(formatSessionDiff({ session_id: "s", files: [], stats: { files: 0, additions: 0, deletions: 0 } }));
+    expect(plain).toContain("No file changes");
+  });
+});
+
+describe("session detail — --patch", () => {
+  it("writes only complete files as a patch to stdout", async () => {
+    const session = makeSession();
+    setupSessionRoutes(session);
+    routeHandlers[`GET /api/sessions/${session.id}/diff`] = () => ({
+      status: 200,
+      body: makeSessionDiff(),
+    });
+
+    let captured = "";
+    const origWrite = process.stdout.write;
+    process.stdout.write = ((chunk: string) => {
+      captured += chunk;
+      return true;
+    }) as typeof process.stdout.write;
+
+    const origFromConfig = FuelApiClient.fromConfig;
+    FuelApiClient.fromConfig = () => makeClient();
+
+    try {
+      await runSessionDetail(session.id, { patch: true });
+      expect(captured).toStartWith("# skipped src/unread.ts");
+      expect(captured).toContain("diff --git a/src/app.ts b/src/app.ts\n--- a/src/app.ts\n+++ b/src/app.ts\n@@ -4,2 +4,2 @@\n");
+      expect(captured).not.toContain("+added");
+      // No color codes: the output is meant for `> x.patch`
+      expect(captured).toBe(stripAnsi(captured));
+    } finally {
+      process.stdout.write = origWrite;
+      FuelApiClient.fromConfig = origFromConfig;
+    }
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Tests: --export json
 // ---------------------------------------------------------------------------
@@ -583,6 +675,108 @@ describe("session detail — --reparse", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Tests: --reprice
+// ---------------------------------------------------------------------------
+
+describe("session detail — --reprice", () => {
+  it("triggers reprice via POST and returns old and new costs", async () => {
+    const session = makeSession();
+    setupSessionRoutes(session);
+    routeHandlers[`POST /api/sessions/${session.id}/reprice`] = () => ({
+      status: 200,
+      body: {
+        session_id: session.id,
+        pricing_version: "2025-11-24",
+        messages_repriced: 12,
+        previous_cost_usd: 0.42,
+        cost_usd: 2.1,
+      },
+    });
+
+    const api = makeClient();
+    const res = await api.repriceSession(session.id);
+    expect(res.messages_repriced).toBe(12);
+    expect(res.previous_cost_usd).toBe(0.42);
+    expect(res.cost_usd).toBe(2.1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tests: --restore
+// ---------------------------------------------------------------------------
+
+describe("session detail — --restore", () => {
+  it("restores an archived session via POST", async () => {
+    const session = makeSession();
+    setupSessionRoutes(session);
+    routeHandlers[`POST /api/sessions/${session.id}/restore`] = () => ({
+      status: 200,
+      body: { session_id: session.id, messages_restored: 40, blocks_restored: 95 },
+    });
+
+    const api = makeClient();
+    const res = await api.restoreSession(session.id);
+    expect(res.messages_restored).toBe(40);
+    expect(res.blocks_restored).toBe(95);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tests: --output
+// ---------------------------------------------------------------------------
+
+describe("session detail — --output", () => {
+  function locate(overrides: Record<string, unknown>) {
+    return {
+      block_id: "blk-9",
+      truncated: true,
+      content_type: "application/json",
+      byte_length: 300000,
+      url: null,
+      content: null,
+      ...overrides,
+    };
+  }
+
+  it("downloads text artifacts from the presigned URL", async () => {
+    const session = makeSession();
+    routeHandlers[`GET /api/sessions/${session.id}/blocks/blk-9/result`] = (url) => ({
+      status: 200,
+      body: url.searchParams.get("redirect") === "false"
+        ? locate({ url: `http://localhost:${serverPort}/artifacts/toolu_9.json` })
+        : { error: "expected redirect=false" },
+    });
+    routeHandlers["GET /artifacts/toolu_9.json"] = () => ({ status: 200, body: { files: ["a.ts"] } });
+
+    const out = await fetchToolResultOutput(makeClient(), session.id, "blk-9");
+    expect(out.text).toBe('{"files":["a.ts"]}');
+  });
+
+  it("returns inline content without a download", async () => {
+    const session = makeSession();
+    routeHandlers[`GET /api/sessions/${session.id}/blocks/blk-9/result`] = () => ({
+      status: 200,
+      body: locate({ truncated: false, content_type: "text/plain", content: "ok" }),
+    });
+
+    const out = await fetchToolResultOutput(makeClient(), session.id, "blk-9");
+    expect(out.text).toBe("ok");
+  });
+
+  it("leaves binary artifacts as a URL", async () => {
+    const session = makeSession();
+    routeHandlers[`GET /api/sessions/${session.id}/blocks/blk-9/result`] = () => ({
+      status: 200,
+      body: locate({ content_type: "image/png", url: "https://s3.example.com/artifacts/toolu_9.png" }),
+    });
+
+    const out = await fetchToolResultOutput(makeClient(), session.id, "blk-9");
+    expect(out.text).toBeNull();
+    expect(out.location.url).toBe("https://s3.example.com/artifacts/toolu_9.png");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Tests: Session ID resolution
 // ---------------------------------------------------------------------------
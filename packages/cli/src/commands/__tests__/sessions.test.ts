@@ -3,18 +3,22 @@
  *
  * Uses Bun.serve() as a mock HTTP server for real HTTP round-trips through
  * FuelApiClient. Tests the data layer (fetchSessions), presentation layer
- * (formatSessionsTable), and error handling.
+ * (formatSessionsTable), watch mode (formatSessionUpdateLine,
+ * watchSessionUpdates with a stub WsClient), and error handling.
  *
  * stdout is captured via spyOn to assert formatted output.
  */
 
 import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, spyOn } from "bun:test";
 import type { Server } from "bun";
+import { EventEmitter } from "node:events";
 import { FuelApiClient, ApiError, ApiConnectionError } from "../../lib/api-client.js";
 import { stripAnsi } from "../../lib/formatters.js";
 import {
   fetchSessions,
   formatSessionsTable,
+  formatSessionUpdateLine,
+  watchSessionUpdates,
   type FetchSessionsParams,
 } from "../sessions.js";
 
@@ -584,3 +588,86 @@ describe("sessions — pagination", () => {
     expect(lastRequestUrl).toContain("cursor=page-2-cursor");
   });
 });
+
+// ---------------------------------------------------------------------------
+// Watch mode tests
+// ---------------------------------------------------------------------------
+
+describe("sessions — watch mode", () => {
+  /** Minimal WsClient stand-in: an EventEmitter with recorded calls */
+  function makeStubWs() {
+    const ws = new EventEmitter() as EventEmitter & {
+      subscriptions: unknown[];
+      disconnected: boolean;
+      connect(): Promise<void>;
+      subscribe(opts: unknown): void;
+      disconnect(): void;
+    };
+    ws.subscriptions = [];
+    ws.disconnected = false;
+    ws.connect = async () => {};
+    ws.subscribe = (opts) => ws.subscriptions.push(opts);
+    ws.disconnect = () => {
+      ws.disconnected = true;
+    };
+    return ws;
+  }
+
+  it("formats a parsed update with stats", () => {
+    const line = stripAnsi(
+      formatSessionUpdateLine(
+        {
+          session_id: "01JABCDEF0123456789",
+          lifecycle: "parsed",
+          stats: { total_messages: 42, total_cost_usd: 1.234, duration_ms: 90_000 },
+        },
+        new Date(2025, 5, 15, 10, 30, 5),
+      ),
+    );
+    expect(line).toContain("10:30:05");
+    expect(line).toContain("01JABCDE");
+    expect(line).toContain("42 msgs");
+    expect(line).toContain("$1.23");
+  });
+
+  it("includes the summary when present", () => {
+    const line = stripAnsi(
+      formatSessionUpdateLine({
+        session_id: "01JABCDEF0123456789",
+        lifecycle: "summarized",
+        summary: "Fixed the flaky redis test",
+      }),
+    );
+    expect(line).toContain("Fixed the flaky redis test");
+  });
+
+  it("streams updates for the workspace until aborted", async () => {
+    const ws = makeStubWs();
+    const controller = new AbortController();
+    const writes: string[] = [];
+    const spy = spyOn(process.stdout, "write").mockImplementation((chunk: any) => {
+      writes.push(String(chunk));
+      return true;
+    });
+
+    try {
+      const done = watchSessionUpdates(ws as any, {
+        workspaceId: "ws-001",
+        json: true,
+        signal: controller.signal,
+      });
+      await new Promise((r) => setTimeout(r, 0));
+
+      ws.emit("session.update", { session_id: "sess-1", lifecycle: "complete", summary: "Done" });
+      controller.abort();
+      await done;
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(ws.subscriptions).toEqual([{ filter: { types: ["session.update"], workspace_id: "ws-001" } }]);
+    expect(JSON.parse(writes[0])).toEqual({ session_id: "sess-1", lifecycle: "complete", summary: "Done" });
+    expect(ws.disconnected).toBe(true);
+    expect(ws.listenerCount("session.update")).toBe(0);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests for the `fuel-code token` commands.
+ *
+ * Uses Bun.serve() as a mock HTTP server with per-route handlers that record
+ * request bodies, so tests can check what create/revoke send to the server.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "bun";
+import type { ApiToken } from "@fuel-code/shared";
+import { FuelApiClient } from "../../lib/api-client.js";
+import { stripAnsi } from "../../lib/formatters.js";
+import { formatTokenList, runTokenCreate, runTokenRevoke } from "../token.js";
+
+// ---------------------------------------------------------------------------
+// Mock HTTP Server
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let serverPort: number;
+let requests: Array<{ method: string; path: string; body: unknown }> = [];
+let routes: Record<string, () => { status: number; body?: unknown }> = {};
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      const text = await req.text();
+      requests.push({ method: req.method, path: url.pathname, body: text ? JSON.parse(text) : undefined });
+
+      const handler = routes[`${req.method} ${url.pathname}`];
+      const res = handler ? handler() : { status: 404, body: { error: "Not found" } };
+      return new Response(JSON.stringify(res.body), {
+        status: res.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    },
+  });
+  serverPort = server.port;
+});
+
+afterAll(() => {
+  server.stop();
+});
+
+beforeEach(() => {
+  requests = [];
+  routes = {};
+});
+
+function makeClient(): FuelApiClient {
+  return new FuelApiClient({
+    baseUrl: `http://localhost:${serverPort}`,
+    apiKey: "test-key",
+    timeout: 5000,
+  });
+}
+
+/** Run fn with stdout captured and FuelApiClient.fromConfig stubbed */
+async function captureRun(fn: () => Promise<void>): Promise<string> {
+  let captured = "";
+  const origWrite = process.stdout.write;
+  process.stdout.write = ((chunk: string) => {
+    captured += chunk;
+    return true;
+  }) as typeof process.stdout.write;
+
+  const origFromConfig = FuelApiClient.fromConfig;
+  FuelApiClient.fromConfig = () => makeClient();
+
+  try {
+    await fn();
+  } finally {
+    process.stdout.write = origWrite;
+    FuelApiClient.fromConfig = origFromConfig;
+  }
+  return captured;
+}
+
+// ---------------------------------------------------------------------------
+// Test fixtures
+// ---------------------------------------------------------------------------
+
+function makeToken(overrides?: Partial<ApiToken>): ApiToken {
+  return {
+    id: "tok-001",
+    name: "laptop",
+    token_prefix: "fc_abcdefg",
+    scopes: ["read", "ingest"],
+    user_id: null,
+    user_name: null,
+    created_by: "API_KEY",
+    created_at: "2025-06-15T10:00:00Z",
+    expires_at: null,
+    last_used_at: null,
+    revoked_at: null,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Presentation
+// ---------------------------------------------------------------------------
+
+describe("formatTokenList", () => {
+  it("shows an empty state", () => {
+    expect(stripAnsi(formatTokenList([]))).toContain("No tokens found.");
+  });
+
+  it("derives active, expired, and revoked statuses", () => {
+    const out = stripAnsi(
+      formatTokenList([
+        makeToken({ id: "tok-a", expires_at: "2999-01-01T00:00:00Z" }),
+        makeToken({ id: "tok-e", expires_at: "2020-01-01T00:00:00Z" }),
+        makeToken({ id: "tok-r", revoked_at: "2025-06-16T00:00:00Z" }),
+      ]),
+    );
+    const rows = out.split("\n");
+    expect(rows.find((r) => r.includes("tok-a"))).toContain("active");
+    expect(rows.find((r) => r.includes("tok-a"))).toContain("2999-01-01");
+    expect(rows.find((r) => r.includes("tok-e"))).toContain("expired");
+    expect(rows.find((r) => r.includes("tok-r"))).toContain("revoked");
+    expect(out).toContain("read,ingest");
+  });
+
+  it("shows the owning user", () => {
+    const out = stripAnsi(formatTokenList([makeToken({ user_id: "user-1", user_name: "ada" })]));
+    expect(out).toContain("USER");
+    expect(out).toContain("ada");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Command handlers
+// ---------------------------------------------------------------------------
+
+describe("runTokenCreate", () => {
+  it("sends scopes and expiry, then prints the token once", async () => {
+    routes["POST /api/tokens"] = () => ({
+      status: 201,
+      body: { api_token: makeToken({ name: "ci", scopes: ["ingest"] }), token: "fc_secret_value" },
+    });
+
+    const out = stripAnsi(
+      await captureRun(() => runTokenCreate("ci", { scope: ["ingest"], expiresIn: "30" })),
+    );
+
+    expect(requests[0].body).toEqual({ name: "ci", scopes: ["ingest"], expires_in_days: 30 });
+    expect(out).toContain("Created token ci");
+    expect(out).toContain("fc_secret_value");
+    expect(out).toContain("cannot be shown again");
+  });
+
+  it("sends the owning user and email", async () => {
+    routes["POST /api/tokens"] = () => ({
+      status: 201,
+      body: {
+        api_token: makeToken({ user_id: "user-1", user_name: "ada" }),
+        token: "fc_secret_value",
+      },
+    });
+
+    const out = stripAnsi(
+      await captureRun(() => runTokenCreate("laptop", { user: "ada", email: "ada@example.com" })),
+    );
+
+    expect(requests[0].body).toEqual({ name: "laptop", user: "ada", email: "ada@example.com" });
+    expect(out).toContain("User:    ada");
+  });
+
+  it("rejects an unknown scope without calling the server", async () => {
+    const out = await captureRun(() => runTokenCreate("ci", { scope: ["write"] }));
+    expect(out).toContain('Invalid scope "write"');
+    expect(process.exitCode).toBe(1);
+    expect(requests).toHaveLength(0);
+    process.exitCode = 0;
+  });
+});
+
+describe("runTokenRevoke", () => {
+  it("revokes a token by id", async () => {
+    routes["DELETE /api/tokens/tok-001"] = () => ({
+      status: 200,
+      body: { api_token: makeToken({ revoked_at: "2025-06-16T00:00:00Z" }) },
+    });
+
+    const out = stripAnsi(await captureRun(() => runTokenRevoke("tok-001")));
+    expect(out).toContain("Revoked token laptop (tok-001)");
+  });
+
+  it("reports a missing admin scope", async () => {
+    routes["DELETE /api/tokens/tok-001"] = () => ({
+      status: 403,
+      body: { error: "Insufficient scope", details: 'This request requires the "admin" scope' },
+    });
+
+    const out = await captureRun(() => runTokenRevoke("tok-001"));
+    expect(out).toContain("Insufficient scope");
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+});
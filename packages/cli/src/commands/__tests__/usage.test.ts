@@ -0,0 +1,244 @@
+/**
+ * Tests for the `fuel-code usage` command.
+ *
+ * Uses Bun.serve() as a mock HTTP server for real HTTP round-trips through
+ * FuelApiClient. Tests the data layer (fillBuckets, totalSeries, groupUsage),
+ * the presentation layer (formatUsage), and option handling in runUsage.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "bun";
+import type { UsageMetrics, UsageResponse, UsageRow } from "@fuel-code/shared";
+import { FuelApiClient } from "../../lib/api-client.js";
+import { stripAnsi } from "../../lib/formatters.js";
+import { fillBuckets, totalSeries, groupUsage, formatUsage, runUsage } from "../usage.js";
+
+// ---------------------------------------------------------------------------
+// Mock HTTP Server
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let serverPort: number;
+let lastRequestUrl: string;
+let nextResponse: { status: number; body: unknown } = { status: 200, body: {} };
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      lastRequestUrl = url.pathname + url.search;
+      return new Response(JSON.stringify(nextResponse.body), {
+        status: nextResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    },
+  });
+  serverPort = server.port;
+});
+
+afterAll(() => {
+  server.stop();
+});
+
+beforeEach(() => {
+  lastRequestUrl = "";
+});
+
+function makeClient(): FuelApiClient {
+  return new FuelApiClient({
+    baseUrl: `http://localhost:${serverPort}`,
+    apiKey: "test-key",
+    timeout: 5000,
+  });
+}
+
+/** Run fn with stdout captured and FuelApiClient.fromConfig stubbed */
+async function captureRun(fn: () => Promise<void>): Promise<string> {
+  let captured = "";
+  const origWrite = process.stdout.write;
+  process.stdout.write = ((chunk: string) => {
+    captured += chunk;
+    return true;
+  }) as typeof process.stdout.write;
+
+  const origFromConfig = FuelApiClient.fromConfig;
+  FuelApiClient.fromConfig = () => makeClient();
+
+  try {
+    await fn();
+  } finally {
+    process.stdout.write = origWrite;
+    FuelApiClient.fromConfig = origFromConfig;
+  }
+  return captured;
+}
+
+// ---------------------------------------------------------------------------
+// Test fixtures
+// ---------------------------------------------------------------------------
+
+function makeMetrics(overrides?: Partial<UsageMetrics>): UsageMetrics {
+  return {
+    sessions: 1,
+    duration_ms: 600000,
+    tokens_in: 1000,
+    tokens_out: 500,
+    cache_read_tokens: 3000,
+    cache_write_tokens: 1000,
+    cache_hit_ratio: 0.6,
+    cost_usd: 0.5,
+    commits: 1,
+    ...overrides,
+  };
+}
+
+function makeRow(bucketStart: string, overrides?: Partial<UsageRow>): UsageRow {
+  return {
+    bucket_start: bucketStart,
+    group_key: null,
+    group_label: null,
+    ...makeMetrics(),
+    ...overrides,
+  };
+}
+
+/** Four daily buckets, Jan 1–4; rows only on the 1st and 3rd */
+function makeResponse(overrides?: Partial<UsageResponse>): UsageResponse {
+  return {
+    bucket: "day",
+    group_by: null,
+    from: "2025-01-01T00:00:00.000Z",
+    to: "2025-01-05T00:00:00.000Z",
+    rows: [
+      makeRow("2025-01-01T00:00:00.000Z"),
+      makeRow("2025-01-03T00:00:00.000Z", { sessions: 3, cost_usd: 2 }),
+    ],
+    totals: makeMetrics({ sessions: 4, cost_usd: 2.5 }),
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Data layer
+// ---------------------------------------------------------------------------
+
+describe("fillBuckets", () => {
+  it("lists every bucket start in [from, to)", () => {
+    expect(fillBuckets(makeResponse())).toEqual([
+      "2025-01-01T00:00:00.000Z",
+      "2025-01-02T00:00:00.000Z",
+      "2025-01-03T00:00:00.000Z",
+      "2025-01-04T00:00:00.000Z",
+    ]);
+  });
+
+  it("steps by hour for hourly buckets", () => {
+    const buckets = fillBuckets({
+      bucket: "hour",
+      from: "2025-01-01T00:00:00.000Z",
+      to: "2025-01-01T03:00:00.000Z",
+    });
+    expect(buckets).toHaveLength(3);
+    expect(buckets[2]).toBe("2025-01-01T02:00:00.000Z");
+  });
+});
+
+describe("totalSeries", () => {
+  it("fills missing buckets with zeros", () => {
+    const series = totalSeries(makeResponse());
+    expect(series.map((m) => m.sessions)).toEqual([1, 0, 3, 0]);
+    expect(series[1].cache_hit_ratio).toBeNull();
+  });
+});
+
+describe("groupUsage", () => {
+  it("splits rows by group, most expensive first", () => {
+    const groups = groupUsage(
+      makeResponse({
+        group_by: "model",
+        rows: [
+          makeRow("2025-01-01T00:00:00.000Z", { group_key: "claude-haiku", group_label: "claude-haiku", cost_usd: 0.1 }),
+          makeRow("2025-01-01T00:00:00.000Z", { group_key: "claude-opus", group_label: "claude-opus", cost_usd: 3 }),
+          makeRow("2025-01-02T00:00:00.000Z", { group_key: "claude-haiku", group_label: "claude-haiku", cost_usd: 0.2 }),
+        ],
+      }),
+    );
+
+    expect(groups.map((g) => g.key)).toEqual(["claude-opus", "claude-haiku"]);
+    expect(groups[1].totals.sessions).toBe(2);
+    expect(groups[1].totals.cost_usd).toBeCloseTo(0.3);
+    expect(groups[1].series.map((m) => m.cost_usd)).toEqual([0.1, 0.2, 0, 0]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Presentation
+// ---------------------------------------------------------------------------
+
+describe("formatUsage", () => {
+  it("prints totals with sparklines", () => {
+    const out = stripAnsi(formatUsage(makeResponse()));
+    expect(out).toContain("Usage by day");
+    expect(out).toContain("2025-01-01 → 2025-01-04 UTC (4 days)");
+    expect(out).toMatch(/Sessions\s+4\s+▄▁█▁/);
+    expect(out).toContain("$2.50");
+    expect(out).toContain("60%");
+  });
+
+  it("adds a per-group table when grouped", () => {
+    const out = stripAnsi(
+      formatUsage(
+        makeResponse({
+          group_by: "workspace",
+          rows: [makeRow("2025-01-02T00:00:00.000Z", { group_key: "ws-1", group_label: "fuel-code" })],
+        }),
+      ),
+    );
+    expect(out).toContain("WORKSPACE");
+    expect(out).toContain("COST TREND");
+    expect(out).toMatch(/fuel-code.*\$0\.50/);
+  });
+
+  it("shows an empty state", () => {
+    const out = stripAnsi(
+      formatUsage(makeResponse({ rows: [], totals: makeMetrics({ sessions: 0 }) })),
+    );
+    expect(out).toContain("No sessions in this range.");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Command handler
+// ---------------------------------------------------------------------------
+
+describe("runUsage", () => {
+  it("passes bucket, grouping, and range to the server", async () => {
+    nextResponse = { status: 200, body: makeResponse({ bucket: "week", group_by: "model" }) };
+    await captureRun(() =>
+      runUsage({ bucket: "week", by: "model", from: "2025-01-01T00:00:00Z" }),
+    );
+
+    const url = new URL(lastRequestUrl, "http://x");
+    expect(url.pathname).toBe("/api/analytics/usage");
+    expect(url.searchParams.get("bucket")).toBe("week");
+    expect(url.searchParams.get("group_by")).toBe("model");
+    expect(url.searchParams.get("from")).toBe("2025-01-01T00:00:00Z");
+  });
+
+  it("outputs raw JSON with --json", async () => {
+    const body = makeResponse();
+    nextResponse = { status: 200, body };
+    const out = await captureRun(() => runUsage({ json: true }));
+    expect(JSON.parse(out)).toEqual(body);
+  });
+
+  it("rejects an unknown bucket without calling the server", async () => {
+    const prevExitCode = process.exitCode;
+    const out = await captureRun(() => runUsage({ bucket: "month" }));
+    expect(stripAnsi(out)).toContain('Invalid --bucket "month"');
+    expect(lastRequestUrl).toBe("");
+    expect(process.exitCode).toBe(1);
+    process.exitCode = prevExitCode;
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Tests for the `fuel-code webhooks` commands.
+ *
+ * Uses Bun.serve() as a mock HTTP server with per-route handlers that record
+ * request bodies and query strings, so tests can check what add/test/
+ * deliveries send to the server.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "bun";
+import type { Webhook, WebhookDelivery } from "@fuel-code/shared";
+import { FuelApiClient } from "../../lib/api-client.js";
+import { stripAnsi } from "../../lib/formatters.js";
+import {
+  formatWebhookList,
+  formatDeliveryList,
+  runWebhooksAdd,
+  runWebhooksTest,
+  runWebhooksDeliveries,
+  runWebhooksRemove,
+} from "../webhooks.js";
+
+// ---------------------------------------------------------------------------
+// Mock HTTP Server
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let serverPort: number;
+let requests: Array<{ method: string; path: string; search: string; body: unknown }> = [];
+let routes: Record<string, () => { status: number; body?: unknown }> = {};
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      const text = await req.text();
+      requests.push({
+        method: req.method,
+        path: url.pathname,
+        search: url.search,
+        body: text ? JSON.parse(text) : undefined,
+      });
+
+      const handler = routes[`${req.method} ${url.pathname}`];
+      const res = handler ? handler() : { status: 404, body: { error: "Not found" } };
+      return new Response(JSON.stringify(res.body), {
+        status: res.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    },
+  });
+  serverPort = server.port;
+});
+
+afterAll(() => {
+  server.stop();
+});
+
+beforeEach(() => {
+  requests = [];
+  routes = {};
+});
+
+/** Run fn with stdout captured and FuelApiClient.fromConfig stubbed */
+async function captureRun(fn: () => Promise<void>): Promise<string> {
+  let captured = "";
+  const origWrite = process.stdout.write;
+  process.stdout.write = ((chunk: string) => {
+    captured += chunk;
+    return true;
+  }) as typeof process.stdout.write;
+
+  const origFromConfig = FuelApiClient.fromConfig;
+  FuelApiClient.fromConfig = () =>
+    new FuelApiClient({ baseUrl: `http://localhost:${serverPort}`, apiKey: "test-key", timeout: 5000 });
+
+  try {
+    await fn();
+  } finally {
+    process.stdout.write = origWrite;
+    FuelApiClient.fromConfig = origFromConfig;
+  }
+  return captured;
+}
+
+// ---------------------------------------------------------------------------
+// Test fixtures
+// ---------------------------------------------------------------------------
+
+const WORKSPACE_ID = "01HQRS0000WORKSPACE1AAAAAA";
+
+function makeWebhook(overrides?: Partial<Webhook>): Webhook {
+  return {
+    id: "wh-001",
+    url: "https://ci.example.com/hooks/fuel",
+    description: null,
+    event_types: [],
+    workspace_id: null,
+    workspace_name: null,
+    secret_prefix: "whsec_abcdef",
+    created_by: "API_KEY",
+    created_at: "2025-06-15T10:00:00Z",
+    last_delivery_at: null,
+    last_delivery_status: null,
+    ...overrides,
+  };
+}
+
+function makeDelivery(overrides?: Partial<WebhookDelivery>): WebhookDelivery {
+  return {
+    id: "del-001",
+    webhook_id: "wh-001",
+    event_type: "session.summarized",
+    event_id: null,
+    payload: {
+      id: "del-001",
+      type: "session.summarized",
+      workspace_id: WORKSPACE_ID,
+      session_id: "sess-1",
+      timestamp: "2025-06-15T10:00:00Z",
+      data: {},
+    },
+    status: "succeeded",
+    attempts: 1,
+    next_attempt_at: null,
+    last_status_code: 200,
+    last_error: null,
+    created_at: "2025-06-15T10:00:00Z",
+    delivered_at: "2025-06-15T10:00:01Z",
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Presentation
+// ---------------------------------------------------------------------------
+
+describe("formatWebhookList", () => {
+  it("shows an empty state", () => {
+    expect(stripAnsi(formatWebhookList([]))).toContain("No webhooks found.");
+  });
+
+  it("shows filters, workspace, and the latest delivery", () => {
+    const out = stripAnsi(
+      formatWebhookList([
+        makeWebhook({
+          id: "wh-a",
+          event_types: ["session.summarized", "git.*"],
+          workspace_id: WORKSPACE_ID,
+          workspace_name: "fuel-code",
+          last_delivery_at: "2025-06-15T10:00:00Z",
+          last_delivery_status: "failed",
+        }),
+        makeWebhook({ id: "wh-b", description: "Slack" }),
+      ]),
+    );
+    const rows = out.split("\n");
+    const a = rows.find((r) => r.includes("wh-a"))!;
+    expect(a).toContain("session.summarized,git.*");
+    expect(a).toContain("fuel-code");
+    expect(a).toContain("failed");
+    const b = rows.find((r) => r.includes("wh-b"))!;
+    expect(b).toContain("(Slack)");
+    expect(b).toContain("all");
+    expect(b).toContain("never");
+  });
+});
+
+describe("formatDeliveryList", () => {
+  it("shows the outcome of each delivery's last attempt", () => {
+    const out = stripAnsi(
+      formatDeliveryList([
+        makeDelivery(),
+        makeDelivery({
+          id: "del-002",
+          status: "pending",
+          attempts: 2,
+          last_status_code: 500,
+          last_error: "HTTP 500: boom",
+          next_attempt_at: "2025-06-15T10:05:00Z",
+        }),
+      ]),
+    );
+    const rows = out.split("\n");
+    expect(rows.find((r) => r.includes("del-001"))).toContain("HTTP 200");
+    const pending = rows.find((r) => r.includes("del-002"))!;
+    expect(pending).toContain("HTTP 500: boom");
+    expect(pending).toContain("2025-06-15 10:05:00");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Command handlers
+// ---------------------------------------------------------------------------
+
+describe("runWebhooksAdd", () => {
+  it("resolves the workspace, sends filters, and prints the secret once", async () => {
+    routes["GET /api/workspaces"] = () => ({
+      status: 200,
+      body: {
+        workspaces: [{ id: WORKSPACE_ID, display_name: "fuel-code", canonical_id: "github.com/acme/fuel-code" }],
+        next_cursor: null,
+        has_more: false,
+      },
+    });
+    routes["POST /api/webhooks"] = () => ({
+      status: 201,
+      body: {
+        webhook: makeWebhook({ event_types: ["session.summarized"], workspace_id: WORKSPACE_ID, workspace_name: "fuel-code" }),
+        secret: "whsec_supersecret",
+      },
+    });
+
+    const out = stripAnsi(
+      await captureRun(() =>
+        runWebhooksAdd("https://ci.example.com/hooks/fuel", { event: ["session.summarized"], workspace: "fuel-code" }),
+      ),
+    );
+
+    const create = requests.find((r) => r.path === "/api/webhooks")!;
+    expect(create.body).toEqual({
+      url: "https://ci.example.com/hooks/fuel",
+      event_types: ["session.summarized"],
+      workspace_id: WORKSPACE_ID,
+    });
+    expect(out).toContain("Created webhook wh-001");
+    expect(out).toContain("whsec_supersecret");
+    expect(out).toContain("X-Fuel-Code-Signature");
+  });
+
+  it("reports invalid filters from the server", async () => {
+    routes["POST /api/webhooks"] = () => ({
+      status: 400,
+      body: { error: "Invalid request body", details: [{ message: "Unknown event type" }] },
+    });
+
+    const out = await captureRun(() => runWebhooksAdd("https://x.example.com", { event: ["bogus"] }));
+    expect(out).toContain("Invalid request body");
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+});
+
+describe("runWebhooksTest", () => {
+  it("prints a successful test delivery", async () => {
+    routes["POST /api/webhooks/wh-001/test"] = () => ({
+      status: 200,
+      body: { delivery: makeDelivery({ event_type: "webhook.test" }) },
+    });
+
+    const out = stripAnsi(await captureRun(() => runWebhooksTest("wh-001", {})));
+    expect(out).toContain("Delivered test event del-001 (HTTP 200)");
+  });
+
+  it("exits 1 when the receiver rejects it", async () => {
+    routes["POST /api/webhooks/wh-001/test"] = () => ({
+      status: 200,
+      body: {
+        delivery: makeDelivery({ status: "pending", last_status_code: 401, last_error: "HTTP 401: bad signature" }),
+      },
+    });
+
+    const out = stripAnsi(await captureRun(() => runWebhooksTest("wh-001", {})));
+    expect(out).toContain("Test delivery failed: HTTP 401: bad signature");
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+});
+
+describe("runWebhooksDeliveries", () => {
+  it("sends the status filter and limit", async () => {
+    routes["GET /api/webhooks/wh-001/deliveries"] = () => ({
+      status: 200,
+      body: { deliveries: [makeDelivery({ status: "failed", attempts: 8, last_error: "timeout" })] },
+    });
+
+    const out = stripAnsi(
+      await captureRun(() => runWebhooksDeliveries("wh-001", { status: "failed", limit: "10" })),
+    );
+    expect(requests[0].search).toBe("?status=failed&limit=10");
+    expect(out).toContain("timeout");
+  });
+
+  it("rejects an unknown status without calling the server", async () => {
+    const out = await captureRun(() => runWebhooksDeliveries("wh-001", { status: "lost" }));
+    expect(out).toContain('Invalid status "lost"');
+    expect(process.exitCode).toBe(1);
+    expect(requests).toHaveLength(0);
+    process.exitCode = 0;
+  });
+});
+
+describe("runWebhooksRemove", () => {
+  it("deletes a webhook by id", async () => {
+    routes["DELETE /api/webhooks/wh-001"] = () => ({ status: 200, body: { deleted: true, id: "wh-001" } });
+
+    const out = stripAnsi(await captureRun(() => runWebhooksRemove("wh-001")));
+    expect(out).toContain("Removed webhook wh-001");
+  });
+});
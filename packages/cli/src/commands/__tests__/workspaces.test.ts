@@ -4,7 +4,7 @@
  * Uses Bun.serve() as a mock HTTP server for real HTTP round-trips through
  * FuelApiClient. Tests the data layer (fetchWorkspaces, fetchWorkspaceDetail),
  * presentation layer (formatWorkspacesTable, formatWorkspaceDetail),
- * workspace name resolution, and error handling.
+ * workspace name resolution, merge/unmerge, and error handling.
  *
  * stdout is captured via spyOn to assert formatted output.
  */
@@ -26,6 +26,10 @@ import {
   fetchWorkspaceDetail,
   formatWorkspacesTable,
   formatWorkspaceDetail,
+  formatWorkspaceMergeResult,
+  formatWorkspaceUnmergeResult,
+  formatWorkspaceMergesTable,
+  createWorkspaceDetailCommand,
 } from "../workspaces.js";
 
 // ---------------------------------------------------------------------------
@@ -40,6 +44,7 @@ interface MockRoute {
 let server: Server;
 let serverPort: number;
 let lastRequestUrl: string;
+let lastRequestBody: unknown;
 let routes: Record<string, MockRoute> = {};
 
 function mockRoute(pathPrefix: string, status: number, body: unknown) {
@@ -56,6 +61,7 @@ beforeAll(() => {
     async fetch(req) {
       const url = new URL(req.url);
       lastRequestUrl = url.pathname + url.search;
+      lastRequestBody = req.method === "POST" ? await req.json() : undefined;
 
       // Find matching route by longest prefix match
       const sorted = Object.entries(routes).sort(
@@ -458,6 +464,109 @@ describe("workspace name resolution", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Tests: Workspace merges
+// ---------------------------------------------------------------------------
+
+const MERGE_RESULT = {
+  merged: true,
+  mergeId: "01HZMERGE0000000000000001",
+  sourceWorkspaceId: "01HZWORKSPACE000000000002",
+  sourceCanonicalId: "local:abc123",
+  targetWorkspaceId: "01HZWORKSPACE000000000001",
+  sessions: 3,
+  events: 1,
+  gitActivity: 0,
+  devices: 1,
+};
+
+describe("workspace merges", () => {
+  beforeEach(() => resetRoutes());
+
+  it("mergeWorkspaces posts source and target", async () => {
+    mockRoute("/api/workspaces/merge", 200, MERGE_RESULT);
+
+    const result = await makeClient().mergeWorkspaces("01HZWORKSPACE000000000002", "01HZWORKSPACE000000000001");
+
+    expect(lastRequestUrl).toBe("/api/workspaces/merge");
+    expect(lastRequestBody).toEqual({
+      source: "01HZWORKSPACE000000000002",
+      target: "01HZWORKSPACE000000000001",
+    });
+    expect(result.sessions).toBe(3);
+  });
+
+  it("unmergeWorkspace sends the canonical ID or merge ID", async () => {
+    mockRoute("/api/workspaces/unmerge", 200, { ...MERGE_RESULT, unmerged: true });
+    const api = makeClient();
+
+    await api.unmergeWorkspace({ canonicalId: "local:abc123" });
+    expect(lastRequestBody).toEqual({ canonical_id: "local:abc123" });
+
+    await api.unmergeWorkspace({ mergeId: MERGE_RESULT.mergeId });
+    expect(lastRequestBody).toEqual({ merge_id: MERGE_RESULT.mergeId });
+  });
+
+  it("listWorkspaceMerges unwraps the envelope and passes --all", async () => {
+    mockRoute("/api/workspaces/merges", 200, { merges: [] });
+
+    expect(await makeClient().listWorkspaceMerges({ all: true })).toEqual([]);
+    expect(lastRequestUrl).toBe("/api/workspaces/merges?all=true");
+  });
+
+  it("surfaces server errors as ApiError", async () => {
+    mockRoute("/api/workspaces/merge", 409, { error: "Source and target are the same workspace" });
+
+    try {
+      await makeClient().mergeWorkspaces("a", "a");
+      expect(true).toBe(false);
+    } catch (err) {
+      expect(err).toBeInstanceOf(ApiError);
+      expect((err as ApiError).statusCode).toBe(409);
+    }
+  });
+
+  it("formats merge and unmerge results with moved counts", () => {
+    const merged = stripAnsi(formatWorkspaceMergeResult(MERGE_RESULT));
+    expect(merged).toContain("Merged local:abc123 into 01HZWORKSPACE000000000001");
+    expect(merged).toContain("3 sessions, 1 event, 0 git events");
+    expect(merged).toContain("fuel-code workspace unmerge local:abc123");
+
+    const restored = stripAnsi(formatWorkspaceUnmergeResult({ ...MERGE_RESULT, unmerged: true, sessions: 1 }));
+    expect(restored).toContain("Restored local:abc123");
+    expect(restored).toContain("1 session, 1 event");
+  });
+
+  it("formats the merges table with status", () => {
+    const table = stripAnsi(
+      formatWorkspaceMergesTable([
+        {
+          id: MERGE_RESULT.mergeId,
+          sourceWorkspaceId: MERGE_RESULT.sourceWorkspaceId,
+          sourceCanonicalId: "local:abc123",
+          targetWorkspaceId: MERGE_RESULT.targetWorkspaceId,
+          targetCanonicalId: "github.com/user/repo",
+          reason: "auto",
+          sessions: 3,
+          mergedAt: new Date().toISOString(),
+          unmergedAt: null,
+        },
+      ]),
+    );
+    expect(table).toContain("SOURCE");
+    expect(table).toContain("local:abc123");
+    expect(table).toContain("github.com/user/repo");
+    expect(table).toContain("active");
+
+    expect(stripAnsi(formatWorkspaceMergesTable([]))).toContain("No workspace merges found.");
+  });
+
+  it("registers merge, unmerge and merges under `workspace`", () => {
+    const cmd = createWorkspaceDetailCommand();
+    expect(cmd.commands.map((c) => c.name())).toEqual(["merge", "unmerge", "merges"]);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Tests: Network error handling
 // ---------------------------------------------------------------------------
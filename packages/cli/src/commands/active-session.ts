@@ -0,0 +1,45 @@
+/**
+ * `fuel-code active-session` command.
+ *
+ * Internal command called by the optional prepare-commit-msg git hook:
+ * prints the ID of the Claude Code session open in a git worktree, so the
+ * hook can add a `Fuel-Session: <id>` trailer to the commit message.
+ *
+ * Design constraints (runs synchronously inside `git commit`):
+ *   - Local only — reads ~/.fuel-code/active-sessions, no network
+ *   - Exit code MUST always be 0; prints nothing when no session is open
+ */
+
+import { Command } from "commander";
+import { findActiveSessionForWorktree } from "../lib/active-sessions.js";
+
+// ---------------------------------------------------------------------------
+// Command definition
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the `active-session` subcommand for the fuel-code CLI.
+ * Returns a Commander Command instance ready to be registered on the program.
+ */
+export function createActiveSessionCommand(): Command {
+  return new Command("active-session")
+    .description("Print the Claude Code session open in a git worktree (used by hooks)")
+    .requiredOption("--worktree <dir>", "Top-level directory of the git worktree")
+    .action((opts: { worktree: string }) => {
+      runActiveSession(opts);
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Core logic — extracted for testability
+// ---------------------------------------------------------------------------
+
+/** Print the session ID (if any) for the worktree. Never throws. */
+export function runActiveSession(opts: { worktree: string }): void {
+  try {
+    const session = findActiveSessionForWorktree(opts.worktree);
+    if (session) process.stdout.write(session.id + "\n");
+  } catch {
+    // Never block a commit
+  }
+}
@@ -0,0 +1,513 @@
+/**
+ * `fuel-code admin` command group.
+ *
+ * Operator commands that act on server-side state rather than the local
+ * machine. Currently:
+ *   - dead-letters list           — Events the server consumer gave up on
+ *   - dead-letters show <id>      — Full failure context and original event
+ *   - dead-letters replay <id>    — Re-publish one (or --all pending) to the stream
+ *   - dead-letters delete [id]    — Discard one, or bulk by --status/--type
+ *   - reap                        — End abandoned sessions (CC crashed, SessionEnd lost)
+ *   - recorrelate                 — Link git activity recorded without a session
+ *
+ * Not to be confused with `fuel-code queue dead-letter`, which lists events
+ * the *CLI* could not deliver. These are events the backend received but
+ * could not process after exhausting its retries.
+ */
+
+import { Command } from "commander";
+import pc from "picocolors";
+import type { DeadLetterEvent } from "@fuel-code/shared";
+import {
+  FuelApiClient,
+  type DeadLetterListParams,
+  type DeadLetterListResponse,
+  type DeadLetterSummary,
+  type ReapSessionsParams,
+  type ReapSessionsResponse,
+  type RecorrelateGitActivityParams,
+  type RecorrelateGitActivityResponse,
+} from "../lib/api-client.js";
+import { resolveWorkspaceName } from "../lib/resolvers.js";
+import { parseRelativeDate } from "./timeline.js";
+import {
+  formatRelativeTime,
+  formatEmpty,
+  formatError,
+  outputResult,
+  renderTable,
+  truncate,
+} from "../lib/formatters.js";
+
+// ---------------------------------------------------------------------------
+// Data Layer
+// ---------------------------------------------------------------------------
+
+/** Outcome of replaying every pending dead letter */
+export interface ReplayAllResult {
+  replayed: string[];
+  errors: Array<{ id: string; error: string }>;
+}
+
+/**
+ * Replay every pending dead letter (optionally of one event type), paging
+ * through the list until it is exhausted. Per-row failures are collected,
+ * not thrown, so one bad row doesn't stop the sweep.
+ */
+export async function replayAllDeadLetters(
+  api: FuelApiClient,
+  opts: { eventType?: string } = {},
+): Promise<ReplayAllResult> {
+  const result: ReplayAllResult = { replayed: [], errors: [] };
+  let cursor: string | undefined;
+
+  do {
+    const page = await api.listDeadLetters({
+      status: "pending",
+      eventType: opts.eventType,
+      limit: 100,
+      cursor,
+    });
+
+    for (const dl of page.dead_letters) {
+      try {
+        await api.replayDeadLetter(dl.id);
+        result.replayed.push(dl.id);
+      } catch (err) {
+        result.errors.push({ id: dl.id, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    cursor = page.has_more && page.next_cursor ? page.next_cursor : undefined;
+  } while (cursor);
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Presentation Layer
+// ---------------------------------------------------------------------------
+
+/** Color a dead-letter status: pending is actionable (yellow), replayed is done */
+function formatDeadLetterStatus(status: string): string {
+  return status === "pending" ? pc.yellow(status) : pc.dim(status);
+}
+
+/** Format a page of dead letters as a table with a pagination footer */
+export function formatDeadLetterList(data: DeadLetterListResponse): string {
+  if (data.dead_letters.length === 0) {
+    return formatEmpty("dead letters");
+  }
+
+  const table = renderTable({
+    columns: [
+      { header: "ID" },
+      { header: "TYPE" },
+      { header: "STATUS" },
+      { header: "TRIES", align: "right" },
+      { header: "HANDLER" },
+      { header: "FAILED" },
+      { header: "ERROR" },
+    ],
+    rows: data.dead_letters.map((dl: DeadLetterSummary) => [
+      dl.id,
+      dl.event_type,
+      formatDeadLetterStatus(dl.status),
+      String(dl.attempts),
+      dl.handler_name ?? pc.dim("-"),
+      formatRelativeTime(dl.last_failed_at),
+      truncate(dl.last_error.replace(/\s+/g, " "), 60),
+    ]),
+  });
+
+  const lines = [table];
+  if (data.has_more && data.next_cursor) {
+    lines.push(pc.dim(`More dead letters available. Next page: --cursor ${data.next_cursor}`));
+  }
+  return lines.join("\n");
+}
+
+/** Format the outcome of a reaper run (or a dry-run preview) */
+export function formatReapResult(result: ReapSessionsResponse): string {
+  if (result.found === 0) {
+    return pc.dim("No abandoned sessions found.");
+  }
+
+  const table = renderTable({
+    columns: [
+      { header: "SESSION" },
+      { header: "LAST ACTIVITY" },
+      { header: "REASON" },
+      { header: "NEXT" },
+    ],
+    rows: result.sessions.map((s) => [
+      s.sessionId.slice(0, 8),
+      formatRelativeTime(s.lastActivityAt),
+      s.reason === "device_offline" ? "device offline" : "idle too long",
+      s.next === "reconcile" ? "reconcile" : pc.dim("awaiting transcript"),
+    ]),
+  });
+
+  const n = result.dryRun ? result.found : result.reaped;
+  const noun = `${n} session${n === 1 ? "" : "s"}`;
+  const lines = [table, ""];
+  if (result.dryRun) {
+    lines.push(`Would end ${noun} as crashed.`, pc.dim("Run without --dry-run to reap."));
+  } else {
+    lines.push(`${pc.green("Ended")} ${noun} as crashed; ${result.reconciled} queued for reconcile.`);
+  }
+
+  if (result.errors.length > 0) {
+    lines.push(pc.red(`${result.errors.length} failed:`));
+    for (const e of result.errors) {
+      lines.push(`  - ${e.sessionId.slice(0, 8)}: ${e.error}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/** Format the outcome of a git activity re-correlation run (or a dry-run preview) */
+export function formatRecorrelateResult(result: RecorrelateGitActivityResponse): string {
+  if (result.scanned === 0) {
+    return pc.dim("No git activity without a session.");
+  }
+
+  const { trailer, active, heuristic } = result.byConfidence;
+  const noun = `${result.correlated} of ${result.scanned} orphan row${result.scanned === 1 ? "" : "s"}`;
+  const lines = [
+    result.dryRun ? `Would link ${noun} to a session.` : `${pc.green("Linked")} ${noun} to a session.`,
+    pc.dim(`  trailer: ${trailer}  active: ${active}  heuristic: ${heuristic}`),
+  ];
+  if (result.dryRun && result.correlated > 0) {
+    lines.push(pc.dim("Run without --dry-run to apply."));
+  }
+  if (result.next_cursor) {
+    lines.push(pc.dim(`More orphan rows remain — continue with --cursor ${result.next_cursor}`));
+  }
+  return lines.join("\n");
+}
+
+/** Format a single dead letter with its failure context and event payload */
+export function formatDeadLetterDetail(dl: DeadLetterEvent): string {
+  const lines = [
+    `${pc.bold(dl.id)}  ${formatDeadLetterStatus(dl.status)}`,
+    `  Event:     ${dl.event_id} (${dl.event_type})`,
+    `  Handler:   ${dl.handler_name ?? "-"}`,
+    `  Attempts:  ${dl.attempts}`,
+    `  Stream ID: ${dl.stream_id}`,
+    `  First failed: ${formatRelativeTime(dl.first_failed_at)}`,
+    `  Last failed:  ${formatRelativeTime(dl.last_failed_at)}`,
+  ];
+
+  if (dl.replay_count > 0) {
+    lines.push(`  Replayed:  ${dl.replay_count}x, last ${formatRelativeTime(dl.replayed_at)}`);
+  }
+
+  lines.push("", pc.bold("Last error"), `  ${pc.red(dl.last_error)}`);
+  lines.push("", pc.bold("Event"), JSON.stringify(dl.event, null, 2));
+
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Commander Registration
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the `admin` command group with the `dead-letters` subgroup.
+ * Returns a Commander Command instance ready to be registered on the program.
+ */
+export function createAdminCommand(): Command {
+  const cmd = new Command("admin").description("Server administration commands");
+
+  const deadLetters = new Command("dead-letters")
+    .description("Inspect and replay events the server failed to process");
+
+  // --- admin dead-letters list (default) ---
+  deadLetters
+    .command("list", { isDefault: true })
+    .description("List dead-lettered events, newest failure first")
+    .option("--status <status>", "Filter by status (pending, replayed)")
+    .option("--type <event_type>", "Filter by event type (e.g., git.commit)")
+    .option("-n, --limit <n>", "Rows per page (default 50)", "50")
+    .option("--cursor <cursor>", "Pagination cursor for next page")
+    .option("--json", "Output raw JSON")
+    .action(async (opts) => {
+      await runDeadLettersList(opts);
+    });
+
+  // --- admin dead-letters show <id> ---
+  deadLetters
+    .command("show <id>")
+    .description("Show a dead letter's error and original event")
+    .option("--json", "Output raw JSON")
+    .action(async (id: string, opts) => {
+      await runDeadLettersShow(id, opts);
+    });
+
+  // --- admin dead-letters replay [id] ---
+  deadLetters
+    .command("replay [id]")
+    .description("Re-publish a dead-lettered event to the event stream")
+    .option("--all", "Replay every pending dead letter")
+    .option("--type <event_type>", "With --all, only replay this event type")
+    .action(async (id: string | undefined, opts) => {
+      await runDeadLettersReplay(id, opts);
+    });
+
+  // --- admin dead-letters delete [id] ---
+  deadLetters
+    .command("delete [id]")
+    .description("Discard a dead letter, or bulk discard with --status/--type")
+    .option("--status <status>", "Bulk delete dead letters with this status")
+    .option("--type <event_type>", "Bulk delete dead letters of this event type")
+    .action(async (id: string | undefined, opts) => {
+      await runDeadLettersDelete(id, opts);
+    });
+
+  cmd.addCommand(deadLetters);
+
+  // --- admin reap ---
+  cmd
+    .command("reap")
+    .description("End sessions stuck in 'detected' whose SessionEnd never arrived")
+    .option("--idle-minutes <n>", "Quiet time before a session on an offline device is reaped")
+    .option("--offline-minutes <n>", "Time since the device was last seen to count as offline")
+    .option("--max-idle-hours <n>", "Quiet time before a session is reaped regardless of device")
+    .option("-n, --limit <n>", "Max sessions to reap in this run")
+    .option("--dry-run", "List abandoned sessions without ending them")
+    .option("--json", "Output raw JSON")
+    .action(async (opts) => {
+      await runReap(opts);
+    });
+
+  // --- admin recorrelate ---
+  cmd
+    .command("recorrelate")
+    .description("Link git activity recorded without a session, using commit trailers and heuristics")
+    .option("--workspace <name>", "Only this workspace (name or ID)")
+    .option("--since <date>", "Only activity since this date (ISO-8601 or relative: -3d, -1w)")
+    .option("-n, --limit <n>", "Max orphan rows to examine (default 1000)")
+    .option("--cursor <cursor>", "Continue after the batch a previous run examined")
+    .option("--dry-run", "Count matches without linking them")
+    .option("--json", "Output raw JSON")
+    .action(async (opts) => {
+      await runRecorrelate(opts);
+    });
+
+  return cmd;
+}
+
+// ---------------------------------------------------------------------------
+// Command Handlers
+// ---------------------------------------------------------------------------
+
+/** Build an API client from config, printing the error and returning null on failure */
+function clientOrExit(): FuelApiClient | null {
+  try {
+    return FuelApiClient.fromConfig();
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+    return null;
+  }
+}
+
+/** Validate a --status option value */
+function parseStatus(status: string | undefined): DeadLetterListParams["status"] | null {
+  if (status === undefined) return undefined;
+  if (status === "pending" || status === "replayed") return status;
+  process.stdout.write(pc.red(`Invalid status "${status}". Use pending or replayed.`) + "\n");
+  process.exitCode = 1;
+  return null;
+}
+
+/** `fuel-code admin dead-letters list` */
+export async function runDeadLettersList(opts: {
+  status?: string;
+  type?: string;
+  limit?: string;
+  cursor?: string;
+  json?: boolean;
+}): Promise<void> {
+  const status = parseStatus(opts.status);
+  if (status === null) return;
+
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    const data = await api.listDeadLetters({
+      status,
+      eventType: opts.type,
+      limit: parseInt(opts.limit ?? "50", 10),
+      cursor: opts.cursor,
+    });
+    outputResult(data, { json: opts.json, format: formatDeadLetterList });
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
+
+/** `fuel-code admin dead-letters show <id>` */
+export async function runDeadLettersShow(id: string, opts: { json?: boolean }): Promise<void> {
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    const dl = await api.getDeadLetter(id);
+    outputResult(dl, { json: opts.json, format: formatDeadLetterDetail });
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
+
+/** `fuel-code admin dead-letters replay <id>` / `replay --all [--type t]` */
+export async function runDeadLettersReplay(
+  id: string | undefined,
+  opts: { all?: boolean; type?: string },
+): Promise<void> {
+  if (!id && !opts.all) {
+    process.stdout.write(pc.red("Specify a dead letter ID or --all.") + "\n");
+    process.exitCode = 1;
+    return;
+  }
+
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    if (id) {
+      const res = await api.replayDeadLetter(id);
+      process.stdout.write(
+        `${pc.green("Replayed")} ${id} (${res.dead_letter.event_type}) as stream entry ${res.stream_id}\n`,
+      );
+      return;
+    }
+
+    const result = await replayAllDeadLetters(api, { eventType: opts.type });
+    const count = result.replayed.length;
+    process.stdout.write(`${pc.green("Replayed")} ${count} dead letter${count === 1 ? "" : "s"}\n`);
+
+    if (result.errors.length > 0) {
+      process.stdout.write(pc.red(`${result.errors.length} failed:`) + "\n");
+      for (const e of result.errors) {
+        process.stdout.write(`  - ${e.id}: ${e.error}\n`);
+      }
+      process.exitCode = 1;
+    }
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
+
+/** `fuel-code admin dead-letters delete <id>` / `delete --status s [--type t]` */
+export async function runDeadLettersDelete(
+  id: string | undefined,
+  opts: { status?: string; type?: string },
+): Promise<void> {
+  const status = parseStatus(opts.status);
+  if (status === null) return;
+
+  if (!id && !status && !opts.type) {
+    process.stdout.write(pc.red("Specify a dead letter ID, or --status/--type for a bulk delete.") + "\n");
+    process.exitCode = 1;
+    return;
+  }
+
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    if (id) {
+      await api.deleteDeadLetter(id);
+      process.stdout.write(`Deleted ${id}\n`);
+      return;
+    }
+
+    const deleted = await api.purgeDeadLetters({ status, eventType: opts.type });
+    process.stdout.write(`Deleted ${deleted} dead letter${deleted === 1 ? "" : "s"}\n`);
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
+
+/** `fuel-code admin reap [--dry-run] [thresholds]` — unset thresholds use the server's config */
+export async function runReap(opts: {
+  idleMinutes?: string;
+  offlineMinutes?: string;
+  maxIdleHours?: string;
+  limit?: string;
+  dryRun?: boolean;
+  json?: boolean;
+}): Promise<void> {
+  const params: ReapSessionsParams = { dryRun: opts.dryRun };
+  const numeric: Array<[string, string | undefined, keyof ReapSessionsParams]> = [
+    ["--idle-minutes", opts.idleMinutes, "idleMinutes"],
+    ["--offline-minutes", opts.offlineMinutes, "offlineMinutes"],
+    ["--max-idle-hours", opts.maxIdleHours, "maxIdleHours"],
+    ["--limit", opts.limit, "limit"],
+  ];
+  for (const [flag, raw, key] of numeric) {
+    if (raw === undefined) continue;
+    const n = parseInt(raw, 10);
+    if (!Number.isInteger(n) || n < 1) {
+      process.stdout.write(pc.red(`Invalid ${flag} "${raw}". Use a positive number.`) + "\n");
+      process.exitCode = 1;
+      return;
+    }
+    (params as Record<string, unknown>)[key] = n;
+  }
+
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    const result = await api.reapSessions(params);
+    outputResult(result, { json: opts.json, format: formatReapResult });
+    if (result.errors.length > 0) process.exitCode = 1;
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
+
+/** `fuel-code admin recorrelate [--workspace] [--since] [--limit] [--cursor] [--dry-run]` */
+export async function runRecorrelate(opts: {
+  workspace?: string;
+  since?: string;
+  limit?: string;
+  cursor?: string;
+  dryRun?: boolean;
+  json?: boolean;
+}): Promise<void> {
+  const params: RecorrelateGitActivityParams = { dryRun: opts.dryRun };
+  if (opts.limit !== undefined) {
+    const n = parseInt(opts.limit, 10);
+    if (!Number.isInteger(n) || n < 1) {
+      process.stdout.write(pc.red(`Invalid --limit "${opts.limit}". Use a positive number.`) + "\n");
+      process.exitCode = 1;
+      return;
+    }
+    params.limit = n;
+  }
+  if (opts.since) params.since = parseRelativeDate(opts.since);
+  if (opts.cursor) params.cursor = opts.cursor;
+
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    if (opts.workspace) params.workspaceId = await resolveWorkspaceName(api, opts.workspace);
+    const result = await api.recorrelateGitActivity(params);
+    outputResult(result, { json: opts.json, format: formatRecorrelateResult });
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * `fuel-code archive` command.
+ *
+ * Archives old sessions on the server: for complete sessions that ended more
+ * than --older-than days ago, the server verifies the parsed.json backup in
+ * S3 and then deletes the session's parsed transcript rows. Archived
+ * transcripts are still readable (served from the backup) and can be put
+ * back with `fuel-code session <id> --restore`.
+ *
+ * --dry-run lists the sessions that would be archived and how much database
+ * space that would reclaim, without changing anything.
+ */
+
+import { Command } from "commander";
+import pc from "picocolors";
+import { FuelApiClient, type ArchiveSessionsResponse } from "../lib/api-client.js";
+import {
+  formatBytes,
+  formatRelativeTime,
+  formatError,
+  outputResult,
+  renderTable,
+} from "../lib/formatters.js";
+
+// ---------------------------------------------------------------------------
+// Presentation Layer
+// ---------------------------------------------------------------------------
+
+/** Plural helper for "N session(s)" */
+function sessions(n: number): string {
+  return `${n} session${n === 1 ? "" : "s"}`;
+}
+
+/** Format a dry-run report: one row per candidate plus the reclaimable total */
+function formatDryRun(result: ArchiveSessionsResponse): string {
+  const candidates = result.candidates ?? [];
+  if (candidates.length === 0) {
+    return pc.dim("No sessions are old enough to archive.");
+  }
+
+  const table = renderTable({
+    columns: [
+      { header: "SESSION" },
+      { header: "ENDED" },
+      { header: "MESSAGES", align: "right" },
+      { header: "BLOCKS", align: "right" },
+      { header: "SIZE", align: "right" },
+    ],
+    rows: candidates.map((c) => [
+      c.sessionId.slice(0, 8),
+      formatRelativeTime(c.endedAt),
+      String(c.messageCount),
+      String(c.blockCount),
+      formatBytes(c.bytes),
+    ]),
+  });
+
+  return [
+    table,
+    "",
+    `Would archive ${sessions(result.found)}, reclaiming ~${formatBytes(result.reclaimedBytes)}.`,
+    pc.dim("Run without --dry-run to archive."),
+  ].join("\n");
+}
+
+/** Format the outcome of an archive sweep (or a dry-run preview) */
+export function formatArchiveResult(result: ArchiveSessionsResponse): string {
+  if (result.dryRun) return formatDryRun(result);
+
+  if (result.found === 0) {
+    return pc.dim("No sessions are old enough to archive.");
+  }
+
+  const lines = [
+    `${pc.green("Archived")} ${sessions(result.archived)}, reclaiming ~${formatBytes(result.reclaimedBytes)}.`,
+  ];
+
+  if (result.skipped.length > 0) {
+    lines.push(pc.yellow(`Skipped ${sessions(result.skipped.length)}:`));
+    for (const s of result.skipped) {
+      lines.push(`  - ${s.sessionId.slice(0, 8)}: ${s.reason}`);
+    }
+  }
+
+  if (result.errors.length > 0) {
+    lines.push(pc.red(`${result.errors.length} failed:`));
+    for (const e of result.errors) {
+      lines.push(`  - ${e.sessionId.slice(0, 8)}: ${e.error}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Commander Registration
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the `archive` subcommand.
+ * Returns a Commander Command instance ready to be registered on the program.
+ */
+export function createArchiveCommand(): Command {
+  return new Command("archive")
+    .description("Archive parsed transcripts of old sessions to reclaim database space")
+    .option("--older-than <days>", "Archive sessions that ended more than N days ago", "90")
+    .option("-n, --limit <n>", "Max sessions to archive in this run", "100")
+    .option("--dry-run", "Show what would be archived and the space reclaimed")
+    .option("--json", "Output raw JSON")
+    .action(async (opts) => {
+      await runArchive(opts);
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Command Handler
+// ---------------------------------------------------------------------------
+
+/** `fuel-code archive [--older-than N] [--limit N] [--dry-run]` */
+export async function runArchive(opts: {
+  olderThan?: string;
+  limit?: string;
+  dryRun?: boolean;
+  json?: boolean;
+}): Promise<void> {
+  const olderThanDays = parseInt(opts.olderThan ?? "90", 10);
+  const limit = parseInt(opts.limit ?? "100", 10);
+
+  if (!Number.isInteger(olderThanDays) || olderThanDays < 1) {
+    process.stdout.write(pc.red(`Invalid --older-than "${opts.olderThan}". Use a positive number of days.`) + "\n");
+    process.exitCode = 1;
+    return;
+  }
+
+  let api: FuelApiClient;
+  try {
+    api = FuelApiClient.fromConfig();
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const result = await api.archiveSessions({ olderThanDays, limit, dryRun: opts.dryRun });
+    outputResult(result, { json: opts.json, format: formatArchiveResult });
+    if (result.errors.length > 0) process.exitCode = 1;
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
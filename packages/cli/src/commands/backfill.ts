@@ -36,6 +36,7 @@ import {
 import type { BackfillResult } from "@fuel-code/core";
 import { configExists, loadConfig, getConfigDir } from "../lib/config.js";
 import { FuelApiClient } from "../lib/api-client.js";
+import { formatBytes } from "../lib/formatters.js";
 
 // ---------------------------------------------------------------------------
 // Command factory
@@ -575,15 +576,6 @@ function buildProgressBar(
   return "[" + "\u2588".repeat(filled) + "\u2591".repeat(empty) + "]";
 }
 
-/** Format bytes into a human-readable string */
-function formatBytes(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
-  if (bytes < 1024 * 1024 * 1024)
-    return `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
-  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
-}
-
 /**
  * Classify a raw exception message into a human-readable error category label.
  *
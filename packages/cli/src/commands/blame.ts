@@ -0,0 +1,242 @@
+/**
+ * `fuel-code blame <path>` command.
+ *
+ * Lists, oldest first, the sessions that read or wrote a file and the commits
+ * that changed it, from GET /api/workspaces/:id/files. A directory matches
+ * every file under it.
+ *
+ *   fuel-code blame src/auth/middleware.ts   — One file in the current repo
+ *   fuel-code blame src/auth                 — Everything under src/auth
+ *   fuel-code blame lib/db.ts -w other-repo  — A repo-relative path elsewhere
+ *
+ * Without --workspace the path is resolved against the current directory and
+ * made relative to the repository root, and the workspace is the current
+ * repo's canonical ID (same derivation as the hooks). With --workspace the
+ * path is taken as repo-relative.
+ *
+ * Data layer (resolveRepoPath, fetchFileHistory) and presentation
+ * (formatFileHistory) are separated so the TUI can reuse them.
+ */
+
+import { Command } from "commander";
+import { execSync } from "node:child_process";
+import { isAbsolute, posix, relative } from "node:path";
+import pc from "picocolors";
+import {
+  deriveWorkspaceCanonicalId,
+  type FileHistoryEntry,
+  type FileHistoryResponse,
+} from "@fuel-code/shared";
+import { FuelApiClient, ApiError, ApiConnectionError } from "../lib/api-client.js";
+import { formatError, outputResult, truncate } from "../lib/formatters.js";
+
+// ---------------------------------------------------------------------------
+// Data Layer — exported for TUI reuse
+// ---------------------------------------------------------------------------
+
+/** The current repo's workspace and a path inside it */
+export interface RepoPath {
+  /** Workspace canonical ID derived from the remote (or first commit) */
+  canonicalId: string;
+  /** Path relative to the repository root ("." for the root itself) */
+  path: string;
+}
+
+/** Run a git command in cwd, returning trimmed stdout or null on failure */
+function gitOutput(args: string, cwd: string): string | null {
+  try {
+    return execSync(`git ${args}`, { cwd, stdio: "pipe", timeout: 5000 }).toString().trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a path given on the command line to the current repo's workspace
+ * and a repo-relative path.
+ *
+ * Throws if cwd is not inside a git work tree or the path lies outside it.
+ */
+export function resolveRepoPath(path: string, cwd: string = process.cwd()): RepoPath {
+  const toplevel = gitOutput("rev-parse --show-toplevel", cwd);
+  if (!toplevel) {
+    throw new Error("Not inside a git repository. Pass --workspace to name one.");
+  }
+
+  const repoPath = isAbsolute(path)
+    ? relative(toplevel, path).split("\\").join("/")
+    : posix.normalize(posix.join(gitOutput("rev-parse --show-prefix", cwd) ?? "", path));
+  const normalized = repoPath.replace(/\/+$/, "");
+  if (normalized === ".." || normalized.startsWith("../")) {
+    throw new Error(`${path} is outside the repository at ${toplevel}.`);
+  }
+
+  const remotes = (gitOutput("remote", cwd) ?? "").split("\n").map((r) => r.trim()).filter(Boolean);
+  const remote = remotes.includes("origin") ? "origin" : remotes.sort()[0];
+  const remoteUrl = remote ? gitOutput(`remote get-url ${remote}`, cwd) : null;
+  const firstCommit = gitOutput("rev-list --max-parents=0 HEAD", cwd)?.split("\n")[0] ?? null;
+
+  return {
+    canonicalId: deriveWorkspaceCanonicalId(remoteUrl, firstCommit),
+    path: normalized || ".",
+  };
+}
+
+/** Fetch the sessions and commits that touched a path */
+export async function fetchFileHistory(
+  api: FuelApiClient,
+  workspace: string,
+  path: string,
+  limit?: number,
+): Promise<FileHistoryResponse> {
+  return api.getWorkspaceFiles(workspace, path, { limit });
+}
+
+// ---------------------------------------------------------------------------
+// Presentation Layer
+// ---------------------------------------------------------------------------
+
+/** "2025-01-15 10:05" in local time */
+function formatDateTime(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** Render one entry: a header line, plus the matching paths for directory queries */
+function renderEntry(entry: FileHistoryEntry, queriedPath: string): string[] {
+  const lines: string[] = [];
+  const when = pc.dim(formatDateTime(entry.timestamp));
+
+  if (entry.kind === "session") {
+    const access = entry.access === "write" ? pc.yellow("wrote") : pc.dim("read ");
+    const title = entry.summary ?? entry.initial_prompt ?? "(no summary)";
+    lines.push(
+      `${when}  ${pc.cyan("session")}  ${pc.bold(entry.session_id.slice(0, 8))}  ${access}  ` +
+        `${truncate(title.replace(/\s+/g, " "), 80)}  ${pc.dim(entry.tools.join(", "))}`,
+    );
+  } else {
+    const sha = (entry.commit_sha ?? "").slice(0, 7).padEnd(8);
+    const session = entry.session_id ? pc.dim(`  (session ${entry.session_id.slice(0, 8)})`) : "";
+    lines.push(
+      `${when}  ${pc.yellow("commit ")}  ${pc.bold(sha)}  ${pc.yellow("wrote")}  ` +
+        `${truncate((entry.message ?? "").split("\n")[0], 80)}${session}`,
+    );
+  }
+
+  // A file query matches only itself; for a directory, list the files touched
+  for (const p of entry.paths.filter((p) => p !== queriedPath)) {
+    lines.push(`                    ${pc.dim(p)}`);
+  }
+  return lines;
+}
+
+/** Format file history oldest first, with a session/commit count header */
+export function formatFileHistory(data: FileHistoryResponse): string {
+  const label = data.path || "(repository root)";
+  if (data.entries.length === 0) {
+    return pc.dim(`No sessions or commits touched ${label}.`);
+  }
+
+  const sessions = data.entries.filter((e) => e.kind === "session").length;
+  const commits = data.entries.length - sessions;
+  const lines: string[] = [
+    `${pc.bold(label)}  ${pc.dim(
+      `${sessions} session${sessions !== 1 ? "s" : ""}, ${commits} commit${commits !== 1 ? "s" : ""}`,
+    )}`,
+    "",
+  ];
+
+  for (const entry of data.entries) {
+    lines.push(...renderEntry(entry, data.path));
+  }
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Error Formatting (command-specific messages)
+// ---------------------------------------------------------------------------
+
+function formatBlameError(error: unknown, baseUrl?: string): string {
+  if (error instanceof ApiConnectionError) {
+    return pc.red(
+      `Cannot connect to backend at ${baseUrl ?? "unknown"}. Is it running?`,
+    );
+  }
+  if (error instanceof ApiError) {
+    if (error.statusCode === 401) {
+      return pc.red("Invalid API key. Run 'fuel-code init' to reconfigure.");
+    }
+    if (error.statusCode === 404) {
+      return pc.red("Workspace not found. Has fuel-code recorded any activity in this repo?");
+    }
+  }
+  return formatError(error);
+}
+
+// ---------------------------------------------------------------------------
+// Commander Registration
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the `blame` subcommand for the fuel-code CLI.
+ * Returns a Commander Command instance ready to be registered on the program.
+ */
+export function createBlameCommand(): Command {
+  const cmd = new Command("blame")
+    .description("List the sessions and commits that touched a file or directory")
+    .argument("<path>", "File or directory (repo-relative with --workspace)")
+    .option("-w, --workspace <name>", "Workspace name, canonical ID, or ULID (default: current repo)")
+    .option("-n, --limit <n>", "Most recent sessions and commits to include (default 100)", "100")
+    .option("--json", "Output raw JSON")
+    .action(async (path: string, opts) => {
+      await runBlame(path, opts);
+    });
+
+  return cmd;
+}
+
+// ---------------------------------------------------------------------------
+// Command Handler
+// ---------------------------------------------------------------------------
+
+/**
+ * Core blame logic. Resolves the workspace and path, fetches, renders.
+ * Separated from Commander for testability.
+ */
+export async function runBlame(
+  path: string,
+  opts: { workspace?: string; limit?: string; json?: boolean },
+): Promise<void> {
+  // With --workspace the path is already repo-relative; the server normalizes it
+  let target: RepoPath;
+  try {
+    target = opts.workspace
+      ? { canonicalId: opts.workspace, path }
+      : resolveRepoPath(path);
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+    return;
+  }
+
+  let api: FuelApiClient;
+  try {
+    api = FuelApiClient.fromConfig();
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+    return;
+  }
+
+  const baseUrl = (api as any).baseUrl as string;
+
+  try {
+    const limit = parseInt(opts.limit ?? "100", 10);
+    const data = await fetchFileHistory(api, target.canonicalId, target.path, limit);
+    outputResult(data, { json: opts.json, format: formatFileHistory });
+  } catch (err) {
+    process.stdout.write(formatBlameError(err, baseUrl) + "\n");
+    process.exitCode = 1;
+  }
+}
@@ -18,6 +18,8 @@
  *   post-tool-use   — Handle PostToolUse hook (dispatches by tool_name)
  *   worktree-create — Handle WorktreeCreate hook (emits worktree.create event)
  *   worktree-remove — Handle WorktreeRemove hook (emits worktree.remove event)
+ *   user-prompt     — Handle UserPromptSubmit hook (emits session.prompt event)
+ *   pre-compact     — Handle PreCompact hook (emits session.compact event + optional snapshot)
  *
  * Constraints:
  *   - Must produce NO stdout (could confuse CC)
@@ -26,10 +28,13 @@
  */
 
 import { basename, dirname, join } from "node:path";
-import { readdirSync, existsSync } from "node:fs";
+import { readdirSync, existsSync, readFileSync } from "node:fs";
 import { Command } from "commander";
 import { execSync } from "../lib/exec.js";
+import { loadConfig } from "../lib/config.js";
+import { preparePrompt } from "../lib/prompt-redaction.js";
 import { deriveWorkspaceCanonicalId } from "../lib/workspace.js";
+import { recordActiveSession, forgetActiveSession } from "../lib/active-sessions.js";
 import { runEmit } from "./emit.js";
 import { runTranscriptUpload } from "./transcript.js";
 
@@ -41,6 +46,8 @@ interface WorkspaceInfo {
   workspaceId: string;
   gitBranch: string | null;
   gitRemote: string | null;
+  /** "local:<sha256>" from the first commit, even when a remote exists */
+  localWorkspaceId: string | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -64,6 +71,8 @@ export function createCCHookCommand(): Command {
   cmd.addCommand(createPostToolUseHandler());
   cmd.addCommand(createWorktreeCreateHandler());
   cmd.addCommand(createWorktreeRemoveHandler());
+  cmd.addCommand(createUserPromptHandler());
+  cmd.addCommand(createPreCompactHandler());
 
   return cmd;
 }
@@ -101,6 +110,11 @@ function createSessionStartHandler(): Command {
         const model = context.model ? String(context.model).trim() : null;
 
         const workspace = resolveWorkspace(cwd);
+        // The session may start in a subdirectory; the server indexes file
+        // paths relative to the worktree root, like commit file lists
+        const worktree = workspace.workspaceId !== "_unassociated"
+          ? execSilent("git rev-parse --show-toplevel", cwd)
+          : null;
 
         let ccVersion = "unknown";
         try {
@@ -117,14 +131,30 @@ function createSessionStartHandler(): Command {
         const payload = {
           cc_session_id: sessionId,
           cwd,
+          ...(worktree ? { git_root: worktree } : {}),
           git_branch: workspace.gitBranch,
           git_remote: workspace.gitRemote,
           cc_version: ccVersion,
           model,
           source,
           transcript_path: transcriptPath,
+          // Lets the server merge the workspace this repo had before it got a remote
+          ...(workspace.localWorkspaceId && workspace.localWorkspaceId !== workspace.workspaceId
+            ? { local_workspace_id: workspace.localWorkspaceId }
+            : {}),
         };
 
+        // Track the open session so background drains can report its
+        // transcript activity to the reaper (and upload it if CC crashes),
+        // and so the prepare-commit-msg hook can find it by worktree
+        if (transcriptPath) {
+          recordActiveSession({
+            id: sessionId,
+            transcript_path: transcriptPath,
+            ...(worktree ? { worktree } : {}),
+          });
+        }
+
         // session_id is null for session.start events because the session row
         // doesn't exist yet — the event handler creates it. The cc_session_id
         // is carried in the payload data for the handler to use.
@@ -212,6 +242,9 @@ function createSessionEndHandler(): Command {
           workspaceId: workspace.workspaceId,
         });
 
+        // Session ended normally — no longer needs activity reports
+        forgetActiveSession(sessionId);
+
         // Upload transcript directly (runTranscriptUpload never throws, has 120s timeout)
         if (transcriptPath) {
           await runTranscriptUpload(sessionId, transcriptPath);
@@ -542,6 +575,168 @@ function createWorktreeRemoveHandler(): Command {
     });
 }
 
+// ---------------------------------------------------------------------------
+// user-prompt handler
+// ---------------------------------------------------------------------------
+
+/**
+ * UserPromptSubmit hook. CC injects this hook's stdout into the model's
+ * context, so — as with every handler here — nothing may be written to
+ * stdout. Redaction patterns come from the optional `prompts` config
+ * section; an unreadable config means "capture, no redaction".
+ */
+function createUserPromptHandler(): Command {
+  return new Command("user-prompt")
+    .description("Handle Claude Code UserPromptSubmit hook")
+    .action(async () => {
+      try {
+        const input = await readStdin();
+
+        let context: Record<string, unknown>;
+        try {
+          context = JSON.parse(input);
+        } catch {
+          process.exit(0);
+          return;
+        }
+
+        const sessionId = String(context.session_id ?? "").trim();
+        const rawPrompt = String(context.prompt ?? "");
+        if (!sessionId || !rawPrompt.trim()) {
+          process.exit(0);
+          return;
+        }
+
+        let promptConfig: { capture: boolean; redact_patterns: string[] } | undefined;
+        try {
+          promptConfig = loadConfig().prompts;
+        } catch {
+          // No config — emit will queue the event regardless
+        }
+
+        if (promptConfig?.capture === false) {
+          process.exit(0);
+          return;
+        }
+
+        const cwd = String(context.cwd ?? process.cwd()).trim();
+        const workspace = resolveWorkspace(cwd);
+        const prompt = preparePrompt(rawPrompt, promptConfig?.redact_patterns);
+
+        const payload = {
+          cc_session_id: sessionId,
+          prompt: prompt.text,
+          redacted: prompt.redacted,
+          truncated: prompt.truncated,
+          git_branch: workspace.gitBranch,
+        };
+
+        await runEmit("session.prompt", {
+          data: JSON.stringify(payload),
+          workspaceId: workspace.workspaceId,
+        });
+      } catch {
+        // Swallow all errors — hooks must never fail
+      }
+
+      process.exit(0);
+    });
+}
+
+// ---------------------------------------------------------------------------
+// pre-compact handler
+// ---------------------------------------------------------------------------
+
+/**
+ * PreCompact hook. Fires before CC compacts the context, while the full
+ * pre-compaction conversation is still in the transcript file. The
+ * compaction index is the number of compact_boundary lines CC has already
+ * written, which matches the compact_sequence the parser assigns later.
+ *
+ * With `transcripts.snapshot_on_compact` enabled the transcript is uploaded
+ * as a snapshot first, so the event can carry the snapshot's S3 key.
+ */
+function createPreCompactHandler(): Command {
+  return new Command("pre-compact")
+    .description("Handle Claude Code PreCompact hook")
+    .action(async () => {
+      try {
+        const input = await readStdin();
+
+        let context: Record<string, unknown>;
+        try {
+          context = JSON.parse(input);
+        } catch {
+          process.exit(0);
+          return;
+        }
+
+        const sessionId = String(context.session_id ?? "").trim();
+        if (!sessionId) {
+          process.exit(0);
+          return;
+        }
+
+        const cwd = String(context.cwd ?? process.cwd()).trim();
+        const transcriptPath = String(context.transcript_path ?? "").trim();
+        const trigger = context.trigger === "manual" || context.trigger === "auto"
+          ? context.trigger
+          : undefined;
+
+        const workspace = resolveWorkspace(cwd);
+        const compactSequence = countCompactBoundaries(transcriptPath);
+
+        let snapshotOnCompact = false;
+        try {
+          snapshotOnCompact = loadConfig().transcripts?.snapshot_on_compact ?? false;
+        } catch {
+          // No config — emit will queue the event regardless
+        }
+
+        let snapshotS3Key: string | null = null;
+        if (snapshotOnCompact && transcriptPath) {
+          snapshotS3Key = await runTranscriptUpload(
+            sessionId,
+            transcriptPath,
+            undefined,
+            compactSequence,
+          );
+        }
+
+        const payload = {
+          cc_session_id: sessionId,
+          compact_sequence: compactSequence,
+          transcript_path: transcriptPath,
+          trigger,
+          snapshot_s3_key: snapshotS3Key,
+        };
+
+        await runEmit("session.compact", {
+          data: JSON.stringify(payload),
+          workspaceId: workspace.workspaceId,
+        });
+      } catch {
+        // Swallow all errors — hooks must never fail
+      }
+
+      process.exit(0);
+    });
+}
+
+/**
+ * Count the compact_boundary lines CC has written to a transcript so far.
+ * Returns 0 if the file can't be read (the boundary count is best-effort).
+ */
+function countCompactBoundaries(transcriptPath: string): number {
+  if (!transcriptPath) return 0;
+  try {
+    const text = readFileSync(transcriptPath, "utf-8");
+    return text.match(/"subtype"\s*:\s*"compact_boundary"/g)?.length ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Sub-agent transcript discovery
 // ---------------------------------------------------------------------------
@@ -618,6 +813,7 @@ function resolveWorkspace(cwd: string): WorkspaceInfo {
       workspaceId: "_unassociated",
       gitBranch: null,
       gitRemote: null,
+      localWorkspaceId: null,
     };
   }
 
@@ -640,23 +836,25 @@ function resolveWorkspace(cwd: string): WorkspaceInfo {
     }
   }
 
-  let firstCommitHash: string | null = null;
-  if (!gitRemote) {
-    firstCommitHash = execSilent(
-      "git rev-list --max-parents=0 HEAD",
-      cwd,
-    );
-    if (firstCommitHash) {
-      firstCommitHash = firstCommitHash.split("\n")[0].trim();
-    }
+  // The first commit identifies local-only repos, and lets the server fold
+  // a repo's local workspace into its remote one once a remote is added
+  let firstCommitHash = execSilent(
+    "git rev-list --max-parents=0 HEAD",
+    cwd,
+  );
+  if (firstCommitHash) {
+    firstCommitHash = firstCommitHash.split("\n")[0].trim();
   }
 
   const workspaceId = deriveWorkspaceCanonicalId(
     gitRemote,
     firstCommitHash,
   );
+  const localWorkspaceId = firstCommitHash
+    ? deriveWorkspaceCanonicalId(null, firstCommitHash)
+    : null;
 
-  return { workspaceId, gitBranch, gitRemote };
+  return { workspaceId, gitBranch, gitRemote, localWorkspaceId };
 }
 
 /**
@@ -14,8 +14,9 @@
  *   1. Load config. If missing, try to queue with hardcoded path, exit 0.
  *   2. Parse --data JSON. If invalid, wrap as { _raw: theString }, log warning.
  *   3. Construct Event object with ULID, timestamps, device/workspace/session IDs.
- *   4. Attempt HTTP POST to backend. On success, exit 0.
- *   5. On any failure, fall through to local queue. Exit 0.
+ *   4. Attempt HTTP POST to backend, piggybacking a device heartbeat when
+ *      one is due. On success, exit 0.
+ *   5. On any failure, fall through to local queue (event only). Exit 0.
  */
 
 import { Command } from "commander";
@@ -24,6 +25,7 @@ import { generateId, type Event, type EventType } from "@fuel-code/shared";
 import { loadConfig, QUEUE_DIR, type FuelCodeConfig } from "../lib/config.js";
 import { createApiClient } from "../lib/api-client.js";
 import { enqueueEvent } from "../lib/queue.js";
+import { buildHeartbeatEvent, isHeartbeatDue, markHeartbeatSent } from "../lib/heartbeat.js";
 
 // ---------------------------------------------------------------------------
 // Logger — writes to stderr to keep stdout clean for hooks
@@ -160,11 +162,17 @@ export async function runEmit(
     blob_refs: [],
   };
 
-  // 4. Attempt HTTP POST to backend (only if we have config)
+  // 4. Attempt HTTP POST to backend (only if we have config).
+  // A due heartbeat rides along in the same request; it is never queued.
   if (config) {
+    const heartbeat =
+      eventType !== "system.heartbeat" && isHeartbeatDue()
+        ? buildHeartbeatEvent(config, "hook")
+        : null;
     try {
       const client = createApiClient(config);
-      await client.ingest([event]);
+      await client.ingest(heartbeat ? [event, heartbeat] : [event]);
+      if (heartbeat) markHeartbeatSent();
       // Success — exit silently
       return;
     } catch (err) {
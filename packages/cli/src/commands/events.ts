@@ -0,0 +1,316 @@
+/**
+ * `fuel-code events` command.
+ *
+ * Queries raw events across sessions via GET /api/events — including the
+ * ones no session view shows (orphan git activity, subagent and system
+ * events). Filters map 1:1 to the endpoint: type globs, workspace, device,
+ * session, time range and a SQL/JSON path predicate on the event data.
+ *
+ * Output modes:
+ *   - default: one page as a table, oldest at the bottom like a log, with a
+ *     --cursor hint for older events
+ *   - --json: the raw page
+ *   - --ndjson: every matching event, oldest first, one JSON object per line
+ *     (streamed from the server's NDJSON export)
+ *
+ * --follow keeps running after the listing and prints matching events as
+ * they arrive over WebSocket, until interrupted. The WebSocket filter can't
+ * express --where or --before, so those can't be combined with --follow.
+ */
+
+import { Command } from "commander";
+import pc from "picocolors";
+import type { Event, WsSubscriptionFilter } from "@fuel-code/shared";
+import {
+  FuelApiClient,
+  ApiError,
+  ApiConnectionError,
+  type EventListResponse,
+  type EventQueryParams,
+} from "../lib/api-client.js";
+import { formatError, renderTable, truncate } from "../lib/formatters.js";
+import { resolveWorkspaceName, resolveDeviceName } from "../lib/resolvers.js";
+import { WsClient } from "../lib/ws-client.js";
+import { loadConfig } from "../lib/config.js";
+import { parseRelativeDate } from "./timeline.js";
+import { formatEventData } from "./session-detail.js";
+
+// ---------------------------------------------------------------------------
+// Data Layer — exported for TUI reuse
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch one page of events via the API client.
+ * Returns the raw EventListResponse (newest first unless params.order is "asc").
+ */
+export async function fetchEvents(
+  api: FuelApiClient,
+  params: EventQueryParams,
+): Promise<EventListResponse> {
+  return api.listEvents(params);
+}
+
+/**
+ * Build the WebSocket subscription filter that matches the same live events
+ * as the query params. Time range and data predicate have no WS equivalent.
+ */
+export function eventQueryToWsFilter(params: EventQueryParams): WsSubscriptionFilter {
+  const filter: WsSubscriptionFilter = { types: ["event"] };
+  const eventTypes = params.types?.split(",").map((t) => t.trim()).filter(Boolean);
+  if (eventTypes && eventTypes.length > 0) filter.event_types = eventTypes;
+  if (params.workspaceId) filter.workspace_id = params.workspaceId;
+  if (params.deviceId) filter.device_id = params.deviceId;
+  if (params.sessionId) filter.session_id = params.sessionId;
+  return filter;
+}
+
+// ---------------------------------------------------------------------------
+// Presentation Layer
+// ---------------------------------------------------------------------------
+
+/** Local "YYYY-MM-DD HH:MM:SS" for an event timestamp */
+function formatEventTime(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ` +
+    `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`
+  );
+}
+
+/**
+ * Format one event as a single follow-mode line:
+ *   YYYY-MM-DD HH:MM:SS  <type>  <session prefix>  <data>
+ */
+export function formatEventLine(evt: Event): string {
+  const session = evt.session_id ? pc.cyan(evt.session_id.slice(0, 8)) : pc.dim("-");
+  return [pc.dim(formatEventTime(evt.timestamp)), evt.type, session, truncate(formatEventData(evt), 80)].join("  ");
+}
+
+/**
+ * Format a page of events (as returned by the server, newest first) as a
+ * table in chronological order, with a footer pointing at older events.
+ */
+export function formatEventsTable(data: EventListResponse): string {
+  if (data.events.length === 0) {
+    return pc.dim("No events match these filters.");
+  }
+
+  const rows = [...data.events].reverse().map((evt) => [
+    formatEventTime(evt.timestamp),
+    evt.type,
+    evt.session_id ? evt.session_id.slice(0, 8) : "-",
+    evt.device_id,
+    formatEventData(evt),
+  ]);
+
+  const table = renderTable({
+    columns: [
+      { header: "TIME", width: 19 },
+      { header: "TYPE", width: 20 },
+      { header: "SESSION", width: 8 },
+      { header: "DEVICE" },
+      { header: "DATA" },
+    ],
+    rows,
+  });
+
+  if (data.has_more && data.next_cursor) {
+    return table + "\n" + pc.dim(`More events available. Older page: --cursor ${data.next_cursor}`);
+  }
+  return table;
+}
+
+// ---------------------------------------------------------------------------
+// Follow Mode
+// ---------------------------------------------------------------------------
+
+/**
+ * Print events matching `filter` as they arrive until interrupted (SIGINT/
+ * SIGTERM) or the optional signal aborts. Events whose IDs are in `seen`
+ * (already printed by the listing) are skipped. JSON mode writes one object
+ * per line.
+ */
+export async function followEvents(
+  ws: WsClient,
+  opts: { filter: WsSubscriptionFilter; json?: boolean; seen?: Set<string>; signal?: AbortSignal },
+): Promise<void> {
+  await ws.connect();
+  ws.subscribe({ filter: opts.filter });
+
+  const seen = opts.seen ?? new Set<string>();
+  const onEvent = (evt: Event) => {
+    if (seen.has(evt.id)) return;
+    seen.add(evt.id);
+    const line = opts.json ? JSON.stringify(evt) : formatEventLine(evt);
+    process.stdout.write(line + "\n");
+  };
+  ws.on("event", onEvent);
+
+  if (!opts.json) {
+    process.stdout.write(pc.dim("Following new events (Ctrl-C to stop)...") + "\n");
+  }
+
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      process.off("SIGINT", stop);
+      process.off("SIGTERM", stop);
+      opts.signal?.removeEventListener("abort", stop);
+      resolve();
+    };
+    if (opts.signal?.aborted) return stop();
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+    opts.signal?.addEventListener("abort", stop, { once: true });
+  });
+
+  ws.off("event", onEvent);
+  ws.disconnect();
+}
+
+// ---------------------------------------------------------------------------
+// Error Formatting (command-specific messages)
+// ---------------------------------------------------------------------------
+
+function formatEventsError(error: unknown, baseUrl?: string): string {
+  if (error instanceof ApiConnectionError) {
+    return pc.red(
+      `Cannot connect to backend at ${baseUrl ?? "unknown"}. Is it running?`,
+    );
+  }
+  if (error instanceof ApiError) {
+    if (error.statusCode === 401) {
+      return pc.red("Invalid API key. Run 'fuel-code init' to reconfigure.");
+    }
+  }
+  return formatError(error);
+}
+
+// ---------------------------------------------------------------------------
+// Commander Registration
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the `events` subcommand for the fuel-code CLI.
+ * Returns a Commander Command instance ready to be registered on the program.
+ */
+export function createEventsCommand(): Command {
+  const cmd = new Command("events")
+    .description("Query raw events across sessions (git, subagent, system, ...)")
+    .option("-t, --type <types>", "Event types or globs, comma-separated (e.g., git.*,session.start)")
+    .option("-w, --workspace <name>", "Filter by workspace name or ID")
+    .option("-d, --device <name>", "Filter by device name or ID")
+    .option("-s, --session <id>", "Filter by session ID")
+    .option("--after <date>", "Only events after date (ISO or -Nd/-Nw/-Nh)")
+    .option("--before <date>", "Only events before date (ISO or -Nd/-Nw/-Nh)")
+    .option("--where <predicate>", "JSON path predicate on event data (e.g., '$.branch == \"main\"')")
+    .option("-n, --limit <n>", "Events per page (default 50); caps the total with --ndjson")
+    .option("--cursor <cursor>", "Pagination cursor for the next (older) page")
+    .option("--json", "Output raw JSON")
+    .option("--ndjson", "Export every matching event as NDJSON, oldest first")
+    .option("-f, --follow", "Keep running and print new events as they arrive (Ctrl-C to stop)")
+    .action(async (opts) => {
+      await runEvents(opts);
+    });
+
+  return cmd;
+}
+
+// ---------------------------------------------------------------------------
+// Command Handler
+// ---------------------------------------------------------------------------
+
+/**
+ * Core events logic. Loads config, resolves filters, fetches or exports
+ * events, renders output, then optionally follows.
+ * Separated from Commander for testability.
+ */
+export async function runEvents(opts: {
+  type?: string;
+  workspace?: string;
+  device?: string;
+  session?: string;
+  after?: string;
+  before?: string;
+  where?: string;
+  limit?: string;
+  cursor?: string;
+  json?: boolean;
+  ndjson?: boolean;
+  follow?: boolean;
+}): Promise<void> {
+  if (opts.follow && (opts.where || opts.before)) {
+    process.stdout.write(pc.red("--follow can't be combined with --where or --before.") + "\n");
+    process.exitCode = 1;
+    return;
+  }
+
+  let api: FuelApiClient;
+  try {
+    api = FuelApiClient.fromConfig();
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+    return;
+  }
+
+  const baseUrl = (api as any).baseUrl as string;
+
+  try {
+    const params: EventQueryParams = {
+      types: opts.type,
+      sessionId: opts.session,
+      data: opts.where,
+      cursor: opts.cursor,
+    };
+
+    if (opts.workspace) {
+      params.workspaceId = await resolveWorkspaceName(api, opts.workspace);
+    }
+
+    if (opts.device) {
+      params.deviceId = await resolveDeviceName(api, opts.device);
+    }
+
+    if (opts.after) {
+      params.after = parseRelativeDate(opts.after);
+    }
+
+    if (opts.before) {
+      params.before = parseRelativeDate(opts.before);
+    }
+
+    // IDs already printed, so --follow doesn't repeat an event that landed
+    // between the listing and the subscription
+    const seen = new Set<string>();
+
+    if (opts.ndjson) {
+      const exportParams: EventQueryParams = { ...params, order: "asc" };
+      if (opts.limit) exportParams.limit = parseInt(opts.limit, 10);
+      for await (const evt of api.exportEvents(exportParams)) {
+        seen.add(evt.id);
+        process.stdout.write(JSON.stringify(evt) + "\n");
+      }
+    } else {
+      const data = await fetchEvents(api, { ...params, limit: parseInt(opts.limit ?? "50", 10) });
+      for (const evt of data.events) seen.add(evt.id);
+
+      if (opts.json) {
+        process.stdout.write(JSON.stringify(data, null, 2) + "\n");
+      } else {
+        process.stdout.write(formatEventsTable(data) + "\n");
+      }
+    }
+
+    if (opts.follow) {
+      await followEvents(WsClient.fromConfig(loadConfig()), {
+        filter: eventQueryToWsFilter(params),
+        json: opts.json || opts.ndjson,
+        seen,
+      });
+    }
+  } catch (err) {
+    process.stdout.write(formatEventsError(err, baseUrl) + "\n");
+    process.exitCode = 1;
+  }
+}
@@ -5,16 +5,17 @@
  * for fuel-code activity tracking.
  *
  * CC hooks: commands registered in ~/.claude/settings.json that fire on
- * various CC lifecycle events. Currently registers 10 hook entries across
- * 7 event types:
- *   - SessionStart, SessionEnd (backgrounded via bash -c)
+ * various CC lifecycle events. Currently registers 12 hook entries across
+ * 9 event types:
+ *   - SessionStart, SessionEnd, UserPromptSubmit, PreCompact (backgrounded via bash -c)
  *   - SubagentStart, SubagentStop
  *   - PostToolUse with matchers: TeamCreate, Skill, EnterWorktree, SendMessage
  *   - WorktreeCreate, WorktreeRemove
  *
  * Git hooks: bash scripts installed via core.hooksPath (global) or
  * .git/hooks/ (per-repo) that fire on post-commit, post-checkout,
- * post-merge, and pre-push events.
+ * post-merge, post-rewrite (amend/rebase), and pre-push events. With --commit-trailers, prepare-commit-msg
+ * also stamps commits with a Fuel-Session trailer for exact correlation.
  *
  * Subcommands:
  *   install   — Install CC hooks, git hooks, or both
@@ -32,6 +33,7 @@ import {
   installGitHooks,
   uninstallGitHooks,
   GIT_HOOK_NAMES,
+  OPTIONAL_GIT_HOOK_NAMES,
 } from "../lib/git-hook-installer.js";
 import { getGitHookStatus } from "../lib/git-hook-status.js";
 
@@ -51,8 +53,10 @@ const CLAUDE_SETTINGS_PATH = path.join(
  * Each entry describes one hook: the CC event name, the cc-hook subcommand,
  * and an optional matcher (used by PostToolUse to filter by tool name).
  *
- * SessionStart/SessionEnd use a bash wrapper that captures stdin then
- * backgrounds the actual processing so they never block Claude Code.
+ * SessionStart/SessionEnd/UserPromptSubmit/PreCompact use a bash wrapper that
+ * captures stdin then backgrounds the actual processing so they never block
+ * Claude Code (UserPromptSubmit blocks the prompt and PreCompact blocks the
+ * compaction until the hook returns).
  * All other hooks run synchronously (they are fast enough).
  */
 interface HookDefinition {
@@ -66,6 +70,8 @@ interface HookDefinition {
 const HOOK_DEFINITIONS: HookDefinition[] = [
   { event: "SessionStart", subcommand: "session-start", background: true },
   { event: "SessionEnd", subcommand: "session-end", background: true },
+  { event: "UserPromptSubmit", subcommand: "user-prompt", background: true },
+  { event: "PreCompact", subcommand: "pre-compact", background: true },
   { event: "SubagentStart", subcommand: "subagent-start" },
   { event: "SubagentStop", subcommand: "subagent-stop" },
   { event: "PostToolUse", subcommand: "post-tool-use", matcher: "TeamCreate" },
@@ -161,11 +167,13 @@ function createInstallSubcommand(): Command {
     .option("--git-only", "Install only git hooks")
     .option("--per-repo", "Install git hooks only in current repo's .git/hooks/")
     .option("--force", "Override competing hook manager warnings")
+    .option("--commit-trailers", "Also add a Fuel-Session trailer to commits made during a CC session")
     .action(async (opts) => {
       const ccOnly = opts.ccOnly ?? false;
       const gitOnly = opts.gitOnly ?? false;
       const perRepo = opts.perRepo ?? false;
       const force = opts.force ?? false;
+      const commitTrailers = opts.commitTrailers ?? false;
 
       // Determine what to install. Default (no flags) = both.
       const installCC = !gitOnly;
@@ -179,7 +187,7 @@ function createInstallSubcommand(): Command {
       // Install git hooks
       if (installGit) {
         try {
-          const result = await installGitHooks({ force, perRepo });
+          const result = await installGitHooks({ force, perRepo, commitTrailers });
 
           console.log("\nGit hooks installed successfully.");
           console.log(`  Hooks dir:  ${result.hooksDir}`);
@@ -441,13 +449,15 @@ export async function runStatus(): Promise<void> {
       `  core.hooksPath: ${gitStatus.hooksPath ?? "(not set)"}`,
     );
 
-    for (const name of GIT_HOOK_NAMES) {
+    for (const name of [...GIT_HOOK_NAMES, ...OPTIONAL_GIT_HOOK_NAMES]) {
       const hookInfo = gitStatus.hooks[name];
       if (!hookInfo) continue;
 
       let statusStr: string;
       if (!hookInfo.exists) {
-        statusStr = "not installed";
+        statusStr = (OPTIONAL_GIT_HOOK_NAMES as readonly string[]).includes(name)
+          ? "not installed (optional: --commit-trailers)"
+          : "not installed";
       } else if (!hookInfo.executable) {
         statusStr = "installed (not executable)";
       } else {
@@ -460,7 +470,7 @@ export async function runStatus(): Promise<void> {
       }
 
       // Pad hook name for alignment
-      const paddedName = (name + ":").padEnd(16);
+      const paddedName = (name + ":").padEnd(20);
       console.log(`  ${paddedName}${statusStr}`);
     }
   } catch {
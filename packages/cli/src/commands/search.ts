@@ -0,0 +1,269 @@
+/**
+ * `fuel-code search <query>` command.
+ *
+ * Full-text search over parsed session transcripts. Hits come back from
+ * GET /api/search ranked per content block; this command groups them by
+ * session (keeping the server's relevance order) and prints each group with
+ * its highlighted snippets and a `fuel-code session <id> --transcript` hint.
+ *
+ * Data layer (fetchSearch, groupHitsBySession) and presentation
+ * (formatSearchResults) are separated so the TUI can reuse them.
+ */
+
+import { Command } from "commander";
+import pc from "picocolors";
+import {
+  FuelApiClient,
+  ApiError,
+  ApiConnectionError,
+  type SearchHit,
+  type SearchParams,
+  type SearchResponse,
+} from "../lib/api-client.js";
+import {
+  formatRelativeTime,
+  formatLifecycle,
+  formatError,
+  outputResult,
+  truncate,
+} from "../lib/formatters.js";
+import { resolveWorkspaceName, resolveDeviceName } from "../lib/resolvers.js";
+import { parseRelativeDate } from "./timeline.js";
+
+// ---------------------------------------------------------------------------
+// Data Layer — exported for TUI reuse
+// ---------------------------------------------------------------------------
+
+/** Hits for one session, in the order the server ranked them */
+export interface SearchSessionGroup {
+  session_id: string;
+  workspace_name: string;
+  device_name: string;
+  lifecycle: string;
+  started_at: string;
+  summary: string | null;
+  initial_prompt: string | null;
+  hits: SearchHit[];
+}
+
+/**
+ * Run a search via the API client.
+ * Returns the raw SearchResponse.
+ */
+export async function fetchSearch(
+  api: FuelApiClient,
+  q: string,
+  params: SearchParams,
+): Promise<SearchResponse> {
+  return api.search(q, params);
+}
+
+/**
+ * Group ranked hits by session. Groups are ordered by their best hit, so the
+ * most relevant session comes first; hits within a group keep server order.
+ */
+export function groupHitsBySession(hits: SearchHit[]): SearchSessionGroup[] {
+  const groups = new Map<string, SearchSessionGroup>();
+
+  for (const hit of hits) {
+    let group = groups.get(hit.session_id);
+    if (!group) {
+      group = {
+        session_id: hit.session_id,
+        workspace_name: hit.workspace_name,
+        device_name: hit.device_name,
+        lifecycle: hit.session_lifecycle,
+        started_at: hit.session_started_at,
+        summary: hit.session_summary,
+        initial_prompt: hit.session_initial_prompt,
+        hits: [],
+      };
+      groups.set(hit.session_id, group);
+    }
+    group.hits.push(hit);
+  }
+
+  return Array.from(groups.values());
+}
+
+// ---------------------------------------------------------------------------
+// Presentation Layer
+// ---------------------------------------------------------------------------
+
+/**
+ * Render a ts_headline snippet for the terminal: collapse whitespace so
+ * multi-line tool output stays on one line, and turn <mark></mark> into
+ * bold yellow highlights.
+ */
+export function renderSnippet(snippet: string): string {
+  return snippet
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/<mark>(.*?)<\/mark>/g, (_m, term: string) => pc.bold(pc.yellow(term)));
+}
+
+/** Short label for where a hit came from: "text", "thinking", "Bash result", etc. */
+function formatHitSource(hit: SearchHit): string {
+  if (hit.block_type === "tool_use") return hit.tool_name ?? "tool use";
+  if (hit.block_type === "tool_result") return `${hit.tool_name ?? "tool"} result`;
+  return hit.block_type;
+}
+
+/**
+ * Format search results grouped by session, with a transcript hint per group
+ * and a pagination footer when more hits are available.
+ */
+export function formatSearchResults(q: string, data: SearchResponse): string {
+  if (data.results.length === 0) {
+    return pc.dim(`No matches for "${q}".`);
+  }
+
+  const groups = groupHitsBySession(data.results);
+  const lines: string[] = [];
+
+  for (const group of groups) {
+    const title = group.summary ?? group.initial_prompt ?? "(no summary)";
+    lines.push(
+      `${pc.bold(group.session_id)}  ${formatLifecycle(group.lifecycle)}  ` +
+        `${group.workspace_name} · ${group.device_name}  ${pc.dim(formatRelativeTime(group.started_at))}`,
+    );
+    lines.push(`  ${truncate(title.replace(/\s+/g, " "), 100)}`);
+
+    for (const hit of group.hits) {
+      lines.push(`    ${pc.dim(`#${hit.ordinal} ${formatHitSource(hit)}`)}  ${renderSnippet(hit.snippet)}`);
+    }
+
+    lines.push(`  ${pc.dim(`→ fuel-code session ${group.session_id} --transcript`)}`);
+    lines.push("");
+  }
+
+  const sessionCount = groups.length;
+  const hitCount = data.results.length;
+  lines.push(
+    pc.dim(
+      `${hitCount} match${hitCount !== 1 ? "es" : ""} in ${sessionCount} session${sessionCount !== 1 ? "s" : ""}`,
+    ),
+  );
+
+  if (data.has_more && data.next_cursor) {
+    lines.push(pc.dim(`More matches available. Next page: --cursor ${data.next_cursor}`));
+  }
+
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Error Formatting (command-specific messages)
+// ---------------------------------------------------------------------------
+
+function formatSearchError(error: unknown, baseUrl?: string): string {
+  if (error instanceof ApiConnectionError) {
+    return pc.red(
+      `Cannot connect to backend at ${baseUrl ?? "unknown"}. Is it running?`,
+    );
+  }
+  if (error instanceof ApiError) {
+    if (error.statusCode === 401) {
+      return pc.red("Invalid API key. Run 'fuel-code init' to reconfigure.");
+    }
+  }
+  return formatError(error);
+}
+
+// ---------------------------------------------------------------------------
+// Commander Registration
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the `search` subcommand for the fuel-code CLI.
+ * Returns a Commander Command instance ready to be registered on the program.
+ */
+export function createSearchCommand(): Command {
+  const cmd = new Command("search")
+    .description("Full-text search across session transcripts")
+    .argument("<query...>", "Search terms (supports \"quoted phrases\" and -exclusions)")
+    .option("-w, --workspace <name>", "Filter by workspace name or ID")
+    .option("-d, --device <name>", "Filter by device name or ID")
+    .option("--tool <name>", "Only match blocks from this tool (e.g., Bash, Edit)")
+    .option("--type <block_type>", "Only match this block type (text, thinking, tool_use, tool_result)")
+    .option("--after <date>", "Only sessions started after date (ISO or -Nd/-Nw/-Nh)")
+    .option("--before <date>", "Only sessions started before date (ISO or -Nd/-Nw/-Nh)")
+    .option("-n, --limit <n>", "Matches per page (default 20)", "20")
+    .option("--cursor <cursor>", "Pagination cursor for next page")
+    .option("--json", "Output raw JSON")
+    .action(async (query: string[], opts) => {
+      await runSearch(query.join(" "), opts);
+    });
+
+  return cmd;
+}
+
+// ---------------------------------------------------------------------------
+// Command Handler
+// ---------------------------------------------------------------------------
+
+/**
+ * Core search logic. Loads config, resolves filters, fetches hits, renders output.
+ * Separated from Commander for testability.
+ */
+export async function runSearch(
+  q: string,
+  opts: {
+    workspace?: string;
+    device?: string;
+    tool?: string;
+    type?: string;
+    after?: string;
+    before?: string;
+    limit?: string;
+    cursor?: string;
+    json?: boolean;
+  },
+): Promise<void> {
+  let api: FuelApiClient;
+  try {
+    api = FuelApiClient.fromConfig();
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+    return;
+  }
+
+  const baseUrl = (api as any).baseUrl as string;
+
+  try {
+    const params: SearchParams = {
+      toolName: opts.tool,
+      blockType: opts.type,
+      limit: parseInt(opts.limit ?? "20", 10),
+      cursor: opts.cursor,
+    };
+
+    if (opts.workspace) {
+      params.workspaceId = await resolveWorkspaceName(api, opts.workspace);
+    }
+
+    if (opts.device) {
+      params.deviceId = await resolveDeviceName(api, opts.device);
+    }
+
+    if (opts.after) {
+      params.after = parseRelativeDate(opts.after);
+    }
+
+    if (opts.before) {
+      params.before = parseRelativeDate(opts.before);
+    }
+
+    const data = await fetchSearch(api, q, params);
+
+    if (opts.json) {
+      outputResult(data, { json: true, format: () => "" });
+    } else {
+      process.stdout.write(formatSearchResults(q, data) + "\n");
+    }
+  } catch (err) {
+    process.stdout.write(formatSearchError(err, baseUrl) + "\n");
+    process.exitCode = 1;
+  }
+}
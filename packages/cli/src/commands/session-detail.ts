@@ -2,10 +2,11 @@
  * `fuel-code session <id>` command — detailed session view.
  *
  * The most feature-rich CLI command. Without flags, displays a session summary
- * card. With flags, shows specific views (transcript, events, git) or performs
- * mutations (tag, reparse) and data export (JSON, Markdown).
+ * card. With flags, shows specific views (transcript, events, git, diff) or
+ * performs mutations (tag, reparse, reprice, restore) and data export (JSON,
+ * Markdown, patch).
  *
- * Flag priority order: --tag > --reparse > --export > --transcript > --events > --git > default
+ * Flag priority order: --tag > --reparse > --reprice > --restore > --export > --output > --transcript > --events > --git > --diff > --patch > default
  *
  * Data-fetching functions are exported separately from presentation functions
  * so the TUI layer can reuse data fetching without pulling in CLI rendering.
@@ -15,16 +16,20 @@ import { Command } from "commander";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import pc from "picocolors";
-import type { Session, Event, GitActivity, TranscriptMessage } from "@fuel-code/shared";
+import type { Session, Event, GitActivity, TranscriptMessage, SessionPrompt, ToolResultLocation, SessionDiff } from "@fuel-code/shared";
+import { formatHunkHeader, formatSessionPatch } from "@fuel-code/shared";
 import { FuelApiClient, ApiError } from "../lib/api-client.js";
 import {
   formatDuration,
   formatRelativeTime,
   formatLifecycle,
   formatTokens,
+  formatCost,
+  formatBytes,
   renderTable,
   truncate,
   formatError,
+  formatRewriteNote,
   outputResult,
 } from "../lib/formatters.js";
 import { resolveSessionId } from "../lib/session-resolver.js";
@@ -59,6 +64,12 @@ export interface SessionDetail extends Session {
   };
 }
 
+/** A tool result's full output; text is null for binary results (images) */
+export interface ToolResultOutput {
+  location: ToolResultLocation;
+  text: string | null;
+}
+
 /** Combined export data for --export flag */
 export interface SessionExportData {
   session: SessionDetail;
@@ -92,6 +103,41 @@ export async function fetchSessionGit(api: FuelApiClient, sessionId: string): Pr
   return api.getSessionGit(sessionId);
 }
 
+/** Fetch the code changes rebuilt from a session's Write/Edit/MultiEdit calls */
+export async function fetchSessionDiff(api: FuelApiClient, sessionId: string): Promise<SessionDiff> {
+  return api.getSessionDiff(sessionId);
+}
+
+/** Fetch live-captured prompts for a session */
+export async function fetchSessionPrompts(api: FuelApiClient, sessionId: string): Promise<SessionPrompt[]> {
+  return api.getSessionPrompts(sessionId);
+}
+
+/** Whether a tool result's content type can be printed to a terminal */
+function isTextContentType(contentType: string): boolean {
+  return contentType.startsWith("text/") || contentType.startsWith("application/json");
+}
+
+/**
+ * Fetch a tool result's full output. Results stored in S3 are downloaded from
+ * their presigned URL when they are text; binary results only carry the URL.
+ */
+export async function fetchToolResultOutput(
+  api: FuelApiClient,
+  sessionId: string,
+  blockId: string,
+): Promise<ToolResultOutput> {
+  const location = await api.getToolResult(sessionId, blockId);
+  if (location.content !== null) return { location, text: location.content };
+  if (!location.url || !isTextContentType(location.content_type)) return { location, text: null };
+
+  const res = await fetch(location.url);
+  if (!res.ok) {
+    throw new Error(`Failed to download tool output: HTTP ${res.status}`);
+  }
+  return { location, text: await res.text() };
+}
+
 /** Fetch all data needed for export */
 export async function fetchSessionExportData(api: FuelApiClient, sessionId: string): Promise<SessionExportData> {
   const [session, transcript, events, git_activity] = await Promise.all([
@@ -122,7 +168,10 @@ export function formatSessionSummary(session: SessionDetail): string {
   lines.push(`  ${pc.bold("ID:")}          ${session.id}`);
   lines.push(`  ${pc.bold("Workspace:")}   ${session.workspace_name ?? session.workspace_id}${session.workspace_canonical_id ? pc.dim(` (${session.workspace_canonical_id})`) : ""}`);
   lines.push(`  ${pc.bold("Device:")}      ${session.device_name ?? session.device_id}${session.device_type ? pc.dim(` (${session.device_type})`) : ""}`);
-  lines.push(`  ${pc.bold("Status:")}      ${formatLifecycle(session.lifecycle)}`);
+  lines.push(
+    `  ${pc.bold("Status:")}      ${formatLifecycle(session.lifecycle)}` +
+      (session.archived_at ? pc.dim(` (archived ${formatRelativeTime(session.archived_at)})`) : ""),
+  );
 
   // Started — relative + absolute
   const relTime = formatRelativeTime(session.started_at);
@@ -181,7 +230,7 @@ export function formatSessionSummary(session: SessionDetail): string {
   }
 
   lines.push("");
-  lines.push(pc.dim("  Hint: use --transcript, --events, or --git for more detail"));
+  lines.push(pc.dim("  Hint: use --transcript, --events, --git, or --diff for more detail"));
 
   return lines.join("\n");
 }
@@ -216,6 +265,12 @@ export function formatSessionEvents(events: Event[]): string {
   });
 }
 
+/** Append "(amended)" / "(rebased)" to a rewritten commit's message */
+function withRewriteNote(message: string, data: Record<string, unknown> | null | undefined): string {
+  const note = formatRewriteNote(data);
+  return note ? `${message} (${note})` : message;
+}
+
 /**
  * Format git activity as a table.
  *
@@ -235,7 +290,7 @@ export function formatSessionGitActivity(gitActivity: GitActivity[]): string {
   if (commits.length > 0) {
     const rows = commits.map((g) => [
       g.commit_sha ? g.commit_sha.slice(0, 7) : "-",
-      truncate(g.message ?? "-", 40),
+      truncate(withRewriteNote(g.message ?? "-", g.data), 40),
       g.branch ?? "-",
       formatRelativeTime(g.timestamp),
       `+${g.insertions ?? 0} -${g.deletions ?? 0}`,
@@ -275,6 +330,45 @@ export function formatSessionGitActivity(gitActivity: GitActivity[]): string {
   return lines.join("\n");
 }
 
+/** Color one hunk body line by its diff prefix */
+function colorDiffLine(line: string): string {
+  if (line.startsWith("+")) return pc.green(line);
+  if (line.startsWith("-")) return pc.red(line);
+  if (line.startsWith("\\")) return pc.dim(line);
+  return line;
+}
+
+/**
+ * Format a session diff as colored unified diffs, one section per file.
+ *
+ * Files whose original content was never seen are flagged: their hunks are
+ * shown without line numbers and are left out of --patch output.
+ */
+export function formatSessionDiff(diff: SessionDiff): string {
+  if (diff.files.length === 0) {
+    return pc.dim("No file changes in this session.");
+  }
+
+  const lines: string[] = [];
+  for (const file of diff.files) {
+    const stat = `${pc.green(`+${file.additions}`)} ${pc.red(`-${file.deletions}`)}`;
+    lines.push(`${pc.bold(file.path)} ${pc.dim(`(${file.status})`)} ${stat}`);
+    if (!file.complete) {
+      lines.push(pc.yellow("  original content unknown — positions are approximate, excluded from --patch"));
+    }
+    for (const hunk of file.hunks) {
+      lines.push(pc.cyan(formatHunkHeader(hunk)));
+      lines.push(...hunk.lines.map(colorDiffLine));
+    }
+    lines.push("");
+  }
+
+  const { files, additions, deletions } = diff.stats;
+  lines.push(pc.dim(`${files} file${files === 1 ? "" : "s"} changed, ${additions} insertions(+), ${deletions} deletions(-)`));
+
+  return lines.join("\n");
+}
+
 /**
  * Generate a Markdown document for --export md.
  *
@@ -357,14 +451,19 @@ export function generateMarkdownExport(data: SessionExportData): string {
  */
 export function createSessionDetailCommand(): Command {
   const cmd = new Command("session")
-    .description("Show session detail, transcript, events, or git activity")
+    .description("Show session detail, transcript, events, git activity, or code changes")
     .argument("<id>", "Session ID (full ULID or 8+ char prefix)")
     .option("--transcript", "Show parsed transcript with tool use tree")
     .option("--events", "Show chronological event table")
     .option("--git", "Show git activity (commits, pushes, etc.)")
+    .option("--diff", "Show the session's code changes as colored diffs")
+    .option("--patch", "Print the session's code changes as a git-apply-able patch")
     .option("--export <format>", "Export session data (json or md)")
+    .option("--output <blockId>", "Print the full output of a tool result")
     .option("--tag <tag>", "Add a tag to the session")
     .option("--reparse", "Re-trigger transcript parsing")
+    .option("--reprice", "Recompute costs with the current pricing table")
+    .option("--restore", "Restore an archived session's parsed transcript")
     .option("--json", "Output summary as JSON")
     .action(async (idArg: string, opts: Record<string, unknown>) => {
       await runSessionDetail(idArg, opts);
@@ -407,20 +506,30 @@ export async function runSessionDetail(
   }
 
   try {
-    // Flag priority: --tag > --reparse > --export > --transcript > --events > --git > default
+    // Flag priority: --tag > --reparse > --reprice > --restore > --export > --output > --transcript > --events > --git > --diff > --patch > default
 
     if (opts.tag) {
       await handleTag(api, sessionId, opts.tag as string);
     } else if (opts.reparse) {
       await handleReparse(api, sessionId);
+    } else if (opts.reprice) {
+      await handleReprice(api, sessionId);
+    } else if (opts.restore) {
+      await handleRestore(api, sessionId);
     } else if (opts.export) {
       await handleExport(api, sessionId, opts.export as string);
+    } else if (opts.output) {
+      await handleOutput(api, sessionId, opts.output as string);
     } else if (opts.transcript) {
       await handleTranscript(api, sessionId);
     } else if (opts.events) {
       await handleEvents(api, sessionId);
     } else if (opts.git) {
       await handleGit(api, sessionId);
+    } else if (opts.diff) {
+      await handleDiff(api, sessionId, !!opts.json);
+    } else if (opts.patch) {
+      await handlePatch(api, sessionId);
     } else {
       await handleDefault(api, sessionId, !!opts.json);
     }
@@ -472,6 +581,20 @@ async function handleTranscript(api: FuelApiClient, sessionId: string): Promise<
   process.stdout.write(output + "\n");
 }
 
+/** --output: print a tool result's full output (or a download URL for images) */
+async function handleOutput(api: FuelApiClient, sessionId: string, blockId: string): Promise<void> {
+  const { location, text } = await fetchToolResultOutput(api, sessionId, blockId);
+
+  if (text === null) {
+    process.stdout.write(
+      `${location.content_type}, ${formatBytes(location.byte_length)} — download:\n${location.url}\n`,
+    );
+    return;
+  }
+
+  process.stdout.write(text.endsWith("\n") ? text : text + "\n");
+}
+
 /** --events: show chronological event table */
 async function handleEvents(api: FuelApiClient, sessionId: string): Promise<void> {
   const events = await fetchSessionEvents(api, sessionId);
@@ -484,6 +607,29 @@ async function handleGit(api: FuelApiClient, sessionId: string): Promise<void> {
   process.stdout.write(formatSessionGitActivity(gitActivity) + "\n");
 }
 
+/** --diff: show code changes as colored diffs */
+async function handleDiff(api: FuelApiClient, sessionId: string, json: boolean): Promise<void> {
+  const diff = await fetchSessionDiff(api, sessionId);
+  outputResult(diff, {
+    json,
+    format: formatSessionDiff,
+  });
+}
+
+/**
+ * --patch: print a git-apply-able patch to stdout (meant for `> x.patch`).
+ * Files that can't be positioned are listed as "#" comments in the patch.
+ */
+async function handlePatch(api: FuelApiClient, sessionId: string): Promise<void> {
+  const diff = await fetchSessionDiff(api, sessionId);
+  const patch = formatSessionPatch(diff);
+  if (!patch) {
+    process.stderr.write("No file changes in this session.\n");
+    return;
+  }
+  process.stdout.write(patch);
+}
+
 /** --export: export session data to a file */
 async function handleExport(api: FuelApiClient, sessionId: string, format: string): Promise<void> {
   if (format !== "json" && format !== "md") {
@@ -530,14 +676,32 @@ async function handleReparse(api: FuelApiClient, sessionId: string): Promise<voi
   process.stdout.write(`Reparse triggered for session ${sessionId.slice(0, 8)}.\n`);
 }
 
+/** --reprice: recompute costs from stored token counts */
+async function handleReprice(api: FuelApiClient, sessionId: string): Promise<void> {
+  const res = await api.repriceSession(sessionId);
+  process.stdout.write(
+    `Repriced session ${sessionId.slice(0, 8)}: ${formatCost(res.previous_cost_usd)} → ${formatCost(res.cost_usd)}` +
+      ` (${res.messages_repriced} messages, pricing ${res.pricing_version}).\n`,
+  );
+}
+
+/** --restore: re-insert an archived session's parsed rows from S3 */
+async function handleRestore(api: FuelApiClient, sessionId: string): Promise<void> {
+  const res = await api.restoreSession(sessionId);
+  process.stdout.write(
+    `Restored session ${sessionId.slice(0, 8)}: ${res.messages_restored} messages, ${res.blocks_restored} content blocks.\n`,
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
 /**
  * Format the DATA column for an event row based on event type.
+ * Also used by `fuel-code events`.
  */
-function formatEventData(evt: Event): string {
+export function formatEventData(evt: Event): string {
   const data = evt.data ?? {};
   switch (evt.type) {
     case "session.start": {
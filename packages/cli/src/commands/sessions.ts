@@ -8,6 +8,10 @@
  *
  * Sessions with teammates display an inline annotation showing teammate names.
  * Sessions with subagents display an annotation showing agent types.
+ *
+ * --watch keeps the command running after the table and streams one line per
+ * session.update received over WebSocket (lifecycle changes, parse stats,
+ * summaries) until interrupted.
  */
 
 import { Command } from "commander";
@@ -22,6 +26,7 @@ import {
 } from "../lib/api-client.js";
 import {
   formatDuration,
+  formatCost,
   formatTokensCompact,
   formatRelativeTime,
   formatLifecycle,
@@ -32,6 +37,8 @@ import {
   displayWidth,
 } from "../lib/formatters.js";
 import { resolveWorkspaceName, resolveDeviceName } from "../lib/resolvers.js";
+import { WsClient, type SessionUpdatePayload } from "../lib/ws-client.js";
+import { loadConfig } from "../lib/config.js";
 
 // ---------------------------------------------------------------------------
 // Data Layer — exported for TUI reuse
@@ -276,6 +283,77 @@ function formatPaginationFooter(cursor: string | null, total: number): string {
   return pc.dim(`\nShowing ${total} sessions (more available). Next page: --cursor ${cursor}`);
 }
 
+/**
+ * Format one session.update as a single watch-mode line:
+ *   HH:MM:SS  <id prefix>  <lifecycle>  <messages · cost · duration>  <summary>
+ */
+export function formatSessionUpdateLine(update: SessionUpdatePayload, at: Date = new Date()): string {
+  const time = pc.dim(at.toTimeString().slice(0, 8));
+  const parts = [time, pc.cyan(update.session_id.slice(0, 8)), formatLifecycle(update.lifecycle)];
+
+  const stats = update.stats;
+  if (stats) {
+    const details: string[] = [];
+    if (stats.total_messages != null) details.push(`${stats.total_messages} msgs`);
+    if (stats.total_cost_usd != null) details.push(formatCost(stats.total_cost_usd));
+    if (stats.duration_ms != null) details.push(formatDuration(stats.duration_ms));
+    if (details.length > 0) parts.push(pc.dim(details.join(" · ")));
+  }
+
+  if (update.summary) parts.push(truncate(update.summary, 60));
+
+  return parts.join("  ");
+}
+
+// ---------------------------------------------------------------------------
+// Watch Mode
+// ---------------------------------------------------------------------------
+
+/**
+ * Stream session.update messages to stdout until interrupted (SIGINT/SIGTERM)
+ * or the optional signal aborts. Subscribes to session.update broadcasts only,
+ * for a single workspace when one is given, otherwise for all sessions. JSON
+ * mode writes one object per line.
+ */
+export async function watchSessionUpdates(
+  ws: WsClient,
+  opts: { workspaceId?: string; json?: boolean; signal?: AbortSignal },
+): Promise<void> {
+  await ws.connect();
+  ws.subscribe({
+    filter: {
+      types: ["session.update"],
+      ...(opts.workspaceId ? { workspace_id: opts.workspaceId } : {}),
+    },
+  });
+
+  const onUpdate = (update: SessionUpdatePayload) => {
+    const line = opts.json ? JSON.stringify(update) : formatSessionUpdateLine(update);
+    process.stdout.write(line + "\n");
+  };
+  ws.on("session.update", onUpdate);
+
+  if (!opts.json) {
+    process.stdout.write(pc.dim("Watching for session updates (Ctrl-C to stop)...") + "\n");
+  }
+
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      process.off("SIGINT", stop);
+      process.off("SIGTERM", stop);
+      opts.signal?.removeEventListener("abort", stop);
+      resolve();
+    };
+    if (opts.signal?.aborted) return stop();
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+    opts.signal?.addEventListener("abort", stop, { once: true });
+  });
+
+  ws.off("session.update", onUpdate);
+  ws.disconnect();
+}
+
 // ---------------------------------------------------------------------------
 // Error Formatting (command-specific messages)
 // ---------------------------------------------------------------------------
@@ -318,6 +396,7 @@ export function createSessionsCommand(): Command {
     .option("-n, --limit <n>", "Results per page (default 20)", "20")
     .option("--cursor <cursor>", "Pagination cursor for next page")
     .option("--json", "Output raw JSON")
+    .option("--watch", "Stream live session updates after listing (Ctrl-C to stop)")
     .action(async (opts) => {
       await runSessions(opts);
     });
@@ -343,6 +422,7 @@ export async function runSessions(opts: {
   limit?: string;
   cursor?: string;
   json?: boolean;
+  watch?: boolean;
 }): Promise<void> {
   let api: FuelApiClient;
   try {
@@ -400,6 +480,13 @@ export async function runSessions(opts: {
       const footer = formatPaginationFooter(result.cursor, result.total);
       process.stdout.write(table + footer + "\n");
     }
+
+    if (opts.watch) {
+      await watchSessionUpdates(WsClient.fromConfig(loadConfig()), {
+        workspaceId: params.workspaceId,
+        json: opts.json,
+      });
+    }
   } catch (err) {
     process.stdout.write(formatSessionsError(err, baseUrl) + "\n");
     process.exitCode = 1;
@@ -26,6 +26,7 @@ import {
   formatTokensCompact,
   formatLifecycle,
   formatError,
+  formatRewriteNote,
   outputResult,
 } from "../lib/formatters.js";
 import { resolveWorkspaceName } from "../lib/resolvers.js";
@@ -191,7 +192,8 @@ function renderSessionItem(item: TimelineSessionItem): string {
   for (const git of item.git_activity) {
     if (git.type === "commit" && git.commit_sha && git.message) {
       const sha = pc.dim(git.commit_sha.slice(0, 7));
-      lines.push(`           ${pc.yellow("\u2191")} ${sha} ${git.message}`);
+      const note = formatRewriteNote(git.data);
+      lines.push(`           ${pc.yellow("\u2191")} ${sha} ${git.message}${note ? pc.dim(` (${note})`) : ""}`);
     }
   }
 
@@ -225,7 +227,8 @@ function renderOrphanItem(item: TimelineOrphanItem): string {
   for (const git of item.git_activity) {
     if (git.type === "commit" && git.commit_sha && git.message) {
       const sha = pc.dim(git.commit_sha.slice(0, 7));
-      lines.push(`           ${pc.yellow("\u2191")} ${sha} ${git.message}`);
+      const note = formatRewriteNote(git.data);
+      lines.push(`           ${pc.yellow("\u2191")} ${sha} ${git.message}${note ? pc.dim(` (${note})`) : ""}`);
     } else if (git.type === "push") {
       lines.push(`           ${pc.blue("\u2191")} push to ${git.branch ?? "unknown"}`);
     }
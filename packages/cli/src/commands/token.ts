@@ -0,0 +1,242 @@
+/**
+ * `fuel-code token` command group.
+ *
+ * Manages named, scoped API tokens on the server so each machine (or CI job)
+ * gets its own revocable credential instead of sharing the backend's API_KEY:
+ *   - token list                    — All tokens with scopes, expiry, last use
+ *   - token create <name>           — Create a token and print it once
+ *                                     (--user ties it to a person for attribution)
+ *   - token revoke <id>             — Revoke a token immediately
+ *
+ * All three need an admin-scoped token (or the API_KEY). The plaintext token
+ * is only ever shown by `create` — the server stores a hash.
+ */
+
+import { Command } from "commander";
+import pc from "picocolors";
+import { API_TOKEN_SCOPES, type ApiToken, type ApiTokenScope } from "@fuel-code/shared";
+import { FuelApiClient, type CreateApiTokenResponse } from "../lib/api-client.js";
+import {
+  formatRelativeTime,
+  formatEmpty,
+  formatError,
+  outputResult,
+  renderTable,
+} from "../lib/formatters.js";
+
+// ---------------------------------------------------------------------------
+// Presentation Layer
+// ---------------------------------------------------------------------------
+
+/** Derive a token's status: revoked wins over expired */
+function tokenStatus(token: ApiToken): "active" | "expired" | "revoked" {
+  if (token.revoked_at) return "revoked";
+  if (token.expires_at && new Date(token.expires_at).getTime() <= Date.now()) return "expired";
+  return "active";
+}
+
+/** Color a token status: only active tokens are highlighted */
+function formatTokenStatus(token: ApiToken): string {
+  const status = tokenStatus(token);
+  if (status === "active") return pc.green(status);
+  return status === "revoked" ? pc.red(status) : pc.yellow(status);
+}
+
+/** Format an expiry as a calendar date (relative time only handles the past) */
+function formatExpiry(expiresAt: string | null): string {
+  return expiresAt ? new Date(expiresAt).toISOString().slice(0, 10) : pc.dim("never");
+}
+
+/** Format the token list as a table */
+export function formatTokenList(tokens: ApiToken[]): string {
+  if (tokens.length === 0) {
+    return formatEmpty("tokens");
+  }
+
+  return renderTable({
+    columns: [
+      { header: "ID" },
+      { header: "NAME" },
+      { header: "USER" },
+      { header: "PREFIX" },
+      { header: "SCOPES" },
+      { header: "STATUS" },
+      { header: "EXPIRES" },
+      { header: "LAST USED" },
+      { header: "CREATED" },
+    ],
+    rows: tokens.map((t) => [
+      t.id,
+      t.name,
+      t.user_name ?? pc.dim("-"),
+      pc.dim(`${t.token_prefix}…`),
+      t.scopes.join(","),
+      formatTokenStatus(t),
+      formatExpiry(t.expires_at),
+      t.last_used_at ? formatRelativeTime(t.last_used_at) : pc.dim("never"),
+      formatRelativeTime(t.created_at),
+    ]),
+  });
+}
+
+/** Format a newly created token, with the one-time plaintext */
+export function formatCreatedToken(result: CreateApiTokenResponse): string {
+  const t = result.api_token;
+  return [
+    `${pc.green("Created")} token ${pc.bold(t.name)} (${t.id})`,
+    `  Scopes:  ${t.scopes.join(", ")}`,
+    ...(t.user_name ? [`  User:    ${t.user_name}`] : []),
+    `  Expires: ${formatExpiry(t.expires_at)}`,
+    "",
+    `  ${pc.bold(result.token)}`,
+    "",
+    pc.yellow("Copy this token now — it cannot be shown again."),
+    pc.dim(`Use it on another machine with: fuel-code init --api-key <token>`),
+  ].join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Commander Registration
+// ---------------------------------------------------------------------------
+
+/** Commander reducer for a repeatable --scope option */
+function collectScope(value: string, previous: string[] = []): string[] {
+  return [...previous, ...value.split(",").map((s) => s.trim()).filter(Boolean)];
+}
+
+/**
+ * Create the `token` command group.
+ * Returns a Commander Command instance ready to be registered on the program.
+ */
+export function createTokenCommand(): Command {
+  const cmd = new Command("token").description("Manage scoped API tokens for the backend");
+
+  // --- token list (default) ---
+  cmd
+    .command("list", { isDefault: true })
+    .description("List API tokens with their scopes and last use")
+    .option("--json", "Output raw JSON")
+    .action(async (opts) => {
+      await runTokenList(opts);
+    });
+
+  // --- token create <name> ---
+  cmd
+    .command("create <name>")
+    .description("Create an API token (printed once)")
+    .option(
+      "-s, --scope <scope>",
+      `Grant a scope (${API_TOKEN_SCOPES.join(", ")}); repeatable, default read + ingest`,
+      collectScope,
+    )
+    .option("--expires-in <days>", "Expire the token after N days")
+    .option("-u, --user <name>", "Attribute activity to this user (created if new)")
+    .option("--email <email>", "Email for a newly created user")
+    .option("--json", "Output raw JSON")
+    .action(async (name: string, opts) => {
+      await runTokenCreate(name, opts);
+    });
+
+  // --- token revoke <id> ---
+  cmd
+    .command("revoke <id>")
+    .description("Revoke an API token")
+    .action(async (id: string) => {
+      await runTokenRevoke(id);
+    });
+
+  return cmd;
+}
+
+// ---------------------------------------------------------------------------
+// Command Handlers
+// ---------------------------------------------------------------------------
+
+/** Build an API client from config, printing the error and returning null on failure */
+function clientOrExit(): FuelApiClient | null {
+  try {
+    return FuelApiClient.fromConfig();
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+    return null;
+  }
+}
+
+/** Validate --scope values, returning undefined (server default) when none were given */
+function parseScopes(scopes: string[] | undefined): ApiTokenScope[] | undefined | null {
+  if (!scopes || scopes.length === 0) return undefined;
+  const invalid = scopes.filter((s) => !(API_TOKEN_SCOPES as readonly string[]).includes(s));
+  if (invalid.length > 0) {
+    process.stdout.write(
+      pc.red(`Invalid scope "${invalid[0]}". Use ${API_TOKEN_SCOPES.join(", ")}.`) + "\n",
+    );
+    process.exitCode = 1;
+    return null;
+  }
+  return scopes as ApiTokenScope[];
+}
+
+/** `fuel-code token list` */
+export async function runTokenList(opts: { json?: boolean }): Promise<void> {
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    const tokens = await api.listApiTokens();
+    outputResult(tokens, { json: opts.json, format: formatTokenList });
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
+
+/** `fuel-code token create <name> [--scope s]... [--expires-in N] [--user u [--email e]]` */
+export async function runTokenCreate(
+  name: string,
+  opts: { scope?: string[]; expiresIn?: string; user?: string; email?: string; json?: boolean },
+): Promise<void> {
+  const scopes = parseScopes(opts.scope);
+  if (scopes === null) return;
+
+  let expiresInDays: number | undefined;
+  if (opts.expiresIn !== undefined) {
+    expiresInDays = parseInt(opts.expiresIn, 10);
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1) {
+      process.stdout.write(pc.red(`Invalid --expires-in "${opts.expiresIn}". Use a positive number of days.`) + "\n");
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    const result = await api.createApiToken({
+      name,
+      scopes,
+      expiresInDays,
+      user: opts.user,
+      email: opts.email,
+    });
+    outputResult(result, { json: opts.json, format: formatCreatedToken });
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
+
+/** `fuel-code token revoke <id>` */
+export async function runTokenRevoke(id: string): Promise<void> {
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    const token = await api.revokeApiToken(id);
+    process.stdout.write(`${pc.red("Revoked")} token ${token.name} (${token.id})\n`);
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
@@ -3,7 +3,8 @@
  *
  * Internal command for uploading transcript JSONL files to the backend.
  * Called by the Claude Code session.end hook helper after emitting the
- * session.end event. Not intended for direct user invocation.
+ * session.end event, and by the PreCompact hook to snapshot a live
+ * transcript. Not intended for direct user invocation.
  *
  * Design constraints (same as emit command):
  *   - Exit code MUST always be 0 (hooks must not fail)
@@ -83,19 +84,24 @@ export function createTranscriptCommand(): Command {
  * @param subagentId  - Optional sub-agent ID. When set, the server stores the
  *                       transcript under the subagent S3 key path and links it
  *                       to the subagent row.
+ * @param compactSequence - Optional compaction index. When set, the server
+ *                       stores the file as a pre-compaction snapshot and
+ *                       leaves the session's transcript untouched.
+ * @returns The S3 key the server stored the file under, or null on any failure
  */
 export async function runTranscriptUpload(
   sessionId: string,
   filePath: string,
   subagentId?: string,
-): Promise<void> {
+  compactSequence?: number,
+): Promise<string | null> {
   // 1. Load config. If missing: exit gracefully (fuel-code not initialized)
   let config;
   try {
     config = loadConfig();
   } catch {
     logger.warn("Config not found — cannot upload transcript");
-    return;
+    return null;
   }
 
   // 2. Check file exists
@@ -104,14 +110,14 @@ export async function runTranscriptUpload(
     process.stderr.write(
       `fuel-code: transcript file not found: ${filePath}\n`,
     );
-    return;
+    return null;
   }
 
   // 3. Check file size
   const stat = fs.statSync(filePath);
   if (stat.size === 0) {
     logger.warn({ filePath }, "Transcript file is empty — skipping upload");
-    return;
+    return null;
   }
 
   if (stat.size > MAX_FILE_SIZE_BYTES) {
@@ -126,7 +132,11 @@ export async function runTranscriptUpload(
 
   // 4. POST to server — stream the file body
   const baseUrl = `${config.backend.url.replace(/\/+$/, "")}/api/sessions/${sessionId}/transcript/upload`;
-  const url = subagentId ? `${baseUrl}?subagent_id=${encodeURIComponent(subagentId)}` : baseUrl;
+  const url = subagentId
+    ? `${baseUrl}?subagent_id=${encodeURIComponent(subagentId)}`
+    : compactSequence !== undefined
+      ? `${baseUrl}?compact_sequence=${compactSequence}`
+      : baseUrl;
 
   // Read the file once — reused across retries
   const fileContent = fs.readFileSync(filePath);
@@ -164,15 +174,15 @@ export async function runTranscriptUpload(
         process.stderr.write(
           `fuel-code: transcript upload failed (HTTP ${response.status})\n`,
         );
-        return;
+        return null;
       }
 
-      const result = await response.json().catch(() => ({}));
+      const result = (await response.json().catch(() => ({}))) as { s3_key?: string };
       logger.info(
         { sessionId, result },
         "Transcript uploaded successfully",
       );
-      return;
+      return result.s3_key ?? null;
     } catch (err) {
       // Network error, timeout, etc. — log and exit gracefully
       const message = err instanceof Error ? err.message : String(err);
@@ -183,7 +193,9 @@ export async function runTranscriptUpload(
       process.stderr.write(
         `fuel-code: transcript upload failed: ${message}\n`,
       );
-      return;
+      return null;
     }
   }
+
+  return null;
 }
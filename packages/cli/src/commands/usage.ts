@@ -0,0 +1,316 @@
+/**
+ * `fuel-code usage` command.
+ *
+ * Shows tokens, cost, sessions, and commits over time from
+ * GET /api/analytics/usage: totals with a sparkline per metric, then (with
+ * --by) a per-group table with a cost trend column.
+ *
+ *   fuel-code usage                      — Last 30 days, daily buckets
+ *   fuel-code usage --bucket week        — Last 12 weeks
+ *   fuel-code usage --by model           — Broken down by model
+ *   fuel-code usage --from -7d -w repo   — One workspace, last week
+ *
+ * The server omits empty buckets; fillBuckets() restores them so sparklines
+ * keep a steady time axis. Data layer and presentation are separated so the
+ * TUI can reuse them.
+ */
+
+import { Command } from "commander";
+import pc from "picocolors";
+import {
+  USAGE_BUCKETS,
+  USAGE_GROUP_BYS,
+  type UsageBucket,
+  type UsageGroupBy,
+  type UsageMetrics,
+  type UsageResponse,
+} from "@fuel-code/shared";
+import { FuelApiClient, type UsageParams } from "../lib/api-client.js";
+import {
+  formatCost,
+  formatDuration,
+  formatError,
+  formatNumber,
+  formatSparkline,
+  formatTokensCompact,
+  outputResult,
+  renderTable,
+} from "../lib/formatters.js";
+import { resolveWorkspaceName, resolveDeviceName } from "../lib/resolvers.js";
+import { parseRelativeDate } from "./timeline.js";
+
+// ---------------------------------------------------------------------------
+// Data Layer — exported for TUI reuse
+// ---------------------------------------------------------------------------
+
+/** Bucket widths in ms — buckets are UTC-aligned, so fixed widths are exact */
+const BUCKET_MS: Record<UsageBucket, number> = {
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 7 * 86_400_000,
+};
+
+/** One group's totals plus its per-bucket series (aligned to fillBuckets) */
+export interface UsageGroup {
+  key: string | null;
+  label: string;
+  totals: UsageMetrics;
+  series: UsageMetrics[];
+}
+
+/** An all-zero metrics record */
+function emptyMetrics(): UsageMetrics {
+  return {
+    sessions: 0,
+    duration_ms: 0,
+    tokens_in: 0,
+    tokens_out: 0,
+    cache_read_tokens: 0,
+    cache_write_tokens: 0,
+    cache_hit_ratio: null,
+    cost_usd: 0,
+    commits: 0,
+  };
+}
+
+/** Add b into a (mutates a), recomputing the cache hit ratio */
+function addMetrics(a: UsageMetrics, b: UsageMetrics): UsageMetrics {
+  a.sessions += b.sessions;
+  a.duration_ms += b.duration_ms;
+  a.tokens_in += b.tokens_in;
+  a.tokens_out += b.tokens_out;
+  a.cache_read_tokens += b.cache_read_tokens;
+  a.cache_write_tokens += b.cache_write_tokens;
+  a.cost_usd += b.cost_usd;
+  a.commits += b.commits;
+  const input = a.tokens_in + a.cache_read_tokens + a.cache_write_tokens;
+  a.cache_hit_ratio = input > 0 ? a.cache_read_tokens / input : null;
+  return a;
+}
+
+/** Every bucket start in [from, to), as ISO strings */
+export function fillBuckets(data: Pick<UsageResponse, "bucket" | "from" | "to">): string[] {
+  const step = BUCKET_MS[data.bucket];
+  const end = new Date(data.to).getTime();
+  const buckets: string[] = [];
+  for (let t = new Date(data.from).getTime(); t < end; t += step) {
+    buckets.push(new Date(t).toISOString());
+  }
+  return buckets;
+}
+
+/** Per-bucket metrics across all groups, with empty buckets filled in */
+export function totalSeries(data: UsageResponse): UsageMetrics[] {
+  const buckets = fillBuckets(data);
+  const index = new Map(buckets.map((b, i) => [b, i]));
+  const series = buckets.map(() => emptyMetrics());
+  for (const row of data.rows) {
+    const i = index.get(row.bucket_start);
+    if (i !== undefined) addMetrics(series[i], row);
+  }
+  return series;
+}
+
+/** Split rows by group, most expensive group first */
+export function groupUsage(data: UsageResponse): UsageGroup[] {
+  const buckets = fillBuckets(data);
+  const index = new Map(buckets.map((b, i) => [b, i]));
+  const groups = new Map<string | null, UsageGroup>();
+
+  for (const row of data.rows) {
+    let group = groups.get(row.group_key);
+    if (!group) {
+      group = {
+        key: row.group_key,
+        label: row.group_label ?? row.group_key ?? "(none)",
+        totals: emptyMetrics(),
+        series: buckets.map(() => emptyMetrics()),
+      };
+      groups.set(row.group_key, group);
+    }
+    addMetrics(group.totals, row);
+    const i = index.get(row.bucket_start);
+    if (i !== undefined) addMetrics(group.series[i], row);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.totals.cost_usd - a.totals.cost_usd);
+}
+
+// ---------------------------------------------------------------------------
+// Presentation Layer
+// ---------------------------------------------------------------------------
+
+/** Format a cache hit ratio as a percentage */
+function formatCacheHit(ratio: number | null): string {
+  return ratio === null ? pc.dim("-") : `${Math.round(ratio * 100)}%`;
+}
+
+/** Format a bucket start for the header: "2025-01-14" or "2025-01-14 09:00" */
+function formatBucketStart(iso: string, bucket: UsageBucket): string {
+  return bucket === "hour" ? `${iso.slice(0, 10)} ${iso.slice(11, 16)}` : iso.slice(0, 10);
+}
+
+/**
+ * Format a usage report: header, totals with sparklines, and a per-group
+ * table when the data is grouped.
+ */
+export function formatUsage(data: UsageResponse): string {
+  const series = totalSeries(data);
+  const last = new Date(new Date(data.to).getTime() - 1).toISOString();
+  const lines: string[] = [
+    pc.bold(`Usage by ${data.bucket}`) +
+      pc.dim(
+        `  ${formatBucketStart(data.from, data.bucket)} → ${formatBucketStart(last, data.bucket)} UTC` +
+          ` (${series.length} ${data.bucket}${series.length !== 1 ? "s" : ""})`,
+      ),
+    "",
+  ];
+
+  if (data.totals.sessions === 0) {
+    lines.push(pc.dim("No sessions in this range."));
+    return lines.join("\n");
+  }
+
+  const t = data.totals;
+  lines.push(
+    renderTable({
+      columns: [{ header: "" }, { header: "TOTAL", align: "right" }, { header: "TREND" }],
+      rows: [
+        ["Sessions", String(t.sessions), formatSparkline(series.map((m) => m.sessions))],
+        ["Cost", formatCost(t.cost_usd), formatSparkline(series.map((m) => m.cost_usd))],
+        [
+          "Tokens",
+          formatTokensCompact(t.tokens_in, t.tokens_out),
+          formatSparkline(series.map((m) => m.tokens_in + m.tokens_out)),
+        ],
+        ["Duration", formatDuration(t.duration_ms), formatSparkline(series.map((m) => m.duration_ms))],
+        ["Commits", String(t.commits), formatSparkline(series.map((m) => m.commits))],
+        ["Cache hit", formatCacheHit(t.cache_hit_ratio), ""],
+      ],
+    }),
+  );
+
+  if (data.group_by) {
+    const groups = groupUsage(data);
+    lines.push("");
+    lines.push(
+      renderTable({
+        columns: [
+          { header: data.group_by.toUpperCase() },
+          { header: "SESSIONS", align: "right" },
+          { header: "DURATION", align: "right" },
+          { header: "TOKENS", align: "right" },
+          { header: "CACHE READ", align: "right" },
+          { header: "CACHE HIT", align: "right" },
+          { header: "COST", align: "right" },
+          { header: "COMMITS", align: "right" },
+          { header: "COST TREND" },
+        ],
+        rows: groups.map((g) => [
+          g.label,
+          String(g.totals.sessions),
+          formatDuration(g.totals.duration_ms),
+          formatTokensCompact(g.totals.tokens_in, g.totals.tokens_out),
+          formatNumber(g.totals.cache_read_tokens),
+          formatCacheHit(g.totals.cache_hit_ratio),
+          formatCost(g.totals.cost_usd),
+          String(g.totals.commits),
+          formatSparkline(g.series.map((m) => m.cost_usd)),
+        ]),
+      }),
+    );
+    if (data.group_by === "tag") {
+      lines.push(pc.dim("Sessions with several tags count once per tag."));
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Commander Registration
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the `usage` subcommand for the fuel-code CLI.
+ * Returns a Commander Command instance ready to be registered on the program.
+ */
+export function createUsageCommand(): Command {
+  const cmd = new Command("usage")
+    .description("Show token, cost, and activity trends over time")
+    .option("-b, --bucket <bucket>", `Bucket width (${USAGE_BUCKETS.join(", ")})`, "day")
+    .option("--by <group>", `Break down by ${USAGE_GROUP_BYS.join(", ")}`)
+    .option("--from <date>", "Range start (ISO or -Nd/-Nw/-Nh); default depends on --bucket")
+    .option("--to <date>", "Range end (ISO or -Nd/-Nw/-Nh); default now")
+    .option("-w, --workspace <name>", "Filter by workspace name or ID")
+    .option("-d, --device <name>", "Filter by device name or ID")
+    .option("--json", "Output raw JSON")
+    .action(async (opts) => {
+      await runUsage(opts);
+    });
+
+  return cmd;
+}
+
+// ---------------------------------------------------------------------------
+// Command Handler
+// ---------------------------------------------------------------------------
+
+/**
+ * Core usage logic. Validates options, resolves filters, fetches and renders.
+ * Separated from Commander for testability.
+ */
+export async function runUsage(opts: {
+  bucket?: string;
+  by?: string;
+  from?: string;
+  to?: string;
+  workspace?: string;
+  device?: string;
+  json?: boolean;
+}): Promise<void> {
+  const bucket = opts.bucket ?? "day";
+  if (!(USAGE_BUCKETS as readonly string[]).includes(bucket)) {
+    process.stdout.write(pc.red(`Invalid --bucket "${bucket}". Use ${USAGE_BUCKETS.join(", ")}.`) + "\n");
+    process.exitCode = 1;
+    return;
+  }
+  if (opts.by && !(USAGE_GROUP_BYS as readonly string[]).includes(opts.by)) {
+    process.stdout.write(pc.red(`Invalid --by "${opts.by}". Use ${USAGE_GROUP_BYS.join(", ")}.`) + "\n");
+    process.exitCode = 1;
+    return;
+  }
+
+  let api: FuelApiClient;
+  try {
+    api = FuelApiClient.fromConfig();
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const params: UsageParams = {
+      bucket: bucket as UsageBucket,
+      groupBy: opts.by as UsageGroupBy | undefined,
+    };
+
+    if (opts.from) params.from = parseRelativeDate(opts.from);
+    if (opts.to) params.to = parseRelativeDate(opts.to);
+
+    if (opts.workspace) {
+      params.workspaceId = await resolveWorkspaceName(api, opts.workspace);
+    }
+
+    if (opts.device) {
+      params.deviceId = await resolveDeviceName(api, opts.device);
+    }
+
+    const data = await api.getUsage(params);
+    outputResult(data, { json: opts.json, format: formatUsage });
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
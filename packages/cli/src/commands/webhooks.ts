@@ -0,0 +1,327 @@
+/**
+ * `fuel-code webhooks` command group.
+ *
+ * Manages outbound webhooks, which POST matching events (session.end,
+ * session.summarized, git.commit, ...) to another tool with an HMAC
+ * signature:
+ *   - webhooks list                 — All webhooks with their latest delivery
+ *   - webhooks add <url>            — Create a webhook and print its secret once
+ *                                     (--event filters, --workspace narrows it)
+ *   - webhooks test <id>            — Send a webhook.test delivery right now
+ *   - webhooks deliveries <id>      — Delivery log: status, attempts, errors
+ *   - webhooks remove <id>          — Delete a webhook and its log
+ *
+ * All of them need an admin-scoped token (or the API_KEY). Receivers verify
+ * the X-Fuel-Code-Signature header with the secret shown by `add`.
+ */
+
+import { Command } from "commander";
+import pc from "picocolors";
+import {
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_HEADERS,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+} from "@fuel-code/shared";
+import { FuelApiClient, type CreateWebhookResponse } from "../lib/api-client.js";
+import { resolveWorkspaceName } from "../lib/resolvers.js";
+import {
+  formatRelativeTime,
+  formatEmpty,
+  formatError,
+  outputResult,
+  renderTable,
+} from "../lib/formatters.js";
+
+// ---------------------------------------------------------------------------
+// Presentation Layer
+// ---------------------------------------------------------------------------
+
+/** Color a delivery status: green succeeded, yellow pending, red failed */
+function formatDeliveryStatus(status: WebhookDeliveryStatus): string {
+  if (status === "succeeded") return pc.green(status);
+  return status === "pending" ? pc.yellow(status) : pc.red(status);
+}
+
+/** Event filters as shown in tables: empty means every event */
+function formatEventTypes(eventTypes: string[]): string {
+  return eventTypes.length > 0 ? eventTypes.join(",") : pc.dim("all");
+}
+
+/** Format the webhook list as a table */
+export function formatWebhookList(webhooks: Webhook[]): string {
+  if (webhooks.length === 0) {
+    return formatEmpty("webhooks");
+  }
+
+  return renderTable({
+    columns: [
+      { header: "ID" },
+      { header: "URL" },
+      { header: "EVENTS" },
+      { header: "WORKSPACE" },
+      { header: "LAST DELIVERY" },
+      { header: "CREATED" },
+    ],
+    rows: webhooks.map((w) => [
+      w.id,
+      w.description ? `${w.url} ${pc.dim(`(${w.description})`)}` : w.url,
+      formatEventTypes(w.event_types),
+      w.workspace_name ?? pc.dim("all"),
+      w.last_delivery_at && w.last_delivery_status
+        ? `${formatDeliveryStatus(w.last_delivery_status)} ${formatRelativeTime(w.last_delivery_at)}`
+        : pc.dim("never"),
+      formatRelativeTime(w.created_at),
+    ]),
+  });
+}
+
+/** Format a newly created webhook, with the one-time secret */
+export function formatCreatedWebhook(result: CreateWebhookResponse): string {
+  const w = result.webhook;
+  return [
+    `${pc.green("Created")} webhook ${pc.bold(w.id)}`,
+    `  URL:       ${w.url}`,
+    `  Events:    ${formatEventTypes(w.event_types)}`,
+    `  Workspace: ${w.workspace_name ?? pc.dim("all")}`,
+    "",
+    `  ${pc.bold(result.secret)}`,
+    "",
+    pc.yellow("Copy this secret now — it cannot be shown again."),
+    pc.dim(`Receivers verify the ${WEBHOOK_HEADERS.signature} header with it.`),
+    pc.dim(`Send a test delivery with: fuel-code webhooks test ${w.id}`),
+  ].join("\n");
+}
+
+/** One-line outcome of a delivery's last attempt, e.g. "HTTP 500: boom" */
+function formatAttemptOutcome(delivery: WebhookDelivery): string {
+  if (delivery.status === "succeeded") return `HTTP ${delivery.last_status_code}`;
+  return delivery.last_error ?? (delivery.last_status_code ? `HTTP ${delivery.last_status_code}` : "");
+}
+
+/** Format the result of `webhooks test` */
+export function formatTestDelivery(delivery: WebhookDelivery): string {
+  if (delivery.status === "succeeded") {
+    return `${pc.green("Delivered")} test event ${delivery.id} (${formatAttemptOutcome(delivery)})`;
+  }
+  return `${pc.red("Test delivery failed")}: ${formatAttemptOutcome(delivery)}`;
+}
+
+/** Format a webhook's delivery log as a table */
+export function formatDeliveryList(deliveries: WebhookDelivery[]): string {
+  if (deliveries.length === 0) {
+    return formatEmpty("deliveries");
+  }
+
+  return renderTable({
+    columns: [
+      { header: "ID" },
+      { header: "EVENT" },
+      { header: "STATUS" },
+      { header: "ATTEMPTS" },
+      { header: "RESULT" },
+      { header: "NEXT ATTEMPT" },
+      { header: "CREATED" },
+    ],
+    rows: deliveries.map((d) => [
+      d.id,
+      d.event_type,
+      formatDeliveryStatus(d.status),
+      String(d.attempts),
+      d.attempts > 0 ? formatAttemptOutcome(d) : pc.dim("-"),
+      d.next_attempt_at ? new Date(d.next_attempt_at).toISOString().slice(0, 19).replace("T", " ") : pc.dim("-"),
+      formatRelativeTime(d.created_at),
+    ]),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Commander Registration
+// ---------------------------------------------------------------------------
+
+/** Commander reducer for a repeatable --event option */
+function collectEvent(value: string, previous: string[] = []): string[] {
+  return [...previous, ...value.split(",").map((s) => s.trim()).filter(Boolean)];
+}
+
+/**
+ * Create the `webhooks` command group.
+ * Returns a Commander Command instance ready to be registered on the program.
+ */
+export function createWebhooksCommand(): Command {
+  const cmd = new Command("webhooks").description("Manage outbound webhooks and their deliveries");
+
+  // --- webhooks list (default) ---
+  cmd
+    .command("list", { isDefault: true })
+    .description("List webhooks with their latest delivery")
+    .option("--json", "Output raw JSON")
+    .action(async (opts) => {
+      await runWebhooksList(opts);
+    });
+
+  // --- webhooks add <url> ---
+  cmd
+    .command("add <url>")
+    .description("Create a webhook (its signing secret is printed once)")
+    .option(
+      "-e, --event <type>",
+      "Deliver this event type or wildcard (e.g. session.summarized, git.*); repeatable, default all",
+      collectEvent,
+    )
+    .option("-w, --workspace <name>", "Only deliver events from this workspace")
+    .option("-d, --description <text>", "Label shown in listings")
+    .option("--secret <secret>", "Use this signing secret instead of a generated one")
+    .option("--json", "Output raw JSON")
+    .action(async (url: string, opts) => {
+      await runWebhooksAdd(url, opts);
+    });
+
+  // --- webhooks test <id> ---
+  cmd
+    .command("test <id>")
+    .description("Send a test delivery now and show the result")
+    .option("--json", "Output raw JSON")
+    .action(async (id: string, opts) => {
+      await runWebhooksTest(id, opts);
+    });
+
+  // --- webhooks deliveries <id> ---
+  cmd
+    .command("deliveries <id>")
+    .description("Show a webhook's delivery log, newest first")
+    .option("-s, --status <status>", `Only show ${WEBHOOK_DELIVERY_STATUSES.join(", ")} deliveries`)
+    .option("-n, --limit <n>", "Maximum deliveries to show", "50")
+    .option("--json", "Output raw JSON")
+    .action(async (id: string, opts) => {
+      await runWebhooksDeliveries(id, opts);
+    });
+
+  // --- webhooks remove <id> ---
+  cmd
+    .command("remove <id>")
+    .description("Delete a webhook and its delivery log")
+    .action(async (id: string) => {
+      await runWebhooksRemove(id);
+    });
+
+  return cmd;
+}
+
+// ---------------------------------------------------------------------------
+// Command Handlers
+// ---------------------------------------------------------------------------
+
+/** Build an API client from config, printing the error and returning null on failure */
+function clientOrExit(): FuelApiClient | null {
+  try {
+    return FuelApiClient.fromConfig();
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+    return null;
+  }
+}
+
+/** `fuel-code webhooks list` */
+export async function runWebhooksList(opts: { json?: boolean }): Promise<void> {
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    const webhooks = await api.listWebhooks();
+    outputResult(webhooks, { json: opts.json, format: formatWebhookList });
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
+
+/** `fuel-code webhooks add <url> [--event t]... [--workspace w] [--description d] [--secret s]` */
+export async function runWebhooksAdd(
+  url: string,
+  opts: { event?: string[]; workspace?: string; description?: string; secret?: string; json?: boolean },
+): Promise<void> {
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    const workspaceId = opts.workspace ? await resolveWorkspaceName(api, opts.workspace) : undefined;
+    const result = await api.createWebhook({
+      url,
+      eventTypes: opts.event,
+      workspaceId,
+      description: opts.description,
+      secret: opts.secret,
+    });
+    outputResult(result, { json: opts.json, format: formatCreatedWebhook });
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
+
+/** `fuel-code webhooks test <id>` — exits 1 when the receiver did not accept it */
+export async function runWebhooksTest(id: string, opts: { json?: boolean }): Promise<void> {
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    const delivery = await api.testWebhook(id);
+    outputResult(delivery, { json: opts.json, format: formatTestDelivery });
+    if (delivery.status !== "succeeded") process.exitCode = 1;
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
+
+/** `fuel-code webhooks deliveries <id> [--status s] [--limit n]` */
+export async function runWebhooksDeliveries(
+  id: string,
+  opts: { status?: string; limit?: string; json?: boolean },
+): Promise<void> {
+  if (opts.status && !(WEBHOOK_DELIVERY_STATUSES as readonly string[]).includes(opts.status)) {
+    process.stdout.write(
+      pc.red(`Invalid status "${opts.status}". Use ${WEBHOOK_DELIVERY_STATUSES.join(", ")}.`) + "\n",
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const limit = opts.limit !== undefined ? parseInt(opts.limit, 10) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    process.stdout.write(pc.red(`Invalid --limit "${opts.limit}". Use a positive number.`) + "\n");
+    process.exitCode = 1;
+    return;
+  }
+
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    const deliveries = await api.listWebhookDeliveries(id, {
+      status: opts.status as WebhookDeliveryStatus | undefined,
+      limit,
+    });
+    outputResult(deliveries, { json: opts.json, format: formatDeliveryList });
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
+
+/** `fuel-code webhooks remove <id>` */
+export async function runWebhooksRemove(id: string): Promise<void> {
+  const api = clientOrExit();
+  if (!api) return;
+
+  try {
+    await api.deleteWebhook(id);
+    process.stdout.write(`${pc.red("Removed")} webhook ${id}\n`);
+  } catch (err) {
+    process.stdout.write(formatError(err) + "\n");
+    process.exitCode = 1;
+  }
+}
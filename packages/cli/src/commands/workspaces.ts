@@ -5,7 +5,13 @@
  *   - `workspaces`      — List all workspaces with aggregated stats (sessions, cost, time)
  *   - `workspace <name>` — Detailed view of a single workspace (devices, sessions, git activity)
  *
- * Both support --json for machine-readable output.
+ * And merge management (admin scope):
+ *   - `workspace merge <source> <target>` — Fold one workspace into another, e.g. a
+ *     repo tracked as local:<hash> before its remote was added
+ *   - `workspace unmerge <canonical-id>`  — Undo a merge (canonical ID or merge ID)
+ *   - `workspace merges [--all]`          — List recorded merges
+ *
+ * All support --json for machine-readable output.
  * Workspace name resolution: ULID (26-char) passed through, "/" treated as canonical ID,
  * otherwise case-insensitive prefix match via resolveWorkspaceName.
  */
@@ -16,6 +22,9 @@ import {
   FuelApiClient,
   type WorkspaceSummary,
   type WorkspaceDetailResponse,
+  type WorkspaceMergeResponse,
+  type WorkspaceUnmergeResponse,
+  type WorkspaceMergeRecord,
 } from "../lib/api-client.js";
 import { resolveWorkspaceName } from "../lib/resolvers.js";
 import { configExists, loadConfig } from "../lib/config.js";
@@ -211,6 +220,63 @@ export function formatWorkspaceDetail(detail: WorkspaceDetailResponse): string {
   return lines.join("\n");
 }
 
+// ---------------------------------------------------------------------------
+// Presentation: Workspace Merges
+// ---------------------------------------------------------------------------
+
+/** "3 sessions, 1 event" — counts of rows a merge or unmerge moved */
+function formatMovedCounts(counts: { sessions: number; events: number; gitActivity: number }): string {
+  const plural = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+  return [
+    plural(counts.sessions, "session"),
+    plural(counts.events, "event"),
+    plural(counts.gitActivity, "git event"),
+  ].join(", ");
+}
+
+/** Format the outcome of `workspace merge` */
+export function formatWorkspaceMergeResult(result: WorkspaceMergeResponse): string {
+  return [
+    `${pc.green("Merged")} ${result.sourceCanonicalId} into ${result.targetWorkspaceId}`,
+    `  Moved ${formatMovedCounts(result)}.`,
+    pc.dim(`Undo with: fuel-code workspace unmerge ${result.sourceCanonicalId}`),
+  ].join("\n");
+}
+
+/** Format the outcome of `workspace unmerge` */
+export function formatWorkspaceUnmergeResult(result: WorkspaceUnmergeResponse): string {
+  return [
+    `${pc.green("Restored")} ${result.sourceCanonicalId} (${result.sourceWorkspaceId})`,
+    `  Moved back ${formatMovedCounts(result)}.`,
+  ].join("\n");
+}
+
+/** Format recorded merges as a table, newest first */
+export function formatWorkspaceMergesTable(merges: WorkspaceMergeRecord[]): string {
+  if (merges.length === 0) {
+    return formatEmpty("workspace merges");
+  }
+
+  return renderTable({
+    columns: [
+      { header: "MERGED" },
+      { header: "SOURCE" },
+      { header: "TARGET" },
+      { header: "SESSIONS", align: "right" as const },
+      { header: "REASON" },
+      { header: "STATUS" },
+    ],
+    rows: merges.map((m) => [
+      formatRelativeTime(m.mergedAt),
+      m.sourceCanonicalId,
+      m.targetCanonicalId ?? pc.dim(m.targetWorkspaceId),
+      String(m.sessions),
+      m.reason,
+      m.unmergedAt ? pc.dim(`undone ${formatRelativeTime(m.unmergedAt)}`) : pc.green("active"),
+    ]),
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Command Registration
 // ---------------------------------------------------------------------------
@@ -228,16 +294,48 @@ export function createWorkspacesCommand(): Command {
 }
 
 /**
- * Create the `workspace <name>` detail command.
+ * Create the `workspace <name>` detail command, with the merge subcommands.
  */
 export function createWorkspaceDetailCommand(): Command {
-  return new Command("workspace")
+  const cmd = new Command("workspace")
     .description("Show detailed workspace information")
     .argument("<name>", "Workspace name, canonical ID, or ULID")
     .option("--json", "Output as JSON")
     .action(async (name, opts) => {
       await runWorkspaceDetail(name, opts);
     });
+
+  // The parent's --json is parsed before the subcommand sees it, so
+  // subcommands read options through optsWithGlobals()
+  cmd
+    .command("merge")
+    .description("Merge the source workspace into the target (e.g. a local repo that gained a remote)")
+    .argument("<source>", "Workspace to merge away (name, canonical ID, or ULID)")
+    .argument("<target>", "Workspace that absorbs it (name, canonical ID, or ULID)")
+    .option("--json", "Output as JSON")
+    .action(async (source, target, _opts, command: Command) => {
+      await runWorkspaceMerge(source, target, command.optsWithGlobals());
+    });
+
+  cmd
+    .command("unmerge")
+    .description("Undo a workspace merge")
+    .argument("<canonical-id>", "Canonical ID of the merged-away workspace, or a merge ID")
+    .option("--json", "Output as JSON")
+    .action(async (ref, _opts, command: Command) => {
+      await runWorkspaceUnmerge(ref, command.optsWithGlobals());
+    });
+
+  cmd
+    .command("merges")
+    .description("List workspace merges")
+    .option("--all", "Include merges that were undone")
+    .option("--json", "Output as JSON")
+    .action(async (_opts, command: Command) => {
+      await runWorkspaceMerges(command.optsWithGlobals());
+    });
+
+  return cmd;
 }
 
 /**
@@ -313,3 +411,76 @@ export async function runWorkspaceDetail(
     process.exitCode = 1;
   }
 }
+
+/**
+ * Run `workspace merge <source> <target>`. Both arguments are resolved like
+ * `workspace <name>` (prefix matching included) before merging.
+ */
+export async function runWorkspaceMerge(
+  source: string,
+  target: string,
+  opts: { json?: boolean },
+): Promise<void> {
+  try {
+    const config = loadConfig();
+    const api = FuelApiClient.fromConfig(config);
+
+    const sourceId = await resolveWorkspaceName(api, source);
+    const targetId = await resolveWorkspaceName(api, target);
+    const result = await api.mergeWorkspaces(sourceId, targetId);
+
+    outputResult(result, {
+      json: opts.json,
+      format: formatWorkspaceMergeResult,
+    });
+  } catch (err) {
+    console.error(formatError(err));
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Run `workspace unmerge <ref>`. A ULID is taken as a merge ID, anything
+ * else as the canonical ID of the merged-away workspace.
+ */
+export async function runWorkspaceUnmerge(
+  ref: string,
+  opts: { json?: boolean },
+): Promise<void> {
+  try {
+    const config = loadConfig();
+    const api = FuelApiClient.fromConfig(config);
+
+    const result = await api.unmergeWorkspace(
+      /^[0-9A-Z]{26}$/.test(ref) ? { mergeId: ref } : { canonicalId: ref },
+    );
+
+    outputResult(result, {
+      json: opts.json,
+      format: formatWorkspaceUnmergeResult,
+    });
+  } catch (err) {
+    console.error(formatError(err));
+    process.exitCode = 1;
+  }
+}
+
+/** Run `workspace merges [--all]` */
+export async function runWorkspaceMerges(opts: {
+  all?: boolean;
+  json?: boolean;
+}): Promise<void> {
+  try {
+    const config = loadConfig();
+    const api = FuelApiClient.fromConfig(config);
+    const merges = await api.listWorkspaceMerges({ all: opts.all });
+
+    outputResult(merges, {
+      json: opts.json,
+      format: formatWorkspaceMergesTable,
+    });
+  } catch (err) {
+    console.error(formatError(err));
+    process.exitCode = 1;
+  }
+}
@@ -14,6 +14,14 @@
  *   hooks     — Install/manage git and Claude Code hooks (Task 13)
  *   transcript — Upload transcript for session post-processing (Task 8)
  *   backfill  — Historical session discovery and ingestion (Task 11)
+ *   search    — Full-text search across session transcripts
+ *   admin     — Server administration (dead-letter inspection and replay)
+ *   archive   — Archive parsed transcripts of old sessions (--dry-run to preview)
+ *   token     — Create, list, and revoke scoped API tokens
+ *   usage     — Token, cost, and activity trends with sparklines
+ *   blame     — Sessions and commits that touched a file or directory
+ *   webhooks  — Add, list, test outbound webhooks and inspect their deliveries
+ *   events    — Query raw events across sessions; --ndjson export, --follow to tail
  *
  * On interactive commands (sessions, status, hooks, backfill, etc.), the CLI
  * checks for pending prompts (e.g., git hook installation) before running
@@ -33,10 +41,19 @@ import { createEmitCommand } from "./commands/emit.js";
 import { createQueueCommand } from "./commands/queue.js";
 import { createHooksCommand } from "./commands/hooks.js";
 import { createCCHookCommand } from "./commands/cc-hook.js";
+import { createActiveSessionCommand } from "./commands/active-session.js";
 import { createTranscriptCommand } from "./commands/transcript.js";
 import { createBackfillCommand } from "./commands/backfill.js";
 import { createSessionDetailCommand } from "./commands/session-detail.js";
 import { registerWorkspacesCommands } from "./commands/workspaces.js";
+import { createSearchCommand } from "./commands/search.js";
+import { createAdminCommand } from "./commands/admin.js";
+import { createArchiveCommand } from "./commands/archive.js";
+import { createTokenCommand } from "./commands/token.js";
+import { createUsageCommand } from "./commands/usage.js";
+import { createBlameCommand } from "./commands/blame.js";
+import { createWebhooksCommand } from "./commands/webhooks.js";
+import { createEventsCommand } from "./commands/events.js";
 import { configExists, loadConfig } from "./lib/config.js";
 import { checkPendingPrompts } from "./lib/prompt-checker.js";
 import { showGitHooksPrompt } from "./lib/git-hooks-prompt.js";
@@ -93,6 +110,9 @@ const INTERACTIVE_COMMANDS = new Set([
   "status",
   "hooks",
   "backfill",
+  "search",
+  "usage",
+  "blame",
 ]);
 
 // ---------------------------------------------------------------------------
@@ -124,6 +144,9 @@ program.addCommand(createHooksCommand());
 // Register cc-hook command (internal: called by CC hooks, hidden from help)
 program.addCommand(createCCHookCommand(), { hidden: true });
 
+// Register active-session command (internal: called by the prepare-commit-msg hook)
+program.addCommand(createActiveSessionCommand(), { hidden: true });
+
 // Register transcript command (Task 8: transcript upload for session post-processing)
 program.addCommand(createTranscriptCommand());
 
@@ -136,6 +159,30 @@ program.addCommand(createSessionDetailCommand());
 // Register workspace commands (Task 6: workspaces list + workspace detail)
 registerWorkspacesCommands(program);
 
+// Register search command (full-text search over parsed transcripts)
+program.addCommand(createSearchCommand());
+
+// Register admin command (server dead-letter inspection and replay)
+program.addCommand(createAdminCommand());
+
+// Register archive command (prune parsed rows of old sessions, S3-backed)
+program.addCommand(createArchiveCommand());
+
+// Register token command (named, scoped API tokens replacing the shared key)
+program.addCommand(createTokenCommand());
+
+// Register usage command (bucketed usage analytics from the daily rollup)
+program.addCommand(createUsageCommand());
+
+// Register blame command (file history from the session_files index)
+program.addCommand(createBlameCommand());
+
+// Register webhooks command (signed outbound deliveries and their log)
+program.addCommand(createWebhooksCommand());
+
+// Register events command (filtered event query, NDJSON export, WebSocket tail)
+program.addCommand(createEventsCommand());
+
 // Default action: launch TUI dashboard when no subcommand is given
 program.action(async () => {
   const { launchTui } = await import("./tui/App.js");
@@ -0,0 +1,206 @@
+/**
+ * Tests for the open-session registry and transcript activity reports.
+ *
+ * Registry tests use a temporary directory passed explicitly. Report tests
+ * run against a Bun.serve mock of POST /api/sessions/activity.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from "bun:test";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import type { FuelCodeConfig } from "../config.js";
+import {
+  recordActiveSession,
+  forgetActiveSession,
+  listActiveSessions,
+  findActiveSessionForWorktree,
+  reportTranscriptActivity,
+} from "../active-sessions.js";
+
+// ---------------------------------------------------------------------------
+// Mock server
+// ---------------------------------------------------------------------------
+
+let server: ReturnType<typeof Bun.serve>;
+let requests: Array<{ sessions: Array<{ id: string; transcript_mtime: string }> }> = [];
+let response: { status: number; body: unknown } = { status: 200, body: { updated: 0, upload: [], closed: [] } };
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      requests.push(await req.json());
+      return Response.json(response.body, { status: response.status });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+function makeConfig(): FuelCodeConfig {
+  return {
+    backend: { url: `http://localhost:${server.port}`, api_key: "test-api-key" },
+    device: { id: "test-device-001", name: "test-machine", type: "local" },
+    pipeline: { queue_path: "/tmp/test-queue", drain_interval_seconds: 30, batch_size: 50, post_timeout_ms: 2000 },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Test setup/teardown
+// ---------------------------------------------------------------------------
+
+let tmpDir: string;
+let dir: string;
+
+/** Write a transcript file and return its path */
+function writeTranscript(name: string, mtime?: Date): string {
+  const p = path.join(tmpDir, `${name}.jsonl`);
+  fs.writeFileSync(p, "{}\n");
+  if (mtime) fs.utimesSync(p, mtime, mtime);
+  return p;
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fuel-code-active-test-"));
+  dir = path.join(tmpDir, "active-sessions");
+  requests = [];
+  response = { status: 200, body: { updated: 0, upload: [], closed: [] } };
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+describe("active session registry", () => {
+  it("records, lists, and forgets sessions", () => {
+    recordActiveSession({ id: "sess-1", transcript_path: "/tmp/a.jsonl" }, dir);
+    recordActiveSession({ id: "sess-2", transcript_path: "/tmp/b.jsonl" }, dir);
+
+    expect(listActiveSessions(dir).map((s) => s.id).sort()).toEqual(["sess-1", "sess-2"]);
+
+    forgetActiveSession("sess-1", dir);
+    expect(listActiveSessions(dir)).toEqual([{ id: "sess-2", transcript_path: "/tmp/b.jsonl" }]);
+  });
+
+  it("returns an empty list when the directory is missing", () => {
+    expect(listActiveSessions(path.join(tmpDir, "nope"))).toEqual([]);
+  });
+
+  it("skips corrupt entries", () => {
+    recordActiveSession({ id: "sess-1", transcript_path: "/tmp/a.jsonl" }, dir);
+    fs.writeFileSync(path.join(dir, "bad.json"), "{not json");
+
+    expect(listActiveSessions(dir).map((s) => s.id)).toEqual(["sess-1"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// findActiveSessionForWorktree
+// ---------------------------------------------------------------------------
+
+describe("findActiveSessionForWorktree", () => {
+  it("picks the session in the worktree with the freshest transcript", () => {
+    const now = Date.now();
+    recordActiveSession({ id: "sess-old", transcript_path: writeTranscript("a", new Date(now - 60_000)), worktree: "/code/repo" }, dir);
+    recordActiveSession({ id: "sess-new", transcript_path: writeTranscript("b", new Date(now - 1_000)), worktree: "/code/repo" }, dir);
+    recordActiveSession({ id: "sess-other", transcript_path: writeTranscript("c"), worktree: "/code/repo-wt" }, dir);
+
+    expect(findActiveSessionForWorktree("/code/repo/", { dir })?.id).toBe("sess-new");
+    expect(findActiveSessionForWorktree("/code/repo-wt", { dir })?.id).toBe("sess-other");
+  });
+
+  it("ignores entries without a worktree, transcript, or recent activity", () => {
+    const stale = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000);
+    recordActiveSession({ id: "sess-legacy", transcript_path: writeTranscript("a") }, dir);
+    recordActiveSession({ id: "sess-gone", transcript_path: path.join(tmpDir, "missing.jsonl"), worktree: "/code/repo" }, dir);
+    recordActiveSession({ id: "sess-stale", transcript_path: writeTranscript("b", stale), worktree: "/code/repo" }, dir);
+
+    expect(findActiveSessionForWorktree("/code/repo", { dir })).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// reportTranscriptActivity
+// ---------------------------------------------------------------------------
+
+describe("reportTranscriptActivity", () => {
+  const noUpload = async () => null;
+
+  it("reports mtimes and drops sessions whose transcript is gone", async () => {
+    const mtime = new Date("2026-01-10T12:00:00.000Z");
+    recordActiveSession({ id: "sess-1", transcript_path: writeTranscript("a", mtime) }, dir);
+    recordActiveSession({ id: "sess-gone", transcript_path: path.join(tmpDir, "missing.jsonl") }, dir);
+
+    const result = await reportTranscriptActivity(makeConfig(), {
+      dir,
+      upload: noUpload,
+      now: mtime.getTime() + 60_000,
+    });
+
+    expect(result.reported).toBe(1);
+    expect(result.removed).toEqual(["sess-gone"]);
+    expect(requests).toEqual([{ sessions: [{ id: "sess-1", transcript_mtime: mtime.toISOString() }] }]);
+    expect(listActiveSessions(dir).map((s) => s.id)).toEqual(["sess-1"]);
+  });
+
+  it("uploads reaped sessions and forgets closed ones", async () => {
+    const a = writeTranscript("a");
+    recordActiveSession({ id: "sess-reaped", transcript_path: a }, dir);
+    recordActiveSession({ id: "sess-done", transcript_path: writeTranscript("b") }, dir);
+    recordActiveSession({ id: "sess-open", transcript_path: writeTranscript("c") }, dir);
+    response.body = { updated: 1, upload: ["sess-reaped"], closed: ["sess-done"] };
+
+    const uploads: Array<[string, string]> = [];
+    const result = await reportTranscriptActivity(makeConfig(), {
+      dir,
+      upload: async (id, filePath) => {
+        uploads.push([id, filePath]);
+        return "transcripts/key";
+      },
+    });
+
+    expect(uploads).toEqual([["sess-reaped", a]]);
+    expect(result.uploaded).toEqual(["sess-reaped"]);
+    expect(listActiveSessions(dir).map((s) => s.id)).toEqual(["sess-open"]);
+  });
+
+  it("keeps a reaped session when its upload fails", async () => {
+    recordActiveSession({ id: "sess-reaped", transcript_path: writeTranscript("a") }, dir);
+    response.body = { updated: 0, upload: ["sess-reaped"], closed: [] };
+
+    const result = await reportTranscriptActivity(makeConfig(), { dir, upload: noUpload });
+
+    expect(result.uploaded).toEqual([]);
+    expect(listActiveSessions(dir).map((s) => s.id)).toEqual(["sess-reaped"]);
+  });
+
+  it("throttles reports unless forced", async () => {
+    recordActiveSession({ id: "sess-1", transcript_path: writeTranscript("a") }, dir);
+    const now = Date.now();
+
+    await reportTranscriptActivity(makeConfig(), { dir, upload: noUpload, now });
+    const second = await reportTranscriptActivity(makeConfig(), { dir, upload: noUpload, now: now + 1000 });
+    expect(second.throttled).toBe(true);
+    expect(requests).toHaveLength(1);
+
+    await reportTranscriptActivity(makeConfig(), { dir, upload: noUpload, now: now + 2000, force: true });
+    expect(requests).toHaveLength(2);
+  });
+
+  it("leaves the registry untouched when the server errors", async () => {
+    recordActiveSession({ id: "sess-1", transcript_path: writeTranscript("a") }, dir);
+    response = { status: 500, body: { error: "boom" } };
+
+    const result = await reportTranscriptActivity(makeConfig(), { dir, upload: noUpload });
+
+    expect(result.reported).toBe(0);
+    expect(listActiveSessions(dir).map((s) => s.id)).toEqual(["sess-1"]);
+  });
+});
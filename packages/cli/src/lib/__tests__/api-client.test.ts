@@ -267,6 +267,16 @@ describe("FuelApiClient — session endpoints", () => {
     expect(result[0].id).toBe("git-1");
   });
 
+  it("getSessionDiff sends GET /api/sessions/:id/diff", async () => {
+    mockResponse(200, { session_id: "sess-001", files: [], stats: { files: 0, additions: 0, deletions: 0 } });
+    const client = makeClient();
+
+    const result = await client.getSessionDiff("sess-001");
+
+    expect(lastRequest.url).toBe("/api/sessions/sess-001/diff");
+    expect(result.stats.files).toBe(0);
+  });
+
   it("updateSession sends PATCH /api/sessions/:id and unwraps { session }", async () => {
     mockResponse(200, { session: { id: "sess-001", tags: ["test"] } });
     const client = makeClient();
@@ -358,6 +368,16 @@ describe("FuelApiClient — workspace endpoints", () => {
     // Should URL-encode the slash
     expect(lastRequest.url).toBe("/api/workspaces/canonical%2Fid");
   });
+
+  it("getWorkspaceFiles sends GET /api/workspaces/:id/files with path and limit", async () => {
+    mockResponse(200, { workspace_id: "ws-001", path: "src/auth", entries: [] });
+    const client = makeClient();
+
+    const result = await client.getWorkspaceFiles("github.com/user/repo", "src/auth", { limit: 20 });
+
+    expect(lastRequest.url).toBe("/api/workspaces/github.com%2Fuser%2Frepo/files?path=src%2Fauth&limit=20");
+    expect(result.path).toBe("src/auth");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -13,8 +13,10 @@ import {
   formatCost,
   formatRelativeTime,
   formatLifecycle,
+  formatRewriteNote,
   formatNumber,
   formatTokens,
+  formatSparkline,
   truncate,
   stripAnsi,
   renderTable,
@@ -247,6 +249,23 @@ describe("formatLifecycle", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Tests: formatRewriteNote
+// ---------------------------------------------------------------------------
+
+describe("formatRewriteNote", () => {
+  it("labels amended and rebased commits", () => {
+    expect(formatRewriteNote({ rewritten_from: "abc123", rewrite_kind: "amend" })).toBe("amended");
+    expect(formatRewriteNote({ rewritten_from: "abc123", rewrite_kind: "rebase" })).toBe("rebased");
+  });
+
+  it("returns empty string for commits never rewritten", () => {
+    expect(formatRewriteNote({ author_name: "Jane" })).toBe("");
+    expect(formatRewriteNote(null)).toBe("");
+    expect(formatRewriteNote(undefined)).toBe("");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Tests: formatNumber
 // ---------------------------------------------------------------------------
@@ -302,6 +321,24 @@ describe("formatTokens", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Tests: formatSparkline
+// ---------------------------------------------------------------------------
+
+describe("formatSparkline", () => {
+  it("scales values to the series maximum", () => {
+    expect(formatSparkline([0, 2, 5, 10])).toBe("▁▃▅█");
+  });
+
+  it("renders an all-zero series as the lowest block", () => {
+    expect(formatSparkline([0, 0, 0])).toBe("▁▁▁");
+  });
+
+  it("returns an empty string for an empty series", () => {
+    expect(formatSparkline([])).toBe("");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Tests: stripAnsi
 // ---------------------------------------------------------------------------
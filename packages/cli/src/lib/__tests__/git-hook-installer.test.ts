@@ -10,6 +10,7 @@
  *   - writeHookScripts() writes all scripts correctly
  *   - getGitHookStatus() detects installed state
  *   - getGitHookStatus() detects chained hooks
+ *   - installGitHooks({ commitTrailers }) adds/removes prepare-commit-msg
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
@@ -27,6 +28,7 @@ import {
   overrideGitConfigFile,
   overrideHomeDir,
   GIT_HOOK_NAMES,
+  OPTIONAL_GIT_HOOK_NAMES,
 } from "../git-hook-installer.js";
 import {
   getGitHookStatus,
@@ -248,7 +250,7 @@ describe("getGitHookStatus", () => {
     expect(status.isFuelCode).toBe(true);
     expect(status.hooksPath).toBe(hooksDir);
 
-    // All 4 hooks should show as existing and executable
+    // All 5 hooks should show as existing and executable
     for (const name of GIT_HOOK_NAMES) {
       expect(status.hooks[name].exists).toBe(true);
       expect(status.hooks[name].executable).toBe(true);
@@ -298,6 +300,45 @@ describe("getGitHookStatus", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Tests: installGitHooks — optional commit trailer hook
+// ---------------------------------------------------------------------------
+
+describe("installGitHooks: commit trailers", () => {
+  it("installs prepare-commit-msg only when requested", async () => {
+    const plain = await installGitHooks();
+    expect(plain.installed).toEqual([...GIT_HOOK_NAMES]);
+    expect(fs.existsSync(path.join(hooksDir, "prepare-commit-msg"))).toBe(false);
+
+    const withTrailers = await installGitHooks({ commitTrailers: true });
+    expect(withTrailers.installed).toEqual([...GIT_HOOK_NAMES, ...OPTIONAL_GIT_HOOK_NAMES]);
+
+    const status = await getGitHookStatus();
+    expect(status.hooks["prepare-commit-msg"]).toEqual({ exists: true, chained: false, executable: true });
+  });
+
+  it("chains an existing prepare-commit-msg and restores it when trailers are turned off", async () => {
+    const prevDir = path.join(tmpDir, "prev-pcm");
+    fs.mkdirSync(prevDir, { recursive: true });
+    fs.writeFileSync(path.join(prevDir, "prepare-commit-msg"), "#!/bin/sh\necho mine", "utf-8");
+    fs.chmodSync(path.join(prevDir, "prepare-commit-msg"), 0o755);
+    execSync(
+      `git config --file "${gitConfigFile}" core.hooksPath "${prevDir}"`,
+      { stdio: "pipe" },
+    );
+
+    const result = await installGitHooks({ commitTrailers: true });
+    expect(result.backedUp).toContain("prepare-commit-msg");
+    expect(result.chained).toContain("prepare-commit-msg");
+
+    // Reinstall without trailers: the user's hook moves back into place
+    await installGitHooks();
+    const hookPath = path.join(hooksDir, "prepare-commit-msg");
+    expect(fs.readFileSync(hookPath, "utf-8")).toContain("echo mine");
+    expect(fs.existsSync(`${hookPath}.user`)).toBe(false);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Tests: loadBackupMeta — reads from timestamped subdirectory
 // ---------------------------------------------------------------------------
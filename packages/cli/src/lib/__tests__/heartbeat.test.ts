@@ -0,0 +1,144 @@
+/**
+ * Tests for device heartbeats.
+ *
+ * Throttle tests use a marker file in a temporary config dir. Drain
+ * heartbeat tests run against a Bun.serve mock of POST /api/events/ingest.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from "bun:test";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import type { Event } from "@fuel-code/shared";
+import { overrideConfigPaths, type FuelCodeConfig } from "../config.js";
+import { recordActiveSession } from "../active-sessions.js";
+import {
+  isHeartbeatDue,
+  markHeartbeatSent,
+  buildHeartbeatEvent,
+  sendDrainHeartbeat,
+  HEARTBEAT_INTERVAL_MS,
+} from "../heartbeat.js";
+
+// ---------------------------------------------------------------------------
+// Mock server
+// ---------------------------------------------------------------------------
+
+let server: ReturnType<typeof Bun.serve>;
+let requests: Array<{ events: Event[] }> = [];
+let status = 200;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      requests.push(await req.json());
+      return Response.json({ ingested: 1, duplicates: 0 }, { status });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+let tmpDir: string;
+
+function makeConfig(): FuelCodeConfig {
+  return {
+    backend: { url: `http://localhost:${server.port}`, api_key: "test-api-key" },
+    device: { id: "test-device-001", name: "test-machine", type: "local" },
+    pipeline: {
+      queue_path: path.join(tmpDir, "queue"),
+      drain_interval_seconds: 30,
+      batch_size: 50,
+      post_timeout_ms: 2000,
+    },
+  };
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fuel-code-heartbeat-test-"));
+  overrideConfigPaths(tmpDir);
+  requests = [];
+  status = 200;
+});
+
+afterEach(() => {
+  overrideConfigPaths(undefined);
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Throttle
+// ---------------------------------------------------------------------------
+
+describe("heartbeat throttle", () => {
+  it("is due until one is marked sent, then again after the interval", () => {
+    const now = Date.now();
+    expect(isHeartbeatDue({ now })).toBe(true);
+
+    markHeartbeatSent({ now });
+    expect(fs.existsSync(path.join(tmpDir, ".last-heartbeat"))).toBe(true);
+    expect(isHeartbeatDue({ now: now + 1000 })).toBe(false);
+    expect(isHeartbeatDue({ now: now + HEARTBEAT_INTERVAL_MS })).toBe(true);
+  });
+
+  it("treats a corrupt marker as due", () => {
+    const markerPath = path.join(tmpDir, "marker");
+    fs.writeFileSync(markerPath, "garbage");
+    expect(isHeartbeatDue({ markerPath })).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildHeartbeatEvent
+// ---------------------------------------------------------------------------
+
+describe("buildHeartbeatEvent", () => {
+  it("builds an unassociated system.heartbeat with device hints", () => {
+    const event = buildHeartbeatEvent(makeConfig(), "hook", { queue_depth: 2 });
+
+    expect(event.type).toBe("system.heartbeat");
+    expect(event.device_id).toBe("test-device-001");
+    expect(event.workspace_id).toBe("_unassociated");
+    expect(event.session_id).toBeNull();
+    expect(event.data).toEqual({
+      source: "hook",
+      queue_depth: 2,
+      _device_name: "test-machine",
+      _device_type: "local",
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// sendDrainHeartbeat
+// ---------------------------------------------------------------------------
+
+describe("sendDrainHeartbeat", () => {
+  it("sends queue depth and open session count, then throttles", async () => {
+    const config = makeConfig();
+    fs.mkdirSync(config.pipeline.queue_path, { recursive: true });
+    fs.writeFileSync(path.join(config.pipeline.queue_path, "a.json"), "{}");
+    recordActiveSession({ id: "sess-1", transcript_path: "/tmp/a.jsonl" });
+
+    expect(await sendDrainHeartbeat(config)).toBe(true);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].events[0].data).toMatchObject({
+      source: "drain",
+      queue_depth: 1,
+      active_sessions: 1,
+    });
+
+    expect(await sendDrainHeartbeat(config)).toBe(false);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("leaves the throttle untouched when the server errors", async () => {
+    status = 500;
+
+    expect(await sendDrainHeartbeat(makeConfig())).toBe(false);
+    expect(isHeartbeatDue()).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Tests for client-side prompt redaction and truncation.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { MAX_SESSION_PROMPT_CHARS } from "@fuel-code/shared";
+import { preparePrompt, REDACTION_MARKER } from "../prompt-redaction.js";
+
+describe("preparePrompt", () => {
+  it("passes text through unchanged with no patterns", () => {
+    expect(preparePrompt("fix the login bug")).toEqual({
+      text: "fix the login bug",
+      redacted: false,
+      truncated: false,
+    });
+  });
+
+  it("replaces every match of every pattern", () => {
+    const result = preparePrompt(
+      "use sk-abc123 and sk-def456, password=hunter2",
+      ["sk-[a-z0-9]+", "password=\\S+"],
+    );
+    expect(result.text).toBe(
+      `use ${REDACTION_MARKER} and ${REDACTION_MARKER}, ${REDACTION_MARKER}`,
+    );
+    expect(result.redacted).toBe(true);
+  });
+
+  it("reports redacted=false when patterns don't match", () => {
+    expect(preparePrompt("nothing secret", ["sk-[a-z0-9]+"]).redacted).toBe(false);
+  });
+
+  it("skips invalid patterns instead of throwing", () => {
+    const result = preparePrompt("token sk-abc", ["(unclosed", "sk-\\w+"]);
+    expect(result.text).toBe(`token ${REDACTION_MARKER}`);
+  });
+
+  it("truncates prompts longer than the max", () => {
+    const result = preparePrompt("x".repeat(MAX_SESSION_PROMPT_CHARS + 50));
+    expect(result.text).toHaveLength(MAX_SESSION_PROMPT_CHARS);
+    expect(result.truncated).toBe(true);
+  });
+});
@@ -226,6 +226,35 @@ describe("renderMessage — thinking block expanded", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Tests: Tool results
+// ---------------------------------------------------------------------------
+
+describe("renderMessage — tool results", () => {
+  it("hints at --output for truncated results", () => {
+    const msg = makeMessage({
+      content_blocks: [
+        makeBlock({
+          id: "blk-big",
+          block_type: "tool_result",
+          result_text: "partial output",
+          metadata: { truncated: true, original_byte_length: 524288 },
+        }),
+      ],
+    });
+    const result = renderMessage(msg, 1, { colorize: false });
+    expect(result).toContain("[output truncated: 512 KB — use --output blk-big for the full result]");
+    expect(result).not.toContain("partial output");
+  });
+
+  it("stays silent for results that fit inline", () => {
+    const msg = makeMessage({
+      content_blocks: [makeBlock({ block_type: "tool_result", result_text: "ok" })],
+    });
+    expect(renderMessage(msg, 1, { colorize: false })).not.toContain("truncated");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Tests: Edge cases
 // ---------------------------------------------------------------------------
@@ -251,6 +280,19 @@ describe("renderTranscript — truncation", () => {
   });
 });
 
+describe("renderTranscript — compaction boundaries", () => {
+  it("inserts a divider where compact_sequence increases", () => {
+    const messages = [
+      makeMessage({ id: "msg-0", ordinal: 1, compact_sequence: 0, is_compacted: true }),
+      makeMessage({ id: "msg-1", ordinal: 2, compact_sequence: 1 }),
+      makeMessage({ id: "msg-2", ordinal: 3, compact_sequence: 1 }),
+    ];
+    const result = renderTranscript(messages, { colorize: false });
+    const dividers = result.split("\n").filter((l) => l.includes("Context compacted"));
+    expect(dividers).toEqual(["── Context compacted (#1) ──"]);
+  });
+});
+
 describe("renderTranscript — text wrapping", () => {
   it("wraps long text lines to maxWidth", () => {
     const longText = "word ".repeat(50).trim(); // ~250 chars of words
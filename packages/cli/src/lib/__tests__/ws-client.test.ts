@@ -42,8 +42,8 @@ function startMockServer(opts?: {
     const wss = new WebSocketServer({ server: httpServer, path: "/api/ws" });
 
     wss.on("connection", (ws, req) => {
-      const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
-      const token = url.searchParams.get("token");
+      const auth = req.headers.authorization;
+      const token = auth?.startsWith("Bearer ") ? auth.slice(7) : null;
 
       if (!token || token !== API_KEY) {
         ws.close(4001, "Unauthorized");
@@ -217,7 +217,7 @@ describe("WsClient", () => {
     wsClients.push(client);
 
     const url = (client as any).buildWsUrl();
-    expect(url).toBe("wss://fuel-code.up.railway.app/api/ws?token=key123");
+    expect(url).toBe("wss://fuel-code.up.railway.app/api/ws");
   });
 
   // 5. URL conversion http -> ws
@@ -230,7 +230,7 @@ describe("WsClient", () => {
     wsClients.push(client);
 
     const url = (client as any).buildWsUrl();
-    expect(url).toBe("ws://localhost:3000/api/ws?token=key456");
+    expect(url).toBe("ws://localhost:3000/api/ws");
   });
 
   // 6. URL strips trailing slash
@@ -243,7 +243,7 @@ describe("WsClient", () => {
     wsClients.push(client);
 
     const url = (client as any).buildWsUrl();
-    expect(url).toBe("wss://host.com/api/ws?token=key789");
+    expect(url).toBe("wss://host.com/api/ws");
   });
 
   // 7. subscribe({ scope: 'all' }) sends correct message
@@ -388,6 +388,35 @@ describe("WsClient", () => {
     });
   });
 
+  // 13b. Server sends session.prompt
+  test("13b. server sends session.prompt, client emits 'session.prompt'", async () => {
+    let serverWs: InstanceType<typeof WsWebSocket>;
+    const { port } = await startMockServer({
+      onConnection: (ws) => { serverWs = ws; },
+    });
+    const client = createClient(port);
+    await client.connect();
+
+    const promptPromise = waitForEvent(client, "session.prompt");
+    serverWs!.send(
+      JSON.stringify({
+        type: "session.prompt",
+        session_id: "s1",
+        workspace_id: "ws-1",
+        prompt: "add a retry",
+        submitted_at: "2025-01-15T10:00:00.000Z",
+      }),
+    );
+
+    const received = await promptPromise;
+    expect(received).toEqual({
+      session_id: "s1",
+      workspace_id: "ws-1",
+      prompt: "add a retry",
+      submitted_at: "2025-01-15T10:00:00.000Z",
+    });
+  });
+
   // 14. Server sends remote.update
   test("14. server sends remote.update, client emits 'remote.update'", async () => {
     let serverWs: InstanceType<typeof WsWebSocket>;
@@ -794,7 +823,7 @@ describe("WsClient", () => {
     wsClients.push(client);
 
     const url = (client as any).buildWsUrl();
-    expect(url).toBe("wss://fuel-code.up.railway.app/api/ws?token=my-api-key");
+    expect(url).toBe("wss://fuel-code.up.railway.app/api/ws");
   });
 
   // 30. state getter reflects state through connect/disconnect cycle
@@ -812,4 +841,115 @@ describe("WsClient", () => {
     expect(client.state).toBe("disconnected");
     expect(client.connected).toBe(false);
   });
+
+  // 31. Server sends device.update
+  test("31. server sends device.update, client emits 'device.update'", async () => {
+    let serverWs: InstanceType<typeof WsWebSocket>;
+    const { port } = await startMockServer({
+      onConnection: (ws) => { serverWs = ws; },
+    });
+    const client = createClient(port);
+    await client.connect();
+
+    const updatePromise = waitForEvent(client, "device.update");
+    serverWs!.send(
+      JSON.stringify({
+        type: "device.update",
+        device_id: "device-1",
+        name: "macbook-pro",
+        status: "online",
+        last_seen_at: "2025-01-15T10:00:00.000Z",
+      }),
+    );
+
+    expect(await updatePromise).toEqual({
+      device_id: "device-1",
+      name: "macbook-pro",
+      status: "online",
+      last_seen_at: "2025-01-15T10:00:00.000Z",
+    });
+  });
+
+  // 32. Server sends resync_required
+  test("32. server sends resync_required, client emits 'resync'", async () => {
+    let serverWs: InstanceType<typeof WsWebSocket>;
+    const { port } = await startMockServer({
+      onConnection: (ws) => { serverWs = ws; },
+    });
+    const client = createClient(port);
+    await client.connect();
+
+    const resyncPromise = waitForEvent(client, "resync");
+    serverWs!.send(
+      JSON.stringify({ type: "resync_required", subscription: "all", reason: "expired" }),
+    );
+
+    expect(await resyncPromise).toEqual({ subscription: "all", reason: "expired" });
+  });
+
+  // 33. Resume from the last seq on reconnect
+  test("33. re-subscribe on reconnect resumes from the highest seq seen", async () => {
+    const receivedMessages: any[] = [];
+    let connectionCount = 0;
+
+    const { port } = await startMockServer({
+      onConnection: (ws) => {
+        connectionCount++;
+        const first = connectionCount === 1;
+        ws.on("message", (data) => {
+          receivedMessages.push(JSON.parse(data.toString()));
+          // First connection: once subscribed, deliver broadcasts (out of order), then drop
+          if (first) {
+            ws.send(JSON.stringify({ type: "remote.update", remote_env_id: "r1", status: "ready", seq: "1700000000000-3" }));
+            ws.send(JSON.stringify({ type: "remote.update", remote_env_id: "r1", status: "busy", seq: "1700000000000-10" }));
+            ws.send(JSON.stringify({ type: "remote.update", remote_env_id: "r1", status: "idle", seq: "999999999999-0" }));
+            setTimeout(() => ws.close(), 300);
+          }
+        });
+      },
+    });
+
+    const client = createClient(port, {
+      reconnect: true,
+      maxReconnectAttempts: 5,
+      maxReconnectDelay: 200,
+    });
+    client.on("error", () => {});
+    client.subscribe({ session_id: "s1" });
+    await client.connect();
+
+    await waitForEvent(client, "connected", 5000);
+    await delay(100);
+
+    expect(client.lastSeq).toBe("1700000000000-10");
+    const subscribeMsgs = receivedMessages.filter((m) => m.type === "subscribe");
+    expect(subscribeMsgs[0]).toEqual({ type: "subscribe", session_id: "s1" });
+    expect(subscribeMsgs[subscribeMsgs.length - 1]).toEqual({
+      type: "subscribe",
+      session_id: "s1",
+      since: "1700000000000-10",
+    });
+  }, 10000);
+
+  // 34. Filter subscriptions are identified by ID
+  test("34. subscribe({ filter }) sends an ID, unsubscribe({ subscription }) removes it", async () => {
+    let serverWs: InstanceType<typeof WsWebSocket>;
+    const { port } = await startMockServer({
+      onConnection: (ws) => { serverWs = ws; },
+    });
+    const client = createClient(port);
+    await client.connect();
+
+    const subPromise = waitForServerMessage<any>(serverWs!);
+    const id = client.subscribe({ filter: { event_types: ["git.*"], device_id: "d1" } });
+    const sub = await subPromise;
+
+    expect(id).toMatch(/^filter:/);
+    expect(sub).toEqual({ type: "subscribe", id, filter: { event_types: ["git.*"], device_id: "d1" } });
+
+    const unsubPromise = waitForServerMessage(serverWs!);
+    client.unsubscribe({ subscription: id });
+    expect(await unsubPromise).toEqual({ type: "unsubscribe", subscription: id });
+    expect((client as any).subscriptions.size).toBe(0);
+  });
 });
@@ -0,0 +1,257 @@
+/**
+ * Local registry of open Claude Code sessions for fuel-code.
+ *
+ * The SessionStart hook records each session's transcript path in
+ * ~/.fuel-code/active-sessions/{sessionId}.json and SessionEnd removes it.
+ * When CC crashes, SessionEnd never fires and the entry stays behind.
+ *
+ * Entries also record the session's git worktree, so the optional
+ * prepare-commit-msg hook can stamp commits with a `Fuel-Session` trailer
+ * naming the session open in that worktree (findActiveSessionForWorktree).
+ *
+ * Background drains call reportTranscriptActivity(), which sends the
+ * transcript mtime of every open session to the server. The server's reaper
+ * uses those mtimes to tell a long quiet turn from a dead session, and the
+ * response lists sessions the server has since closed: reaped sessions still
+ * missing a transcript get it uploaded here, and their entries are dropped.
+ *
+ * Like the queue, nothing in this module throws — it runs from hooks and
+ * detached drain processes where a failure must never surface.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as crypto from "node:crypto";
+import type { FuelCodeConfig } from "./config.js";
+import { getConfigDir } from "./config.js";
+import { FuelApiClient } from "./api-client.js";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Minimum time between activity reports — drains run after every hook */
+const REPORT_INTERVAL_MS = 60_000;
+
+/** Entries whose transcript hasn't changed in this long are dropped */
+const STALE_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Max sessions per report (server limit) */
+const MAX_REPORT_SIZE = 200;
+
+/** Marker file holding the time of the last report */
+const LAST_REPORT_FILE = ".last-report";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One open session on this machine */
+export interface ActiveSession {
+  id: string;
+  transcript_path: string;
+  /** Top-level directory of the git worktree the session started in */
+  worktree?: string;
+}
+
+/** What a report did — returned for tests and foreground callers */
+export interface ActivityReportResult {
+  /** Sessions whose mtime was sent */
+  reported: number;
+  /** Reaped sessions whose transcript was uploaded */
+  uploaded: string[];
+  /** Entries removed (closed on the server, stale, or transcript gone) */
+  removed: string[];
+  /** True if the report was skipped because one ran recently */
+  throttled: boolean;
+}
+
+/** Options for reportTranscriptActivity (overridable for tests) */
+export interface ActivityReportOptions {
+  /** Registry directory (default ~/.fuel-code/active-sessions) */
+  dir?: string;
+  /** Upload a transcript; resolves to the S3 key or null on failure */
+  upload: (sessionId: string, filePath: string) => Promise<string | null>;
+  /** Report even if one ran within REPORT_INTERVAL_MS */
+  force?: boolean;
+  /** Current time (default Date.now()) */
+  now?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** Default registry directory under the config dir */
+export function getActiveSessionsDir(): string {
+  return path.join(getConfigDir(), "active-sessions");
+}
+
+/** Record an open session. Atomic write; never throws. */
+export function recordActiveSession(entry: ActiveSession, dir?: string): void {
+  try {
+    const target = dir ?? getActiveSessionsDir();
+    fs.mkdirSync(target, { recursive: true });
+    const filePath = path.join(target, `${entry.id}.json`);
+    const tmpPath = path.join(target, `.${entry.id}.json.tmp.${crypto.randomBytes(4).toString("hex")}`);
+    fs.writeFileSync(tmpPath, JSON.stringify(entry), "utf-8");
+    fs.renameSync(tmpPath, filePath);
+  } catch {
+    // Best-effort — the session is still tracked by its hook events
+  }
+}
+
+/** Forget a session (ended normally or closed on the server). Never throws. */
+export function forgetActiveSession(sessionId: string, dir?: string): void {
+  try {
+    fs.unlinkSync(path.join(dir ?? getActiveSessionsDir(), `${sessionId}.json`));
+  } catch {
+    // Already gone
+  }
+}
+
+/** List recorded sessions, skipping unreadable entries. Never throws. */
+export function listActiveSessions(dir?: string): ActiveSession[] {
+  let target: string;
+  let files: string[];
+  try {
+    target = dir ?? getActiveSessionsDir();
+    files = fs.readdirSync(target).filter((f) => f.endsWith(".json") && !f.startsWith("."));
+  } catch {
+    return [];
+  }
+
+  const sessions: ActiveSession[] = [];
+  for (const file of files) {
+    try {
+      const entry = JSON.parse(fs.readFileSync(path.join(target, file), "utf-8")) as ActiveSession;
+      if (entry.id && entry.transcript_path) sessions.push(entry);
+    } catch {
+      // Corrupt entry — ignore
+    }
+  }
+  return sessions;
+}
+
+/**
+ * Find the open session for a git worktree. When several sessions share the
+ * worktree, the one whose transcript changed most recently wins; entries
+ * whose transcript is gone or long untouched are ignored. Never throws.
+ */
+export function findActiveSessionForWorktree(
+  worktree: string,
+  options: { dir?: string; now?: number } = {},
+): ActiveSession | null {
+  const now = options.now ?? Date.now();
+  const target = path.resolve(worktree);
+
+  let best: ActiveSession | null = null;
+  let bestMtime = -Infinity;
+  for (const entry of listActiveSessions(options.dir)) {
+    if (!entry.worktree || path.resolve(entry.worktree) !== target) continue;
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(entry.transcript_path).mtimeMs;
+    } catch {
+      continue;
+    }
+    if (now - mtimeMs > STALE_AFTER_MS) continue;
+    if (mtimeMs > bestMtime) {
+      best = entry;
+      bestMtime = mtimeMs;
+    }
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Activity report
+// ---------------------------------------------------------------------------
+
+/**
+ * Report transcript mtimes of open sessions to the server, upload the
+ * transcripts of sessions the server reaped, and prune the registry.
+ *
+ * Throttled to one report per REPORT_INTERVAL_MS unless `force` is set.
+ * Network failures leave the registry untouched for the next drain.
+ */
+export async function reportTranscriptActivity(
+  config: FuelCodeConfig,
+  options: ActivityReportOptions,
+): Promise<ActivityReportResult> {
+  const dir = options.dir ?? getActiveSessionsDir();
+  const now = options.now ?? Date.now();
+  const result: ActivityReportResult = { reported: 0, uploaded: [], removed: [], throttled: false };
+
+  const entries = listActiveSessions(dir);
+  if (entries.length === 0) return result;
+
+  const markerPath = path.join(dir, LAST_REPORT_FILE);
+  if (!options.force) {
+    try {
+      const last = parseInt(fs.readFileSync(markerPath, "utf-8"), 10);
+      if (Number.isFinite(last) && now - last < REPORT_INTERVAL_MS) {
+        result.throttled = true;
+        return result;
+      }
+    } catch {
+      // No marker yet
+    }
+  }
+  try {
+    fs.writeFileSync(markerPath, String(now), "utf-8");
+  } catch {
+    // Ignore — worst case we report again next drain
+  }
+
+  // Stat each transcript; drop entries whose file is gone or long untouched
+  const reports: Array<{ id: string; transcript_mtime: string }> = [];
+  const byId = new Map<string, ActiveSession>();
+  for (const entry of entries) {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(entry.transcript_path).mtimeMs;
+    } catch {
+      forgetActiveSession(entry.id, dir);
+      result.removed.push(entry.id);
+      continue;
+    }
+    if (now - mtimeMs > STALE_AFTER_MS) {
+      forgetActiveSession(entry.id, dir);
+      result.removed.push(entry.id);
+      continue;
+    }
+    byId.set(entry.id, entry);
+    reports.push({ id: entry.id, transcript_mtime: new Date(mtimeMs).toISOString() });
+  }
+
+  const client = FuelApiClient.fromConfig(config);
+  for (let i = 0; i < reports.length; i += MAX_REPORT_SIZE) {
+    const batch = reports.slice(i, i + MAX_REPORT_SIZE);
+    let response;
+    try {
+      response = await client.reportTranscriptActivity(batch);
+    } catch {
+      // Server unreachable — try again on the next drain
+      return result;
+    }
+    result.reported += batch.length;
+
+    for (const id of response.upload) {
+      const entry = byId.get(id);
+      if (!entry) continue;
+      const key = await options.upload(id, entry.transcript_path);
+      if (key) {
+        result.uploaded.push(id);
+        forgetActiveSession(id, dir);
+        result.removed.push(id);
+      }
+    }
+    for (const id of response.closed) {
+      forgetActiveSession(id, dir);
+      result.removed.push(id);
+    }
+  }
+
+  return result;
+}
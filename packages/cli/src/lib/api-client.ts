@@ -15,7 +15,7 @@
  *   - All endpoint methods return typed responses
  */
 
-import type { Event, IngestResponse, Session, Workspace, Device, GitActivity, TranscriptMessage, BackfillSessionRequest } from "@fuel-code/shared";
+import type { Event, IngestResponse, Session, Workspace, Device, GitActivity, TranscriptMessage, BackfillSessionRequest, DeadLetterEvent, SessionPrompt, ApiToken, ApiTokenScope, UsageBucket, UsageGroupBy, UsageResponse, ToolResultLocation, SessionDiff, FileHistoryResponse, Webhook, WebhookDelivery, WebhookDeliveryStatus } from "@fuel-code/shared";
 import { NetworkError } from "@fuel-code/shared";
 import { loadConfig, type FuelCodeConfig } from "./config.js";
 
@@ -110,6 +110,17 @@ export interface WorkspaceStats {
   last_session_at: string | null;
 }
 
+/** One person's activity on a workspace (user_id null = unattributed sessions) */
+export interface WorkspaceContributor {
+  user_id: string | null;
+  user_name: string | null;
+  session_count: number;
+  active_sessions: number;
+  total_duration_ms: number;
+  total_cost_usd: number;
+  last_session_at: string | null;
+}
+
 /** Detailed workspace response including sessions, devices, git summary, and stats */
 export interface WorkspaceDetailResponse {
   workspace: Workspace;
@@ -117,6 +128,47 @@ export interface WorkspaceDetailResponse {
   devices: DeviceWithTracking[];
   git_summary: GitSummary;
   stats: WorkspaceStats;
+  /** Per-user breakdown — never narrowed by the userId filter */
+  contributors: WorkspaceContributor[];
+}
+
+/** Response from POST /api/workspaces/merge */
+export interface WorkspaceMergeResponse {
+  merged: boolean;
+  mergeId: string;
+  sourceWorkspaceId: string;
+  sourceCanonicalId: string;
+  targetWorkspaceId: string;
+  sessions: number;
+  events: number;
+  gitActivity: number;
+  devices: number;
+}
+
+/** Response from POST /api/workspaces/unmerge */
+export interface WorkspaceUnmergeResponse {
+  unmerged: boolean;
+  mergeId: string;
+  sourceWorkspaceId: string;
+  sourceCanonicalId: string;
+  targetWorkspaceId: string;
+  sessions: number;
+  events: number;
+  gitActivity: number;
+}
+
+/** A recorded workspace merge (GET /api/workspaces/merges) */
+export interface WorkspaceMergeRecord {
+  id: string;
+  sourceWorkspaceId: string;
+  sourceCanonicalId: string;
+  targetWorkspaceId: string;
+  /** null if the target was itself merged away since */
+  targetCanonicalId: string | null;
+  reason: "auto" | "manual";
+  sessions: number;
+  mergedAt: string;
+  unmergedAt: string | null;
 }
 
 /** Summary of a device for list views, extends base Device with aggregated fields */
@@ -306,6 +358,193 @@ export interface TimelineResponse {
   has_more: boolean;
 }
 
+// ---------------------------------------------------------------------------
+// Search Types
+// ---------------------------------------------------------------------------
+
+/** A single full-text search hit (one content block) from GET /api/search */
+export interface SearchHit {
+  block_id: string;
+  session_id: string;
+  message_id: string;
+  block_type: string;
+  tool_name: string | null;
+  /** ts_rank score — higher is more relevant */
+  rank: number;
+  ordinal: number;
+  timestamp: string | null;
+  workspace_id: string;
+  workspace_name: string;
+  device_id: string;
+  device_name: string;
+  session_lifecycle: string;
+  session_started_at: string;
+  session_summary: string | null;
+  session_initial_prompt: string | null;
+  /** ts_headline excerpt with matched terms wrapped in <mark></mark> */
+  snippet: string;
+}
+
+/** Response from GET /api/search */
+export interface SearchResponse {
+  results: SearchHit[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Event Query Types
+// ---------------------------------------------------------------------------
+
+/** Response from GET /api/events */
+export interface EventListResponse {
+  events: Event[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+/** Response from POST /api/sessions/:id/reprice */
+export interface RepriceSessionResponse {
+  session_id: string;
+  pricing_version: string;
+  messages_repriced: number;
+  previous_cost_usd: number | null;
+  cost_usd: number | null;
+}
+
+/** Options for POST /api/sessions/archive */
+export interface ArchiveSessionsParams {
+  olderThanDays?: number;
+  limit?: number;
+  dryRun?: boolean;
+}
+
+/** A session the archive sweep selected, with the space its rows occupy */
+export interface ArchiveCandidate {
+  sessionId: string;
+  endedAt: string | null;
+  messageCount: number;
+  blockCount: number;
+  bytes: number;
+}
+
+/** Response from POST /api/sessions/archive */
+export interface ArchiveSessionsResponse {
+  found: number;
+  archived: number;
+  reclaimedBytes: number;
+  dryRun: boolean;
+  skipped: Array<{ sessionId: string; reason: string }>;
+  errors: Array<{ sessionId: string; error: string }>;
+  /** Only present for a dry run */
+  candidates?: ArchiveCandidate[];
+}
+
+/** Response from POST /api/sessions/:id/restore */
+export interface RestoreSessionResponse {
+  session_id: string;
+  messages_restored: number;
+  blocks_restored: number;
+}
+
+/** Options for POST /api/sessions/reap (unset thresholds use the server's config) */
+export interface ReapSessionsParams {
+  idleMinutes?: number;
+  offlineMinutes?: number;
+  maxIdleHours?: number;
+  limit?: number;
+  dryRun?: boolean;
+}
+
+/** A session the reaper ended (or, for a dry run, would end) */
+export interface ReapedSession {
+  sessionId: string;
+  reason: "device_offline" | "max_idle";
+  lastActivityAt: string;
+  next: "reconcile" | "awaiting_transcript";
+}
+
+/** Response from POST /api/sessions/reap */
+export interface ReapSessionsResponse {
+  found: number;
+  reaped: number;
+  reconciled: number;
+  dryRun: boolean;
+  sessions: ReapedSession[];
+  errors: Array<{ sessionId: string; error: string }>;
+}
+
+/** Response from POST /api/sessions/activity */
+export interface TranscriptActivityResponse {
+  updated: number;
+  /** Sessions the server closed without a transcript — upload it */
+  upload: string[];
+  /** Sessions the server closed that need nothing more */
+  closed: string[];
+}
+
+/** Parameters for POST /api/git-activity/recorrelate */
+export interface RecorrelateGitActivityParams {
+  workspaceId?: string;
+  /** ISO timestamp — only activity at or after it */
+  since?: string;
+  limit?: number;
+  /** Resume after a previous run's batch (its next_cursor) */
+  cursor?: string;
+  dryRun?: boolean;
+}
+
+/** Response from POST /api/git-activity/recorrelate */
+export interface RecorrelateGitActivityResponse {
+  scanned: number;
+  correlated: number;
+  byConfidence: { trailer: number; active: number; heuristic: number };
+  dryRun: boolean;
+  /** Set when more orphan rows remain after this batch */
+  next_cursor: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Dead Letter Types
+// ---------------------------------------------------------------------------
+
+/** Dead letter row as returned by the list endpoint (without the full event) */
+export type DeadLetterSummary = Omit<DeadLetterEvent, "event">;
+
+/** Response from GET /api/dead-letters */
+export interface DeadLetterListResponse {
+  dead_letters: DeadLetterSummary[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+/** Response from POST /api/dead-letters/:id/replay */
+export interface DeadLetterReplayResponse {
+  dead_letter: DeadLetterSummary;
+  /** Redis Stream entry ID the event was re-published under */
+  stream_id: string;
+}
+
+// ---------------------------------------------------------------------------
+// API Token Types
+// ---------------------------------------------------------------------------
+
+/** Response from POST /api/tokens — the only time the plaintext token is returned */
+export interface CreateApiTokenResponse {
+  api_token: ApiToken;
+  token: string;
+}
+
+// ---------------------------------------------------------------------------
+// Webhook Types
+// ---------------------------------------------------------------------------
+
+/** Response from POST /api/webhooks — the only time the signing secret is returned */
+export interface CreateWebhookResponse {
+  webhook: Webhook;
+  secret: string;
+}
+
 // ---------------------------------------------------------------------------
 // Request Parameter Types (camelCase, mapped to snake_case for server)
 // ---------------------------------------------------------------------------
@@ -314,6 +553,7 @@ export interface TimelineResponse {
 export interface SessionListParams {
   workspaceId?: string;
   deviceId?: string;
+  userId?: string;
   lifecycle?: string;
   after?: string;
   before?: string;
@@ -325,11 +565,94 @@ export interface SessionListParams {
 /** Parameters for the timeline endpoint */
 export interface TimelineParams {
   workspaceId?: string;
+  userId?: string;
   after?: string;
   before?: string;
   types?: string;
 }
 
+/** Parameters for the usage analytics endpoint */
+export interface UsageParams {
+  /** Bucket width; server default "day" */
+  bucket?: UsageBucket;
+  groupBy?: UsageGroupBy;
+  /** ISO-8601 range start; server default depends on the bucket */
+  from?: string;
+  /** ISO-8601 range end (exclusive); server default now */
+  to?: string;
+  workspaceId?: string;
+  deviceId?: string;
+}
+
+/** Parameters for full-text search */
+export interface SearchParams {
+  workspaceId?: string;
+  deviceId?: string;
+  toolName?: string;
+  blockType?: string;
+  after?: string;
+  before?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+/** Parameters for querying events across sessions */
+export interface EventQueryParams {
+  /** Comma-separated event types or "prefix.*" globs */
+  types?: string;
+  workspaceId?: string;
+  deviceId?: string;
+  sessionId?: string;
+  after?: string;
+  before?: string;
+  /** SQL/JSON path predicate on the event data (e.g., '$.branch == "main"') */
+  data?: string;
+  /** Server default "desc" (newest first) */
+  order?: "asc" | "desc";
+  /** Page size; for exportEvents, a cap on the total */
+  limit?: number;
+  cursor?: string;
+}
+
+/** Parameters for listing server-side dead letters */
+export interface DeadLetterListParams {
+  status?: "pending" | "replayed";
+  eventType?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+/** Parameters for creating an API token */
+export interface CreateApiTokenParams {
+  name: string;
+  /** Defaults server-side to read + ingest */
+  scopes?: ApiTokenScope[];
+  /** Omit for a token that never expires */
+  expiresInDays?: number;
+  /** Owning user's name (created on first use) */
+  user?: string;
+  /** Email recorded if the user is new */
+  email?: string;
+}
+
+/** Parameters for creating a webhook */
+export interface CreateWebhookParams {
+  url: string;
+  /** Event types or "prefix.*" wildcards; omit for every event */
+  eventTypes?: string[];
+  /** Only deliver this workspace's events */
+  workspaceId?: string;
+  description?: string;
+  /** Signing secret; generated server-side when omitted */
+  secret?: string;
+}
+
+/** Parameters for listing a webhook's deliveries */
+export interface WebhookDeliveryListParams {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
 /** Parameters for listing workspaces */
 export interface WorkspaceListParams {
   limit?: number;
@@ -348,6 +671,7 @@ function mapSessionParams(params?: SessionListParams): Record<string, string | u
   return {
     workspace_id: params.workspaceId,
     device_id: params.deviceId,
+    user_id: params.userId,
     lifecycle: params.lifecycle,
     after: params.after,
     before: params.before,
@@ -357,6 +681,24 @@ function mapSessionParams(params?: SessionListParams): Record<string, string | u
   };
 }
 
+/**
+ * Maps camelCase EventQueryParams to snake_case query params for the server.
+ */
+function mapEventQueryParams(params?: EventQueryParams): Record<string, string | undefined> {
+  return {
+    type: params?.types,
+    workspace_id: params?.workspaceId,
+    device_id: params?.deviceId,
+    session_id: params?.sessionId,
+    after: params?.after,
+    before: params?.before,
+    data: params?.data,
+    order: params?.order,
+    limit: params?.limit ? String(params.limit) : undefined,
+    cursor: params?.cursor,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Backward Compatibility — ApiClient interface
 // ---------------------------------------------------------------------------
@@ -537,6 +879,18 @@ export class FuelApiClient implements ApiClient {
     return res.messages;
   }
 
+  /**
+   * Locate a tool result's full output: a presigned S3 URL when the transcript
+   * only holds a truncated preview, otherwise the inline text.
+   */
+  async getToolResult(sessionId: string, blockId: string): Promise<ToolResultLocation> {
+    return this.request<ToolResultLocation>(
+      "GET",
+      `/api/sessions/${sessionId}/blocks/${blockId}/result`,
+      { query: { redirect: "false" } },
+    );
+  }
+
   /** Get events belonging to a session, unwraps { events } envelope */
   async getSessionEvents(sessionId: string): Promise<Event[]> {
     const res = await this.request<{ events: Event[] }>(
@@ -555,6 +909,20 @@ export class FuelApiClient implements ApiClient {
     return res.git_activity;
   }
 
+  /** Get the session's code changes, rebuilt from its Write/Edit/MultiEdit calls */
+  async getSessionDiff(sessionId: string): Promise<SessionDiff> {
+    return this.request<SessionDiff>("GET", `/api/sessions/${sessionId}/diff`);
+  }
+
+  /** Get prompts captured live by the UserPromptSubmit hook, oldest first */
+  async getSessionPrompts(sessionId: string): Promise<SessionPrompt[]> {
+    const res = await this.request<{ prompts: SessionPrompt[] }>(
+      "GET",
+      `/api/sessions/${sessionId}/prompts`,
+    );
+    return res.prompts;
+  }
+
   /** Update a session (e.g., tags or summary), unwraps { session } envelope */
   async updateSession(id: string, patch: { tags?: string[]; summary?: string }): Promise<Session> {
     const res = await this.request<{ session: Session }>(
@@ -570,6 +938,45 @@ export class FuelApiClient implements ApiClient {
     await this.request<{ status: string }>("POST", `/api/sessions/${sessionId}/reparse`);
   }
 
+  /** Recompute a session's costs with the server's current pricing table */
+  async repriceSession(sessionId: string): Promise<RepriceSessionResponse> {
+    return this.request<RepriceSessionResponse>("POST", `/api/sessions/${sessionId}/reprice`);
+  }
+
+  /** Archive (or, with dryRun, preview archiving) parsed rows of old sessions */
+  async archiveSessions(params?: ArchiveSessionsParams): Promise<ArchiveSessionsResponse> {
+    const body: Record<string, unknown> = {};
+    if (params?.olderThanDays !== undefined) body.older_than_days = params.olderThanDays;
+    if (params?.limit !== undefined) body.limit = params.limit;
+    if (params?.dryRun) body.dry_run = true;
+    return this.request<ArchiveSessionsResponse>("POST", "/api/sessions/archive", { body });
+  }
+
+  /** Restore an archived session's parsed transcript from its S3 backup */
+  async restoreSession(sessionId: string): Promise<RestoreSessionResponse> {
+    return this.request<RestoreSessionResponse>("POST", `/api/sessions/${sessionId}/restore`);
+  }
+
+  /** End (or, with dryRun, list) abandoned detected sessions */
+  async reapSessions(params?: ReapSessionsParams): Promise<ReapSessionsResponse> {
+    const body: Record<string, unknown> = {};
+    if (params?.idleMinutes !== undefined) body.idle_minutes = params.idleMinutes;
+    if (params?.offlineMinutes !== undefined) body.offline_minutes = params.offlineMinutes;
+    if (params?.maxIdleHours !== undefined) body.max_idle_hours = params.maxIdleHours;
+    if (params?.limit !== undefined) body.limit = params.limit;
+    if (params?.dryRun) body.dry_run = true;
+    return this.request<ReapSessionsResponse>("POST", "/api/sessions/reap", { body });
+  }
+
+  /** Report transcript mtimes for sessions this machine still has open */
+  async reportTranscriptActivity(
+    sessions: Array<{ id: string; transcript_mtime: string }>,
+  ): Promise<TranscriptActivityResponse> {
+    return this.request<TranscriptActivityResponse>("POST", "/api/sessions/activity", {
+      body: { sessions },
+    });
+  }
+
   // -------------------------------------------------------------------------
   // Workspace Endpoints (unwrap server response envelopes)
   // -------------------------------------------------------------------------
@@ -587,11 +994,35 @@ export class FuelApiClient implements ApiClient {
     return { data: res.workspaces, nextCursor: res.next_cursor, hasMore: res.has_more };
   }
 
-  /** Get detailed workspace info, returns full detail response as-is */
-  async getWorkspace(idOrName: string): Promise<WorkspaceDetailResponse> {
+  /**
+   * Get detailed workspace info, returns full detail response as-is.
+   * Pass userId to narrow sessions, devices, git summary, and stats to one person.
+   */
+  async getWorkspace(idOrName: string, params?: { userId?: string }): Promise<WorkspaceDetailResponse> {
+    const query: Record<string, string | undefined> = {};
+    if (params?.userId) query.user_id = params.userId;
     return this.request<WorkspaceDetailResponse>(
       "GET",
       `/api/workspaces/${encodeURIComponent(idOrName)}`,
+      { query },
+    );
+  }
+
+  /**
+   * Sessions and commits that touched a repo-relative path (a file, or every
+   * file under a directory), oldest first. Accepts a ULID, name, or canonical ID.
+   */
+  async getWorkspaceFiles(
+    idOrName: string,
+    path: string,
+    params?: { limit?: number },
+  ): Promise<FileHistoryResponse> {
+    const query: Record<string, string | undefined> = { path };
+    if (params?.limit) query.limit = String(params.limit);
+    return this.request<FileHistoryResponse>(
+      "GET",
+      `/api/workspaces/${encodeURIComponent(idOrName)}/files`,
+      { query },
     );
   }
 
@@ -632,6 +1063,42 @@ export class FuelApiClient implements ApiClient {
     throw new ApiError(`Workspace not found: "${name}"`, 404);
   }
 
+  /** Fold the source workspace into the target (both by ULID, canonical ID, or name) */
+  async mergeWorkspaces(source: string, target: string): Promise<WorkspaceMergeResponse> {
+    return this.request<WorkspaceMergeResponse>("POST", "/api/workspaces/merge", {
+      body: { source, target },
+    });
+  }
+
+  /** Undo a merge, by merge ID or the merged-away workspace's canonical ID */
+  async unmergeWorkspace(ref: { mergeId?: string; canonicalId?: string }): Promise<WorkspaceUnmergeResponse> {
+    const body: Record<string, unknown> = {};
+    if (ref.mergeId) body.merge_id = ref.mergeId;
+    if (ref.canonicalId) body.canonical_id = ref.canonicalId;
+    return this.request<WorkspaceUnmergeResponse>("POST", "/api/workspaces/unmerge", { body });
+  }
+
+  /** List recorded merges, newest first (all includes undone ones) */
+  async listWorkspaceMerges(params?: { all?: boolean }): Promise<WorkspaceMergeRecord[]> {
+    const query: Record<string, string | undefined> = {};
+    if (params?.all) query.all = "true";
+    const res = await this.request<{ merges: WorkspaceMergeRecord[] }>("GET", "/api/workspaces/merges", { query });
+    return res.merges;
+  }
+
+  /** Retry session correlation for git activity recorded without a session (admin) */
+  async recorrelateGitActivity(
+    params?: RecorrelateGitActivityParams,
+  ): Promise<RecorrelateGitActivityResponse> {
+    const body: Record<string, unknown> = {};
+    if (params?.workspaceId) body.workspace_id = params.workspaceId;
+    if (params?.since) body.since = params.since;
+    if (params?.limit !== undefined) body.limit = params.limit;
+    if (params?.cursor) body.cursor = params.cursor;
+    if (params?.dryRun) body.dry_run = true;
+    return this.request<RecorrelateGitActivityResponse>("POST", "/api/git-activity/recorrelate", { body });
+  }
+
   // -------------------------------------------------------------------------
   // Device Endpoints (unwrap server response envelopes)
   // -------------------------------------------------------------------------
@@ -655,12 +1122,254 @@ export class FuelApiClient implements ApiClient {
   async getTimeline(params?: TimelineParams): Promise<TimelineResponse> {
     const query: Record<string, string | undefined> = {};
     if (params?.workspaceId) query.workspace_id = params.workspaceId;
+    if (params?.userId) query.user_id = params.userId;
     if (params?.after) query.after = params.after;
     if (params?.before) query.before = params.before;
     if (params?.types) query.types = params.types;
     return this.request<TimelineResponse>("GET", "/api/timeline", { query });
   }
 
+  // -------------------------------------------------------------------------
+  // Analytics Endpoint
+  // -------------------------------------------------------------------------
+
+  /** Get time-bucketed usage (tokens, cost, sessions, commits), optionally grouped */
+  async getUsage(params?: UsageParams): Promise<UsageResponse> {
+    const query: Record<string, string | undefined> = {};
+    if (params?.bucket) query.bucket = params.bucket;
+    if (params?.groupBy) query.group_by = params.groupBy;
+    if (params?.from) query.from = params.from;
+    if (params?.to) query.to = params.to;
+    if (params?.workspaceId) query.workspace_id = params.workspaceId;
+    if (params?.deviceId) query.device_id = params.deviceId;
+    return this.request<UsageResponse>("GET", "/api/analytics/usage", { query });
+  }
+
+  // -------------------------------------------------------------------------
+  // Search Endpoint
+  // -------------------------------------------------------------------------
+
+  /** Full-text search over parsed transcript content, ranked by relevance */
+  async search(q: string, params?: SearchParams): Promise<SearchResponse> {
+    const query: Record<string, string | undefined> = { q };
+    if (params?.workspaceId) query.workspace_id = params.workspaceId;
+    if (params?.deviceId) query.device_id = params.deviceId;
+    if (params?.toolName) query.tool_name = params.toolName;
+    if (params?.blockType) query.block_type = params.blockType;
+    if (params?.after) query.after = params.after;
+    if (params?.before) query.before = params.before;
+    if (params?.limit) query.limit = String(params.limit);
+    if (params?.cursor) query.cursor = params.cursor;
+    return this.request<SearchResponse>("GET", "/api/search", { query });
+  }
+
+  // -------------------------------------------------------------------------
+  // Event Query Endpoints
+  // -------------------------------------------------------------------------
+
+  /** Query events across sessions, one cursor-paginated page at a time */
+  async listEvents(params?: EventQueryParams): Promise<EventListResponse> {
+    return this.request<EventListResponse>("GET", "/api/events", {
+      query: mapEventQueryParams(params),
+    });
+  }
+
+  /**
+   * Stream every matching event from the NDJSON export (format=ndjson).
+   * Uses fetch() directly so events are yielded as lines arrive; there is no
+   * overall timeout since an export runs as long as there are events to send.
+   */
+  async *exportEvents(params?: EventQueryParams): AsyncGenerator<Event> {
+    const url = new URL("/api/events", this.baseUrl);
+    for (const [key, value] of Object.entries(mapEventQueryParams(params))) {
+      if (value !== undefined) url.searchParams.set(key, value);
+    }
+    url.searchParams.set("format", "ndjson");
+
+    let response: Response;
+    try {
+      response = await fetch(url.toString(), {
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+      });
+    } catch (err) {
+      const cause = err instanceof Error ? err : new Error(String(err));
+      throw new ApiConnectionError(`Failed to export events: ${cause.message}`, cause);
+    }
+
+    if (!response.ok) {
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch {
+        body = await response.text().catch(() => undefined);
+      }
+      const message =
+        typeof body === "object" && body !== null && "error" in body
+          ? (body as { error: string }).error
+          : `HTTP ${response.status}: ${response.statusText}`;
+      throw new ApiError(message, response.status, body);
+    }
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      let chunk;
+      try {
+        chunk = await reader.read();
+      } catch (err) {
+        // The server destroys the response if the export fails part-way
+        const cause = err instanceof Error ? err : new Error(String(err));
+        throw new ApiConnectionError(`Event export interrupted: ${cause.message}`, cause);
+      }
+      if (chunk.done) break;
+
+      buffer += decoder.decode(chunk.value, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) yield JSON.parse(line) as Event;
+      }
+    }
+    if (buffer.trim()) yield JSON.parse(buffer) as Event;
+  }
+
+  // -------------------------------------------------------------------------
+  // Dead Letter Endpoints (admin)
+  // -------------------------------------------------------------------------
+
+  /** List events the server consumer dead-lettered, newest failure first */
+  async listDeadLetters(params?: DeadLetterListParams): Promise<DeadLetterListResponse> {
+    const query: Record<string, string | undefined> = {};
+    if (params?.status) query.status = params.status;
+    if (params?.eventType) query.event_type = params.eventType;
+    if (params?.limit) query.limit = String(params.limit);
+    if (params?.cursor) query.cursor = params.cursor;
+    return this.request<DeadLetterListResponse>("GET", "/api/dead-letters", { query });
+  }
+
+  /** Get a single dead letter including the original event */
+  async getDeadLetter(id: string): Promise<DeadLetterEvent> {
+    const res = await this.request<{ dead_letter: DeadLetterEvent }>(
+      "GET",
+      `/api/dead-letters/${encodeURIComponent(id)}`,
+    );
+    return res.dead_letter;
+  }
+
+  /** Re-publish a dead-lettered event to the server's event stream */
+  async replayDeadLetter(id: string): Promise<DeadLetterReplayResponse> {
+    return this.request<DeadLetterReplayResponse>(
+      "POST",
+      `/api/dead-letters/${encodeURIComponent(id)}/replay`,
+    );
+  }
+
+  /** Discard a single dead letter */
+  async deleteDeadLetter(id: string): Promise<void> {
+    await this.request<void>("DELETE", `/api/dead-letters/${encodeURIComponent(id)}`);
+  }
+
+  /** Bulk discard dead letters matching a status and/or event type */
+  async purgeDeadLetters(params: { status?: "pending" | "replayed"; eventType?: string }): Promise<number> {
+    const query: Record<string, string | undefined> = {
+      status: params.status,
+      event_type: params.eventType,
+    };
+    const res = await this.request<{ deleted: number }>("DELETE", "/api/dead-letters", { query });
+    return res.deleted;
+  }
+
+  // -------------------------------------------------------------------------
+  // API Token Endpoints (admin)
+  // -------------------------------------------------------------------------
+
+  /** List API tokens (active, expired, and revoked), newest first */
+  async listApiTokens(): Promise<ApiToken[]> {
+    const res = await this.request<{ tokens: ApiToken[] }>("GET", "/api/tokens");
+    return res.tokens;
+  }
+
+  /** Create a named API token; the response carries the plaintext token */
+  async createApiToken(params: CreateApiTokenParams): Promise<CreateApiTokenResponse> {
+    return this.request<CreateApiTokenResponse>("POST", "/api/tokens", {
+      body: {
+        name: params.name,
+        scopes: params.scopes,
+        expires_in_days: params.expiresInDays,
+        user: params.user,
+        email: params.email,
+      },
+    });
+  }
+
+  /** Revoke an API token — it stops working on its next request */
+  async revokeApiToken(id: string): Promise<ApiToken> {
+    const res = await this.request<{ api_token: ApiToken }>(
+      "DELETE",
+      `/api/tokens/${encodeURIComponent(id)}`,
+    );
+    return res.api_token;
+  }
+
+  // -------------------------------------------------------------------------
+  // Webhook Endpoints (admin)
+  // -------------------------------------------------------------------------
+
+  /** List webhooks with their latest delivery, newest first */
+  async listWebhooks(): Promise<Webhook[]> {
+    const res = await this.request<{ webhooks: Webhook[] }>("GET", "/api/webhooks");
+    return res.webhooks;
+  }
+
+  /** Create a webhook; the response carries the signing secret */
+  async createWebhook(params: CreateWebhookParams): Promise<CreateWebhookResponse> {
+    return this.request<CreateWebhookResponse>("POST", "/api/webhooks", {
+      body: {
+        url: params.url,
+        event_types: params.eventTypes,
+        workspace_id: params.workspaceId,
+        description: params.description,
+        secret: params.secret,
+      },
+    });
+  }
+
+  /** Delete a webhook and its delivery log */
+  async deleteWebhook(id: string): Promise<void> {
+    await this.request<{ deleted: boolean }>(
+      "DELETE",
+      `/api/webhooks/${encodeURIComponent(id)}`,
+    );
+  }
+
+  /** Send a webhook.test delivery now and return its outcome */
+  async testWebhook(id: string): Promise<WebhookDelivery> {
+    const res = await this.request<{ delivery: WebhookDelivery }>(
+      "POST",
+      `/api/webhooks/${encodeURIComponent(id)}/test`,
+    );
+    return res.delivery;
+  }
+
+  /** List a webhook's deliveries, newest first */
+  async listWebhookDeliveries(
+    id: string,
+    params?: WebhookDeliveryListParams,
+  ): Promise<WebhookDelivery[]> {
+    const query: Record<string, string | undefined> = {
+      status: params?.status,
+      limit: params?.limit !== undefined ? String(params.limit) : undefined,
+    };
+    const res = await this.request<{ deliveries: WebhookDelivery[] }>(
+      "GET",
+      `/api/webhooks/${encodeURIComponent(id)}/deliveries`,
+      { query },
+    );
+    return res.deliveries;
+  }
+
   // -------------------------------------------------------------------------
   // Teams Endpoints
   // -------------------------------------------------------------------------
@@ -66,6 +66,22 @@ const FuelCodeConfigSchema = z.object({
     /** HTTP timeout (ms) for POST to backend */
     post_timeout_ms: z.number().int().positive(),
   }),
+  /** Live prompt capture (UserPromptSubmit hook). Optional — absent means capture everything unredacted. */
+  prompts: z
+    .object({
+      /** Set false to stop emitting session.prompt events entirely */
+      capture: z.boolean().default(true),
+      /** Regex sources; every match is replaced with [REDACTED] before the prompt leaves the machine */
+      redact_patterns: z.array(z.string()).default([]),
+    })
+    .optional(),
+  /** Transcript capture while a session is live. Optional — absent means no snapshots. */
+  transcripts: z
+    .object({
+      /** Upload a transcript snapshot to S3 from the PreCompact hook, before context is discarded */
+      snapshot_on_compact: z.boolean().default(false),
+    })
+    .optional(),
 });
 
 // ---------------------------------------------------------------------------
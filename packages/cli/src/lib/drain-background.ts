@@ -39,7 +39,8 @@ const DEBOUNCE_MS = 1000;
  * Uses Bun.spawn to fork a detached child that:
  *   1. Waits 1 second (debounce for rapid hook firing)
  *   2. Acquires the drain lockfile
- *   3. Runs drainQueue()
+ *   3. Runs drainQueue(), then sends a device heartbeat and reports
+ *      open-session transcript activity
  *   4. Releases the lockfile and exits
  *
  * The child process is fully detached (unref'd) so the parent can exit
@@ -146,7 +147,10 @@ function isProcessRunning(pid: number): boolean {
  *   1. Sleeps 1 second (debounce)
  *   2. Acquires the lockfile
  *   3. Loads the drain module and runs drainQueue
- *   4. Releases the lockfile
+ *   4. Sends a device heartbeat and reports transcript activity of open
+ *      sessions (both throttled; uploads transcripts of sessions the server
+ *      reaped)
+ *   5. Releases the lockfile
  *
  * We embed the config as a JSON string to avoid needing to re-load from disk
  * (the child process may run after the user has changed directories).
@@ -161,6 +165,9 @@ function buildDrainScript(config: FuelCodeConfig): string {
 
     const { acquireLock, releaseLock } = await import("${path.resolve(import.meta.dir, "drain-background.ts")}");
     const { drainQueue } = await import("${path.resolve(import.meta.dir, "drain.ts")}");
+    const { sendDrainHeartbeat } = await import("${path.resolve(import.meta.dir, "heartbeat.ts")}");
+    const { reportTranscriptActivity } = await import("${path.resolve(import.meta.dir, "active-sessions.ts")}");
+    const { runTranscriptUpload } = await import("${path.resolve(import.meta.dir, "..", "commands", "transcript.ts")}");
 
     const config = ${configJson};
     const lockPath = "${LOCKFILE_PATH.replace(/\\/g, "\\\\")}";
@@ -171,6 +178,8 @@ function buildDrainScript(config: FuelCodeConfig): string {
 
     try {
       await drainQueue(config);
+      await sendDrainHeartbeat(config);
+      await reportTranscriptActivity(config, { upload: runTranscriptUpload });
     } finally {
       releaseLock(lockPath);
     }
@@ -178,6 +178,17 @@ export function formatLifecycle(lifecycle: string): string {
   return style.color(`${style.icon} ${style.label}`);
 }
 
+/**
+ * Label for a commit that replaced an earlier one via amend or rebase,
+ * read from its git_activity data. Empty for commits never rewritten.
+ *
+ * Examples: "amended", "rebased", ""
+ */
+export function formatRewriteNote(data: Record<string, unknown> | null | undefined): string {
+  if (!data?.rewritten_from) return "";
+  return data.rewrite_kind === "rebase" ? "rebased" : "amended";
+}
+
 // ---------------------------------------------------------------------------
 // Number and Token Formatting
 // ---------------------------------------------------------------------------
@@ -194,6 +205,15 @@ export function formatNumber(n: number | null | undefined): string {
   return `${Math.round(n / 1000)}K`;
 }
 
+/** Format bytes into a human-readable string: "512 B", "14 KB", "3 MB", "1.2 GB" */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024)
+    return `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
 /**
  * Format token counts for display.
  *
@@ -231,6 +251,26 @@ export function formatTokensCompact(
   return `${formatNumber(inN ?? 0)}/${formatNumber(outN ?? 0)}`;
 }
 
+/** Block characters for sparklines, lowest to highest */
+const SPARK_BLOCKS = ["▁", "▂", "▃", "▄", "▅", "▆", "▇", "█"];
+
+/**
+ * Render a series as a one-line sparkline: [0, 2, 5, 10] -> "▁▃▅█".
+ *
+ * Scaled to the series maximum; zeros always render as the lowest block so
+ * empty buckets stay visible. Returns "" for an empty series.
+ */
+export function formatSparkline(values: number[]): string {
+  const max = Math.max(0, ...values);
+  return values
+    .map((v) => {
+      if (max <= 0 || v <= 0) return SPARK_BLOCKS[0];
+      const idx = Math.ceil((v / max) * (SPARK_BLOCKS.length - 1));
+      return SPARK_BLOCKS[Math.min(idx, SPARK_BLOCKS.length - 1)];
+    })
+    .join("");
+}
+
 // ---------------------------------------------------------------------------
 // Text Truncation
 // ---------------------------------------------------------------------------
@@ -8,6 +8,8 @@
  *     and invoked by the fuel-code hook scripts
  *   - Detection of competing hook managers (Husky, Lefthook, pre-commit)
  *   - Idempotent installation (safe to run repeatedly)
+ *   - Optional hooks (prepare-commit-msg, which stamps commits with a
+ *     Fuel-Session trailer) installed only when requested
  *
  * The actual hook scripts live in packages/hooks/git/ and are copied
  * to the target directory during installation.
@@ -22,14 +24,22 @@ import { execSync } from "node:child_process";
 // Constants
 // ---------------------------------------------------------------------------
 
-/** The 4 git hook names fuel-code installs */
+/** The 5 git hook names fuel-code installs */
 export const GIT_HOOK_NAMES = [
   "post-commit",
   "post-checkout",
   "post-merge",
+  "post-rewrite",
   "pre-push",
 ] as const;
 
+/**
+ * Hooks installed only on request. prepare-commit-msg rewrites commit
+ * messages (adds a `Fuel-Session: <id>` trailer), so it is opt-in via
+ * `hooks install --commit-trailers`.
+ */
+export const OPTIONAL_GIT_HOOK_NAMES = ["prepare-commit-msg"] as const;
+
 /** Default global hooks directory: ~/.fuel-code/git-hooks/ */
 const DEFAULT_HOOKS_DIR = path.join(os.homedir(), ".fuel-code", "git-hooks");
 
@@ -121,6 +131,8 @@ export interface InstallGitHookOptions {
   hooksDir?: string;
   /** Install into current repo's .git/hooks/ instead of global */
   perRepo?: boolean;
+  /** Also install prepare-commit-msg to add Fuel-Session trailers */
+  commitTrailers?: boolean;
 }
 
 /** Backup metadata stored in meta.json */
@@ -143,7 +155,8 @@ export interface BackupMeta {
  *   3. Detect existing core.hooksPath
  *   4. Detect competing hook managers — abort unless --force
  *   5. Backup existing hooks if core.hooksPath pointed elsewhere
- *   6. Copy hook scripts from packages/hooks/git/
+ *   6. Copy hook scripts from packages/hooks/git/ (plus prepare-commit-msg
+ *      with --commit-trailers; a previously installed one is removed without)
  *   7. chmod +x all scripts
  *   8. Set git config --global core.hooksPath
  *
@@ -158,6 +171,9 @@ export async function installGitHooks(
 ): Promise<GitHookInstallResult> {
   const force = options?.force ?? false;
   const perRepo = options?.perRepo ?? false;
+  const hookNames: string[] = options?.commitTrailers
+    ? [...GIT_HOOK_NAMES, ...OPTIONAL_GIT_HOOK_NAMES]
+    : [...GIT_HOOK_NAMES];
 
   // -- Step 1: Check prerequisites --
   assertGitAvailable();
@@ -193,21 +209,22 @@ export async function installGitHooks(
     previousHooksPath &&
     path.resolve(previousHooksPath) !== path.resolve(targetDir)
   ) {
-    const backed = backupExistingHooks(previousHooksPath, targetDir);
+    const backed = backupExistingHooks(previousHooksPath, targetDir, hookNames);
     backedUp.push(...backed);
   }
 
   // For per-repo mode, backup any existing hooks in .git/hooks/
   if (perRepo) {
-    const backed = backupInPlaceHooks(targetDir);
+    const backed = backupInPlaceHooks(targetDir, hookNames);
     backedUp.push(...backed);
   }
 
   // -- Step 6: Write hook scripts --
-  const installed = writeHookScripts(targetDir);
+  const installed = writeHookScripts(targetDir, hookNames);
+  removeUnrequestedHooks(targetDir, hookNames);
 
   // -- Step 7: chmod +x all scripts --
-  for (const name of [...GIT_HOOK_NAMES, "resolve-workspace.sh"]) {
+  for (const name of [...hookNames, "resolve-workspace.sh"]) {
     const hookPath = path.join(targetDir, name);
     if (fs.existsSync(hookPath)) {
       fs.chmodSync(hookPath, 0o755);
@@ -221,7 +238,7 @@ export async function installGitHooks(
 
   // Determine which hooks have .user chained files
   const chained: string[] = [];
-  for (const name of GIT_HOOK_NAMES) {
+  for (const name of hookNames) {
     const userHook = path.join(targetDir, `${name}.user`);
     if (fs.existsSync(userHook)) {
       chained.push(name);
@@ -431,15 +448,19 @@ export function resolveSourceHooksDir(): string {
 }
 
 /**
- * Copy all hook scripts from packages/hooks/git/ to the target directory.
+ * Copy hook scripts from packages/hooks/git/ to the target directory —
+ * the standard hooks (GIT_HOOK_NAMES) unless `names` says otherwise.
  * Returns the list of hook names that were installed.
  */
-export function writeHookScripts(targetDir: string): string[] {
+export function writeHookScripts(
+  targetDir: string,
+  names: readonly string[] = GIT_HOOK_NAMES,
+): string[] {
   const sourceDir = resolveSourceHooksDir();
   const installed: string[] = [];
 
-  // Copy the 4 hook scripts
-  for (const name of GIT_HOOK_NAMES) {
+  // Copy the requested hook scripts
+  for (const name of names) {
     const src = path.join(sourceDir, name);
     const dst = path.join(targetDir, name);
 
@@ -462,6 +483,27 @@ export function writeHookScripts(targetDir: string): string[] {
   return installed;
 }
 
+/**
+ * Remove optional fuel-code hooks left by an earlier install that are no
+ * longer requested (e.g. reinstalling without --commit-trailers). A chained
+ * <hook>.user is moved back into place so the user's own hook keeps running.
+ */
+function removeUnrequestedHooks(targetDir: string, names: readonly string[]): void {
+  for (const name of OPTIONAL_GIT_HOOK_NAMES) {
+    if (names.includes(name)) continue;
+
+    const hookPath = path.join(targetDir, name);
+    if (!fs.existsSync(hookPath)) continue;
+    if (!fs.readFileSync(hookPath, "utf-8").includes("fuel-code:")) continue;
+
+    fs.rmSync(hookPath);
+    const userPath = path.join(targetDir, `${name}.user`);
+    if (fs.existsSync(userPath)) {
+      fs.renameSync(userPath, hookPath);
+    }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Backup operations
 // ---------------------------------------------------------------------------
@@ -476,6 +518,7 @@ export function writeHookScripts(targetDir: string): string[] {
 export function backupExistingHooks(
   previousDir: string,
   targetDir: string,
+  names: readonly string[] = GIT_HOOK_NAMES,
 ): string[] {
   const backedUp: string[] = [];
 
@@ -488,7 +531,7 @@ export function backupExistingHooks(
   const snapshotDir = path.join(getBackupDir(), timestamp);
   fs.mkdirSync(snapshotDir, { recursive: true });
 
-  for (const name of GIT_HOOK_NAMES) {
+  for (const name of names) {
     const existing = path.join(previousDir, name);
     if (fs.existsSync(existing)) {
       // Copy to <hook>.user in the target directory for chaining
@@ -512,10 +555,13 @@ export function backupExistingHooks(
  * already fuel-code hooks.
  * Returns the list of hook names that were backed up.
  */
-function backupInPlaceHooks(targetDir: string): string[] {
+function backupInPlaceHooks(
+  targetDir: string,
+  names: readonly string[] = GIT_HOOK_NAMES,
+): string[] {
   const backedUp: string[] = [];
 
-  for (const name of GIT_HOOK_NAMES) {
+  for (const name of names) {
     const hookPath = path.join(targetDir, name);
     if (!fs.existsSync(hookPath)) {
       continue;
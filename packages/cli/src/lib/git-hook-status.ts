@@ -14,6 +14,7 @@ import * as path from "node:path";
 import * as os from "node:os";
 import {
   GIT_HOOK_NAMES,
+  OPTIONAL_GIT_HOOK_NAMES,
   getGlobalHooksPath,
 } from "./git-hook-installer.js";
 
@@ -39,7 +40,7 @@ export interface GitHookStatus {
   hooksPath: string | null;
   /** Whether core.hooksPath points to fuel-code's git-hooks directory */
   isFuelCode: boolean;
-  /** Per-hook status for each of the 4 tracked hooks */
+  /** Per-hook status for each of the 4 tracked hooks and the optional ones */
   hooks: Record<string, HookFileStatus>;
 }
 
@@ -88,7 +89,7 @@ export async function getGitHookStatus(): Promise<GitHookStatus> {
   // Build per-hook status
   const hooks: Record<string, HookFileStatus> = {};
 
-  for (const name of GIT_HOOK_NAMES) {
+  for (const name of [...GIT_HOOK_NAMES, ...OPTIONAL_GIT_HOOK_NAMES]) {
     const hookPath = path.join(inspectDir, name);
     const userPath = path.join(inspectDir, `${name}.user`);
 
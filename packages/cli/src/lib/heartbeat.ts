@@ -0,0 +1,151 @@
+/**
+ * Device heartbeats for fuel-code.
+ *
+ * The server marks a device offline once it has gone quiet for a while, so
+ * the CLI sends a lightweight system.heartbeat while it is in use:
+ *   - `emit` piggybacks one on the event it is already POSTing (source "hook")
+ *   - background drains send one after draining the queue (source "drain")
+ *
+ * Heartbeats are throttled to one per HEARTBEAT_INTERVAL_MS across all
+ * processes via a marker file holding the time of the last one sent.
+ * They are never queued: a stale heartbeat says nothing about the present,
+ * and the next hook or drain will send a fresh one.
+ *
+ * Like the queue, nothing in this module throws — it runs from hooks and
+ * detached drain processes where a failure must never surface.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { generateId, type Event } from "@fuel-code/shared";
+import type { FuelCodeConfig } from "./config.js";
+import { getConfigDir } from "./config.js";
+import { createApiClient } from "./api-client.js";
+import { getQueueDepth } from "./queue.js";
+import { listActiveSessions } from "./active-sessions.js";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Minimum time between heartbeats — well under the server's offline timeout */
+export const HEARTBEAT_INTERVAL_MS = 60_000;
+
+/** Marker file holding the time of the last heartbeat */
+const LAST_HEARTBEAT_FILE = ".last-heartbeat";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Where a heartbeat was sent from */
+export type HeartbeatSource = "hook" | "drain";
+
+/** Optional details carried in the heartbeat payload */
+export interface HeartbeatExtras {
+  queue_depth?: number;
+  active_sessions?: number;
+}
+
+/** Options for the throttle helpers (overridable for tests) */
+export interface HeartbeatThrottleOptions {
+  /** Marker file path (default ~/.fuel-code/.last-heartbeat) */
+  markerPath?: string;
+  /** Current time (default Date.now()) */
+  now?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Throttle
+// ---------------------------------------------------------------------------
+
+function resolveMarkerPath(markerPath?: string): string | null {
+  try {
+    return markerPath ?? path.join(getConfigDir(), LAST_HEARTBEAT_FILE);
+  } catch {
+    return null;
+  }
+}
+
+/** True if no heartbeat has been sent within HEARTBEAT_INTERVAL_MS. Never throws. */
+export function isHeartbeatDue(options: HeartbeatThrottleOptions = {}): boolean {
+  const markerPath = resolveMarkerPath(options.markerPath);
+  if (!markerPath) return false;
+  const now = options.now ?? Date.now();
+  try {
+    const last = parseInt(fs.readFileSync(markerPath, "utf-8"), 10);
+    return !Number.isFinite(last) || now - last >= HEARTBEAT_INTERVAL_MS;
+  } catch {
+    // No marker yet
+    return true;
+  }
+}
+
+/** Record that a heartbeat was just sent. Never throws. */
+export function markHeartbeatSent(options: HeartbeatThrottleOptions = {}): void {
+  const markerPath = resolveMarkerPath(options.markerPath);
+  if (!markerPath) return;
+  try {
+    fs.mkdirSync(path.dirname(markerPath), { recursive: true });
+    fs.writeFileSync(markerPath, String(options.now ?? Date.now()), "utf-8");
+  } catch {
+    // Ignore — worst case we send another heartbeat next time
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Heartbeat events
+// ---------------------------------------------------------------------------
+
+/**
+ * Build a system.heartbeat event for this device. Carries the same device
+ * hints as `emit` so a first-contact heartbeat still names the device.
+ */
+export function buildHeartbeatEvent(
+  config: FuelCodeConfig,
+  source: HeartbeatSource,
+  extras: HeartbeatExtras = {},
+): Event {
+  return {
+    id: generateId(),
+    type: "system.heartbeat",
+    timestamp: new Date().toISOString(),
+    device_id: config.device.id,
+    workspace_id: "_unassociated",
+    session_id: null,
+    data: {
+      source,
+      ...extras,
+      _device_name: config.device.name,
+      _device_type: config.device.type,
+    },
+    ingested_at: null,
+    blob_refs: [],
+  };
+}
+
+/**
+ * Send a drain heartbeat (queue depth and open session count included) if
+ * one is due. Failures are swallowed and leave the throttle untouched so the
+ * next drain retries.
+ *
+ * @returns true if a heartbeat was delivered
+ */
+export async function sendDrainHeartbeat(
+  config: FuelCodeConfig,
+  options: HeartbeatThrottleOptions = {},
+): Promise<boolean> {
+  if (!isHeartbeatDue(options)) return false;
+
+  try {
+    const event = buildHeartbeatEvent(config, "drain", {
+      queue_depth: getQueueDepth(config.pipeline.queue_path),
+      active_sessions: listActiveSessions().length,
+    });
+    await createApiClient(config).ingest([event]);
+  } catch {
+    return false;
+  }
+  markHeartbeatSent(options);
+  return true;
+}
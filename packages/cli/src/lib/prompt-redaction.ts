@@ -0,0 +1,55 @@
+/**
+ * Client-side redaction for prompts captured by the UserPromptSubmit hook.
+ *
+ * Prompts are redacted before they are emitted, so secrets pasted into
+ * Claude Code never reach the queue or the backend. Patterns come from the
+ * optional `prompts.redact_patterns` config section and are plain regex
+ * sources (applied globally). An invalid pattern is skipped rather than
+ * failing the hook — hooks must never block Claude Code.
+ */
+
+import { MAX_SESSION_PROMPT_CHARS } from "@fuel-code/shared";
+
+/** Replacement text for every redacted match */
+export const REDACTION_MARKER = "[REDACTED]";
+
+/** A prompt ready to be emitted, with flags describing what was changed */
+export interface PreparedPrompt {
+  text: string;
+  redacted: boolean;
+  truncated: boolean;
+}
+
+/**
+ * Apply redaction patterns, then truncate to MAX_SESSION_PROMPT_CHARS.
+ * Redaction runs first so a secret straddling the cut point is still removed.
+ */
+export function preparePrompt(
+  text: string,
+  patterns: readonly string[] = [],
+): PreparedPrompt {
+  let result = text;
+  let redacted = false;
+
+  for (const source of patterns) {
+    let re: RegExp;
+    try {
+      re = new RegExp(source, "g");
+    } catch {
+      continue;
+    }
+
+    const replaced = result.replace(re, REDACTION_MARKER);
+    if (replaced !== result) {
+      redacted = true;
+      result = replaced;
+    }
+  }
+
+  const truncated = result.length > MAX_SESSION_PROMPT_CHARS;
+  if (truncated) {
+    result = result.slice(0, MAX_SESSION_PROMPT_CHARS);
+  }
+
+  return { text: result, redacted, truncated };
+}
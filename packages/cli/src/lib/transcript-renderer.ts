@@ -9,13 +9,16 @@
  *   - Each message shows: [ordinal] Role (HH:MM): with model+cost for assistants
  *   - Text content is word-wrapped to maxWidth-2 (indented 2 spaces)
  *   - Tool uses are shown as an indented tree with box-drawing characters
- *   - Tool results are NOT shown inline (too noisy)
+ *   - Tool results are NOT shown inline (too noisy); truncated ones get a
+ *     one-line hint pointing at `fuel-code session <id> --output <blockId>`
  *   - Thinking blocks are collapsed by default: [thinking... N chars]
+ *   - A divider marks each context compaction (compact_sequence change)
  *   - Truncation: "... N more messages" footer when exceeding maxMessages
  */
 
 import pc from "picocolors";
 import type { TranscriptMessage, ParsedContentBlock } from "@fuel-code/shared";
+import { formatBytes } from "./formatters.js";
 
 // ---------------------------------------------------------------------------
 // Configuration
@@ -73,6 +76,10 @@ export function renderTranscript(
   const lines: string[] = [];
 
   for (let i = 0; i < visible.length; i++) {
+    if (i > 0 && visible[i].compact_sequence > visible[i - 1].compact_sequence) {
+      const divider = `── Context compacted (#${visible[i].compact_sequence}) ──`;
+      lines.push(opts.colorize ? pc.yellow(divider) : divider, "");
+    }
     lines.push(renderMessage(visible[i], visible[i].ordinal, opts));
     if (i < visible.length - 1) {
       lines.push(""); // blank line between messages
@@ -208,9 +215,13 @@ function renderContentBlocks(
         }
         break;
       }
-      // tool_use and tool_result are handled below / skipped
+      case "tool_result": {
+        const hint = formatTruncatedResultHint(block);
+        if (hint) lines.push(opts.colorize ? pc.dim(`  ${hint}`) : `  ${hint}`);
+        break;
+      }
+      // tool_use is handled below
       case "tool_use":
-      case "tool_result":
         break;
     }
   }
@@ -223,6 +234,18 @@ function renderContentBlocks(
   return lines.join("\n");
 }
 
+/**
+ * One-line hint for a tool result whose transcript copy is only a preview,
+ * or null when the full output is already inline.
+ * e.g. "[output truncated: 512 KB — use --output cb-01 for the full result]"
+ */
+export function formatTruncatedResultHint(block: ParsedContentBlock): string | null {
+  if (block.block_type !== "tool_result" || block.metadata?.truncated !== true) return null;
+  const size = block.metadata.original_byte_length;
+  const sizeLabel = typeof size === "number" ? `: ${formatBytes(size)}` : "";
+  return `[output truncated${sizeLabel} — use --output ${block.id} for the full result]`;
+}
+
 /**
  * Generate a one-line summary for a tool use block.
  *
@@ -7,25 +7,47 @@
  * session updates, and remote environment status changes.
  *
  * The client extends EventEmitter and emits typed events that map 1:1 to
- * the server's outbound message types (event, session.update, remote.update),
+ * the server's outbound message types (event, session.update, session.prompt,
+ * remote.update, device.update),
  * plus connection lifecycle events (connected, disconnected, reconnecting, error).
+ *
+ * Broadcasts carry a sequence ID. On reconnect the client resubscribes with
+ * `since: <last seq seen>` and the server replays what was missed; if it
+ * can't, it sends resync_required and the client emits 'resync' so views
+ * refetch their data.
+ *
+ * Besides the "all" / workspace / session scopes, subscribe() accepts a
+ * WsSubscriptionFilter (broadcast types, event type globs, device, lifecycle)
+ * so views receive only what they need; it returns the subscription ID to
+ * pass to unsubscribe().
  */
 
 import WebSocket from "ws";
 import { EventEmitter } from "events";
 import type { FuelCodeConfig } from "./config.js";
+import { compareWsSeq, generateId } from "@fuel-code/shared";
 import type {
   ClientMessage,
   ServerMessage,
+  ServerResyncRequiredMessage,
+  WsSubscriptionFilter,
   Event,
   SessionStats,
+  DeviceStatus,
 } from "@fuel-code/shared";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export type { ServerMessage, ClientMessage, SessionStats };
+export type { ServerMessage, ClientMessage, SessionStats, WsSubscriptionFilter };
+
+/** What to subscribe to: everything, a workspace, a session, or a filter */
+export type WsSubscribeOptions =
+  | { scope: "all" }
+  | { workspace_id: string }
+  | { session_id: string }
+  | { filter: WsSubscriptionFilter };
 
 export interface WsClientOptions {
   /** HTTP base URL of the backend (e.g., https://fuel-code.up.railway.app) */
@@ -40,6 +62,37 @@ export interface WsClientOptions {
   maxReconnectDelay?: number;
 }
 
+/** Payload of the 'session.update' event emitted by WsClient */
+export interface SessionUpdatePayload {
+  session_id: string;
+  lifecycle: string;
+  summary?: string;
+  stats?: SessionStats;
+}
+
+/** Payload of the 'session.prompt' event emitted by WsClient */
+export interface SessionPromptPayload {
+  session_id: string;
+  workspace_id: string;
+  prompt: string;
+  submitted_at: string;
+}
+
+/** Payload of the 'device.update' event emitted by WsClient */
+export interface DeviceUpdatePayload {
+  device_id: string;
+  name: string;
+  status: DeviceStatus;
+  last_seen_at: string;
+}
+
+/** Payload of the 'resync' event emitted by WsClient */
+export interface ResyncPayload {
+  /** Subscription whose missed updates couldn't be replayed */
+  subscription: string;
+  reason: ServerResyncRequiredMessage["reason"];
+}
+
 export type WsConnectionState =
   | "disconnected"
   | "connecting"
@@ -54,7 +107,10 @@ export type WsConnectionState =
  * Events emitted by WsClient:
  *   'event'          → (event: Event) => void
  *   'session.update' → (update: { session_id, lifecycle, summary?, stats? }) => void
+ *   'session.prompt' → (prompt: { session_id, workspace_id, prompt, submitted_at }) => void
  *   'remote.update'  → (update: { remote_env_id, status, public_ip? }) => void
+ *   'device.update'  → (update: { device_id, name, status, last_seen_at }) => void
+ *   'resync'         → (resync: { subscription, reason }) => void — refetch, updates were missed
  *   'connected'      → () => void
  *   'disconnected'   → (reason: string) => void
  *   'reconnecting'   → (attempt: number, delay: number) => void
@@ -72,10 +128,13 @@ export class WsClient extends EventEmitter {
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   /**
    * Locally persisted subscriptions for re-sending on reconnect.
-   * Map key format: "all", "workspace:<id>", "session:<id>"
+   * Map key (the subscription ID): "all", "workspace:<id>", "session:<id>",
+   * or "filter:<ulid>" for filter subscriptions
    * Map value: the original ClientMessage to re-send
    */
   private subscriptions: Map<string, ClientMessage> = new Map();
+  /** Highest broadcast seq received — the resume point after a reconnect */
+  private _lastSeq: string | null = null;
   private intentionalClose: boolean = false;
   private options: Required<WsClientOptions>;
 
@@ -121,8 +180,12 @@ export class WsClient extends EventEmitter {
       this.intentionalClose = false;
       this._state = "connecting";
 
+      // The token goes in a header rather than the URL, which proxies and
+      // access logs would record.
       const url = this.buildWsUrl();
-      const ws = new WebSocket(url);
+      const ws = new WebSocket(url, {
+        headers: { Authorization: `Bearer ${this.options.apiKey}` },
+      });
       this.ws = ws;
 
       // Track whether we've settled the promise (open or first error/close)
@@ -235,6 +298,11 @@ export class WsClient extends EventEmitter {
     return this._state;
   }
 
+  /** Seq of the latest broadcast received (null before the first) */
+  get lastSeq(): string | null {
+    return this._lastSeq;
+  }
+
   // ---------------------------------------------------------------------------
   // Subscription management
   // ---------------------------------------------------------------------------
@@ -244,14 +312,21 @@ export class WsClient extends EventEmitter {
    *   { scope: 'all' }       — all events across all workspaces
    *   { workspace_id: '...' } — events for a specific workspace
    *   { session_id: '...' }   — events for a specific session
+   *   { filter: { ... } }     — broadcasts matching a WsSubscriptionFilter,
+   *                             e.g. { types: ['device.update'] }
    *
    * Subscriptions are persisted locally and automatically re-sent on reconnect.
+   * Returns the subscription ID, which unsubscribe({ subscription }) accepts.
    */
-  subscribe(opts: { scope: "all" } | { workspace_id: string } | { session_id: string }): void {
+  subscribe(opts: WsSubscribeOptions): string {
     let key: string;
     let msg: ClientMessage;
 
-    if ("scope" in opts && opts.scope === "all") {
+    if ("filter" in opts) {
+      // The ID is chosen here so it survives reconnects and can be returned now
+      key = `filter:${generateId()}`;
+      msg = { type: "subscribe", id: key, filter: opts.filter };
+    } else if ("scope" in opts && opts.scope === "all") {
       key = "all";
       msg = { type: "subscribe", scope: "all" };
     } else if ("workspace_id" in opts) {
@@ -261,19 +336,24 @@ export class WsClient extends EventEmitter {
       key = `session:${opts.session_id}`;
       msg = { type: "subscribe", session_id: opts.session_id };
     } else {
-      return;
+      throw new Error("Invalid subscribe options");
     }
 
     this.subscriptions.set(key, msg);
     this.send(msg);
+    return key;
   }
 
   /**
    * Unsubscribe from updates. With no args, clears all subscriptions.
-   * With workspace_id or session_id, removes that specific subscription.
+   * With a subscription ID (from subscribe()), workspace_id or session_id,
+   * removes that specific subscription.
    */
-  unsubscribe(opts?: { workspace_id?: string; session_id?: string }): void {
-    if (!opts || (!opts.workspace_id && !opts.session_id)) {
+  unsubscribe(opts?: { subscription?: string; workspace_id?: string; session_id?: string }): void {
+    if (opts?.subscription) {
+      this.subscriptions.delete(opts.subscription);
+      this.send({ type: "unsubscribe", subscription: opts.subscription });
+    } else if (!opts || (!opts.workspace_id && !opts.session_id)) {
       // Clear all subscriptions
       this.subscriptions.clear();
       this.send({ type: "unsubscribe" });
@@ -306,12 +386,12 @@ export class WsClient extends EventEmitter {
 
   /**
    * Convert the HTTP base URL to a WebSocket URL.
-   * https → wss, http → ws, strips trailing slash, appends /api/ws?token=<key>.
+   * https → wss, http → ws, strips trailing slash, appends /api/ws.
    */
   private buildWsUrl(): string {
     let base = this.options.baseUrl.replace(/\/+$/, "");
     base = base.replace(/^https:/, "wss:").replace(/^http:/, "ws:");
-    return `${base}/api/ws?token=${encodeURIComponent(this.options.apiKey)}`;
+    return `${base}/api/ws`;
   }
 
   /**
@@ -332,6 +412,13 @@ export class WsClient extends EventEmitter {
       return;
     }
 
+    // Remember how far we've read so a reconnect can resume from here
+    if ("seq" in msg && typeof msg.seq === "string") {
+      if (this._lastSeq === null || compareWsSeq(msg.seq, this._lastSeq) > 0) {
+        this._lastSeq = msg.seq;
+      }
+    }
+
     switch (msg.type) {
       case "event":
         this.emit("event", msg.event);
@@ -344,6 +431,14 @@ export class WsClient extends EventEmitter {
           stats: msg.stats,
         });
         break;
+      case "session.prompt":
+        this.emit("session.prompt", {
+          session_id: msg.session_id,
+          workspace_id: msg.workspace_id,
+          prompt: msg.prompt,
+          submitted_at: msg.submitted_at,
+        });
+        break;
       case "remote.update":
         this.emit("remote.update", {
           remote_env_id: msg.remote_env_id,
@@ -351,12 +446,23 @@ export class WsClient extends EventEmitter {
           public_ip: msg.public_ip,
         });
         break;
+      case "device.update":
+        this.emit("device.update", {
+          device_id: msg.device_id,
+          name: msg.name,
+          status: msg.status,
+          last_seen_at: msg.last_seen_at,
+        });
+        break;
       case "ping":
         this.send({ type: "pong" });
         break;
       case "error":
         this.emit("error", new Error(msg.message));
         break;
+      case "resync_required":
+        this.emit("resync", { subscription: msg.subscription, reason: msg.reason });
+        break;
       case "subscribed":
       case "unsubscribed":
         // Acknowledgement messages — no action needed on the client side
@@ -415,11 +521,14 @@ export class WsClient extends EventEmitter {
 
   /**
    * Re-send all locally persisted subscriptions to the server.
-   * Called after a successful (re)connect.
+   * Called after a successful (re)connect. Once a broadcast has been seen,
+   * each subscription asks for the ones missed while disconnected.
    */
   private resubscribe(): void {
     for (const msg of this.subscriptions.values()) {
-      this.send(msg);
+      this.send(
+        this._lastSeq && msg.type === "subscribe" ? { ...msg, since: this._lastSeq } : msg,
+      );
     }
   }
 
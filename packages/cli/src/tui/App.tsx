@@ -10,7 +10,8 @@
  *                                                   → SessionDetailView
  *
  * The WsClient connects on mount and disconnects on unmount; connection
- * failure is non-fatal (views fall back to polling).
+ * failure is non-fatal (views fall back to polling). Each view subscribes to
+ * just the broadcasts it shows.
  *
  * Launched by `fuel-code` with no subcommand via launchTui().
  */
@@ -67,23 +68,15 @@ export function App({ apiClient, wsClient }: AppProps): React.ReactElement {
 
   const [view, setView] = useState<View>({ name: "workspaces" });
 
-  // Connect WebSocket on mount, subscribe to all, disconnect on unmount.
-  // Connection failure is non-fatal — views will fall back to polling.
+  // Connect WebSocket on mount, disconnect on unmount. Views add their own
+  // subscriptions (re-sent on every connect). Connection failure is
+  // non-fatal — views will fall back to polling.
   useEffect(() => {
-    let mounted = true;
-
-    ws.connect()
-      .then(() => {
-        if (mounted) {
-          ws.subscribe({ scope: "all" });
-        }
-      })
-      .catch(() => {
-        // WS failure is non-fatal; views will poll instead
-      });
+    ws.connect().catch(() => {
+      // WS failure is non-fatal; views will poll instead
+    });
 
     return () => {
-      mounted = false;
       ws.disconnect();
     };
   }, [ws]);
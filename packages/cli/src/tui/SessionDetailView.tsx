@@ -5,16 +5,20 @@
  *   - Header with session metadata (workspace, device, duration, cost, tokens, summary)
  *   - Scrollable transcript viewer (left ~65%)
  *   - Sidebar with git/tools/files (right ~35%)
- *   - Tab switching: t=transcript, e=events (lazy fetch), g=git (full-width)
+ *   - Tab switching: t=transcript, e=events (lazy fetch), g=git (full-width),
+ *     d=diff (lazy fetch, full-width)
  *   - Live session support: WS subscription, elapsed time counter, auto-scroll
+ *   - Full tool output panel for results truncated in the stored transcript
  *
  * Keybindings:
  *   b/Escape — back to dashboard
  *   t — transcript tab (default)
  *   e — events tab (lazy fetch on first switch)
  *   g — git tab (full-width)
+ *   d — diff tab: code changes rebuilt from Write/Edit calls (lazy fetch)
  *   j/k — scroll up/down by message
  *   Space — page down
+ *   o — full output of the next truncated tool result (o again to close)
  *   x — export session JSON
  *   q — quit
  */
@@ -31,7 +35,10 @@ import { Sidebar } from "./components/Sidebar.js";
 import { FooterBar } from "./components/FooterBar.js";
 import { Spinner } from "./components/Spinner.js";
 import { GitActivityPanel } from "./components/GitActivityPanel.js";
-import type { TranscriptMessageWithBlocks } from "./components/MessageBlock.js";
+import { ToolOutputPanel, toOutputLines } from "./components/ToolOutputPanel.js";
+import { SessionDiffPanel, toDiffLines } from "./components/SessionDiffPanel.js";
+import { isTruncatedToolResult, type TranscriptMessageWithBlocks } from "./components/MessageBlock.js";
+import { fetchToolResultOutput, type ToolResultOutput } from "../commands/session-detail.js";
 import type { Event } from "@fuel-code/shared";
 
 export interface SessionDetailViewProps {
@@ -41,7 +48,14 @@ export interface SessionDetailViewProps {
   onBack: () => void;
 }
 
-type TabType = "transcript" | "events" | "git";
+type TabType = "transcript" | "events" | "git" | "diff";
+
+/** The open full-output panel: loading until output or error is set */
+interface ToolOutputState {
+  blockId: string;
+  output: ToolResultOutput | null;
+  error: string | null;
+}
 
 /**
  * Format events into a simple table for the events tab.
@@ -97,19 +111,27 @@ export function SessionDetailView({
 
   const [activeTab, setActiveTab] = useState<TabType>("transcript");
   const [scrollOffset, setScrollOffset] = useState(0);
+  const [toolOutput, setToolOutput] = useState<ToolOutputState | null>(null);
+  const [outputScroll, setOutputScroll] = useState(0);
 
   const {
     session,
     transcript,
     events,
     gitActivity,
+    diff,
+    latestPrompt,
     loading,
     error,
     fetchEvents,
+    fetchDiff,
     isLive,
     getExportData,
   } = useSessionDetail(apiClient, wsClient, sessionId);
 
+  // Output and diff panel height: terminal minus header, tab bar, panel title, footer
+  const outputHeight = Math.max(5, termRows - 14);
+
   // Scroll helpers
   const maxScroll = useCallback(() => {
     if (activeTab === "transcript") {
@@ -121,8 +143,11 @@ export function SessionDetailView({
     if (activeTab === "git") {
       return Math.max(0, gitActivity.length - 1);
     }
+    if (activeTab === "diff") {
+      return Math.max(0, (diff ? toDiffLines(diff).length : 0) - outputHeight);
+    }
     return 0;
-  }, [activeTab, transcript, events, gitActivity]);
+  }, [activeTab, transcript, events, gitActivity, diff, outputHeight]);
 
   const pageSize = 10;
 
@@ -130,8 +155,44 @@ export function SessionDetailView({
     setScrollOffset(offset);
   }, []);
 
+  /** Open the full output of the first truncated tool result at or below the scroll position */
+  const openToolOutput = useCallback(() => {
+    const messages = (transcript as TranscriptMessageWithBlocks[] | null) ?? [];
+    const block = messages
+      .slice(scrollOffset)
+      .flatMap((m) => m.content_blocks ?? [])
+      .find(isTruncatedToolResult);
+    if (!block) return;
+
+    setToolOutput({ blockId: block.id, output: null, error: null });
+    setOutputScroll(0);
+    fetchToolResultOutput(apiClient, sessionId, block.id)
+      .then((output) => {
+        setToolOutput((prev) => (prev?.blockId === block.id ? { ...prev, output } : prev));
+      })
+      .catch((err) => {
+        const error = err instanceof Error ? err.message : String(err);
+        setToolOutput((prev) => (prev?.blockId === block.id ? { ...prev, error } : prev));
+      });
+  }, [apiClient, sessionId, transcript, scrollOffset]);
+
   // Key handling
   useInput((input, key) => {
+    // Full output panel captures keys until closed
+    if (toolOutput) {
+      if (input === "o" || key.escape) {
+        setToolOutput(null);
+      } else if (input === "q") {
+        exit();
+      } else if (input === "j" || key.downArrow) {
+        const lineCount = toolOutput.output?.text ? toOutputLines(toolOutput.output.text).length : 0;
+        setOutputScroll((prev) => Math.min(prev + 1, Math.max(0, lineCount - outputHeight)));
+      } else if (input === "k" || key.upArrow) {
+        setOutputScroll((prev) => Math.max(prev - 1, 0));
+      }
+      return;
+    }
+
     // Back
     if (input === "b" || key.escape) {
       onBack();
@@ -161,6 +222,12 @@ export function SessionDetailView({
       setScrollOffset(0);
       return;
     }
+    if (input === "d") {
+      setActiveTab("diff");
+      setScrollOffset(0);
+      fetchDiff();
+      return;
+    }
 
     // Scrolling
     if (input === "j" || key.downArrow) {
@@ -180,6 +247,12 @@ export function SessionDetailView({
       return;
     }
 
+    // Full tool output
+    if (input === "o" && activeTab === "transcript") {
+      openToolOutput();
+      return;
+    }
+
     // Export
     if (input === "x") {
       const data = getExportData();
@@ -227,7 +300,7 @@ export function SessionDetailView({
   return (
     <Box flexDirection="column" height={termRows}>
       {/* Header */}
-      <SessionHeader session={session} />
+      <SessionHeader session={session} latestPrompt={latestPrompt} />
 
       {/* Tab indicator */}
       <Box marginTop={1}>
@@ -242,12 +315,25 @@ export function SessionDetailView({
         <Text bold color={activeTab === "git" ? "cyan" : undefined}>
           [g]it
         </Text>
+        <Text>  </Text>
+        <Text bold color={activeTab === "diff" ? "cyan" : undefined}>
+          [d]iff
+        </Text>
       </Box>
 
       {/* Tab content — overflow hidden keeps content within yoga-allocated
           bounds. flexGrow fills the rows left after header, tab bar, footer. */}
       <Box marginTop={1} flexGrow={1} overflow="hidden">
-        {activeTab === "transcript" && (
+        {activeTab === "transcript" && toolOutput && (
+          <ToolOutputPanel
+            output={toolOutput.output}
+            error={toolOutput.error}
+            scrollOffset={outputScroll}
+            height={outputHeight}
+          />
+        )}
+
+        {activeTab === "transcript" && !toolOutput && (
           <Box>
             {/* Left panel: transcript (~65%) */}
             <Box flexGrow={1} flexBasis="65%" overflow="hidden">
@@ -323,6 +409,12 @@ export function SessionDetailView({
             <GitActivityPanel commits={gitActivity} detailed />
           </Box>
         )}
+
+        {activeTab === "diff" && (
+          <Box flexDirection="column" width="100%">
+            <SessionDiffPanel diff={diff} scrollOffset={scrollOffset} height={outputHeight} />
+          </Box>
+        )}
       </Box>
 
       {/* Footer */}
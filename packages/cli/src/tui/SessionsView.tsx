@@ -11,7 +11,7 @@ import React, { useState, useEffect, useCallback, useRef, useMemo } from "react"
 import { Box, Text, useInput, useStdout } from "ink";
 import type { FuelApiClient, WorkspaceSummary } from "../lib/api-client.js";
 import type { WsClient } from "../lib/ws-client.js";
-import type { Event, Session } from "@fuel-code/shared";
+import type { Event, Session, SessionStats } from "@fuel-code/shared";
 import { useSessions } from "./hooks/useSessions.js";
 import { useWsConnection } from "./hooks/useWsConnection.js";
 import { SessionRow, type SessionDisplayData } from "./components/SessionRow.js";
@@ -181,13 +181,18 @@ export function SessionsView({
     };
   }, [flushBuffer]);
 
-  // Subscribe to WS events and buffer updates
+  // Subscribe to this workspace's session updates and start/end events, and buffer them
   useEffect(() => {
+    const subscriptions = [
+      ws.subscribe({ filter: { types: ["session.update"], workspace_id: workspace.id } }),
+      ws.subscribe({ filter: { event_types: ["session.start", "session.end"], workspace_id: workspace.id } }),
+    ];
+
     const onSessionUpdate = (update: {
       session_id: string;
       lifecycle: string;
       summary?: string;
-      stats?: { total_messages?: number; total_cost_usd?: number; duration_ms?: number };
+      stats?: SessionStats;
     }) => {
       const patch: Record<string, unknown> = { lifecycle: update.lifecycle };
       if (update.summary) patch.summary = update.summary;
@@ -195,6 +200,10 @@ export function SessionsView({
         patch.total_messages = update.stats.total_messages;
       if (update.stats?.duration_ms != null)
         patch.duration_ms = update.stats.duration_ms;
+      if (update.stats?.total_cost_usd != null)
+        patch.cost_estimate_usd = update.stats.total_cost_usd;
+      if (update.stats?.tool_use_count != null)
+        patch.tool_uses = update.stats.tool_use_count;
       wsBufferRef.current.push({
         type: "update",
         sessionId: update.session_id,
@@ -235,11 +244,20 @@ export function SessionsView({
     ws.on("session.update", onSessionUpdate);
     ws.on("event", onEvent);
     return () => {
+      for (const subscription of subscriptions) ws.unsubscribe({ subscription });
       ws.removeListener("session.update", onSessionUpdate);
       ws.removeListener("event", onEvent);
     };
   }, [ws, workspace.id]);
 
+  // Updates missed while disconnected couldn't be replayed — reload the list
+  useEffect(() => {
+    ws.on("resync", refresh);
+    return () => {
+      ws.removeListener("resync", refresh);
+    };
+  }, [ws, refresh]);
+
   // Polling fallback: refresh every 10s when WS is disconnected
   useEffect(() => {
     if (connected) return;
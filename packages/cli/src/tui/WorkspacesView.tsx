@@ -4,6 +4,10 @@
  * Replaces the left pane of the old Dashboard. Shows all workspaces with
  * session count, active indicator, and last activity. Press Enter to
  * drill into a workspace's sessions.
+ *
+ * Below the list, a PEOPLE panel breaks the highlighted workspace's sessions
+ * down by user, so activity on a shared repo shows who did what. Press "p"
+ * to hide or show it.
  */
 
 import React, { useState } from "react";
@@ -14,10 +18,12 @@ import type { WorkspaceSummary } from "../lib/api-client.js";
 import { useWorkspaces } from "./hooks/useWorkspaces.js";
 import { useWsConnection } from "./hooks/useWsConnection.js";
 import { useTodayStats } from "./hooks/useTodayStats.js";
+import { useActiveDevices } from "./hooks/useActiveDevices.js";
+import { useWorkspaceContributors } from "./hooks/useWorkspaceContributors.js";
 import { StatusBar } from "./components/StatusBar.js";
 import { Spinner } from "./components/Spinner.js";
 import { ErrorBanner } from "./components/ErrorBanner.js";
-import { formatDuration, formatRelativeTime } from "../lib/formatters.js";
+import { formatCost, formatDuration, formatRelativeTime } from "../lib/formatters.js";
 
 export interface WorkspacesViewProps {
   api: FuelApiClient;
@@ -35,9 +41,16 @@ export function WorkspacesView({
   onQuit,
 }: WorkspacesViewProps): React.ReactElement {
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [showPeople, setShowPeople] = useState(true);
   const { workspaces, loading, error, refresh } = useWorkspaces(api);
   const { state: wsState } = useWsConnection(ws);
-  const stats = useTodayStats(workspaces);
+  const stats = useTodayStats(api, workspaces);
+  const activeDevices = useActiveDevices(api, ws);
+  const selectedWorkspace = workspaces[selectedIndex] ?? null;
+  const { contributors } = useWorkspaceContributors(
+    api,
+    showPeople ? (selectedWorkspace?.id ?? null) : null,
+  );
 
   useInput((input, key) => {
     if (input === "j" || key.downArrow) {
@@ -55,6 +68,9 @@ export function WorkspacesView({
     if (input === "t") {
       onTeams();
     }
+    if (input === "p") {
+      setShowPeople((v) => !v);
+    }
     if (input === "q") {
       onQuit();
     }
@@ -98,8 +114,28 @@ export function WorkspacesView({
         )}
       </Box>
 
+      {showPeople && selectedWorkspace && contributors.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text bold color="cyan"> PEOPLE · {selectedWorkspace.display_name}</Text>
+          {contributors.map((c) => (
+            <Box key={c.user_id ?? "unattributed"}>
+              <Text>  {c.user_name ?? "(unattributed)"}</Text>
+              <Text dimColor>  {c.session_count} {c.session_count === 1 ? "session" : "sessions"}</Text>
+              <Text dimColor>  {formatDuration(Number(c.total_duration_ms))}</Text>
+              <Text dimColor>  {formatCost(c.total_cost_usd)}</Text>
+              {c.last_session_at && (
+                <Text dimColor>  {formatRelativeTime(c.last_session_at)}</Text>
+              )}
+              {c.active_sessions > 0 && (
+                <Text color="green">  [{c.active_sessions} live]</Text>
+              )}
+            </Box>
+          ))}
+        </Box>
+      )}
+
       {/* TODO: pass keyHints once StatusBar is updated (Task 8) */}
-      <StatusBar stats={stats} wsState={wsState} />
+      <StatusBar stats={stats} wsState={wsState} activeDevices={activeDevices} />
     </Box>
   );
 }
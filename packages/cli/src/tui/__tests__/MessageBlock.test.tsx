@@ -1,9 +1,9 @@
 /**
  * Tests for the MessageBlock TUI component.
  *
- * 6 tests covering: Human header format, Assistant header with model+cost,
+ * 7 tests covering: Human header format, Assistant header with model+cost,
  * text indented+wrapped, tool sequence tree chars, primary input extraction,
- * and tool_result skipped.
+ * tool_result skipped, and the hint for truncated tool results.
  */
 
 import { describe, it, expect } from "bun:test";
@@ -209,4 +209,17 @@ describe("MessageBlock", () => {
     expect(frame).toContain("Read");
     expect(frame).toContain("/a.ts");
   });
+
+  it("7. truncated tool_result shows a full-output hint instead of its preview", () => {
+    const msg = makeMessage({
+      has_tool_result: true,
+      content_blocks: [
+        { ...makeToolResultBlock(0), metadata: { truncated: true, original_byte_length: 524288 } },
+      ],
+    });
+    const { lastFrame } = render(<MessageBlock message={msg} ordinal={1} />);
+    const frame = lastFrame();
+    expect(frame).toContain("[output truncated: 512 KB — o: full output]");
+    expect(frame).not.toContain("result data here");
+  });
 });
@@ -3,8 +3,8 @@
  *
  * Uses ink-testing-library to render Ink components in a test environment.
  * Mock API client and WS client are used instead of real HTTP/WS connections.
- * 27 test cases covering header, transcript, sidebar, tabs, live sessions,
- * export, loading, and error states.
+ * 28 test cases covering header, transcript, sidebar, tabs, live sessions,
+ * full tool output, export, loading, and error states.
  */
 
 import { describe, it, expect, beforeEach, mock } from "bun:test";
@@ -199,11 +199,37 @@ function makeMockApiClient(opts: MockApiClientOptions = {}) {
     getTranscript: mock(() => Promise.resolve(transcript ?? [])),
     getSessionGit: mock(() => Promise.resolve(git)),
     getSessionEvents: mock(() => Promise.resolve(events)),
+    getSessionPrompts: mock(() => Promise.resolve([])),
+    getSessionDiff: mock(() =>
+      Promise.resolve({
+        session_id: "01JTEST1234567890ABCDEFGHI",
+        files: [{
+          path: "src/test.ts",
+          status: "modified",
+          complete: true,
+          operations: 1,
+          additions: 1,
+          deletions: 1,
+          hunks: [{ old_start: 7, old_lines: 1, new_start: 7, new_lines: 1, lines: ["-old", "+new"] }],
+        }],
+        stats: { files: 1, additions: 1, deletions: 1 },
+      }),
+    ),
     getHealth: mock(() => Promise.resolve(true)),
     // Remaining methods as stubs
     listSessions: mock(() => Promise.resolve({ data: [], nextCursor: null, hasMore: false })),
     updateSession: mock(() => Promise.resolve(session)),
     reparseSession: mock(() => Promise.resolve()),
+    getToolResult: mock((_sessionId: string, blockId: string) =>
+      Promise.resolve({
+        block_id: blockId,
+        truncated: true,
+        content_type: "text/plain",
+        byte_length: 2048,
+        url: null,
+        content: "PASS src/a.test.ts\nFAIL src/b.test.ts\n",
+      }),
+    ),
   } as any;
 }
 
@@ -558,6 +584,27 @@ describe("SessionDetail — Tab switching", () => {
   });
 });
 
+describe("SessionDetail — Diff tab", () => {
+  it("29. d switches to the diff tab, triggers lazy fetch", async () => {
+    const api = makeMockApiClient();
+    const ws = makeMockWsClient();
+    const { lastFrame, stdin } = render(
+      <SessionDetailView apiClient={api} wsClient={ws} sessionId="01JTEST1234567890ABCDEFGHI" onBack={() => {}} />
+    );
+    await waitForText(lastFrame, "my-project");
+    expect(api.getSessionDiff).not.toHaveBeenCalled();
+
+    stdin.write("d");
+    await waitForText(lastFrame, "@@ -7,1 +7,1 @@");
+
+    const frame = lastFrame();
+    expect(api.getSessionDiff).toHaveBeenCalledWith("01JTEST1234567890ABCDEFGHI");
+    expect(frame).toContain("src/test.ts (modified) +1 -1");
+    expect(frame).toContain("-old");
+    expect(frame).toContain("+new");
+  });
+});
+
 describe("SessionDetail — Navigation", () => {
   it("18. b calls onBack", async () => {
     const api = makeMockApiClient();
@@ -649,6 +696,27 @@ describe("SessionDetail — Live session", () => {
     expect(lastFrame()).toContain("Updated summary from WS");
   });
 
+  it("23b. Live session shows the latest prompt from WS", async () => {
+    const api = makeMockApiClient({
+      session: makeSession({ lifecycle: "detected", duration_ms: null, ended_at: null }),
+    });
+    const ws = makeMockWsClient();
+    const { lastFrame } = render(
+      <SessionDetailView apiClient={api} wsClient={ws} sessionId="01JTEST1234567890ABCDEFGHI" onBack={() => {}} />
+    );
+    await waitForText(lastFrame, "LIVE");
+
+    ws.emit("session.prompt", {
+      session_id: "01JTEST1234567890ABCDEFGHI",
+      workspace_id: "ws-1",
+      prompt: "now wire up the refresh token",
+      submitted_at: "2025-01-15T10:05:00.000Z",
+    });
+
+    await waitForText(lastFrame, "now wire up the refresh token");
+    expect(lastFrame()).toContain("Prompt:");
+  });
+
   it("24. Live session elapsed time counter", async () => {
     const recentStart = new Date(Date.now() - 5000).toISOString();
     const api = makeMockApiClient({
@@ -672,6 +740,40 @@ describe("SessionDetail — Live session", () => {
   });
 });
 
+describe("SessionDetail — Full tool output", () => {
+  it("28. o opens the next truncated tool result, o again closes it", async () => {
+    const transcript = [
+      makeMessage({
+        id: "msg-1", ordinal: 1, role: "user", has_tool_result: true,
+        content_blocks: [
+          makeTextBlock("preview", {
+            id: "blk-result",
+            block_type: "tool_result",
+            content_text: null,
+            result_text: "PASS src/a.test.ts",
+            metadata: { truncated: true, original_byte_length: 2048 },
+          }),
+        ],
+      }),
+    ];
+    const api = makeMockApiClient({ transcript });
+    const ws = makeMockWsClient();
+    const { lastFrame, stdin } = render(
+      <SessionDetailView apiClient={api} wsClient={ws} sessionId="01JTEST1234567890ABCDEFGHI" onBack={() => {}} />
+    );
+    await waitForText(lastFrame, "o: full output");
+
+    stdin.write("o");
+    await waitForText(lastFrame, "FAIL src/b.test.ts");
+    expect(api.getToolResult).toHaveBeenCalledWith("01JTEST1234567890ABCDEFGHI", "blk-result");
+    expect(lastFrame()).toContain("lines 1-2 of 2");
+
+    stdin.write("o");
+    await waitForNoText(lastFrame, "FAIL src/b.test.ts");
+    expect(lastFrame()).toContain("Message 1 of 1");
+  });
+});
+
 describe("SessionDetail — Export", () => {
   it("25. x exports session JSON", async () => {
     const api = makeMockApiClient();
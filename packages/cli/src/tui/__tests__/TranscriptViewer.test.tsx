@@ -3,7 +3,7 @@
  *
  * 13 tests covering: empty states, single messages, assistant with tools,
  * tree chars, tool argument display, thinking blocks, word wrap, scroll
- * position, and auto-scroll behavior.
+ * position, compaction boundaries, and auto-scroll behavior.
  */
 
 import { describe, it, expect } from "bun:test";
@@ -275,6 +275,22 @@ describe("TranscriptViewer — Scroll position", () => {
   });
 });
 
+describe("TranscriptViewer — Compaction boundaries", () => {
+  it("11b. Marks a compaction boundary even at the top of the window", () => {
+    const messages = [
+      makeMessage({ id: "m1", ordinal: 1, compact_sequence: 0, is_compacted: true }),
+      makeMessage({ id: "m2", ordinal: 2, compact_sequence: 1 }),
+      makeMessage({ id: "m3", ordinal: 3, compact_sequence: 1 }),
+    ];
+    const { lastFrame } = render(
+      <TranscriptViewer messages={messages} scrollOffset={1} onScrollChange={() => {}} />
+    );
+    const frame = lastFrame()!;
+    expect(frame).toContain("Context compacted (#1)");
+    expect(frame.match(/Context compacted/g)).toHaveLength(1);
+  });
+});
+
 describe("TranscriptViewer — Auto-scroll", () => {
   it("12. Auto-scroll is enabled when isLive and at bottom", () => {
     const messages = [
@@ -236,6 +236,22 @@ describe("StatusBar", () => {
     expect(output).toContain("r:refresh");
     expect(output).toContain("q:quit");
   });
+
+  test("8b. lists online machines when provided", () => {
+    const devices = ["macbook", "desktop", "laptop", "server"].map((name, i) => ({
+      id: `d-${i}`,
+      name,
+      lastSeenAt: "2025-06-15T10:00:00Z",
+    }));
+    const { lastFrame } = render(
+      <StatusBar
+        stats={{ sessions: 0, durationMs: 0, tokensIn: 0, tokensOut: 0, commits: 0 }}
+        wsState="connected"
+        activeDevices={devices}
+      />,
+    );
+    expect(stripAnsi(lastFrame()!)).toContain("Machines online: macbook, desktop, laptop +1");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -1,5 +1,6 @@
 /**
- * Unit tests for TUI hooks: useWorkspaces, useSessions, useWsConnection, useTodayStats.
+ * Unit tests for TUI hooks: useWorkspaces, useWorkspaceContributors, useSessions,
+ * useWsConnection, useTodayStats, useActiveDevices.
  *
  * Since these are React hooks, we test them indirectly by rendering minimal
  * components that use the hooks and capturing their output via ink-testing-library.
@@ -14,9 +15,11 @@ import { EventEmitter } from "events";
 import type { FuelApiClient, WorkspaceSummary, PaginatedResponse } from "../../lib/api-client.js";
 import type { Session } from "@fuel-code/shared";
 import { useWorkspaces } from "../hooks/useWorkspaces.js";
+import { useWorkspaceContributors } from "../hooks/useWorkspaceContributors.js";
 import { useSessions } from "../hooks/useSessions.js";
 import { useWsConnection, type UseWsConnectionResult } from "../hooks/useWsConnection.js";
 import { useTodayStats, type TodayStats } from "../hooks/useTodayStats.js";
+import { useActiveDevices, applyDeviceUpdate } from "../hooks/useActiveDevices.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -154,6 +157,56 @@ describe("useWorkspaces", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// useWorkspaceContributors tests
+// ---------------------------------------------------------------------------
+
+describe("useWorkspaceContributors", () => {
+  afterEach(() => { cleanup(); });
+
+  it("returns the per-user breakdown for a workspace", async () => {
+    const requested: string[] = [];
+    const api = {
+      getWorkspace: async (id: string) => {
+        requested.push(id);
+        return {
+          contributors: [
+            { user_id: "u-1", user_name: "ada", session_count: 3 },
+            { user_id: null, user_name: null, session_count: 1 },
+          ],
+        };
+      },
+    } as unknown as FuelApiClient;
+
+    function TestComponent() {
+      const { contributors } = useWorkspaceContributors(api, "ws-001");
+      return <Text>{contributors.map((c) => `${c.user_name ?? "none"}:${c.session_count}`).join(",")}</Text>;
+    }
+
+    const instance = render(<TestComponent />);
+    await wait(100);
+    expect(strip(instance.lastFrame())).toContain("ada:3,none:1");
+    expect(requested).toEqual(["ws-001"]);
+  });
+
+  it("does not fetch without a workspace", async () => {
+    let calls = 0;
+    const api = {
+      getWorkspace: async () => { calls++; return { contributors: [] }; },
+    } as unknown as FuelApiClient;
+
+    function TestComponent() {
+      const { contributors } = useWorkspaceContributors(api, null);
+      return <Text>{`count:${contributors.length}`}</Text>;
+    }
+
+    const instance = render(<TestComponent />);
+    await wait(50);
+    expect(strip(instance.lastFrame())).toContain("count:0");
+    expect(calls).toBe(0);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // useSessions tests
 // ---------------------------------------------------------------------------
@@ -304,24 +357,100 @@ describe("useWsConnection", () => {
 describe("useTodayStats", () => {
   afterEach(() => { cleanup(); });
 
-  // 10. Computes aggregate stats from workspaces
-  it("aggregates stats from workspace list", async () => {
-    const workspaces: WorkspaceSummary[] = [
-      makeWorkspace({ session_count: 3, total_tokens_in: 100000, total_tokens_out: 50000, total_duration_ms: 1000 }),
-      makeWorkspace({ session_count: 7, total_tokens_in: 200000, total_tokens_out: 80000, total_duration_ms: 2000 }),
-    ];
+  // 10. Sums today's usage from hourly buckets since local midnight
+  it("fetches today's totals from the usage endpoint", async () => {
+    const requests: Array<{ bucket?: string; from?: string }> = [];
+    const api = {
+      getUsage: async (params: { bucket?: string; from?: string }) => {
+        requests.push(params);
+        return {
+          totals: { sessions: 10, duration_ms: 3000, tokens_in: 300000, tokens_out: 130000, commits: 4 },
+        };
+      },
+    } as unknown as FuelApiClient;
+    const workspaces: WorkspaceSummary[] = [makeWorkspace()];
 
     function TestComponent() {
-      const stats = useTodayStats(workspaces);
-      return <Text>{`s:${stats.sessions} ti:${stats.tokensIn} to:${stats.tokensOut} d:${stats.durationMs}`}</Text>;
+      const stats = useTodayStats(api, workspaces);
+      return <Text>{`s:${stats.sessions} ti:${stats.tokensIn} to:${stats.tokensOut} d:${stats.durationMs} c:${stats.commits}`}</Text>;
     }
 
     const instance = render(<TestComponent />);
-    await wait(50);
+    await wait(100);
     const output = strip(instance.lastFrame());
     expect(output).toContain("s:10");
     expect(output).toContain("ti:300000");
     expect(output).toContain("to:130000");
     expect(output).toContain("d:3000");
+    expect(output).toContain("c:4");
+
+    const midnight = new Date();
+    midnight.setHours(0, 0, 0, 0);
+    expect(requests).toEqual([{ bucket: "hour", from: midnight.toISOString() }]);
+  });
+
+  // 11. A failed fetch leaves zeros rather than crashing the status bar
+  it("falls back to zeros when the usage endpoint fails", async () => {
+    const api = {
+      getUsage: async () => { throw new Error("offline"); },
+    } as unknown as FuelApiClient;
+    const workspaces: WorkspaceSummary[] = [];
+
+    function TestComponent() {
+      const stats = useTodayStats(api, workspaces);
+      return <Text>{`s:${stats.sessions} c:${stats.commits}`}</Text>;
+    }
+
+    const instance = render(<TestComponent />);
+    await wait(100);
+    expect(strip(instance.lastFrame())).toContain("s:0 c:0");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// useActiveDevices tests
+// ---------------------------------------------------------------------------
+
+describe("useActiveDevices", () => {
+  afterEach(() => { cleanup(); });
+
+  // 12. Loads online devices, then follows device.update messages
+  it("lists online devices and applies live updates", async () => {
+    const mockWs = new MockWsClient();
+    const api = {
+      listDevices: async () => [
+        { id: "d-1", name: "macbook", status: "online", last_seen_at: "2025-01-15T10:00:00Z" },
+        { id: "d-2", name: "desktop", status: "offline", last_seen_at: "2025-01-14T10:00:00Z" },
+      ],
+    } as unknown as FuelApiClient;
+
+    function TestComponent() {
+      const devices = useActiveDevices(api, mockWs as any);
+      return <Text>{`[${devices.map((d) => d.name).join(",")}]`}</Text>;
+    }
+
+    const instance = render(<TestComponent />);
+    await wait(100);
+    expect(strip(instance.lastFrame())).toContain("[macbook]");
+
+    mockWs.emit("device.update", { device_id: "d-2", name: "desktop", status: "online", last_seen_at: "2025-01-15T11:00:00Z" });
+    await wait(50);
+    expect(strip(instance.lastFrame())).toContain("[desktop,macbook]");
+
+    mockWs.emit("device.update", { device_id: "d-1", name: "macbook", status: "offline", last_seen_at: "2025-01-15T10:00:00Z" });
+    await wait(50);
+    expect(strip(instance.lastFrame())).toContain("[desktop]");
+  });
+
+  // 13. Heartbeats from an already-online device don't duplicate it
+  it("applyDeviceUpdate replaces an existing entry", () => {
+    const devices = [{ id: "d-1", name: "macbook", lastSeenAt: "2025-01-15T10:00:00Z" }];
+    const next = applyDeviceUpdate(devices, {
+      device_id: "d-1",
+      name: "macbook",
+      status: "online",
+      last_seen_at: "2025-01-15T10:01:00Z",
+    });
+    expect(next).toEqual([{ id: "d-1", name: "macbook", lastSeenAt: "2025-01-15T10:01:00Z" }]);
   });
 });
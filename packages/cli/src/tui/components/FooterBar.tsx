@@ -9,8 +9,8 @@ import React from "react";
 import { Box, Text } from "ink";
 
 export interface FooterBarProps {
-  /** Currently active tab: transcript, events, or git */
-  activeTab: "transcript" | "events" | "git";
+  /** Currently active tab: transcript, events, git, or diff */
+  activeTab: "transcript" | "events" | "git" | "diff";
   /** Whether the session is live (changes some hints) */
   isLive?: boolean;
 }
@@ -23,13 +23,18 @@ export function FooterBar({ activeTab, isLive }: FooterBarProps): React.ReactEle
   hints.push("t:transcript");
   hints.push("e:events");
   hints.push("g:git");
+  hints.push("d:diff");
 
   // Scroll hints (for scrollable tabs)
-  if (activeTab === "transcript" || activeTab === "events" || activeTab === "git") {
+  if (activeTab === "transcript" || activeTab === "events" || activeTab === "git" || activeTab === "diff") {
     hints.push("j/k:scroll");
     hints.push("Space:page");
   }
 
+  if (activeTab === "transcript") {
+    hints.push("o:full output");
+  }
+
   hints.push("x:export");
   hints.push("q:quit");
 
@@ -4,6 +4,7 @@
  * Sidebar mode (detailed=false): Shows up to 10 commits as: bullet hash message
  * Full-width mode (detailed=true): Shows additional per-commit detail including
  *   insertions/deletions, files_changed count, and branch.
+ * Commits rewritten by amend/rebase are tagged "(amended)" / "(rebased)".
  * Overflow displays "... N more" indicator.
  * Empty state: "No git activity"
  */
@@ -11,6 +12,7 @@
 import React from "react";
 import { Box, Text } from "ink";
 import type { GitActivity } from "@fuel-code/shared";
+import { formatRewriteNote } from "../../lib/formatters.js";
 
 export interface GitActivityPanelProps {
   commits: GitActivity[];
@@ -39,6 +41,8 @@ export function GitActivityPanel({ commits, detailed = false }: GitActivityPanel
       {visible.map((commit, idx) => {
         const sha = commit.commit_sha ? commit.commit_sha.slice(0, 7) : "-------";
         const msg = commit.message ?? commit.type;
+        const note = formatRewriteNote(commit.data);
+        const noteStr = note ? ` (${note})` : "";
 
         if (detailed) {
           // Full-width mode: show extra detail per commit
@@ -55,7 +59,7 @@ export function GitActivityPanel({ commits, detailed = false }: GitActivityPanel
                 <Text color="yellow">{"\u25CF"} </Text>
                 <Text dimColor>{sha}</Text>
                 <Text> {msg}</Text>
-                <Text dimColor>{branchStr}</Text>
+                <Text dimColor>{noteStr}{branchStr}</Text>
               </Box>
               {statsStr && (
                 <Box marginLeft={4}>
@@ -71,6 +75,7 @@ export function GitActivityPanel({ commits, detailed = false }: GitActivityPanel
             <Text color="yellow">{"\u25CF"} </Text>
             <Text dimColor>{sha}</Text>
             <Text> {msg}</Text>
+            {noteStr && <Text dimColor>{noteStr}</Text>}
           </Box>
         );
       })}
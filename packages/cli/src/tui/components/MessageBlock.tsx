@@ -6,7 +6,8 @@
  *   - Text: indented and word-wrapped
  *   - Thinking: collapsed as "[thinking... N chars]"
  *   - Tool uses: tree with box-drawing chars (mid=\u251C, last=\u2514)
- *   - Tool results: skipped (too noisy)
+ *   - Tool results: skipped (too noisy), except a dim hint when the stored
+ *     result is truncated (press o in the detail view for the full output)
  *
  * Primary input extraction for tool lines:
  *   - Read -> file_path
@@ -20,6 +21,7 @@
 import React from "react";
 import { Box, Text } from "ink";
 import type { TranscriptMessage, ParsedContentBlock } from "@fuel-code/shared";
+import { formatBytes } from "../../lib/formatters.js";
 
 /** Extended transcript message with content_blocks attached */
 export interface TranscriptMessageWithBlocks extends TranscriptMessage {
@@ -57,6 +59,11 @@ function extractToolPrimaryInput(block: ParsedContentBlock): string {
   }
 }
 
+/** Whether a block is a tool result whose stored text is only a preview */
+export function isTruncatedToolResult(block: ParsedContentBlock): boolean {
+  return block.block_type === "tool_result" && block.metadata?.truncated === true;
+}
+
 /**
  * Format a timestamp to HH:MM for message headers.
  */
@@ -104,6 +111,7 @@ export function MessageBlock({ message, ordinal }: MessageBlockProps): React.Rea
   const textBlocks = blocks.filter((b) => b.block_type === "text");
   const thinkingBlocks = blocks.filter((b) => b.block_type === "thinking");
   const toolUseBlocks = blocks.filter((b) => b.block_type === "tool_use");
+  const truncatedResults = blocks.filter(isTruncatedToolResult);
 
   return (
     <Box flexDirection="column">
@@ -147,6 +155,18 @@ export function MessageBlock({ message, ordinal }: MessageBlockProps): React.Rea
           </Box>
         );
       })}
+
+      {/* Truncated tool results — full output is one keypress away */}
+      {truncatedResults.map((block, idx) => {
+        const size = block.metadata.original_byte_length;
+        return (
+          <Box key={`result-${idx}`} marginLeft={2}>
+            <Text dimColor>
+              [output truncated{typeof size === "number" ? `: ${formatBytes(size)}` : ""} — o: full output]
+            </Text>
+          </Box>
+        );
+      })}
     </Box>
   );
 }
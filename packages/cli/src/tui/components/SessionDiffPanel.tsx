@@ -0,0 +1,85 @@
+/**
+ * SessionDiffPanel — the session's code changes, rebuilt from its
+ * Write/Edit/MultiEdit tool calls (GET /api/sessions/:id/diff).
+ *
+ * Shown full-width in the diff tab. Every file header, hunk header and hunk
+ * line is one display line, scrolled as a window. Files whose original
+ * content was never seen are flagged: their hunks carry no line numbers.
+ */
+
+import React from "react";
+import { Box, Text } from "ink";
+import { formatHunkHeader, type SessionDiff } from "@fuel-code/shared";
+
+export interface SessionDiffPanelProps {
+  /** Fetched diff; null while loading */
+  diff: SessionDiff | null;
+  /** First visible line */
+  scrollOffset: number;
+  /** Number of lines to show */
+  height: number;
+}
+
+/** One display line of the diff */
+export interface DiffDisplayLine {
+  text: string;
+  color?: string;
+  bold?: boolean;
+  dim?: boolean;
+}
+
+/** Flatten a session diff into display lines */
+export function toDiffLines(diff: SessionDiff): DiffDisplayLine[] {
+  const lines: DiffDisplayLine[] = [];
+  for (const file of diff.files) {
+    lines.push({ text: `${file.path} (${file.status}) +${file.additions} -${file.deletions}`, bold: true });
+    if (!file.complete) {
+      lines.push({ text: "original content unknown — positions are approximate", color: "yellow" });
+    }
+    for (const hunk of file.hunks) {
+      lines.push({ text: formatHunkHeader(hunk), color: "cyan" });
+      for (const line of hunk.lines) {
+        if (line.startsWith("+")) lines.push({ text: line, color: "green" });
+        else if (line.startsWith("-")) lines.push({ text: line, color: "red" });
+        else if (line.startsWith("\\")) lines.push({ text: line, dim: true });
+        else lines.push({ text: line });
+      }
+    }
+  }
+  return lines;
+}
+
+export function SessionDiffPanel({
+  diff,
+  scrollOffset,
+  height,
+}: SessionDiffPanelProps): React.ReactElement {
+  if (!diff) {
+    return <Text dimColor>Loading diff...</Text>;
+  }
+
+  if (diff.files.length === 0) {
+    return <Text dimColor>No file changes in this session.</Text>;
+  }
+
+  const lines = toDiffLines(diff);
+  const visible = lines.slice(scrollOffset, scrollOffset + height);
+  const { files, additions, deletions } = diff.stats;
+
+  return (
+    <Box flexDirection="column">
+      <Text bold>
+        Changes{" "}
+        <Text dimColor>
+          ({files} file{files === 1 ? "" : "s"}, +{additions} -{deletions}) lines{" "}
+          {Math.min(scrollOffset + 1, lines.length)}-{scrollOffset + visible.length} of {lines.length}
+        </Text>
+      </Text>
+      {visible.map((line, idx) => (
+        <Text key={idx} wrap="truncate-end" color={line.color} bold={line.bold} dimColor={line.dim}>
+          {line.text}
+        </Text>
+      ))}
+    </Box>
+  );
+}
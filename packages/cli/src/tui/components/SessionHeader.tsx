@@ -4,8 +4,9 @@
  * Displays session context in 4+ lines:
  *   Line 1: Workspace + Device + LIVE indicator
  *   Line 2: Started + Duration + Cost
- *   Line 3: Tokens (125K in / 48K out / 890K cache)
+ *   Line 3: Tokens (125K in / 48K out / 890K cache), plus compaction count if any
  *   Line 4: Summary
+ *   Line 4b (live only): latest prompt from the UserPromptSubmit hook
  *   Line 5 (conditional badges): session chain breadcrumb, team badge, worktree indicator
  *
  * For live sessions (lifecycle === 'detected'):
@@ -21,9 +22,11 @@ import { formatDuration, formatRelativeTime, formatNumber } from "../../lib/form
 
 export interface SessionHeaderProps {
   session: SessionDetail;
+  /** Most recent live-captured prompt, shown while the session is live */
+  latestPrompt?: string | null;
 }
 
-export function SessionHeader({ session }: SessionHeaderProps): React.ReactElement {
+export function SessionHeader({ session, latestPrompt }: SessionHeaderProps): React.ReactElement {
   const isLive = session.lifecycle === "detected";
   const [elapsedMs, setElapsedMs] = useState<number>(() => {
     if (isLive) {
@@ -60,6 +63,9 @@ export function SessionHeader({ session }: SessionHeaderProps): React.ReactEleme
     ? `${tokensIn} in / ${tokensOut} out / ${tokensCache} cache`
     : `${tokensIn} in / ${tokensOut} out`;
 
+  // Context compactions recorded by the PreCompact hook
+  const compactCount = session.compact_count ?? 0;
+
   // Summary with live session fallback
   const summary = session.summary ?? session.initial_prompt ?? (isLive ? "Session in progress..." : null);
 
@@ -90,7 +96,7 @@ export function SessionHeader({ session }: SessionHeaderProps): React.ReactEleme
       <Text wrap="truncate"><Text bold>Started: </Text>{formatRelativeTime(session.started_at)}  <Text bold>Duration: </Text>{duration}</Text>
 
       {/* Line 3: Tokens */}
-      <Text wrap="truncate"><Text bold>Tokens: </Text>{tokenStr}</Text>
+      <Text wrap="truncate"><Text bold>Tokens: </Text>{tokenStr}{compactCount > 0 && <>  <Text bold>Compacted: </Text>{compactCount}x</>}</Text>
 
       {/* Line 4: Summary (wrap=truncate prevents layout push on first render) */}
       {summary && (
@@ -100,6 +106,14 @@ export function SessionHeader({ session }: SessionHeaderProps): React.ReactEleme
         </Box>
       )}
 
+      {/* Line 4b: What the live session is working on right now */}
+      {isLive && latestPrompt && (
+        <Box>
+          <Text bold>Prompt: </Text>
+          <Text wrap="truncate">{latestPrompt.replace(/\s+/g, " ")}</Text>
+        </Box>
+      )}
+
       {/* Line 5: Conditional badges — session chain, team, worktree */}
       {hasBadges && (
         <Box>
@@ -1,8 +1,8 @@
 /**
  * Status bar for the bottom of TUI views.
  *
- * Displays aggregate statistics across all workspaces, WebSocket connection status,
- * and keyboard shortcut hints.
+ * Displays today's activity (sessions, time, tokens, commits), WebSocket connection status,
+ * the machines currently online, and keyboard shortcut hints.
  */
 
 import React from "react";
@@ -10,11 +10,17 @@ import { Text, Box } from "ink";
 import { formatDuration, formatTokensCompact } from "../../lib/formatters.js";
 import type { TodayStats } from "../hooks/useTodayStats.js";
 import type { WsConnectionState } from "../../lib/ws-client.js";
+import type { ActiveDevice } from "../hooks/useActiveDevices.js";
+
+/** Device names shown before collapsing the rest into "+N" */
+const MAX_DEVICE_NAMES = 3;
 
 export interface StatusBarProps {
   stats: TodayStats;
   wsState: WsConnectionState;
   queuePending?: number;
+  /** Online machines; the machines segment is hidden when omitted */
+  activeDevices?: ActiveDevice[];
   /** Override default key hints for per-view customization */
   keyHints?: string;
 }
@@ -23,6 +29,7 @@ export function StatusBar({
   stats,
   wsState,
   queuePending = 0,
+  activeDevices,
   keyHints,
 }: StatusBarProps): React.ReactElement {
   // WS indicator: filled bullet for connected, open circle for disconnected/polling
@@ -39,11 +46,18 @@ export function StatusBar({
   const wsColor =
     wsState === "connected" ? "green" : "yellow";
 
+  let devicesLabel: string | null = null;
+  if (activeDevices) {
+    const names = activeDevices.slice(0, MAX_DEVICE_NAMES).map((d) => d.name);
+    const extra = activeDevices.length - names.length;
+    devicesLabel = names.length > 0 ? names.join(", ") + (extra > 0 ? ` +${extra}` : "") : "none";
+  }
+
   return (
     <Box flexDirection="column" borderStyle="single" borderTop borderBottom={false} borderLeft={false} borderRight={false}>
       <Box>
         <Text>
-          All: {stats.sessions} sessions {"\u00B7"}{" "}
+          Today: {stats.sessions} sessions {"\u00B7"}{" "}
           {formatDuration(stats.durationMs)} {"\u00B7"}{" "}
           {formatTokensCompact(stats.tokensIn, stats.tokensOut)}
           {stats.commits > 0 ? ` \u00B7 ${stats.commits} commits` : ""}
@@ -54,6 +68,11 @@ export function StatusBar({
           Queue: {queuePending} pending {"\u00B7"} Backend:{" "}
         </Text>
         <Text color={wsColor}>{wsLabel}</Text>
+        {devicesLabel !== null && (
+          <Text>
+            {" "}{"\u00B7"} Machines online: {devicesLabel}
+          </Text>
+        )}
       </Box>
       <Box>
         <Text dimColor>
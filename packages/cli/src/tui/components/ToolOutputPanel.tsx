@@ -0,0 +1,82 @@
+/**
+ * ToolOutputPanel — full output of a truncated tool result.
+ *
+ * Opened with `o` from the transcript tab. Shows a header with the result's
+ * content type and size, then a scrollable window of output lines. Binary
+ * results (screenshots) can't be drawn in a terminal, so they show their
+ * presigned download URL instead.
+ */
+
+import React from "react";
+import { Box, Text } from "ink";
+import type { ToolResultOutput } from "../../commands/session-detail.js";
+import { formatBytes } from "../../lib/formatters.js";
+
+export interface ToolOutputPanelProps {
+  /** Fetched output; null while loading */
+  output: ToolResultOutput | null;
+  /** Fetch error message, if the download failed */
+  error: string | null;
+  /** First visible line */
+  scrollOffset: number;
+  /** Number of output lines to show */
+  height: number;
+}
+
+/** Split output text into display lines, dropping one trailing newline */
+export function toOutputLines(text: string): string[] {
+  return text.replace(/\n$/, "").split("\n");
+}
+
+export function ToolOutputPanel({
+  output,
+  error,
+  scrollOffset,
+  height,
+}: ToolOutputPanelProps): React.ReactElement {
+  if (error) {
+    return (
+      <Box flexDirection="column">
+        <Text color="red">Failed to load output: {error}</Text>
+        <Text dimColor>Press o to close</Text>
+      </Box>
+    );
+  }
+
+  if (!output) {
+    return <Text dimColor>Loading full output...</Text>;
+  }
+
+  const { location, text } = output;
+  const size = `${location.content_type}, ${formatBytes(location.byte_length)}`;
+
+  if (text === null) {
+    return (
+      <Box flexDirection="column">
+        <Text bold>Full output <Text dimColor>({size})</Text></Text>
+        <Text dimColor>Binary output — open in a browser:</Text>
+        <Text>{location.url}</Text>
+      </Box>
+    );
+  }
+
+  const lines = toOutputLines(text);
+  const visible = lines.slice(scrollOffset, scrollOffset + height);
+
+  return (
+    <Box flexDirection="column">
+      <Text bold>
+        Full output{" "}
+        <Text dimColor>
+          ({size}) lines {Math.min(scrollOffset + 1, lines.length)}-{scrollOffset + visible.length} of{" "}
+          {lines.length}
+        </Text>
+      </Text>
+      {visible.map((line, idx) => (
+        <Text key={idx} wrap="truncate-end">
+          {line}
+        </Text>
+      ))}
+    </Box>
+  );
+}
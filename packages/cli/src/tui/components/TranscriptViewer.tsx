@@ -6,6 +6,7 @@
  *   - Tool usage with tree chars
  *   - Thinking blocks collapsed
  *   - Scroll position indicator "Message N of M"
+ *   - A divider wherever compact_sequence changes (context compaction boundary)
  *   - Auto-scroll for live sessions at bottom; preserves position if scrolled up
  */
 
@@ -95,12 +96,23 @@ export function TranscriptViewer({
       </Box>
 
       {/* Render only the visible window of messages */}
-      {windowedMessages.map((msg, idx) => (
-        <Box key={msg.id || idx} flexDirection="column">
-          <MessageBlock message={msg} ordinal={msg.ordinal} />
-          {idx < windowedMessages.length - 1 && <Text>{" "}</Text>}
-        </Box>
-      ))}
+      {windowedMessages.map((msg, idx) => {
+        // Compare against the previous message in the full list so a boundary
+        // at the top of the window is still marked
+        const prev = sorted[scrollOffset + idx - 1];
+        const isBoundary = prev !== undefined && msg.compact_sequence > prev.compact_sequence;
+        return (
+          <Box key={msg.id || idx} flexDirection="column">
+            {isBoundary && (
+              <Text color="yellow">
+                {"\u2500\u2500"} Context compacted (#{msg.compact_sequence}) {"\u2500\u2500"}
+              </Text>
+            )}
+            <MessageBlock message={msg} ordinal={msg.ordinal} />
+            {idx < windowedMessages.length - 1 && <Text>{" "}</Text>}
+          </Box>
+        );
+      })}
     </Box>
   );
 }
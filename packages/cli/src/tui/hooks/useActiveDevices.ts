@@ -0,0 +1,66 @@
+/**
+ * Hook to track which machines are currently active, for the StatusBar.
+ *
+ * Loads the device list (again after a WS resync), then follows device.update messages pushed by
+ * the server when a device sends a heartbeat or is marked offline. Only
+ * online devices are returned, most recently seen first.
+ */
+
+import { useState, useEffect } from "react";
+import type { FuelApiClient } from "../../lib/api-client.js";
+import type { WsClient, DeviceUpdatePayload } from "../../lib/ws-client.js";
+
+export interface ActiveDevice {
+  id: string;
+  name: string;
+  lastSeenAt: string;
+}
+
+/** Apply a device.update to the active list (exported for testing) */
+export function applyDeviceUpdate(devices: ActiveDevice[], update: DeviceUpdatePayload): ActiveDevice[] {
+  const others = devices.filter((d) => d.id !== update.device_id);
+  if (update.status !== "online") return others;
+  return [{ id: update.device_id, name: update.name, lastSeenAt: update.last_seen_at }, ...others];
+}
+
+export function useActiveDevices(api: FuelApiClient, ws: WsClient): ActiveDevice[] {
+  const [devices, setDevices] = useState<ActiveDevice[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      api
+        .listDevices()
+        .then((list) => {
+          if (cancelled) return;
+          setDevices(
+            list
+              .filter((d) => d.status === "online")
+              .map((d) => ({ id: d.id, name: d.name, lastSeenAt: d.last_seen_at })),
+          );
+        })
+        .catch(() => {
+          // Best-effort — live updates still fill the list in
+        });
+    };
+    load();
+
+    const onDeviceUpdate = (update: DeviceUpdatePayload) => {
+      setDevices((prev) => applyDeviceUpdate(prev, update));
+    };
+    const subscription = ws.subscribe({ filter: { types: ["device.update"] } });
+    ws.on("device.update", onDeviceUpdate);
+    // Missed updates couldn't be replayed — reload the list
+    ws.on("resync", load);
+
+    return () => {
+      cancelled = true;
+      ws.unsubscribe({ subscription });
+      ws.removeListener("device.update", onDeviceUpdate);
+      ws.removeListener("resync", load);
+    };
+  }, [api, ws]);
+
+  return devices;
+}
@@ -1,37 +1,54 @@
 /**
  * useSessionDetail — React hook for parallel data fetching + WS subscription.
  *
- * Fetches session detail, transcript, and git activity in parallel on mount.
- * Events are fetched lazily (only when the events tab is first opened).
- * For live sessions, subscribes to the session via WebSocket and updates
- * header data on session.update messages.
+ * Fetches session detail, transcript, git activity, and live-captured prompts
+ * in parallel on mount.
+ * Events and the code diff are fetched lazily (only when their tab is first opened).
+ * Until a session reaches a terminal lifecycle (complete/failed), subscribes
+ * to it via WebSocket and updates header data on session.update messages —
+ * the reconcile pipeline reports parse stats and summaries as they land.
+ * The transcript is re-fetched once the session is reported as parsed.
+ * session.prompt messages keep latestPrompt current while the session is live.
+ * If the WS client reports missed updates it couldn't replay (resync), the
+ * session, transcript and prompts are re-fetched.
  */
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import type { FuelApiClient } from "../../lib/api-client.js";
-import type { WsClient } from "../../lib/ws-client.js";
-import type { Event, GitActivity, TranscriptMessage } from "@fuel-code/shared";
+import type { WsClient, SessionPromptPayload } from "../../lib/ws-client.js";
+import type { Event, GitActivity, TranscriptMessage, SessionStats, SessionDiff } from "@fuel-code/shared";
 import {
   fetchSessionDetail,
   fetchSessionTranscript,
   fetchSessionGit,
   fetchSessionEvents,
+  fetchSessionPrompts,
+  fetchSessionDiff,
   type SessionDetail,
   type SessionExportData,
 } from "../../commands/session-detail.js";
 import type { TranscriptMessageWithBlocks } from "../components/MessageBlock.js";
 
+/** Lifecycles after which no further session.update messages are expected */
+const TERMINAL_LIFECYCLES = new Set(["complete", "failed"]);
+
 export interface UseSessionDetailResult {
   session: SessionDetail | null;
   transcript: TranscriptMessageWithBlocks[] | null;
   events: Event[] | null;
   gitActivity: GitActivity[];
+  /** Code changes rebuilt from Write/Edit/MultiEdit calls (null until fetched) */
+  diff: SessionDiff | null;
+  /** Most recent prompt submitted in this session (from the UserPromptSubmit hook) */
+  latestPrompt: string | null;
   loading: boolean;
   error: string | null;
   /** Fetch events lazily (called when switching to events tab) */
   fetchEvents: () => void;
   /** Whether events have been fetched */
   eventsFetched: boolean;
+  /** Fetch the diff lazily (called when switching to diff tab) */
+  fetchDiff: () => void;
   /** Whether the session is live (detected) */
   isLive: boolean;
   /** Export data for the session */
@@ -47,9 +64,12 @@ export function useSessionDetail(
   const [transcript, setTranscript] = useState<TranscriptMessageWithBlocks[] | null>(null);
   const [events, setEvents] = useState<Event[] | null>(null);
   const [gitActivity, setGitActivity] = useState<GitActivity[]>([]);
+  const [latestPrompt, setLatestPrompt] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [eventsFetched, setEventsFetched] = useState(false);
+  const [diff, setDiff] = useState<SessionDiff | null>(null);
+  const [diffFetched, setDiffFetched] = useState(false);
   // Track which sessionId was last fetched so we re-fetch if sessionId changes
   const lastFetchedId = useRef<string | null>(null);
 
@@ -61,14 +81,16 @@ export function useSessionDetail(
     async function load() {
       try {
         setLoading(true);
-        const [sess, trans, git] = await Promise.all([
+        const [sess, trans, git, prompts] = await Promise.all([
           fetchSessionDetail(apiClient, sessionId),
           fetchSessionTranscript(apiClient, sessionId).catch(() => null),
           fetchSessionGit(apiClient, sessionId).catch(() => []),
+          fetchSessionPrompts(apiClient, sessionId).catch(() => []),
         ]);
         setSession(sess);
         setTranscript(trans as TranscriptMessageWithBlocks[] | null);
         setGitActivity(git);
+        setLatestPrompt(prompts.length > 0 ? prompts[prompts.length - 1].prompt : null);
       } catch (err) {
         setError(err instanceof Error ? err.message : String(err));
       } finally {
@@ -79,9 +101,9 @@ export function useSessionDetail(
     load();
   }, [apiClient, sessionId]);
 
-  // WS subscription for live sessions
+  // WS subscription until the session reaches a terminal lifecycle
   useEffect(() => {
-    if (!session || !wsClient || session.lifecycle !== "detected") return;
+    if (!session || !wsClient || TERMINAL_LIFECYCLES.has(session.lifecycle)) return;
 
     // Subscribe to this session's updates
     wsClient.subscribe({ session_id: sessionId });
@@ -90,7 +112,7 @@ export function useSessionDetail(
       session_id: string;
       lifecycle: string;
       summary?: string;
-      stats?: { total_messages?: number; total_cost_usd?: number; duration_ms?: number };
+      stats?: SessionStats;
     }) => {
       if (update.session_id !== sessionId) return;
       setSession((prev) => {
@@ -101,22 +123,55 @@ export function useSessionDetail(
           ...(update.summary !== undefined && { summary: update.summary }),
           ...(update.stats && {
             duration_ms: update.stats.duration_ms ?? prev.duration_ms,
+            cost_estimate_usd: update.stats.total_cost_usd ?? prev.cost_estimate_usd,
             stats: {
               ...prev.stats,
               total_messages: update.stats.total_messages ?? prev.stats?.total_messages,
+              tokens_in: update.stats.tokens_in ?? prev.stats?.tokens_in,
+              tokens_out: update.stats.tokens_out ?? prev.stats?.tokens_out,
+              tool_use_count: update.stats.tool_use_count ?? prev.stats?.tool_use_count,
             },
           }),
         };
       });
+
+      // Parsing just finished — the persisted transcript is now available
+      if (update.lifecycle === "parsed") {
+        fetchSessionTranscript(apiClient, sessionId)
+          .then((trans) => setTranscript(trans as TranscriptMessageWithBlocks[]))
+          .catch(() => {});
+      }
+    };
+
+    const handlePrompt = (prompt: SessionPromptPayload) => {
+      if (prompt.session_id !== sessionId) return;
+      setLatestPrompt(prompt.prompt);
+    };
+
+    // Updates were missed while disconnected — re-fetch what they would have changed
+    const handleResync = () => {
+      fetchSessionDetail(apiClient, sessionId).then(setSession).catch(() => {});
+      fetchSessionTranscript(apiClient, sessionId)
+        .then((trans) => setTranscript(trans as TranscriptMessageWithBlocks[] | null))
+        .catch(() => {});
+      fetchSessionPrompts(apiClient, sessionId)
+        .then((prompts) => {
+          if (prompts.length > 0) setLatestPrompt(prompts[prompts.length - 1].prompt);
+        })
+        .catch(() => {});
     };
 
     wsClient.on("session.update", handleUpdate);
+    wsClient.on("session.prompt", handlePrompt);
+    wsClient.on("resync", handleResync);
 
     return () => {
       wsClient.unsubscribe({ session_id: sessionId });
       wsClient.off("session.update", handleUpdate);
+      wsClient.off("session.prompt", handlePrompt);
+      wsClient.off("resync", handleResync);
     };
-  }, [session?.lifecycle, wsClient, sessionId]);
+  }, [session?.lifecycle, wsClient, apiClient, sessionId]);
 
   // Lazy event fetching
   const fetchEventsCallback = useCallback(async () => {
@@ -130,6 +185,17 @@ export function useSessionDetail(
     }
   }, [apiClient, sessionId, eventsFetched]);
 
+  // Lazy diff fetching
+  const fetchDiffCallback = useCallback(async () => {
+    if (diffFetched) return;
+    try {
+      setDiff(await fetchSessionDiff(apiClient, sessionId));
+      setDiffFetched(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [apiClient, sessionId, diffFetched]);
+
   // Export data getter
   const getExportData = useCallback((): SessionExportData | null => {
     if (!session) return null;
@@ -147,10 +213,13 @@ export function useSessionDetail(
     transcript,
     events,
     gitActivity,
+    diff,
+    latestPrompt,
     loading,
     error,
     fetchEvents: fetchEventsCallback,
     eventsFetched,
+    fetchDiff: fetchDiffCallback,
     isLive: session?.lifecycle === "detected",
     getExportData,
   };
@@ -1,13 +1,14 @@
 /**
- * Hook to compute aggregate statistics for the StatusBar.
+ * Hook to fetch today's activity for the StatusBar.
  *
- * Derives totals from the current workspace list: total sessions,
- * total duration, total cost, and total commits. Recomputes whenever
- * workspaces data changes.
+ * Asks the usage analytics endpoint for hourly buckets since local midnight
+ * and sums them: sessions, duration, tokens, and commits so far today.
+ * Re-fetches whenever the workspace list reloads (manual refresh or live
+ * updates), so the numbers follow new activity without a separate poll.
  */
 
-import { useMemo } from "react";
-import type { WorkspaceSummary } from "../../lib/api-client.js";
+import { useState, useEffect } from "react";
+import type { FuelApiClient, WorkspaceSummary } from "../../lib/api-client.js";
 
 export interface TodayStats {
   sessions: number;
@@ -17,31 +18,48 @@ export interface TodayStats {
   commits: number;
 }
 
+const EMPTY_STATS: TodayStats = {
+  sessions: 0,
+  durationMs: 0,
+  tokensIn: 0,
+  tokensOut: 0,
+  commits: 0,
+};
+
 /**
- * Compute aggregate stats across all workspaces.
- * Shows lifetime totals. A per-day breakdown would require a separate API call
- * with date filtering; displaying totals is more useful for an at-a-glance view.
+ * Fetch usage totals since local midnight.
+ * Buckets are hourly, so the range starts on the hour containing midnight.
+ * On error the previous numbers are kept — the StatusBar is best-effort.
  */
-export function useTodayStats(workspaces: WorkspaceSummary[]): TodayStats {
-  return useMemo(() => {
-    let sessions = 0;
-    let durationMs = 0;
-    let tokensIn = 0;
-    let tokensOut = 0;
-
-    for (const ws of workspaces) {
-      sessions += Number(ws.session_count) || 0;
-      durationMs += Number(ws.total_duration_ms) || 0;
-      tokensIn += Number((ws as any).total_tokens_in) || 0;
-      tokensOut += Number((ws as any).total_tokens_out) || 0;
-    }
-
-    return {
-      sessions,
-      durationMs,
-      tokensIn,
-      tokensOut,
-      commits: 0, // Commits require a separate API call; omitted for now
+export function useTodayStats(api: FuelApiClient, workspaces: WorkspaceSummary[]): TodayStats {
+  const [stats, setStats] = useState<TodayStats>(EMPTY_STATS);
+
+  useEffect(() => {
+    let cancelled = false;
+    const midnight = new Date();
+    midnight.setHours(0, 0, 0, 0);
+
+    api
+      .getUsage({ bucket: "hour", from: midnight.toISOString() })
+      .then((usage) => {
+        if (!cancelled) {
+          setStats({
+            sessions: usage.totals.sessions,
+            durationMs: usage.totals.duration_ms,
+            tokensIn: usage.totals.tokens_in,
+            tokensOut: usage.totals.tokens_out,
+            commits: usage.totals.commits,
+          });
+        }
+      })
+      .catch(() => {
+        // Keep the last known numbers
+      });
+
+    return () => {
+      cancelled = true;
     };
-  }, [workspaces]);
+  }, [api, workspaces]);
+
+  return stats;
 }
@@ -0,0 +1,57 @@
+/**
+ * Hook to fetch per-person activity for one workspace.
+ *
+ * Reads the contributors breakdown from the workspace detail endpoint, so a
+ * shared repo shows who has been working in it. Re-fetches whenever the
+ * workspace changes; a null workspaceId clears the list.
+ */
+
+import { useState, useEffect } from "react";
+import type { FuelApiClient, WorkspaceContributor } from "../../lib/api-client.js";
+
+export interface UseWorkspaceContributorsResult {
+  contributors: WorkspaceContributor[];
+  loading: boolean;
+  error: Error | null;
+}
+
+export function useWorkspaceContributors(
+  api: FuelApiClient,
+  workspaceId: string | null,
+): UseWorkspaceContributorsResult {
+  const [contributors, setContributors] = useState<WorkspaceContributor[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!workspaceId) {
+      setContributors([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    api
+      .getWorkspace(workspaceId)
+      .then((detail) => {
+        if (!cancelled) {
+          setContributors(detail.contributors ?? []);
+          setLoading(false);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err : new Error(String(err)));
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [api, workspaceId]);
+
+  return { contributors, loading, error };
+}
@@ -8,7 +8,8 @@
  * These tests verify that:
  *   - resolveOrCreateDevice creates devices with default values
  *   - resolveOrCreateDevice passes hints into the SQL insert
- *   - updateDeviceLastSeen calls the correct SQL
+ *   - updateDeviceLastSeen calls the correct SQL and brings devices back online
+ *   - markStaleDevicesOffline flips quiet online devices to offline
  *   - ensureWorkspaceDeviceLink calls the correct SQL
  */
 
@@ -18,6 +19,7 @@ import {
   updateDeviceLastSeen,
 } from "../device-resolver.js";
 import { ensureWorkspaceDeviceLink } from "../workspace-device-link.js";
+import { markStaleDevicesOffline } from "../device-presence.js";
 
 /**
  * Create a mock sql tagged template function.
@@ -136,12 +138,46 @@ describe("updateDeviceLastSeen", () => {
     expect(queryText).toContain("last_seen_at");
   });
 
-  test("returns void (no result needed)", async () => {
+  test("returns null when the device doesn't exist", async () => {
     const { sql } = createMockSql([]);
 
     const result = await updateDeviceLastSeen(sql, "device-123");
 
-    expect(result).toBeUndefined();
+    expect(result).toBeNull();
+  });
+
+  test("brings offline devices back online and returns their presence", async () => {
+    const { sql, calls } = createMockSql([
+      { id: "device-123", name: "laptop", status: "online", last_seen_at: new Date("2025-06-01T12:00:00.000Z") },
+    ]);
+
+    const result = await updateDeviceLastSeen(sql, "device-123");
+
+    expect(calls[0].strings.join("$")).toContain("WHEN status IN ('offline', 'provisioning') THEN 'online'");
+    expect(result).toEqual({
+      deviceId: "device-123",
+      name: "laptop",
+      status: "online",
+      lastSeenAt: "2025-06-01T12:00:00.000Z",
+    });
+  });
+});
+
+describe("markStaleDevicesOffline", () => {
+  test("marks quiet online devices offline and returns them", async () => {
+    const { sql, calls } = createMockSql([
+      { id: "device-1", name: "desktop", status: "offline", last_seen_at: "2025-06-01T11:00:00.000Z" },
+    ]);
+
+    const result = await markStaleDevicesOffline(sql, 5 * 60_000);
+
+    const queryText = calls[0].strings.join("$");
+    expect(queryText).toContain("SET status = 'offline'");
+    expect(queryText).toContain("WHERE status = 'online'");
+    expect(calls[0].values).toEqual(["300000 milliseconds"]);
+    expect(result).toEqual([
+      { deviceId: "device-1", name: "desktop", status: "offline", lastSeenAt: "2025-06-01T11:00:00.000Z" },
+    ]);
   });
 });
 
@@ -238,7 +238,8 @@ describe("createHandlerRegistry", () => {
     expect(types).toContain("git.push");
     expect(types).toContain("git.checkout");
     expect(types).toContain("git.merge");
-    expect(types).toHaveLength(13);
+    expect(types).toContain("system.heartbeat");
+    expect(types).toHaveLength(17);
   });
 
   test("session.start handler is the handleSessionStart function", () => {
@@ -321,6 +322,33 @@ describe("processEvent", () => {
     expect(sessionInsertCall.values[3]).toBe("detected");      // lifecycle
   });
 
+  test("attributes the event, device, and session to the ingesting user", async () => {
+    const event = makeSessionStartEvent({ user_id: "user-ada" });
+    const registry = createHandlerRegistry();
+    const logger = createMockLogger();
+
+    const { sql, calls } = createMockSql([
+      ...standardResultSets(
+        [{ id: event.id }],
+        [],
+        [{ canonical_id: "github.com/user/repo" }],
+        [],
+      ),
+    ]);
+
+    const result = await processEvent(sql, event, registry, logger);
+    expect(result.status).toBe("processed");
+
+    // Device upsert carries the user so the device is claimed by them
+    expect(calls[1].strings.join("$")).toContain("user_id");
+    expect(calls[1].values).toContain("user-ada");
+
+    // Event row and handler-created session row are both stamped
+    expect(calls[3].values[calls[3].values.length - 1]).toBe("user-ada");
+    expect(calls[4].strings.join("$")).toContain("user_id");
+    expect(calls[4].values).toContain("user-ada");
+  });
+
   test("duplicate event returns status 'duplicate' and skips handler", async () => {
     const event = makeSessionStartEvent();
     const registry = createHandlerRegistry();
@@ -339,6 +367,23 @@ describe("processEvent", () => {
     expect(calls).toHaveLength(4);
   });
 
+  test("redispatch re-runs the handler for an event row that already exists", async () => {
+    const event = makeSessionStartEvent();
+    const logger = createMockLogger();
+    const registry = new EventHandlerRegistry();
+    let handled = 0;
+    registry.register("session.start", async () => {
+      handled++;
+    });
+
+    const { sql } = createMockSql(standardResultSets([]));
+    const result = await processEvent(sql, event, registry, logger, undefined, { redispatch: true });
+
+    expect(result.status).toBe("processed");
+    expect(result.handlerResults).toEqual([{ type: "session.start", success: true }]);
+    expect(handled).toBe(1);
+  });
+
   test("processes session.end after start: handler transitions session via transitionSession", async () => {
     const event = makeSessionEndEvent();
     const registry = createHandlerRegistry();
@@ -379,20 +424,20 @@ describe("processEvent", () => {
   });
 
   test("unknown event type: event row created, no handler error", async () => {
-    // Use a type that has no handler registered (system.heartbeat has no handler)
+    // Use a type that has no handler registered (system.hooks.installed has no handler)
     const event: Event = {
-      id: "evt-heartbeat-001",
-      type: "system.heartbeat",
+      id: "evt-hooks-installed-001",
+      type: "system.hooks.installed",
       timestamp: "2024-06-15T12:00:00.000Z",
       device_id: "device-abc",
       workspace_id: "github.com/user/repo",
       session_id: null,
-      data: { cwd: "/home/user/repo", uptime_ms: 300000 },
+      data: { cwd: "/home/user/repo" },
       ingested_at: null,
       blob_refs: [],
     };
 
-    const registry = createHandlerRegistry(); // session + git handlers, but not system.*
+    const registry = createHandlerRegistry(); // no handler for system.hooks.installed
     const logger = createMockLogger();
 
     const { sql, calls } = createMockSql(standardResultSets([{ id: event.id }]));
@@ -452,7 +497,8 @@ describe("processEvent", () => {
       [{ id: event.id }],
     ]);
 
-    await processEvent(sql, event, registry, logger);
+    const result = await processEvent(sql, event, registry, logger);
+    expect(result.workspaceId).toBe("ws-ulid-resolved");
 
     // The event INSERT call (index 3) should use the resolved ULID
     const eventInsertCall = calls[3];
@@ -655,6 +701,50 @@ describe("handleSessionStart", () => {
     expect(call.values[5]).toBeNull(); // git_branch
     expect(call.values[6]).toBeNull(); // model
   });
+
+  test("looks up the repo's local workspace when local_workspace_id is sent", async () => {
+    const event = makeSessionStartEvent();
+    event.data.local_workspace_id = "local:abc123";
+    const logger = createMockLogger();
+    const { sql, calls } = createMockSql([
+      [],                                              // 1. session INSERT
+      [{ canonical_id: "_unassociated" }],             // 2. workspace lookup (skip prompt)
+      [],                                              // 3. local workspace lookup (none)
+    ]);
+
+    await handleSessionStart({ sql, event, workspaceId: "ws-ulid-001", logger });
+
+    expect(calls).toHaveLength(3);
+    expect(calls[2].strings.join("$")).toContain("workspace_merges");
+    expect(calls[2].values).toEqual(["local:abc123"]);
+  });
+
+  test("does not merge into a workspace that is itself local", async () => {
+    const event = makeSessionStartEvent({ workspace_id: "local:abc123" });
+    event.data.local_workspace_id = "local:abc123";
+    const logger = createMockLogger();
+    const { sql, calls } = createMockSql([[], [{ canonical_id: "_unassociated" }]]);
+
+    await handleSessionStart({ sql, event, workspaceId: "ws-ulid-001", logger });
+
+    expect(calls).toHaveLength(2);
+  });
+
+  test("logs a failed merge instead of failing the session", async () => {
+    const event = makeSessionStartEvent();
+    event.data.local_workspace_id = "local:abc123";
+    const logger = createMockLogger();
+    // The lookup finds a local workspace; the mock has no sql.begin, so the merge throws
+    const { sql } = createMockSql([
+      [],
+      [{ canonical_id: "_unassociated" }],
+      [{ id: "ws-local-001", unmerged: false }],
+    ]);
+
+    await handleSessionStart({ sql, event, workspaceId: "ws-ulid-001", logger });
+
+    expect(logger.warn).toHaveBeenCalled();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -8,10 +8,17 @@
  *   - Wrong workspace/device
  *   - Multiple active sessions (most recent wins)
  *   - Event timestamp before session started
+ *   - Fuel-Session trailer (exact match, fallback when the session is unknown)
+ *   - Recently ended session (heuristic)
+ *   - Bulk re-correlation of orphan git_activity rows
  */
 
 import { describe, expect, test, mock } from "bun:test";
-import { correlateGitEventToSession } from "../git-correlator.js";
+import {
+  correlateGitEventToSession,
+  recorrelateOrphanGitActivity,
+  HEURISTIC_GRACE_MS,
+} from "../git-correlator.js";
 
 // ---------------------------------------------------------------------------
 // Test helpers
@@ -38,6 +45,25 @@ function createMockSql(resultSet: Record<string, unknown>[]) {
   return { sql: sqlFn as any, calls };
 }
 
+/**
+ * Create a mock sql client that consumes result sets in FIFO order.
+ * sql.begin passes the same mock as `tx`; fragment calls (sql`` with no
+ * result of their own) are recorded too, so callers list a result per call.
+ */
+function createSequencedMockSql(resultSets: Record<string, unknown>[][]) {
+  const calls: SqlCall[] = [];
+
+  const sqlFn: any = (strings: TemplateStringsArray, ...values: unknown[]) => {
+    calls.push({ strings: [...strings], values });
+    return Promise.resolve(resultSets.shift() ?? []);
+  };
+  sqlFn.begin = async (cb: (tx: any) => Promise<void>) => {
+    await cb(sqlFn);
+  };
+
+  return { sql: sqlFn, calls };
+}
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -167,4 +193,207 @@ describe("correlateGitEventToSession", () => {
     // values[2] is the timestamp ISO string
     expect(call.values[2]).toBe("2024-06-15T12:30:00.000Z");
   });
+
+  test("includes sessions that ended within the grace window", async () => {
+    const { sql, calls } = createMockSql([]);
+
+    await correlateGitEventToSession(
+      sql,
+      "ws-123",
+      "device-456",
+      new Date("2024-06-15T12:30:00.000Z"),
+    );
+
+    const graceStart = new Date(Date.parse("2024-06-15T12:30:00.000Z") - HEURISTIC_GRACE_MS);
+    expect(calls[0].values[3]).toBe(graceStart.toISOString());
+    expect(calls[0].strings.join("$")).toContain("ended_at >=");
+  });
+
+  test("returns heuristic confidence for a recently ended session", async () => {
+    const { sql } = createMockSql([{ id: "sess-ended", confidence: "heuristic" }]);
+
+    const result = await correlateGitEventToSession(
+      sql,
+      "ws-001",
+      "device-001",
+      new Date("2024-06-15T12:00:00.000Z"),
+    );
+
+    expect(result.sessionId).toBe("sess-ended");
+    expect(result.confidence).toBe("heuristic");
+  });
+});
+
+describe("correlateGitEventToSession: Fuel-Session trailer", () => {
+  test("returns the trailer session when it exists", async () => {
+    const { sql, calls } = createSequencedMockSql([[{ id: "sess-trailer" }]]);
+
+    const result = await correlateGitEventToSession(
+      sql,
+      "ws-001",
+      "device-001",
+      new Date("2024-06-15T12:00:00.000Z"),
+      "sess-trailer",
+    );
+
+    expect(result).toEqual({ sessionId: "sess-trailer", confidence: "trailer" });
+    // The heuristic query is skipped entirely
+    expect(calls).toHaveLength(1);
+    // Only a session in the commit's own workspace counts
+    expect(calls[0].strings.join("$")).toContain("workspace_id");
+    expect(calls[0].values).toEqual(["sess-trailer", "ws-001"]);
+  });
+
+  test("falls back to the heuristics when the trailer session is unknown", async () => {
+    const { sql, calls } = createSequencedMockSql([
+      [],                                           // trailer lookup: no row yet
+      [{ id: "sess-active", confidence: "active" }], // heuristic query
+    ]);
+
+    const result = await correlateGitEventToSession(
+      sql,
+      "ws-001",
+      "device-001",
+      new Date("2024-06-15T12:00:00.000Z"),
+      "sess-not-yet-ingested",
+    );
+
+    expect(result).toEqual({ sessionId: "sess-active", confidence: "active" });
+    expect(calls).toHaveLength(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// recorrelateOrphanGitActivity
+// ---------------------------------------------------------------------------
+
+describe("recorrelateOrphanGitActivity", () => {
+  const ORPHANS = [
+    {
+      id: "git-1",
+      workspace_id: "ws-001",
+      device_id: "device-001",
+      type: "commit",
+      timestamp: new Date("2024-06-15T12:00:00.000Z"),
+      session_trailer: "sess-trailer",
+    },
+    {
+      id: "git-2",
+      workspace_id: "ws-001",
+      device_id: "device-001",
+      type: "commit",
+      timestamp: new Date("2024-06-15T13:00:00.000Z"),
+      session_trailer: null,
+    },
+  ];
+
+  test("links orphans via trailer or heuristics and updates their events", async () => {
+    const { sql, calls } = createSequencedMockSql([
+      [],                                    // workspace filter fragment
+      [],                                    // since filter fragment
+      [],                                    // after filter fragment
+      ORPHANS,                               // orphan SELECT
+      [{ id: "sess-trailer" }],              // git-1: trailer lookup
+      [],                                    // git-1: git_activity UPDATE
+      [],                                    // git-1: events UPDATE
+      [],                                    // git-2: heuristic query — no match
+    ]);
+
+    const result = await recorrelateOrphanGitActivity(sql);
+
+    expect(result).toEqual({
+      scanned: 2,
+      correlated: 1,
+      byConfidence: { trailer: 1, active: 0, heuristic: 0 },
+      dryRun: false,
+      next: null,
+    });
+
+    const activityUpdate = calls.find((c) => c.strings.join("$").includes("UPDATE git_activity"));
+    expect(activityUpdate?.values).toEqual([
+      "sess-trailer",
+      JSON.stringify({ correlation: "trailer" }),
+      "git-1",
+    ]);
+    const eventUpdate = calls.find((c) => c.strings.join("$").includes("UPDATE events"));
+    expect(eventUpdate?.values).toEqual(["sess-trailer", "git-1"]);
+
+    // The session gained a commit, so its daily_usage rows are recomputed
+    const refresh = calls.find((c) => c.strings.join("$").includes("started_at FROM sessions"));
+    expect(refresh?.values).toEqual(["sess-trailer"]);
+  });
+
+  test("only refreshes daily_usage for sessions that gained commits", async () => {
+    const push = { ...ORPHANS[1], id: "git-3", type: "push" };
+    const { sql, calls } = createSequencedMockSql([
+      [],
+      [],
+      [],
+      [push],
+      [{ id: "sess-active", confidence: "active" }], // heuristic match
+      [],                                            // git_activity UPDATE
+      [],                                            // events UPDATE
+    ]);
+
+    const result = await recorrelateOrphanGitActivity(sql);
+
+    expect(result.correlated).toBe(1);
+    expect(calls.some((c) => c.strings.join("$").includes("started_at FROM sessions"))).toBe(false);
+  });
+
+  test("dry run counts matches without writing", async () => {
+    const { sql, calls } = createSequencedMockSql([
+      [],
+      [],
+      [],
+      [ORPHANS[1]],
+      [{ id: "sess-ended", confidence: "heuristic" }],
+    ]);
+
+    const result = await recorrelateOrphanGitActivity(sql, { dryRun: true });
+
+    expect(result.correlated).toBe(1);
+    expect(result.byConfidence.heuristic).toBe(1);
+    expect(result.dryRun).toBe(true);
+    expect(calls.some((c) => c.strings.join("$").includes("UPDATE"))).toBe(false);
+  });
+
+  test("applies workspace, since, after and limit filters", async () => {
+    const { sql, calls } = createSequencedMockSql([[], [], [], []]);
+
+    await recorrelateOrphanGitActivity(sql, {
+      workspaceId: "ws-001",
+      since: new Date("2024-06-01T00:00:00.000Z"),
+      limit: 50,
+      after: { timestamp: new Date("2024-06-15T12:00:00.000Z"), id: "git-1" },
+    });
+
+    expect(calls[0].values).toEqual(["ws-001"]);
+    expect(calls[1].values).toEqual(["2024-06-01T00:00:00.000Z"]);
+    expect(calls[2].strings.join("$")).toContain("(timestamp, id) >");
+    expect(calls[2].values).toEqual(["2024-06-15T12:00:00.000Z", "git-1"]);
+    // One row past the limit tells whether another batch follows
+    expect(calls[3].values).toContain(51);
+    expect(calls[3].strings.join("$")).toContain("ORDER BY timestamp ASC, id ASC");
+  });
+
+  test("returns a cursor past unmatched orphans when more rows remain", async () => {
+    const { sql } = createSequencedMockSql([
+      [],
+      [],
+      [],
+      ORPHANS,                 // limit 1 + the look-ahead row
+      [],                      // git-1: trailer lookup — session unknown
+      [],                      // git-1: heuristic query — no match
+    ]);
+
+    const result = await recorrelateOrphanGitActivity(sql, { limit: 1 });
+
+    expect(result.scanned).toBe(1);
+    expect(result.correlated).toBe(0);
+    expect(result.next).toEqual({
+      timestamp: new Date("2024-06-15T12:00:00.000Z"),
+      id: "git-1",
+    });
+  });
 });
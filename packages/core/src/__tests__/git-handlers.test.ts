@@ -1,5 +1,6 @@
 /**
- * Tests for git event handlers (git.commit, git.push, git.checkout, git.merge).
+ * Tests for git event handlers (git.commit, git.push, git.checkout, git.merge,
+ * git.rewrite).
  *
  * Uses mock SQL to test handler logic without a real database.
  * Each handler is tested for:
@@ -17,6 +18,7 @@ import { handleGitCommit } from "../handlers/git-commit.js";
 import { handleGitPush } from "../handlers/git-push.js";
 import { handleGitCheckout } from "../handlers/git-checkout.js";
 import { handleGitMerge } from "../handlers/git-merge.js";
+import { handleGitRewrite } from "../handlers/git-rewrite.js";
 import { createHandlerRegistry } from "../handlers/index.js";
 
 // ---------------------------------------------------------------------------
@@ -51,13 +53,23 @@ function createMockSql(resultSets: Record<string, unknown>[][]) {
   // Simulate postgres.js sql.begin(async (tx) => { ... })
   // Passes the same mock sql function as the transaction client so
   // inner queries are recorded in the shared calls array.
-  sqlFn.begin = async (cb: (tx: any) => Promise<void>) => {
-    await cb(sqlFn);
+  sqlFn.begin = async (cb: (tx: any) => Promise<unknown>) => {
+    return cb(sqlFn);
   };
 
   return { sql: sqlFn as any, calls };
 }
 
+/** The session lookup refreshDailyUsage() starts with */
+function isRollupRefresh(call: SqlCall): boolean {
+  return call.strings.join("$").includes("started_at FROM sessions");
+}
+
+/** handleGitCommit's check for another event's live row with the same SHA */
+function isLiveCommitLookup(call: SqlCall): boolean {
+  return call.strings.join("$").includes("AND id <>");
+}
+
 /**
  * Create a no-op Pino-like logger whose methods are all bun:test mocks.
  */
@@ -170,6 +182,26 @@ function makeGitMergeEvent(overrides?: Partial<Event>): Event {
   };
 }
 
+/** Build a minimal valid git.rewrite event for testing */
+function makeGitRewriteEvent(overrides?: Partial<Event>): Event {
+  return {
+    id: "evt-git-rewrite-001",
+    type: "git.rewrite",
+    timestamp: "2024-06-15T12:20:00.000Z",
+    device_id: "device-abc",
+    workspace_id: "ws-ulid-001",
+    session_id: null,
+    data: {
+      kind: "amend",
+      branch: "main",
+      mappings: [{ old_sha: "abc123def456", new_sha: "fed654cba321" }],
+    },
+    ingested_at: null,
+    blob_refs: [],
+    ...overrides,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // handleGitCommit tests
 // ---------------------------------------------------------------------------
@@ -178,7 +210,8 @@ describe("handleGitCommit", () => {
   test("inserts correct fields into git_activity", async () => {
     const event = makeGitCommitEvent();
     const logger = createMockLogger();
-    // Result sets: 1) correlator query (no session), 2) git_activity INSERT
+    // Result sets: 1) correlator query (no session), 2) no live row for the SHA,
+    // 3) git_activity INSERT
     const { sql, calls } = createMockSql([[], []]);
 
     await handleGitCommit({
@@ -188,11 +221,12 @@ describe("handleGitCommit", () => {
       logger,
     });
 
-    // Should have 2 SQL calls: correlator SELECT + git_activity INSERT
-    expect(calls).toHaveLength(2);
+    // Should have 6 SQL calls: correlator SELECT + live-row lookup + git_activity INSERT
+    // + 3 session_files INSERTs
+    expect(calls).toHaveLength(6);
 
-    // Verify the git_activity INSERT call (second call)
-    const insertCall = calls[1];
+    // Verify the git_activity INSERT call (third call)
+    const insertCall = calls[2];
     expect(insertCall.values[0]).toBe("evt-git-commit-001");   // id
     expect(insertCall.values[1]).toBe("ws-ulid-001");          // workspace_id
     expect(insertCall.values[2]).toBe("device-abc");           // device_id
@@ -221,9 +255,11 @@ describe("handleGitCommit", () => {
   test("sets session_id when active session found", async () => {
     const event = makeGitCommitEvent();
     const logger = createMockLogger();
-    // Result sets: 1) correlator returns session, 2) git_activity INSERT, 3) events UPDATE
+    // Result sets: 1) correlator returns session, 2) live-row lookup, 3) git_activity
+    // INSERT, 4) events UPDATE
     const { sql, calls } = createMockSql([
       [{ id: "sess-active-001" }],  // correlator found a session
+      [],                            // no live row for the SHA
       [],                            // git_activity INSERT
       [],                            // events UPDATE
     ]);
@@ -235,15 +271,18 @@ describe("handleGitCommit", () => {
       logger,
     });
 
-    // Should have 3 SQL calls: correlator + INSERT + UPDATE events
-    expect(calls).toHaveLength(3);
+    // Should have 8 SQL calls: correlator + lookup + INSERT + UPDATE events + 3
+    // session_files INSERTs + the session's daily_usage refresh
+    expect(calls).toHaveLength(8);
+    expect(isRollupRefresh(calls[7])).toBe(true);
+    expect(calls[7].values).toEqual(["sess-active-001"]);
 
     // git_activity INSERT should have session_id set
-    const insertCall = calls[1];
+    const insertCall = calls[2];
     expect(insertCall.values[3]).toBe("sess-active-001");
 
     // events UPDATE should set session_id
-    const updateCall = calls[2];
+    const updateCall = calls[3];
     expect(updateCall.values[0]).toBe("sess-active-001");
     expect(updateCall.values[1]).toBe("evt-git-commit-001");
     const updateQueryText = updateCall.strings.join("$");
@@ -251,10 +290,35 @@ describe("handleGitCommit", () => {
     expect(updateQueryText).toContain("session_id");
   });
 
+  test("prefers the session named by the Fuel-Session trailer", async () => {
+    const event = makeGitCommitEvent();
+    event.data.session_trailer = "sess-trailer-001";
+    const logger = createMockLogger();
+    // Result sets: 1) trailer lookup finds the session, 2) live-row lookup, 3) INSERT,
+    // 4) events UPDATE
+    const { sql, calls } = createMockSql([[{ id: "sess-trailer-001" }], [], [], []]);
+
+    await handleGitCommit({
+      sql,
+      event,
+      workspaceId: "ws-ulid-001",
+      logger,
+    });
+
+    expect(calls).toHaveLength(8);
+    expect(calls[0].values).toEqual(["sess-trailer-001", "ws-ulid-001"]);
+
+    const insertCall = calls[2];
+    expect(insertCall.values[3]).toBe("sess-trailer-001");
+    const dataJson = JSON.parse(insertCall.values[14] as string);
+    expect(dataJson.session_trailer).toBe("sess-trailer-001");
+    expect(dataJson.correlation).toBe("trailer");
+  });
+
   test("session_id is NULL when no active session", async () => {
     const event = makeGitCommitEvent();
     const logger = createMockLogger();
-    // Result sets: 1) correlator returns empty, 2) git_activity INSERT
+    // Result sets: 1) correlator returns empty, 2) live-row lookup, 3) git_activity INSERT
     const { sql, calls } = createMockSql([[], []]);
 
     await handleGitCommit({
@@ -264,11 +328,13 @@ describe("handleGitCommit", () => {
       logger,
     });
 
-    // Should have only 2 SQL calls (no events UPDATE when no session)
-    expect(calls).toHaveLength(2);
+    // No events UPDATE when no session: correlator + lookup + INSERT + 3 session_files INSERTs
+    expect(calls).toHaveLength(6);
+    expect(calls.some((c) => c.strings.join("$").includes("UPDATE events"))).toBe(false);
+    expect(calls.some(isRollupRefresh)).toBe(false);
 
     // session_id should be null
-    const insertCall = calls[1];
+    const insertCall = calls[2];
     expect(insertCall.values[3]).toBeNull();
   });
 
@@ -286,11 +352,89 @@ describe("handleGitCommit", () => {
     });
 
     // Verify the INSERT contains ON CONFLICT
-    const insertCall = calls[1];
+    const insertCall = calls[2];
     const queryText = insertCall.strings.join("$");
     expect(queryText).toContain("ON CONFLICT");
     expect(queryText).toContain("DO NOTHING");
   });
+
+  test("rewrite arrives first: supersedes the re-pointed original and inherits its session", async () => {
+    const event = makeGitCommitEvent();
+    const logger = createMockLogger();
+    const { sql, calls } = createMockSql([
+      [], // correlator: no session
+      // git.rewrite already re-pointed the original commit's row at this SHA
+      [{ id: "evt-original", session_id: "sess-original", rewritten_from: "0ld5ha", rewrite_kind: "amend" }],
+      [], // restore + supersede the original
+      [], // git_activity INSERT
+    ]);
+
+    await handleGitCommit({ sql, event, workspaceId: "ws-ulid-001", logger });
+
+    const lookup = calls[1];
+    expect(lookup.values).toEqual(["ws-ulid-001", "abc123def456", "evt-git-commit-001"]);
+
+    // The original goes back to its own SHA, superseded by this commit
+    const restore = calls[2];
+    expect(restore.strings.join("$")).toContain("superseded_by");
+    expect(restore.values).toEqual(["0ld5ha", "abc123def456", "2024-06-15T12:00:00.000Z", "evt-original"]);
+
+    // This commit's row is the live one, linked back like an in-order rewrite
+    const insertCall = calls[3];
+    expect(insertCall.strings.join("$")).toContain("INSERT INTO git_activity");
+    expect(insertCall.values[3]).toBe("sess-original");
+    const dataJson = JSON.parse(insertCall.values[14] as string);
+    expect(dataJson.rewritten_from).toBe("0ld5ha");
+    expect(dataJson.rewrite_kind).toBe("amend");
+
+    const eventUpdate = calls.find((c) => c.strings.join("$").includes("UPDATE events"));
+    expect(eventUpdate?.values).toEqual(["sess-original", "evt-git-commit-001"]);
+    expect(calls.filter(isRollupRefresh).map((c) => c.values[0])).toEqual(["sess-original"]);
+  });
+
+  test("skips a commit already recorded under another event", async () => {
+    const event = makeGitCommitEvent();
+    const logger = createMockLogger();
+    const { sql, calls } = createMockSql([
+      [{ id: "sess-active-001" }],
+      [{ id: "evt-earlier-report", session_id: null, rewritten_from: null, rewrite_kind: null }],
+    ]);
+
+    await handleGitCommit({ sql, event, workspaceId: "ws-ulid-001", logger });
+
+    // Correlator + lookup only: no second live row, no file index, no refresh
+    expect(calls).toHaveLength(2);
+  });
+
+  test("indexes the file_list in session_files", async () => {
+    const event = makeGitCommitEvent();
+    event.data.file_list = [
+      { path: "./src/parser.ts", status: "M" },
+      { path: "src/parser.ts", status: "M" },
+      { path: "docs/", status: "A" },
+    ];
+    const logger = createMockLogger();
+    const { sql, calls } = createMockSql([[], []]);
+
+    await handleGitCommit({
+      sql,
+      event,
+      workspaceId: "ws-ulid-001",
+      logger,
+    });
+
+    // Paths are normalized and de-duplicated before indexing
+    const indexCalls = calls.filter((c) => c.strings.join("$").includes("INSERT INTO session_files"));
+    expect(indexCalls.map((c) => c.values[1])).toEqual(["src/parser.ts", "docs"]);
+    expect(indexCalls[0].values).toEqual([
+      "evt-git-commit-001",
+      "src/parser.ts",
+      "write",
+      "2024-06-15T12:00:00.000Z",
+      "2024-06-15T12:00:00.000Z",
+    ]);
+    expect(indexCalls[0].strings.join("$")).toContain("ON CONFLICT DO NOTHING");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -311,8 +455,8 @@ describe("handleGitCommit: worktree detection", () => {
 
     await handleGitCommit({ sql, event, workspaceId: "ws-ulid-001", logger });
 
-    // The INSERT call (second call, after correlator)
-    const insertCall = calls[1];
+    // The INSERT call (third call, after correlator + live-row lookup)
+    const insertCall = calls[2];
     // is_worktree and worktree_name are passed in the values
     expect(insertCall.values).toContain(true); // is_worktree
     expect(insertCall.values).toContain("feature-auth"); // worktree_name
@@ -331,7 +475,7 @@ describe("handleGitCommit: worktree detection", () => {
 
     await handleGitCommit({ sql, event, workspaceId: "ws-ulid-001", logger });
 
-    const insertCall = calls[1];
+    const insertCall = calls[2];
     expect(insertCall.values).toContain(false); // is_worktree
   });
 
@@ -347,7 +491,7 @@ describe("handleGitCommit: worktree detection", () => {
 
     await handleGitCommit({ sql, event, workspaceId: "ws-ulid-001", logger });
 
-    const insertCall = calls[1];
+    const insertCall = calls[2];
     // Handler defaults: is_worktree ?? false, worktree_name ?? null
     expect(insertCall.values).toContain(false); // is_worktree default
   });
@@ -558,6 +702,133 @@ describe("handleGitMerge", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// handleGitRewrite tests
+// ---------------------------------------------------------------------------
+
+describe("handleGitRewrite", () => {
+  test("supersedes the old commit row when the new commit has its own row", async () => {
+    const event = makeGitRewriteEvent();
+    const logger = createMockLogger();
+    const { sql, calls } = createMockSql([
+      [{ id: "evt-new-commit", session_id: "sess-001" }], // replacement lookup
+      [{ id: "evt-git-commit-001", session_id: "sess-001" }], // supersede old rows
+      [], // link replacement row
+    ]);
+
+    await handleGitRewrite({ sql, event, workspaceId: "ws-ulid-001", logger });
+
+    // Lookup + supersede + link, then one refresh for the shared session
+    expect(calls).toHaveLength(4);
+    expect(calls[0].values).toContain("fed654cba321");
+
+    const supersede = calls[1];
+    expect(supersede.strings.join("$")).toContain("superseded_by");
+    expect(supersede.values[0]).toBe("fed654cba321");
+    expect(supersede.values[1]).toBe("2024-06-15T12:20:00.000Z");
+    expect(supersede.values).toContain("abc123def456");
+
+    const link = calls[2];
+    expect(link.strings.join("$")).toContain("COALESCE(session_id");
+    expect(JSON.parse(link.values[1] as string)).toEqual({
+      rewritten_from: "abc123def456",
+      rewrite_kind: "amend",
+    });
+    expect(link.values[2]).toBe("evt-new-commit");
+  });
+
+  test("hands the old row's session to an orphan replacement and its event", async () => {
+    const event = makeGitRewriteEvent({
+      data: { kind: "rebase", mappings: [{ old_sha: "aaa111", new_sha: "bbb222" }] },
+    });
+    const logger = createMockLogger();
+    const { sql, calls } = createMockSql([
+      [{ id: "evt-rebased", session_id: null }],
+      [{ id: "evt-original", session_id: "sess-original" }],
+      [],
+      [],
+    ]);
+
+    await handleGitRewrite({ sql, event, workspaceId: "ws-ulid-001", logger });
+
+    expect(calls).toHaveLength(5);
+    expect(calls[2].values[0]).toBe("sess-original");
+    expect(calls[3].strings.join("$")).toContain("UPDATE events");
+    expect(calls[3].values).toEqual(["sess-original", "evt-rebased"]);
+    expect(isRollupRefresh(calls[4])).toBe(true);
+  });
+
+  test("refreshes daily_usage for both sessions when a commit moves between them", async () => {
+    const event = makeGitRewriteEvent();
+    const logger = createMockLogger();
+    const { sql, calls } = createMockSql([
+      [{ id: "evt-new-commit", session_id: "sess-new" }],
+      [{ id: "evt-git-commit-001", session_id: "sess-old" }],
+      [],
+    ]);
+
+    await handleGitRewrite({ sql, event, workspaceId: "ws-ulid-001", logger });
+
+    const refreshed = calls.filter(isRollupRefresh).map((c) => c.values[0]);
+    expect(refreshed).toEqual(["sess-old", "sess-new"]);
+  });
+
+  test("re-points the old row at the new SHA when no replacement row exists", async () => {
+    const event = makeGitRewriteEvent();
+    const logger = createMockLogger();
+    const { sql, calls } = createMockSql([
+      [], // no row for the new SHA
+      [{ id: "evt-git-commit-001" }],
+    ]);
+
+    await handleGitRewrite({ sql, event, workspaceId: "ws-ulid-001", logger });
+
+    // Re-pointing keeps the commit on its session — no rollup refresh
+    expect(calls).toHaveLength(2);
+    const update = calls[1];
+    const queryText = update.strings.join("$");
+    expect(queryText).toContain("SET commit_sha");
+    expect(queryText).not.toContain("superseded_by =");
+    expect(update.values[0]).toBe("fed654cba321");
+    expect(update.values).toContain("abc123def456");
+  });
+
+  test("skips linking when no live row exists for the old SHA", async () => {
+    const event = makeGitRewriteEvent();
+    const logger = createMockLogger();
+    const { sql, calls } = createMockSql([
+      [{ id: "evt-new-commit", session_id: null }],
+      [], // nothing superseded — commit was never tracked, or already rewritten
+    ]);
+
+    await handleGitRewrite({ sql, event, workspaceId: "ws-ulid-001", logger });
+
+    expect(calls).toHaveLength(2);
+  });
+
+  test("processes every mapping of a rebase", async () => {
+    const event = makeGitRewriteEvent({
+      data: {
+        kind: "rebase",
+        mappings: [
+          { old_sha: "aaa111", new_sha: "bbb222" },
+          { old_sha: "ccc333", new_sha: "ddd444" },
+          { old_sha: "eee555", new_sha: "eee555" },
+        ],
+      },
+    });
+    const logger = createMockLogger();
+    const { sql, calls } = createMockSql([[]]);
+
+    await handleGitRewrite({ sql, event, workspaceId: "ws-ulid-001", logger });
+
+    // Lookup + re-point for each changed SHA; unchanged SHAs are skipped
+    expect(calls).toHaveLength(4);
+    expect(calls[1].values[0]).toBe("bbb222");
+    expect(calls[3].values[0]).toBe("ddd444");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // All handlers: shared behavior tests
 // ---------------------------------------------------------------------------
@@ -584,9 +855,8 @@ describe("All git handlers: ON CONFLICT prevents duplicates", () => {
         logger,
       });
 
-      // The INSERT call is the second call (after correlator)
-      const insertCall = calls[1];
-      const queryText = insertCall.strings.join("$");
+      const insertCall = calls.find((c) => c.strings.join("$").includes("INSERT INTO git_activity"));
+      const queryText = insertCall!.strings.join("$");
       expect(queryText).toContain("ON CONFLICT");
       expect(queryText).toContain("DO NOTHING");
     }
@@ -618,11 +888,18 @@ describe("All git handlers: events.session_id updated on correlation", () => {
         logger,
       });
 
-      // Should have 3 calls (correlator + INSERT + UPDATE)
-      expect(calls).toHaveLength(3);
+      // Should have 3 calls (correlator + INSERT + UPDATE), besides file indexing
+      // and the commit handler's live-row lookup and rollup refresh
+      const handlerCalls = calls.filter(
+        (c) =>
+          !c.strings.join("$").includes("session_files") &&
+          !isRollupRefresh(c) &&
+          !isLiveCommitLookup(c),
+      );
+      expect(handlerCalls).toHaveLength(3);
 
       // The UPDATE should reference the correlated session
-      const updateCall = calls[2];
+      const updateCall = handlerCalls[2];
       expect(updateCall.values[0]).toBe("sess-correlated");
       const updateQuery = updateCall.strings.join("$");
       expect(updateQuery).toContain("UPDATE events");
@@ -649,8 +926,12 @@ describe("All git handlers: events.session_id updated on correlation", () => {
         logger,
       });
 
-      // Should have only 2 calls (correlator + INSERT, no UPDATE)
-      expect(calls).toHaveLength(2);
+      // Should have only 2 calls (correlator + INSERT, no UPDATE), besides file indexing
+      // and the commit handler's live-row lookup
+      const handlerCalls = calls.filter(
+        (c) => !c.strings.join("$").includes("session_files") && !isLiveCommitLookup(c),
+      );
+      expect(handlerCalls).toHaveLength(2);
     }
   });
 });
@@ -660,7 +941,7 @@ describe("All git handlers: events.session_id updated on correlation", () => {
 // ---------------------------------------------------------------------------
 
 describe("Handler registration includes all git types", () => {
-  test("createHandlerRegistry registers all 4 git event types", () => {
+  test("createHandlerRegistry registers all 5 git event types", () => {
     const registry = createHandlerRegistry();
     const types = registry.listRegisteredTypes();
 
@@ -668,6 +949,7 @@ describe("Handler registration includes all git types", () => {
     expect(types).toContain("git.push");
     expect(types).toContain("git.checkout");
     expect(types).toContain("git.merge");
+    expect(types).toContain("git.rewrite");
   });
 
   test("createHandlerRegistry registers correct handler functions", () => {
@@ -677,12 +959,13 @@ describe("Handler registration includes all git types", () => {
     expect(registry.getHandler("git.push")).toBe(handleGitPush);
     expect(registry.getHandler("git.checkout")).toBe(handleGitCheckout);
     expect(registry.getHandler("git.merge")).toBe(handleGitMerge);
+    expect(registry.getHandler("git.rewrite")).toBe(handleGitRewrite);
   });
 
-  test("registry has 13 total handlers (2 session + 4 git + 7 CC hook)", () => {
+  test("registry has 17 total handlers (4 session + 5 git + 7 CC hook + heartbeat)", () => {
     const registry = createHandlerRegistry();
     const types = registry.listRegisteredTypes();
 
-    expect(types).toHaveLength(13);
+    expect(types).toHaveLength(17);
   });
 });
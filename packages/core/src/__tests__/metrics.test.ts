@@ -0,0 +1,109 @@
+/**
+ * Tests for the in-process Prometheus metrics registry.
+ *
+ * Each test uses its own registry from createMetricsRegistry():
+ *   - counters and gauges: label sets as separate series, sorted labels
+ *   - histograms: cumulative buckets, +Inf, _sum and _count, startTimer
+ *   - get-or-create by name, type mismatches
+ *   - label value and help text escaping
+ *   - reset keeps definitions but clears values
+ */
+
+import { describe, expect, test } from "bun:test";
+import { createMetricsRegistry } from "../metrics.js";
+
+describe("counters and gauges", () => {
+  test("render one series per label set, labels sorted by name", () => {
+    const registry = createMetricsRegistry();
+    const events = registry.counter("test_events_total", "Events seen");
+    events.inc({ type: "a", outcome: "ok" });
+    events.inc({ outcome: "ok", type: "a" }, 2);
+    events.inc({ type: "b", outcome: "ok" });
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP test_events_total Events seen",
+        "# TYPE test_events_total counter",
+        'test_events_total{outcome="ok",type="a"} 3',
+        'test_events_total{outcome="ok",type="b"} 1',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("gauges set, increment, decrement and reset", () => {
+    const registry = createMetricsRegistry();
+    const depth = registry.gauge("test_depth", "Queue depth");
+    depth.set(5);
+    depth.inc();
+    depth.dec(undefined, 3);
+    expect(registry.render()).toContain("test_depth 3\n");
+
+    depth.reset();
+    expect(registry.render()).not.toContain("test_depth 3");
+    expect(registry.render()).toContain("# TYPE test_depth gauge");
+  });
+});
+
+describe("histograms", () => {
+  test("render cumulative buckets, +Inf, sum and count", () => {
+    const registry = createMetricsRegistry();
+    const latency = registry.histogram("test_seconds", "Latency", [1, 0.1]);
+    latency.observe(0.05, { op: "get" });
+    latency.observe(0.5, { op: "get" });
+    latency.observe(3, { op: "get" });
+
+    const lines = registry.render().split("\n");
+    expect(lines).toContain('test_seconds_bucket{op="get",le="0.1"} 1');
+    expect(lines).toContain('test_seconds_bucket{op="get",le="1"} 2');
+    expect(lines).toContain('test_seconds_bucket{op="get",le="+Inf"} 3');
+    expect(lines).toContain('test_seconds_sum{op="get"} 3.55');
+    expect(lines).toContain('test_seconds_count{op="get"} 3');
+  });
+
+  test("startTimer records elapsed seconds with start and stop labels", async () => {
+    const registry = createMetricsRegistry();
+    const latency = registry.histogram("test_seconds", "Latency");
+    const stop = latency.startTimer({ op: "put" });
+    await Bun.sleep(5);
+    const seconds = stop({ outcome: "error" });
+
+    expect(seconds).toBeGreaterThan(0);
+    expect(registry.render()).toContain('test_seconds_count{op="put",outcome="error"} 1');
+  });
+});
+
+describe("registry", () => {
+  test("returns the existing metric for a repeated name", () => {
+    const registry = createMetricsRegistry();
+    registry.counter("test_total", "Total").inc();
+    registry.counter("test_total", "Total").inc();
+    expect(registry.render()).toContain("test_total 2\n");
+  });
+
+  test("throws when a name is reused with a different type", () => {
+    const registry = createMetricsRegistry();
+    registry.counter("test_total", "Total");
+    expect(() => registry.gauge("test_total", "Total")).toThrow("already registered as a counter");
+  });
+
+  test("escapes label values and help text", () => {
+    const registry = createMetricsRegistry();
+    registry.counter("test_total", "Line one\nback\\slash").inc({ path: 'a"b\\c\nd' });
+
+    const text = registry.render();
+    expect(text).toContain("# HELP test_total Line one\\nback\\\\slash");
+    expect(text).toContain('test_total{path="a\\"b\\\\c\\nd"} 1');
+  });
+
+  test("reset clears values but keeps definitions", () => {
+    const registry = createMetricsRegistry();
+    const total = registry.counter("test_total", "Total");
+    total.inc();
+    registry.reset();
+    expect(registry.render()).toBe("# HELP test_total Total\n# TYPE test_total counter\n");
+
+    total.inc();
+    expect(registry.render()).toContain("test_total 1\n");
+  });
+});
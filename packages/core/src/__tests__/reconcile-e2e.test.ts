@@ -10,6 +10,7 @@
  *   4. Empty transcript: reconcileSession with empty content -> still advances lifecycle
  *   5. Failed session: reconcileSession on a failed session is a no-op
  *   6. Missing transcript S3 key: returns error, does not crash
+ *   7. Notifier: each lifecycle transition is reported with stats once parsed
  *
  * All tests are gated by DATABASE_URL. Summary is disabled (summaryConfig.enabled = false)
  * to avoid requiring ANTHROPIC_API_KEY.
@@ -22,6 +23,7 @@ import {
   reconcileSession,
   type ReconcileDeps,
   type ReconcileS3Client,
+  type SessionUpdateNotification,
 } from "../reconcile/reconcile-session.js";
 import { getSessionState, type SessionLifecycle } from "../session-lifecycle.js";
 import pino from "pino";
@@ -180,6 +182,49 @@ describe.skipIf(!DATABASE_URL)("reconcile E2E", () => {
     expect(blocks[0].c).toBeGreaterThan(0);
   });
 
+  // -----------------------------------------------------------------------
+  // 1b. Notifier receives every lifecycle transition in order
+  // -----------------------------------------------------------------------
+
+  test("notifier: reports parsed stats and each transition through complete", async () => {
+    const sessionId = await insertSession("transcript_ready");
+    const transcript = readFileSync(
+      join(import.meta.dir, "fixtures", "transcript-plain.jsonl"),
+      "utf-8",
+    );
+
+    const updates: SessionUpdateNotification[] = [];
+    const deps: ReconcileDeps = {
+      ...buildDeps(createMockS3(transcript)),
+      notifier: { sessionUpdated: (u) => updates.push(u) },
+    };
+    await reconcileSession(deps, sessionId);
+
+    expect(updates.map((u) => u.lifecycle)).toEqual(["parsed", "summarized", "complete"]);
+    for (const u of updates) {
+      expect(u.sessionId).toBe(sessionId);
+      expect(u.workspaceId).toBe(workspaceId);
+      expect(u.stats?.total_messages).toBeGreaterThan(0);
+    }
+  });
+
+  test("notifier: a throwing notifier does not break the pipeline", async () => {
+    const sessionId = await insertSession("transcript_ready");
+
+    const deps: ReconcileDeps = {
+      ...buildDeps(createMockS3("")),
+      notifier: {
+        sessionUpdated: () => {
+          throw new Error("socket gone");
+        },
+      },
+    };
+    const result = await reconcileSession(deps, sessionId);
+
+    expect(result.parseSuccess).toBe(true);
+    expect(result.finalLifecycle).toBe("complete");
+  });
+
   // -----------------------------------------------------------------------
   // 2. Idempotent re-entry: complete session is a no-op
   // -----------------------------------------------------------------------
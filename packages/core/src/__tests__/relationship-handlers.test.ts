@@ -9,8 +9,12 @@
  *   - skill.invoke: inserts session_skills row
  *   - worktree.create: inserts session_worktrees row
  *   - worktree.remove: updates existing row, inserts if no prior create
+ *   - session.prompt: inserts session_prompts row, seeds initial_prompt,
+ *     creates the session row if session.start hasn't landed yet
+ *   - session.compact: bumps compact_count / compacted_at, skips unknown sessions
+ *   - system.heartbeat: marks the device online and notifies, skips unknown devices
  *
- * Also tests handler registration for all 13 event types in the registry.
+ * Also tests handler registration for all 16 event types in the registry.
  */
 
 import { describe, expect, test, mock } from "bun:test";
@@ -22,6 +26,9 @@ import { handleTeamMessage } from "../handlers/team-message.js";
 import { handleSkillInvoke } from "../handlers/skill-invoke.js";
 import { handleWorktreeCreate } from "../handlers/worktree-create.js";
 import { handleWorktreeRemove } from "../handlers/worktree-remove.js";
+import { handleSessionPrompt } from "../handlers/session-prompt.js";
+import { handleSessionCompact } from "../handlers/session-compact.js";
+import { handleSystemHeartbeat } from "../handlers/system-heartbeat.js";
 import { createHandlerRegistry } from "../handlers/index.js";
 
 // ---------------------------------------------------------------------------
@@ -566,18 +573,186 @@ describe("handleWorktreeRemove", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// handleSessionPrompt
+// ---------------------------------------------------------------------------
+
+describe("handleSessionPrompt", () => {
+  test("inserts session_prompts row and seeds initial_prompt when session exists", async () => {
+    const event = makeEvent("session.prompt", {
+      cc_session_id: "sess-abc-123",
+      prompt: "fix the flaky redis test",
+      redacted: true,
+      truncated: false,
+    });
+    const logger = createMockLogger();
+    // Result sets: 1) resolveSessionByCC finds session, 2) INSERT, 3) UPDATE sessions, 4) UPDATE events
+    const { sql, calls } = createMockSql([[SESSION_ROW], [], [], []]);
+
+    await handleSessionPrompt({ sql, event, workspaceId: "ws-001", logger });
+
+    expect(calls).toHaveLength(4);
+
+    const insertText = calls[1].strings.join("$");
+    expect(insertText).toContain("INSERT INTO session_prompts");
+    expect(insertText).toContain("ON CONFLICT (event_id) DO NOTHING");
+    expect(calls[1].values).toContain("sess-abc-123");
+    expect(calls[1].values).toContain("evt-session-prompt-001");
+    expect(calls[1].values).toContain("fix the flaky redis test");
+    expect(calls[1].values).toContain("2025-07-01T10:00:00.000Z");
+    expect(calls[1].values).toContain(true);
+
+    const seedText = calls[2].strings.join("$");
+    expect(seedText).toContain("SET initial_prompt");
+    expect(seedText).toContain("initial_prompt IS NULL");
+
+    expect(calls[3].strings.join("$")).toContain("UPDATE events SET session_id");
+  });
+
+  test("creates a detected session row when session.start hasn't arrived yet", async () => {
+    const event = makeEvent("session.prompt", {
+      cc_session_id: "sess-early",
+      prompt: "hello",
+      git_branch: "main",
+    });
+    const logger = createMockLogger();
+    // Result sets: 1) resolveSessionByCC → not found, 2) INSERT sessions, 3+) prompt writes
+    const { sql, calls } = createMockSql([[], [], [], [], []]);
+
+    await handleSessionPrompt({ sql, event, workspaceId: "ws-001", logger });
+
+    expect(calls).toHaveLength(5);
+    const sessionInsert = calls[1].strings.join("$");
+    expect(sessionInsert).toContain("INSERT INTO sessions");
+    expect(sessionInsert).toContain("ON CONFLICT (id) DO NOTHING");
+    expect(calls[1].values).toContain("sess-early");
+    expect(calls[1].values).toContain("detected");
+    expect(calls[1].values).toContain("main");
+    expect(calls[2].strings.join("$")).toContain("INSERT INTO session_prompts");
+    expect(logger.warn).toHaveBeenCalled();
+  });
+
+  test("truncates the seeded initial_prompt to 1000 chars", async () => {
+    const event = makeEvent("session.prompt", {
+      cc_session_id: "sess-abc-123",
+      prompt: "y".repeat(1500),
+    });
+    const { sql, calls } = createMockSql([[SESSION_ROW], [], [], []]);
+
+    await handleSessionPrompt({ sql, event, workspaceId: "ws-001", logger: createMockLogger() });
+
+    expect(calls[1].values).toContain("y".repeat(1500));
+    expect(calls[2].values).toContain("y".repeat(1000));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// session.compact
+// ---------------------------------------------------------------------------
+
+describe("handleSessionCompact", () => {
+  test("bumps compact_count and appends the compaction timestamp", async () => {
+    const event = makeEvent("session.compact", {
+      cc_session_id: "sess-abc-123",
+      compact_sequence: 2,
+      transcript_path: "/tmp/t.jsonl",
+      trigger: "auto",
+    });
+    // Result sets: 1) UPDATE sessions RETURNING id, 2) UPDATE events
+    const { sql, calls } = createMockSql([[{ id: "sess-abc-123" }], []]);
+
+    await handleSessionCompact({ sql, event, workspaceId: "ws-001", logger: createMockLogger() });
+
+    expect(calls).toHaveLength(2);
+    const updateText = calls[0].strings.join("$");
+    expect(updateText).toContain("GREATEST(compact_count + 1, $)");
+    expect(updateText).toContain("array_append(compacted_at");
+    expect(calls[0].values).toContain(3);
+    expect(calls[0].values).toContain("2025-07-01T10:00:00.000Z");
+    expect(calls[1].strings.join("$")).toContain("UPDATE events SET session_id");
+  });
+
+  test("warns and skips the backfill when the session doesn't exist", async () => {
+    const event = makeEvent("session.compact", {
+      cc_session_id: "sess-missing",
+      compact_sequence: 0,
+      transcript_path: "/tmp/t.jsonl",
+    });
+    const logger = createMockLogger();
+    const { sql, calls } = createMockSql([[]]);
+
+    await handleSessionCompact({ sql, event, workspaceId: "ws-001", logger });
+
+    expect(calls).toHaveLength(1);
+    expect(logger.warn).toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// handleSystemHeartbeat
+// ---------------------------------------------------------------------------
+
+describe("handleSystemHeartbeat", () => {
+  test("marks the device online and notifies", async () => {
+    const { sql, calls } = createMockSql([
+      [{ id: "dev-001", name: "laptop", status: "online", last_seen_at: "2025-07-01T10:00:01.000Z" }],
+    ]);
+    const logger = createMockLogger();
+    const deviceUpdated = mock(() => {});
+    const event = makeEvent("system.heartbeat", { source: "drain", queue_depth: 0 });
+
+    await handleSystemHeartbeat({
+      sql,
+      event,
+      workspaceId: "ws-001",
+      logger,
+      pipelineDeps: { deviceNotifier: { deviceUpdated } } as any,
+    });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].strings.join("$")).toContain("UPDATE devices");
+    expect(calls[0].values).toEqual(["dev-001"]);
+    expect(deviceUpdated).toHaveBeenCalledWith({
+      deviceId: "dev-001",
+      name: "laptop",
+      status: "online",
+      lastSeenAt: "2025-07-01T10:00:01.000Z",
+    });
+  });
+
+  test("skips unknown devices without notifying", async () => {
+    const { sql } = createMockSql([[]]);
+    const logger = createMockLogger();
+    const deviceUpdated = mock(() => {});
+    const event = makeEvent("system.heartbeat", { source: "hook" });
+
+    await handleSystemHeartbeat({
+      sql,
+      event,
+      workspaceId: "ws-001",
+      logger,
+      pipelineDeps: { deviceNotifier: { deviceUpdated } } as any,
+    });
+
+    expect(deviceUpdated).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalled();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Handler registry includes all Phase 4-2 event types
 // ---------------------------------------------------------------------------
 
 describe("Handler registry includes all Phase 4-2 event types", () => {
-  test("createHandlerRegistry registers all 13 event types (2 session + 4 git + 7 CC hook)", () => {
+  test("createHandlerRegistry registers all 15 event types (4 session + 4 git + 7 CC hook)", () => {
     const registry = createHandlerRegistry();
     const types = registry.listRegisteredTypes();
 
     // Session lifecycle (Phase 1)
     expect(types).toContain("session.start");
     expect(types).toContain("session.end");
+    expect(types).toContain("session.prompt");
+    expect(types).toContain("session.compact");
 
     // Git events (Phase 3)
     expect(types).toContain("git.commit");
@@ -594,7 +769,10 @@ describe("Handler registry includes all Phase 4-2 event types", () => {
     expect(types).toContain("worktree.create");
     expect(types).toContain("worktree.remove");
 
-    expect(types).toHaveLength(13);
+    // Device presence
+    expect(types).toContain("system.heartbeat");
+
+    expect(types).toHaveLength(17);
   });
 
   test("registry maps handlers to correct functions", () => {
@@ -607,5 +785,8 @@ describe("Handler registry includes all Phase 4-2 event types", () => {
     expect(registry.getHandler("skill.invoke")).toBe(handleSkillInvoke);
     expect(registry.getHandler("worktree.create")).toBe(handleWorktreeCreate);
     expect(registry.getHandler("worktree.remove")).toBe(handleWorktreeRemove);
+    expect(registry.getHandler("session.prompt")).toBe(handleSessionPrompt);
+    expect(registry.getHandler("session.compact")).toBe(handleSessionCompact);
+    expect(registry.getHandler("system.heartbeat")).toBe(handleSystemHeartbeat);
   });
 });
@@ -0,0 +1,217 @@
+/**
+ * Tests for session archival.
+ *
+ * Uses mock SQL and a mock S3 client to test archive/restore without a real
+ * database or bucket:
+ *   - Skips sessions that are missing, not complete, or already archived
+ *   - Refuses to archive when the parsed backup is missing or its counts differ
+ *   - Deletes parsed rows and sets archived_at inside one transaction
+ *   - Dry-run sweeps report candidates and reclaimable bytes without deleting
+ *   - Restore re-inserts backup rows, clears archived_at, and reprices
+ */
+
+import { describe, expect, test } from "bun:test";
+import pino from "pino";
+import type { ParseResult } from "@fuel-code/shared";
+import { archiveSession, archiveOldSessions, restoreSession } from "../session-archive.js";
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const logger = pino({ level: "silent" });
+
+/** A captured SQL call — query text and interpolated values */
+interface SqlCall {
+  text: string;
+  values: unknown[];
+}
+
+/**
+ * Create a mock sql client. Tagged template calls return result sets in FIFO
+ * order; sql.begin passes the same mock as `tx` and returns the callback's
+ * result. sql.unsafe (used by the batch inserts) records the statement too.
+ */
+function createMockSql(resultSets: unknown[][]) {
+  const calls: SqlCall[] = [];
+  let transactions = 0;
+
+  const next = () => {
+    const rows = resultSets.shift() ?? [];
+    return Object.assign([...(rows as unknown[])], { count: (rows as unknown[]).length });
+  };
+
+  const sqlFn: any = (strings: TemplateStringsArray, ...values: unknown[]) => {
+    calls.push({ text: strings.join("$"), values });
+    return Promise.resolve(next());
+  };
+
+  sqlFn.unsafe = (text: string, values: unknown[]) => {
+    calls.push({ text, values });
+    return Promise.resolve([]);
+  };
+
+  sqlFn.begin = async (cb: (tx: any) => Promise<unknown>) => {
+    transactions++;
+    return cb(sqlFn);
+  };
+
+  return { sql: sqlFn, calls, transactionCount: () => transactions };
+}
+
+/** Mock S3 whose download returns the given parsed backup (or throws) */
+function createMockS3(backup: Partial<ParseResult> | null) {
+  const downloads: string[] = [];
+  return {
+    downloads,
+    s3: {
+      upload: async (key: string) => ({ key, size: 0 }),
+      download: async (key: string) => {
+        downloads.push(key);
+        if (!backup) throw new Error("NoSuchKey");
+        return JSON.stringify(backup);
+      },
+    },
+  };
+}
+
+const TRANSCRIPT_KEY = "transcripts/github.com-user-repo/sess-1/raw.jsonl";
+
+function makeBackup(messageCount: number, blockCount: number): Partial<ParseResult> {
+  return {
+    messages: Array.from({ length: messageCount }, (_, i) => ({ id: `m-${i}`, raw_message: {}, metadata: {} })) as any,
+    contentBlocks: Array.from({ length: blockCount }, (_, i) => ({ id: `b-${i}`, tool_input: null, metadata: {} })) as any,
+  };
+}
+
+const completeSession = { lifecycle: "complete", transcript_s3_key: TRANSCRIPT_KEY, archived_at: null };
+
+// ---------------------------------------------------------------------------
+// archiveSession
+// ---------------------------------------------------------------------------
+
+describe("archiveSession", () => {
+  test("skips sessions that are not complete", async () => {
+    const { sql, calls } = createMockSql([[{ ...completeSession, lifecycle: "parsed" }]]);
+    const { s3, downloads } = createMockS3(makeBackup(1, 1));
+
+    const result = await archiveSession({ sql, s3, logger }, "sess-1");
+
+    expect(result.archived).toBe(false);
+    expect(result.reason).toBe("not_complete");
+    expect(calls).toHaveLength(1);
+    expect(downloads).toHaveLength(0);
+  });
+
+  test("skips when the parsed backup is missing", async () => {
+    const { sql, transactionCount } = createMockSql([[completeSession]]);
+    const { s3, downloads } = createMockS3(null);
+
+    const result = await archiveSession({ sql, s3, logger }, "sess-1");
+
+    expect(result.reason).toBe("no_backup");
+    expect(downloads).toEqual(["transcripts/github.com-user-repo/sess-1/parsed.json"]);
+    expect(transactionCount()).toBe(0);
+  });
+
+  test("skips when backup counts do not match the database", async () => {
+    const { sql, transactionCount } = createMockSql([
+      [completeSession],
+      [{ messages: "3", blocks: "5" }],
+    ]);
+    const { s3 } = createMockS3(makeBackup(3, 4));
+
+    const result = await archiveSession({ sql, s3, logger }, "sess-1");
+
+    expect(result.reason).toBe("backup_mismatch");
+    expect(transactionCount()).toBe(0);
+  });
+
+  test("marks the session archived and deletes main-transcript rows in one transaction", async () => {
+    const { sql, calls, transactionCount } = createMockSql([
+      [completeSession],
+      [{ messages: "2", blocks: "3" }],
+      [{ id: "sess-1" }],
+      [{}, {}, {}],
+      [{}, {}],
+    ]);
+    const { s3 } = createMockS3(makeBackup(2, 3));
+
+    const result = await archiveSession({ sql, s3, logger }, "sess-1");
+
+    expect(result).toEqual({ sessionId: "sess-1", archived: true, messagesDeleted: 2, blocksDeleted: 3 });
+    expect(transactionCount()).toBe(1);
+    expect(calls[2].text).toContain("SET archived_at = now()");
+    expect(calls[3].text).toContain("DELETE FROM content_blocks");
+    expect(calls[3].text).toContain("subagent_id IS NULL");
+    expect(calls[4].text).toContain("DELETE FROM transcript_messages");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// archiveOldSessions
+// ---------------------------------------------------------------------------
+
+describe("archiveOldSessions", () => {
+  test("dry run reports candidates and reclaimable bytes without deleting", async () => {
+    const { sql, calls } = createMockSql([
+      [
+        { id: "sess-1", ended_at: new Date("2025-01-01T00:00:00Z"), message_count: "10", message_bytes: "4000", block_count: "20", block_bytes: "6000" },
+        { id: "sess-2", ended_at: new Date("2025-01-02T00:00:00Z"), message_count: "1", message_bytes: "100", block_count: "1", block_bytes: "50" },
+      ],
+    ]);
+    const { s3, downloads } = createMockS3(null);
+
+    const result = await archiveOldSessions({ sql, s3, logger }, { olderThanDays: 30, limit: 10, dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.found).toBe(2);
+    expect(result.reclaimedBytes).toBe(10150);
+    expect(result.candidates?.[0]).toEqual({
+      sessionId: "sess-1",
+      endedAt: "2025-01-01T00:00:00.000Z",
+      messageCount: 10,
+      blockCount: 20,
+      bytes: 10000,
+    });
+    expect(calls).toHaveLength(1);
+    expect(calls[0].values).toContain(30);
+    expect(downloads).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// restoreSession
+// ---------------------------------------------------------------------------
+
+describe("restoreSession", () => {
+  test("returns not_archived for sessions with their rows in place", async () => {
+    const { sql } = createMockSql([[{ transcript_s3_key: TRANSCRIPT_KEY, archived_at: null }]]);
+    const { s3, downloads } = createMockS3(makeBackup(1, 1));
+
+    const result = await restoreSession({ sql, s3, logger }, "sess-1");
+
+    expect(result.restored).toBe(false);
+    expect(result.reason).toBe("not_archived");
+    expect(downloads).toHaveLength(0);
+  });
+
+  test("re-inserts backup rows, clears archived_at, then reprices", async () => {
+    const { sql, calls } = createMockSql([
+      [{ transcript_s3_key: TRANSCRIPT_KEY, archived_at: "2025-03-01T00:00:00Z" }],
+      [{ id: "sess-1" }],
+      // repriceSession: session row, then no assistant messages
+      [{ lifecycle: "complete", cost_estimate_usd: "0", archived_at: null }],
+      [],
+    ]);
+    const { s3 } = createMockS3(makeBackup(2, 1));
+
+    const result = await restoreSession({ sql, s3, logger }, "sess-1");
+
+    expect(result).toEqual({ sessionId: "sess-1", restored: true, messagesRestored: 2, blocksRestored: 1 });
+    expect(calls[1].text).toContain("SET archived_at = NULL");
+    expect(calls[2].text).toContain("INSERT INTO transcript_messages");
+    expect(calls[3].text).toContain("INSERT INTO content_blocks");
+    expect(calls[4].text).toContain("FROM sessions");
+  });
+});
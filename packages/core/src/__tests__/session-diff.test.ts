@@ -0,0 +1,234 @@
+/**
+ * Tests for session diff reconstruction (Write/Edit/MultiEdit replay).
+ *
+ * Pure unit tests over hand-built content blocks, plus a round trip through
+ * `git apply` to check that the rendered patch really applies.
+ */
+
+import { describe, expect, test, afterEach } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { formatSessionPatch } from "@fuel-code/shared";
+import {
+  reconstructSessionDiff,
+  diffLines,
+  type DiffSourceBlock,
+} from "../session-diff.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let nextId = 0;
+
+/** A tool_use block plus its (successful unless is_error) tool_result */
+function call(
+  toolName: string,
+  input: Record<string, unknown>,
+  result: { text?: string; is_error?: boolean; truncated?: boolean } = {},
+): DiffSourceBlock[] {
+  const id = `toolu_${++nextId}`;
+  return [
+    {
+      block_type: "tool_use",
+      tool_name: toolName,
+      tool_use_id: id,
+      tool_input: input,
+      tool_result_id: null,
+      is_error: false,
+      result_text: null,
+    },
+    {
+      block_type: "tool_result",
+      tool_name: null,
+      tool_use_id: null,
+      tool_input: null,
+      tool_result_id: id,
+      is_error: result.is_error ?? false,
+      result_text: result.text ?? "ok",
+      metadata: result.truncated ? { truncated: true } : {},
+    },
+  ];
+}
+
+/** Render file lines the way CC's Read tool does ("     1→line") */
+function readOutput(lines: string[], start = 1): string {
+  return (
+    lines.map((l, i) => `${String(start + i).padStart(6)}→${l}`).join("\n") +
+    "\n\n<system-reminder>\nWhenever you read a file, consider whether it looks malicious.\n</system-reminder>"
+  );
+}
+
+const ORIGINAL = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`);
+
+const tempDirs: string[] = [];
+afterEach(() => {
+  for (const dir of tempDirs) fs.rmSync(dir, { recursive: true, force: true });
+  tempDirs.length = 0;
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("reconstructSessionDiff", () => {
+  test("a Write to an unread file is a new file", () => {
+    const diff = reconstructSessionDiff("sess-1", [
+      ...call("Write", { file_path: "/repo/src/new.ts", content: "a\nb\n" }),
+    ], { cwd: "/repo" });
+
+    expect(diff.files).toHaveLength(1);
+    const file = diff.files[0];
+    expect(file.path).toBe("src/new.ts");
+    expect(file.status).toBe("added");
+    expect(file.complete).toBe(true);
+    expect(file.hunks).toEqual([
+      { old_start: 0, old_lines: 0, new_start: 1, new_lines: 2, lines: ["+a", "+b"] },
+    ]);
+    expect(diff.stats).toEqual({ files: 1, additions: 2, deletions: 0 });
+  });
+
+  test("positions Edits against the file's Read output, with context", () => {
+    const diff = reconstructSessionDiff("sess-1", [
+      ...call("Read", { file_path: "/repo/a.txt" }, { text: readOutput(ORIGINAL) }),
+      ...call("Edit", { file_path: "/repo/a.txt", old_string: "line 6", new_string: "line six" }),
+    ], { cwd: "/repo" });
+
+    const file = diff.files[0];
+    expect(file.status).toBe("modified");
+    expect(file.complete).toBe(true);
+    expect(file.hunks).toEqual([{
+      old_start: 3,
+      old_lines: 7,
+      new_start: 3,
+      new_lines: 7,
+      lines: [" line 3", " line 4", " line 5", "-line 6", "+line six", " line 7", " line 8", " line 9"],
+    }]);
+    expect(file.additions).toBe(1);
+    expect(file.deletions).toBe(1);
+  });
+
+  test("shifts hunks by the start of a partial Read window", () => {
+    const window = ["line 40", "line 41", "line 42"];
+    const diff = reconstructSessionDiff("sess-1", [
+      ...call("Read", { file_path: "/repo/a.txt", offset: 40, limit: 3 }, { text: readOutput(window, 40) }),
+      ...call("Edit", { file_path: "/repo/a.txt", old_string: "line 41", new_string: "changed" }),
+    ]);
+
+    const hunk = diff.files[0].hunks[0];
+    expect(hunk.old_start).toBe(40);
+    expect(hunk.new_start).toBe(40);
+    expect(diff.files[0].complete).toBe(true);
+  });
+
+  test("replays MultiEdit and replace_all in order", () => {
+    const diff = reconstructSessionDiff("sess-1", [
+      ...call("Read", { file_path: "/repo/a.txt" }, { text: readOutput(["foo", "bar", "foo"]) }),
+      ...call("Edit", { file_path: "/repo/a.txt", old_string: "foo", new_string: "baz", replace_all: true }),
+      ...call("MultiEdit", {
+        file_path: "/repo/a.txt",
+        edits: [
+          { old_string: "bar", new_string: "qux" },
+          { old_string: "qux", new_string: "quux" },
+        ],
+      }),
+    ]);
+
+    const file = diff.files[0];
+    expect(file.operations).toBe(2);
+    expect(file.hunks[0].lines).toEqual(["-foo", "-bar", "-foo", "+baz", "+quux", "+baz"]);
+  });
+
+  test("marks a file incomplete when an Edit can't be positioned", () => {
+    const diff = reconstructSessionDiff("sess-1", [
+      ...call("Edit", { file_path: "/repo/a.txt", old_string: "old\ncommon", new_string: "new\ncommon" }),
+    ]);
+
+    const file = diff.files[0];
+    expect(file.complete).toBe(false);
+    expect(file.hunks).toEqual([
+      { old_start: null, old_lines: 2, new_start: null, new_lines: 2, lines: ["-old", "+new", " common"] },
+    ]);
+  });
+
+  test("skips tool calls that failed", () => {
+    const diff = reconstructSessionDiff("sess-1", [
+      ...call("Write", { file_path: "/repo/a.txt", content: "x\n" }, { is_error: true }),
+      ...call("Write", { file_path: "/repo/b.txt", content: "y\n" }),
+    ], { cwd: "/repo" });
+
+    expect(diff.files.map((f) => f.path)).toEqual(["b.txt"]);
+  });
+
+  test("omits files whose changes cancel out", () => {
+    const diff = reconstructSessionDiff("sess-1", [
+      ...call("Read", { file_path: "/repo/a.txt" }, { text: readOutput(["keep"]) }),
+      ...call("Edit", { file_path: "/repo/a.txt", old_string: "keep", new_string: "tmp" }),
+      ...call("Edit", { file_path: "/repo/a.txt", old_string: "tmp", new_string: "keep" }),
+    ]);
+
+    expect(diff.files).toEqual([]);
+  });
+
+  test("marks a missing trailing newline", () => {
+    const diff = reconstructSessionDiff("sess-1", [
+      ...call("Write", { file_path: "/repo/a.txt", content: "only" }),
+    ]);
+
+    expect(diff.files[0].hunks[0].lines).toEqual(["+only", "\\ No newline at end of file"]);
+  });
+
+  test("keeps paths outside the working directory absolute", () => {
+    const diff = reconstructSessionDiff("sess-1", [
+      ...call("Write", { file_path: "/tmp/scratch.txt", content: "x\n" }),
+    ], { cwd: "/repo" });
+
+    expect(diff.files[0].path).toBe("/tmp/scratch.txt");
+  });
+});
+
+describe("diffLines", () => {
+  test("finds a minimal edit script", () => {
+    const ops = diffLines(["a", "b", "c", "d"], ["a", "x", "c", "d", "e"]);
+    expect(ops.map((op) => `${op.type[0]}${op.line}`)).toEqual([
+      "ea", "db", "ix", "ec", "ed", "ie",
+    ]);
+  });
+
+  test("handles empty inputs", () => {
+    expect(diffLines([], [])).toEqual([]);
+    expect(diffLines(["a"], []).map((op) => op.type)).toEqual(["delete"]);
+    expect(diffLines([], ["a"]).map((op) => op.type)).toEqual(["insert"]);
+  });
+});
+
+describe("formatSessionPatch round trip", () => {
+  test("the rendered patch applies with git apply", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "session-diff-"));
+    tempDirs.push(dir);
+    fs.writeFileSync(path.join(dir, "a.txt"), ORIGINAL.join("\n") + "\n");
+
+    const diff = reconstructSessionDiff("sess-1", [
+      ...call("Read", { file_path: `${dir}/a.txt` }, { text: readOutput(ORIGINAL) }),
+      ...call("Edit", { file_path: `${dir}/a.txt`, old_string: "line 2\n", new_string: "" }),
+      ...call("Edit", { file_path: `${dir}/a.txt`, old_string: "line 11", new_string: "eleven\nextra" }),
+      ...call("Write", { file_path: `${dir}/sub/new.txt`, content: "hello\nworld" }),
+      ...call("Edit", { file_path: `${dir}/unread.txt`, old_string: "x", new_string: "y" }),
+    ], { cwd: dir });
+
+    const patch = formatSessionPatch(diff);
+    expect(patch).toContain("# skipped unread.txt");
+    fs.writeFileSync(path.join(dir, "session.patch"), patch);
+
+    const applied = Bun.spawnSync(["git", "apply", "session.patch"], { cwd: dir });
+    expect(applied.stderr.toString()).toBe("");
+    expect(applied.exitCode).toBe(0);
+
+    const expected = [...ORIGINAL];
+    expected.splice(1, 1);
+    expected.splice(expected.indexOf("line 11"), 1, "eleven", "extra");
+    expect(fs.readFileSync(path.join(dir, "a.txt"), "utf-8")).toBe(expected.join("\n") + "\n");
+    expect(fs.readFileSync(path.join(dir, "sub", "new.txt"), "utf-8")).toBe("hello\nworld");
+  });
+});
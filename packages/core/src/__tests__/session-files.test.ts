@@ -0,0 +1,231 @@
+/**
+ * Tests for the file history index.
+ *
+ *   - collectFileAccesses: tool → access kind, repo-root-relative paths (also
+ *     from a cwd below the root), one entry per (path, tool) with counts and
+ *     first/last times, failed calls skipped
+ *   - normalizeFilePath: "./", trailing and doubled slashes
+ *   - indexSessionFiles: delete-first rebuild inside one transaction
+ *   - indexCommitFiles: one ON CONFLICT DO NOTHING insert per distinct path
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  collectFileAccesses,
+  normalizeFilePath,
+  indexSessionFiles,
+  indexCommitFiles,
+  type FileAccessBlock,
+} from "../session-files.js";
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+/** A captured SQL call — template strings and interpolated values */
+interface SqlCall {
+  strings: string[];
+  values: unknown[];
+}
+
+/**
+ * Create a mock sql tagged template function.
+ * Returns result sets in FIFO order; sql.begin passes the same mock as `tx`.
+ * Non-template calls (sql(array) list helpers) return their argument.
+ */
+function createMockSql(resultSets: Record<string, unknown>[][]) {
+  const calls: SqlCall[] = [];
+  let callIndex = 0;
+  let transactions = 0;
+
+  const sqlFn = (strings: TemplateStringsArray | unknown, ...values: unknown[]) => {
+    if (!Array.isArray(strings) || !("raw" in strings)) return strings;
+    calls.push({ strings: [...strings], values });
+    const idx = Math.min(callIndex, resultSets.length - 1);
+    callIndex++;
+    return Promise.resolve(resultSets[idx] ?? []);
+  };
+
+  sqlFn.begin = async (cb: (tx: any) => Promise<void>) => {
+    transactions++;
+    await cb(sqlFn);
+  };
+
+  return { sql: sqlFn as any, calls, transactionCount: () => transactions };
+}
+
+let nextId = 0;
+
+/** A tool_use block at the given time */
+function toolUse(toolName: string, input: Record<string, unknown>, timestamp: string | null): FileAccessBlock {
+  return {
+    block_type: "tool_use",
+    tool_name: toolName,
+    tool_use_id: `toolu_${++nextId}`,
+    tool_input: input,
+    tool_result_id: null,
+    is_error: false,
+    timestamp,
+  };
+}
+
+/** A failed tool_result for a tool_use block */
+function failedResult(use: FileAccessBlock): FileAccessBlock {
+  return {
+    block_type: "tool_result",
+    tool_name: null,
+    tool_use_id: null,
+    tool_input: null,
+    tool_result_id: use.tool_use_id,
+    is_error: true,
+    timestamp: use.timestamp,
+  };
+}
+
+const STARTED = "2025-06-01T09:00:00.000Z";
+
+// ---------------------------------------------------------------------------
+// collectFileAccesses
+// ---------------------------------------------------------------------------
+
+describe("collectFileAccesses", () => {
+  test("classifies reads and writes and makes paths cwd-relative", () => {
+    const accesses = collectFileAccesses([
+      toolUse("Read", { file_path: "/repo/src/auth/middleware.ts" }, "2025-06-01T10:00:00.000Z"),
+      toolUse("Grep", { pattern: "token", path: "/repo/src/auth/" }, "2025-06-01T10:01:00.000Z"),
+      toolUse("Edit", { file_path: "/repo/src/auth/middleware.ts", old_string: "a", new_string: "b" }, "2025-06-01T10:02:00.000Z"),
+      toolUse("Write", { file_path: "/tmp/notes.md", content: "x" }, "2025-06-01T10:03:00.000Z"),
+      toolUse("Bash", { command: "cat /repo/README.md" }, "2025-06-01T10:04:00.000Z"),
+    ], "/repo", STARTED);
+
+    expect(accesses.map((a) => [a.path, a.tool_name, a.access])).toEqual([
+      ["src/auth/middleware.ts", "Read", "read"],
+      ["src/auth", "Grep", "read"],
+      ["src/auth/middleware.ts", "Edit", "write"],
+      ["/tmp/notes.md", "Write", "write"],
+    ]);
+  });
+
+  test("makes paths relative to the repo root when the session ran in a subdirectory", () => {
+    const accesses = collectFileAccesses([
+      toolUse("Edit", { file_path: "/repo/packages/api/src/a.ts" }, "2025-06-01T10:00:00.000Z"),
+      toolUse("Grep", { pattern: "x", path: "src" }, "2025-06-01T10:01:00.000Z"),
+      toolUse("Read", { file_path: "/repo/README.md" }, "2025-06-01T10:02:00.000Z"),
+      toolUse("Grep", { pattern: "y", path: "../.." }, "2025-06-01T10:03:00.000Z"),
+    ], "/repo/packages/api", STARTED, "/repo");
+
+    expect(accesses.map((a) => [a.path, a.tool_name])).toEqual([
+      ["packages/api/src/a.ts", "Edit"],
+      ["packages/api/src", "Grep"],
+      ["README.md", "Read"],
+      ["", "Grep"],
+    ]);
+  });
+
+  test("aggregates repeated calls with counts and first/last times", () => {
+    const [access] = collectFileAccesses([
+      toolUse("Edit", { file_path: "/repo/a.ts" }, "2025-06-01T10:05:00.000Z"),
+      toolUse("Edit", { file_path: "/repo/a.ts" }, "2025-06-01T10:01:00.000Z"),
+      toolUse("Edit", { file_path: "/repo/a.ts" }, null),
+    ], "/repo", STARTED);
+
+    expect(access).toEqual({
+      path: "a.ts",
+      access: "write",
+      tool_name: "Edit",
+      access_count: 3,
+      first_accessed_at: STARTED,
+      last_accessed_at: "2025-06-01T10:05:00.000Z",
+    });
+  });
+
+  test("skips failed calls and calls without a path", () => {
+    const failed = toolUse("Edit", { file_path: "/repo/a.ts" }, STARTED);
+    const accesses = collectFileAccesses([
+      failed,
+      failedResult(failed),
+      toolUse("Grep", { pattern: "x" }, STARTED),
+    ], "/repo", STARTED);
+
+    expect(accesses).toEqual([]);
+  });
+});
+
+describe("normalizeFilePath", () => {
+  test("strips ./, trailing and doubled slashes", () => {
+    expect(normalizeFilePath("./src//auth/")).toBe("src/auth");
+    expect(normalizeFilePath("src/a.ts")).toBe("src/a.ts");
+    expect(normalizeFilePath(".")).toBe("");
+    expect(normalizeFilePath("./")).toBe("");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// indexSessionFiles / indexCommitFiles
+// ---------------------------------------------------------------------------
+
+describe("indexSessionFiles", () => {
+  test("returns 0 for an unknown session", async () => {
+    const { sql, calls, transactionCount } = createMockSql([[]]);
+
+    expect(await indexSessionFiles(sql, "sess-missing")).toBe(0);
+    expect(calls).toHaveLength(1);
+    expect(transactionCount()).toBe(0);
+  });
+
+  test("replaces the session's rows inside one transaction", async () => {
+    const { sql, calls, transactionCount } = createMockSql([
+      [{ started_at: new Date(STARTED) }],
+      [
+        toolUse("Read", { file_path: "/repo/a.ts" }, "2025-06-01T10:00:00.000Z"),
+        toolUse("Edit", { file_path: "/repo/a.ts" }, "2025-06-01T10:01:00.000Z"),
+      ] as unknown as Record<string, unknown>[],
+      [{ cwd: "/repo" }],
+      [],
+    ]);
+
+    expect(await indexSessionFiles(sql, "sess-1")).toBe(2);
+    expect(transactionCount()).toBe(1);
+
+    const [, blocks, , del, ...inserts] = calls;
+    expect(blocks.strings.join("")).toContain("FROM content_blocks cb");
+    expect(blocks.values).toContainEqual(["Read", "Grep", "Edit", "MultiEdit", "Write"]);
+    expect(del.strings.join("")).toContain("DELETE FROM session_files");
+    expect(del.values).toEqual(["sess-1"]);
+
+    expect(inserts).toHaveLength(2);
+    expect(inserts[1].values).toEqual([
+      "sess-1", "a.ts", "write", "Edit", 1, "2025-06-01T10:01:00.000Z", "2025-06-01T10:01:00.000Z",
+    ]);
+  });
+
+  test("uses the git_root recorded at session.start", async () => {
+    const { sql, calls } = createMockSql([
+      [{ started_at: new Date(STARTED) }],
+      [toolUse("Edit", { file_path: "/repo/web/a.ts" }, "2025-06-01T10:00:00.000Z")] as unknown as Record<string, unknown>[],
+      [{ cwd: "/repo/web", git_root: "/repo" }],
+      [],
+    ]);
+
+    expect(await indexSessionFiles(sql, "sess-1")).toBe(1);
+
+    const [, , start, , insert] = calls;
+    expect(start.strings.join("")).toContain("git_root");
+    expect(insert.values[1]).toBe("web/a.ts");
+  });
+});
+
+describe("indexCommitFiles", () => {
+  test("inserts each distinct path once, ignoring conflicts", async () => {
+    const { sql, calls } = createMockSql([[]]);
+
+    await indexCommitFiles(sql, "git-1", [
+      { path: "src/a.ts", status: "M" },
+      { path: "./src/a.ts", status: "M" },
+      { path: "README.md", status: "A" },
+    ], "2025-06-01T11:00:00.000Z");
+
+    expect(calls.map((c) => c.values[1])).toEqual(["src/a.ts", "README.md"]);
+    expect(calls[0].strings.join("")).toContain("ON CONFLICT DO NOTHING");
+  });
+});
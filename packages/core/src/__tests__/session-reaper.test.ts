@@ -0,0 +1,261 @@
+/**
+ * Tests for the abandoned session reaper.
+ *
+ * Uses mock SQL to test the sweep without a real database:
+ *   - No candidates: nothing transitioned
+ *   - Dry run reports candidates without transitioning them
+ *   - Reaped sessions end with end_reason 'crash' at their last activity
+ *   - Sessions with an uploaded transcript advance to transcript_ready and enqueue
+ *   - A concurrent SessionEnd wins over the reaper
+ *   - Activity reports split closed sessions into upload / closed
+ *   - loadReaperConfig reads REAPER_* env vars
+ */
+
+import { describe, expect, test, afterEach } from "bun:test";
+import pino from "pino";
+import type { PipelineDeps } from "../session-pipeline.js";
+import {
+  reapAbandonedSessions,
+  recordTranscriptActivity,
+  loadReaperConfig,
+  DEFAULT_REAPER_CONFIG,
+} from "../session-reaper.js";
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const logger = pino({ level: "silent" });
+
+/** A captured SQL call — query text and interpolated values */
+interface SqlCall {
+  text: string;
+  values: unknown[];
+}
+
+/**
+ * Create a mock sql client. Tagged template calls and sql.unsafe (used by
+ * transitionSession) share one FIFO queue of result sets.
+ */
+function createMockSql(resultSets: unknown[][]) {
+  const calls: SqlCall[] = [];
+  const next = () => [...((resultSets.shift() ?? []) as unknown[])];
+
+  const sqlFn: any = (strings: TemplateStringsArray, ...values: unknown[]) => {
+    calls.push({ text: strings.join("$"), values });
+    return Promise.resolve(next());
+  };
+  sqlFn.unsafe = (text: string, values: unknown[]) => {
+    calls.push({ text, values });
+    return Promise.resolve(next());
+  };
+
+  return { sql: sqlFn, calls };
+}
+
+function makeDeps(sql: any) {
+  const enqueued: string[] = [];
+  const notified: Array<{ sessionId: string; lifecycle: string }> = [];
+  const deps = {
+    sql,
+    logger,
+    enqueueSession: (id: string) => enqueued.push(id),
+    notifier: {
+      sessionUpdated: (n: { sessionId: string; lifecycle: string }) => notified.push(n),
+    },
+  } as unknown as PipelineDeps;
+  return { deps, enqueued, notified };
+}
+
+const STARTED = "2026-01-10T10:00:00.000Z";
+const LAST_ACTIVITY = "2026-01-10T11:30:00.000Z";
+
+function candidate(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    workspace_id: "ws-1",
+    started_at: new Date(STARTED),
+    transcript_s3_key: null,
+    last_activity_at: new Date(LAST_ACTIVITY),
+    reason: "device_offline",
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// reapAbandonedSessions
+// ---------------------------------------------------------------------------
+
+describe("reapAbandonedSessions", () => {
+  test("returns an empty result when nothing is abandoned", async () => {
+    const { sql, calls } = createMockSql([[]]);
+    const { deps } = makeDeps(sql);
+
+    const result = await reapAbandonedSessions(sql, deps);
+
+    expect(result.found).toBe(0);
+    expect(result.reaped).toBe(0);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].text).toContain("lifecycle = 'detected'");
+  });
+
+  test("passes thresholds to the candidate query", async () => {
+    const { sql, calls } = createMockSql([[]]);
+    const { deps } = makeDeps(sql);
+
+    await reapAbandonedSessions(sql, deps, { idleMs: 60_000, offlineMs: 120_000, maxIdleMs: 3_600_000, limit: 7 });
+
+    expect(calls[0].values).toContain("60000 milliseconds");
+    expect(calls[0].values).toContain("120000 milliseconds");
+    expect(calls[0].values).toContain("3600000 milliseconds");
+    expect(calls[0].values).toContain(7);
+  });
+
+  test("dry run reports candidates without transitioning", async () => {
+    const { sql, calls } = createMockSql([[candidate("s-1"), candidate("s-2", { reason: "max_idle" })]]);
+    const { deps, notified } = makeDeps(sql);
+
+    const result = await reapAbandonedSessions(sql, deps, { dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.found).toBe(2);
+    expect(result.reaped).toBe(0);
+    expect(result.sessions.map((s) => s.reason)).toEqual(["device_offline", "max_idle"]);
+    expect(calls).toHaveLength(1);
+    expect(notified).toHaveLength(0);
+  });
+
+  test("ends abandoned sessions as crashed at their last activity", async () => {
+    const { sql, calls } = createMockSql([[candidate("s-1")], [{ lifecycle: "ended" }]]);
+    const { deps, enqueued, notified } = makeDeps(sql);
+
+    const result = await reapAbandonedSessions(sql, deps);
+
+    expect(result.reaped).toBe(1);
+    expect(result.reconciled).toBe(0);
+    expect(result.sessions[0]).toEqual({
+      sessionId: "s-1",
+      reason: "device_offline",
+      lastActivityAt: LAST_ACTIVITY,
+      next: "awaiting_transcript",
+    });
+    const update = calls[1];
+    expect(update.values).toContain("ended");
+    expect(update.values).toContain("crash");
+    expect(update.values).toContain(LAST_ACTIVITY);
+    expect(update.values).toContain(90 * 60_000);
+    expect(enqueued).toHaveLength(0);
+    expect(notified).toEqual([{ sessionId: "s-1", workspaceId: "ws-1", lifecycle: "ended" }] as any);
+  });
+
+  test("queues reconcile when the transcript is already uploaded", async () => {
+    const { sql } = createMockSql([
+      [candidate("s-1", { transcript_s3_key: "transcripts/ws/s-1/raw.jsonl" })],
+      [{ lifecycle: "ended" }],
+      [{ lifecycle: "transcript_ready" }],
+    ]);
+    const { deps, enqueued } = makeDeps(sql);
+
+    const result = await reapAbandonedSessions(sql, deps);
+
+    expect(result.reaped).toBe(1);
+    expect(result.reconciled).toBe(1);
+    expect(result.sessions[0].next).toBe("reconcile");
+    expect(enqueued).toEqual(["s-1"]);
+  });
+
+  test("skips sessions that ended concurrently", async () => {
+    // Transition UPDATE matches nothing; diagnostic lookup finds 'ended'
+    const { sql } = createMockSql([[candidate("s-1")], [], [{ lifecycle: "ended" }]]);
+    const { deps, notified } = makeDeps(sql);
+
+    const result = await reapAbandonedSessions(sql, deps);
+
+    expect(result.found).toBe(1);
+    expect(result.reaped).toBe(0);
+    expect(result.sessions).toHaveLength(0);
+    expect(result.errors).toHaveLength(0);
+    expect(notified).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// recordTranscriptActivity
+// ---------------------------------------------------------------------------
+
+describe("recordTranscriptActivity", () => {
+  test("updates mtimes and splits closed sessions by transcript state", async () => {
+    const { sql, calls } = createMockSql([
+      [{ id: "s-open" }],
+      [],
+      [],
+      [
+        { id: "s-crashed", transcript_s3_key: null },
+        { id: "s-done", transcript_s3_key: "transcripts/ws/s-done/raw.jsonl" },
+      ],
+    ]);
+    const mtime = "2026-01-10T12:00:00.000Z";
+
+    const result = await recordTranscriptActivity(sql, [
+      { id: "s-open", transcript_mtime: mtime },
+      { id: "s-crashed", transcript_mtime: mtime },
+      { id: "s-done", transcript_mtime: mtime },
+    ]);
+
+    expect(result).toEqual({ updated: 1, upload: ["s-crashed"], closed: ["s-done"] });
+    expect(calls[0].text).toContain("GREATEST(transcript_mtime");
+    expect(calls[0].values).toEqual([mtime, "s-open"]);
+  });
+
+  test("does nothing for an empty report", async () => {
+    const { sql, calls } = createMockSql([]);
+
+    const result = await recordTranscriptActivity(sql, []);
+
+    expect(result).toEqual({ updated: 0, upload: [], closed: [] });
+    expect(calls).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// loadReaperConfig
+// ---------------------------------------------------------------------------
+
+describe("loadReaperConfig", () => {
+  const KEYS = [
+    "REAPER_ENABLED",
+    "REAPER_IDLE_MINUTES",
+    "REAPER_OFFLINE_MINUTES",
+    "REAPER_MAX_IDLE_HOURS",
+    "REAPER_BATCH_SIZE",
+  ];
+  const saved = Object.fromEntries(KEYS.map((k) => [k, process.env[k]]));
+
+  afterEach(() => {
+    for (const k of KEYS) {
+      if (saved[k] === undefined) delete process.env[k];
+      else process.env[k] = saved[k];
+    }
+  });
+
+  test("uses defaults when unset", () => {
+    for (const k of KEYS) delete process.env[k];
+    expect(loadReaperConfig()).toEqual(DEFAULT_REAPER_CONFIG);
+  });
+
+  test("reads overrides and ignores invalid values", () => {
+    process.env.REAPER_ENABLED = "false";
+    process.env.REAPER_IDLE_MINUTES = "45";
+    process.env.REAPER_OFFLINE_MINUTES = "abc";
+    process.env.REAPER_MAX_IDLE_HOURS = "6";
+    process.env.REAPER_BATCH_SIZE = "10";
+
+    expect(loadReaperConfig()).toEqual({
+      enabled: false,
+      idleMs: 45 * 60_000,
+      offlineMs: DEFAULT_REAPER_CONFIG.offlineMs,
+      maxIdleMs: 6 * 3_600_000,
+      limit: 10,
+    });
+  });
+});
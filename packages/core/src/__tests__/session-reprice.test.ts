@@ -0,0 +1,165 @@
+/**
+ * Tests for session repricing.
+ *
+ * Uses mock SQL to test repriceSession without a real database:
+ *   - Skips missing, not-yet-parsed, and archived sessions
+ *   - Recomputes per-message costs with the model-aware registry
+ *   - Excludes subagent messages from the session total and breakdown
+ *   - Writes message and session updates inside one transaction
+ *   - Refreshes the session's day in the daily_usage rollup
+ */
+
+import { describe, expect, test } from "bun:test";
+import { PRICING_VERSION } from "@fuel-code/shared";
+import { repriceSession } from "../session-reprice.js";
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+/** A captured SQL call — template strings and interpolated values */
+interface SqlCall {
+  strings: string[];
+  values: unknown[];
+}
+
+/**
+ * Create a mock sql tagged template function.
+ * Returns result sets in FIFO order; sql.begin passes the same mock as `tx`.
+ */
+function createMockSql(resultSets: Record<string, unknown>[][]) {
+  const calls: SqlCall[] = [];
+  let callIndex = 0;
+  let transactions = 0;
+
+  const sqlFn = (strings: TemplateStringsArray, ...values: unknown[]) => {
+    calls.push({ strings: [...strings], values });
+    const idx = Math.min(callIndex, resultSets.length - 1);
+    callIndex++;
+    return Promise.resolve(resultSets[idx] ?? []);
+  };
+
+  sqlFn.begin = async (cb: (tx: any) => Promise<void>) => {
+    transactions++;
+    await cb(sqlFn);
+  };
+
+  return { sql: sqlFn as any, calls, transactionCount: () => transactions };
+}
+
+/** Build an assistant transcript_messages row as returned by the reprice query */
+function makeMessageRow(overrides: Record<string, unknown>) {
+  return {
+    id: "msg-1",
+    model: "claude-sonnet-4-5-20250929",
+    subagent_id: null,
+    tokens_in: 0,
+    tokens_out: 0,
+    cache_read: 0,
+    cache_write: 0,
+    cache_write_1h: null,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// repriceSession
+// ---------------------------------------------------------------------------
+
+describe("repriceSession", () => {
+  test("returns not_found when the session does not exist", async () => {
+    const { sql, calls } = createMockSql([[]]);
+
+    const result = await repriceSession(sql, "sess-missing");
+
+    expect(result.repriced).toBe(false);
+    expect(result.reason).toBe("not_found");
+    expect(calls).toHaveLength(1);
+  });
+
+  test("returns not_parsed for sessions without transcript messages", async () => {
+    const { sql, calls } = createMockSql([[{ lifecycle: "ended", cost_estimate_usd: null }]]);
+
+    const result = await repriceSession(sql, "sess-1");
+
+    expect(result.repriced).toBe(false);
+    expect(result.reason).toBe("not_parsed");
+    expect(calls).toHaveLength(1);
+  });
+
+  test("returns archived for sessions whose parsed rows were archived", async () => {
+    const { sql, calls } = createMockSql([
+      [{ lifecycle: "complete", cost_estimate_usd: "1.25", archived_at: "2025-01-01T00:00:00Z" }],
+    ]);
+
+    const result = await repriceSession(sql, "sess-1");
+
+    expect(result.repriced).toBe(false);
+    expect(result.reason).toBe("archived");
+    expect(result.costUsd).toBe(1.25);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("recomputes message costs and the session total from persisted tokens", async () => {
+    const { sql, calls, transactionCount } = createMockSql([
+      [{ lifecycle: "summarized", cost_estimate_usd: "0.0500" }],
+      [
+        // Opus 4.1: 1M output = $75
+        makeMessageRow({ id: "m-opus", model: "claude-opus-4-1-20250805", tokens_out: 1_000_000 }),
+        // Sonnet: 100K cache writes, 25K of them 1h → 0.28125 + 0.15 = $0.43125
+        makeMessageRow({ id: "m-sonnet", cache_write: 100_000, cache_write_1h: 25_000 }),
+        // Subagent message: repriced but excluded from the session total
+        makeMessageRow({ id: "m-sub", subagent_id: "sa-1", tokens_in: 100_000 }),
+      ],
+      [],
+      [],
+    ]);
+
+    const result = await repriceSession(sql, "sess-1");
+
+    expect(result.repriced).toBe(true);
+    expect(result.messagesRepriced).toBe(3);
+    expect(result.previousCostUsd).toBeCloseTo(0.05, 6);
+    expect(result.costUsd).toBeCloseTo(75.43125, 6);
+    expect(result.pricingVersion).toBe(PRICING_VERSION);
+    expect(transactionCount()).toBe(1);
+
+    // Message update: one batched statement carrying every row's new cost
+    const messageUpdate = calls[2];
+    expect(messageUpdate.strings.join("")).toContain("UPDATE transcript_messages");
+    const updates = JSON.parse(messageUpdate.values[0] as string);
+    expect(updates).toHaveLength(3);
+    expect(updates.find((u: any) => u.i === "m-opus").c).toBeCloseTo(75, 6);
+    expect(updates.find((u: any) => u.i === "m-sub").c).toBeCloseTo(0.3, 6);
+
+    // Session update: total and breakdown exclude the subagent row
+    const sessionUpdate = calls[3];
+    expect(sessionUpdate.strings.join("")).toContain("UPDATE sessions");
+    expect(sessionUpdate.values[0]).toBeCloseTo(75.43125, 6);
+    const breakdown = JSON.parse(sessionUpdate.values[1] as string);
+    expect(breakdown.pricing_version).toBe(PRICING_VERSION);
+    expect(Object.keys(breakdown.models).sort()).toEqual([
+      "claude-opus-4-1-20250805",
+      "claude-sonnet-4-5-20250929",
+    ]);
+    expect(sessionUpdate.values[2]).toBe("sess-1");
+  });
+
+  test("skips the message update when the session has no assistant messages", async () => {
+    const { sql, calls } = createMockSql([
+      [{ lifecycle: "parsed", cost_estimate_usd: null }],
+      [],
+      [],
+    ]);
+
+    const result = await repriceSession(sql, "sess-1");
+
+    expect(result.repriced).toBe(true);
+    expect(result.messagesRepriced).toBe(0);
+    expect(result.costUsd).toBe(0);
+    expect(calls).toHaveLength(4);
+    expect(calls[2].strings.join("")).toContain("UPDATE sessions");
+    // Rollup refresh looks the session up (the mock returns no row, so it stops there)
+    expect(calls[3].strings.join("")).toContain("SELECT workspace_id, device_id, started_at");
+  });
+});
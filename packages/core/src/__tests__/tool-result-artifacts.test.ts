@@ -0,0 +1,96 @@
+/**
+ * Tests for tool result artifact uploads.
+ *
+ * Parses small transcripts with a low inline limit so tool results overflow,
+ * then uploads through a mock S3 client:
+ *   - Text artifacts are uploaded under artifacts/{sessionId}/{toolUseId}.txt
+ *   - Base64 images are decoded to raw bytes before upload
+ *   - Failed uploads leave result_s3_key null and don't throw
+ */
+
+import { describe, expect, test } from "bun:test";
+import pino from "pino";
+import { parseTranscript } from "../transcript-parser.js";
+import { uploadToolResultArtifacts } from "../tool-result-artifacts.js";
+
+const logger = pino({ level: "silent" });
+
+/** A captured upload */
+interface Upload {
+  key: string;
+  body: Buffer | string;
+  contentType?: string;
+}
+
+function createMockS3(opts: { fail?: boolean } = {}) {
+  const uploads: Upload[] = [];
+  return {
+    uploads,
+    async upload(key: string, body: Buffer | string, contentType?: string) {
+      if (opts.fail) throw new Error("bucket unavailable");
+      uploads.push({ key, body, contentType });
+    },
+  };
+}
+
+/** A one-line transcript whose only content is a tool result */
+function toolResultTranscript(toolUseId: string, content: unknown): string {
+  return JSON.stringify({
+    type: "user",
+    timestamp: "2025-05-10T10:00:00.000Z",
+    message: {
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: toolUseId, content }],
+    },
+  });
+}
+
+describe("uploadToolResultArtifacts", () => {
+  test("uploads text artifacts and sets result_s3_key", async () => {
+    const output = "test output\n".repeat(40);
+    const result = await parseTranscript("sess_1", toolResultTranscript("toolu_log", output), {
+      maxInlineContentBytes: 100,
+    });
+    const s3 = createMockS3();
+
+    const uploaded = await uploadToolResultArtifacts(s3, "sess_1", result, logger);
+
+    expect(uploaded).toBe(1);
+    expect(s3.uploads).toEqual([
+      { key: "artifacts/sess_1/toolu_log.txt", body: output, contentType: "text/plain; charset=utf-8" },
+    ]);
+    const block = result.contentBlocks.find((b) => b.block_type === "tool_result")!;
+    expect(block.result_s3_key).toBe("artifacts/sess_1/toolu_log.txt");
+  });
+
+  test("decodes base64 images before uploading", async () => {
+    const bytes = Buffer.alloc(300, 7);
+    const content = [
+      { type: "image", source: { type: "base64", media_type: "image/png", data: bytes.toString("base64") } },
+    ];
+    const result = await parseTranscript("sess_1", toolResultTranscript("toolu_img", content), {
+      maxInlineContentBytes: 100,
+    });
+    const s3 = createMockS3();
+
+    await uploadToolResultArtifacts(s3, "sess_1", result, logger);
+
+    expect(s3.uploads[0].key).toBe("artifacts/sess_1/toolu_img.png");
+    expect(s3.uploads[0].contentType).toBe("image/png");
+    expect(Buffer.isBuffer(s3.uploads[0].body)).toBe(true);
+    expect((s3.uploads[0].body as Buffer).equals(bytes)).toBe(true);
+  });
+
+  test("keeps the truncated preview when the upload fails", async () => {
+    const result = await parseTranscript("sess_1", toolResultTranscript("toolu_log", "x".repeat(500)), {
+      maxInlineContentBytes: 100,
+    });
+
+    const uploaded = await uploadToolResultArtifacts(createMockS3({ fail: true }), "sess_1", result, logger);
+
+    expect(uploaded).toBe(0);
+    const block = result.contentBlocks.find((b) => b.block_type === "tool_result")!;
+    expect(block.result_s3_key).toBeNull();
+    expect(block.metadata.truncated).toBe(true);
+  });
+});
@@ -264,6 +264,57 @@ describe("parseTranscript", () => {
     expect(result.stats.cost_estimate_usd).toBeCloseTo(0.06525, 3);
   });
 
+  test("cost is priced per message model and 1h cache writes", async () => {
+    // Opus 4.1: input $15, output $75, cache_read $1.50, 5m write $18.75, 1h write $30
+    // 1000 input = 0.015, 1000 output = 0.075, 400 5m writes = 0.0075, 600 1h writes = 0.018
+    // Total = 0.1155
+    const input = jsonl(
+      {
+        type: "assistant",
+        timestamp: "2025-05-10T10:00:00.000Z",
+        message: {
+          role: "assistant",
+          model: "claude-opus-4-1-20250805",
+          id: "msg_opus",
+          content: [{ type: "text", text: "Done." }],
+          usage: {
+            input_tokens: 1000,
+            output_tokens: 1000,
+            cache_creation_input_tokens: 1000,
+            cache_creation: { ephemeral_5m_input_tokens: 400, ephemeral_1h_input_tokens: 600 },
+          },
+        },
+      },
+      {
+        type: "assistant",
+        timestamp: "2025-05-10T10:00:05.000Z",
+        message: {
+          role: "assistant",
+          model: "claude-haiku-4-5-20251001",
+          id: "msg_haiku",
+          content: [{ type: "text", text: "Also done." }],
+          usage: { input_tokens: 1000, output_tokens: 1000 },
+        },
+      },
+    );
+
+    const result = await parseTranscript("sess_1", input);
+
+    expect(result.messages[0].cost_usd).toBeCloseTo(0.1155, 6);
+    // Haiku 4.5: input $1, output $5 → 0.001 + 0.005
+    expect(result.messages[1].cost_usd).toBeCloseTo(0.006, 6);
+    expect(result.stats.cost_estimate_usd).toBeCloseTo(0.1215, 6);
+
+    const breakdown = result.stats.cost_breakdown;
+    expect(Object.keys(breakdown.models).sort()).toEqual([
+      "claude-haiku-4-5-20251001",
+      "claude-opus-4-1-20250805",
+    ]);
+    expect(breakdown.models["claude-opus-4-1-20250805"].messages).toBe(1);
+    expect(breakdown.models["claude-opus-4-1-20250805"].cache_write_tokens).toBe(1000);
+    expect(breakdown.models["claude-haiku-4-5-20251001"].cost_usd).toBeCloseTo(0.006, 6);
+  });
+
   // ---------------------------------------------------------------------------
   // 6. Empty transcript
   // ---------------------------------------------------------------------------
@@ -367,6 +418,74 @@ describe("parseTranscript", () => {
     expect(block!.metadata.original_byte_length).toBe(500);
   });
 
+  test("truncated tool result keeps its full content as an artifact", async () => {
+    const largeContent = "log line\n".repeat(50);
+    const input = jsonl({
+      type: "user",
+      timestamp: "2025-05-10T10:00:00.000Z",
+      message: {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "toolu_log", content: largeContent }],
+      },
+    });
+
+    const result = await parseTranscript("sess_1", input, { maxInlineContentBytes: 100 });
+    const block = result.contentBlocks.find((b) => b.block_type === "tool_result")!;
+
+    expect(result.artifacts).toHaveLength(1);
+    expect(result.artifacts![0]).toMatchObject({
+      block_id: block.id,
+      artifact_id: "toolu_log",
+      content: largeContent,
+      encoding: "utf-8",
+      ext: "txt",
+      byte_length: largeContent.length,
+    });
+    expect(block.metadata.artifact_content_type).toBe("text/plain");
+  });
+
+  test("oversized base64 image result becomes a binary artifact with a placeholder", async () => {
+    const data = Buffer.alloc(300, 7).toString("base64");
+    const input = jsonl({
+      type: "user",
+      timestamp: "2025-05-10T10:00:00.000Z",
+      message: {
+        role: "user",
+        content: [{
+          type: "tool_result",
+          tool_use_id: "toolu_img",
+          content: [{ type: "image", source: { type: "base64", media_type: "image/png", data } }],
+        }],
+      },
+    });
+
+    const result = await parseTranscript("sess_1", input, { maxInlineContentBytes: 100 });
+    const block = result.contentBlocks.find((b) => b.block_type === "tool_result")!;
+
+    expect(result.artifacts![0]).toMatchObject({
+      encoding: "base64",
+      content: data,
+      content_type: "image/png",
+      ext: "png",
+      byte_length: 300,
+    });
+    expect(block.result_text).toBe("[image: image/png, 300 bytes]");
+  });
+
+  test("tool results within the inline limit produce no artifacts", async () => {
+    const input = jsonl({
+      type: "user",
+      timestamp: "2025-05-10T10:00:00.000Z",
+      message: {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "toolu_small", content: "ok" }],
+      },
+    });
+
+    const result = await parseTranscript("sess_1", input);
+    expect(result.artifacts).toEqual([]);
+  });
+
   // ---------------------------------------------------------------------------
   // 10. Initial prompt extraction
   // ---------------------------------------------------------------------------
@@ -1038,6 +1157,45 @@ describe("parseTranscript", () => {
     expect(result.permission_mode).toBe("bypassPermissions");
   });
 
+  test("compact_boundary lines start a new compact_sequence and mark earlier messages compacted", async () => {
+    const input = jsonl(
+      {
+        type: "user",
+        timestamp: "2025-05-10T10:00:00.000Z",
+        message: { role: "user", content: "Refactor the parser" },
+      },
+      {
+        type: "system",
+        subtype: "compact_boundary",
+        timestamp: "2025-05-10T11:00:00.000Z",
+        content: "Conversation compacted",
+        compactMetadata: { trigger: "auto", preTokens: 155000 },
+      },
+      {
+        type: "user",
+        timestamp: "2025-05-10T11:00:01.000Z",
+        isCompactSummary: true,
+        message: { role: "user", content: "This session is being continued..." },
+      },
+      {
+        type: "user",
+        timestamp: "2025-05-10T11:00:05.000Z",
+        message: { role: "user", content: "Keep going" },
+      },
+    );
+
+    const result = await parseTranscript("sess_1", input);
+
+    expect(result.messages.map((m) => m.compact_sequence)).toEqual([0, 1, 1, 1]);
+    expect(result.messages.map((m) => m.is_compacted)).toEqual([true, false, false, false]);
+    expect(result.messages[1].metadata).toEqual({
+      compact_boundary: true,
+      compact_trigger: "auto",
+      pre_tokens: 155000,
+    });
+    expect(result.messages[2].metadata).toEqual({ compact_summary: true });
+  });
+
   test("permission_mode is undefined when not in transcript", async () => {
     const input = jsonl({
       type: "user",
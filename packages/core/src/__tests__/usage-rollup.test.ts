@@ -0,0 +1,132 @@
+/**
+ * Tests for the daily usage rollup.
+ *
+ * Uses mock SQL to verify refreshDailyUsage without a real database:
+ *   - No-op for unknown sessions
+ *   - Recomputes exactly the session's (UTC day, workspace, device) key,
+ *     deleting stale rows before re-aggregating, inside one transaction
+ *   - refreshDailyUsageForSessions refreshes each distinct session once
+ *   - rebuildWorkspaceUsage replaces every row of the given workspaces
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  refreshDailyUsage,
+  refreshDailyUsageForSessions,
+  rebuildWorkspaceUsage,
+} from "../usage-rollup.js";
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+/** A captured SQL call — template strings and interpolated values */
+interface SqlCall {
+  strings: string[];
+  values: unknown[];
+}
+
+/**
+ * Create a mock sql tagged template function.
+ * Returns result sets in FIFO order; sql.begin passes the same mock as `tx`.
+ * Non-template calls (tx(array) identifier/list helpers) return their argument.
+ */
+function createMockSql(resultSets: Record<string, unknown>[][]) {
+  const calls: SqlCall[] = [];
+  let callIndex = 0;
+  let transactions = 0;
+
+  const sqlFn = (strings: TemplateStringsArray | unknown, ...values: unknown[]) => {
+    if (!Array.isArray(strings) || !("raw" in strings)) return strings;
+    calls.push({ strings: [...strings], values });
+    const idx = Math.min(callIndex, resultSets.length - 1);
+    callIndex++;
+    return Promise.resolve(resultSets[idx] ?? []);
+  };
+
+  sqlFn.begin = async (cb: (tx: any) => Promise<void>) => {
+    transactions++;
+    await cb(sqlFn);
+  };
+
+  return { sql: sqlFn as any, calls, transactionCount: () => transactions };
+}
+
+// ---------------------------------------------------------------------------
+// refreshDailyUsage
+// ---------------------------------------------------------------------------
+
+describe("refreshDailyUsage", () => {
+  test("returns false for an unknown session", async () => {
+    const { sql, calls, transactionCount } = createMockSql([[]]);
+
+    expect(await refreshDailyUsage(sql, "sess-missing")).toBe(false);
+    expect(calls).toHaveLength(1);
+    expect(transactionCount()).toBe(0);
+  });
+
+  test("recomputes the session's UTC day for its workspace and device", async () => {
+    const { sql, calls, transactionCount } = createMockSql([
+      [{ workspace_id: "ws-1", device_id: "dev-1", started_at: new Date("2025-03-09T23:30:00-05:00") }],
+      [],
+      [],
+    ]);
+
+    expect(await refreshDailyUsage(sql, "sess-1")).toBe(true);
+    expect(transactionCount()).toBe(1);
+    expect(calls).toHaveLength(3);
+
+    // 23:30 EST is 04:30 UTC the next day
+    const [, del, insert] = calls;
+    expect(del.strings.join("")).toContain("DELETE FROM daily_usage");
+    expect(del.values).toEqual(["2025-03-10", "ws-1", "dev-1"]);
+
+    expect(insert.strings.join("")).toContain("INSERT INTO daily_usage");
+    expect(insert.strings.join("")).toContain("ON CONFLICT (day, workspace_id, device_id, model)");
+    expect(insert.values).toContain("2025-03-10T00:00:00.000Z");
+    expect(insert.values).toContain("2025-03-11T00:00:00.000Z");
+    expect(insert.values).toContainEqual(["parsed", "summarized", "complete"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// refreshDailyUsageForSessions
+// ---------------------------------------------------------------------------
+
+describe("refreshDailyUsageForSessions", () => {
+  test("refreshes each distinct session once and skips nulls", async () => {
+    const { sql, calls } = createMockSql([[]]);
+
+    await refreshDailyUsageForSessions(sql, ["sess-1", null, "sess-2", "sess-1", undefined]);
+
+    expect(calls.map((c) => c.values)).toEqual([["sess-1"], ["sess-2"]]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// rebuildWorkspaceUsage
+// ---------------------------------------------------------------------------
+
+describe("rebuildWorkspaceUsage", () => {
+  test("is a no-op without workspaces", async () => {
+    const { sql, calls } = createMockSql([[]]);
+
+    await rebuildWorkspaceUsage(sql, []);
+    expect(calls).toHaveLength(0);
+  });
+
+  test("deletes and re-aggregates all rows of the given workspaces", async () => {
+    const { sql, calls } = createMockSql([[], []]);
+
+    await rebuildWorkspaceUsage(sql, ["ws-1", "ws-2"]);
+    expect(calls).toHaveLength(2);
+
+    const [del, insert] = calls;
+    expect(del.strings.join("")).toContain("DELETE FROM daily_usage");
+    expect(del.values).toEqual([["ws-1", "ws-2"]]);
+
+    expect(insert.strings.join("")).toContain("INSERT INTO daily_usage");
+    expect(insert.values).toContainEqual(["ws-1", "ws-2"]);
+    expect(insert.values).toContainEqual(["parsed", "summarized", "complete"]);
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Tests for the outbound webhook dispatcher.
+ *
+ * Deliveries go over real HTTP to a local Bun.serve() receiver that checks
+ * the signature headers. The database is a small in-memory stand-in that
+ * answers the dispatcher's queries by matching their text:
+ *   - webhookBackoffMs: doubling and cap
+ *   - enqueue: event-type and workspace matching, replay dedup, lazy data
+ *   - deliverDue: signed POSTs, success, retry with backoff, final failure,
+ *     network errors, no duplicates across instances with a slow receiver
+ *   - eventProcessed / sessionUpdated: fire-and-forget end to end, workspace
+ *     scoping by the resolved ULID
+ *   - sendTest: immediate delivery regardless of filters
+ */
+
+import { describe, expect, test, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "bun";
+import pino from "pino";
+import { verifyWebhookSignature, type Event } from "@fuel-code/shared";
+import { createWebhookDispatcher, webhookBackoffMs } from "../webhooks.js";
+
+const logger = pino({ level: "silent" });
+
+const SECRET = "whsec_0123456789abcdef";
+const WORKSPACE_ID = "01JWORKSPACE00000000000000";
+/** What ingested events carry in workspace_id (resolve-workspace.sh output) */
+const CANONICAL_WORKSPACE = "github.com/acme/api";
+
+// ---------------------------------------------------------------------------
+// Local receiver
+// ---------------------------------------------------------------------------
+
+interface Received {
+  headers: Record<string, string>;
+  body: any;
+  verified: boolean;
+}
+
+let receiver: Server;
+let received: Received[] = [];
+/** Status codes to answer with, in order; 200 once exhausted */
+let responses: number[] = [];
+/** How long the receiver takes to answer each request */
+let responseDelayMs = 0;
+
+beforeAll(() => {
+  receiver = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const raw = await req.text();
+      received.push({
+        headers: Object.fromEntries(req.headers.entries()),
+        body: JSON.parse(raw),
+        verified: verifyWebhookSignature(
+          SECRET,
+          raw,
+          req.headers.get("x-fuel-code-timestamp"),
+          req.headers.get("x-fuel-code-signature"),
+        ),
+      });
+      const status = responses.shift() ?? 200;
+      if (responseDelayMs > 0) await new Promise((r) => setTimeout(r, responseDelayMs));
+      return new Response(status === 200 ? "ok" : "receiver error", { status });
+    },
+  });
+});
+
+afterAll(() => {
+  receiver.stop();
+});
+
+beforeEach(() => {
+  received = [];
+  responses = [];
+  responseDelayMs = 0;
+});
+
+const receiverUrl = () => `http://localhost:${receiver.port}/hook`;
+
+// ---------------------------------------------------------------------------
+// In-memory database
+// ---------------------------------------------------------------------------
+
+interface FakeDelivery {
+  id: string;
+  webhook_id: string;
+  event_type: string;
+  event_id: string | null;
+  payload: any;
+  status: string;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+}
+
+/**
+ * A sql tagged template backed by arrays of webhooks and deliveries.
+ * Only the statements the dispatcher issues are understood.
+ */
+function createFakeDb(webhooks: Array<{ id: string; url: string; event_types: string[]; workspace_id: string | null }>) {
+  const deliveries: FakeDelivery[] = [];
+  const commits = [{ commit_sha: "abc1234", message: "Fix auth", branch: "main" }];
+
+  const sql: any = async (strings: TemplateStringsArray, ...values: any[]) => {
+    const text = strings.join("$");
+
+    if (text.includes("SELECT id, event_types FROM webhooks")) {
+      const [workspaceId] = values;
+      return webhooks.filter((w) => w.workspace_id === null || w.workspace_id === workspaceId);
+    }
+    if (text.includes("SELECT id, url, secret FROM webhooks")) {
+      return webhooks.filter((w) => w.id === values[0]).map((w) => ({ ...w, secret: SECRET }));
+    }
+    if (text.includes("INSERT INTO webhook_deliveries")) {
+      const isTest = !text.includes("event_id");
+      const [id, webhookId, eventType, ...rest] = values;
+      const eventId = isTest ? null : rest[0];
+      const payload = JSON.parse(isTest ? rest[0] : rest[1]);
+      if (eventId && deliveries.some((d) => d.webhook_id === webhookId && d.event_id === eventId)) return [];
+      deliveries.push({
+        id, webhook_id: webhookId, event_type: eventType, event_id: eventId, payload,
+        status: "pending", attempts: 0, next_attempt_at: isTest ? null : new Date(0).toISOString(),
+        last_status_code: null, last_error: null,
+      });
+      return [{ id }];
+    }
+    if (text.includes("FOR UPDATE SKIP LOCKED")) {
+      const [leaseUntil, limit] = values;
+      const now = Date.now();
+      const due = deliveries
+        .filter((d) => d.status === "pending" && d.next_attempt_at !== null && new Date(d.next_attempt_at).getTime() <= now)
+        .slice(0, limit);
+      for (const d of due) d.next_attempt_at = leaseUntil;
+      return due.map((d) => ({ ...d, url: webhooks.find((w) => w.id === d.webhook_id)!.url, secret: SECRET }));
+    }
+    if (text.includes("SET status = 'succeeded'")) {
+      const [attempts, statusCode, id] = values;
+      Object.assign(deliveries.find((d) => d.id === id)!, {
+        status: "succeeded", attempts, next_attempt_at: null, last_status_code: statusCode, last_error: null,
+      });
+      return [];
+    }
+    if (text.includes("UPDATE webhook_deliveries")) {
+      const [status, attempts, nextAttemptAt, statusCode, error, id] = values;
+      Object.assign(deliveries.find((d) => d.id === id)!, {
+        status, attempts, next_attempt_at: nextAttemptAt, last_status_code: statusCode, last_error: error,
+      });
+      return [];
+    }
+    if (text.includes("SELECT * FROM webhook_deliveries")) {
+      return deliveries.filter((d) => d.id === values[0]);
+    }
+    if (text.includes("FROM git_activity")) {
+      return commits;
+    }
+    throw new Error(`Unexpected query: ${text}`);
+  };
+
+  return { sql, deliveries };
+}
+
+/** Make every delivery due now (skipping the backoff wait) */
+function makeDue(deliveries: FakeDelivery[]): void {
+  for (const d of deliveries) if (d.status === "pending") d.next_attempt_at = new Date(0).toISOString();
+}
+
+/** Wait until the condition holds (fire-and-forget paths) */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error("Timed out waiting");
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+function makeEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    id: "01JEVENT000000000000000001",
+    type: "session.end",
+    timestamp: "2025-06-01T10:00:00.000Z",
+    device_id: "dev-1",
+    workspace_id: CANONICAL_WORKSPACE,
+    session_id: "sess-1",
+    data: { end_reason: "exit" },
+    ingested_at: null,
+    blob_refs: [],
+    ...overrides,
+  } as Event;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("webhookBackoffMs", () => {
+  test("doubles from the base delay and caps at the maximum", () => {
+    const opts = { baseDelayMs: 1000, maxDelayMs: 5000 };
+    expect([1, 2, 3, 4].map((n) => webhookBackoffMs(n, opts))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
+
+describe("enqueue", () => {
+  test("records one delivery per matching webhook, once per event", async () => {
+    const { sql, deliveries } = createFakeDb([
+      { id: "wh-all", url: receiverUrl(), event_types: [], workspace_id: null },
+      { id: "wh-git", url: receiverUrl(), event_types: ["git.*"], workspace_id: null },
+      { id: "wh-other-ws", url: receiverUrl(), event_types: [], workspace_id: "01JOTHER0000000000000000000" },
+    ]);
+    const dispatcher = createWebhookDispatcher({ sql, logger });
+    const input = {
+      eventType: "session.end",
+      eventId: "evt-1",
+      workspaceId: WORKSPACE_ID,
+      sessionId: "sess-1",
+      timestamp: "2025-06-01T10:00:00.000Z",
+      data: { hello: "world" },
+    };
+
+    const ids = await dispatcher.enqueue(input);
+    expect(ids).toHaveLength(1);
+    expect(deliveries[0]).toMatchObject({ webhook_id: "wh-all", event_type: "session.end", status: "pending" });
+    expect(deliveries[0].payload).toEqual({
+      id: ids[0],
+      type: "session.end",
+      workspace_id: WORKSPACE_ID,
+      session_id: "sess-1",
+      timestamp: "2025-06-01T10:00:00.000Z",
+      data: { hello: "world" },
+    });
+
+    expect(await dispatcher.enqueue(input)).toEqual([]);
+  });
+
+  test("only builds lazy data when a webhook matches", async () => {
+    const { sql } = createFakeDb([{ id: "wh-git", url: receiverUrl(), event_types: ["git.*"], workspace_id: null }]);
+    const dispatcher = createWebhookDispatcher({ sql, logger });
+    let built = 0;
+
+    await dispatcher.enqueue({
+      eventType: "session.end", eventId: null, workspaceId: null, sessionId: null,
+      timestamp: "2025-06-01T10:00:00.000Z", data: async () => ++built,
+    });
+    expect(built).toBe(0);
+  });
+});
+
+describe("deliverDue", () => {
+  test("POSTs a signed payload and marks it succeeded", async () => {
+    const { sql, deliveries } = createFakeDb([{ id: "wh-1", url: receiverUrl(), event_types: [], workspace_id: null }]);
+    const dispatcher = createWebhookDispatcher({ sql, logger });
+    const [id] = await dispatcher.enqueue({
+      eventType: "git.commit", eventId: "evt-2", workspaceId: WORKSPACE_ID, sessionId: null,
+      timestamp: "2025-06-01T10:00:00.000Z", data: { sha: "abc" },
+    });
+
+    const result = await dispatcher.deliverDue();
+
+    expect(result).toEqual({ attempted: 1, succeeded: 1, retrying: 0, failed: 0 });
+    expect(received).toHaveLength(1);
+    expect(received[0].verified).toBe(true);
+    expect(received[0].headers["x-fuel-code-event"]).toBe("git.commit");
+    expect(received[0].headers["x-fuel-code-delivery"]).toBe(id);
+    expect(received[0].body.data).toEqual({ sha: "abc" });
+    expect(deliveries[0]).toMatchObject({ status: "succeeded", attempts: 1, last_status_code: 200, next_attempt_at: null });
+  });
+
+  test("retries failures with backoff, then gives up", async () => {
+    const { sql, deliveries } = createFakeDb([{ id: "wh-1", url: receiverUrl(), event_types: [], workspace_id: null }]);
+    const dispatcher = createWebhookDispatcher({ sql, logger }, { maxAttempts: 2, baseDelayMs: 60_000 });
+    await dispatcher.enqueue({
+      eventType: "session.end", eventId: "evt-3", workspaceId: null, sessionId: null,
+      timestamp: "2025-06-01T10:00:00.000Z", data: {},
+    });
+    responses = [500, 503];
+
+    const before = Date.now();
+    expect(await dispatcher.deliverDue()).toEqual({ attempted: 1, succeeded: 0, retrying: 1, failed: 0 });
+    expect(deliveries[0]).toMatchObject({ status: "pending", attempts: 1, last_status_code: 500 });
+    expect(deliveries[0].last_error).toBe("HTTP 500: receiver error");
+    const delay = new Date(deliveries[0].next_attempt_at!).getTime() - before;
+    expect(delay).toBeGreaterThanOrEqual(60_000);
+    expect(delay).toBeLessThan(61_000);
+
+    // Not due yet
+    expect((await dispatcher.deliverDue()).attempted).toBe(0);
+
+    makeDue(deliveries);
+    expect(await dispatcher.deliverDue()).toEqual({ attempted: 1, succeeded: 0, retrying: 0, failed: 1 });
+    expect(deliveries[0]).toMatchObject({ status: "failed", attempts: 2, last_status_code: 503, next_attempt_at: null });
+  });
+
+  test("records network errors without a status code", async () => {
+    const { sql, deliveries } = createFakeDb([
+      { id: "wh-down", url: "http://127.0.0.1:1/hook", event_types: [], workspace_id: null },
+    ]);
+    const dispatcher = createWebhookDispatcher({ sql, logger });
+    await dispatcher.enqueue({
+      eventType: "session.end", eventId: "evt-4", workspaceId: null, sessionId: null,
+      timestamp: "2025-06-01T10:00:00.000Z", data: {},
+    });
+
+    expect((await dispatcher.deliverDue()).retrying).toBe(1);
+    expect(deliveries[0].last_status_code).toBeNull();
+    expect(deliveries[0].last_error).toBeString();
+  });
+
+  test("two instances send each delivery exactly once while the receiver is slow", async () => {
+    const { sql, deliveries } = createFakeDb([{ id: "wh-1", url: receiverUrl(), event_types: [], workspace_id: null }]);
+    // Lease = 2 * timeoutMs = 400ms; three 150ms sends one after another would outlast it
+    const options = { timeoutMs: 200, batchSize: 3 };
+    const first = createWebhookDispatcher({ sql, logger }, options);
+    const second = createWebhookDispatcher({ sql, logger }, options);
+    for (const eventId of ["evt-5", "evt-6", "evt-7"]) {
+      await first.enqueue({
+        eventType: "session.end", eventId, workspaceId: null, sessionId: null,
+        timestamp: "2025-06-01T10:00:00.000Z", data: {},
+      });
+    }
+    responseDelayMs = 150;
+
+    const firstSweep = first.deliverDue();
+    await new Promise((r) => setTimeout(r, 420));
+    const secondSweep = second.deliverDue();
+
+    expect((await firstSweep).succeeded).toBe(3);
+    expect((await secondSweep).attempted).toBe(0);
+    expect(received.map((r) => r.body.id).sort()).toEqual(deliveries.map((d) => d.id).sort());
+    expect(deliveries.map((d) => d.attempts)).toEqual([1, 1, 1]);
+  });
+});
+
+describe("eventProcessed / sessionUpdated", () => {
+  test("delivers an ingested event in the background", async () => {
+    const { sql } = createFakeDb([{ id: "wh-1", url: receiverUrl(), event_types: ["session.end"], workspace_id: WORKSPACE_ID }]);
+    const dispatcher = createWebhookDispatcher({ sql, logger });
+
+    dispatcher.eventProcessed(makeEvent(), WORKSPACE_ID);
+    dispatcher.eventProcessed(makeEvent({ id: "01JEVENT000000000000000002", type: "session.start" }), WORKSPACE_ID);
+    await waitFor(() => received.length === 1);
+
+    expect(received[0].body.type).toBe("session.end");
+    expect(received[0].body.data.id).toBe("01JEVENT000000000000000001");
+  });
+
+  test("matches workspace-scoped webhooks by the resolved ULID, not the canonical ID", async () => {
+    const { sql } = createFakeDb([
+      { id: "wh-ws", url: receiverUrl(), event_types: [], workspace_id: WORKSPACE_ID },
+    ]);
+    const dispatcher = createWebhookDispatcher({ sql, logger });
+
+    const event = makeEvent();
+    expect(event.workspace_id).toBe(CANONICAL_WORKSPACE);
+    dispatcher.eventProcessed(event, WORKSPACE_ID);
+    await waitFor(() => received.length === 1);
+
+    expect(received[0].body.workspace_id).toBe(WORKSPACE_ID);
+    expect(received[0].body.data.workspace_id).toBe(WORKSPACE_ID);
+  });
+
+  test("turns reconcile milestones into session.* deliveries with commits", async () => {
+    const { sql, deliveries } = createFakeDb([{ id: "wh-1", url: receiverUrl(), event_types: ["session.summarized"], workspace_id: null }]);
+    const dispatcher = createWebhookDispatcher({ sql, logger });
+
+    dispatcher.sessionUpdated({ sessionId: "sess-1", workspaceId: WORKSPACE_ID, lifecycle: "ended" });
+    dispatcher.sessionUpdated({ sessionId: "sess-1", workspaceId: WORKSPACE_ID, lifecycle: "summarized", summary: "Fixed auth" });
+    await waitFor(() => received.length === 1);
+
+    expect(deliveries).toHaveLength(1);
+    expect(received[0].body).toMatchObject({
+      type: "session.summarized",
+      session_id: "sess-1",
+      data: {
+        lifecycle: "summarized",
+        summary: "Fixed auth",
+        stats: null,
+        commits: [{ sha: "abc1234", message: "Fix auth", branch: "main" }],
+      },
+    });
+  });
+});
+
+describe("sendTest", () => {
+  test("delivers webhook.test immediately, ignoring filters", async () => {
+    const { sql } = createFakeDb([{ id: "wh-1", url: receiverUrl(), event_types: ["git.push"], workspace_id: null }]);
+    const dispatcher = createWebhookDispatcher({ sql, logger });
+
+    const delivery = await dispatcher.sendTest("wh-1");
+
+    expect(delivery).toMatchObject({ event_type: "webhook.test", status: "succeeded", attempts: 1 });
+    expect(received[0].verified).toBe(true);
+    expect(await dispatcher.sendTest("wh-missing")).toBeNull();
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Tests for workspace merges.
+ *
+ * Uses mock SQL to test merge/unmerge without a real database:
+ *   - Merge re-points sessions, events, git activity and device links,
+ *     records the merge and an alias, deletes the source, rebuilds usage
+ *   - Skips: same workspace, missing workspace, _unassociated
+ *   - Unmerge restores the snapshot and moves back only the recorded rows
+ *   - Unmerge skips: no active merge, target merged away
+ *   - mergeLocalWorkspace only merges existing, never-unmerged local workspaces
+ *   - listWorkspaceMerges maps rows
+ */
+
+import { describe, expect, test } from "bun:test";
+import pino from "pino";
+import {
+  mergeWorkspaces,
+  mergeLocalWorkspace,
+  unmergeWorkspace,
+  listWorkspaceMerges,
+} from "../workspace-merge.js";
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const logger = pino({ level: "silent" });
+
+/** A captured SQL call — query text and interpolated values */
+interface SqlCall {
+  text: string;
+  values: unknown[];
+}
+
+/**
+ * Create a mock sql client. Tagged template calls consume result sets in
+ * FIFO order; sql.begin passes the same mock as `tx`. Non-template calls
+ * (sql(array) list helpers) return their argument.
+ */
+function createMockSql(resultSets: unknown[][]) {
+  const calls: SqlCall[] = [];
+  let transactions = 0;
+
+  const sqlFn: any = (strings: TemplateStringsArray | unknown, ...values: unknown[]) => {
+    if (!Array.isArray(strings) || !("raw" in strings)) return strings;
+    calls.push({ text: strings.join("$"), values });
+    return Promise.resolve([...((resultSets.shift() ?? []) as unknown[])]);
+  };
+  sqlFn.begin = async (cb: (tx: any) => Promise<void>) => {
+    transactions++;
+    await cb(sqlFn);
+  };
+
+  return { sql: sqlFn, calls, transactionCount: () => transactions };
+}
+
+const SOURCE = {
+  id: "01JSOURCE0000000000000000A",
+  canonical_id: "local:abc123",
+  snapshot: { id: "01JSOURCE0000000000000000A", canonical_id: "local:abc123", display_name: "repo" },
+};
+const TARGET = {
+  id: "01JTARGET0000000000000000B",
+  canonical_id: "github.com/user/repo",
+  snapshot: { id: "01JTARGET0000000000000000B", canonical_id: "github.com/user/repo" },
+};
+
+const DEVICE_LINK = { workspace_id: SOURCE.id, device_id: "dev-1", local_path: "/code/repo" };
+
+/** Find the call whose text contains all the given fragments */
+function findCall(calls: SqlCall[], ...fragments: string[]): SqlCall {
+  const call = calls.find((c) => fragments.every((f) => c.text.includes(f)));
+  if (!call) throw new Error(`No query containing ${fragments.join(", ")}`);
+  return call;
+}
+
+// ---------------------------------------------------------------------------
+// mergeWorkspaces
+// ---------------------------------------------------------------------------
+
+describe("mergeWorkspaces", () => {
+  test("moves everything to the target, records the merge and an alias", async () => {
+    const { sql, calls, transactionCount } = createMockSql([
+      [SOURCE, TARGET],                        // lock both workspaces
+      [{ link: DEVICE_LINK }],                 // device link snapshot
+      [{ id: "sess-1" }, { id: "sess-2" }],    // sessions re-pointed
+      [{ id: "evt-1" }],                       // events re-pointed
+      [{ id: "git-1" }],                       // git_activity re-pointed
+      [{ device_id: "dev-1" }],                // device links moved
+      [],                                      // leftover links deleted
+      [{ canonical_id: "local:older" }],       // aliases re-pointed
+    ]);
+
+    const result = await mergeWorkspaces(sql, SOURCE.id, TARGET.id, "auto");
+
+    expect(transactionCount()).toBe(1);
+    expect(result).toMatchObject({
+      merged: true,
+      sourceWorkspaceId: SOURCE.id,
+      sourceCanonicalId: "local:abc123",
+      targetWorkspaceId: TARGET.id,
+      sessions: 2,
+      events: 1,
+      gitActivity: 1,
+      devices: 1,
+    });
+    expect(result.mergeId).toBeString();
+
+    const record = findCall(calls, "INSERT INTO workspace_merges");
+    expect(record.values).toContain("auto");
+    expect(record.values).toContainEqual(["sess-1", "sess-2"]);
+    expect(record.values).toContainEqual(["evt-1"]);
+    expect(record.values).toContainEqual(["dev-1"]);
+    expect(record.values).toContainEqual(["local:older"]);
+    expect(record.values).toContain(JSON.stringify(SOURCE.snapshot));
+    expect(record.values).toContain(JSON.stringify([DEVICE_LINK]));
+
+    const alias = findCall(calls, "INSERT INTO workspace_aliases");
+    expect(alias.values).toEqual(["local:abc123", TARGET.id, result.mergeId]);
+
+    expect(findCall(calls, "UPDATE webhooks").values).toEqual([TARGET.id, SOURCE.id]);
+    expect(findCall(calls, "DELETE FROM workspaces").values).toEqual([SOURCE.id]);
+    expect(findCall(calls, "DELETE FROM daily_usage").values).toEqual([[SOURCE.id, TARGET.id]]);
+  });
+
+  test("refuses to merge a workspace into itself", async () => {
+    const { sql, calls } = createMockSql([]);
+
+    const result = await mergeWorkspaces(sql, SOURCE.id, SOURCE.id);
+    expect(result.merged).toBe(false);
+    expect(result.reason).toBe("same_workspace");
+    expect(calls).toHaveLength(0);
+  });
+
+  test("reports not_found when either workspace is missing", async () => {
+    const { sql, calls } = createMockSql([[TARGET]]);
+
+    const result = await mergeWorkspaces(sql, SOURCE.id, TARGET.id);
+    expect(result.merged).toBe(false);
+    expect(result.reason).toBe("not_found");
+    expect(calls).toHaveLength(1);
+  });
+
+  test("refuses to merge the _unassociated workspace", async () => {
+    const { sql, calls } = createMockSql([
+      [{ ...SOURCE, canonical_id: "_unassociated" }, TARGET],
+    ]);
+
+    const result = await mergeWorkspaces(sql, SOURCE.id, TARGET.id);
+    expect(result.reason).toBe("unassociated");
+    expect(calls).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// mergeLocalWorkspace
+// ---------------------------------------------------------------------------
+
+describe("mergeLocalWorkspace", () => {
+  test("ignores IDs that are not local workspaces", async () => {
+    const { sql, calls } = createMockSql([]);
+
+    expect(await mergeLocalWorkspace(sql, "github.com/user/repo", TARGET.id, logger)).toBeNull();
+    expect(calls).toHaveLength(0);
+  });
+
+  test("does nothing when no local workspace exists", async () => {
+    const { sql, calls } = createMockSql([[]]);
+
+    expect(await mergeLocalWorkspace(sql, "local:abc123", TARGET.id, logger)).toBeNull();
+    expect(calls).toHaveLength(1);
+  });
+
+  test("does not re-merge a local workspace the user unmerged", async () => {
+    const { sql, calls } = createMockSql([[{ id: SOURCE.id, unmerged: true }]]);
+
+    expect(await mergeLocalWorkspace(sql, "local:abc123", TARGET.id, logger)).toBeNull();
+    expect(calls).toHaveLength(1);
+  });
+
+  test("merges an existing local workspace automatically", async () => {
+    const { sql, calls } = createMockSql([
+      [{ id: SOURCE.id, unmerged: false }],
+      [SOURCE, TARGET],
+    ]);
+
+    const result = await mergeLocalWorkspace(sql, "local:abc123", TARGET.id, logger);
+    expect(result?.merged).toBe(true);
+    expect(findCall(calls, "INSERT INTO workspace_merges").values).toContain("auto");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// unmergeWorkspace
+// ---------------------------------------------------------------------------
+
+const MERGE_ROW = {
+  id: "01JMERGE00000000000000000C",
+  source_workspace_id: SOURCE.id,
+  source_canonical_id: "local:abc123",
+  target_workspace_id: TARGET.id,
+  session_ids: ["sess-1", "sess-2"],
+  event_ids: ["evt-1"],
+  git_activity_ids: ["git-1"],
+  moved_device_ids: ["dev-1"],
+  repointed_aliases: ["local:older"],
+  source_workspace: SOURCE.snapshot,
+  source_devices: [DEVICE_LINK],
+};
+
+describe("unmergeWorkspace", () => {
+  test("restores the source and moves back the recorded rows", async () => {
+    const { sql, calls, transactionCount } = createMockSql([
+      [MERGE_ROW],                          // active merge
+      [{ id: TARGET.id }],                  // target still exists
+      [],                                   // workspace restored
+      [],                                   // alias removed
+      [],                                   // older aliases restored
+      [{ id: "sess-1" }],                   // sessions moved back (sess-2 was since moved)
+      [{ id: "evt-1" }],                    // events moved back
+      [{ id: "git-1" }],                    // git_activity moved back
+    ]);
+
+    const result = await unmergeWorkspace(sql, "local:abc123");
+
+    expect(transactionCount()).toBe(1);
+    expect(result).toMatchObject({
+      unmerged: true,
+      mergeId: MERGE_ROW.id,
+      sourceWorkspaceId: SOURCE.id,
+      targetWorkspaceId: TARGET.id,
+      sessions: 1,
+      events: 1,
+      gitActivity: 1,
+    });
+
+    expect(findCall(calls, "jsonb_populate_record(").values).toEqual([JSON.stringify(SOURCE.snapshot)]);
+    expect(findCall(calls, "DELETE FROM workspace_aliases").values).toEqual(["local:abc123"]);
+
+    // Only rows still on the target move back
+    const sessions = findCall(calls, "UPDATE sessions");
+    expect(sessions.values).toEqual([SOURCE.id, ["sess-1", "sess-2"], TARGET.id]);
+
+    expect(findCall(calls, "jsonb_populate_recordset").values).toEqual([JSON.stringify([DEVICE_LINK])]);
+    expect(findCall(calls, "SET unmerged_at").values).toEqual([MERGE_ROW.id]);
+  });
+
+  test("reports not_found without an active merge", async () => {
+    const { sql, calls } = createMockSql([[]]);
+
+    const result = await unmergeWorkspace(sql, "local:unknown");
+    expect(result.unmerged).toBe(false);
+    expect(result.reason).toBe("not_found");
+    expect(calls).toHaveLength(1);
+  });
+
+  test("refuses while the target is itself merged away", async () => {
+    const { sql, calls } = createMockSql([[MERGE_ROW], []]);
+
+    const result = await unmergeWorkspace(sql, MERGE_ROW.id);
+    expect(result.unmerged).toBe(false);
+    expect(result.reason).toBe("target_missing");
+    expect(result.targetWorkspaceId).toBe(TARGET.id);
+    expect(calls).toHaveLength(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// listWorkspaceMerges
+// ---------------------------------------------------------------------------
+
+describe("listWorkspaceMerges", () => {
+  test("maps merge rows", async () => {
+    const { sql, calls } = createMockSql([
+      [
+        {
+          id: MERGE_ROW.id,
+          source_workspace_id: SOURCE.id,
+          source_canonical_id: "local:abc123",
+          target_workspace_id: TARGET.id,
+          target_canonical_id: TARGET.canonical_id,
+          reason: "manual",
+          session_count: "2",
+          merged_at: new Date("2026-01-10T10:00:00.000Z"),
+          unmerged_at: null,
+        },
+      ],
+    ]);
+
+    const merges = await listWorkspaceMerges(sql);
+    expect(calls[0].values).toEqual([false]);
+    expect(merges).toEqual([
+      {
+        id: MERGE_ROW.id,
+        sourceWorkspaceId: SOURCE.id,
+        sourceCanonicalId: "local:abc123",
+        targetWorkspaceId: TARGET.id,
+        targetCanonicalId: TARGET.canonical_id,
+        reason: "manual",
+        sessions: 2,
+        mergedAt: "2026-01-10T10:00:00.000Z",
+        unmergedAt: null,
+      },
+    ]);
+  });
+});
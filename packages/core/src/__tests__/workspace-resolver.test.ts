@@ -8,6 +8,7 @@
  * These tests verify that:
  *   - resolveOrCreateWorkspace calls SQL with correct parameters and returns the ULID
  *   - Empty canonical IDs are normalized to "_unassociated"
+ *   - Canonical IDs of merged-away workspaces resolve via workspace_aliases
  *   - getWorkspaceByCanonicalId returns a workspace when found, null when not
  *   - getWorkspaceById returns a workspace when found, null when not
  */
@@ -118,6 +119,18 @@ describe("resolveOrCreateWorkspace", () => {
     const [call] = calls;
     expect(call.values[4]).toBe("{}");
   });
+
+  test("merged-away canonical IDs resolve through workspace_aliases", async () => {
+    // The upsert is skipped for an aliased ID; the alias row supplies the ULID
+    const { sql, calls } = createMockSql([{ id: "target-ulid" }]);
+
+    const result = await resolveOrCreateWorkspace(sql, "local:abc123");
+
+    expect(result).toBe("target-ulid");
+    const queryText = calls[0].strings.join("$");
+    expect(queryText).toContain("NOT EXISTS (SELECT 1 FROM workspace_aliases");
+    expect(queryText).toContain("SELECT workspace_id AS id FROM workspace_aliases");
+  });
 });
 
 describe("getWorkspaceByCanonicalId", () => {
@@ -0,0 +1,90 @@
+/**
+ * Device presence: which machines are currently active.
+ *
+ * The CLI sends a system.heartbeat at most once a minute while it is in use
+ * (hooks and background drains). The heartbeat handler touches the device's
+ * last_seen_at and brings it back online; markStaleDevicesOffline() runs
+ * periodically on the server and flips devices that have gone quiet to
+ * 'offline'. Both report the change through a DeviceNotifier so the server
+ * can push a device.update WebSocket message.
+ *
+ * This module is pure domain logic with injected database dependency.
+ * No HTTP, no CLI, no UI knowledge.
+ */
+
+import type { Sql } from "postgres";
+import type { DeviceStatus } from "@fuel-code/shared";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A device's presence as broadcast to clients */
+export interface DevicePresence {
+  deviceId: string;
+  name: string;
+  status: DeviceStatus;
+  lastSeenAt: string;
+}
+
+/**
+ * Receives device presence changes. The server wires this to the WebSocket
+ * broadcaster; core stays unaware of transport. Must not block.
+ */
+export interface DeviceNotifier {
+  deviceUpdated(update: DevicePresence): void;
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** Default time without a heartbeat or event before a device is offline */
+export const DEFAULT_DEVICE_OFFLINE_MS = 10 * 60_000;
+
+/**
+ * Load the device offline timeout from the environment.
+ *
+ * Environment variables:
+ *   DEVICE_OFFLINE_MINUTES - Minutes without a heartbeat before a device is marked offline (default: 10)
+ */
+export function loadDeviceOfflineMs(): number {
+  const minutes = parseInt(process.env.DEVICE_OFFLINE_MINUTES || "", 10);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60_000 : DEFAULT_DEVICE_OFFLINE_MS;
+}
+
+// ---------------------------------------------------------------------------
+// Presence queries
+// ---------------------------------------------------------------------------
+
+/** Map a devices row (id, name, status, last_seen_at) to DevicePresence */
+export function toDevicePresence(row: Record<string, unknown>): DevicePresence {
+  const lastSeen = row.last_seen_at;
+  return {
+    deviceId: row.id as string,
+    name: row.name as string,
+    status: row.status as DeviceStatus,
+    lastSeenAt: lastSeen instanceof Date ? lastSeen.toISOString() : String(lastSeen),
+  };
+}
+
+/**
+ * Mark online devices that haven't been seen within offlineAfterMs as offline.
+ *
+ * @param sql - postgres.js tagged template client
+ * @param offlineAfterMs - Quiet time after which a device counts as offline
+ * @returns The devices that just went offline
+ */
+export async function markStaleDevicesOffline(
+  sql: Sql,
+  offlineAfterMs: number = DEFAULT_DEVICE_OFFLINE_MS,
+): Promise<DevicePresence[]> {
+  const rows = await sql`
+    UPDATE devices
+    SET status = 'offline'
+    WHERE status = 'online'
+      AND last_seen_at < now() - ${`${offlineAfterMs} milliseconds`}::interval
+    RETURNING id, name, status, last_seen_at
+  `;
+  return rows.map((row) => toDevicePresence(row));
+}
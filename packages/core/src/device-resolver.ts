@@ -13,6 +13,7 @@
 
 import type { Sql } from "postgres";
 import type { DeviceType } from "@fuel-code/shared";
+import { toDevicePresence, type DevicePresence } from "./device-presence.js";
 
 /**
  * Resolve a device by its ID, creating it if it doesn't exist.
@@ -22,6 +23,8 @@ import type { DeviceType } from "@fuel-code/shared";
  *   - Fills in hostname/os/arch only if the existing value is NULL
  *     (COALESCE picks the new value only when the old is null)
  *   - Never overwrites name or type after initial creation
+ *   - Sets user_id when a user is given: the device belongs to whoever's
+ *     token most recently sent events from it
  *
  * @param sql - postgres.js tagged template client
  * @param deviceId - Client-generated device identifier
@@ -37,6 +40,8 @@ export async function resolveOrCreateDevice(
     hostname?: string;
     os?: string;
     arch?: string;
+    /** users.id of the token that sent the event */
+    userId?: string | null;
   },
 ): Promise<string> {
   // Apply defaults for required fields
@@ -47,14 +52,15 @@ export async function resolveOrCreateDevice(
   // COALESCE(EXCLUDED.x, devices.x) means: use the new value if provided,
   // otherwise keep the existing value. This fills NULLs without overwriting.
   const [row] = await sql`
-    INSERT INTO devices (id, name, type, hostname, os, arch, metadata)
-    VALUES (${deviceId}, ${name}, ${type}, ${hints?.hostname ?? null}, ${hints?.os ?? null}, ${hints?.arch ?? null}, ${JSON.stringify({})})
+    INSERT INTO devices (id, name, type, hostname, os, arch, metadata, user_id)
+    VALUES (${deviceId}, ${name}, ${type}, ${hints?.hostname ?? null}, ${hints?.os ?? null}, ${hints?.arch ?? null}, ${JSON.stringify({})}, ${hints?.userId ?? null})
     ON CONFLICT (id) DO UPDATE SET
       last_seen_at = now(),
       name = CASE WHEN devices.name = 'unknown-device' AND ${name} != 'unknown-device' THEN ${name} ELSE devices.name END,
       hostname = COALESCE(EXCLUDED.hostname, devices.hostname),
       os = COALESCE(EXCLUDED.os, devices.os),
-      arch = COALESCE(EXCLUDED.arch, devices.arch)
+      arch = COALESCE(EXCLUDED.arch, devices.arch),
+      user_id = COALESCE(EXCLUDED.user_id, devices.user_id)
     RETURNING id
   `;
 
@@ -62,17 +68,24 @@ export async function resolveOrCreateDevice(
 }
 
 /**
- * Touch the device's last_seen_at timestamp without changing any other fields.
- * Used for heartbeat-style updates.
+ * Record that a device is alive: touch last_seen_at and bring an offline (or
+ * provisioning) device back online. Terminated devices keep their status.
+ * Used by the system.heartbeat handler.
  *
  * @param sql - postgres.js tagged template client
  * @param deviceId - Device ID to update
+ * @returns The device's presence after the update, or null if it doesn't exist
  */
 export async function updateDeviceLastSeen(
   sql: Sql,
   deviceId: string,
-): Promise<void> {
-  await sql`
-    UPDATE devices SET last_seen_at = now() WHERE id = ${deviceId}
+): Promise<DevicePresence | null> {
+  const [row] = await sql`
+    UPDATE devices
+    SET last_seen_at = now(),
+        status = CASE WHEN status IN ('offline', 'provisioning') THEN 'online' ELSE status END
+    WHERE id = ${deviceId}
+    RETURNING id, name, status, last_seen_at
   `;
+  return row ? toDevicePresence(row) : null;
 }
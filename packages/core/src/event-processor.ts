@@ -23,6 +23,13 @@ import { resolveOrCreateWorkspace } from "./workspace-resolver.js";
 import { resolveOrCreateDevice } from "./device-resolver.js";
 import { ensureWorkspaceDeviceLink } from "./workspace-device-link.js";
 import type { PipelineDeps } from "./session-pipeline.js";
+import { metrics } from "./metrics.js";
+
+/** Handler latency per event type, labelled with whether the handler threw */
+const handlerDuration = metrics.histogram(
+  "fuel_code_event_handler_duration_seconds",
+  "Time spent in the type-specific handler for each processed event",
+);
 
 // ---------------------------------------------------------------------------
 // Types
@@ -45,10 +52,22 @@ export interface EventHandlerContext {
 /** An event handler function — receives context and performs type-specific logic */
 export type EventHandler = (ctx: EventHandlerContext) => Promise<void>;
 
+/** Options for processEvent */
+export interface ProcessEventOptions {
+  /**
+   * Run the handler even if the event row already exists. Set when retrying
+   * or replaying an event whose handler failed — its row was inserted on the
+   * first attempt, so the dedupe would otherwise skip the handler for good.
+   */
+  redispatch?: boolean;
+}
+
 /** Result of processing a single event */
 export interface ProcessResult {
   /** The event's ULID */
   eventId: string;
+  /** Resolved workspace ULID (event.workspace_id is the canonical string) */
+  workspaceId: string;
   /** Whether the event was newly processed, a duplicate, or errored during resolution */
   status: "processed" | "duplicate" | "error";
   /** Results from dispatching to registered handlers */
@@ -127,6 +146,7 @@ function extractHints(
  * @param registry - Handler registry for type-specific dispatch
  * @param logger - Pino logger (will be child-scoped per event)
  * @param pipelineDeps - Optional pipeline dependencies for Phase 2 post-processing
+ * @param options - Set redispatch to re-run the handler for an existing event row
  * @returns ProcessResult with status and per-handler outcomes
  */
 export async function processEvent(
@@ -135,6 +155,7 @@ export async function processEvent(
   registry: EventHandlerRegistry,
   logger: Logger,
   pipelineDeps?: PipelineDeps,
+  options: ProcessEventOptions = {},
 ): Promise<ProcessResult> {
   const log = logger.child({ eventId: event.id, eventType: event.type });
 
@@ -148,12 +169,16 @@ export async function processEvent(
   // 2. Resolve device: ensure device row exists.
   // Extract device hints from the event data (injected by the CLI emit command)
   // so the device name is populated on first registration.
+  // The ingesting token's user (if any) claims the device.
   const deviceHints = event.data._device_name
     ? {
         name: event.data._device_name as string,
         type: (event.data._device_type as "local" | "remote") ?? "local",
+        userId: event.user_id,
       }
-    : undefined;
+    : event.user_id
+      ? { userId: event.user_id }
+      : undefined;
   await resolveOrCreateDevice(sql, event.device_id, deviceHints);
 
   // 3. Link workspace to device with the working directory from the event
@@ -170,7 +195,7 @@ export async function processEvent(
   // 4. Insert event row — using resolved workspace ULID, NOT the canonical string.
   //    ON CONFLICT (id) DO NOTHING deduplicates by event ULID.
   const insertResult = await sql`
-    INSERT INTO events (id, type, timestamp, device_id, workspace_id, session_id, data, blob_refs, ingested_at)
+    INSERT INTO events (id, type, timestamp, device_id, workspace_id, session_id, data, blob_refs, ingested_at, user_id)
     VALUES (
       ${event.id},
       ${event.type},
@@ -180,7 +205,8 @@ export async function processEvent(
       ${event.session_id},
       ${JSON.stringify(event.data)},
       ${JSON.stringify(event.blob_refs)},
-      ${new Date().toISOString()}
+      ${new Date().toISOString()},
+      ${event.user_id ?? null}
     )
     ON CONFLICT (id) DO NOTHING
     RETURNING id
@@ -188,8 +214,11 @@ export async function processEvent(
 
   // If no rows returned, the event already existed (duplicate)
   if (insertResult.length === 0) {
-    log.debug("Duplicate event, skipping handler dispatch");
-    return { eventId: event.id, status: "duplicate", handlerResults: [] };
+    if (!options.redispatch) {
+      log.debug("Duplicate event, skipping handler dispatch");
+      return { eventId: event.id, workspaceId: resolvedWorkspaceId, status: "duplicate", handlerResults: [] };
+    }
+    log.info("Event already persisted — re-running its handler");
   }
 
   // 5. Validate event payload against registered schema (if any)
@@ -201,6 +230,7 @@ export async function processEvent(
     );
     return {
       eventId: event.id,
+      workspaceId: resolvedWorkspaceId,
       status: "processed",
       handlerResults: [{ type: event.type, success: false, error: "Payload validation failed" }],
     };
@@ -211,6 +241,7 @@ export async function processEvent(
   const handler = registry.getHandler(event.type);
 
   if (handler) {
+    const stopTimer = handlerDuration.startTimer({ event_type: event.type });
     try {
       await handler({
         sql,
@@ -220,9 +251,12 @@ export async function processEvent(
         pipelineDeps,
       });
       handlerResults.push({ type: event.type, success: true });
+      stopTimer({ outcome: "success" });
     } catch (err) {
+      stopTimer({ outcome: "error" });
       // Handler errors are logged but do NOT fail the overall process —
-      // the event row is already persisted.
+      // the event row is already persisted. The consumer sees the failed
+      // result and retries (with redispatch) or dead-letters the event.
       const errorMsg = err instanceof Error ? err.message : String(err);
       log.error({ err, handlerType: event.type }, "Handler failed");
       handlerResults.push({ type: event.type, success: false, error: errorMsg });
@@ -231,5 +265,5 @@ export async function processEvent(
     log.debug({ eventType: event.type }, "No handler registered for event type");
   }
 
-  return { eventId: event.id, status: "processed", handlerResults };
+  return { eventId: event.id, workspaceId: resolvedWorkspaceId, status: "processed", handlerResults };
 }
@@ -1,30 +1,89 @@
 /**
- * Git-session correlator — finds the active Claude Code session for a git event.
+ * Git-session correlator — finds the Claude Code session for a git event.
  *
  * When a git hook fires (commit, push, checkout, merge), we want to link that
  * git activity to the CC session that was active at the time. This enables
  * "what did I commit during this session?" views.
  *
- * Correlation heuristic: find the most recently started session for the same
- * workspace + device that is currently active (lifecycle = 'detected').
+ * Correlation, strongest first:
+ *   1. trailer   — the commit carries a `Fuel-Session: <id>` trailer, added by
+ *                  the optional prepare-commit-msg hook from the CC session
+ *                  open in that worktree. Exact, survives parallel sessions.
+ *   2. active    — the most recently started session for the same workspace +
+ *                  device that is still live (lifecycle = 'detected').
+ *   3. heuristic — no live session, but one on the same workspace + device
+ *                  ended within HEURISTIC_GRACE_MS of the event (commits made
+ *                  right after a session ends, or events processed late).
  * The event timestamp must be >= session started_at to avoid false matches.
  *
- * If no active session is found, the git event is recorded as "orphan" workspace-level
- * activity (session_id = NULL in git_activity).
+ * If nothing matches, the git event is recorded as "orphan" workspace-level
+ * activity (session_id = NULL in git_activity). recorrelateOrphanGitActivity()
+ * retries orphans later, e.g. once a trailer's session row exists.
  */
 
 import type { Sql } from "postgres";
+import { refreshDailyUsageForSessions } from "./usage-rollup.js";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** How long after a session ends a git event may still be attributed to it */
+export const HEURISTIC_GRACE_MS = 15 * 60 * 1000;
+
+/** Default max orphan rows examined per re-correlation run */
+const DEFAULT_RECORRELATE_LIMIT = 1000;
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+/** How a git event was matched to a session */
+export type CorrelationConfidence = "trailer" | "active" | "heuristic" | "none";
+
 /** Result of attempting to correlate a git event with a CC session */
 export interface CorrelationResult {
   /** Session ID if a match was found, null otherwise */
   sessionId: string | null;
-  /** Confidence level: 'active' if matched to a live session, 'none' if orphan */
-  confidence: "active" | "none";
+  /**
+   * Confidence level: 'trailer' if named by the commit's Fuel-Session
+   * trailer, 'active' if matched to a live session, 'heuristic' if matched
+   * to a recently ended one, 'none' if orphan
+   */
+  confidence: CorrelationConfidence;
+}
+
+/** Position of the last orphan row a re-correlation run examined */
+export interface RecorrelateCursor {
+  timestamp: Date;
+  id: string;
+}
+
+/** Options for recorrelateOrphanGitActivity() */
+export interface RecorrelateOptions {
+  /** Only re-correlate this workspace's activity */
+  workspaceId?: string;
+  /** Only re-correlate activity at or after this time */
+  since?: Date;
+  /** Max orphan rows examined (default 1000) */
+  limit?: number;
+  /** Resume after this row — a previous run's `next` */
+  after?: RecorrelateCursor;
+  /** Report what would change without writing */
+  dryRun?: boolean;
+}
+
+/** Result of a re-correlation run */
+export interface RecorrelateResult {
+  /** Orphan rows examined */
+  scanned: number;
+  /** Rows linked to a session (or that would be, on a dry run) */
+  correlated: number;
+  /** Linked rows by confidence */
+  byConfidence: { trailer: number; active: number; heuristic: number };
+  dryRun: boolean;
+  /** Pass as `after` to examine the next batch; null once no orphans remain */
+  next: RecorrelateCursor | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -32,16 +91,21 @@ export interface CorrelationResult {
 // ---------------------------------------------------------------------------
 
 /**
- * Find the active Claude Code session for a git event.
+ * Find the Claude Code session for a git event.
  *
- * Queries sessions that are currently active (detected) for the
- * same workspace and device, and started before the git event occurred.
- * Returns the most recently started session if multiple are active.
+ * A trailer session ID wins when that session exists in the same workspace
+ * (a trailer copied into another repo, e.g. by a cherry-pick, doesn't
+ * carry the commit to that repo's session). Otherwise queries
+ * sessions for the same workspace and device that started before the git
+ * event and are either still active (detected) or ended within the grace
+ * window. Live sessions are preferred; among equals the most recently
+ * started session wins.
  *
  * @param sql - postgres.js tagged template client
  * @param workspaceId - Resolved workspace ULID
  * @param deviceId - Device ID that produced the git event
  * @param eventTimestamp - When the git event occurred
+ * @param trailerSessionId - Session ID from the commit's Fuel-Session trailer, if any
  * @returns CorrelationResult with sessionId and confidence level
  */
 export async function correlateGitEventToSession(
@@ -49,20 +113,132 @@ export async function correlateGitEventToSession(
   workspaceId: string,
   deviceId: string,
   eventTimestamp: Date,
+  trailerSessionId?: string | null,
 ): Promise<CorrelationResult> {
+  if (trailerSessionId) {
+    const trailerRows = await sql`
+      SELECT id FROM sessions
+      WHERE id = ${trailerSessionId} AND workspace_id = ${workspaceId}
+    `;
+    if (trailerRows.length > 0) {
+      return { sessionId: trailerRows[0].id as string, confidence: "trailer" };
+    }
+    // The session row may not exist yet (session.start still queued) —
+    // fall back to the heuristics; re-correlation can fix it up later
+  }
+
+  const graceStart = new Date(eventTimestamp.getTime() - HEURISTIC_GRACE_MS);
   const rows = await sql`
-    SELECT id FROM sessions
+    SELECT id,
+      CASE WHEN lifecycle = 'detected' THEN 'active' ELSE 'heuristic' END AS confidence
+    FROM sessions
     WHERE workspace_id = ${workspaceId}
       AND device_id = ${deviceId}
-      AND lifecycle = 'detected'
       AND started_at <= ${eventTimestamp.toISOString()}
-    ORDER BY started_at DESC
+      AND (lifecycle = 'detected' OR ended_at >= ${graceStart.toISOString()})
+    ORDER BY (lifecycle = 'detected') DESC, started_at DESC
     LIMIT 1
   `;
 
   if (rows.length > 0) {
-    return { sessionId: rows[0].id as string, confidence: "active" };
+    const confidence = rows[0].confidence === "heuristic" ? "heuristic" : "active";
+    return { sessionId: rows[0].id as string, confidence };
   }
 
   return { sessionId: null, confidence: "none" };
 }
+
+// ---------------------------------------------------------------------------
+// Bulk re-correlation
+// ---------------------------------------------------------------------------
+
+/**
+ * Re-run correlation for orphan git_activity rows (session_id IS NULL).
+ *
+ * Uses the Fuel-Session trailer recorded in git_activity.data when present,
+ * then the same heuristics as live correlation. Matched rows get their
+ * session_id set (and the event row's, if still unset) in one transaction
+ * per row, with the confidence recorded in data.correlation. Sessions that
+ * gained commits get their daily_usage rows refreshed at the end.
+ *
+ * Rows are examined oldest first in (timestamp, id) order. Orphans that
+ * still match nothing stay orphans, so a run returns `next` to continue
+ * past them — without it, a backlog of unmatchable rows would fill every
+ * batch and newer orphans would never be reached.
+ */
+export async function recorrelateOrphanGitActivity(
+  sql: Sql,
+  options: RecorrelateOptions = {},
+): Promise<RecorrelateResult> {
+  const limit = options.limit ?? DEFAULT_RECORRELATE_LIMIT;
+  const dryRun = options.dryRun ?? false;
+  const workspaceFilter = options.workspaceId
+    ? sql`AND workspace_id = ${options.workspaceId}`
+    : sql``;
+  const sinceFilter = options.since
+    ? sql`AND timestamp >= ${options.since.toISOString()}`
+    : sql``;
+  const afterFilter = options.after
+    ? sql`AND (timestamp, id) > (${options.after.timestamp.toISOString()}::timestamptz, ${options.after.id})`
+    : sql``;
+
+  // Fetch one extra row to tell whether another batch follows
+  const rows = await sql`
+    SELECT id, workspace_id, device_id, type, timestamp, data->>'session_trailer' AS session_trailer
+    FROM git_activity
+    WHERE session_id IS NULL
+      ${workspaceFilter}
+      ${sinceFilter}
+      ${afterFilter}
+    ORDER BY timestamp ASC, id ASC
+    LIMIT ${limit + 1}
+  `;
+  const orphans = rows.slice(0, limit);
+  const last = orphans[orphans.length - 1];
+
+  const result: RecorrelateResult = {
+    scanned: orphans.length,
+    correlated: 0,
+    byConfidence: { trailer: 0, active: 0, heuristic: 0 },
+    dryRun,
+    next:
+      rows.length > limit
+        ? { timestamp: new Date(last.timestamp as string | Date), id: last.id as string }
+        : null,
+  };
+  const sessionsWithNewCommits: string[] = [];
+
+  for (const row of orphans) {
+    const correlation = await correlateGitEventToSession(
+      sql,
+      row.workspace_id as string,
+      row.device_id as string,
+      new Date(row.timestamp as string | Date),
+      (row.session_trailer as string | null) ?? null,
+    );
+    if (!correlation.sessionId || correlation.confidence === "none") continue;
+
+    result.correlated++;
+    result.byConfidence[correlation.confidence]++;
+    if (dryRun) continue;
+
+    // tx typed as any: postgres.js TransactionSql loses call signature via Omit (TS 5.9)
+    await sql.begin(async (tx: any) => {
+      await tx`
+        UPDATE git_activity
+        SET session_id = ${correlation.sessionId},
+            data = data || ${JSON.stringify({ correlation: correlation.confidence })}::jsonb
+        WHERE id = ${row.id} AND session_id IS NULL
+      `;
+      await tx`
+        UPDATE events SET session_id = ${correlation.sessionId}
+        WHERE id = ${row.id} AND session_id IS NULL
+      `;
+    });
+    if (row.type === "commit") sessionsWithNewCommits.push(correlation.sessionId);
+  }
+
+  await refreshDailyUsageForSessions(sql, sessionsWithNewCommits);
+
+  return result;
+}
@@ -59,7 +59,7 @@ export async function handleGitCheckout(ctx: EventHandlerContext): Promise<void>
   await sql.begin(async (tx: any) => {
     // Insert into git_activity — checkout events store ref details in data JSONB
     await tx`
-      INSERT INTO git_activity (id, workspace_id, device_id, session_id, type, branch, is_worktree, worktree_name, timestamp, data)
+      INSERT INTO git_activity (id, workspace_id, device_id, session_id, type, branch, is_worktree, worktree_name, timestamp, data, user_id)
       VALUES (
         ${event.id},
         ${workspaceId},
@@ -70,7 +70,8 @@ export async function handleGitCheckout(ctx: EventHandlerContext): Promise<void>
         ${isWorktree},
         ${worktreeName},
         ${event.timestamp},
-        ${JSON.stringify({ from_ref: fromRef, to_ref: toRef, from_branch: fromBranch, to_branch: toBranch })}
+        ${JSON.stringify({ from_ref: fromRef, to_ref: toRef, from_branch: fromBranch, to_branch: toBranch })},
+        ${event.user_id ?? null}
       )
       ON CONFLICT (id) DO NOTHING
     `;
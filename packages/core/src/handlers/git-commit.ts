@@ -2,15 +2,25 @@
  * Handler for "git.commit" events.
  *
  * When a git commit is made (detected by the post-commit hook), this handler:
- *   1. Correlates the event to an active CC session (if any)
+ *   1. Correlates the event to a CC session (if any), preferring the
+ *      session named by the commit's Fuel-Session trailer
  *   2. Inserts a row into git_activity with type='commit'
  *   3. If correlation found, updates events.session_id for the event row
+ *   4. Records the commit's file_list in the session_files index
+ *   5. Refreshes the session's daily_usage rows, which count its commits
  *
  * ON CONFLICT (id) DO NOTHING ensures idempotency — replayed events are skipped.
+ *
+ * A commit already live under another event is not inserted twice. When a
+ * git.rewrite was processed before this commit's event, it re-pointed the
+ * original commit's row at this SHA; that row is restored to its old SHA and
+ * superseded, leaving the same rows as if the events had arrived in order.
  */
 
 import type { EventHandlerContext } from "../event-processor.js";
 import { correlateGitEventToSession } from "../git-correlator.js";
+import { indexCommitFiles, type CommitFileEntry } from "../session-files.js";
+import { refreshDailyUsageForSessions } from "../usage-rollup.js";
 
 /**
  * Handle a git.commit event by inserting git activity and correlating with a session.
@@ -22,6 +32,7 @@ import { correlateGitEventToSession } from "../git-correlator.js";
  *   - branch: branch the commit was made on
  *   - files_changed, insertions, deletions: diff stats
  *   - file_list: optional list of changed files
+ *   - session_trailer: optional session ID from the Fuel-Session trailer
  */
 export async function handleGitCommit(ctx: EventHandlerContext): Promise<void> {
   const { sql, event, workspaceId, logger } = ctx;
@@ -36,17 +47,19 @@ export async function handleGitCommit(ctx: EventHandlerContext): Promise<void> {
   const insertions = event.data.insertions as number;
   const deletions = event.data.deletions as number;
   const fileList = event.data.file_list ?? null;
+  const sessionTrailer = (event.data.session_trailer as string | undefined) ?? null;
 
   // Worktree context: defaults ensure backward compatibility with old events
   const isWorktree = event.data.is_worktree ?? false;
   const worktreeName = event.data.worktree_name ?? null;
 
-  // Correlate this git event to an active CC session
+  // Correlate this git event to a CC session — the trailer, when present, is exact
   const correlation = await correlateGitEventToSession(
     sql,
     workspaceId,
     event.device_id,
     new Date(event.timestamp),
+    sessionTrailer,
   );
 
   logger.info(
@@ -54,19 +67,60 @@ export async function handleGitCommit(ctx: EventHandlerContext): Promise<void> {
     "Processing git.commit event",
   );
 
+  let sessionId = correlation.sessionId;
+  let supersededSessionId: string | null = null;
+
   // Wrap INSERT + UPDATE in a transaction so both succeed or both roll back.
   // Prevents inconsistent state where git_activity has session_id but events doesn't.
   // tx typed as any: postgres.js TransactionSql loses call signature via Omit (TS 5.9)
-  await sql.begin(async (tx: any) => {
+  const inserted = await sql.begin(async (tx: any) => {
+    // Another event's live row for this SHA: a re-pointed original, or the
+    // same commit reported twice
+    const [existing] = await tx`
+      SELECT id, session_id,
+        data->>'rewritten_from' AS rewritten_from,
+        data->>'rewrite_kind' AS rewrite_kind
+      FROM git_activity
+      WHERE workspace_id = ${workspaceId}
+        AND type = 'commit'
+        AND commit_sha = ${hash}
+        AND superseded_by IS NULL
+        AND id <> ${event.id}
+      LIMIT 1
+    `;
+
+    let rewrite: { rewritten_from: string; rewrite_kind: string } | null = null;
+    if (existing) {
+      if (!existing.rewritten_from) {
+        logger.info({ hash, existingId: existing.id }, "Commit already recorded — skipping");
+        return false;
+      }
+
+      rewrite = { rewritten_from: existing.rewritten_from, rewrite_kind: existing.rewrite_kind };
+      await tx`
+        UPDATE git_activity
+        SET commit_sha = ${existing.rewritten_from},
+            superseded_by = ${hash},
+            superseded_at = ${event.timestamp},
+            data = data - 'rewritten_from'
+        WHERE id = ${existing.id}
+      `;
+      // Like the in-order rewrite, the new commit inherits the original's
+      // session when it has none of its own
+      supersededSessionId = (existing.session_id as string | null) ?? null;
+      sessionId = sessionId ?? supersededSessionId;
+    }
+
     // Insert into git_activity — stores the structured git data
-    // data JSONB holds author info and file list for detailed queries
+    // data JSONB holds author info and file list for detailed queries, plus
+    // the trailer so recorrelateOrphanGitActivity() can retry orphans later
     await tx`
-      INSERT INTO git_activity (id, workspace_id, device_id, session_id, type, branch, commit_sha, message, files_changed, insertions, deletions, is_worktree, worktree_name, timestamp, data)
+      INSERT INTO git_activity (id, workspace_id, device_id, session_id, type, branch, commit_sha, message, files_changed, insertions, deletions, is_worktree, worktree_name, timestamp, data, user_id)
       VALUES (
         ${event.id},
         ${workspaceId},
         ${event.device_id},
-        ${correlation.sessionId},
+        ${sessionId},
         ${"commit"},
         ${branch},
         ${hash},
@@ -77,18 +131,38 @@ export async function handleGitCommit(ctx: EventHandlerContext): Promise<void> {
         ${isWorktree},
         ${worktreeName},
         ${event.timestamp},
-        ${JSON.stringify({ author_name: authorName, author_email: authorEmail, file_list: fileList })}
+        ${JSON.stringify({
+          author_name: authorName,
+          author_email: authorEmail,
+          file_list: fileList,
+          ...(sessionTrailer ? { session_trailer: sessionTrailer } : {}),
+          correlation: correlation.confidence,
+          ...(rewrite ?? {}),
+        })},
+        ${event.user_id ?? null}
       )
       ON CONFLICT (id) DO NOTHING
     `;
 
-    // If we found an active session, update the event row's session_id
+    // If we found a session, update the event row's session_id
     // so it appears in the session's event timeline
-    if (correlation.sessionId) {
+    if (sessionId) {
       await tx`
-        UPDATE events SET session_id = ${correlation.sessionId}
+        UPDATE events SET session_id = ${sessionId}
         WHERE id = ${event.id} AND session_id IS NULL
       `;
     }
+
+    // Index the changed files for file history lookups
+    if (Array.isArray(fileList)) {
+      await indexCommitFiles(tx, event.id, fileList as CommitFileEntry[], event.timestamp);
+    }
+    return true;
   });
+
+  // The session may already be rolled up (e.g. a commit made just after it
+  // ended), so its commit count has to be recomputed
+  if (inserted) {
+    await refreshDailyUsageForSessions(sql, [sessionId, supersededSessionId]);
+  }
 }
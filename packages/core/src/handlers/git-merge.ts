@@ -57,7 +57,7 @@ export async function handleGitMerge(ctx: EventHandlerContext): Promise<void> {
   await sql.begin(async (tx: any) => {
     // Insert into git_activity — merge events store branch/conflict info in data JSONB
     await tx`
-      INSERT INTO git_activity (id, workspace_id, device_id, session_id, type, branch, commit_sha, message, files_changed, is_worktree, worktree_name, timestamp, data)
+      INSERT INTO git_activity (id, workspace_id, device_id, session_id, type, branch, commit_sha, message, files_changed, is_worktree, worktree_name, timestamp, data, user_id)
       VALUES (
         ${event.id},
         ${workspaceId},
@@ -71,7 +71,8 @@ export async function handleGitMerge(ctx: EventHandlerContext): Promise<void> {
         ${isWorktree},
         ${worktreeName},
         ${event.timestamp},
-        ${JSON.stringify({ merged_branch: mergedBranch, had_conflicts: hadConflicts })}
+        ${JSON.stringify({ merged_branch: mergedBranch, had_conflicts: hadConflicts })},
+        ${event.user_id ?? null}
       )
       ON CONFLICT (id) DO NOTHING
     `;
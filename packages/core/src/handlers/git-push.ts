@@ -53,7 +53,7 @@ export async function handleGitPush(ctx: EventHandlerContext): Promise<void> {
   await sql.begin(async (tx: any) => {
     // Insert into git_activity — push events store remote/commit info in data JSONB
     await tx`
-      INSERT INTO git_activity (id, workspace_id, device_id, session_id, type, branch, is_worktree, worktree_name, timestamp, data)
+      INSERT INTO git_activity (id, workspace_id, device_id, session_id, type, branch, is_worktree, worktree_name, timestamp, data, user_id)
       VALUES (
         ${event.id},
         ${workspaceId},
@@ -64,7 +64,8 @@ export async function handleGitPush(ctx: EventHandlerContext): Promise<void> {
         ${isWorktree},
         ${worktreeName},
         ${event.timestamp},
-        ${JSON.stringify({ remote, commit_count: commitCount, commits })}
+        ${JSON.stringify({ remote, commit_count: commitCount, commits })},
+        ${event.user_id ?? null}
       )
       ON CONFLICT (id) DO NOTHING
     `;
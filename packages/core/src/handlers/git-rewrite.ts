@@ -0,0 +1,129 @@
+/**
+ * Handler for "git.rewrite" events.
+ *
+ * `git commit --amend` and `git rebase` replace commits with new SHAs; the
+ * post-rewrite hook reports the old -> new mapping. Git runs post-commit for
+ * each new commit before post-rewrite, so the replacement usually already has
+ * its own git_activity row. For each mapping this handler:
+ *   1. Supersedes the live commit rows for the old SHA (superseded_by = new
+ *      SHA) when a row for the new SHA exists, and links that row back to
+ *      the old SHA — inheriting the old row's session if it has none
+ *   2. Otherwise re-points the old row at the new SHA in place, so the
+ *      commit is still counted once. If the new commit's own git.commit
+ *      event arrives later, handleGitCommit() turns this back into case 1.
+ *
+ * Superseded rows are excluded from session, timeline and commit-count
+ * queries, so the daily_usage rows of every session that lost or gained a
+ * commit are refreshed afterwards. Replays are harmless: rows already
+ * superseded or re-pointed no longer match the old SHA.
+ */
+
+import type { EventHandlerContext } from "../event-processor.js";
+import { refreshDailyUsageForSessions } from "../usage-rollup.js";
+
+/** An old -> new SHA pair from the git.rewrite payload */
+interface RewriteMapping {
+  old_sha: string;
+  new_sha: string;
+}
+
+/**
+ * Handle a git.rewrite event by superseding (or re-pointing) the git_activity
+ * commit rows for rewritten SHAs.
+ *
+ * Extracts from event.data:
+ *   - kind: "amend" or "rebase"
+ *   - mappings: old_sha -> new_sha pairs
+ */
+export async function handleGitRewrite(ctx: EventHandlerContext): Promise<void> {
+  const { sql, event, workspaceId, logger } = ctx;
+
+  const kind = event.data.kind as string;
+  const mappings = (event.data.mappings as RewriteMapping[] | undefined) ?? [];
+
+  let superseded = 0;
+  let repointed = 0;
+  // Sessions whose commit count changed — refreshed once the rewrite commits
+  const affectedSessions: Array<string | null> = [];
+
+  // All mappings in one transaction: a half-applied rebase would leave some
+  // commits counted twice.
+  // tx typed as any: postgres.js TransactionSql loses call signature via Omit (TS 5.9)
+  await sql.begin(async (tx: any) => {
+    for (const { old_sha: oldSha, new_sha: newSha } of mappings) {
+      if (oldSha === newSha) continue;
+
+      // The replacement commit's own row, reported by post-commit
+      const replacements = await tx`
+        SELECT id, session_id FROM git_activity
+        WHERE workspace_id = ${workspaceId}
+          AND type = 'commit'
+          AND commit_sha = ${newSha}
+          AND superseded_by IS NULL
+        ORDER BY timestamp DESC
+        LIMIT 1
+      `;
+
+      if (replacements.length === 0) {
+        // No row for the new commit (e.g. a rebase backend that skips
+        // post-commit) — keep the old row and point it at the new SHA
+        const updated = await tx`
+          UPDATE git_activity
+          SET commit_sha = ${newSha},
+              data = data || ${JSON.stringify({ rewritten_from: oldSha, rewrite_kind: kind })}::jsonb
+          WHERE workspace_id = ${workspaceId}
+            AND type = 'commit'
+            AND commit_sha = ${oldSha}
+            AND superseded_by IS NULL
+          RETURNING id
+        `;
+        repointed += updated.length;
+        continue;
+      }
+
+      const oldRows = await tx`
+        UPDATE git_activity
+        SET superseded_by = ${newSha},
+            superseded_at = ${event.timestamp},
+            data = data || ${JSON.stringify({ rewrite_kind: kind })}::jsonb
+        WHERE workspace_id = ${workspaceId}
+          AND type = 'commit'
+          AND commit_sha = ${oldSha}
+          AND superseded_by IS NULL
+        RETURNING id, session_id
+      `;
+      if (oldRows.length === 0) continue;
+      superseded += oldRows.length;
+
+      // A rebase run outside any session still belongs to the session that
+      // made the original commit
+      const replacement = replacements[0];
+      const inheritedSessionId =
+        (oldRows.find((r: any) => r.session_id)?.session_id as string | undefined) ?? null;
+      affectedSessions.push(
+        ...oldRows.map((r: any) => r.session_id as string | null),
+        (replacement.session_id as string | null) ?? inheritedSessionId,
+      );
+
+      await tx`
+        UPDATE git_activity
+        SET session_id = COALESCE(session_id, ${inheritedSessionId}),
+            data = data || ${JSON.stringify({ rewritten_from: oldSha, rewrite_kind: kind })}::jsonb
+        WHERE id = ${replacement.id}
+      `;
+      if (inheritedSessionId && !replacement.session_id) {
+        await tx`
+          UPDATE events SET session_id = ${inheritedSessionId}
+          WHERE id = ${replacement.id} AND session_id IS NULL
+        `;
+      }
+    }
+  });
+
+  await refreshDailyUsageForSessions(sql, affectedSessions);
+
+  logger.info(
+    { kind, mappings: mappings.length, superseded, repointed },
+    "Processed git.rewrite event",
+  );
+}
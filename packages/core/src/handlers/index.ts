@@ -4,10 +4,13 @@
  * Creates an EventHandlerRegistry pre-populated with all registered handlers:
  *   - session.start    -> handleSessionStart
  *   - session.end      -> handleSessionEnd
+ *   - session.prompt   -> handleSessionPrompt
+ *   - session.compact  -> handleSessionCompact
  *   - git.commit       -> handleGitCommit
  *   - git.push         -> handleGitPush
  *   - git.checkout     -> handleGitCheckout
  *   - git.merge        -> handleGitMerge
+ *   - git.rewrite      -> handleGitRewrite
  *   - subagent.start   -> handleSubagentStart
  *   - subagent.stop    -> handleSubagentStop
  *   - team.create      -> handleTeamCreate
@@ -15,16 +18,20 @@
  *   - skill.invoke     -> handleSkillInvoke
  *   - worktree.create  -> handleWorktreeCreate
  *   - worktree.remove  -> handleWorktreeRemove
+ *   - system.heartbeat -> handleSystemHeartbeat
  */
 
 import type { Logger } from "pino";
 import { EventHandlerRegistry } from "../event-processor.js";
 import { handleSessionStart } from "./session-start.js";
 import { handleSessionEnd } from "./session-end.js";
+import { handleSessionPrompt } from "./session-prompt.js";
+import { handleSessionCompact } from "./session-compact.js";
 import { handleGitCommit } from "./git-commit.js";
 import { handleGitPush } from "./git-push.js";
 import { handleGitCheckout } from "./git-checkout.js";
 import { handleGitMerge } from "./git-merge.js";
+import { handleGitRewrite } from "./git-rewrite.js";
 import { handleSubagentStart } from "./subagent-start.js";
 import { handleSubagentStop } from "./subagent-stop.js";
 import { handleTeamCreate } from "./team-create.js";
@@ -32,6 +39,7 @@ import { handleTeamMessage } from "./team-message.js";
 import { handleSkillInvoke } from "./skill-invoke.js";
 import { handleWorktreeCreate } from "./worktree-create.js";
 import { handleWorktreeRemove } from "./worktree-remove.js";
+import { handleSystemHeartbeat } from "./system-heartbeat.js";
 
 /**
  * Create a handler registry with all handlers registered.
@@ -45,12 +53,15 @@ export function createHandlerRegistry(logger?: Logger): EventHandlerRegistry {
   // Session lifecycle handlers (Phase 1)
   registry.register("session.start", handleSessionStart, logger);
   registry.register("session.end", handleSessionEnd, logger);
+  registry.register("session.prompt", handleSessionPrompt, logger);
+  registry.register("session.compact", handleSessionCompact, logger);
 
   // Git event handlers (Phase 3)
   registry.register("git.commit", handleGitCommit, logger);
   registry.register("git.push", handleGitPush, logger);
   registry.register("git.checkout", handleGitCheckout, logger);
   registry.register("git.merge", handleGitMerge, logger);
+  registry.register("git.rewrite", handleGitRewrite, logger);
 
   // CC hook event handlers (Phase 4-2): sub-agents, teams, skills, worktrees
   registry.register("subagent.start", handleSubagentStart, logger);
@@ -61,16 +72,22 @@ export function createHandlerRegistry(logger?: Logger): EventHandlerRegistry {
   registry.register("worktree.create", handleWorktreeCreate, logger);
   registry.register("worktree.remove", handleWorktreeRemove, logger);
 
+  // Device presence: heartbeats from active CLIs
+  registry.register("system.heartbeat", handleSystemHeartbeat, logger);
+
   return registry;
 }
 
 // Re-export individual handlers for direct use or testing
 export { handleSessionStart } from "./session-start.js";
 export { handleSessionEnd } from "./session-end.js";
+export { handleSessionPrompt } from "./session-prompt.js";
+export { handleSessionCompact } from "./session-compact.js";
 export { handleGitCommit } from "./git-commit.js";
 export { handleGitPush } from "./git-push.js";
 export { handleGitCheckout } from "./git-checkout.js";
 export { handleGitMerge } from "./git-merge.js";
+export { handleGitRewrite } from "./git-rewrite.js";
 export { handleSubagentStart } from "./subagent-start.js";
 export { handleSubagentStop } from "./subagent-stop.js";
 export { handleTeamCreate } from "./team-create.js";
@@ -78,4 +95,5 @@ export { handleTeamMessage } from "./team-message.js";
 export { handleSkillInvoke } from "./skill-invoke.js";
 export { handleWorktreeCreate } from "./worktree-create.js";
 export { handleWorktreeRemove } from "./worktree-remove.js";
+export { handleSystemHeartbeat } from "./system-heartbeat.js";
 export { resolveSessionByCC } from "./resolve-session.js";
@@ -0,0 +1,62 @@
+/**
+ * Handler for "session.compact" events.
+ *
+ * Emitted by the PreCompact hook just before Claude Code compacts a session's
+ * context. Bumps sessions.compact_count and appends the event timestamp to
+ * sessions.compacted_at so live sessions show how often the context has been
+ * reset. Per-message boundaries are filled in later by the transcript parser
+ * (transcript_messages.compact_sequence / is_compacted).
+ *
+ * compact_count never goes backwards and catches up to compact_sequence + 1,
+ * so a compaction the hook missed (e.g. fuel-code installed mid-session) is
+ * still reflected in the count once the next one arrives.
+ */
+
+import type { EventHandlerContext } from "../event-processor.js";
+
+/**
+ * Handle a session.compact event by recording the compaction on the session.
+ *
+ * Extracts from event.data:
+ *   - cc_session_id: identifies which session was compacted
+ *   - compact_sequence: 0-based index of this compaction within the session
+ *   - trigger / snapshot_s3_key: logged only (the event row keeps them)
+ */
+export async function handleSessionCompact(ctx: EventHandlerContext): Promise<void> {
+  const { sql, event, logger } = ctx;
+
+  const ccSessionId = event.data.cc_session_id as string;
+  const compactSequence = (event.data.compact_sequence as number | undefined) ?? 0;
+
+  logger.info(
+    {
+      ccSessionId,
+      compactSequence,
+      trigger: event.data.trigger ?? null,
+      snapshotS3Key: event.data.snapshot_s3_key ?? null,
+    },
+    "Recording session compaction",
+  );
+
+  const rows = await sql`
+    UPDATE sessions
+    SET compact_count = GREATEST(compact_count + 1, ${compactSequence + 1}),
+        compacted_at  = array_append(compacted_at, ${event.timestamp}::timestamptz),
+        updated_at    = now()
+    WHERE id = ${ccSessionId}
+    RETURNING id
+  `;
+
+  if (rows.length === 0) {
+    // Compaction only happens mid-session, so the row should exist. Nothing
+    // to attach the count to — the event row itself still records it.
+    logger.warn({ ccSessionId }, "session.compact: session not found, skipping");
+    return;
+  }
+
+  // Backfill events.session_id so this event appears in "events for session X"
+  // queries. The event was inserted with session_id=null to avoid FK races.
+  await sql`
+    UPDATE events SET session_id = ${ccSessionId} WHERE id = ${event.id}
+  `;
+}
@@ -77,7 +77,7 @@ export async function handleSessionEnd(ctx: EventHandlerContext): Promise<void>
       await sql`
         INSERT INTO sessions (
           id, workspace_id, device_id, lifecycle, started_at, ended_at,
-          end_reason, duration_ms, git_branch, model, source, metadata
+          end_reason, duration_ms, git_branch, model, source, metadata, user_id
         ) VALUES (
           ${ccSessionId},
           ${workspaceId},
@@ -90,7 +90,8 @@ export async function handleSessionEnd(ctx: EventHandlerContext): Promise<void>
           ${gitBranch},
           ${model},
           ${"backfill"},
-          ${JSON.stringify({})}
+          ${JSON.stringify({})},
+          ${event.user_id ?? null}
         )
         ON CONFLICT (id) DO NOTHING
       `;
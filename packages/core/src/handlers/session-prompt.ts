@@ -0,0 +1,94 @@
+/**
+ * Handler for "session.prompt" events.
+ *
+ * Emitted by the UserPromptSubmit hook for every prompt the user submits.
+ * Stores the prompt in session_prompts and, for the first prompt, seeds
+ * sessions.initial_prompt so session lists show what a live session is
+ * about before the transcript is parsed (the parser overwrites it later
+ * with the transcript-derived value).
+ *
+ * The prompt hook fires right after SessionStart, and both are emitted in
+ * the background, so session.prompt can win the race. If the session row
+ * doesn't exist yet, a 'detected' row is created (session.start's insert
+ * is ON CONFLICT DO NOTHING, so it won't fail when it arrives).
+ */
+
+import type { EventHandlerContext } from "../event-processor.js";
+import { generateId } from "@fuel-code/shared";
+import { resolveSessionByCC } from "./resolve-session.js";
+
+/** Max length (chars) of the initial_prompt seeded from a live prompt — matches the parser */
+const MAX_INITIAL_PROMPT_CHARS = 1000;
+
+/**
+ * Handle a session.prompt event by inserting a session_prompts row.
+ *
+ * Extracts from event.data:
+ *   - cc_session_id: CC session the prompt was submitted in
+ *   - prompt: prompt text (already redacted by the CLI)
+ *   - redacted / truncated: flags set by the CLI
+ *   - git_branch: used only if the session row has to be created here
+ */
+export async function handleSessionPrompt(ctx: EventHandlerContext): Promise<void> {
+  const { sql, event, workspaceId, logger } = ctx;
+
+  const ccSessionId = event.data.cc_session_id as string;
+  const prompt = event.data.prompt as string;
+  const redacted = (event.data.redacted as boolean | undefined) ?? false;
+  const truncated = (event.data.truncated as boolean | undefined) ?? false;
+
+  const session = await resolveSessionByCC(sql, ccSessionId);
+  if (!session) {
+    // Out-of-order: session.prompt arrived before session.start.
+    logger.warn({ ccSessionId }, "session.prompt: session not found, creating row at detected");
+
+    const gitBranch = (event.data.git_branch as string | null | undefined) ?? null;
+
+    await sql`
+      INSERT INTO sessions (id, workspace_id, device_id, lifecycle, started_at, git_branch, source, metadata, user_id)
+      VALUES (
+        ${ccSessionId},
+        ${workspaceId},
+        ${event.device_id},
+        ${"detected"},
+        ${event.timestamp},
+        ${gitBranch},
+        ${"startup"},
+        ${JSON.stringify({})},
+        ${event.user_id ?? null}
+      )
+      ON CONFLICT (id) DO NOTHING
+    `;
+  }
+
+  const id = generateId();
+
+  logger.info({ id, ccSessionId, chars: prompt.length, redacted }, "Recording session prompt");
+
+  await sql`
+    INSERT INTO session_prompts (id, session_id, event_id, prompt, submitted_at, redacted, truncated)
+    VALUES (
+      ${id},
+      ${ccSessionId},
+      ${event.id},
+      ${prompt},
+      ${event.timestamp},
+      ${redacted},
+      ${truncated}
+    )
+    ON CONFLICT (event_id) DO NOTHING
+  `;
+
+  // First prompt wins: later prompts never replace the session's headline
+  await sql`
+    UPDATE sessions
+    SET initial_prompt = ${prompt.slice(0, MAX_INITIAL_PROMPT_CHARS)}, updated_at = now()
+    WHERE id = ${ccSessionId} AND initial_prompt IS NULL
+  `;
+
+  // Backfill events.session_id so this event appears in "events for session X"
+  // queries. The event was inserted with session_id=null to avoid FK races.
+  await sql`
+    UPDATE events SET session_id = ${ccSessionId} WHERE id = ${event.id}
+  `;
+}
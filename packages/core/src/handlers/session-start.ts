@@ -6,13 +6,16 @@
  * the event's data.cc_session_id (Claude Code's own session identifier).
  *
  * After creating the session row, checks whether git hooks should be
- * prompted for this workspace+device pair (Task 4: auto-prompt).
+ * prompted for this workspace+device pair (Task 4: auto-prompt), and folds
+ * the repo's local-only workspace into this one if the repo has gained a
+ * remote since (see workspace-merge.ts).
  *
  * ON CONFLICT (id) DO NOTHING ensures idempotency — if the session row
  * already exists (e.g., event replayed), we silently skip.
  */
 
 import type { EventHandlerContext } from "../event-processor.js";
+import { mergeLocalWorkspace } from "../workspace-merge.js";
 
 /**
  * Handle a session.start event by inserting a session row.
@@ -23,6 +26,7 @@ import type { EventHandlerContext } from "../event-processor.js";
  *   - model: Claude model being used
  *   - source: how the session was initiated (startup/resume/clear/compact)
  *   - transcript_path: S3 key for the transcript blob
+ *   - local_workspace_id: the repo's "local:<sha256>" ID, sent when it has a remote
  */
 export async function handleSessionStart(ctx: EventHandlerContext): Promise<void> {
   const { sql, event, workspaceId, logger } = ctx;
@@ -39,7 +43,7 @@ export async function handleSessionStart(ctx: EventHandlerContext): Promise<void
   // Uses the CC session ID as the primary key so it can be looked up
   // by session.end events using the same ID.
   await sql`
-    INSERT INTO sessions (id, workspace_id, device_id, lifecycle, started_at, git_branch, model, source, metadata)
+    INSERT INTO sessions (id, workspace_id, device_id, lifecycle, started_at, git_branch, model, source, metadata, user_id)
     VALUES (
       ${ccSessionId},
       ${workspaceId},
@@ -49,7 +53,8 @@ export async function handleSessionStart(ctx: EventHandlerContext): Promise<void
       ${gitBranch},
       ${model},
       ${source},
-      ${JSON.stringify({})}
+      ${JSON.stringify({})},
+      ${event.user_id ?? null}
     )
     ON CONFLICT (id) DO NOTHING
   `;
@@ -57,6 +62,34 @@ export async function handleSessionStart(ctx: EventHandlerContext): Promise<void
   // After session creation, check if we should flag this workspace+device
   // for a git hooks installation prompt (Task 4).
   await checkGitHooksPrompt(ctx);
+
+  await mergeLocalWorkspaceIfPresent(ctx);
+}
+
+/**
+ * Fold the repo's local-only workspace into this session's workspace.
+ *
+ * The CLI sends data.local_workspace_id (derived from the repo's first
+ * commit) whenever the repo has a remote. If a workspace was recorded under
+ * that ID before the remote was added, its history moves here. Failures are
+ * logged, not thrown — the session row is already in place and the next
+ * session.start retries.
+ */
+async function mergeLocalWorkspaceIfPresent(ctx: EventHandlerContext): Promise<void> {
+  const { sql, event, workspaceId, logger } = ctx;
+
+  const localWorkspaceId = event.data.local_workspace_id as string | undefined;
+  if (!localWorkspaceId) return;
+  if (event.workspace_id === "_unassociated" || event.workspace_id.startsWith("local:")) return;
+
+  try {
+    await mergeLocalWorkspace(sql, localWorkspaceId, workspaceId, logger);
+  } catch (err) {
+    logger.warn(
+      { localWorkspaceId, workspaceId, error: err instanceof Error ? err.message : String(err) },
+      "Failed to merge local workspace",
+    );
+  }
 }
 
 /**
@@ -0,0 +1,40 @@
+/**
+ * Handler for "system.heartbeat" events.
+ *
+ * Sent by the CLI at most once a minute while it is in use. The event
+ * processor has already upserted the device; this handler records the
+ * heartbeat proper — last_seen_at plus bringing an offline device back
+ * online — and tells connected clients the device is active.
+ */
+
+import type { EventHandlerContext } from "../event-processor.js";
+import { updateDeviceLastSeen } from "../device-resolver.js";
+
+/**
+ * Handle a system.heartbeat event by marking the sending device as online.
+ *
+ * Extracts from event.data:
+ *   - source / queue_depth / active_sessions: logged only (the event row keeps them)
+ */
+export async function handleSystemHeartbeat(ctx: EventHandlerContext): Promise<void> {
+  const { sql, event, logger, pipelineDeps } = ctx;
+
+  const presence = await updateDeviceLastSeen(sql, event.device_id);
+  if (!presence) {
+    logger.warn({ deviceId: event.device_id }, "system.heartbeat: device not found, skipping");
+    return;
+  }
+
+  logger.debug(
+    {
+      deviceId: presence.deviceId,
+      status: presence.status,
+      source: event.data.source,
+      queueDepth: event.data.queue_depth ?? null,
+      activeSessions: event.data.active_sessions ?? null,
+    },
+    "Recorded device heartbeat",
+  );
+
+  pipelineDeps?.deviceNotifier?.deviceUpdated(presence);
+}
@@ -22,6 +22,15 @@ export {
   updateDeviceLastSeen,
 } from "./device-resolver.js";
 
+// Device presence: heartbeats, offline sweep, device.update notifications
+export {
+  markStaleDevicesOffline,
+  loadDeviceOfflineMs,
+  DEFAULT_DEVICE_OFFLINE_MS,
+  type DevicePresence,
+  type DeviceNotifier,
+} from "./device-presence.js";
+
 // Workspace-Device junction: link a workspace to a device with local path
 export { ensureWorkspaceDeviceLink } from "./workspace-device-link.js";
 
@@ -31,6 +40,7 @@ export {
   EventHandlerRegistry,
   type EventHandlerContext,
   type EventHandler,
+  type ProcessEventOptions,
   type ProcessResult,
 } from "./event-processor.js";
 
@@ -38,15 +48,25 @@ export {
 export { createHandlerRegistry } from "./handlers/index.js";
 export { handleSessionStart } from "./handlers/session-start.js";
 export { handleSessionEnd } from "./handlers/session-end.js";
+export { handleSessionPrompt } from "./handlers/session-prompt.js";
+export { handleSessionCompact } from "./handlers/session-compact.js";
 export { handleGitCommit } from "./handlers/git-commit.js";
 export { handleGitPush } from "./handlers/git-push.js";
 export { handleGitCheckout } from "./handlers/git-checkout.js";
 export { handleGitMerge } from "./handlers/git-merge.js";
+export { handleGitRewrite } from "./handlers/git-rewrite.js";
+export { handleSystemHeartbeat } from "./handlers/system-heartbeat.js";
 
 // Git-session correlation: link git events to active CC sessions
 export {
   correlateGitEventToSession,
+  recorrelateOrphanGitActivity,
+  HEURISTIC_GRACE_MS,
+  type CorrelationConfidence,
   type CorrelationResult,
+  type RecorrelateCursor,
+  type RecorrelateOptions,
+  type RecorrelateResult,
 } from "./git-correlator.js";
 
 // Session lifecycle state machine: transitions, guards, recovery
@@ -65,6 +85,26 @@ export {
 // Transcript parser: JSONL → structured messages + content blocks
 export { parseTranscript, type ParseOptions } from "./transcript-parser.js";
 
+// Session diff: replay Write/Edit/MultiEdit tool calls into per-file unified diffs
+export {
+  reconstructSessionDiff,
+  loadSessionDiffSource,
+  diffLines,
+  DIFF_CONTEXT_LINES,
+  type DiffSourceBlock,
+} from "./session-diff.js";
+
+// File history index: which sessions and commits touched a path
+export {
+  indexSessionFiles,
+  indexCommitFiles,
+  collectFileAccesses,
+  normalizeFilePath,
+  type FileAccess,
+  type FileAccessBlock,
+  type CommitFileEntry,
+} from "./session-files.js";
+
 // Summary generator: LLM-powered session summaries
 export {
   generateSummary,
@@ -93,6 +133,67 @@ export {
   type SummaryRetryResult,
 } from "./session-recovery.js";
 
+// Abandoned session reaper: end detected sessions whose SessionEnd never came
+export {
+  reapAbandonedSessions,
+  recordTranscriptActivity,
+  loadReaperConfig,
+  DEFAULT_REAPER_CONFIG,
+  type ReaperConfig,
+  type ReapReason,
+  type ReapedSession,
+  type ReapResult,
+  type TranscriptActivityResult,
+} from "./session-reaper.js";
+
+// Session repricing: recompute costs from stored usage when pricing changes
+export {
+  repriceSession,
+  repriceStaleSessions,
+  type RepriceResult,
+  type RepriceSweepResult,
+} from "./session-reprice.js";
+
+// Daily usage rollup: per-day stats maintained as sessions are parsed/repriced
+export {
+  refreshDailyUsage,
+  refreshDailyUsageForSessions,
+  rebuildWorkspaceUsage,
+  ROLLUP_LIFECYCLES,
+} from "./usage-rollup.js";
+
+// Workspace merges: fold a local-only workspace into its remote one, and undo
+export {
+  mergeWorkspaces,
+  mergeLocalWorkspace,
+  unmergeWorkspace,
+  listWorkspaceMerges,
+  type WorkspaceMergeReason,
+  type WorkspaceMergeResult,
+  type WorkspaceUnmergeResult,
+  type WorkspaceMergeRecord,
+} from "./workspace-merge.js";
+
+// Tool result artifacts: full content of oversized tool results, stored in S3
+export { uploadToolResultArtifacts } from "./tool-result-artifacts.js";
+
+// Session archival: prune parsed rows for old sessions, restore from S3 backup
+export {
+  archiveSession,
+  archiveOldSessions,
+  restoreSession,
+  findArchiveCandidates,
+  loadParsedBackup,
+  loadArchiveConfig,
+  DEFAULT_ARCHIVE_AFTER_DAYS,
+  type ArchiveDeps,
+  type ArchiveConfig,
+  type ArchiveCandidate,
+  type ArchiveResult,
+  type RestoreResult,
+  type ArchiveSweepResult,
+} from "./session-archive.js";
+
 // Session backfill: discover and ingest historical Claude Code sessions
 export {
   scanForSessions,
@@ -142,4 +243,33 @@ export {
   type ReconcileDeps,
   type ReconcileResult,
   type ReconcileS3Client,
+  type SessionNotifier,
+  type SessionUpdateNotification,
 } from "./reconcile/index.js";
+
+// Outbound webhooks: match events to webhooks, signed delivery with retry
+export {
+  createWebhookDispatcher,
+  webhookBackoffMs,
+  DEFAULT_WEBHOOK_OPTIONS,
+  type WebhookDispatcher,
+  type WebhookDispatcherDeps,
+  type WebhookDispatcherOptions,
+  type WebhookEventInput,
+  type WebhookSweepResult,
+} from "./webhooks.js";
+
+// Prometheus metrics: process-wide registry rendered by GET /api/metrics
+export {
+  metrics,
+  createMetricsRegistry,
+  METRICS_CONTENT_TYPE,
+  DEFAULT_LATENCY_BUCKETS,
+} from "./metrics.js";
+export type {
+  MetricsRegistry,
+  MetricLabels,
+  Counter,
+  Gauge,
+  Histogram,
+} from "./metrics.js";
@@ -0,0 +1,243 @@
+/**
+ * Prometheus metrics for fuel-code.
+ *
+ * A small in-process registry of counters, gauges and histograms, rendered
+ * in the Prometheus text exposition format (0.0.4) by GET /api/metrics.
+ *
+ * Metrics are process-wide, like the server's pino logger: each module
+ * defines its metrics once at load time on the shared `metrics` registry and
+ * records into them directly, so hot paths (event handlers, reconcile steps,
+ * S3 calls) need no extra dependency threaded through. Defining a metric
+ * that already exists returns the existing one.
+ *
+ * Label values are kept to small, fixed sets (event types, step names,
+ * outcomes) — never IDs — to bound the number of series.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Label name -> value for one series */
+export type MetricLabels = Record<string, string | number>;
+
+/** Monotonically increasing count (requests, errors, events) */
+export interface Counter {
+  inc(labels?: MetricLabels, by?: number): void;
+}
+
+/** Value that goes up and down (connections, queue depth, lag) */
+export interface Gauge {
+  set(value: number, labels?: MetricLabels): void;
+  inc(labels?: MetricLabels, by?: number): void;
+  dec(labels?: MetricLabels, by?: number): void;
+  /** Drop every series (e.g. when the source can't be read) */
+  reset(): void;
+}
+
+/** Distribution of observed values (latencies in seconds) */
+export interface Histogram {
+  observe(value: number, labels?: MetricLabels): void;
+  /**
+   * Start timing; the returned function records the elapsed seconds with
+   * the start labels merged with any given at stop time, and returns them.
+   */
+  startTimer(labels?: MetricLabels): (labels?: MetricLabels) => number;
+}
+
+/** A set of metrics rendered together */
+export interface MetricsRegistry {
+  counter(name: string, help: string): Counter;
+  gauge(name: string, help: string): Gauge;
+  histogram(name: string, help: string, buckets?: readonly number[]): Histogram;
+  /** All metrics in the Prometheus text format */
+  render(): string;
+  /** Clear every recorded value (metric definitions are kept) */
+  reset(): void;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Content-Type of the rendered exposition */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Default latency buckets, in seconds: 5ms up to a minute */
+export const DEFAULT_LATENCY_BUCKETS: readonly number[] = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+];
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+/** Internal view of a metric: how to render and clear it */
+interface RegisteredMetric {
+  type: MetricType;
+  help: string;
+  api: Counter | Gauge | Histogram;
+  lines(): string[];
+  clear(): void;
+}
+
+/**
+ * Create an empty registry. Production code uses the shared `metrics`
+ * registry below; separate registries are for tests.
+ */
+export function createMetricsRegistry(): MetricsRegistry {
+  const registered = new Map<string, RegisteredMetric>();
+
+  /** Return the metric called `name`, creating it on first use */
+  function define<T extends Counter | Gauge | Histogram>(
+    name: string,
+    type: MetricType,
+    help: string,
+    build: () => Omit<RegisteredMetric, "type" | "help">,
+  ): T {
+    const existing = registered.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing.api as T;
+    }
+    const metric = { type, help, ...build() };
+    registered.set(name, metric);
+    return metric.api as T;
+  }
+
+  return {
+    counter(name, help) {
+      return define<Counter>(name, "counter", help, () => {
+        const series = new Map<string, number>();
+        return {
+          api: {
+            inc(labels, by = 1) {
+              const key = labelKey(labels);
+              series.set(key, (series.get(key) ?? 0) + by);
+            },
+          },
+          lines: () => [...series].map(([key, value]) => sample(name, key, value)),
+          clear: () => series.clear(),
+        };
+      });
+    },
+
+    gauge(name, help) {
+      return define<Gauge>(name, "gauge", help, () => {
+        const series = new Map<string, number>();
+        const add = (labels: MetricLabels | undefined, by: number) => {
+          const key = labelKey(labels);
+          series.set(key, (series.get(key) ?? 0) + by);
+        };
+        return {
+          api: {
+            set: (value, labels) => void series.set(labelKey(labels), value),
+            inc: (labels, by = 1) => add(labels, by),
+            dec: (labels, by = 1) => add(labels, -by),
+            reset: () => series.clear(),
+          },
+          lines: () => [...series].map(([key, value]) => sample(name, key, value)),
+          clear: () => series.clear(),
+        };
+      });
+    },
+
+    histogram(name, help, buckets = DEFAULT_LATENCY_BUCKETS) {
+      return define<Histogram>(name, "histogram", help, () => {
+        const bounds = [...buckets].sort((a, b) => a - b);
+        const series = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+        const observe = (value: number, labels?: MetricLabels) => {
+          const key = labelKey(labels);
+          let s = series.get(key);
+          if (!s) {
+            s = { counts: bounds.map(() => 0), sum: 0, count: 0 };
+            series.set(key, s);
+          }
+          for (let i = 0; i < bounds.length; i++) {
+            if (value <= bounds[i]) s.counts[i]++;
+          }
+          s.sum += value;
+          s.count++;
+        };
+
+        return {
+          api: {
+            observe,
+            startTimer(startLabels) {
+              const start = performance.now();
+              return (stopLabels) => {
+                const seconds = (performance.now() - start) / 1000;
+                observe(seconds, { ...startLabels, ...stopLabels });
+                return seconds;
+              };
+            },
+          },
+          lines: () => {
+            const out: string[] = [];
+            for (const [key, s] of series) {
+              bounds.forEach((bound, i) => {
+                out.push(sample(`${name}_bucket`, joinLabels(key, `le="${bound}"`), s.counts[i]));
+              });
+              out.push(sample(`${name}_bucket`, joinLabels(key, `le="+Inf"`), s.count));
+              out.push(sample(`${name}_sum`, key, s.sum));
+              out.push(sample(`${name}_count`, key, s.count));
+            }
+            return out;
+          },
+          clear: () => series.clear(),
+        };
+      });
+    },
+
+    render() {
+      const out: string[] = [];
+      for (const [name, metric] of registered) {
+        out.push(`# HELP ${name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+        out.push(`# TYPE ${name} ${metric.type}`);
+        out.push(...metric.lines());
+      }
+      return out.join("\n") + "\n";
+    },
+
+    reset() {
+      for (const metric of registered.values()) metric.clear();
+    },
+  };
+}
+
+/** The process-wide registry served by GET /api/metrics */
+export const metrics: MetricsRegistry = createMetricsRegistry();
+
+// ---------------------------------------------------------------------------
+// Formatting helpers
+// ---------------------------------------------------------------------------
+
+/** Canonical `a="1",b="2"` form of a label set (sorted by name), used as the series key */
+function labelKey(labels: MetricLabels | undefined): string {
+  if (!labels) return "";
+  return Object.keys(labels)
+    .sort()
+    .map((k) => `${k}="${escapeLabelValue(String(labels[k]))}"`)
+    .join(",");
+}
+
+/** Escape a label value per the exposition format */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/** Append one more label to a series key */
+function joinLabels(key: string, extra: string): string {
+  return key ? `${key},${extra}` : extra;
+}
+
+/** One sample line: `name{labels} value` */
+function sample(name: string, key: string, value: number): string {
+  const formatted = Number.isFinite(value) ? String(value) : value > 0 ? "+Inf" : value < 0 ? "-Inf" : "NaN";
+  return key ? `${name}{${key}} ${formatted}` : `${name} ${formatted}`;
+}
@@ -18,6 +18,8 @@ export {
   type ReconcileDeps,
   type ReconcileResult,
   type ReconcileS3Client,
+  type SessionNotifier,
+  type SessionUpdateNotification,
 } from "./reconcile-session.js";
 
 export {
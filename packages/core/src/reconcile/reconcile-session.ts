@@ -12,21 +12,29 @@
  *   2. If needsTranscriptUpload -> return early (caller must upload first)
  *   3. Fix stale timestamps (backfill started_at = ended_at bug)
  *   4. Transition to transcript_ready if not already there or beyond
- *   5. Download and parse main transcript
+ *   5. Download and parse main transcript, upload oversized tool results
  *   6. Persist messages + content_blocks (delete-first for idempotency)
  *   7. Persist relationships (subagents, teams, skills, worktrees)
  *   8. Parse subagent transcripts
- *   9. Update stats, advance to parsed
+ *   9. Update stats, advance to parsed, refresh the daily usage rollup and
+ *      the session_files index
  *  10. Generate session summary -> advance to summarized
  *  11. Generate per-teammate summaries (best-effort, non-fatal)
  *  12. Advance to complete
  *
+ * Every lifecycle transition is reported through the optional injected
+ * notifier (stats once parsed, summary once summarized) so live clients
+ * see progress without polling.
+ *
+ * Each completed step's duration is recorded in the
+ * fuel_code_reconcile_step_duration_seconds histogram.
+ *
  * Never throws — all errors are caught and returned in the result object.
  */
 
 import type { Sql } from "postgres";
 import type { Logger } from "pino";
-import type { TranscriptStats, ParseResult } from "@fuel-code/shared";
+import type { TranscriptStats, ParseResult, SessionStats } from "@fuel-code/shared";
 import { buildParsedBackupKey, generateId } from "@fuel-code/shared";
 import { parseTranscript } from "../transcript-parser.js";
 import { generateSummary, extractInitialPrompt, type SummaryConfig } from "../summary-generator.js";
@@ -35,6 +43,10 @@ import { computeGap, type SessionForGap } from "./compute-gap.js";
 import { generateTeammateSummaries } from "./teammate-summary.js";
 import type { SessionSeed } from "../types/reconcile.js";
 import { buildSeedFromRecovery } from "./session-seed.js";
+import { refreshDailyUsage } from "../usage-rollup.js";
+import { indexSessionFiles } from "../session-files.js";
+import { uploadToolResultArtifacts } from "../tool-result-artifacts.js";
+import { metrics } from "../metrics.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -50,12 +62,34 @@ export interface ReconcileS3Client {
   download(key: string): Promise<string>;
 }
 
+/** A session lifecycle change reported by the reconciler */
+export interface SessionUpdateNotification {
+  sessionId: string;
+  workspaceId: string;
+  lifecycle: SessionLifecycle;
+  /** Set once the session has a summary */
+  summary?: string;
+  /** Set once the session has been parsed */
+  stats?: SessionStats;
+}
+
+/**
+ * Receives lifecycle updates from the reconciler. The server wires this to
+ * the WebSocket broadcaster; core stays unaware of transport. Must not block —
+ * the reconciler calls it synchronously between pipeline steps.
+ */
+export interface SessionNotifier {
+  sessionUpdated(update: SessionUpdateNotification): void;
+}
+
 /** Dependencies injected into reconcileSession — keeps it testable */
 export interface ReconcileDeps {
   sql: Sql;
   s3: ReconcileS3Client;
   summaryConfig: SummaryConfig;
   logger: Logger;
+  /** Optional lifecycle notifier — omitted in tests and offline tools */
+  notifier?: SessionNotifier;
 }
 
 /** Result of a reconcileSession call — always returned, never throws */
@@ -79,6 +113,12 @@ export interface ReconcileResult {
 // Constants
 // ---------------------------------------------------------------------------
 
+/** Duration of each completed reconcile step (labelled with its stepsExecuted name) */
+const reconcileStepDuration = metrics.histogram(
+  "fuel_code_reconcile_step_duration_seconds",
+  "Duration of each reconcile pipeline step, by step name",
+);
+
 /** Batch size for INSERT operations to avoid exceeding Postgres parameter limits */
 const BATCH_SIZE = 500;
 
@@ -102,11 +142,39 @@ export async function reconcileSession(
   deps: ReconcileDeps,
   sessionId: string,
 ): Promise<ReconcileResult> {
-  const { sql, s3, summaryConfig, logger } = deps;
+  const { sql, s3, summaryConfig, logger, notifier } = deps;
   const log = logger.child({ sessionId, component: "reconcile" });
   const errors: string[] = [];
   const stepsExecuted: string[] = [];
 
+  // A step's duration is the time since the previous step completed (or the
+  // run started), so work that doesn't complete a step (a failed best-effort
+  // step, the summary API call) counts toward the next one.
+  let stepMark = performance.now();
+  const completeStep = (step: string): void => {
+    const now = performance.now();
+    reconcileStepDuration.observe((now - stepMark) / 1000, { step });
+    stepMark = now;
+    stepsExecuted.push(step);
+  };
+
+  // Latest known state for notifications. Seeded from the session row and
+  // refreshed as parse and summary steps produce new data.
+  let workspaceId: string | null = null;
+  let liveStats: SessionStats | undefined;
+  let liveSummary: string | undefined;
+
+  const notify = (lifecycle: SessionLifecycle): void => {
+    if (!workspaceId) return;
+    notifySessionUpdate(notifier, log, {
+      sessionId,
+      workspaceId,
+      lifecycle,
+      ...(liveSummary !== undefined ? { summary: liveSummary } : {}),
+      ...(liveStats !== undefined ? { stats: liveStats } : {}),
+    });
+  };
+
   try {
     // -----------------------------------------------------------------------
     // Step 1: Fetch session row, build a recovery seed, and compute the gap
@@ -115,7 +183,8 @@ export async function reconcileSession(
     const sessionRows = await sql`
       SELECT id, workspace_id, device_id, lifecycle, transcript_s3_key,
              started_at, ended_at, duration_ms, summary, subagent_count,
-             git_branch, model, end_reason
+             git_branch, model, end_reason,
+             total_messages, tool_use_count, tokens_in, tokens_out, cost_estimate_usd
       FROM sessions
       WHERE id = ${sessionId}
     `;
@@ -130,6 +199,11 @@ export async function reconcileSession(
 
     const session = sessionRows[0];
     const lifecycle = session.lifecycle as SessionLifecycle;
+    workspaceId = session.workspace_id as string;
+    liveSummary = (session.summary as string | null) ?? undefined;
+    if (session.total_messages != null) {
+      liveStats = sessionStatsFromRow(session);
+    }
 
     // Terminal states: nothing to do
     if (lifecycle === "complete") {
@@ -181,7 +255,7 @@ export async function reconcileSession(
     };
 
     const gap = computeGap(sessionForGap, seed);
-    stepsExecuted.push("computeGap");
+    completeStep("computeGap");
 
     log.info({ lifecycle, gap }, "Computed session gap");
 
@@ -210,7 +284,7 @@ export async function reconcileSession(
           SET started_at = ${seed.startedAt}, updated_at = now()
           WHERE id = ${sessionId}
         `;
-        stepsExecuted.push("fixStaleStartedAt");
+        completeStep("fixStaleStartedAt");
         log.info({ newStartedAt: seed.startedAt }, "Fixed stale started_at");
       } catch (err) {
         const errMsg = `Fix stale started_at failed: ${err instanceof Error ? err.message : String(err)}`;
@@ -226,7 +300,7 @@ export async function reconcileSession(
           SET duration_ms = ${seed.durationMs}, updated_at = now()
           WHERE id = ${sessionId}
         `;
-        stepsExecuted.push("fixStaleDurationMs");
+        completeStep("fixStaleDurationMs");
         log.info({ newDurationMs: seed.durationMs }, "Fixed stale duration_ms");
       } catch (err) {
         const errMsg = `Fix stale duration_ms failed: ${err instanceof Error ? err.message : String(err)}`;
@@ -261,8 +335,9 @@ export async function reconcileSession(
           finalLifecycle: lifecycle,
         });
       }
-      stepsExecuted.push("transitionToTranscriptReady");
+      completeStep("transitionToTranscriptReady");
       log.info("Session advanced to transcript_ready");
+      notify("transcript_ready");
     }
 
     // -----------------------------------------------------------------------
@@ -278,11 +353,12 @@ export async function reconcileSession(
       let transcriptContent: string;
       try {
         transcriptContent = await s3.download(s3Key);
-        stepsExecuted.push("downloadTranscript");
+        completeStep("downloadTranscript");
       } catch (err) {
         const errMsg = `S3 download failed: ${err instanceof Error ? err.message : String(err)}`;
         log.error({ error: errMsg }, "Reconcile S3 download failed");
         await failSession(sql, sessionId, errMsg);
+        notify("failed");
         return makeResult(sessionId, stepsExecuted, {
           parseSuccess: false,
           summarySuccess: false,
@@ -293,7 +369,7 @@ export async function reconcileSession(
 
       // Parse JSONL into structured data
       parseResult = await parseTranscript(sessionId, transcriptContent);
-      stepsExecuted.push("parseTranscript");
+      completeStep("parseTranscript");
 
       // Log line-level parse warnings but continue — partial results are fine
       if (parseResult.errors.length > 0) {
@@ -311,6 +387,13 @@ export async function reconcileSession(
         "Transcript parsed successfully",
       );
 
+      // Store full content of truncated tool results before persisting, so
+      // their blocks are inserted with result_s3_key already set
+      if (parseResult.artifacts && parseResult.artifacts.length > 0) {
+        await uploadToolResultArtifacts(s3, sessionId, parseResult, log);
+        completeStep("uploadArtifacts");
+      }
+
       // Step 6: Persist messages + content_blocks (delete-first for idempotency)
       try {
         await sql.begin(async (tx: any) => {
@@ -320,11 +403,12 @@ export async function reconcileSession(
           await batchInsertMessages(tx, parseResult!.messages);
           await batchInsertContentBlocks(tx, parseResult!.contentBlocks);
         });
-        stepsExecuted.push("persistMessages");
+        completeStep("persistMessages");
       } catch (err) {
         const errMsg = `Persist failed: ${err instanceof Error ? err.message : String(err)}`;
         log.error({ error: errMsg }, "Reconcile persist failed");
         await failSession(sql, sessionId, errMsg);
+        notify("failed");
         return makeResult(sessionId, stepsExecuted, {
           parseSuccess: false,
           summarySuccess: false,
@@ -336,11 +420,11 @@ export async function reconcileSession(
       // Step 7: Persist relationships (subagents, teams, skills, worktrees)
       // Reuses the existing persistRelationships logic from session-pipeline.
       await persistRelationships(sql, sessionId, parseResult, log);
-      stepsExecuted.push("persistRelationships");
+      completeStep("persistRelationships");
 
       // Step 8: Parse subagent transcripts and set teammate_id on their messages
       await parseSubagentTranscripts(sql, s3, sessionId, log);
-      stepsExecuted.push("parseSubagentTranscripts");
+      completeStep("parseSubagentTranscripts");
 
       // Step 9: Update stats, advance to parsed
       const stats = parseResult.stats;
@@ -361,6 +445,7 @@ export async function reconcileSession(
           cache_read_tokens: stats.cache_read_tokens,
           cache_write_tokens: stats.cache_write_tokens,
           cost_estimate_usd: stats.cost_estimate_usd,
+          cost_breakdown: JSON.stringify(stats.cost_breakdown),
         },
       );
 
@@ -377,14 +462,41 @@ export async function reconcileSession(
         });
       }
 
-      stepsExecuted.push("transitionToParsed");
+      completeStep("transitionToParsed");
       log.info("Session advanced to 'parsed'");
+      liveStats = sessionStatsFromTranscript(stats);
+      notify("parsed");
+
+      // Fold the new stats into daily_usage (best-effort: the rollup is
+      // recomputed from sessions, so a later refresh catches up)
+      try {
+        await refreshDailyUsage(sql, sessionId);
+      } catch (err) {
+        log.warn(
+          { error: err instanceof Error ? err.message : String(err) },
+          "Failed to refresh daily usage rollup — ignoring",
+        );
+      }
+
+      // Rebuild the file history index from the persisted tool calls
+      // (best-effort: it is derived data, rebuilt by the next reparse)
+      try {
+        await indexSessionFiles(sql, sessionId);
+        completeStep("indexSessionFiles");
+      } catch (err) {
+        log.warn(
+          { error: err instanceof Error ? err.message : String(err) },
+          "Failed to index session files — ignoring",
+        );
+      }
 
       // Upload parsed backup to S3 (best-effort, fire-and-forget)
       try {
         const keyParts = s3Key.split("/");
         const backupKey = buildParsedBackupKey(keyParts[1], sessionId);
-        await s3.upload(backupKey, JSON.stringify(parseResult), "application/json");
+        // Artifacts already live under their own keys — keep them out of the backup
+        const { artifacts: _artifacts, ...backup } = parseResult;
+        await s3.upload(backupKey, JSON.stringify(backup), "application/json");
         log.info({ backupKey }, "Parsed backup uploaded to S3");
       } catch (err) {
         log.warn(
@@ -445,8 +557,10 @@ export async function reconcileSession(
 
           if (summaryTransition.success) {
             summarySuccess = true;
-            stepsExecuted.push("transitionToSummarized");
+            completeStep("transitionToSummarized");
             log.info("Session advanced to 'summarized'");
+            liveSummary = summaryResult.summary;
+            notify("summarized");
           } else {
             log.warn({ reason: summaryTransition.reason }, "Lifecycle transition to 'summarized' failed");
             errors.push(`Transition to summarized failed: ${summaryTransition.reason}`);
@@ -459,7 +573,8 @@ export async function reconcileSession(
             sql, sessionId, "parsed", "summarized", { summary: undefined },
           );
           if (skipTransition.success) {
-            stepsExecuted.push("transitionToSummarized");
+            completeStep("transitionToSummarized");
+            notify("summarized");
           }
           summarySuccess = true;
         } else {
@@ -496,7 +611,7 @@ export async function reconcileSession(
             { sql: deps.sql, summaryConfig: deps.summaryConfig, logger: log },
             sessionId,
           );
-          stepsExecuted.push("generateTeammateSummaries");
+          completeStep("generateTeammateSummaries");
         } catch (err) {
           logger.warn(
             { sessionId, error: err instanceof Error ? err.message : String(err) },
@@ -520,8 +635,9 @@ export async function reconcileSession(
       if (currentLifecycle === "summarized") {
         const completeTransition = await transitionSession(sql, sessionId, "summarized", "complete");
         if (completeTransition.success) {
-          stepsExecuted.push("transitionToComplete");
+          completeStep("transitionToComplete");
           log.info("Session advanced to 'complete'");
+          notify("complete");
         } else {
           log.warn(
             { reason: completeTransition.reason },
@@ -553,7 +669,8 @@ export async function reconcileSession(
 
     // Try to fail the session if possible
     try {
-      await failSession(sql, sessionId, errMsg);
+      const failResult = await failSession(sql, sessionId, errMsg);
+      if (failResult.success) notify("failed");
     } catch {
       // Can't even fail — just log
       log.error("Could not transition session to failed");
@@ -590,6 +707,51 @@ function makeResult(
   };
 }
 
+/**
+ * Deliver a session update to the notifier. A misbehaving notifier must never
+ * break the pipeline, so failures are logged and swallowed.
+ */
+function notifySessionUpdate(
+  notifier: SessionNotifier | undefined,
+  log: Logger,
+  update: SessionUpdateNotification,
+): void {
+  if (!notifier) return;
+  try {
+    notifier.sessionUpdated(update);
+  } catch (err) {
+    log.warn(
+      { lifecycle: update.lifecycle, error: err instanceof Error ? err.message : String(err) },
+      "Session notifier threw — ignoring",
+    );
+  }
+}
+
+/** Build broadcast stats from freshly computed transcript stats */
+function sessionStatsFromTranscript(stats: TranscriptStats): SessionStats {
+  return {
+    total_messages: stats.total_messages,
+    total_cost_usd: stats.cost_estimate_usd,
+    duration_ms: stats.duration_ms,
+    tokens_in: stats.tokens_in,
+    tokens_out: stats.tokens_out,
+    tool_use_count: stats.tool_use_count,
+  };
+}
+
+/** Build broadcast stats from a previously parsed session row */
+function sessionStatsFromRow(row: Record<string, unknown>): SessionStats {
+  const num = (v: unknown): number | undefined => (v != null ? Number(v) : undefined);
+  return {
+    total_messages: num(row.total_messages),
+    total_cost_usd: num(row.cost_estimate_usd),
+    duration_ms: num(row.duration_ms),
+    tokens_in: num(row.tokens_in),
+    tokens_out: num(row.tokens_out),
+    tool_use_count: num(row.tool_use_count),
+  };
+}
+
 /**
  * Look up the canonical_id for a workspace, falling back to the workspace_id
  * itself if the lookup fails.
@@ -746,6 +908,8 @@ async function parseSubagentTranscripts(
           continue;
         }
 
+        await uploadToolResultArtifacts(s3, sessionId, subParseResult, logger);
+
         // Resolve teammate_id for team-affiliated subagents.
         // Uses the subagent's parsed transcript to extract the teammate name,
         // then looks up the teammates table for the matching row.
@@ -797,6 +961,7 @@ async function parseSubagentTranscripts(
 
 // ---------------------------------------------------------------------------
 // Batch insert helpers (identical to session-pipeline.ts)
+// Exported for session-archive.ts, which restores rows from the parsed backup.
 // ---------------------------------------------------------------------------
 
 import type { TranscriptMessage, ParsedContentBlock } from "@fuel-code/shared";
@@ -809,7 +974,7 @@ import { resolveTeammateFromParseResult } from "./teammate-mapping.js";
  * @param subagentId  - FK to subagents table; null for main session messages
  * @param teammateId  - FK to teammates table; set for team-affiliated subagent messages
  */
-async function batchInsertMessages(
+export async function batchInsertMessages(
   tx: Sql,
   messages: TranscriptMessage[],
   subagentId: string | null = null,
@@ -879,7 +1044,7 @@ async function batchInsertMessages(
  * @param subagentId  - FK to subagents table; null for main session blocks
  * @param teammateId  - FK to teammates table; set for team-affiliated subagent blocks
  */
-async function batchInsertContentBlocks(
+export async function batchInsertContentBlocks(
   tx: Sql,
   blocks: ParsedContentBlock[],
   subagentId: string | null = null,
@@ -889,7 +1054,7 @@ async function batchInsertContentBlocks(
     const chunk = blocks.slice(i, i + BATCH_SIZE);
     if (chunk.length === 0) continue;
 
-    const colCount = 16;
+    const colCount = 17;
     const placeholders: string[] = [];
     const values: unknown[] = [];
 
@@ -900,7 +1065,7 @@ async function batchInsertContentBlocks(
         `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, ` +
         `$${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9}, $${offset + 10}, ` +
         `$${offset + 11}, $${offset + 12}, $${offset + 13}, $${offset + 14}, $${offset + 15}, ` +
-        `$${offset + 16})`,
+        `$${offset + 16}, $${offset + 17})`,
       );
       values.push(
         b.id,
@@ -916,6 +1081,7 @@ async function batchInsertContentBlocks(
         b.tool_result_id,
         b.is_error,
         b.result_text,
+        b.result_s3_key ?? null,
         JSON.stringify(b.metadata),
         subagentId,
         teammateId,
@@ -926,7 +1092,8 @@ async function batchInsertContentBlocks(
       `INSERT INTO content_blocks (
         id, message_id, session_id, block_order, block_type,
         content_text, thinking_text, tool_name, tool_use_id, tool_input,
-        tool_result_id, is_error, result_text, metadata, subagent_id, teammate_id
+        tool_result_id, is_error, result_text, result_s3_key, metadata,
+        subagent_id, teammate_id
       ) VALUES ${placeholders.join(", ")}`,
       values as any[],
     );
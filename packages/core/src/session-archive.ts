@@ -0,0 +1,416 @@
+/**
+ * Session archival for fuel-code.
+ *
+ * transcript_messages and content_blocks are by far the largest tables and
+ * are only needed while someone is reading a transcript. Once a session is
+ * complete, the parser's output is already in S3 as parsed.json (uploaded by
+ * reconcileSession), so old sessions can drop their parsed rows and be
+ * rehydrated from that backup on demand.
+ *
+ * Archiving a session:
+ *   1. Download the parsed.json backup for its transcript
+ *   2. Verify the backup's message and content block counts match the rows
+ *      in the database — any mismatch (or missing backup) skips the session
+ *   3. In one transaction: mark the session archived (archived_at = now())
+ *      and delete its main-transcript messages and content blocks
+ *
+ * Restoring re-inserts the rows from the backup and clears archived_at.
+ *
+ * The lifecycle stays 'complete' — archival is a storage concern, not a
+ * pipeline stage, so archived_at is tracked separately. Only main-transcript
+ * rows (subagent_id IS NULL) are archived: sub-agent transcripts are parsed
+ * separately and are not part of the parsed.json backup.
+ */
+
+import type { Sql } from "postgres";
+import type { Logger } from "pino";
+import { buildParsedBackupKey, type ParseResult } from "@fuel-code/shared";
+import type { ReconcileS3Client } from "./reconcile/reconcile-session.js";
+import { batchInsertMessages, batchInsertContentBlocks } from "./reconcile/reconcile-session.js";
+import { repriceSession } from "./session-reprice.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Dependencies for archive and restore — a subset of PipelineDeps */
+export interface ArchiveDeps {
+  sql: Sql;
+  s3: ReconcileS3Client;
+  logger: Logger;
+}
+
+/** Archival settings for the periodic sweep */
+export interface ArchiveConfig {
+  /** Whether the server runs the periodic archive sweep */
+  enabled: boolean;
+  /** Archive complete sessions that ended more than this many days ago */
+  olderThanDays: number;
+  /** Max sessions archived per sweep */
+  limit: number;
+}
+
+/** A session eligible for archival, with the space its rows occupy */
+export interface ArchiveCandidate {
+  sessionId: string;
+  endedAt: string | null;
+  messageCount: number;
+  blockCount: number;
+  /** Approximate on-disk size of the rows (pg_column_size of each row) */
+  bytes: number;
+}
+
+/** Outcome of archiving a single session */
+export interface ArchiveResult {
+  sessionId: string;
+  /** True if the parsed rows were deleted and the session marked archived */
+  archived: boolean;
+  /** Why the session was skipped (only set when archived is false) */
+  reason?: "not_found" | "not_complete" | "already_archived" | "no_backup" | "backup_mismatch";
+  messagesDeleted: number;
+  blocksDeleted: number;
+}
+
+/** Outcome of restoring a single session */
+export interface RestoreResult {
+  sessionId: string;
+  /** True if the parsed rows were re-inserted from the backup */
+  restored: boolean;
+  /** Why the session was not restored (only set when restored is false) */
+  reason?: "not_found" | "not_archived" | "no_backup";
+  messagesRestored: number;
+  blocksRestored: number;
+}
+
+/** Result of an archive sweep — mirrors RepriceSweepResult */
+export interface ArchiveSweepResult {
+  /** Number of candidate sessions selected */
+  found: number;
+  /** Number of sessions archived (or that would be, for a dry run) */
+  archived: number;
+  /** Approximate bytes reclaimed (or reclaimable, for a dry run) */
+  reclaimedBytes: number;
+  /** True if nothing was deleted */
+  dryRun: boolean;
+  /** Sessions examined (dry run) or skipped (real run) with the reason */
+  skipped: Array<{ sessionId: string; reason: string }>;
+  /** Per-session errors encountered during the sweep */
+  errors: Array<{ sessionId: string; error: string }>;
+  /** The candidate list — only populated for a dry run */
+  candidates?: ArchiveCandidate[];
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** Default age (days since ended_at) before a session is archived */
+export const DEFAULT_ARCHIVE_AFTER_DAYS = 90;
+
+/**
+ * Load archive configuration from environment variables.
+ *
+ * Environment variables:
+ *   ARCHIVE_AFTER_DAYS  - Enable the periodic sweep for sessions older than N days (default: disabled)
+ *   ARCHIVE_BATCH_SIZE  - Max sessions archived per sweep (default: 100)
+ */
+export function loadArchiveConfig(): ArchiveConfig {
+  const days = parseInt(process.env.ARCHIVE_AFTER_DAYS || "", 10);
+  return {
+    enabled: Number.isFinite(days) && days > 0,
+    olderThanDays: Number.isFinite(days) && days > 0 ? days : DEFAULT_ARCHIVE_AFTER_DAYS,
+    limit: parseInt(process.env.ARCHIVE_BATCH_SIZE || "100", 10),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Derive the parsed backup key from a session's transcript key. Uses the
+ * workspace segment of the transcript key (as reconcileSession does when it
+ * uploads the backup) so the two always agree.
+ */
+function parsedBackupKeyFor(transcriptS3Key: string, sessionId: string): string {
+  return buildParsedBackupKey(transcriptS3Key.split("/")[1], sessionId);
+}
+
+/**
+ * Download and parse a session's parsed.json backup.
+ * Returns null if the backup is missing or unreadable.
+ */
+export async function loadParsedBackup(
+  s3: Pick<ReconcileS3Client, "download">,
+  transcriptS3Key: string,
+  sessionId: string,
+): Promise<ParseResult | null> {
+  try {
+    const body = await s3.download(parsedBackupKeyFor(transcriptS3Key, sessionId));
+    const parsed = JSON.parse(body) as ParseResult;
+    if (!Array.isArray(parsed.messages) || !Array.isArray(parsed.contentBlocks)) return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Candidate selection
+// ---------------------------------------------------------------------------
+
+/**
+ * Find complete, unarchived sessions that ended more than `olderThanDays`
+ * ago, oldest first, with the row counts and size of their parsed data.
+ */
+export async function findArchiveCandidates(
+  sql: Sql,
+  options: { olderThanDays: number; limit: number },
+): Promise<ArchiveCandidate[]> {
+  const rows = await sql`
+    SELECT s.id, s.ended_at,
+           m.message_count, m.message_bytes,
+           b.block_count, b.block_bytes
+    FROM sessions s
+    CROSS JOIN LATERAL (
+      SELECT COUNT(*) AS message_count, COALESCE(SUM(pg_column_size(tm.*)), 0) AS message_bytes
+      FROM transcript_messages tm
+      WHERE tm.session_id = s.id AND tm.subagent_id IS NULL
+    ) m
+    CROSS JOIN LATERAL (
+      SELECT COUNT(*) AS block_count, COALESCE(SUM(pg_column_size(cb.*)), 0) AS block_bytes
+      FROM content_blocks cb
+      WHERE cb.session_id = s.id AND cb.subagent_id IS NULL
+    ) b
+    WHERE s.lifecycle = 'complete'
+      AND s.archived_at IS NULL
+      AND s.transcript_s3_key IS NOT NULL
+      AND s.ended_at < now() - make_interval(days => ${options.olderThanDays})
+    ORDER BY s.ended_at ASC
+    LIMIT ${options.limit}
+  `;
+
+  return rows.map((r) => ({
+    sessionId: r.id as string,
+    endedAt: r.ended_at instanceof Date ? r.ended_at.toISOString() : (r.ended_at as string | null),
+    messageCount: Number(r.message_count),
+    blockCount: Number(r.block_count),
+    bytes: Number(r.message_bytes) + Number(r.block_bytes),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Archive
+// ---------------------------------------------------------------------------
+
+/**
+ * Archive one session: verify its parsed backup against the database, then
+ * delete the parsed rows and set archived_at in a single transaction.
+ *
+ * @param deps      - sql, s3, logger
+ * @param sessionId - Session to archive
+ * @returns ArchiveResult describing what happened (never throws for skips)
+ */
+export async function archiveSession(deps: ArchiveDeps, sessionId: string): Promise<ArchiveResult> {
+  const { sql, s3, logger } = deps;
+  const base = { sessionId, messagesDeleted: 0, blocksDeleted: 0 };
+
+  const sessionRows = await sql`
+    SELECT lifecycle, transcript_s3_key, archived_at FROM sessions WHERE id = ${sessionId}
+  `;
+  if (sessionRows.length === 0) return { ...base, archived: false, reason: "not_found" };
+
+  const session = sessionRows[0];
+  if (session.archived_at) return { ...base, archived: false, reason: "already_archived" };
+  if (session.lifecycle !== "complete" || !session.transcript_s3_key) {
+    return { ...base, archived: false, reason: "not_complete" };
+  }
+
+  const backup = await loadParsedBackup(s3, session.transcript_s3_key as string, sessionId);
+  if (!backup) {
+    logger.warn({ sessionId }, "Archive skipped: parsed backup missing or unreadable");
+    return { ...base, archived: false, reason: "no_backup" };
+  }
+
+  const [counts] = await sql`
+    SELECT
+      (SELECT COUNT(*) FROM transcript_messages WHERE session_id = ${sessionId} AND subagent_id IS NULL) AS messages,
+      (SELECT COUNT(*) FROM content_blocks WHERE session_id = ${sessionId} AND subagent_id IS NULL) AS blocks
+  `;
+  const dbMessages = Number(counts.messages);
+  const dbBlocks = Number(counts.blocks);
+
+  if (dbMessages !== backup.messages.length || dbBlocks !== backup.contentBlocks.length) {
+    logger.warn(
+      {
+        sessionId,
+        dbMessages,
+        dbBlocks,
+        backupMessages: backup.messages.length,
+        backupBlocks: backup.contentBlocks.length,
+      },
+      "Archive skipped: parsed backup does not match database row counts",
+    );
+    return { ...base, archived: false, reason: "backup_mismatch" };
+  }
+
+  // TransactionSql type is missing template literal call signatures in postgres.js types
+  const result = await sql.begin(async (tx: any) => {
+    // Guard against a concurrent archive: only one transaction flips archived_at
+    const marked = await tx`
+      UPDATE sessions SET archived_at = now(), updated_at = now()
+      WHERE id = ${sessionId} AND archived_at IS NULL AND lifecycle = 'complete'
+      RETURNING id
+    `;
+    if (marked.length === 0) return null;
+
+    // Content blocks first (FK: content_blocks -> transcript_messages)
+    const blocks = await tx`
+      DELETE FROM content_blocks WHERE session_id = ${sessionId} AND subagent_id IS NULL
+    `;
+    const messages = await tx`
+      DELETE FROM transcript_messages WHERE session_id = ${sessionId} AND subagent_id IS NULL
+    `;
+    return { messagesDeleted: messages.count as number, blocksDeleted: blocks.count as number };
+  });
+
+  if (!result) return { ...base, archived: false, reason: "already_archived" };
+
+  logger.info({ sessionId, ...result }, "Session archived");
+  return { sessionId, archived: true, ...result };
+}
+
+/**
+ * Archive complete sessions older than `olderThanDays`, oldest first.
+ *
+ * With `dryRun`, nothing is deleted: the candidates are returned along with
+ * the space archiving them would reclaim. Sessions are processed
+ * sequentially; per-session failures are collected, not thrown.
+ *
+ * @param deps    - sql, s3, logger
+ * @param options - Age threshold, batch limit, and dry-run flag
+ * @returns ArchiveSweepResult with counts, reclaimed bytes, and skips
+ */
+export async function archiveOldSessions(
+  deps: ArchiveDeps,
+  options: { olderThanDays: number; limit: number; dryRun?: boolean },
+): Promise<ArchiveSweepResult> {
+  const { sql, logger } = deps;
+  const candidates = await findArchiveCandidates(sql, options);
+
+  if (options.dryRun) {
+    return {
+      found: candidates.length,
+      archived: candidates.length,
+      reclaimedBytes: candidates.reduce((sum, c) => sum + c.bytes, 0),
+      dryRun: true,
+      skipped: [],
+      errors: [],
+      candidates,
+    };
+  }
+
+  const result: ArchiveSweepResult = {
+    found: candidates.length,
+    archived: 0,
+    reclaimedBytes: 0,
+    dryRun: false,
+    skipped: [],
+    errors: [],
+  };
+
+  for (const candidate of candidates) {
+    try {
+      const r = await archiveSession(deps, candidate.sessionId);
+      if (r.archived) {
+        result.archived++;
+        result.reclaimedBytes += candidate.bytes;
+      } else {
+        result.skipped.push({ sessionId: candidate.sessionId, reason: r.reason ?? "unknown" });
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      logger.error({ sessionId: candidate.sessionId, error }, "Failed to archive session");
+      result.errors.push({ sessionId: candidate.sessionId, error });
+    }
+  }
+
+  logger.info(
+    {
+      found: result.found,
+      archived: result.archived,
+      reclaimedBytes: result.reclaimedBytes,
+      skipped: result.skipped.length,
+      errors: result.errors.length,
+    },
+    "Archive sweep complete",
+  );
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Restore
+// ---------------------------------------------------------------------------
+
+/**
+ * Restore an archived session's parsed rows from its parsed.json backup.
+ *
+ * The backup holds the costs computed at parse time, so the session is
+ * repriced afterwards to keep message costs and the session total in step
+ * with the current pricing registry.
+ *
+ * @param deps      - sql, s3, logger
+ * @param sessionId - Session to restore
+ * @returns RestoreResult describing what happened (never throws for skips)
+ */
+export async function restoreSession(deps: ArchiveDeps, sessionId: string): Promise<RestoreResult> {
+  const { sql, s3, logger } = deps;
+  const base = { sessionId, messagesRestored: 0, blocksRestored: 0 };
+
+  const sessionRows = await sql`
+    SELECT transcript_s3_key, archived_at FROM sessions WHERE id = ${sessionId}
+  `;
+  if (sessionRows.length === 0) return { ...base, restored: false, reason: "not_found" };
+
+  const session = sessionRows[0];
+  if (!session.archived_at || !session.transcript_s3_key) {
+    return { ...base, restored: false, reason: "not_archived" };
+  }
+
+  const backup = await loadParsedBackup(s3, session.transcript_s3_key as string, sessionId);
+  if (!backup) {
+    logger.error({ sessionId }, "Restore failed: parsed backup missing or unreadable");
+    return { ...base, restored: false, reason: "no_backup" };
+  }
+
+  const restored = await sql.begin(async (tx: any) => {
+    // Clear the flag first so a concurrent restore inserts nothing twice
+    const cleared = await tx`
+      UPDATE sessions SET archived_at = NULL, updated_at = now()
+      WHERE id = ${sessionId} AND archived_at IS NOT NULL
+      RETURNING id
+    `;
+    if (cleared.length === 0) return false;
+
+    await batchInsertMessages(tx, backup.messages);
+    await batchInsertContentBlocks(tx, backup.contentBlocks);
+    return true;
+  });
+
+  if (!restored) return { ...base, restored: false, reason: "not_archived" };
+
+  await repriceSession(sql, sessionId);
+
+  logger.info(
+    { sessionId, messages: backup.messages.length, blocks: backup.contentBlocks.length },
+    "Session restored from parsed backup",
+  );
+
+  return {
+    sessionId,
+    restored: true,
+    messagesRestored: backup.messages.length,
+    blocksRestored: backup.contentBlocks.length,
+  };
+}
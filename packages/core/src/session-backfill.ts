@@ -1095,11 +1095,12 @@ async function ensureSessionRow(sql: Sql, seed: SessionSeed): Promise<void> {
   await sql`
     INSERT INTO sessions (
       id, workspace_id, device_id, lifecycle, started_at,
-      cwd, git_branch, git_remote, model, source
+      cwd, git_branch, git_remote, model, source, user_id
     ) VALUES (
       ${seed.ccSessionId}, ${workspaceId}, ${seed.deviceId}, 'detected',
       ${seed.startedAt}, ${seed.cwd}, ${seed.gitBranch}, ${seed.gitRemote},
-      ${seed.model}, ${seed.source}
+      ${seed.model}, ${seed.source},
+      (SELECT user_id FROM devices WHERE id = ${seed.deviceId})
     )
     ON CONFLICT (id) DO NOTHING
   `;
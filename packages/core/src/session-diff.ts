@@ -0,0 +1,568 @@
+/**
+ * Session diff reconstruction for fuel-code.
+ *
+ * Replays a session's Write, Edit and MultiEdit tool calls (content_blocks
+ * tool_input) into per-file unified diffs, so reviewers can see what the
+ * agent changed without digging through commits.
+ *
+ * A file's original content comes from, in order:
+ *   - nothing, when the session created the file with Write (CC refuses to
+ *     Write an existing file it has not read, so an unread Write is new)
+ *   - the session's last Read of the file before its first change — the
+ *     numbered `cat -n` output is parsed back into lines. A partial Read
+ *     (offset/limit) still gives exact positions for edits inside it.
+ * Edits whose old_string cannot be found in the known content (the file was
+ * never read, or the Read was truncated) are kept as position-less hunks and
+ * the file is marked incomplete — it is left out of git-apply-able patches.
+ *
+ * Failed tool calls (tool_result is_error) are skipped.
+ */
+
+import type { Sql } from "postgres";
+import type {
+  SessionDiff,
+  SessionDiffFile,
+  SessionDiffHunk,
+  SessionDiffFileStatus,
+} from "@fuel-code/shared";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Unchanged lines shown around each change */
+export const DIFF_CONTEXT_LINES = 3;
+
+/** Tools whose calls change files */
+const MUTATING_TOOLS = new Set(["Write", "Edit", "MultiEdit"]);
+
+/** Lines CC's Read tool returns when no limit is given */
+const READ_DEFAULT_LIMIT = 2000;
+
+/**
+ * Edit distance beyond which diffLines() stops searching for a minimal diff
+ * and replaces the changed region wholesale (bounds Myers' trace memory).
+ */
+const MAX_DIFF_EDITS = 2000;
+
+/** Marks a final line that has no trailing newline (never occurs in text) */
+const NO_EOL = "\u0000";
+
+/** One numbered line of Read output: "    12\tcode" or "    12→code" */
+const READ_LINE_PATTERN = /^\s*(\d+)(?:\t|→)(.*)$/;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The content block fields diff reconstruction reads */
+export interface DiffSourceBlock {
+  block_type: string;
+  tool_name: string | null;
+  tool_use_id: string | null;
+  tool_input: unknown;
+  tool_result_id: string | null;
+  is_error: boolean | null;
+  result_text: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+/** A single line-level edit operation */
+interface DiffOp {
+  type: "equal" | "delete" | "insert";
+  line: string;
+}
+
+/** Replay state for one file */
+interface FileState {
+  path: string;
+  status: SessionDiffFileStatus;
+  operations: number;
+  /** Last Read of the file before its first change */
+  read: { start: number; text: string; full: boolean } | null;
+  /** Whether a change has been replayed yet */
+  started: boolean;
+  /** First line number of baseText within the real file */
+  baseStart: number;
+  /** Known original content (or a window of it); null when never seen */
+  baseText: string | null;
+  /** baseText with every replayable change applied */
+  currentText: string | null;
+  /** Changes that could not be positioned in the known content */
+  fragments: Array<{ oldText: string; newText: string }>;
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Load everything needed to rebuild a session's diff: its tool_use blocks
+ * for Read/Write/Edit/MultiEdit, their tool_result blocks, and the session's
+ * working directory (from its session.start event).
+ *
+ * Blocks from sub-agents are included — their edits are part of the session.
+ */
+export async function loadSessionDiffSource(
+  sql: Sql,
+  sessionId: string,
+): Promise<{ blocks: DiffSourceBlock[]; cwd: string | null }> {
+  const blocks = await sql`
+    SELECT cb.block_type, cb.tool_name, cb.tool_use_id, cb.tool_input,
+           cb.tool_result_id, cb.is_error, cb.result_text, cb.metadata
+    FROM content_blocks cb
+    JOIN transcript_messages tm ON tm.id = cb.message_id
+    WHERE cb.session_id = ${sessionId}
+      AND (
+        (cb.block_type = 'tool_use' AND cb.tool_name IN ('Read', 'Write', 'Edit', 'MultiEdit'))
+        OR cb.block_type = 'tool_result'
+      )
+    ORDER BY tm.timestamp ASC NULLS LAST, tm.ordinal ASC, cb.block_order ASC
+  `;
+
+  const cwdRows = await sql`
+    SELECT data->>'cwd' AS cwd FROM events
+    WHERE session_id = ${sessionId} AND type = 'session.start'
+    ORDER BY timestamp ASC
+    LIMIT 1
+  `;
+
+  return {
+    blocks: blocks as unknown as DiffSourceBlock[],
+    cwd: (cwdRows[0]?.cwd as string | null | undefined) ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reconstruction
+// ---------------------------------------------------------------------------
+
+/**
+ * Replay tool calls (in conversation order) into per-file diffs.
+ *
+ * @param sessionId - Session the blocks belong to (echoed in the result)
+ * @param blocks - tool_use and tool_result blocks in conversation order
+ * @param options.cwd - Session working directory; paths under it are made relative
+ */
+export function reconstructSessionDiff(
+  sessionId: string,
+  blocks: DiffSourceBlock[],
+  options: { cwd?: string | null } = {},
+): SessionDiff {
+  const results = new Map<string, DiffSourceBlock>();
+  for (const block of blocks) {
+    if (block.block_type === "tool_result" && block.tool_result_id) {
+      results.set(block.tool_result_id, block);
+    }
+  }
+
+  const files = new Map<string, FileState>();
+  for (const block of blocks) {
+    if (block.block_type !== "tool_use" || !block.tool_name) continue;
+    const input = asRecord(block.tool_input);
+    const filePath = typeof input.file_path === "string" ? input.file_path : null;
+    if (!filePath) continue;
+
+    const result = block.tool_use_id ? results.get(block.tool_use_id) : undefined;
+    if (result?.is_error) continue;
+
+    let state = files.get(filePath);
+    if (!state) {
+      state = {
+        path: filePath,
+        status: "modified",
+        operations: 0,
+        read: null,
+        started: false,
+        baseStart: 1,
+        baseText: null,
+        currentText: null,
+        fragments: [],
+      };
+      files.set(filePath, state);
+    }
+
+    if (block.tool_name === "Read") {
+      if (!state.started && result) {
+        state.read = parseReadResult(result, input) ?? state.read;
+      }
+      continue;
+    }
+    if (!MUTATING_TOOLS.has(block.tool_name)) continue;
+
+    state.operations++;
+    if (block.tool_name === "Write") {
+      applyWrite(state, typeof input.content === "string" ? input.content : "");
+    } else {
+      const edits = block.tool_name === "MultiEdit" ? asEditList(input.edits) : asEditList([input]);
+      for (const edit of edits) applyEdit(state, edit);
+    }
+  }
+
+  const diffFiles: SessionDiffFile[] = [];
+  for (const state of files.values()) {
+    if (state.operations === 0) continue;
+    const file = buildFileDiff(state, relativePath(state.path, options.cwd ?? null));
+    if (file.hunks.length > 0) diffFiles.push(file);
+  }
+  diffFiles.sort((a, b) => a.path.localeCompare(b.path));
+
+  return {
+    session_id: sessionId,
+    files: diffFiles,
+    stats: {
+      files: diffFiles.length,
+      additions: diffFiles.reduce((sum, f) => sum + f.additions, 0),
+      deletions: diffFiles.reduce((sum, f) => sum + f.deletions, 0),
+    },
+  };
+}
+
+/** Start replaying a file from its Read (or as unknown) on its first change */
+function startFile(state: FileState): void {
+  state.started = true;
+  if (state.read) {
+    state.baseStart = state.read.start;
+    state.baseText = state.read.text;
+    state.currentText = state.read.text;
+  }
+}
+
+/** Write replaces the whole file */
+function applyWrite(state: FileState, content: string): void {
+  if (!state.started) {
+    if (!state.read) {
+      // Never read, so CC only let us Write it because it did not exist
+      state.started = true;
+      state.status = "added";
+      state.baseText = "";
+      state.currentText = content;
+      return;
+    }
+    startFile(state);
+  }
+
+  if (state.baseText !== null && (state.status === "added" || state.read?.full)) {
+    state.currentText = content;
+    return;
+  }
+  // Only a window of the original is known — the new content can't be
+  // lined up against it
+  state.fragments.push({ oldText: "", newText: content });
+  state.baseText = null;
+  state.currentText = null;
+}
+
+/** Edit replaces old_string (first or every occurrence) in the current content */
+function applyEdit(state: FileState, edit: EditInput): void {
+  if (!state.started) {
+    if (!state.read && edit.oldString === "") {
+      // Edit with an empty old_string creates the file
+      applyWrite(state, edit.newString);
+      return;
+    }
+    startFile(state);
+  }
+
+  if (state.currentText !== null && edit.oldString !== "" && state.currentText.includes(edit.oldString)) {
+    state.currentText = edit.replaceAll
+      ? state.currentText.split(edit.oldString).join(edit.newString)
+      : state.currentText.replace(edit.oldString, () => edit.newString);
+    return;
+  }
+  state.fragments.push({ oldText: edit.oldString, newText: edit.newString });
+}
+
+/** Turn a file's replay state into hunks */
+function buildFileDiff(state: FileState, path: string): SessionDiffFile {
+  const hunks: SessionDiffHunk[] = [];
+  let additions = 0;
+  let deletions = 0;
+
+  if (state.baseText !== null && state.currentText !== null && state.baseText !== state.currentText) {
+    const ops = diffLines(splitLines(state.baseText), splitLines(state.currentText));
+    // Lines above a Read window are untouched, so both sides shift equally
+    const offset = state.baseStart - 1;
+    for (const hunk of buildHunks(ops, DIFF_CONTEXT_LINES)) {
+      hunks.push({
+        ...hunk,
+        old_start: (hunk.old_start as number) + offset,
+        new_start: (hunk.new_start as number) + offset,
+      });
+    }
+    additions += ops.filter((op) => op.type === "insert").length;
+    deletions += ops.filter((op) => op.type === "delete").length;
+  }
+
+  for (const fragment of state.fragments) {
+    // A fragment is a snippet from mid-file: its missing trailing newline
+    // says nothing about the end of the file
+    const ops = diffLines(fragmentLines(fragment.oldText), fragmentLines(fragment.newText));
+    if (ops.every((op) => op.type === "equal")) continue;
+    const hunk = buildHunks(ops, ops.length)[0];
+    hunks.push({ ...hunk, old_start: null, new_start: null });
+    additions += ops.filter((op) => op.type === "insert").length;
+    deletions += ops.filter((op) => op.type === "delete").length;
+  }
+
+  return {
+    path,
+    status: state.status,
+    complete: state.fragments.length === 0,
+    operations: state.operations,
+    additions,
+    deletions,
+    hunks,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Line diff
+// ---------------------------------------------------------------------------
+
+/**
+ * Split text into lines. A final line without a trailing newline carries the
+ * NO_EOL marker, so "adding a trailing newline" is a change like any other.
+ */
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_EOL;
+  }
+  return lines;
+}
+
+/** Split a snippet into lines, ignoring whether it ends with a newline */
+function fragmentLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\n$/, "").split("\n");
+}
+
+/**
+ * Line diff of a against b: common prefix/suffix trimmed, then Myers' O(ND)
+ * algorithm on the middle.
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const equal = (line: string): DiffOp => ({ type: "equal", line });
+  return [
+    ...a.slice(0, start).map(equal),
+    ...myersDiff(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(equal),
+  ];
+}
+
+/** Myers' shortest edit script, backtracked through the saved V arrays */
+function myersDiff(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const wholesale = (): DiffOp[] => [
+    ...a.map((line): DiffOp => ({ type: "delete", line })),
+    ...b.map((line): DiffOp => ({ type: "insert", line })),
+  ];
+  if (n === 0 || m === 0) return wholesale();
+
+  const max = Math.min(n + m, MAX_DIFF_EDITS);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[k] for k in [-d, d] as it was before step d
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) return wholesale();
+
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const prev = trace[d];
+    const at = (k: number) => prev[k + d];
+    const k = x - y;
+    if (d === 0) break;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: "equal", line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: "insert", line: b[y - 1] });
+    } else {
+      ops.push({ type: "delete", line: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  // The d = 0 snake: a common prefix
+  while (x > 0 && y > 0) {
+    ops.push({ type: "equal", line: a[x - 1] });
+    x--;
+    y--;
+  }
+  return ops.reverse();
+}
+
+/**
+ * Group an edit script into unified-diff hunks with `context` unchanged
+ * lines around each change. Changes closer than 2 * context share a hunk.
+ */
+function buildHunks(ops: DiffOp[], context: number): SessionDiffHunk[] {
+  // 1-based line numbers of each op in the old and new file
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let o = 1;
+  let nl = 1;
+  for (const op of ops) {
+    oldLine.push(o);
+    newLine.push(nl);
+    if (op.type !== "insert") o++;
+    if (op.type !== "delete") nl++;
+  }
+
+  const changes = ops.flatMap((op, i) => (op.type === "equal" ? [] : [i]));
+  const groups: Array<[number, number]> = [];
+  for (const i of changes) {
+    const last = groups[groups.length - 1];
+    if (last && i - last[1] - 1 <= 2 * context) {
+      last[1] = i;
+    } else {
+      groups.push([i, i]);
+    }
+  }
+
+  return groups.map(([first, last]) => {
+    const from = Math.max(0, first - context);
+    const to = Math.min(ops.length - 1, last + context);
+    const lines: string[] = [];
+    let oldLines = 0;
+    let newLines = 0;
+    for (let i = from; i <= to; i++) {
+      const op = ops[i];
+      const prefix = op.type === "equal" ? " " : op.type === "delete" ? "-" : "+";
+      if (op.type !== "insert") oldLines++;
+      if (op.type !== "delete") newLines++;
+      if (op.line.endsWith(NO_EOL)) {
+        lines.push(prefix + op.line.slice(0, -NO_EOL.length));
+        lines.push("\\ No newline at end of file");
+      } else {
+        lines.push(prefix + op.line);
+      }
+    }
+    // Unified diff convention: an empty side starts at the line before
+    return {
+      old_start: oldLines > 0 ? oldLine[from] : oldLine[from] - 1,
+      old_lines: oldLines,
+      new_start: newLines > 0 ? newLine[from] : newLine[from] - 1,
+      new_lines: newLines,
+      lines,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A single old_string -> new_string replacement */
+interface EditInput {
+  oldString: string;
+  newString: string;
+  replaceAll: boolean;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+/** Normalize Edit input / MultiEdit edits into EditInput entries */
+function asEditList(value: unknown): EditInput[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    const edit = asRecord(item);
+    if (typeof edit.old_string !== "string" || typeof edit.new_string !== "string") return [];
+    return [{
+      oldString: edit.old_string,
+      newString: edit.new_string,
+      replaceAll: edit.replace_all === true,
+    }];
+  });
+}
+
+/**
+ * Parse Read tool output (`cat -n` style) back into file content. Returns
+ * null when the output has no numbered lines. Stops at the first
+ * non-numbered line (CC appends system reminders after the content).
+ */
+function parseReadResult(
+  result: DiffSourceBlock,
+  input: Record<string, unknown>,
+): { start: number; text: string; full: boolean } | null {
+  const lines: string[] = [];
+  let start = 0;
+  for (const raw of (result.result_text ?? "").split("\n")) {
+    const match = READ_LINE_PATTERN.exec(raw);
+    if (!match) break;
+    const lineNo = Number(match[1]);
+    if (lines.length === 0) {
+      start = lineNo;
+    } else if (lineNo !== start + lines.length) {
+      break;
+    }
+    lines.push(match[2]);
+  }
+  if (lines.length === 0) return null;
+
+  // A truncated preview may have cut its last line short
+  const truncated = result.metadata?.truncated === true;
+  if (truncated) lines.pop();
+  if (lines.length === 0) return null;
+
+  const offset = typeof input.offset === "number" ? input.offset : null;
+  const full =
+    start === 1 &&
+    (offset === null || offset <= 1) &&
+    input.limit === undefined &&
+    !truncated &&
+    lines.length < READ_DEFAULT_LIMIT;
+
+  return { start, text: lines.join("\n") + "\n", full };
+}
+
+/** Make a path relative to the session's working directory when inside it */
+export function relativePath(filePath: string, cwd: string | null): string {
+  if (!cwd) return filePath;
+  const root = cwd.endsWith("/") ? cwd.slice(0, -1) : cwd;
+  return filePath.startsWith(root + "/") ? filePath.slice(root.length + 1) : filePath;
+}
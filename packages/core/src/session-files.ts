@@ -0,0 +1,235 @@
+/**
+ * File history index for fuel-code.
+ *
+ * session_files records which files a session's tool calls read or wrote,
+ * and which files each commit changed, so "who touched src/auth/x.ts" is an
+ * index lookup instead of a scan over every transcript.
+ *
+ * Session rows are rebuilt from content_blocks by indexSessionFiles() during
+ * reconcile (delete-first, so reparsing is idempotent). Commit rows come from
+ * the git.commit file_list and are written by handleGitCommit.
+ *
+ * Tool paths are made relative to the repository root recorded at
+ * session.start (git_root) so they line up with the repo-relative paths in
+ * commit file lists, even when the session ran in a subdirectory. Sessions
+ * recorded before git_root was sent fall back to their working directory.
+ * Failed tool calls (tool_result is_error) are not counted.
+ */
+
+import { posix } from "node:path";
+import type { Sql } from "postgres";
+import type { FileAccessKind } from "@fuel-code/shared";
+import { relativePath } from "./session-diff.js";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Tools whose calls touch a file, with the input field holding its path */
+const FILE_TOOLS: Record<string, { access: FileAccessKind; pathField: string }> = {
+  Read: { access: "read", pathField: "file_path" },
+  Grep: { access: "read", pathField: "path" },
+  Edit: { access: "write", pathField: "file_path" },
+  MultiEdit: { access: "write", pathField: "file_path" },
+  Write: { access: "write", pathField: "file_path" },
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A content block as needed to find file accesses, with its message time */
+export interface FileAccessBlock {
+  block_type: string;
+  tool_name: string | null;
+  tool_use_id: string | null;
+  tool_input: unknown;
+  tool_result_id: string | null;
+  is_error: boolean | null;
+  timestamp: string | Date | null;
+}
+
+/** Aggregated accesses of one file with one tool */
+export interface FileAccess {
+  path: string;
+  access: FileAccessKind;
+  tool_name: string;
+  access_count: number;
+  first_accessed_at: string;
+  last_accessed_at: string;
+}
+
+/** A git.commit file_list entry */
+export interface CommitFileEntry {
+  path: string;
+  status?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+/**
+ * Collect the file accesses in a session's content blocks, one entry per
+ * (path, tool). Blocks without a timestamp fall back to `fallbackTime`.
+ *
+ * @param blocks - tool_use and tool_result blocks of the session
+ * @param cwd - Session working directory; relative tool paths resolve from it
+ * @param fallbackTime - Timestamp for blocks whose message has none
+ * @param repoRoot - Repository root; paths under it are made relative
+ *   (defaults to cwd)
+ */
+export function collectFileAccesses(
+  blocks: FileAccessBlock[],
+  cwd: string | null,
+  fallbackTime: string,
+  repoRoot: string | null = cwd,
+): FileAccess[] {
+  const failed = new Set<string>();
+  for (const block of blocks) {
+    if (block.block_type === "tool_result" && block.is_error && block.tool_result_id) {
+      failed.add(block.tool_result_id);
+    }
+  }
+
+  const accesses = new Map<string, FileAccess>();
+  for (const block of blocks) {
+    if (block.block_type !== "tool_use" || !block.tool_name) continue;
+    const tool = FILE_TOOLS[block.tool_name];
+    if (!tool) continue;
+    if (block.tool_use_id && failed.has(block.tool_use_id)) continue;
+
+    const input = block.tool_input as Record<string, unknown> | null;
+    const rawPath = input?.[tool.pathField];
+    if (typeof rawPath !== "string" || rawPath === "") continue;
+
+    const path = toRepoPath(rawPath, cwd, repoRoot);
+    const time = block.timestamp ? new Date(block.timestamp).toISOString() : fallbackTime;
+    const key = `${path}\u0000${block.tool_name}`;
+    const existing = accesses.get(key);
+    if (existing) {
+      existing.access_count++;
+      if (time < existing.first_accessed_at) existing.first_accessed_at = time;
+      if (time > existing.last_accessed_at) existing.last_accessed_at = time;
+    } else {
+      accesses.set(key, {
+        path,
+        access: tool.access,
+        tool_name: block.tool_name,
+        access_count: 1,
+        first_accessed_at: time,
+        last_accessed_at: time,
+      });
+    }
+  }
+
+  return [...accesses.values()];
+}
+
+/**
+ * Resolve a tool path against the session cwd (tools accept relative paths)
+ * and make it relative to the repository root when inside it.
+ */
+function toRepoPath(rawPath: string, cwd: string | null, repoRoot: string | null): string {
+  const absolute = cwd && !rawPath.startsWith("/") ? posix.resolve(cwd, rawPath) : rawPath;
+  if (repoRoot && absolute === repoRoot.replace(/\/+$/, "")) return "";
+  return normalizeFilePath(relativePath(absolute, repoRoot));
+}
+
+/**
+ * Normalize a repo path for storage and lookup: no "./" prefix, no trailing
+ * or doubled slashes. "." (the repository root) becomes "".
+ */
+export function normalizeFilePath(path: string): string {
+  const normalized = path.replace(/\/{2,}/g, "/").replace(/^(\.\/)+/, "").replace(/\/+$/, "");
+  return normalized === "." ? "" : normalized;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/**
+ * Rebuild a session's rows in session_files from its content blocks
+ * (main transcript and sub-agents) and its session.start cwd and git_root.
+ *
+ * @param sql       - postgres.js tagged template client
+ * @param sessionId - Session to index
+ * @returns Number of (path, tool) rows written
+ */
+export async function indexSessionFiles(sql: Sql, sessionId: string): Promise<number> {
+  const [session] = await sql`
+    SELECT started_at FROM sessions WHERE id = ${sessionId}
+  `;
+  if (!session) return 0;
+
+  const blocks = await sql`
+    SELECT cb.block_type, cb.tool_name, cb.tool_use_id, cb.tool_input,
+           cb.tool_result_id, cb.is_error, tm.timestamp
+    FROM content_blocks cb
+    JOIN transcript_messages tm ON tm.id = cb.message_id
+    WHERE cb.session_id = ${sessionId}
+      AND (
+        (cb.block_type = 'tool_use' AND cb.tool_name IN ${sql(Object.keys(FILE_TOOLS))})
+        OR (cb.block_type = 'tool_result' AND cb.is_error = true)
+      )
+  `;
+
+  const [start] = await sql`
+    SELECT data->>'cwd' AS cwd, data->>'git_root' AS git_root FROM events
+    WHERE session_id = ${sessionId} AND type = 'session.start'
+    ORDER BY timestamp ASC
+    LIMIT 1
+  `;
+  const cwd = (start?.cwd as string | null | undefined) ?? null;
+
+  const accesses = collectFileAccesses(
+    blocks as unknown as FileAccessBlock[],
+    cwd,
+    new Date(session.started_at).toISOString(),
+    (start?.git_root as string | null | undefined) ?? cwd,
+  );
+
+  // tx typed as any: postgres.js TransactionSql loses call signature via Omit (TS 5.9)
+  await sql.begin(async (tx: any) => {
+    await tx`DELETE FROM session_files WHERE session_id = ${sessionId}`;
+    for (const a of accesses) {
+      await tx`
+        INSERT INTO session_files (
+          session_id, path, access, tool_name, access_count, first_accessed_at, last_accessed_at
+        )
+        VALUES (
+          ${sessionId}, ${a.path}, ${a.access}, ${a.tool_name}, ${a.access_count},
+          ${a.first_accessed_at}, ${a.last_accessed_at}
+        )
+      `;
+    }
+  });
+
+  return accesses.length;
+}
+
+/**
+ * Record the files a commit changed. Runs inside the caller's transaction
+ * (handleGitCommit); ON CONFLICT makes replayed events a no-op.
+ *
+ * @param tx            - Transaction (or plain) sql client
+ * @param gitActivityId - The commit's git_activity row
+ * @param fileList      - git.commit file_list entries
+ * @param timestamp     - Commit time
+ */
+export async function indexCommitFiles(
+  tx: any,
+  gitActivityId: string,
+  fileList: CommitFileEntry[],
+  timestamp: string,
+): Promise<void> {
+  const paths = new Set(fileList.map((f) => normalizeFilePath(f.path)).filter((p) => p !== ""));
+  for (const path of paths) {
+    await tx`
+      INSERT INTO session_files (git_activity_id, path, access, first_accessed_at, last_accessed_at)
+      VALUES (${gitActivityId}, ${path}, ${"write"}, ${timestamp}, ${timestamp})
+      ON CONFLICT DO NOTHING
+    `;
+  }
+}
@@ -114,6 +114,8 @@ type UpdatableSessionFields = Partial<{
   cache_read_tokens: number;
   cache_write_tokens: number;
   cost_estimate_usd: number;
+  /** JSON-encoded SessionCostBreakdown (jsonb column) */
+  cost_breakdown: string;
 }>;
 
 // ---------------------------------------------------------------------------
@@ -354,6 +356,7 @@ export async function resetSessionForReparse(
           cache_read_tokens   = NULL,
           cache_write_tokens  = NULL,
           cost_estimate_usd   = NULL,
+          cost_breakdown      = NULL,
           updated_at          = now()
       WHERE id = ${sessionId}
         AND lifecycle IN ('ended', 'parsed', 'summarized', 'failed')
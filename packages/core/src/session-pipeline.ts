@@ -15,7 +15,8 @@ import type { Sql } from "postgres";
 import type { Logger } from "pino";
 import type { TranscriptStats } from "@fuel-code/shared";
 import type { SummaryConfig } from "./summary-generator.js";
-import { reconcileSession } from "./reconcile/reconcile-session.js";
+import { reconcileSession, type SessionNotifier } from "./reconcile/reconcile-session.js";
+import type { DeviceNotifier } from "./device-presence.js";
 
 // ---------------------------------------------------------------------------
 // S3 client interface (minimal subset of FuelCodeS3Client from server)
@@ -47,6 +48,16 @@ export interface PipelineDeps {
    * createPipelineQueue().
    */
   enqueueSession?: (sessionId: string) => void;
+  /**
+   * Receives lifecycle/stats/summary updates as reconcileSession advances a
+   * session. Wired to the WebSocket broadcaster by server startup.
+   */
+  notifier?: SessionNotifier;
+  /**
+   * Receives device presence changes from the heartbeat handler. Wired to
+   * the WebSocket broadcaster by server startup.
+   */
+  deviceNotifier?: DeviceNotifier;
 }
 
 /** Result of a pipeline run — always returned, never throws */
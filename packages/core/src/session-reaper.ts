@@ -0,0 +1,318 @@
+/**
+ * Abandoned session reaper for fuel-code.
+ *
+ * When Claude Code crashes or the laptop sleeps, SessionEnd never fires and
+ * the session stays 'detected' forever: it shows up as live, and git events
+ * keep correlating to it. The reaper ends such sessions with
+ * end_reason = 'crash'.
+ *
+ * A session's last activity is the latest of:
+ *   - started_at
+ *   - its most recent event
+ *   - transcript_mtime, reported by the CLI while the session is open
+ *
+ * A detected session is abandoned when its last activity is older than
+ * idleMs AND either its device has not been seen for offlineMs (the machine
+ * is gone), or the activity is older than maxIdleMs (the machine is alive but
+ * this session has been silent far longer than any real turn).
+ *
+ * Reaped sessions move to 'ended' with ended_at = last activity. Sessions
+ * whose transcript is already in S3 are advanced to transcript_ready and
+ * reconciled; the rest wait for the CLI to upload the transcript, which it
+ * does when its next activity report learns the session was closed
+ * (recordTranscriptActivity).
+ */
+
+import type { Sql } from "postgres";
+import type { PipelineDeps } from "./session-pipeline.js";
+import { transitionSession } from "./session-lifecycle.js";
+import { reconcileSession } from "./reconcile/reconcile-session.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Reaper thresholds and sweep size */
+export interface ReaperConfig {
+  /** Whether the server runs the periodic sweep */
+  enabled: boolean;
+  /** Minimum quiet time before a session can be reaped */
+  idleMs: number;
+  /** How long the device must be unseen for idleMs to be enough */
+  offlineMs: number;
+  /** Quiet time after which a session is reaped even if its device is online */
+  maxIdleMs: number;
+  /** Max sessions reaped per sweep */
+  limit: number;
+}
+
+/** Why a session was considered abandoned */
+export type ReapReason = "device_offline" | "max_idle";
+
+/** One reaped (or, for a dry run, reapable) session */
+export interface ReapedSession {
+  sessionId: string;
+  reason: ReapReason;
+  lastActivityAt: string;
+  /** What happened after ending it: reconcile queued, or waiting for the CLI upload */
+  next: "reconcile" | "awaiting_transcript";
+}
+
+/** Result of a reaper sweep — returned to the caller for logging/monitoring */
+export interface ReapResult {
+  /** Number of abandoned sessions found */
+  found: number;
+  /** Number of sessions moved to 'ended' */
+  reaped: number;
+  /** Of those, how many were queued for reconcile */
+  reconciled: number;
+  /** True if nothing was changed */
+  dryRun: boolean;
+  /** Per-session detail */
+  sessions: ReapedSession[];
+  /** Per-session errors encountered during the sweep */
+  errors: Array<{ sessionId: string; error: string }>;
+}
+
+/** Sessions the CLI should act on after an activity report */
+export interface TranscriptActivityResult {
+  /** Number of detected sessions whose transcript_mtime was updated */
+  updated: number;
+  /** Sessions no longer open and still missing a transcript — the CLI should upload them */
+  upload: string[];
+  /** Sessions no longer open that need nothing more — the CLI can stop tracking them */
+  closed: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** Default reaper thresholds */
+export const DEFAULT_REAPER_CONFIG: ReaperConfig = {
+  enabled: true,
+  idleMs: 30 * 60_000,
+  offlineMs: 15 * 60_000,
+  maxIdleMs: 12 * 60 * 60_000,
+  limit: 100,
+};
+
+/**
+ * Load reaper configuration from environment variables.
+ *
+ * Environment variables:
+ *   REAPER_ENABLED          - Set to "false" to disable the periodic sweep (default: enabled)
+ *   REAPER_IDLE_MINUTES     - Quiet time before a session on an offline device is reaped (default: 30)
+ *   REAPER_OFFLINE_MINUTES  - Time since the device was last seen to count as offline (default: 15)
+ *   REAPER_MAX_IDLE_HOURS   - Quiet time before a session is reaped regardless of device (default: 12)
+ *   REAPER_BATCH_SIZE       - Max sessions reaped per sweep (default: 100)
+ */
+export function loadReaperConfig(): ReaperConfig {
+  const num = (value: string | undefined, fallback: number): number => {
+    const n = parseInt(value || "", 10);
+    return Number.isFinite(n) && n > 0 ? n : fallback;
+  };
+  const d = DEFAULT_REAPER_CONFIG;
+  return {
+    enabled: process.env.REAPER_ENABLED !== "false",
+    idleMs: num(process.env.REAPER_IDLE_MINUTES, d.idleMs / 60_000) * 60_000,
+    offlineMs: num(process.env.REAPER_OFFLINE_MINUTES, d.offlineMs / 60_000) * 60_000,
+    maxIdleMs: num(process.env.REAPER_MAX_IDLE_HOURS, d.maxIdleMs / 3_600_000) * 3_600_000,
+    limit: num(process.env.REAPER_BATCH_SIZE, d.limit),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reaper sweep
+// ---------------------------------------------------------------------------
+
+/**
+ * Find detected sessions that have been abandoned and end them.
+ *
+ * Safe to run concurrently with session.end handling: the detected -> ended
+ * transition uses optimistic locking, so a real SessionEnd that lands first
+ * wins and the reaper skips the session.
+ *
+ * @param sql          - postgres.js tagged template client
+ * @param pipelineDeps - Pipeline dependencies for reconciling reaped sessions
+ * @param options      - Threshold overrides (default: DEFAULT_REAPER_CONFIG) and dryRun
+ */
+export async function reapAbandonedSessions(
+  sql: Sql,
+  pipelineDeps: PipelineDeps,
+  options?: Partial<Omit<ReaperConfig, "enabled">> & { dryRun?: boolean },
+): Promise<ReapResult> {
+  const logger = pipelineDeps.logger;
+  const idleMs = options?.idleMs ?? DEFAULT_REAPER_CONFIG.idleMs;
+  const offlineMs = options?.offlineMs ?? DEFAULT_REAPER_CONFIG.offlineMs;
+  const maxIdleMs = options?.maxIdleMs ?? DEFAULT_REAPER_CONFIG.maxIdleMs;
+  const limit = options?.limit ?? DEFAULT_REAPER_CONFIG.limit;
+  const dryRun = options?.dryRun ?? false;
+
+  const idle = `${idleMs} milliseconds`;
+  const offline = `${offlineMs} milliseconds`;
+  const maxIdle = `${maxIdleMs} milliseconds`;
+
+  // GREATEST ignores NULLs, so sessions without events or a reported mtime
+  // fall back to started_at.
+  const candidates = await sql`
+    WITH detected AS (
+      SELECT s.id, s.workspace_id, s.device_id, s.started_at, s.transcript_s3_key,
+             GREATEST(
+               s.started_at,
+               s.transcript_mtime,
+               (SELECT max(e.timestamp) FROM events e WHERE e.session_id = s.id)
+             ) AS last_activity_at
+      FROM sessions s
+      WHERE s.lifecycle = 'detected'
+    )
+    SELECT d.id, d.workspace_id, d.started_at, d.transcript_s3_key, d.last_activity_at,
+           CASE
+             WHEN d.last_activity_at < now() - ${maxIdle}::interval THEN 'max_idle'
+             ELSE 'device_offline'
+           END AS reason
+    FROM detected d
+    LEFT JOIN devices dev ON dev.id = d.device_id
+    WHERE d.last_activity_at < now() - ${idle}::interval
+      AND (
+        d.last_activity_at < now() - ${maxIdle}::interval
+        OR dev.last_seen_at IS NULL
+        OR dev.last_seen_at < now() - ${offline}::interval
+      )
+    ORDER BY d.last_activity_at ASC
+    LIMIT ${limit}
+  `;
+
+  const result: ReapResult = {
+    found: candidates.length,
+    reaped: 0,
+    reconciled: 0,
+    dryRun,
+    sessions: [],
+    errors: [],
+  };
+
+  if (candidates.length === 0) {
+    return result;
+  }
+
+  logger.info(
+    { count: candidates.length, dryRun },
+    `Found ${candidates.length} abandoned detected sessions`,
+  );
+
+  for (const row of candidates) {
+    const sessionId = row.id as string;
+    const lastActivityAt = new Date(row.last_activity_at as string | Date);
+    const startedAt = new Date(row.started_at as string | Date);
+    const hasTranscript = !!row.transcript_s3_key;
+    const entry: ReapedSession = {
+      sessionId,
+      reason: row.reason as ReapReason,
+      lastActivityAt: lastActivityAt.toISOString(),
+      next: hasTranscript ? "reconcile" : "awaiting_transcript",
+    };
+
+    if (dryRun) {
+      result.sessions.push(entry);
+      continue;
+    }
+
+    try {
+      const ended = await transitionSession(sql, sessionId, "detected", "ended", {
+        ended_at: entry.lastActivityAt,
+        end_reason: "crash",
+        duration_ms: Math.max(0, lastActivityAt.getTime() - startedAt.getTime()),
+      });
+
+      if (!ended.success) {
+        // Ended concurrently (a late SessionEnd) — nothing to do
+        logger.debug({ sessionId, reason: ended.reason }, "Reaper: session no longer detected — skipping");
+        continue;
+      }
+
+      result.reaped++;
+      result.sessions.push(entry);
+      pipelineDeps.notifier?.sessionUpdated({
+        sessionId,
+        workspaceId: row.workspace_id as string,
+        lifecycle: "ended",
+      });
+
+      if (hasTranscript) {
+        // Same path as session.end with an already-uploaded transcript
+        const ready = await transitionSession(sql, sessionId, "ended", "transcript_ready");
+        if (ready.success) {
+          if (pipelineDeps.enqueueSession) {
+            pipelineDeps.enqueueSession(sessionId);
+          } else {
+            reconcileSession(pipelineDeps, sessionId).catch((err) => {
+              logger.error(
+                { sessionId, error: err instanceof Error ? err.message : String(err) },
+                "Reaper reconcile trigger failed",
+              );
+            });
+          }
+          result.reconciled++;
+        }
+      }
+
+      logger.info(
+        { sessionId, reason: entry.reason, lastActivityAt: entry.lastActivityAt, next: entry.next },
+        "Reaped abandoned session",
+      );
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      result.errors.push({ sessionId, error: errorMsg });
+      logger.error({ sessionId, error: errorMsg }, "Error reaping abandoned session");
+    }
+  }
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// CLI activity reports
+// ---------------------------------------------------------------------------
+
+/**
+ * Record transcript mtimes reported by the CLI for sessions it has open, and
+ * tell it which of those sessions are no longer open on the server.
+ *
+ * mtimes only move forward and only apply to detected sessions. Sessions the
+ * server doesn't know yet (session.start still queued) are left out of both
+ * lists so the CLI keeps tracking them.
+ */
+export async function recordTranscriptActivity(
+  sql: Sql,
+  reports: Array<{ id: string; transcript_mtime: string }>,
+): Promise<TranscriptActivityResult> {
+  const result: TranscriptActivityResult = { updated: 0, upload: [], closed: [] };
+  if (reports.length === 0) return result;
+
+  for (const report of reports) {
+    const rows = await sql`
+      UPDATE sessions
+      SET transcript_mtime = GREATEST(transcript_mtime, ${report.transcript_mtime}::timestamptz)
+      WHERE id = ${report.id} AND lifecycle = 'detected'
+      RETURNING id
+    `;
+    result.updated += rows.length;
+  }
+
+  const ids = reports.map((r) => r.id);
+  const closed = await sql`
+    SELECT id, transcript_s3_key
+    FROM sessions
+    WHERE id = ANY(${ids}) AND lifecycle <> 'detected'
+  `;
+  for (const row of closed) {
+    if (row.transcript_s3_key) {
+      result.closed.push(row.id as string);
+    } else {
+      result.upload.push(row.id as string);
+    }
+  }
+
+  return result;
+}
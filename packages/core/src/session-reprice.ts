@@ -0,0 +1,236 @@
+/**
+ * Session repricing for fuel-code.
+ *
+ * Recomputes per-message cost_usd, the session's cost_estimate_usd, and its
+ * per-model cost_breakdown from already-persisted transcript_messages using
+ * the current pricing registry. No S3 download or reparse is needed: token
+ * counts live in columns, and the 1-hour cache write split is read back from
+ * raw_message.usage.
+ *
+ * Used when PRICING_VERSION changes (new rates, new models) and for sessions
+ * parsed before per-model pricing existed (cost_breakdown IS NULL).
+ *
+ * Session totals cover main-transcript messages only (subagent_id IS NULL),
+ * matching how the parser computes stats. Subagent message rows still get
+ * their cost_usd repriced.
+ *
+ * Archived sessions are skipped: their main-transcript rows live only in the
+ * parsed backup until restored (restoreSession reprices them on the way back).
+ *
+ * A repriced session's day is refreshed in the daily_usage rollup.
+ */
+
+import type { Sql } from "postgres";
+import type { Logger } from "pino";
+import {
+  PRICING_VERSION,
+  computeMessageCost,
+  addToCostBreakdown,
+  createCostBreakdown,
+  type MessageTokenUsage,
+} from "@fuel-code/shared";
+import { refreshDailyUsage } from "./usage-rollup.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Lifecycle states in which a session has parsed transcript_messages */
+const REPRICEABLE_LIFECYCLES = ["parsed", "summarized", "complete"];
+
+/** Outcome of repricing a single session */
+export interface RepriceResult {
+  sessionId: string;
+  /** True if costs were recomputed and written */
+  repriced: boolean;
+  /** Why the session was skipped (only set when repriced is false) */
+  reason?: "not_found" | "not_parsed" | "archived";
+  /** Number of assistant message rows whose cost_usd was recomputed */
+  messagesRepriced: number;
+  /** Session cost before repricing (null if never costed) */
+  previousCostUsd: number | null;
+  /** Session cost after repricing */
+  costUsd: number | null;
+  /** Pricing version the new costs were computed with */
+  pricingVersion: string;
+}
+
+/** Result of a bulk reprice sweep — mirrors RecoveryResult */
+export interface RepriceSweepResult {
+  /** Number of sessions selected for repricing */
+  found: number;
+  /** Number of sessions successfully repriced */
+  repriced: number;
+  /** Per-session errors encountered during the sweep */
+  errors: Array<{ sessionId: string; error: string }>;
+}
+
+// ---------------------------------------------------------------------------
+// Single-session reprice
+// ---------------------------------------------------------------------------
+
+/**
+ * Reprice one session from its persisted transcript_messages.
+ *
+ * Message and session updates run in one transaction so readers never see
+ * message costs that disagree with the session total.
+ *
+ * @param sql       - postgres.js tagged template client
+ * @param sessionId - Session to reprice
+ * @returns RepriceResult describing what changed (never throws for skips)
+ */
+export async function repriceSession(sql: Sql, sessionId: string): Promise<RepriceResult> {
+  const sessionRows = await sql`
+    SELECT lifecycle, cost_estimate_usd, archived_at FROM sessions WHERE id = ${sessionId}
+  `;
+
+  const base = {
+    sessionId,
+    messagesRepriced: 0,
+    pricingVersion: PRICING_VERSION,
+  };
+
+  if (sessionRows.length === 0) {
+    return { ...base, repriced: false, reason: "not_found", previousCostUsd: null, costUsd: null };
+  }
+
+  const session = sessionRows[0];
+  const previousCostUsd = session.cost_estimate_usd != null ? Number(session.cost_estimate_usd) : null;
+
+  if (!REPRICEABLE_LIFECYCLES.includes(session.lifecycle)) {
+    return { ...base, repriced: false, reason: "not_parsed", previousCostUsd, costUsd: previousCostUsd };
+  }
+
+  if (session.archived_at) {
+    return { ...base, repriced: false, reason: "archived", previousCostUsd, costUsd: previousCostUsd };
+  }
+
+  // Only assistant messages carry usage. The 1h cache write split is not a
+  // column, so pull it out of the stored raw message.
+  const messages = await sql`
+    SELECT id, model, subagent_id, tokens_in, tokens_out, cache_read, cache_write,
+           (raw_message->'usage'->'cache_creation'->>'ephemeral_1h_input_tokens')::int AS cache_write_1h
+    FROM transcript_messages
+    WHERE session_id = ${sessionId} AND message_type = 'assistant'
+  `;
+
+  const breakdown = createCostBreakdown();
+  const updates: Array<{ i: string; c: number | null }> = [];
+  let totalCost = 0;
+
+  for (const m of messages) {
+    const usage: MessageTokenUsage = {
+      input_tokens: m.tokens_in,
+      output_tokens: m.tokens_out,
+      cache_read_tokens: m.cache_read,
+      cache_write_tokens: m.cache_write,
+      cache_write_1h_tokens: m.cache_write_1h,
+    };
+    const cost = computeMessageCost(m.model, usage);
+    updates.push({ i: m.id, c: cost });
+
+    if (m.subagent_id == null) {
+      totalCost += cost ?? 0;
+      addToCostBreakdown(breakdown, m.model, usage, cost);
+    }
+  }
+
+  await sql.begin(async (tx: any) => {
+    if (updates.length > 0) {
+      // One round-trip for all message rows: unpack a JSON array of {i, c}
+      await tx`
+        UPDATE transcript_messages AS tm
+        SET cost_usd = (v->>'c')::numeric
+        FROM jsonb_array_elements(${JSON.stringify(updates)}::jsonb) AS v
+        WHERE tm.id = v->>'i'
+      `;
+    }
+
+    await tx`
+      UPDATE sessions
+      SET cost_estimate_usd = ${totalCost},
+          cost_breakdown    = ${JSON.stringify(breakdown)}::jsonb,
+          updated_at        = now()
+      WHERE id = ${sessionId}
+    `;
+  });
+
+  await refreshDailyUsage(sql, sessionId);
+
+  return {
+    ...base,
+    repriced: true,
+    messagesRepriced: updates.length,
+    previousCostUsd,
+    costUsd: totalCost,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Bulk reprice
+// ---------------------------------------------------------------------------
+
+/**
+ * Reprice parsed sessions whose costs were computed with a different
+ * PRICING_VERSION (or never broken down at all). Pass `all: true` to
+ * reprice every parsed session regardless of version.
+ *
+ * Sessions are processed sequentially, oldest first, so a large backlog
+ * doesn't flood the database. Per-session failures are collected, not thrown.
+ *
+ * @param sql     - postgres.js tagged template client
+ * @param logger  - Pino logger for per-session progress
+ * @param options - Optional sweep configuration
+ * @returns RepriceSweepResult with counts and per-session errors
+ */
+export async function repriceStaleSessions(
+  sql: Sql,
+  logger: Logger,
+  options?: {
+    /** Reprice every parsed session, not just stale ones. Default: false */
+    all?: boolean;
+    /** Max sessions to process in this sweep. Default: 500 */
+    limit?: number;
+  },
+): Promise<RepriceSweepResult> {
+  const limit = options?.limit ?? 500;
+  const staleFilter = options?.all
+    ? sql``
+    : sql`AND (cost_breakdown IS NULL OR cost_breakdown->>'pricing_version' IS DISTINCT FROM ${PRICING_VERSION})`;
+
+  const rows = await sql`
+    SELECT id FROM sessions
+    WHERE lifecycle IN ${sql(REPRICEABLE_LIFECYCLES)}
+      AND archived_at IS NULL
+      ${staleFilter}
+    ORDER BY started_at ASC
+    LIMIT ${limit}
+  `;
+
+  const result: RepriceSweepResult = { found: rows.length, repriced: 0, errors: [] };
+
+  for (const row of rows) {
+    const sessionId = row.id as string;
+    try {
+      const r = await repriceSession(sql, sessionId);
+      if (r.repriced) {
+        result.repriced++;
+        logger.debug(
+          { sessionId, previousCostUsd: r.previousCostUsd, costUsd: r.costUsd },
+          "Session repriced",
+        );
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      logger.error({ sessionId, error }, "Failed to reprice session");
+      result.errors.push({ sessionId, error });
+    }
+  }
+
+  logger.info(
+    { found: result.found, repriced: result.repriced, errors: result.errors.length, pricingVersion: PRICING_VERSION },
+    "Reprice sweep complete",
+  );
+
+  return result;
+}
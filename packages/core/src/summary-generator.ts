@@ -6,12 +6,14 @@
  * returns a 1-3 sentence past-tense summary of what was accomplished.
  *
  * This is a pure function — no database access, no side effects beyond the
- * API call. Error handling is total: the function never throws, always
- * returning a SummaryResult with success/failure info.
+ * API call (and the request/error counters it records). Error handling is
+ * total: the function never throws, always returning a SummaryResult with
+ * success/failure info.
  */
 
 import Anthropic from "@anthropic-ai/sdk";
 import type { TranscriptMessage, ParsedContentBlock, TeammateSummary } from "@fuel-code/shared";
+import { metrics } from "./metrics.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -70,6 +72,21 @@ const ASSISTANT_TEXT_CHAR_LIMIT = 300;
 /** API call timeout in milliseconds */
 const API_TIMEOUT_MS = 30_000;
 
+/** Anthropic API calls made for session and teammate summaries */
+const summaryApiRequests = metrics.counter(
+  "fuel_code_summary_api_requests_total",
+  "Anthropic API requests made to generate summaries",
+);
+
+/**
+ * Failed summary API calls by reason: rate_limited (429), timeout,
+ * unauthorized (401), server_error (5xx), client_error (other 4xx), other
+ */
+const summaryApiErrors = metrics.counter(
+  "fuel_code_summary_api_errors_total",
+  "Failed Anthropic API requests for summaries, by reason",
+);
+
 // ---------------------------------------------------------------------------
 // Prompt rendering
 // ---------------------------------------------------------------------------
@@ -284,6 +301,7 @@ export async function generateSummary(
   const hasTeammates = teammates && teammates.length > 0;
   const systemPrompt = hasTeammates ? TEAM_SUMMARY_SYSTEM_PROMPT : SUMMARY_SYSTEM_PROMPT;
 
+  summaryApiRequests.inc();
   try {
     // Create Anthropic client and call the API with a timeout
     const anthropic = new Anthropic({ apiKey: config.apiKey });
@@ -322,11 +340,13 @@ export async function generateSummary(
 function handleApiError(error: unknown): SummaryResult {
   // Handle AbortError from AbortSignal.timeout
   if (error instanceof DOMException && error.name === "AbortError") {
+    summaryApiErrors.inc({ reason: "timeout" });
     return { success: false, error: "Summary generation timed out (30s)" };
   }
 
   // Handle timeout error (could also be a TimeoutError in some environments)
   if (error instanceof Error && error.name === "TimeoutError") {
+    summaryApiErrors.inc({ reason: "timeout" });
     return { success: false, error: "Summary generation timed out (30s)" };
   }
 
@@ -335,6 +355,7 @@ function handleApiError(error: unknown): SummaryResult {
     const status = error.status;
 
     if (status === 429) {
+      summaryApiErrors.inc({ reason: "rate_limited" });
       // Rate limited — try to extract retry-after from headers or error
       const retryAfter = extractRetryAfter(error);
       return {
@@ -345,18 +366,22 @@ function handleApiError(error: unknown): SummaryResult {
     }
 
     if (status === 401) {
+      summaryApiErrors.inc({ reason: "unauthorized" });
       return { success: false, error: "Invalid Anthropic API key" };
     }
 
     if (status >= 500) {
+      summaryApiErrors.inc({ reason: "server_error" });
       return { success: false, error: `Anthropic API error: ${status}` };
     }
 
     // Other HTTP errors (400, 403, etc.)
+    summaryApiErrors.inc({ reason: "client_error" });
     return { success: false, error: `Anthropic API error: ${status}` };
   }
 
   // Generic/unknown error
+  summaryApiErrors.inc({ reason: "other" });
   const message = error instanceof Error ? error.message : String(error);
   return { success: false, error: `Summary generation failed: ${message}` };
 }
@@ -0,0 +1,63 @@
+/**
+ * Tool result artifacts for fuel-code.
+ *
+ * The transcript parser keeps only a preview of tool results larger than the
+ * inline limit (big Bash logs, file reads, screenshots) and returns their full
+ * content in ParseResult.artifacts. uploadToolResultArtifacts() stores each
+ * one in S3 at artifacts/{sessionId}/{toolUseId}.{ext} and points the
+ * block's result_s3_key at it, so the full output can be fetched later via
+ * GET /api/sessions/:id/blocks/:blockId/result.
+ *
+ * Keys use the tool_use_id, which is stable across reparses, so reparsing a
+ * session overwrites its artifacts instead of orphaning them.
+ */
+
+import type { Logger } from "pino";
+import type { ParseResult } from "@fuel-code/shared";
+import { buildArtifactKey } from "@fuel-code/shared";
+import type { ReconcileS3Client } from "./reconcile/reconcile-session.js";
+
+/**
+ * Upload a parse result's oversized tool results and set result_s3_key on
+ * their content blocks (mutates parseResult.contentBlocks in place).
+ *
+ * Best-effort per artifact: a failed upload is logged and its block keeps
+ * only the truncated preview.
+ *
+ * @returns Number of artifacts uploaded
+ */
+export async function uploadToolResultArtifacts(
+  s3: Pick<ReconcileS3Client, "upload">,
+  sessionId: string,
+  parseResult: ParseResult,
+  logger: Logger,
+): Promise<number> {
+  const artifacts = parseResult.artifacts ?? [];
+  if (artifacts.length === 0) return 0;
+
+  const blocksById = new Map(parseResult.contentBlocks.map((b) => [b.id, b]));
+  let uploaded = 0;
+
+  for (const artifact of artifacts) {
+    const block = blocksById.get(artifact.block_id);
+    if (!block) continue;
+
+    const key = buildArtifactKey(sessionId, artifact.artifact_id, artifact.ext);
+    const body =
+      artifact.encoding === "base64" ? Buffer.from(artifact.content, "base64") : artifact.content;
+
+    try {
+      await s3.upload(key, body, artifact.content_type);
+      block.result_s3_key = key;
+      uploaded++;
+    } catch (err) {
+      logger.warn(
+        { key, bytes: artifact.byte_length, error: err instanceof Error ? err.message : String(err) },
+        "Failed to upload tool result artifact — keeping truncated preview",
+      );
+    }
+  }
+
+  logger.info({ uploaded, total: artifacts.length }, `Uploaded ${uploaded} tool result artifact(s)`);
+  return uploaded;
+}
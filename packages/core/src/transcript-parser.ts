@@ -9,8 +9,10 @@
  *   1. Split input into lines, filter empties
  *   2. JSON-parse each line, classify by `type` field
  *   3. Group assistant lines by `message.id` (CC streams multi-line responses)
- *   4. Build TranscriptMessage + ParsedContentBlock rows in JSONL order
- *   5. Compute per-message cost, aggregate stats, extract metadata
+ *   4. Build TranscriptMessage + ParsedContentBlock rows in JSONL order,
+ *      assigning compact_sequence from compact_boundary system lines
+ *   5. Compute per-message cost (model-aware pricing from @fuel-code/shared),
+ *      aggregate stats, extract metadata
  */
 
 import type {
@@ -25,8 +27,15 @@ import type {
   ParsedTeam,
   ParsedSkill,
   ParsedWorktree,
+  ToolResultArtifact,
+} from "@fuel-code/shared";
+import {
+  generateId,
+  computeMessageCost,
+  usageFromTokenUsage,
+  addToCostBreakdown,
+  createCostBreakdown,
 } from "@fuel-code/shared";
-import { generateId } from "@fuel-code/shared";
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -38,27 +47,35 @@ const DEFAULT_MAX_INLINE_BYTES = 262_144;
 /** Maximum allowed size for a single JSONL line (5 MB) */
 const MAX_LINE_BYTES = 5 * 1024 * 1024;
 
-/** Claude pricing per million tokens (USD) */
-const PRICE_INPUT_PER_MTOK = 3.0;
-const PRICE_OUTPUT_PER_MTOK = 15.0;
-const PRICE_CACHE_READ_PER_MTOK = 0.3;
-const PRICE_CACHE_WRITE_PER_MTOK = 3.75;
-
 /** Max length (chars) of the initial_prompt captured in stats */
 const MAX_INITIAL_PROMPT_CHARS = 1000;
 
 /** JSONL line types we skip — internal CC bookkeeping, not conversation */
 const SKIP_TYPES = new Set(["progress", "file-history-snapshot", "queue-operation"]);
 
+/** System line subtype CC writes where it compacted the conversation */
+const COMPACT_BOUNDARY_SUBTYPE = "compact_boundary";
+
 /** JSONL line types we process into messages */
 const PROCESS_TYPES = new Set(["user", "assistant", "system", "summary"]);
 
+/** File extensions for image media types offloaded as artifacts */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
 // ---------------------------------------------------------------------------
 // Public interface
 // ---------------------------------------------------------------------------
 
 export interface ParseOptions {
-  /** Max bytes for inline tool result text. Larger results are truncated. Default 256 KB. */
+  /**
+   * Max bytes for inline tool result text. Larger results are truncated to a
+   * preview and their full content returned in result.artifacts. Default 256 KB.
+   */
   maxInlineContentBytes?: number;
   /** Called when a JSONL line cannot be parsed. Errors also appear in result.errors. */
   onLineError?: (lineNumber: number, error: string) => void;
@@ -80,6 +97,8 @@ export async function parseTranscript(
   options?: ParseOptions,
 ): Promise<ParseResult> {
   const maxInline = options?.maxInlineContentBytes ?? DEFAULT_MAX_INLINE_BYTES;
+  const artifacts: ToolResultArtifact[] = [];
+  const inline: InlineLimit = { maxBytes: maxInline, artifacts };
   const onLineError = options?.onLineError;
   const signal = options?.signal;
 
@@ -205,6 +224,9 @@ export async function parseTranscript(
   // ---------------------------------------------------------------------------
 
   let ordinal = 0;
+  // Each compact_boundary starts a new segment: the boundary line and
+  // everything after it belong to the next compact_sequence.
+  let compactSequence = 0;
 
   for (let i = 0; i < classifiedLines.length; i++) {
     if (signal?.aborted) break;
@@ -212,6 +234,10 @@ export async function parseTranscript(
     const { lineNumber, parsed } = classifiedLines[i];
     const lineType = parsed.type;
 
+    if (lineType === "system" && parsed.subtype === COMPACT_BOUNDARY_SUBTYPE) {
+      compactSequence++;
+    }
+
     if (lineType === "assistant") {
       const msgId = parsed.message?.id;
 
@@ -230,7 +256,8 @@ export async function parseTranscript(
         sessionId,
         groupLines,
         ordinal,
-        maxInline,
+        compactSequence,
+        inline,
         messages,
         contentBlocks,
       );
@@ -242,7 +269,8 @@ export async function parseTranscript(
         lineNumber,
         parsed,
         ordinal,
-        maxInline,
+        compactSequence,
+        inline,
         messages,
         contentBlocks,
       );
@@ -250,6 +278,11 @@ export async function parseTranscript(
     }
   }
 
+  // Messages from before the last boundary are no longer in CC's live context
+  for (const msg of messages) {
+    msg.is_compacted = msg.compact_sequence < compactSequence;
+  }
+
   // ---------------------------------------------------------------------------
   // Pass 3: Compute stats
   // ---------------------------------------------------------------------------
@@ -464,6 +497,7 @@ export async function parseTranscript(
     skills,
     worktrees,
     permission_mode: permissionMode,
+    artifacts,
   };
 }
 
@@ -529,7 +563,8 @@ function buildAssistantMessage(
   sessionId: string,
   groupLines: Array<{ lineNumber: number; parsed: RawTranscriptLine }>,
   ordinal: number,
-  maxInline: number,
+  compactSequence: number,
+  inline: InlineLimit,
   messages: TranscriptMessage[],
   contentBlocks: ParsedContentBlock[],
 ): void {
@@ -567,7 +602,7 @@ function buildAssistantMessage(
           messageId,
           sessionId,
           blockOrder,
-          maxInline,
+          inline,
         );
         if (!block) continue;
 
@@ -583,13 +618,11 @@ function buildAssistantMessage(
     }
   }
 
-  // Token usage from the LAST line (most complete data in streaming)
-  const usage = lastLine.parsed.message?.usage;
-  const tokensIn = usage?.input_tokens ?? null;
-  const tokensOut = usage?.output_tokens ?? null;
-  const cacheRead = usage?.cache_read_input_tokens ?? null;
-  const cacheWrite = usage?.cache_creation_input_tokens ?? null;
-  const costUsd = computeCost(tokensIn, tokensOut, cacheRead, cacheWrite);
+  // Token usage from the LAST line (most complete data in streaming).
+  // Cost is priced against the model that produced this message.
+  const model = lastLine.parsed.message?.model ?? null;
+  const usage = usageFromTokenUsage(lastLine.parsed.message?.usage);
+  const costUsd = computeMessageCost(model, usage);
 
   const msg: TranscriptMessage = {
     id: messageId,
@@ -599,13 +632,13 @@ function buildAssistantMessage(
     ordinal,
     message_type: "assistant",
     role: lastLine.parsed.message?.role ?? "assistant",
-    model: lastLine.parsed.message?.model ?? null,
-    tokens_in: tokensIn,
-    tokens_out: tokensOut,
-    cache_read: cacheRead,
-    cache_write: cacheWrite,
+    model,
+    tokens_in: usage.input_tokens,
+    tokens_out: usage.output_tokens,
+    cache_read: usage.cache_read_tokens,
+    cache_write: usage.cache_write_tokens,
     cost_usd: costUsd,
-    compact_sequence: 0,
+    compact_sequence: compactSequence,
     is_compacted: false,
     timestamp: firstLine.parsed.timestamp ?? null,
     raw_message: lastLine.parsed.message ?? null,
@@ -629,7 +662,8 @@ function buildStandaloneMessage(
   lineNumber: number,
   parsed: RawTranscriptLine,
   ordinal: number,
-  maxInline: number,
+  compactSequence: number,
+  inline: InlineLimit,
   messages: TranscriptMessage[],
   contentBlocks: ParsedContentBlock[],
 ): void {
@@ -659,7 +693,7 @@ function buildStandaloneMessage(
     } else if (Array.isArray(content)) {
       // Array content: tool_result blocks from user, or mixed blocks
       for (const rawBlock of content as RawContentBlock[]) {
-        const block = convertContentBlock(rawBlock, messageId, sessionId, blockOrder, maxInline);
+        const block = convertContentBlock(rawBlock, messageId, sessionId, blockOrder, inline);
         if (!block) continue;
 
         allBlocks.push(block);
@@ -688,11 +722,11 @@ function buildStandaloneMessage(
     cache_read: null,
     cache_write: null,
     cost_usd: null,
-    compact_sequence: 0,
+    compact_sequence: compactSequence,
     is_compacted: false,
     timestamp: parsed.timestamp ?? null,
     raw_message: parsed.message ?? null,
-    metadata: {},
+    metadata: buildCompactMetadata(parsed),
     has_text: hasText,
     has_thinking: hasThinking,
     has_tool_use: hasToolUse,
@@ -703,6 +737,25 @@ function buildStandaloneMessage(
   contentBlocks.push(...allBlocks);
 }
 
+/**
+ * Compaction markers worth keeping on the message row: the boundary line's
+ * trigger and pre-compaction token count, and a flag on the synthetic user
+ * message that carries CC's summary of the compacted conversation.
+ */
+function buildCompactMetadata(parsed: RawTranscriptLine): Record<string, unknown> {
+  if (parsed.type === "system" && parsed.subtype === COMPACT_BOUNDARY_SUBTYPE) {
+    return {
+      compact_boundary: true,
+      compact_trigger: parsed.compactMetadata?.trigger ?? null,
+      pre_tokens: parsed.compactMetadata?.preTokens ?? null,
+    };
+  }
+  if (parsed.isCompactSummary) {
+    return { compact_summary: true };
+  }
+  return {};
+}
+
 // ---------------------------------------------------------------------------
 // Internal: content block conversion
 // ---------------------------------------------------------------------------
@@ -716,7 +769,7 @@ function convertContentBlock(
   messageId: string,
   sessionId: string,
   blockOrder: number,
-  maxInline: number,
+  inline: InlineLimit,
 ): ParsedContentBlock | null {
   switch (raw.type) {
     case "text":
@@ -763,7 +816,7 @@ function convertContentBlock(
       };
 
     case "tool_result":
-      return makeToolResultBlock(raw, messageId, sessionId, blockOrder, maxInline);
+      return makeToolResultBlock(raw, messageId, sessionId, blockOrder, inline);
 
     default:
       // Unknown block type — skip silently
@@ -798,17 +851,38 @@ function makeTextBlock(
   };
 }
 
+/** Inline size limit, plus the collector for results that exceed it */
+interface InlineLimit {
+  maxBytes: number;
+  artifacts: ToolResultArtifact[];
+}
+
 /**
- * Create a tool_result content block. If the result text exceeds the
- * inline size limit, truncate it and note the truncation in metadata.
+ * If a tool_result's content is a single base64 image, return its media
+ * type and data (CC stores screenshots and image reads this way).
+ */
+function extractBase64Image(content: unknown): { mediaType: string; data: string } | null {
+  if (!Array.isArray(content) || content.length !== 1) return null;
+  const item = content[0] as { type?: string; source?: { type?: string; media_type?: string; data?: string } };
+  if (item?.type !== "image" || item.source?.type !== "base64") return null;
+  if (typeof item.source.data !== "string" || typeof item.source.media_type !== "string") return null;
+  return { mediaType: item.source.media_type, data: item.source.data };
+}
+
+/**
+ * Create a tool_result content block. If the result text exceeds the inline
+ * size limit, keep a truncated preview inline, note the truncation in
+ * metadata, and hand the full content to inline.artifacts for upload.
  */
 function makeToolResultBlock(
   raw: RawContentBlock,
   messageId: string,
   sessionId: string,
   blockOrder: number,
-  maxInline: number,
+  inline: InlineLimit,
 ): ParsedContentBlock {
+  const blockId = generateId();
+
   // tool_result content can be a string or a nested structure
   let resultText: string | null = null;
   if (typeof raw.content === "string") {
@@ -819,19 +893,50 @@ function makeToolResultBlock(
 
   const metadata: Record<string, unknown> = {};
 
-  // Truncate if exceeds max inline bytes
+  // Offload to an artifact if it exceeds max inline bytes
   if (resultText != null) {
     const byteLength = new TextEncoder().encode(resultText).byteLength;
-    if (byteLength > maxInline) {
-      // Truncate to approximately maxInline bytes (safe substring approach)
-      resultText = truncateToBytes(resultText, maxInline);
+    if (byteLength > inline.maxBytes) {
+      const artifactId = raw.tool_use_id ?? blockId;
+      const image = extractBase64Image(raw.content);
+
+      if (image) {
+        // Store the decoded image; a base64 prefix is a useless preview
+        const imageBytes = Math.floor((image.data.length * 3) / 4) - (image.data.match(/=*$/)?.[0].length ?? 0);
+        inline.artifacts.push({
+          block_id: blockId,
+          artifact_id: artifactId,
+          content: image.data,
+          encoding: "base64",
+          content_type: image.mediaType,
+          ext: IMAGE_EXTENSIONS[image.mediaType] ?? "bin",
+          byte_length: imageBytes,
+        });
+        resultText = `[image: ${image.mediaType}, ${imageBytes} bytes]`;
+        metadata.artifact_content_type = image.mediaType;
+      } else {
+        const isText = typeof raw.content === "string";
+        inline.artifacts.push({
+          block_id: blockId,
+          artifact_id: artifactId,
+          content: resultText,
+          encoding: "utf-8",
+          content_type: isText ? "text/plain; charset=utf-8" : "application/json",
+          ext: isText ? "txt" : "json",
+          byte_length: byteLength,
+        });
+        // Truncate to approximately maxBytes (safe substring approach)
+        resultText = truncateToBytes(resultText, inline.maxBytes);
+        metadata.artifact_content_type = isText ? "text/plain" : "application/json";
+      }
+
       metadata.truncated = true;
       metadata.original_byte_length = byteLength;
     }
   }
 
   return {
-    id: generateId(),
+    id: blockId,
     message_id: messageId,
     session_id: sessionId,
     block_order: blockOrder,
@@ -864,35 +969,6 @@ function truncateToBytes(text: string, maxBytes: number): string {
   return decoder.decode(encoded.slice(0, maxBytes));
 }
 
-// ---------------------------------------------------------------------------
-// Internal: cost computation
-// ---------------------------------------------------------------------------
-
-/**
- * Compute approximate USD cost for a single message based on token counts.
- * Returns null if no usage data is available.
- */
-function computeCost(
-  tokensIn: number | null,
-  tokensOut: number | null,
-  cacheRead: number | null,
-  cacheWrite: number | null,
-): number | null {
-  // If all token counts are null, no cost to compute
-  if (tokensIn == null && tokensOut == null && cacheRead == null && cacheWrite == null) {
-    return null;
-  }
-
-  const cost =
-    ((tokensIn ?? 0) * PRICE_INPUT_PER_MTOK +
-      (tokensOut ?? 0) * PRICE_OUTPUT_PER_MTOK +
-      (cacheRead ?? 0) * PRICE_CACHE_READ_PER_MTOK +
-      (cacheWrite ?? 0) * PRICE_CACHE_WRITE_PER_MTOK) /
-    1_000_000;
-
-  return cost;
-}
-
 // ---------------------------------------------------------------------------
 // Internal: stats computation
 // ---------------------------------------------------------------------------
@@ -913,6 +989,7 @@ function computeStats(
   let totalCacheRead = 0;
   let totalCacheWrite = 0;
   let totalCost = 0;
+  const costBreakdown = createCostBreakdown();
   let initialPrompt: string | null = null;
 
   for (const msg of messages) {
@@ -924,6 +1001,17 @@ function computeStats(
       }
     } else if (msg.message_type === "assistant") {
       assistantMessages++;
+      addToCostBreakdown(
+        costBreakdown,
+        msg.model,
+        {
+          input_tokens: msg.tokens_in,
+          output_tokens: msg.tokens_out,
+          cache_read_tokens: msg.cache_read,
+          cache_write_tokens: msg.cache_write,
+        },
+        msg.cost_usd,
+      );
     }
 
     totalTokensIn += msg.tokens_in ?? 0;
@@ -973,6 +1061,7 @@ function computeStats(
     cache_read_tokens: totalCacheRead,
     cache_write_tokens: totalCacheWrite,
     cost_estimate_usd: totalCost,
+    cost_breakdown: costBreakdown,
     duration_ms: durationMs,
     initial_prompt: initialPrompt,
   };
@@ -0,0 +1,168 @@
+/**
+ * Daily usage rollup for fuel-code.
+ *
+ * daily_usage holds one row per (UTC day, workspace, device, model) with the
+ * summed stats of the parsed sessions that started that day, so usage charts
+ * over weeks or months read a few hundred rows instead of scanning sessions.
+ *
+ * The rollup is maintained incrementally: whenever a session's stats change
+ * (it reaches 'parsed', or is repriced), refreshDailyUsage() recomputes just
+ * the rows for that session's (day, workspace, device). Recomputing instead
+ * of adding deltas keeps it idempotent — reparsing or reprocessing a session
+ * can never double-count it. The git handlers and re-correlation refresh the
+ * sessions whose commit attribution they change (a commit linked, superseded
+ * by a rewrite, or handed to another session), since that can happen long
+ * after the session was parsed.
+ *
+ * Sessions count toward their primary model (sessions.model). Commits are the
+ * commit rows in git_activity linked to those sessions.
+ *
+ * Moving sessions between workspaces (workspace merges) rebuilds every row of
+ * the affected workspaces with rebuildWorkspaceUsage().
+ */
+
+import type { Sql } from "postgres";
+
+/** Lifecycle states whose sessions have stats and are counted in the rollup */
+export const ROLLUP_LIFECYCLES = ["parsed", "summarized", "complete"];
+
+/** Model key for sessions that never recorded one */
+const UNKNOWN_MODEL = "unknown";
+
+/**
+ * Recompute the daily_usage rows for the (day, workspace, device) a session
+ * falls into.
+ *
+ * @param sql       - postgres.js tagged template client
+ * @param sessionId - Session whose stats changed
+ * @returns false if the session doesn't exist (nothing to refresh)
+ */
+export async function refreshDailyUsage(sql: Sql, sessionId: string): Promise<boolean> {
+  const [session] = await sql`
+    SELECT workspace_id, device_id, started_at FROM sessions WHERE id = ${sessionId}
+  `;
+  if (!session) return false;
+
+  const dayStart = new Date(session.started_at);
+  dayStart.setUTCHours(0, 0, 0, 0);
+  const day = dayStart.toISOString().slice(0, 10);
+  const dayEnd = new Date(dayStart.getTime() + 86_400_000);
+
+  await sql.begin(async (tx: any) => {
+    // Drop the key's rows first so models no longer present disappear
+    await tx`
+      DELETE FROM daily_usage
+      WHERE day = ${day}
+        AND workspace_id = ${session.workspace_id}
+        AND device_id = ${session.device_id}
+    `;
+
+    // ON CONFLICT covers a concurrent refresh of the same key: last one wins
+    await tx`
+      INSERT INTO daily_usage (
+        day, workspace_id, device_id, model, sessions, duration_ms,
+        tokens_in, tokens_out, cache_read_tokens, cache_write_tokens,
+        cost_usd, commits, updated_at
+      )
+      SELECT
+        ${day}::date,
+        s.workspace_id,
+        s.device_id,
+        COALESCE(s.model, ${UNKNOWN_MODEL}),
+        COUNT(*)::int,
+        COALESCE(SUM(s.duration_ms), 0),
+        COALESCE(SUM(s.tokens_in), 0),
+        COALESCE(SUM(s.tokens_out), 0),
+        COALESCE(SUM(s.cache_read_tokens), 0),
+        COALESCE(SUM(s.cache_write_tokens), 0),
+        COALESCE(SUM(s.cost_estimate_usd), 0),
+        COALESCE(SUM(c.commits), 0)::int,
+        now()
+      FROM sessions s
+      LEFT JOIN LATERAL (
+        SELECT COUNT(*)::int AS commits
+        FROM git_activity ga
+        WHERE ga.session_id = s.id AND ga.type = 'commit' AND ga.superseded_by IS NULL
+      ) c ON true
+      WHERE s.workspace_id = ${session.workspace_id}
+        AND s.device_id = ${session.device_id}
+        AND s.started_at >= ${dayStart.toISOString()}
+        AND s.started_at < ${dayEnd.toISOString()}
+        AND s.lifecycle IN ${tx(ROLLUP_LIFECYCLES)}
+      GROUP BY s.workspace_id, s.device_id, COALESCE(s.model, ${UNKNOWN_MODEL})
+      ON CONFLICT (day, workspace_id, device_id, model) DO UPDATE SET
+        sessions           = EXCLUDED.sessions,
+        duration_ms        = EXCLUDED.duration_ms,
+        tokens_in          = EXCLUDED.tokens_in,
+        tokens_out         = EXCLUDED.tokens_out,
+        cache_read_tokens  = EXCLUDED.cache_read_tokens,
+        cache_write_tokens = EXCLUDED.cache_write_tokens,
+        cost_usd           = EXCLUDED.cost_usd,
+        commits            = EXCLUDED.commits,
+        updated_at         = EXCLUDED.updated_at
+    `;
+  });
+
+  return true;
+}
+
+/**
+ * Refresh the rollup for each session in the list, once per distinct ID.
+ * Null entries (orphan git activity) are skipped.
+ *
+ * @param sql        - postgres.js tagged template client
+ * @param sessionIds - Sessions whose commit attribution changed
+ */
+export async function refreshDailyUsageForSessions(
+  sql: Sql,
+  sessionIds: Iterable<string | null | undefined>,
+): Promise<void> {
+  for (const sessionId of new Set(sessionIds)) {
+    if (sessionId) await refreshDailyUsage(sql, sessionId);
+  }
+}
+
+/**
+ * Rebuild all daily_usage rows of the given workspaces from their sessions.
+ * Used after sessions move between workspaces (merge/unmerge); run it inside
+ * the transaction that moved them.
+ *
+ * @param sql          - postgres.js client or transaction
+ * @param workspaceIds - Workspaces whose rollup rows are recomputed
+ */
+export async function rebuildWorkspaceUsage(sql: Sql, workspaceIds: string[]): Promise<void> {
+  if (workspaceIds.length === 0) return;
+
+  await sql`DELETE FROM daily_usage WHERE workspace_id IN ${sql(workspaceIds)}`;
+
+  await sql`
+    INSERT INTO daily_usage (
+      day, workspace_id, device_id, model, sessions, duration_ms,
+      tokens_in, tokens_out, cache_read_tokens, cache_write_tokens,
+      cost_usd, commits, updated_at
+    )
+    SELECT
+      (s.started_at AT TIME ZONE 'UTC')::date,
+      s.workspace_id,
+      s.device_id,
+      COALESCE(s.model, ${UNKNOWN_MODEL}),
+      COUNT(*)::int,
+      COALESCE(SUM(s.duration_ms), 0),
+      COALESCE(SUM(s.tokens_in), 0),
+      COALESCE(SUM(s.tokens_out), 0),
+      COALESCE(SUM(s.cache_read_tokens), 0),
+      COALESCE(SUM(s.cache_write_tokens), 0),
+      COALESCE(SUM(s.cost_estimate_usd), 0),
+      COALESCE(SUM(c.commits), 0)::int,
+      now()
+    FROM sessions s
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*)::int AS commits
+      FROM git_activity ga
+      WHERE ga.session_id = s.id AND ga.type = 'commit' AND ga.superseded_by IS NULL
+    ) c ON true
+    WHERE s.workspace_id IN ${sql(workspaceIds)}
+      AND s.lifecycle IN ${sql(ROLLUP_LIFECYCLES)}
+    GROUP BY 1, s.workspace_id, s.device_id, COALESCE(s.model, ${UNKNOWN_MODEL})
+  `;
+}
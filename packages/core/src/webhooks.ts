@@ -0,0 +1,404 @@
+/**
+ * Outbound webhook dispatcher for fuel-code.
+ *
+ * Two sources feed it:
+ *   - the event consumer calls eventProcessed() for every newly processed
+ *     event (session.end, git.commit, ...)
+ *   - the reconcile pipeline reports lifecycle milestones through the
+ *     SessionNotifier interface; parsed/summarized/complete/failed become
+ *     session.parsed, session.summarized, ... deliveries carrying the
+ *     summary, stats and the session's commits
+ *
+ * Each event is matched against every webhook (event-type filters and
+ * workspace) and recorded as a pending webhook_deliveries row, then sent.
+ * Sending claims due rows with a lease (FOR UPDATE SKIP LOCKED, so several
+ * server instances never send the same row at once), POSTs the whole batch
+ * concurrently with an HMAC signature (see @fuel-code/shared webhooks.ts)
+ * so the lease covers it, and records the outcome. Failures are rescheduled
+ * with exponential backoff until the receiver answers 2xx or maxAttempts is
+ * reached ('failed').
+ *
+ * Rows left pending (server restart, receiver down) are picked up by the
+ * periodic deliverDue() sweep the server runs.
+ *
+ * This module is pure domain logic with injected database and fetch
+ * dependencies. No Express, no CLI, no UI knowledge.
+ */
+
+import type { Sql } from "postgres";
+import type { Logger } from "pino";
+import {
+  generateId,
+  signWebhookPayload,
+  webhookEventMatches,
+  WEBHOOK_HEADERS,
+  WEBHOOK_TEST_EVENT_TYPE,
+  type Event,
+  type WebhookDelivery,
+  type WebhookPayload,
+  type WebhookSessionData,
+} from "@fuel-code/shared";
+import type { SessionNotifier, SessionUpdateNotification } from "./reconcile/reconcile-session.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Dependencies injected into the dispatcher — keeps it testable */
+export interface WebhookDispatcherDeps {
+  sql: Sql;
+  logger: Logger;
+  /** HTTP client (defaults to global fetch) */
+  fetch?: typeof fetch;
+}
+
+/** Retry and batching knobs */
+export interface WebhookDispatcherOptions {
+  /** Attempts before a delivery is marked failed */
+  maxAttempts: number;
+  /** Delay after the first failed attempt; doubles with each further failure */
+  baseDelayMs: number;
+  /** Upper bound on the retry delay */
+  maxDelayMs: number;
+  /** Per-request timeout */
+  timeoutMs: number;
+  /** Deliveries claimed per batch */
+  batchSize: number;
+}
+
+/** An event to deliver to every matching webhook */
+export interface WebhookEventInput {
+  eventType: string;
+  /** Source event ID (deduplicates replayed events); null for milestones */
+  eventId: string | null;
+  workspaceId: string | null;
+  sessionId: string | null;
+  timestamp: string;
+  /** Payload `data`; a function is only called when some webhook matches */
+  data: unknown | (() => Promise<unknown>);
+}
+
+/** Outcome of one deliverDue() call */
+export interface WebhookSweepResult {
+  attempted: number;
+  succeeded: number;
+  /** Failed attempts that will be retried */
+  retrying: number;
+  /** Deliveries that used their last attempt */
+  failed: number;
+}
+
+/** The dispatcher; also a SessionNotifier for reconcile milestones */
+export interface WebhookDispatcher extends SessionNotifier {
+  /**
+   * Deliver a newly processed event. `workspaceId` is the workspace ULID
+   * processEvent resolved — event.workspace_id is the canonical remote string,
+   * which webhooks are not keyed by. Never throws, never blocks.
+   */
+  eventProcessed(event: Event, workspaceId: string): void;
+  /** Record deliveries for an event (deliverDue() sends them); returns delivery IDs */
+  enqueue(input: WebhookEventInput): Promise<string[]>;
+  /** Send every due delivery (until none are left); safe to call concurrently */
+  deliverDue(): Promise<WebhookSweepResult>;
+  /** Send a webhook.test delivery right away, ignoring filters; null if no such webhook */
+  sendTest(webhookId: string): Promise<WebhookDelivery | null>;
+}
+
+/** A claimed delivery joined with its webhook's URL and secret */
+interface ClaimedDelivery {
+  id: string;
+  webhook_id: string;
+  event_type: string;
+  payload: WebhookPayload;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** Defaults: 8 attempts spanning ~2 hours (30s, 1m, 2m, ... capped at 1h) */
+export const DEFAULT_WEBHOOK_OPTIONS: WebhookDispatcherOptions = {
+  maxAttempts: 8,
+  baseDelayMs: 30_000,
+  maxDelayMs: 60 * 60_000,
+  timeoutMs: 10_000,
+  batchSize: 20,
+};
+
+/** Lifecycles reported by reconcile that become webhook events */
+const MILESTONE_LIFECYCLES = new Set(["parsed", "summarized", "complete", "failed"]);
+
+/** Longest response body / error text kept in last_error */
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts:
+ * baseDelayMs * 2^(attempts-1), capped at maxDelayMs.
+ */
+export function webhookBackoffMs(
+  attempts: number,
+  options: Pick<WebhookDispatcherOptions, "baseDelayMs" | "maxDelayMs"> = DEFAULT_WEBHOOK_OPTIONS,
+): number {
+  return Math.min(options.baseDelayMs * 2 ** Math.max(attempts - 1, 0), options.maxDelayMs);
+}
+
+// ---------------------------------------------------------------------------
+// Dispatcher
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the webhook dispatcher.
+ *
+ * @param deps    - Database, logger, and optional fetch override
+ * @param options - Retry/batching overrides (defaults: DEFAULT_WEBHOOK_OPTIONS)
+ */
+export function createWebhookDispatcher(
+  deps: WebhookDispatcherDeps,
+  options: Partial<WebhookDispatcherOptions> = {},
+): WebhookDispatcher {
+  const { sql, logger } = deps;
+  const fetchFn = deps.fetch ?? fetch;
+  const opts: WebhookDispatcherOptions = { ...DEFAULT_WEBHOOK_OPTIONS, ...options };
+  const log = logger.child({ component: "webhooks" });
+
+  /** The in-flight sweep, so concurrent callers share one */
+  let sweep: Promise<WebhookSweepResult> | null = null;
+  /** Set when deliveries were enqueued during a sweep — run one more batch */
+  let sweepAgain = false;
+
+  async function enqueue(input: WebhookEventInput): Promise<string[]> {
+    const hooks = await sql`
+      SELECT id, event_types FROM webhooks
+      WHERE workspace_id IS NULL OR workspace_id = ${input.workspaceId}
+    `;
+    const matching = hooks.filter((h: any) => webhookEventMatches(h.event_types ?? [], input.eventType));
+    if (matching.length === 0) return [];
+
+    const data = typeof input.data === "function"
+      ? await (input.data as () => Promise<unknown>)()
+      : input.data;
+
+    const ids: string[] = [];
+    for (const hook of matching) {
+      const id = generateId();
+      const payload: WebhookPayload = {
+        id,
+        type: input.eventType,
+        workspace_id: input.workspaceId,
+        session_id: input.sessionId,
+        timestamp: input.timestamp,
+        data,
+      };
+      const inserted = await sql`
+        INSERT INTO webhook_deliveries (id, webhook_id, event_type, event_id, payload, next_attempt_at)
+        VALUES (${id}, ${hook.id}, ${input.eventType}, ${input.eventId}, ${JSON.stringify(payload)}, now())
+        ON CONFLICT DO NOTHING
+        RETURNING id
+      `;
+      if (inserted.length > 0) ids.push(id);
+    }
+    return ids;
+  }
+
+  /** POST one claimed delivery and record the outcome */
+  async function attempt(delivery: ClaimedDelivery): Promise<"succeeded" | "retrying" | "failed"> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempts = delivery.attempts + 1;
+
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    try {
+      const res = await fetchFn(delivery.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "fuel-code-webhooks",
+          [WEBHOOK_HEADERS.event]: delivery.event_type,
+          [WEBHOOK_HEADERS.delivery]: delivery.id,
+          [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+          [WEBHOOK_HEADERS.signature]: signWebhookPayload(delivery.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(opts.timeoutMs),
+      });
+      statusCode = res.status;
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        error = `HTTP ${res.status}${text ? `: ${text.slice(0, MAX_ERROR_LENGTH)}` : ""}`;
+      }
+    } catch (err) {
+      error = (err instanceof Error ? err.message : String(err)).slice(0, MAX_ERROR_LENGTH);
+    }
+
+    if (error === null) {
+      await sql`
+        UPDATE webhook_deliveries
+        SET status = 'succeeded', attempts = ${attempts}, next_attempt_at = NULL,
+            last_status_code = ${statusCode}, last_error = NULL, delivered_at = now()
+        WHERE id = ${delivery.id}
+      `;
+      return "succeeded";
+    }
+
+    const exhausted = attempts >= opts.maxAttempts;
+    const nextAttemptAt = exhausted
+      ? null
+      : new Date(Date.now() + webhookBackoffMs(attempts, opts)).toISOString();
+    await sql`
+      UPDATE webhook_deliveries
+      SET status = ${exhausted ? "failed" : "pending"}, attempts = ${attempts},
+          next_attempt_at = ${nextAttemptAt}, last_status_code = ${statusCode},
+          last_error = ${error}
+      WHERE id = ${delivery.id}
+    `;
+    log.warn(
+      { deliveryId: delivery.id, webhookId: delivery.webhook_id, attempts, statusCode, error },
+      exhausted ? "Webhook delivery failed permanently" : "Webhook delivery failed — will retry",
+    );
+    return exhausted ? "failed" : "retrying";
+  }
+
+  /**
+   * Claim a batch of due deliveries. The lease pushes next_attempt_at past
+   * the request timeout so no other sweep picks them up mid-attempt; the
+   * batch is sent concurrently, so one lease covers all of it.
+   */
+  async function claimBatch(): Promise<ClaimedDelivery[]> {
+    const leaseUntil = new Date(Date.now() + opts.timeoutMs * 2).toISOString();
+    const rows = await sql`
+      UPDATE webhook_deliveries d
+      SET next_attempt_at = ${leaseUntil}
+      FROM webhooks w
+      WHERE w.id = d.webhook_id
+        AND d.id IN (
+          SELECT id FROM webhook_deliveries
+          WHERE status = 'pending' AND next_attempt_at <= now()
+          ORDER BY next_attempt_at
+          LIMIT ${opts.batchSize}
+          FOR UPDATE SKIP LOCKED
+        )
+      RETURNING d.id, d.webhook_id, d.event_type, d.payload, d.attempts, w.url, w.secret
+    `;
+    return rows as unknown as ClaimedDelivery[];
+  }
+
+  async function runSweep(): Promise<WebhookSweepResult> {
+    const result: WebhookSweepResult = { attempted: 0, succeeded: 0, retrying: 0, failed: 0 };
+    do {
+      sweepAgain = false;
+      let batch = await claimBatch();
+      while (batch.length > 0) {
+        // Concurrently: sent one by one, a slow receiver could outlast the
+        // lease on the rows still waiting and another instance would resend them
+        const outcomes = await Promise.all(batch.map(attempt));
+        for (const outcome of outcomes) {
+          result.attempted++;
+          result[outcome]++;
+        }
+        batch = batch.length < opts.batchSize ? [] : await claimBatch();
+      }
+    } while (sweepAgain);
+    return result;
+  }
+
+  function deliverDue(): Promise<WebhookSweepResult> {
+    if (sweep) {
+      sweepAgain = true;
+      return sweep;
+    }
+    sweep = runSweep().finally(() => {
+      sweep = null;
+    });
+    return sweep;
+  }
+
+  /** Enqueue and kick a sweep in the background, logging instead of throwing */
+  function fireAndForget(input: WebhookEventInput): void {
+    enqueue(input)
+      .then((ids) => (ids.length > 0 ? deliverDue() : undefined))
+      .catch((err) => {
+        log.error(
+          { eventType: input.eventType, eventId: input.eventId, error: err instanceof Error ? err.message : String(err) },
+          "Webhook enqueue/delivery failed",
+        );
+      });
+  }
+
+  return {
+    enqueue,
+    deliverDue,
+
+    eventProcessed(event: Event, workspaceId: string): void {
+      fireAndForget({
+        eventType: event.type,
+        eventId: event.id,
+        workspaceId,
+        sessionId: event.session_id ?? null,
+        timestamp: event.timestamp,
+        // As stored (and returned by the API): keyed by the workspace ULID
+        data: { ...event, workspace_id: workspaceId },
+      });
+    },
+
+    sessionUpdated(update: SessionUpdateNotification): void {
+      if (!MILESTONE_LIFECYCLES.has(update.lifecycle)) return;
+      fireAndForget({
+        eventType: `session.${update.lifecycle}`,
+        eventId: null,
+        workspaceId: update.workspaceId,
+        sessionId: update.sessionId,
+        timestamp: new Date().toISOString(),
+        data: () => sessionMilestoneData(sql, update),
+      });
+    },
+
+    async sendTest(webhookId: string): Promise<WebhookDelivery | null> {
+      const [hook] = await sql`SELECT id, url, secret FROM webhooks WHERE id = ${webhookId}`;
+      if (!hook) return null;
+
+      const id = generateId();
+      const payload: WebhookPayload = {
+        id,
+        type: WEBHOOK_TEST_EVENT_TYPE,
+        workspace_id: null,
+        session_id: null,
+        timestamp: new Date().toISOString(),
+        data: { message: "Test delivery from fuel-code" },
+      };
+      // Not due until attempted here, so a sweep can't race this first attempt;
+      // if it fails it is retried like any other delivery
+      await sql`
+        INSERT INTO webhook_deliveries (id, webhook_id, event_type, payload, next_attempt_at)
+        VALUES (${id}, ${webhookId}, ${WEBHOOK_TEST_EVENT_TYPE}, ${JSON.stringify(payload)}, NULL)
+      `;
+      await attempt({ id, webhook_id: webhookId, event_type: WEBHOOK_TEST_EVENT_TYPE, payload, attempts: 0, url: hook.url, secret: hook.secret });
+
+      const [delivery] = await sql`SELECT * FROM webhook_deliveries WHERE id = ${id}`;
+      return delivery as unknown as WebhookDelivery;
+    },
+  };
+}
+
+/** Payload data for a session milestone: the update plus the session's commits */
+async function sessionMilestoneData(
+  sql: Sql,
+  update: SessionUpdateNotification,
+): Promise<WebhookSessionData> {
+  const commits = await sql`
+    SELECT commit_sha, message, branch FROM git_activity
+    WHERE session_id = ${update.sessionId} AND type = 'commit' AND superseded_by IS NULL
+    ORDER BY timestamp ASC
+  `;
+  return {
+    session_id: update.sessionId,
+    workspace_id: update.workspaceId,
+    lifecycle: update.lifecycle,
+    summary: update.summary ?? null,
+    stats: update.stats ?? null,
+    commits: commits.map((c: any) => ({ sha: c.commit_sha, message: c.message ?? null, branch: c.branch ?? null })),
+  };
+}
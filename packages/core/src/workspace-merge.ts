@@ -0,0 +1,404 @@
+/**
+ * Workspace merges: fold one workspace into another, and undo it.
+ *
+ * A repo without a remote is tracked as "local:<sha256 of first commit>".
+ * Once a remote is added its events arrive under the remote's canonical ID,
+ * which would otherwise start a second workspace and split the history.
+ * The CLI sends the repo's local ID with session.start
+ * (data.local_workspace_id); mergeLocalWorkspace() uses it to fold the local
+ * workspace into the remote one. Operators can also merge any two workspaces
+ * by hand.
+ *
+ * A merge re-points sessions, events, git_activity, workspace_devices and
+ * workspace-scoped webhooks from the source to the target, deletes the
+ * source workspace, and records:
+ *   - a workspace_merges row with the moved row IDs and snapshots of the
+ *     source workspace and its device links (so it can be undone)
+ *   - a workspace_aliases row so the source's canonical ID resolves to the
+ *     target from now on (see workspace-resolver.ts)
+ *
+ * unmergeWorkspace() restores the source and moves back exactly the rows
+ * the merge moved; anything recorded after the merge stays with the target.
+ * A local workspace that was unmerged is never auto-merged again.
+ *
+ * Everything runs in one transaction per merge/unmerge. The daily_usage
+ * rollup of both workspaces is rebuilt in the same transaction.
+ *
+ * This module is pure domain logic with injected database dependency.
+ * No HTTP, no CLI, no UI knowledge.
+ */
+
+import type { Sql } from "postgres";
+import type { Logger } from "pino";
+import { generateId } from "@fuel-code/shared";
+import { rebuildWorkspaceUsage } from "./usage-rollup.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Why a merge happened */
+export type WorkspaceMergeReason = "auto" | "manual";
+
+/** Outcome of mergeWorkspaces() */
+export interface WorkspaceMergeResult {
+  /** True if the source was folded into the target */
+  merged: boolean;
+  /** Why nothing was merged (only set when merged is false) */
+  reason?: "not_found" | "same_workspace" | "unassociated";
+  mergeId: string | null;
+  sourceWorkspaceId: string;
+  sourceCanonicalId: string | null;
+  targetWorkspaceId: string;
+  /** Rows re-pointed at the target */
+  sessions: number;
+  events: number;
+  gitActivity: number;
+  /** Devices newly linked to the target */
+  devices: number;
+}
+
+/** Outcome of unmergeWorkspace() */
+export interface WorkspaceUnmergeResult {
+  /** True if the source workspace was restored */
+  unmerged: boolean;
+  /**
+   * Why nothing changed (only set when unmerged is false):
+   *   not_found      — no active merge for that merge ID / canonical ID
+   *   target_missing — the target was itself merged away; unmerge that first
+   */
+  reason?: "not_found" | "target_missing";
+  mergeId: string | null;
+  sourceWorkspaceId: string | null;
+  sourceCanonicalId: string | null;
+  targetWorkspaceId: string | null;
+  /** Rows moved back to the restored source */
+  sessions: number;
+  events: number;
+  gitActivity: number;
+}
+
+/** A recorded merge, as listed by listWorkspaceMerges() */
+export interface WorkspaceMergeRecord {
+  id: string;
+  sourceWorkspaceId: string;
+  sourceCanonicalId: string;
+  targetWorkspaceId: string;
+  /** Target's current canonical ID (null if the target no longer exists) */
+  targetCanonicalId: string | null;
+  reason: WorkspaceMergeReason;
+  sessions: number;
+  mergedAt: string;
+  unmergedAt: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Merge
+// ---------------------------------------------------------------------------
+
+/**
+ * Fold the source workspace into the target.
+ *
+ * @param sql      - postgres.js tagged template client
+ * @param sourceId - Workspace ULID to merge away
+ * @param targetId - Workspace ULID that absorbs the source
+ * @param reason   - 'auto' (first-commit detection) or 'manual' (default)
+ * @returns WorkspaceMergeResult (never throws for skips)
+ */
+export async function mergeWorkspaces(
+  sql: Sql,
+  sourceId: string,
+  targetId: string,
+  reason: WorkspaceMergeReason = "manual",
+): Promise<WorkspaceMergeResult> {
+  const result: WorkspaceMergeResult = {
+    merged: false,
+    mergeId: null,
+    sourceWorkspaceId: sourceId,
+    sourceCanonicalId: null,
+    targetWorkspaceId: targetId,
+    sessions: 0,
+    events: 0,
+    gitActivity: 0,
+    devices: 0,
+  };
+
+  if (sourceId === targetId) {
+    result.reason = "same_workspace";
+    return result;
+  }
+
+  await sql.begin(async (tx: any) => {
+    // Lock both rows so concurrent merges of either workspace serialize
+    const rows = await tx`
+      SELECT id, canonical_id, to_jsonb(workspaces) AS snapshot
+      FROM workspaces
+      WHERE id IN (${sourceId}, ${targetId})
+      FOR UPDATE
+    `;
+    const source = rows.find((r: any) => r.id === sourceId);
+    const target = rows.find((r: any) => r.id === targetId);
+    if (!source || !target) {
+      result.reason = "not_found";
+      return;
+    }
+    result.sourceCanonicalId = source.canonical_id;
+    if (source.canonical_id === "_unassociated" || target.canonical_id === "_unassociated") {
+      result.reason = "unassociated";
+      return;
+    }
+
+    // Snapshot the device links before moving them
+    const sourceDevices = await tx`
+      SELECT to_jsonb(wd) AS link FROM workspace_devices wd WHERE wd.workspace_id = ${sourceId}
+    `;
+
+    const sessions = await tx`
+      UPDATE sessions SET workspace_id = ${targetId} WHERE workspace_id = ${sourceId} RETURNING id
+    `;
+    const events = await tx`
+      UPDATE events SET workspace_id = ${targetId} WHERE workspace_id = ${sourceId} RETURNING id
+    `;
+    const gitActivity = await tx`
+      UPDATE git_activity SET workspace_id = ${targetId} WHERE workspace_id = ${sourceId} RETURNING id
+    `;
+
+    // Move links for devices the target doesn't know yet; drop the rest
+    const movedDevices = await tx`
+      UPDATE workspace_devices SET workspace_id = ${targetId}
+      WHERE workspace_id = ${sourceId}
+        AND device_id NOT IN (SELECT device_id FROM workspace_devices WHERE workspace_id = ${targetId})
+      RETURNING device_id
+    `;
+    await tx`DELETE FROM workspace_devices WHERE workspace_id = ${sourceId}`;
+
+    // Earlier merges into the source now belong to the target
+    const repointed = await tx`
+      UPDATE workspace_aliases SET workspace_id = ${targetId} WHERE workspace_id = ${sourceId}
+      RETURNING canonical_id
+    `;
+
+    // Webhooks watching the source now watch the target (unmerge leaves them there)
+    await tx`UPDATE webhooks SET workspace_id = ${targetId} WHERE workspace_id = ${sourceId}`;
+
+    const mergeId = generateId();
+    await tx`
+      INSERT INTO workspace_merges (
+        id, source_workspace_id, source_canonical_id, target_workspace_id, reason,
+        session_ids, event_ids, git_activity_ids, moved_device_ids, repointed_aliases,
+        source_workspace, source_devices
+      ) VALUES (
+        ${mergeId}, ${sourceId}, ${source.canonical_id}, ${targetId}, ${reason},
+        ${sessions.map((r: any) => r.id)},
+        ${events.map((r: any) => r.id)},
+        ${gitActivity.map((r: any) => r.id)},
+        ${movedDevices.map((r: any) => r.device_id)},
+        ${repointed.map((r: any) => r.canonical_id)},
+        ${JSON.stringify(source.snapshot)},
+        ${JSON.stringify(sourceDevices.map((r: any) => r.link))}
+      )
+    `;
+    await tx`
+      INSERT INTO workspace_aliases (canonical_id, workspace_id, merge_id)
+      VALUES (${source.canonical_id}, ${targetId}, ${mergeId})
+    `;
+    await tx`DELETE FROM workspaces WHERE id = ${sourceId}`;
+
+    await rebuildWorkspaceUsage(tx, [sourceId, targetId]);
+
+    result.merged = true;
+    result.mergeId = mergeId;
+    result.sessions = sessions.length;
+    result.events = events.length;
+    result.gitActivity = gitActivity.length;
+    result.devices = movedDevices.length;
+  });
+
+  return result;
+}
+
+/**
+ * Fold a repo's local-only workspace into the workspace it now resolves to
+ * after gaining a remote. Called by the session.start handler with the
+ * "local:<sha256>" ID the CLI derived from the repo's first commit.
+ *
+ * Skips silently when the local ID is not a local workspace, no such
+ * workspace exists (never seen, or already merged), it is the target, or the
+ * user undid an earlier merge of it.
+ *
+ * @returns The merge result, or null if nothing was merged
+ */
+export async function mergeLocalWorkspace(
+  sql: Sql,
+  localCanonicalId: string,
+  targetWorkspaceId: string,
+  logger?: Logger,
+): Promise<WorkspaceMergeResult | null> {
+  if (!localCanonicalId.startsWith("local:")) return null;
+
+  const [local] = await sql`
+    SELECT w.id,
+      EXISTS (
+        SELECT 1 FROM workspace_merges m
+        WHERE m.source_canonical_id = w.canonical_id AND m.unmerged_at IS NOT NULL
+      ) AS unmerged
+    FROM workspaces w
+    WHERE w.canonical_id = ${localCanonicalId}
+  `;
+  if (!local || local.id === targetWorkspaceId || local.unmerged) return null;
+
+  const result = await mergeWorkspaces(sql, local.id, targetWorkspaceId, "auto");
+  if (result.merged) {
+    logger?.info(
+      {
+        sourceWorkspaceId: result.sourceWorkspaceId,
+        targetWorkspaceId,
+        sessions: result.sessions,
+        events: result.events,
+      },
+      "Merged local workspace into its remote workspace",
+    );
+  }
+  return result.merged ? result : null;
+}
+
+// ---------------------------------------------------------------------------
+// Unmerge
+// ---------------------------------------------------------------------------
+
+/**
+ * Undo a merge: restore the source workspace and move back the rows the
+ * merge moved.
+ *
+ * @param sql - postgres.js tagged template client
+ * @param ref - Merge ID, or the merged-away workspace's canonical ID (its
+ *              most recent active merge is undone)
+ * @returns WorkspaceUnmergeResult (never throws for skips)
+ */
+export async function unmergeWorkspace(sql: Sql, ref: string): Promise<WorkspaceUnmergeResult> {
+  const result: WorkspaceUnmergeResult = {
+    unmerged: false,
+    mergeId: null,
+    sourceWorkspaceId: null,
+    sourceCanonicalId: null,
+    targetWorkspaceId: null,
+    sessions: 0,
+    events: 0,
+    gitActivity: 0,
+  };
+
+  await sql.begin(async (tx: any) => {
+    const [merge] = await tx`
+      SELECT * FROM workspace_merges
+      WHERE (id = ${ref} OR source_canonical_id = ${ref}) AND unmerged_at IS NULL
+      ORDER BY merged_at DESC
+      LIMIT 1
+      FOR UPDATE
+    `;
+    if (!merge) {
+      result.reason = "not_found";
+      return;
+    }
+    result.mergeId = merge.id;
+    result.sourceWorkspaceId = merge.source_workspace_id;
+    result.sourceCanonicalId = merge.source_canonical_id;
+    result.targetWorkspaceId = merge.target_workspace_id;
+
+    const [target] = await tx`
+      SELECT id FROM workspaces WHERE id = ${merge.target_workspace_id} FOR UPDATE
+    `;
+    if (!target) {
+      result.reason = "target_missing";
+      return;
+    }
+
+    const sourceId = merge.source_workspace_id;
+    const targetId = merge.target_workspace_id;
+
+    await tx`
+      INSERT INTO workspaces
+      SELECT * FROM jsonb_populate_record(NULL::workspaces, ${JSON.stringify(merge.source_workspace)}::jsonb)
+    `;
+    await tx`DELETE FROM workspace_aliases WHERE canonical_id = ${merge.source_canonical_id}`;
+    await tx`
+      UPDATE workspace_aliases SET workspace_id = ${sourceId}
+      WHERE canonical_id = ANY(${merge.repointed_aliases}) AND workspace_id = ${targetId}
+    `;
+
+    const sessions = await tx`
+      UPDATE sessions SET workspace_id = ${sourceId}
+      WHERE id = ANY(${merge.session_ids}) AND workspace_id = ${targetId}
+      RETURNING id
+    `;
+    const events = await tx`
+      UPDATE events SET workspace_id = ${sourceId}
+      WHERE id = ANY(${merge.event_ids}) AND workspace_id = ${targetId}
+      RETURNING id
+    `;
+    const gitActivity = await tx`
+      UPDATE git_activity SET workspace_id = ${sourceId}
+      WHERE id = ANY(${merge.git_activity_ids}) AND workspace_id = ${targetId}
+      RETURNING id
+    `;
+
+    await tx`
+      DELETE FROM workspace_devices
+      WHERE workspace_id = ${targetId} AND device_id = ANY(${merge.moved_device_ids})
+    `;
+    await tx`
+      INSERT INTO workspace_devices
+      SELECT * FROM jsonb_populate_recordset(NULL::workspace_devices, ${JSON.stringify(merge.source_devices)}::jsonb)
+      ON CONFLICT DO NOTHING
+    `;
+
+    await rebuildWorkspaceUsage(tx, [sourceId, targetId]);
+    await tx`UPDATE workspace_merges SET unmerged_at = now() WHERE id = ${merge.id}`;
+
+    result.unmerged = true;
+    result.sessions = sessions.length;
+    result.events = events.length;
+    result.gitActivity = gitActivity.length;
+  });
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Listing
+// ---------------------------------------------------------------------------
+
+/**
+ * List recorded merges, newest first.
+ *
+ * @param includeUnmerged - Also list merges that were undone (default false)
+ */
+export async function listWorkspaceMerges(
+  sql: Sql,
+  includeUnmerged = false,
+): Promise<WorkspaceMergeRecord[]> {
+  const rows = await sql`
+    SELECT m.id, m.source_workspace_id, m.source_canonical_id, m.target_workspace_id,
+      w.canonical_id AS target_canonical_id, m.reason,
+      cardinality(m.session_ids) AS session_count, m.merged_at, m.unmerged_at
+    FROM workspace_merges m
+    LEFT JOIN workspaces w ON w.id = m.target_workspace_id
+    WHERE ${includeUnmerged} OR m.unmerged_at IS NULL
+    ORDER BY m.merged_at DESC
+  `;
+
+  return rows.map((r) => ({
+    id: r.id,
+    sourceWorkspaceId: r.source_workspace_id,
+    sourceCanonicalId: r.source_canonical_id,
+    targetWorkspaceId: r.target_workspace_id,
+    targetCanonicalId: r.target_canonical_id ?? null,
+    reason: r.reason,
+    sessions: Number(r.session_count),
+    mergedAt: toIso(r.merged_at),
+    unmergedAt: r.unmerged_at ? toIso(r.unmerged_at) : null,
+  }));
+}
+
+function toIso(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
@@ -6,6 +6,10 @@
  * (e.g., "github.com/user/repo"). The resolver translates this to
  * a Postgres ULID. All downstream references use the ULID.
  *
+ * Canonical IDs of workspaces that were merged into another one (see
+ * workspace-merge.ts) live on in workspace_aliases and resolve to the
+ * workspace that absorbed them.
+ *
  * This module is pure domain logic with injected database dependency.
  * No HTTP, no CLI, no UI knowledge.
  */
@@ -19,7 +23,8 @@ import { deriveDisplayName, generateId } from "@fuel-code/shared";
  *
  * Uses an INSERT ... ON CONFLICT upsert so concurrent calls for the same
  * canonical ID are safe — only one row is ever created, and the existing
- * ULID is returned via RETURNING.
+ * ULID is returned via RETURNING. An aliased canonical ID skips the insert
+ * and returns the alias target instead, in the same round trip.
  *
  * @param sql - postgres.js tagged template client
  * @param canonicalId - Normalized workspace identifier (e.g., "github.com/user/repo")
@@ -48,12 +53,18 @@ export async function resolveOrCreateWorkspace(
 
   // Upsert: insert new workspace or touch updated_at on existing one.
   // On conflict, we do NOT overwrite default_branch or metadata —
-  // the first-seen values are preserved.
+  // the first-seen values are preserved. Aliased IDs never insert.
   const [row] = await sql`
-    INSERT INTO workspaces (id, canonical_id, display_name, default_branch, metadata)
-    VALUES (${id}, ${effectiveId}, ${displayName}, ${hints?.default_branch ?? null}, ${JSON.stringify(metadata)})
-    ON CONFLICT (canonical_id) DO UPDATE SET updated_at = now()
-    RETURNING id
+    WITH upserted AS (
+      INSERT INTO workspaces (id, canonical_id, display_name, default_branch, metadata)
+      SELECT ${id}, ${effectiveId}, ${displayName}, ${hints?.default_branch ?? null}, ${JSON.stringify(metadata)}::jsonb
+      WHERE NOT EXISTS (SELECT 1 FROM workspace_aliases WHERE canonical_id = ${effectiveId})
+      ON CONFLICT (canonical_id) DO UPDATE SET updated_at = now()
+      RETURNING id
+    )
+    SELECT id FROM upserted
+    UNION ALL
+    SELECT workspace_id AS id FROM workspace_aliases WHERE canonical_id = ${effectiveId}
   `;
 
   return row.id;
@@ -152,4 +152,32 @@ describe("resolveWorkspace", () => {
     // Should use "beta" (first alphabetically)
     expect(result.workspaceId).toContain("beta-repo");
   });
+
+  it("keeps the local:<hash> ID after a remote is added", async () => {
+    const tmpDir = makeTempDir("fuel-code-remote-added-");
+
+    execSync("git init", { cwd: tmpDir, stdio: "pipe" });
+    execSync("git config user.email 'test@test.com'", {
+      cwd: tmpDir,
+      stdio: "pipe",
+    });
+    execSync("git config user.name 'Test'", { cwd: tmpDir, stdio: "pipe" });
+    fs.writeFileSync(path.join(tmpDir, "file.txt"), "hello");
+    execSync("git add .", { cwd: tmpDir, stdio: "pipe" });
+    execSync("git commit -m 'initial'", { cwd: tmpDir, stdio: "pipe" });
+
+    const before = await resolveWorkspace(tmpDir);
+    expect(before.localWorkspaceId).toBe(before.workspaceId);
+
+    execSync(
+      "git remote add origin https://github.com/test/later-repo.git",
+      { cwd: tmpDir, stdio: "pipe" },
+    );
+
+    const after = await resolveWorkspace(tmpDir);
+
+    // The workspace ID moves to the remote; the local ID stays the same
+    expect(after.workspaceId).toContain("later-repo");
+    expect(after.localWorkspaceId).toBe(before.workspaceId);
+  });
 });
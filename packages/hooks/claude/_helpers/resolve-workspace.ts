@@ -25,6 +25,12 @@ export interface WorkspaceInfo {
   gitBranch: string | null;
   /** Raw git remote URL (null if no remote) */
   gitRemote: string | null;
+  /**
+   * "local:<sha256>" derived from the first commit, even when a remote exists
+   * (null if not a git repo or no commits). Lets the server merge the
+   * workspace a repo had before its remote was added.
+   */
+  localWorkspaceId: string | null;
 }
 
 /**
@@ -41,7 +47,7 @@ export async function resolveWorkspace(cwd: string): Promise<WorkspaceInfo> {
   // Step 1: Check if CWD is inside a git repository
   const isGitRepo = execSilent("git rev-parse --is-inside-work-tree", cwd);
   if (isGitRepo !== "true") {
-    return { workspaceId: "_unassociated", gitBranch: null, gitRemote: null };
+    return { workspaceId: "_unassociated", gitBranch: null, gitRemote: null, localWorkspaceId: null };
   }
 
   // Step 2: Try to get the current branch
@@ -68,23 +74,24 @@ export async function resolveWorkspace(cwd: string): Promise<WorkspaceInfo> {
     }
   }
 
-  // Step 4: Derive workspace ID
-  let firstCommitHash: string | null = null;
-  if (!gitRemote) {
-    // No remote — try to get the first commit hash for local repo identification
-    firstCommitHash = execSilent(
-      "git rev-list --max-parents=0 HEAD",
-      cwd,
-    );
-    // If multiple root commits, take the first one
-    if (firstCommitHash) {
-      firstCommitHash = firstCommitHash.split("\n")[0].trim();
-    }
+  // Step 4: Get the first commit hash — identifies local-only repos, and links
+  // a repo's local workspace to its remote one once a remote is added
+  let firstCommitHash = execSilent(
+    "git rev-list --max-parents=0 HEAD",
+    cwd,
+  );
+  // If multiple root commits, take the first one
+  if (firstCommitHash) {
+    firstCommitHash = firstCommitHash.split("\n")[0].trim();
   }
 
+  // Step 5: Derive workspace ID
   const workspaceId = deriveWorkspaceCanonicalId(gitRemote, firstCommitHash);
+  const localWorkspaceId = firstCommitHash
+    ? deriveWorkspaceCanonicalId(null, firstCommitHash)
+    : null;
 
-  return { workspaceId, gitBranch, gitRemote };
+  return { workspaceId, gitBranch, gitRemote, localWorkspaceId };
 }
 
 /**
@@ -71,6 +71,9 @@ import { resolveWorkspace } from "./resolve-workspace.js";
       model,
       source,
       transcript_path: transcriptPath,
+      ...(workspace.localWorkspaceId && workspace.localWorkspaceId !== workspace.workspaceId
+        ? { local_workspace_id: workspace.localWorkspaceId }
+        : {}),
     };
 
     // 8. Call `fuel-code emit session.start`
@@ -1,6 +1,6 @@
 /**
  * Integration tests for git hook scripts (post-commit, post-checkout,
- * post-merge, pre-push).
+ * post-merge, post-rewrite, pre-push, and the optional prepare-commit-msg).
  *
  * Strategy:
  *   1. Create a temp git repo for each test
@@ -64,7 +64,7 @@ function makeTempDir(prefix: string): string {
  *   - captureFile: path to the file where mock fuel-code writes captured data
  *   - mockBinDir: path to the directory containing the mock fuel-code binary
  */
-function setupTestRepo(prefix: string): {
+function setupTestRepo(prefix: string, opts?: { activeSession?: string }): {
   repoDir: string;
   captureFile: string;
   mockBinDir: string;
@@ -86,9 +86,14 @@ function setupTestRepo(prefix: string): {
   // Create mock fuel-code binary that captures args and stdin.
   // Always read stdin since hooks pipe data via heredoc to --data-stdin.
   // The script checks if --data-stdin is in args to decide whether to read.
+  // With opts.activeSession, `fuel-code active-session` prints that ID
+  // (as the prepare-commit-msg hook expects) instead of being captured.
+  const activeSessionStub = opts?.activeSession
+    ? `if [ "$1" = "active-session" ]; then echo "${opts.activeSession}"; exit 0; fi\n`
+    : "";
   const mockScript = `#!/usr/bin/env bash
 # Mock fuel-code: writes args and stdin to capture file
-STDIN_DATA=""
+${activeSessionStub}STDIN_DATA=""
 for arg in "$@"; do
   if [ "$arg" = "--data-stdin" ]; then
     STDIN_DATA=$(cat)
@@ -112,7 +117,7 @@ echo "---" >> "${captureFile}"
   fs.chmodSync(path.join(gitHooksDir, "resolve-workspace.sh"), 0o755);
 
   // Copy hook scripts
-  for (const hook of ["post-commit", "post-checkout", "post-merge", "pre-push"]) {
+  for (const hook of ["post-commit", "post-checkout", "post-merge", "post-rewrite", "pre-push"]) {
     fs.copyFileSync(
       path.join(HOOKS_DIR, hook),
       path.join(gitHooksDir, hook),
@@ -120,6 +125,15 @@ echo "---" >> "${captureFile}"
     fs.chmodSync(path.join(gitHooksDir, hook), 0o755);
   }
 
+  // The trailer hook is optional — only installed when a session is stubbed
+  if (opts?.activeSession) {
+    fs.copyFileSync(
+      path.join(HOOKS_DIR, "prepare-commit-msg"),
+      path.join(gitHooksDir, "prepare-commit-msg"),
+    );
+    fs.chmodSync(path.join(gitHooksDir, "prepare-commit-msg"), 0o755);
+  }
+
   // Add a remote so resolve-workspace.sh works
   execSync("git remote add origin https://github.com/test/hook-test-repo.git", {
     cwd: repoDir,
@@ -307,6 +321,59 @@ line three'`);
   });
 });
 
+// ---------------------------------------------------------------------------
+// Tests: prepare-commit-msg (Fuel-Session trailer)
+// ---------------------------------------------------------------------------
+
+describe("prepare-commit-msg hook", () => {
+  it("adds a Fuel-Session trailer that post-commit forwards", async () => {
+    const { repoDir, captureFile, mockBinDir } = setupTestRepo("hook-pcm-", {
+      activeSession: "sess-trailer-123",
+    });
+
+    fs.writeFileSync(path.join(repoDir, "file.txt"), "hello");
+    gitExec(repoDir, mockBinDir, "git add file.txt");
+    gitExec(repoDir, mockBinDir, 'git commit -m "with trailer"');
+
+    const message = gitExec(repoDir, mockBinDir, "git log -1 --pretty=%B");
+    expect(message).toContain("with trailer");
+    expect(message).toContain("Fuel-Session: sess-trailer-123");
+
+    const entries = parseCaptured(await waitForCapture(captureFile));
+    const commitEntry = entries.find((e) => e.args.includes("git.commit"));
+    expect(commitEntry).toBeDefined();
+    expect(JSON.parse(commitEntry!.stdin).session_trailer).toBe("sess-trailer-123");
+  });
+
+  it("replaces the trailer on amend instead of adding a second one", async () => {
+    const { repoDir, mockBinDir } = setupTestRepo("hook-pcm-amend-", {
+      activeSession: "sess-new",
+    });
+
+    fs.writeFileSync(path.join(repoDir, "file.txt"), "hello");
+    gitExec(repoDir, mockBinDir, "git add file.txt");
+    gitExec(repoDir, mockBinDir, 'git commit -m "first" -m "Fuel-Session: sess-old"');
+    gitExec(repoDir, mockBinDir, "git commit --amend --no-edit");
+
+    const message = gitExec(repoDir, mockBinDir, "git log -1 --pretty=%B");
+    expect(message).toContain("Fuel-Session: sess-new");
+    expect(message).not.toContain("sess-old");
+  });
+
+  it("leaves editor-composed messages alone", async () => {
+    const { repoDir, mockBinDir } = setupTestRepo("hook-pcm-editor-", {
+      activeSession: "sess-trailer-123",
+    });
+
+    fs.writeFileSync(path.join(repoDir, "file.txt"), "hello");
+    gitExec(repoDir, mockBinDir, "git add file.txt");
+    // An editor that exits without writing: git must still abort on the empty message
+    gitExec(repoDir, mockBinDir, "GIT_EDITOR=true git commit", { expectNonZero: true });
+
+    expect(gitExec(repoDir, mockBinDir, "git rev-list --all --count").trim()).toBe("0");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Tests: post-checkout
 // ---------------------------------------------------------------------------
@@ -457,6 +524,106 @@ describe("post-merge hook", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Tests: post-rewrite
+// ---------------------------------------------------------------------------
+
+describe("post-rewrite hook", () => {
+  /** Wait until the mock fuel-code has captured a git.rewrite emit */
+  async function waitForRewrite(captureFile: string): Promise<{ args: string; stdin: string }> {
+    const start = Date.now();
+    while (Date.now() - start < 3000) {
+      const entry = parseCaptured(await waitForCapture(captureFile)).find((e) =>
+        e.args.includes("git.rewrite"),
+      );
+      if (entry) return entry;
+      await Bun.sleep(50);
+    }
+    throw new Error("git.rewrite was not emitted");
+  }
+
+  it("emits git.rewrite with the old -> new SHA on amend", async () => {
+    const { repoDir, captureFile, mockBinDir } = setupTestRepo("hook-rw-amend-");
+
+    fs.writeFileSync(path.join(repoDir, "file.txt"), "content");
+    gitExec(repoDir, mockBinDir, "git add file.txt");
+    gitExec(repoDir, mockBinDir, 'git commit -m "original"');
+    const oldSha = gitExec(repoDir, mockBinDir, "git rev-parse HEAD").trim();
+
+    gitExec(repoDir, mockBinDir, 'git commit --amend -m "amended"');
+    const newSha = gitExec(repoDir, mockBinDir, "git rev-parse HEAD").trim();
+
+    const entry = await waitForRewrite(captureFile);
+    expect(entry.args).toContain("--workspace-id");
+    expect(entry.args).toContain("--data-stdin");
+
+    const payload = JSON.parse(entry.stdin);
+    expect(payload.kind).toBe("amend");
+    expect(payload.mappings).toEqual([{ old_sha: oldSha, new_sha: newSha }]);
+  });
+
+  it("maps every replayed commit on rebase", async () => {
+    const { repoDir, captureFile, mockBinDir } = setupTestRepo("hook-rw-rebase-");
+
+    fs.writeFileSync(path.join(repoDir, "base.txt"), "base");
+    gitExec(repoDir, mockBinDir, "git add base.txt");
+    gitExec(repoDir, mockBinDir, 'git commit -m "base"');
+    const mainBranch = gitExec(repoDir, mockBinDir, "git rev-parse --abbrev-ref HEAD").trim();
+
+    gitExec(repoDir, mockBinDir, "git checkout -b feature");
+    for (const name of ["one", "two"]) {
+      fs.writeFileSync(path.join(repoDir, `${name}.txt`), name);
+      gitExec(repoDir, mockBinDir, `git add ${name}.txt`);
+      gitExec(repoDir, mockBinDir, `git commit -m "${name}"`);
+    }
+    const oldShas = gitExec(repoDir, mockBinDir, `git rev-list --reverse ${mainBranch}..feature`)
+      .trim()
+      .split("\n");
+
+    gitExec(repoDir, mockBinDir, `git checkout ${mainBranch}`);
+    fs.writeFileSync(path.join(repoDir, "main.txt"), "main");
+    gitExec(repoDir, mockBinDir, "git add main.txt");
+    gitExec(repoDir, mockBinDir, 'git commit -m "main moves on"');
+    gitExec(repoDir, mockBinDir, "git checkout feature");
+
+    if (fs.existsSync(captureFile)) fs.unlinkSync(captureFile);
+    gitExec(repoDir, mockBinDir, `git rebase ${mainBranch}`);
+    const newShas = gitExec(repoDir, mockBinDir, `git rev-list --reverse ${mainBranch}..feature`)
+      .trim()
+      .split("\n");
+
+    const payload = JSON.parse((await waitForRewrite(captureFile)).stdin);
+    expect(payload.kind).toBe("rebase");
+    expect(payload.branch).toBe("feature");
+    expect(payload.mappings).toEqual([
+      { old_sha: oldShas[0], new_sha: newShas[0] },
+      { old_sha: oldShas[1], new_sha: newShas[1] },
+    ]);
+  });
+
+  it("replays stdin to a chained .user hook", async () => {
+    const { repoDir, captureFile, mockBinDir } = setupTestRepo("hook-rw-chain-");
+
+    const markerFile = path.join(repoDir, "..", "user-rewrite-stdin");
+    const userHook = `#!/usr/bin/env bash
+cat > "${markerFile}"
+`;
+    fs.writeFileSync(path.join(repoDir, ".git", "hooks", "post-rewrite.user"), userHook, {
+      mode: 0o755,
+    });
+
+    fs.writeFileSync(path.join(repoDir, "file.txt"), "content");
+    gitExec(repoDir, mockBinDir, "git add file.txt");
+    gitExec(repoDir, mockBinDir, 'git commit -m "original"');
+    const oldSha = gitExec(repoDir, mockBinDir, "git rev-parse HEAD").trim();
+    gitExec(repoDir, mockBinDir, 'git commit --amend -m "amended"');
+    const newSha = gitExec(repoDir, mockBinDir, "git rev-parse HEAD").trim();
+
+    await waitForRewrite(captureFile);
+    expect(fs.readFileSync(markerFile, "utf-8").trim()).toBe(`${oldSha} ${newSha}`);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Tests: pre-push
 // ---------------------------------------------------------------------------
@@ -651,7 +818,7 @@ echo "---" >> "${captureFile}"
   );
   fs.chmodSync(path.join(globalHooksDir, "resolve-workspace.sh"), 0o755);
 
-  for (const hook of ["post-commit", "post-checkout", "post-merge", "pre-push"]) {
+  for (const hook of ["post-commit", "post-checkout", "post-merge", "post-rewrite", "pre-push"]) {
     fs.copyFileSync(
       path.join(HOOKS_DIR, hook),
       path.join(globalHooksDir, hook),
@@ -22,7 +22,7 @@ import type postgres from "postgres";
 import type Redis from "ioredis";
 
 import type { FuelCodeS3Client } from "./aws/s3.js";
-import type { PipelineDeps } from "@fuel-code/core";
+import { createWebhookDispatcher, type PipelineDeps, type WebhookDispatcher } from "@fuel-code/core";
 import { logger } from "./logger.js";
 import { createAuthMiddleware } from "./middleware/auth.js";
 import { errorHandler } from "./middleware/error-handler.js";
@@ -37,6 +37,16 @@ import { createWorkspacesRouter } from "./routes/workspaces.js";
 import { createDevicesRouter } from "./routes/devices.js";
 import { createTeamsRouter } from "./routes/teams.js";
 import { createBackfillRouter } from "./routes/backfill.js";
+import { createSearchRouter } from "./routes/search.js";
+import { createDeadLettersRouter } from "./routes/dead-letters.js";
+import { createTokensRouter } from "./routes/tokens.js";
+import { createAnalyticsRouter } from "./routes/analytics.js";
+import { createGitActivityRouter } from "./routes/git-activity.js";
+import { createWebhooksRouter } from "./routes/webhooks.js";
+import { createMetricsRouter } from "./routes/metrics.js";
+import { createStreamRouter } from "./routes/stream.js";
+import { createEventQueryRouter } from "./routes/event-query.js";
+import type { AttachClientOptions } from "./ws/index.js";
 
 /** Dependencies injected into createApp for testability */
 export interface AppDeps {
@@ -44,7 +54,7 @@ export interface AppDeps {
   sql: postgres.Sql;
   /** ioredis client */
   redis: Redis;
-  /** API key for Bearer token auth */
+  /** Root API key for Bearer token auth (named tokens live in api_tokens) */
   apiKey: string;
   /** S3 client for transcript uploads (Phase 2 — optional for backwards compat) */
   s3?: FuelCodeS3Client;
@@ -52,6 +62,12 @@ export interface AppDeps {
   pipelineDeps?: PipelineDeps;
   /** Returns the current number of connected WebSocket clients (for health endpoint) */
   getWsClientCount?: () => number;
+  /** Webhook dispatcher shared with the consumer (one is created when omitted) */
+  webhooks?: WebhookDispatcher;
+  /** Returns the number of sessions waiting in the pipeline queue (for metrics) */
+  getPipelineQueueDepth?: () => number;
+  /** Registers an SSE stream with the WebSocket broadcaster (GET /api/stream is mounted only when set) */
+  attachStreamClient?: (options: AttachClientOptions) => () => void;
 }
 
 /**
@@ -78,9 +94,9 @@ export function createApp(deps: AppDeps): express.Express {
   app.use(
     pinoHttp({
       logger,
-      // Don't log health check requests to reduce noise
+      // Don't log health checks or metrics scrapes to reduce noise
       autoLogging: {
-        ignore: (req) => req.url === "/api/health",
+        ignore: (req) => req.url === "/api/health" || req.url === "/api/metrics",
       },
     }),
   );
@@ -92,8 +108,9 @@ export function createApp(deps: AppDeps): express.Express {
     getWsClientCount: deps.getWsClientCount,
   }));
 
-  // Auth middleware applies to all remaining /api/* routes
-  app.use("/api", createAuthMiddleware(deps.apiKey));
+  // Auth middleware applies to all remaining /api/* routes. Accepts API_KEY
+  // (root admin) or a named token from api_tokens, and enforces its scopes.
+  app.use("/api", createAuthMiddleware(deps.apiKey, deps.sql));
 
   // --- 6. Routes ---
   app.use("/api", createEventsRouter({ redis: deps.redis }));
@@ -145,6 +162,44 @@ export function createApp(deps: AppDeps): express.Express {
   // --- 6i. Backfill route — create session rows from CLI backfill scans ---
   app.use("/api", createBackfillRouter({ sql: deps.sql, logger }));
 
+  // --- 6j. Full-text search over parsed transcript content blocks ---
+  app.use("/api", createSearchRouter({ sql: deps.sql, logger }));
+
+  // --- 6k. Dead letters — inspect, replay, and discard events the consumer gave up on ---
+  app.use("/api", createDeadLettersRouter({ sql: deps.sql, redis: deps.redis, logger }));
+
+  // --- 6l. API tokens — create, list, and revoke named scoped tokens (admin only) ---
+  app.use("/api", createTokensRouter({ sql: deps.sql, logger }));
+
+  // --- 6m. Usage analytics — bucketed tokens/cost/activity from the daily_usage rollup ---
+  app.use("/api", createAnalyticsRouter({ sql: deps.sql, logger }));
+
+  // --- 6n. Git activity — re-correlate orphan git activity to sessions (admin only) ---
+  app.use("/api", createGitActivityRouter({ sql: deps.sql, logger }));
+
+  // --- 6o. Webhooks — manage outbound webhooks and inspect their delivery log (admin only) ---
+  app.use("/api", createWebhooksRouter({
+    sql: deps.sql,
+    logger,
+    dispatcher: deps.webhooks ?? createWebhookDispatcher({ sql: deps.sql, logger }),
+  }));
+
+  // --- 6p. Prometheus metrics — ingest, stream, handlers, reconcile, summaries, S3, WS ---
+  app.use("/api", createMetricsRouter({
+    redis: deps.redis,
+    logger,
+    getWsClientCount: deps.getWsClientCount,
+    getPipelineQueueDepth: deps.getPipelineQueueDepth,
+  }));
+
+  // --- 6q. Server-Sent Events stream — WebSocket broadcasts over plain HTTP ---
+  if (deps.attachStreamClient) {
+    app.use("/api", createStreamRouter({ attachClient: deps.attachStreamClient, logger }));
+  }
+
+  // --- 6r. Event query — filtered events across sessions, paginated or NDJSON export ---
+  app.use("/api", createEventQueryRouter({ sql: deps.sql, logger }));
+
   // --- 7. Error handler — MUST be registered last ---
   app.use(errorHandler);
 
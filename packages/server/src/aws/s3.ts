@@ -7,6 +7,7 @@
  *   - Presigned URL generation for client-side downloads
  *   - Health checks via HeadBucket
  *   - 3 automatic retries with exponential backoff (via SDK config)
+ *   - Per-command latency histogram for /api/metrics
  *
  * Security: Never logs full S3 keys, presigned URLs, or object contents.
  * Only key paths and byte sizes are logged.
@@ -28,6 +29,7 @@ import {
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { StorageError } from "@fuel-code/shared";
+import { metrics } from "@fuel-code/core";
 import type { S3Config } from "./s3-config.js";
 import type pino from "pino";
 
@@ -37,6 +39,12 @@ const DEFAULT_PRESIGN_EXPIRY_SECONDS = 3600;
 /** Maximum number of retry attempts for S3 operations (built into SDK client) */
 const MAX_RETRIES = 3;
 
+/** Latency of each S3 command (including SDK retries), by operation and outcome */
+const s3OperationDuration = metrics.histogram(
+  "fuel_code_s3_operation_duration_seconds",
+  "Duration of S3 commands, by operation (PutObject, GetObject, ...) and outcome",
+);
+
 /** Result of an upload operation — the key and byte size written */
 export interface UploadResult {
   key: string;
@@ -100,6 +108,21 @@ export function createS3Client(config: S3Config, logger: pino.Logger): FuelCodeS
 
   const bucket = config.bucket;
 
+  /** client.send, timed into s3OperationDuration under the command's name */
+  const send = (async (command: { constructor: { name: string } }, ...rest: unknown[]) => {
+    const stop = s3OperationDuration.startTimer({
+      operation: command.constructor.name.replace(/Command$/, ""),
+    });
+    try {
+      const response = await (client.send as (...args: unknown[]) => Promise<unknown>)(command, ...rest);
+      stop({ outcome: "success" });
+      return response;
+    } catch (err) {
+      stop({ outcome: "error" });
+      throw err;
+    }
+  }) as S3Client["send"];
+
   return {
     /**
      * Upload a Buffer or string to S3.
@@ -114,7 +137,7 @@ export function createS3Client(config: S3Config, logger: pino.Logger): FuelCodeS
       const size = Buffer.byteLength(body);
 
       try {
-        await client.send(
+        await send(
           new PutObjectCommand({
             Bucket: bucket,
             Key: key,
@@ -148,7 +171,7 @@ export function createS3Client(config: S3Config, logger: pino.Logger): FuelCodeS
       contentType: string = "application/octet-stream",
     ): Promise<UploadResult> {
       try {
-        await client.send(
+        await send(
           new PutObjectCommand({
             Bucket: bucket,
             Key: key,
@@ -186,7 +209,7 @@ export function createS3Client(config: S3Config, logger: pino.Logger): FuelCodeS
         const size = file.size;
         const stream = file.stream();
 
-        await client.send(
+        await send(
           new PutObjectCommand({
             Bucket: bucket,
             Key: key,
@@ -216,7 +239,7 @@ export function createS3Client(config: S3Config, logger: pino.Logger): FuelCodeS
      */
     async download(key: string): Promise<string> {
       try {
-        const response = await client.send(
+        const response = await send(
           new GetObjectCommand({
             Bucket: bucket,
             Key: key,
@@ -265,7 +288,7 @@ export function createS3Client(config: S3Config, logger: pino.Logger): FuelCodeS
      */
     async downloadStream(key: string): Promise<ReadableStream> {
       try {
-        const response = await client.send(
+        const response = await send(
           new GetObjectCommand({
             Bucket: bucket,
             Key: key,
@@ -342,7 +365,7 @@ export function createS3Client(config: S3Config, logger: pino.Logger): FuelCodeS
      */
     async headObject(key: string): Promise<HeadResult> {
       try {
-        const response = await client.send(
+        const response = await send(
           new HeadObjectCommand({
             Bucket: bucket,
             Key: key,
@@ -379,7 +402,7 @@ export function createS3Client(config: S3Config, logger: pino.Logger): FuelCodeS
      */
     async delete(key: string): Promise<void> {
       try {
-        await client.send(
+        await send(
           new DeleteObjectCommand({
             Bucket: bucket,
             Key: key,
@@ -409,7 +432,7 @@ export function createS3Client(config: S3Config, logger: pino.Logger): FuelCodeS
      */
     async ensureBucket(): Promise<void> {
       try {
-        await client.send(new HeadBucketCommand({ Bucket: bucket }));
+        await send(new HeadBucketCommand({ Bucket: bucket }));
         logger.info({ bucket }, `S3 bucket exists: ${bucket}`);
       } catch (err) {
         const statusCode = (err as any)?.$metadata?.httpStatusCode;
@@ -417,7 +440,7 @@ export function createS3Client(config: S3Config, logger: pino.Logger): FuelCodeS
 
         if (statusCode === 404 || errorName === "NotFound" || errorName === "NoSuchBucket") {
           logger.info({ bucket }, `S3 bucket not found, creating: ${bucket}`);
-          await client.send(new CreateBucketCommand({ Bucket: bucket }));
+          await send(new CreateBucketCommand({ Bucket: bucket }));
           logger.info({ bucket }, `S3 bucket created: ${bucket}`);
         } else {
           throw err;
@@ -427,7 +450,7 @@ export function createS3Client(config: S3Config, logger: pino.Logger): FuelCodeS
 
     async healthCheck(): Promise<HealthCheckResult> {
       try {
-        await client.send(
+        await send(
           new HeadBucketCommand({
             Bucket: bucket,
           }),
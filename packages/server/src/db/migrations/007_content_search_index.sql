@@ -0,0 +1,13 @@
+-- Migration 007: Full-text search index over all content block kinds
+--
+-- Migration 002 indexed only content_text, which the parser populates for
+-- text blocks alone. Thinking, tool_use, and tool_result blocks keep their
+-- text in other columns, so GET /api/search could never find e.g. the Bash
+-- command or test output that mentioned "flaky redis test".
+--
+-- Each block populates exactly one of these columns, so COALESCE yields that
+-- block's searchable document. The search route uses the identical
+-- expression so the planner can use this index.
+
+CREATE INDEX IF NOT EXISTS idx_content_blocks_search ON content_blocks
+  USING GIN (to_tsvector('english', COALESCE(content_text, thinking_text, result_text, tool_input::text)));
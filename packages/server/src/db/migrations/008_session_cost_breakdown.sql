@@ -0,0 +1,19 @@
+-- Migration 008: Per-model session cost breakdown
+--
+-- Costs are now priced per message against the model that produced it
+-- (see @fuel-code/shared pricing.ts). cost_breakdown stores per-model token
+-- and cost totals plus the pricing_version they were computed with:
+--
+--   { "pricing_version": "2025-11-24",
+--     "models": { "claude-opus-4-1-20250805": { "messages": 12, "tokens_in": ...,
+--                 "cost_usd": 1.23 }, ... } }
+--
+-- NULL for sessions parsed before this migration; the reprice action fills
+-- it in from transcript_messages without reparsing.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS cost_breakdown JSONB;
+
+-- Reprice sweeps look for parsed sessions costed with an older pricing version.
+CREATE INDEX IF NOT EXISTS idx_sessions_pricing_version
+  ON sessions ((cost_breakdown->>'pricing_version'))
+  WHERE lifecycle IN ('parsed', 'summarized', 'complete');
@@ -0,0 +1,34 @@
+-- Dead-letter store for events the Redis Stream consumer could not process.
+-- Previously an event that failed MAX_RETRIES times was logged and ACKed,
+-- which dropped it permanently. Now the consumer persists the original event
+-- here with its failure context so it can be inspected and replayed via
+-- /api/dead-letters once the underlying handler bug is fixed.
+--
+-- event_id is UNIQUE: if a replayed event fails again, the consumer updates
+-- the existing row (bumping attempts/last_error and resetting status to
+-- 'pending') instead of creating a duplicate.
+
+CREATE TABLE IF NOT EXISTS dead_letter_events (
+  id               TEXT PRIMARY KEY,
+  event_id         TEXT NOT NULL UNIQUE,
+  event_type       TEXT NOT NULL,
+  event            JSONB NOT NULL,
+  stream_id        TEXT NOT NULL,
+  attempts         INTEGER NOT NULL,
+  last_error       TEXT NOT NULL,
+  handler_name     TEXT,
+  status           TEXT NOT NULL DEFAULT 'pending'
+                   CHECK (status IN ('pending', 'replayed')),
+  replay_count     INTEGER NOT NULL DEFAULT 0,
+  first_failed_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_failed_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  replayed_at      TIMESTAMPTZ
+);
+
+-- List endpoint: newest failures first, keyset-paginated on (last_failed_at, id)
+CREATE INDEX IF NOT EXISTS idx_dead_letter_events_failed
+  ON dead_letter_events (last_failed_at DESC, id DESC);
+
+-- Filter by status / event type (e.g., "replay all pending git.commit events")
+CREATE INDEX IF NOT EXISTS idx_dead_letter_events_status_type
+  ON dead_letter_events (status, event_type);
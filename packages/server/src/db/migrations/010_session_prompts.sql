@@ -0,0 +1,23 @@
+-- Migration 010: Real-time prompt capture
+--
+-- The UserPromptSubmit hook emits a session.prompt event for every prompt
+-- the user submits. Each one lands here as it happens, so live sessions
+-- show what's being worked on long before the transcript is parsed at
+-- session end. Prompt text is redacted on the CLI (config prompts.redact_patterns)
+-- before it is ever sent.
+--
+-- event_id is UNIQUE so a replayed session.prompt event never duplicates a row.
+
+CREATE TABLE IF NOT EXISTS session_prompts (
+  id            TEXT PRIMARY KEY,
+  session_id    TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  event_id      TEXT NOT NULL UNIQUE,
+  prompt        TEXT NOT NULL,
+  submitted_at  TIMESTAMPTZ NOT NULL,
+  redacted      BOOLEAN NOT NULL DEFAULT false,
+  truncated     BOOLEAN NOT NULL DEFAULT false
+);
+
+-- Per-session prompt history in submission order
+CREATE INDEX IF NOT EXISTS idx_session_prompts_session
+  ON session_prompts (session_id, submitted_at);
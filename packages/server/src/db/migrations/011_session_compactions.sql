@@ -0,0 +1,12 @@
+-- Migration 011: Record context compactions on sessions
+--
+-- The PreCompact hook emits a session.compact event each time Claude Code
+-- compacts a session's context. The handler bumps compact_count and appends
+-- the event timestamp to compacted_at, so live sessions show how often the
+-- context has been reset before the transcript is parsed.
+--
+-- Per-message compaction boundaries live on transcript_messages
+-- (compact_sequence / is_compacted, see 002) and are filled in by the parser.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS compact_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS compacted_at TIMESTAMPTZ[] NOT NULL DEFAULT '{}';
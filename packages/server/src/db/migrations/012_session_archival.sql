@@ -0,0 +1,17 @@
+-- Migration 012: Session archival
+--
+-- Complete sessions older than a configurable age can drop their parsed
+-- transcript_messages / content_blocks rows; the parser output is already in
+-- S3 as parsed.json and is used to restore them on demand.
+--
+-- archived_at is set when the rows are removed and cleared on restore. The
+-- lifecycle stays 'complete' — migration 006 retired the old 'archived'
+-- lifecycle state, and archival is a storage concern rather than a pipeline
+-- stage.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+-- Archive sweeps look for the oldest complete sessions not yet archived.
+CREATE INDEX IF NOT EXISTS idx_sessions_archive_candidates
+  ON sessions(ended_at)
+  WHERE lifecycle = 'complete' AND archived_at IS NULL;
@@ -0,0 +1,29 @@
+-- Migration 013: Scoped API tokens
+--
+-- Until now every client authenticated with the single API_KEY environment
+-- variable, so there was no way to tell machines apart or cut one off. Each
+-- row here is an independently revocable token with its own scopes.
+--
+-- Only the SHA-256 hash of a token is stored (tokens are 256 random bits, so
+-- a fast hash is sufficient); token_prefix keeps the first few characters
+-- so listings can show which token is which. API_KEY keeps working as a
+-- root admin token, which is how the first token gets created.
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id            TEXT PRIMARY KEY,
+  name          TEXT NOT NULL,
+  token_hash    TEXT NOT NULL UNIQUE,
+  token_prefix  TEXT NOT NULL,
+  scopes        TEXT[] NOT NULL
+                CHECK (cardinality(scopes) > 0
+                       AND scopes <@ ARRAY['read', 'ingest', 'admin']::TEXT[]),
+  created_by    TEXT,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at    TIMESTAMPTZ,
+  last_used_at  TIMESTAMPTZ,
+  revoked_at    TIMESTAMPTZ
+);
+
+-- Token listing: newest first
+CREATE INDEX IF NOT EXISTS idx_api_tokens_created
+  ON api_tokens (created_at DESC);
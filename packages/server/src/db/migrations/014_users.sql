@@ -0,0 +1,37 @@
+-- Migration 014: Per-user identity and attribution
+--
+-- Tokens identify machines, not people: a shared repo worked on by several
+-- developers had no way to answer "who did this". A users row is the person
+-- behind one or more API tokens. Devices belong to the user whose token last
+-- sent events from them, and sessions, events and git activity are stamped
+-- with the user at ingest time.
+--
+-- Every user_id column is nullable: rows ingested before this migration, or
+-- with the static API_KEY / a token that has no user, stay unattributed.
+
+CREATE TABLE IF NOT EXISTS users (
+  id          TEXT PRIMARY KEY,
+  name        TEXT NOT NULL UNIQUE,
+  email       TEXT,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE api_tokens   ADD COLUMN IF NOT EXISTS user_id TEXT REFERENCES users(id);
+ALTER TABLE devices      ADD COLUMN IF NOT EXISTS user_id TEXT REFERENCES users(id);
+ALTER TABLE sessions     ADD COLUMN IF NOT EXISTS user_id TEXT REFERENCES users(id);
+ALTER TABLE events       ADD COLUMN IF NOT EXISTS user_id TEXT REFERENCES users(id);
+ALTER TABLE git_activity ADD COLUMN IF NOT EXISTS user_id TEXT REFERENCES users(id);
+
+-- Session list / timeline filtered by user, newest first
+CREATE INDEX IF NOT EXISTS idx_sessions_user_started
+  ON sessions (user_id, started_at DESC)
+  WHERE user_id IS NOT NULL;
+
+-- Orphan git activity filtered by user on the timeline
+CREATE INDEX IF NOT EXISTS idx_git_activity_user
+  ON git_activity (user_id, timestamp DESC)
+  WHERE user_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_user
+  ON events (user_id)
+  WHERE user_id IS NOT NULL;
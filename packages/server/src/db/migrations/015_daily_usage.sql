@@ -0,0 +1,66 @@
+-- Migration 015: Daily usage rollup
+--
+-- Usage charts (GET /api/analytics/usage) over weeks or months would
+-- otherwise aggregate every session in range on each request. daily_usage
+-- keeps one row per (UTC day, workspace, device, model) with the summed stats
+-- of the parsed sessions that started that day.
+--
+-- Rows are recomputed per key by refreshDailyUsage() (@fuel-code/core) when
+-- a session reaches 'parsed' or is repriced — never incremented — so the
+-- rollup can always be rebuilt from sessions. There are no foreign keys: it
+-- is derived data and must not block deleting or merging its sources.
+-- Sessions count toward their primary model (sessions.model).
+
+CREATE TABLE IF NOT EXISTS daily_usage (
+  day                 DATE NOT NULL,
+  workspace_id        TEXT NOT NULL,
+  device_id           TEXT NOT NULL,
+  model               TEXT NOT NULL,
+  sessions            INTEGER NOT NULL DEFAULT 0,
+  duration_ms         BIGINT NOT NULL DEFAULT 0,
+  tokens_in           BIGINT NOT NULL DEFAULT 0,
+  tokens_out          BIGINT NOT NULL DEFAULT 0,
+  cache_read_tokens   BIGINT NOT NULL DEFAULT 0,
+  cache_write_tokens  BIGINT NOT NULL DEFAULT 0,
+  cost_usd            NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  commits             INTEGER NOT NULL DEFAULT 0,
+  updated_at          TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (day, workspace_id, device_id, model)
+);
+
+-- Range scans filtered by workspace (the primary key covers day-first scans)
+CREATE INDEX IF NOT EXISTS idx_daily_usage_workspace_day
+  ON daily_usage (workspace_id, day);
+
+-- Backfill from sessions parsed before this migration
+INSERT INTO daily_usage (
+  day, workspace_id, device_id, model, sessions, duration_ms,
+  tokens_in, tokens_out, cache_read_tokens, cache_write_tokens,
+  cost_usd, commits
+)
+SELECT
+  (s.started_at AT TIME ZONE 'UTC')::date,
+  s.workspace_id,
+  s.device_id,
+  COALESCE(s.model, 'unknown'),
+  COUNT(*)::int,
+  COALESCE(SUM(s.duration_ms), 0),
+  COALESCE(SUM(s.tokens_in), 0),
+  COALESCE(SUM(s.tokens_out), 0),
+  COALESCE(SUM(s.cache_read_tokens), 0),
+  COALESCE(SUM(s.cache_write_tokens), 0),
+  COALESCE(SUM(s.cost_estimate_usd), 0),
+  COALESCE(SUM(c.commits), 0)::int
+FROM sessions s
+LEFT JOIN LATERAL (
+  SELECT COUNT(*)::int AS commits
+  FROM git_activity ga
+  WHERE ga.session_id = s.id AND ga.type = 'commit'
+) c ON true
+WHERE s.lifecycle IN ('parsed', 'summarized', 'complete')
+GROUP BY 1, 2, 3, 4
+ON CONFLICT DO NOTHING;
+
+-- Hour-bucket and tag queries read sessions directly by start time
+CREATE INDEX IF NOT EXISTS idx_sessions_started_at
+  ON sessions (started_at);
@@ -0,0 +1,18 @@
+-- Migration 016: Abandoned session reaper
+--
+-- When Claude Code crashes or the machine sleeps, SessionEnd never fires and
+-- the session stays 'detected' forever. The reaper (@fuel-code/core
+-- session-reaper.ts) ends such sessions with end_reason = 'crash' once they
+-- have gone quiet.
+--
+-- transcript_mtime is the last modification time of the session's transcript
+-- file, reported by the CLI for sessions it still has open. CC appends to the
+-- transcript on every turn, so a fresh mtime keeps a long-running session
+-- alive even when no hook event has arrived for a while.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS transcript_mtime TIMESTAMPTZ;
+
+-- Reaper sweeps scan the detected sessions, oldest first.
+CREATE INDEX IF NOT EXISTS idx_sessions_detected
+  ON sessions(started_at)
+  WHERE lifecycle = 'detected';
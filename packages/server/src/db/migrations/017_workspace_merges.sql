@@ -0,0 +1,49 @@
+-- Migration 017: Workspace merges and canonical ID aliases
+--
+-- A repo with no remote is tracked as "local:<sha256 of first commit>". When
+-- a remote is added, new events arrive under the remote's canonical ID and
+-- would start a second workspace. mergeWorkspaces() (@fuel-code/core
+-- workspace-merge.ts) folds the local workspace into the remote one: its
+-- sessions, events, git_activity and workspace_devices rows are re-pointed
+-- and the source workspace row is removed.
+--
+-- workspace_merges records each merge with everything needed to undo it:
+-- the IDs of the rows that moved, a snapshot of the removed workspace and of
+-- its device links. Rows created after the merge stay with the target.
+--
+-- workspace_aliases maps the canonical IDs of merged-away workspaces to the
+-- workspace that absorbed them, so events still queued (or emitted by
+-- machines without the remote) keep resolving to the right place.
+
+CREATE TABLE IF NOT EXISTS workspace_merges (
+  id                    TEXT PRIMARY KEY,
+  source_workspace_id   TEXT NOT NULL,
+  source_canonical_id   TEXT NOT NULL,
+  target_workspace_id   TEXT NOT NULL,
+  -- 'auto' (detected from a session's first-commit hash) or 'manual'
+  reason                TEXT NOT NULL CHECK (reason IN ('auto', 'manual')),
+  session_ids           TEXT[] NOT NULL DEFAULT '{}',
+  event_ids             TEXT[] NOT NULL DEFAULT '{}',
+  git_activity_ids      TEXT[] NOT NULL DEFAULT '{}',
+  -- Devices linked to the target only because of this merge
+  moved_device_ids      TEXT[] NOT NULL DEFAULT '{}',
+  -- Aliases that pointed at the source and were re-pointed at the target
+  repointed_aliases     TEXT[] NOT NULL DEFAULT '{}',
+  source_workspace      JSONB NOT NULL,
+  source_devices        JSONB NOT NULL DEFAULT '[]',
+  merged_at             TIMESTAMPTZ NOT NULL DEFAULT now(),
+  unmerged_at           TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_merges_source_canonical
+  ON workspace_merges(source_canonical_id, merged_at DESC);
+
+CREATE TABLE IF NOT EXISTS workspace_aliases (
+  canonical_id  TEXT PRIMARY KEY,
+  workspace_id  TEXT NOT NULL REFERENCES workspaces(id),
+  merge_id      TEXT NOT NULL REFERENCES workspace_merges(id),
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_aliases_workspace
+  ON workspace_aliases(workspace_id);
@@ -0,0 +1,18 @@
+-- Migration 018: Rewritten commits (amend / rebase)
+--
+-- `git commit --amend` and `git rebase` replace commits with new SHAs. The
+-- post-rewrite hook emits git.rewrite with the old -> new mapping, and
+-- handleGitRewrite (@fuel-code/core handlers/git-rewrite.ts) supersedes the
+-- commit rows for the old SHAs instead of leaving them as ghosts.
+--
+-- superseded_by is the SHA that replaced the row's commit; superseded_at is
+-- when the rewrite happened. Session, timeline and commit-count queries only
+-- read rows where superseded_by IS NULL.
+
+ALTER TABLE git_activity ADD COLUMN IF NOT EXISTS superseded_by TEXT;
+ALTER TABLE git_activity ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMPTZ;
+
+-- Rewrites look up a workspace's live commit rows by SHA.
+CREATE INDEX IF NOT EXISTS idx_git_activity_workspace_sha
+  ON git_activity(workspace_id, commit_sha)
+  WHERE superseded_by IS NULL;
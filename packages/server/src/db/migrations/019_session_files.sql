@@ -0,0 +1,54 @@
+-- Migration 019: File history index
+--
+-- Answering "which sessions and commits touched this file" would otherwise
+-- mean scanning every transcript. session_files records:
+--   - per session, each file a tool call read (Read, Grep) or wrote (Edit,
+--     MultiEdit, Write), one row per (session, path, tool) — rebuilt by
+--     indexSessionFiles() (@fuel-code/core session-files.ts) during reconcile
+--   - per commit, each file in the git.commit file_list — written by
+--     handleGitCommit in the same transaction as the git_activity row
+--
+-- Exactly one of session_id / git_activity_id is set. There is no
+-- workspace_id: it is read through the session or commit, so workspace
+-- merges and commit re-correlation never leave the index stale. Rows survive
+-- archival (they do not reference content_blocks).
+--
+-- Paths are relative to the repository root (tool paths relative to the
+-- git_root sent with session.start, or the session's cwd for sessions
+-- recorded before it was; paths outside it stay absolute).
+
+CREATE TABLE IF NOT EXISTS session_files (
+  session_id         TEXT REFERENCES sessions(id) ON DELETE CASCADE,
+  git_activity_id    TEXT REFERENCES git_activity(id) ON DELETE CASCADE,
+  path               TEXT NOT NULL,
+  access             TEXT NOT NULL CHECK (access IN ('read', 'write')),
+  tool_name          TEXT,             -- NULL for commit rows
+  access_count       INTEGER NOT NULL DEFAULT 1,
+  first_accessed_at  TIMESTAMPTZ NOT NULL,
+  last_accessed_at   TIMESTAMPTZ NOT NULL,
+  CHECK ((session_id IS NULL) <> (git_activity_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_session_files_session
+  ON session_files (session_id, path, tool_name)
+  WHERE session_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_session_files_commit
+  ON session_files (git_activity_id, path)
+  WHERE git_activity_id IS NOT NULL;
+
+-- Exact and directory-prefix (LIKE 'dir/%') path lookups
+CREATE INDEX IF NOT EXISTS idx_session_files_path
+  ON session_files (path text_pattern_ops);
+
+-- Backfill commit rows from commits recorded before this migration
+INSERT INTO session_files (git_activity_id, path, access, first_accessed_at, last_accessed_at)
+SELECT ga.id, f.value->>'path', 'write', ga.timestamp, ga.timestamp
+FROM git_activity ga
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(ga.data->'file_list') = 'array' THEN ga.data->'file_list' ELSE '[]'::jsonb END
+) AS f(value)
+WHERE ga.type = 'commit' AND f.value->>'path' IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Session rows for already-parsed sessions are built on their next reparse.
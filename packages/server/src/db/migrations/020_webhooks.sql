@@ -0,0 +1,56 @@
+-- Migration 020: Outbound webhooks
+--
+-- A webhook POSTs matching events to a URL: ingested events from the
+-- consumer (session.end, git.commit, ...) and pipeline milestones from
+-- reconcile (session.summarized, ...). event_types holds exact types or
+-- "prefix.*" wildcards; empty means every event. workspace_id narrows it to
+-- one workspace (workspace merges re-point it at the absorbing workspace).
+--
+-- Each matching event becomes a webhook_deliveries row. The dispatcher
+-- (@fuel-code/core webhooks.ts) POSTs due rows with an HMAC-SHA256
+-- signature and, on failure, reschedules them with exponential backoff
+-- until a 2xx response or the last attempt (status 'failed'). The rows are
+-- the delivery log shown by `fuel-code webhooks deliveries`.
+--
+-- The secret is kept in plaintext: it is needed to sign every delivery.
+
+CREATE TABLE IF NOT EXISTS webhooks (
+  id            TEXT PRIMARY KEY,
+  url           TEXT NOT NULL,
+  secret        TEXT NOT NULL,
+  description   TEXT,
+  event_types   TEXT[] NOT NULL DEFAULT '{}',
+  workspace_id  TEXT REFERENCES workspaces(id) ON DELETE CASCADE,
+  created_by    TEXT,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id                TEXT PRIMARY KEY,
+  webhook_id        TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event_type        TEXT NOT NULL,
+  event_id          TEXT,                 -- source event; NULL for pipeline milestones
+  payload           JSONB NOT NULL,
+  status            TEXT NOT NULL DEFAULT 'pending'
+                    CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts          INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at   TIMESTAMPTZ,          -- NULL once succeeded or failed
+  last_status_code  INTEGER,
+  last_error        TEXT,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  delivered_at      TIMESTAMPTZ
+);
+
+-- Dispatcher: due pending deliveries, oldest first
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON webhook_deliveries (next_attempt_at)
+  WHERE status = 'pending';
+
+-- Delivery log per webhook, newest first
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook
+  ON webhook_deliveries (webhook_id, created_at DESC);
+
+-- A replayed event is delivered once per webhook
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_deliveries_event
+  ON webhook_deliveries (webhook_id, event_id, event_type)
+  WHERE event_id IS NOT NULL;
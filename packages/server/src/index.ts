@@ -11,6 +11,10 @@
  *   7. Create Express app with middleware stack
  *   8. Start HTTP server
  *   9. Start event consumer (Task 11)
+ *  10. Start the periodic archive sweep (only when ARCHIVE_AFTER_DAYS is set)
+ *  11. Start the periodic reaper for abandoned sessions (unless REAPER_ENABLED=false)
+ *  12. Start the periodic device presence sweep (marks quiet devices offline)
+ *  13. Start the periodic webhook delivery sweep (retries and leftovers)
  *
  * Graceful shutdown on SIGTERM/SIGINT:
  *   1. Stop accepting new connections
@@ -33,12 +37,42 @@ import { createEventHandler } from "./pipeline/wire.js";
 import { startConsumer } from "./pipeline/consumer.js";
 import { createS3Client } from "./aws/s3.js";
 import { loadS3Config } from "./aws/s3-config.js";
-import { createWsServer } from "./ws/index.js";
-import { loadSummaryConfig, createPipelineQueue, type PipelineDeps } from "@fuel-code/core";
+import {
+  createWsServer,
+  createSessionNotifier,
+  createDeviceNotifier,
+  createRedisFanout,
+  createRedisReplayBuffer,
+  type WsServerHandle,
+} from "./ws/index.js";
+import {
+  loadSummaryConfig,
+  loadArchiveConfig,
+  archiveOldSessions,
+  loadReaperConfig,
+  reapAbandonedSessions,
+  loadDeviceOfflineMs,
+  markStaleDevicesOffline,
+  createPipelineQueue,
+  createWebhookDispatcher,
+  type PipelineDeps,
+} from "@fuel-code/core";
 
 /** Graceful shutdown timeout — force exit if cleanup takes longer than this */
 const SHUTDOWN_TIMEOUT_MS = 30_000;
 
+/** How often the archive sweep runs when archival is enabled */
+const ARCHIVE_SWEEP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/** How often the reaper looks for abandoned detected sessions */
+const REAPER_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/** How often devices that stopped sending heartbeats are marked offline */
+const DEVICE_PRESENCE_INTERVAL_MS = 60 * 1000;
+
+/** How often due webhook deliveries (retries, leftovers from a restart) are sent */
+const WEBHOOK_SWEEP_INTERVAL_MS = 30 * 1000;
+
 /**
  * Validate that all required environment variables are set.
  * Logs an error and exits if any are missing.
@@ -111,13 +145,15 @@ async function main(): Promise<void> {
   }
 
   // --- Step 5: Create and connect Redis clients ---
-  // Two separate clients are needed because the consumer uses XREADGROUP BLOCK
+  // Separate clients are needed because the consumer uses XREADGROUP BLOCK
   // which holds the connection. Health checks (PING) and event writes (XADD)
-  // need their own connection to avoid queuing behind the blocked command.
+  // need their own connection to avoid queuing behind the blocked command,
+  // and the WebSocket fan-out's SUBSCRIBE puts its connection in pub/sub mode.
   const redis = createRedisClient(env.REDIS_URL);
   const redisConsumer = createRedisClient(env.REDIS_URL);
+  const redisSubscriber = createRedisClient(env.REDIS_URL);
   try {
-    await Promise.all([redis.connect(), redisConsumer.connect()]);
+    await Promise.all([redis.connect(), redisConsumer.connect(), redisSubscriber.connect()]);
   } catch (err) {
     logger.error({ err }, "Failed to connect to Redis — aborting startup");
     process.exit(1);
@@ -154,20 +190,53 @@ async function main(): Promise<void> {
   // s3 and pipelineDeps are passed through for the transcript upload route.
   // Use createServer(app) instead of app.listen() so the WS server can share
   // the same HTTP server for WebSocket upgrades on /api/ws.
-  // The getWsClientCount callback is a lazy wrapper — the WS server is created
-  // right after the app, and the wrapper captures the reference once available.
+  // The getWsClientCount and attachStreamClient callbacks are lazy wrappers —
+  // the WS server is created right after the app, and the wrappers capture the
+  // reference once available (SSE streams join the WS server's client registry).
+  // The webhook dispatcher is shared by the app (test deliveries), the
+  // consumer (ingested events) and the reconcile notifier (milestones).
   let wsClientCountFn: (() => number) | undefined;
+  let attachStreamClientFn: WsServerHandle["attachClient"] | undefined;
+  const webhooks = createWebhookDispatcher({ sql, logger });
   const app = createApp({
     sql, redis, apiKey: env.API_KEY, s3, pipelineDeps,
     getWsClientCount: () => wsClientCountFn?.() ?? 0,
+    getPipelineQueueDepth: () => pipelineQueue.depth(),
+    webhooks,
+    attachStreamClient: (options) => {
+      if (!attachStreamClientFn) throw new Error("WebSocket server is not running");
+      return attachStreamClientFn(options);
+    },
   });
   const httpServer = createServer(app);
 
   // --- Step 8b: Attach WebSocket server to the HTTP server ---
   // The WS server handles real-time subscriptions for CLI clients.
-  // It authenticates via the same API key and broadcasts events/session updates.
-  const wsServer = createWsServer({ httpServer, logger, apiKey: env.API_KEY });
+  // It accepts the same tokens as the HTTP API and broadcasts events/session updates.
+  // Broadcasts also go through Redis pub/sub so that, with several replicas,
+  // clients see events consumed by any of them. They are also kept in a
+  // short-lived Redis replay buffer so reconnecting clients can catch up.
+  const wsServer = createWsServer({
+    httpServer, logger, apiKey: env.API_KEY, sql,
+    fanout: createRedisFanout({ publisher: redis, subscriber: redisSubscriber, logger }),
+    replay: createRedisReplayBuffer({ redis, logger }),
+  });
   wsClientCountFn = () => wsServer.getClientCount();
+  attachStreamClientFn = (options) => wsServer.attachClient(options);
+
+  // Route reconcile pipeline lifecycle updates (parsed stats, summaries,
+  // complete/failed) to subscribed WS clients and to webhooks. The pipeline
+  // queue holds a reference to pipelineDeps, so setting the notifier here
+  // takes effect for every reconcile run.
+  const wsNotifier = createSessionNotifier(wsServer.broadcaster);
+  pipelineDeps.notifier = {
+    sessionUpdated(update) {
+      wsNotifier.sessionUpdated(update);
+      webhooks.sessionUpdated(update);
+    },
+  };
+  // Device heartbeats and the offline sweep below push device.update messages
+  pipelineDeps.deviceNotifier = createDeviceNotifier(wsServer.broadcaster);
 
   httpServer.listen(env.PORT, () => {
     const elapsedMs = Math.round(performance.now() - startMs);
@@ -182,12 +251,13 @@ async function main(): Promise<void> {
   // the Redis Stream and dispatches events to the event processor.
   // Consumer gets its own Redis client (blocking XREADGROUP commands).
   // Pipeline deps are passed through so session.end can trigger post-processing.
-  // The broadcaster is passed so processed events are broadcast to WS clients.
+  // The broadcaster is passed so processed events are broadcast to WS clients,
+  // and the webhook dispatcher so they are delivered to matching webhooks.
   // Consumer gets its own logger writing to logs/consumer.log for isolated inspection
   const consumerLogger = createLogger("consumer", "consumer.log");
   const { registry } = createEventHandler(sql, logger, pipelineDeps);
   const consumer = startConsumer(
-    { redis: redisConsumer, sql, registry, logger: consumerLogger, pipelineDeps, broadcaster: wsServer.broadcaster },
+    { redis: redisConsumer, sql, registry, logger: consumerLogger, pipelineDeps, broadcaster: wsServer.broadcaster, webhooks },
   );
   logger.info(
     { registeredHandlers: registry.listRegisteredTypes() },
@@ -220,6 +290,125 @@ async function main(): Promise<void> {
     }
   }, 5000);
 
+  // --- Step 12: Periodic archive sweep ---
+  // Prunes parsed transcript rows for complete sessions older than
+  // ARCHIVE_AFTER_DAYS once their parsed.json backup has been verified.
+  // Disabled unless the env var is set. Sweeps never overlap.
+  const archiveConfig = loadArchiveConfig();
+  let archiveTimer: ReturnType<typeof setInterval> | undefined;
+  if (archiveConfig.enabled) {
+    let archiveRunning = false;
+    archiveTimer = setInterval(async () => {
+      if (archiveRunning) return;
+      archiveRunning = true;
+      try {
+        await archiveOldSessions(
+          { sql, s3, logger },
+          { olderThanDays: archiveConfig.olderThanDays, limit: archiveConfig.limit },
+        );
+      } catch (err) {
+        logger.error(
+          { error: err instanceof Error ? err.message : String(err) },
+          "Archive sweep failed",
+        );
+      } finally {
+        archiveRunning = false;
+      }
+    }, ARCHIVE_SWEEP_INTERVAL_MS);
+    archiveTimer.unref();
+    logger.info(
+      { olderThanDays: archiveConfig.olderThanDays, limit: archiveConfig.limit },
+      "Archive sweep scheduled",
+    );
+  }
+
+  // --- Step 13: Periodic reaper for abandoned sessions ---
+  // Ends detected sessions whose SessionEnd never arrived (CC crash, laptop
+  // asleep) once they and their device have gone quiet. Sweeps never overlap.
+  const reaperConfig = loadReaperConfig();
+  let reaperTimer: ReturnType<typeof setInterval> | undefined;
+  if (reaperConfig.enabled) {
+    let reaperRunning = false;
+    reaperTimer = setInterval(async () => {
+      if (reaperRunning) return;
+      reaperRunning = true;
+      try {
+        const result = await reapAbandonedSessions(sql, pipelineDeps, reaperConfig);
+        if (result.found > 0) {
+          logger.info(
+            { found: result.found, reaped: result.reaped, reconciled: result.reconciled, errors: result.errors.length },
+            "Reaper sweep complete",
+          );
+        }
+      } catch (err) {
+        logger.error(
+          { error: err instanceof Error ? err.message : String(err) },
+          "Reaper sweep failed",
+        );
+      } finally {
+        reaperRunning = false;
+      }
+    }, REAPER_SWEEP_INTERVAL_MS);
+    reaperTimer.unref();
+    logger.info(
+      {
+        idleMinutes: reaperConfig.idleMs / 60_000,
+        offlineMinutes: reaperConfig.offlineMs / 60_000,
+        maxIdleHours: reaperConfig.maxIdleMs / 3_600_000,
+      },
+      "Reaper sweep scheduled",
+    );
+  }
+
+  // --- Step 14: Periodic device presence sweep ---
+  // Heartbeats keep a device online; once it has been quiet for
+  // DEVICE_OFFLINE_MINUTES it is marked offline and clients are told.
+  const deviceOfflineMs = loadDeviceOfflineMs();
+  let presenceRunning = false;
+  const presenceTimer = setInterval(async () => {
+    if (presenceRunning) return;
+    presenceRunning = true;
+    try {
+      const wentOffline = await markStaleDevicesOffline(sql, deviceOfflineMs);
+      for (const device of wentOffline) {
+        pipelineDeps.deviceNotifier?.deviceUpdated(device);
+      }
+      if (wentOffline.length > 0) {
+        logger.info(
+          { devices: wentOffline.map((d) => d.deviceId) },
+          "Marked quiet devices offline",
+        );
+      }
+    } catch (err) {
+      logger.error(
+        { error: err instanceof Error ? err.message : String(err) },
+        "Device presence sweep failed",
+      );
+    } finally {
+      presenceRunning = false;
+    }
+  }, DEVICE_PRESENCE_INTERVAL_MS);
+  presenceTimer.unref();
+
+  // --- Step 15: Periodic webhook delivery sweep ---
+  // New deliveries are sent as soon as they are queued; this picks up retries
+  // whose backoff has elapsed and rows left pending by a restart. deliverDue()
+  // never runs two sweeps at once.
+  const webhookTimer = setInterval(async () => {
+    try {
+      const result = await webhooks.deliverDue();
+      if (result.attempted > 0) {
+        logger.info(result, "Webhook delivery sweep complete");
+      }
+    } catch (err) {
+      logger.error(
+        { error: err instanceof Error ? err.message : String(err) },
+        "Webhook delivery sweep failed",
+      );
+    }
+  }, WEBHOOK_SWEEP_INTERVAL_MS);
+  webhookTimer.unref();
+
   // --- Graceful shutdown ---
   let isShuttingDown = false;
 
@@ -239,6 +428,11 @@ async function main(): Promise<void> {
     // Prevent the timer from keeping the process alive if cleanup finishes first
     forceExitTimer.unref();
 
+    if (archiveTimer) clearInterval(archiveTimer);
+    if (reaperTimer) clearInterval(reaperTimer);
+    clearInterval(presenceTimer);
+    clearInterval(webhookTimer);
+
     try {
       // 1. Stop accepting new HTTP connections
       await new Promise<void>((resolve, reject) => {
@@ -254,9 +448,10 @@ async function main(): Promise<void> {
       // 4. Stop the Redis Stream consumer loop (waits for current iteration to finish)
       await consumer.stop();
 
-      // 5. Close Redis connections (both app + consumer clients)
+      // 5. Close Redis connections (app, consumer and fan-out subscriber clients)
       redis.disconnect();
       redisConsumer.disconnect();
+      redisSubscriber.disconnect();
 
       // 6. Close Postgres pool
       await sql.end();
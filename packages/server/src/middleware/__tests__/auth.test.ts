@@ -7,12 +7,16 @@
  *   - Wrong token value → 401
  *   - Malformed header (no "Bearer " prefix) → 401
  *   - Empty token after "Bearer " → 401
+ *   - Named api_tokens tokens: scope enforcement (403), unknown/revoked (401),
+ *     throttled last_used_at updates
+ *   - requiredScope() route → scope mapping
  *
- * Uses mock Express req/res/next objects — no real HTTP server needed.
+ * Uses mock Express req/res/next objects and a mock SQL client — no real HTTP
+ * server or database needed.
  */
 
 import { describe, test, expect, mock, beforeEach } from "bun:test";
-import { createAuthMiddleware } from "../auth.js";
+import { createAuthMiddleware, hashToken, requiredScope } from "../auth.js";
 import type { Request, Response, NextFunction } from "express";
 
 /** The API key the middleware will validate against */
@@ -27,6 +31,11 @@ function mockRequest(authHeader?: string): Request {
   } as unknown as Request;
 }
 
+/** Create a mock Express request for a given method and /api-relative path */
+function mockApiRequest(method: string, path: string, authHeader: string): Request {
+  return { method, path, headers: { authorization: authHeader } } as unknown as Request;
+}
+
 /** Create a mock Express response that captures status and JSON body */
 function mockResponse(): Response & {
   _status: number | null;
@@ -141,3 +150,151 @@ describe("createAuthMiddleware", () => {
     expect(next).not.toHaveBeenCalled();
   });
 });
+
+// ---------------------------------------------------------------------------
+// Named tokens (api_tokens table)
+// ---------------------------------------------------------------------------
+
+const NAMED_TOKEN = "fc_laptop_token_abcdefghijklmnop";
+
+/**
+ * Mock SQL client: the api_tokens lookup returns `tokenRow` (if any) when the
+ * hash matches, and every statement is recorded.
+ */
+function createMockSql(
+  tokenRow: { id: string; name: string; scopes: string[]; user_id?: string | null } | null,
+) {
+  const calls: Array<{ text: string; values: unknown[] }> = [];
+  const sqlFn: any = (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const text = strings.join("$");
+    calls.push({ text, values });
+    if (text.includes("FROM api_tokens") && tokenRow && values[0] === hashToken(NAMED_TOKEN)) {
+      return Promise.resolve([tokenRow]);
+    }
+    return Promise.resolve([]);
+  };
+  return { sql: sqlFn, calls };
+}
+
+/** Let the middleware's async token lookup settle */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("createAuthMiddleware with named tokens", () => {
+  test("accepts a token with the required scope and attaches req.auth", async () => {
+    const { sql } = createMockSql({
+      id: "tok-1",
+      name: "laptop",
+      scopes: ["read", "ingest"],
+      user_id: "user-1",
+    });
+    const middleware = createAuthMiddleware(TEST_API_KEY, sql);
+    const req = mockApiRequest("POST", "/events/ingest", `Bearer ${NAMED_TOKEN}`);
+    const res = mockResponse();
+    const next = mock(() => {}) as any as NextFunction;
+
+    middleware(req, res, next);
+    await flush();
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(req.auth).toEqual({
+      tokenId: "tok-1",
+      name: "laptop",
+      scopes: ["read", "ingest"],
+      userId: "user-1",
+    });
+  });
+
+  test("returns 403 when the token lacks the required scope", async () => {
+    const { sql } = createMockSql({ id: "tok-1", name: "laptop", scopes: ["read", "ingest"] });
+    const middleware = createAuthMiddleware(TEST_API_KEY, sql);
+    const req = mockApiRequest("POST", "/tokens", `Bearer ${NAMED_TOKEN}`);
+    const res = mockResponse();
+    const next = mock(() => {}) as any as NextFunction;
+
+    middleware(req, res, next);
+    await flush();
+
+    expect(res._status).toBe(403);
+    expect((res._body as { error: string }).error).toBe("Insufficient scope");
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  test("returns 401 for an unknown, revoked, or expired token", async () => {
+    const { sql, calls } = createMockSql(null);
+    const middleware = createAuthMiddleware(TEST_API_KEY, sql);
+    const req = mockApiRequest("GET", "/sessions", `Bearer ${NAMED_TOKEN}`);
+    const res = mockResponse();
+    const next = mock(() => {}) as any as NextFunction;
+
+    middleware(req, res, next);
+    await flush();
+
+    expect(res._status).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+    // Lookup is by hash and filters out revoked/expired rows
+    expect(calls[0].values).toEqual([hashToken(NAMED_TOKEN)]);
+    expect(calls[0].text).toContain("revoked_at IS NULL");
+    expect(calls[0].text).toContain("expires_at > now()");
+  });
+
+  test("updates last_used_at at most once per throttle window", async () => {
+    const { sql, calls } = createMockSql({ id: "tok-1", name: "laptop", scopes: ["read"] });
+    const middleware = createAuthMiddleware(TEST_API_KEY, sql);
+
+    for (let i = 0; i < 3; i++) {
+      middleware(mockApiRequest("GET", "/sessions", `Bearer ${NAMED_TOKEN}`), mockResponse(), mock(() => {}) as any);
+      await flush();
+    }
+
+    const updates = calls.filter((c) => c.text.includes("SET last_used_at"));
+    expect(updates).toHaveLength(1);
+    expect(updates[0].values).toEqual(["tok-1"]);
+  });
+
+  test("API_KEY still authenticates (as admin) without touching the database", () => {
+    const { sql, calls } = createMockSql(null);
+    const middleware = createAuthMiddleware(TEST_API_KEY, sql);
+    const req = mockApiRequest("DELETE", "/tokens/tok-1", `Bearer ${TEST_API_KEY}`);
+    const next = mock(() => {}) as any as NextFunction;
+
+    middleware(req, mockResponse(), next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(req.auth?.scopes).toEqual(["admin"]);
+    expect(calls).toHaveLength(0);
+  });
+});
+
+describe("requiredScope", () => {
+  test("reads need read, including the batch-status POST", () => {
+    expect(requiredScope("GET", "/sessions")).toBe("read");
+    expect(requiredScope("GET", "/sessions/abc/transcript")).toBe("read");
+    expect(requiredScope("POST", "/sessions/batch-status")).toBe("read");
+  });
+
+  test("writes need ingest", () => {
+    expect(requiredScope("POST", "/events/ingest")).toBe("ingest");
+    expect(requiredScope("POST", "/sessions/abc/transcript/upload")).toBe("ingest");
+    expect(requiredScope("PATCH", "/sessions/abc")).toBe("ingest");
+    expect(requiredScope("POST", "/backfill/sessions")).toBe("ingest");
+    expect(requiredScope("POST", "/sessions/activity")).toBe("ingest");
+  });
+
+  test("token management, dead letters, webhooks, and pipeline operations need admin", () => {
+    expect(requiredScope("GET", "/tokens")).toBe("admin");
+    expect(requiredScope("GET", "/dead-letters")).toBe("admin");
+    expect(requiredScope("GET", "/webhooks")).toBe("admin");
+    expect(requiredScope("POST", "/webhooks/abc/test")).toBe("admin");
+    expect(requiredScope("POST", "/sessions/archive")).toBe("admin");
+    expect(requiredScope("POST", "/sessions/reprice")).toBe("admin");
+    expect(requiredScope("POST", "/sessions/reap")).toBe("admin");
+    expect(requiredScope("POST", "/sessions/abc/reparse")).toBe("admin");
+    expect(requiredScope("POST", "/sessions/abc/restore")).toBe("admin");
+    expect(requiredScope("POST", "/workspaces/merge")).toBe("admin");
+    expect(requiredScope("POST", "/workspaces/unmerge")).toBe("admin");
+    expect(requiredScope("GET", "/workspaces/merges")).toBe("read");
+    expect(requiredScope("POST", "/git-activity/recorrelate")).toBe("admin");
+  });
+});
@@ -1,66 +1,265 @@
 /**
- * API key authentication middleware for fuel-code.
+ * API token authentication middleware for fuel-code.
  *
- * Validates Bearer tokens from the Authorization header against a configured
- * API key. Uses constant-time comparison (crypto.timingSafeEqual) to prevent
- * timing attacks that could leak the key byte-by-byte.
+ * Validates Bearer tokens from the Authorization header. Two kinds of token
+ * are accepted:
+ *   - The static API_KEY from the environment. It acts as a root admin token
+ *     (it's how the first named token gets created) and is compared in
+ *     constant time (crypto.timingSafeEqual) to avoid leaking it byte-by-byte.
+ *   - Named tokens from the api_tokens table, looked up by SHA-256 hash.
+ *     Revoked and expired tokens are rejected; last_used_at is refreshed at
+ *     most once a minute per token. A token may belong to a user, whose id
+ *     is used to attribute everything ingested with it.
+ *
+ * Each named token carries scopes (read / ingest / admin). requiredScope()
+ * maps a request to the scope it needs; a token without it gets 403. The
+ * resolved identity is attached to the request as `req.auth`.
+ *
+ * The WebSocket server reuses createTokenVerifier() so both transports
+ * accept exactly the same tokens.
  *
  * Usage:
- *   app.use("/api", createAuthMiddleware(process.env.API_KEY));
+ *   app.use("/api", createAuthMiddleware(process.env.API_KEY, sql));
  */
 
-import { timingSafeEqual } from "node:crypto";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
 import type { Request, Response, NextFunction } from "express";
+import type { Sql } from "postgres";
+import type { ApiTokenScope } from "@fuel-code/shared";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Identity of an authenticated request */
+export interface AuthContext {
+  /** api_tokens.id, or null for the static API_KEY */
+  tokenId: string | null;
+  /** Token name ("API_KEY" for the static key) */
+  name: string;
+  /** Scopes granted to the token */
+  scopes: ApiTokenScope[];
+  /** users.id the token belongs to; null for API_KEY and unowned tokens */
+  userId: string | null;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by the auth middleware once the Bearer token is verified */
+      auth?: AuthContext;
+    }
+  }
+}
+
+/** Verifies raw tokens against API_KEY and the api_tokens table */
+export interface TokenVerifier {
+  /** Synchronous check against the static API_KEY only */
+  matchApiKey(token: string): AuthContext | null;
+  /** Full check: API_KEY first, then the api_tokens table (if a DB is configured) */
+  verify(token: string): Promise<AuthContext | null>;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Prefix on generated tokens — makes them recognisable in configs and secret scanners */
+const TOKEN_PREFIX = "fc_";
+
+/** Characters of the plaintext token kept as token_prefix for listings */
+const TOKEN_PREFIX_LENGTH = 10;
+
+/** Minimum gap between last_used_at writes for the same token (ms) */
+const LAST_USED_THROTTLE_MS = 60_000;
+
+/** Identity used for requests authenticated with the static API_KEY */
+const ROOT_AUTH: AuthContext = { tokenId: null, name: "API_KEY", scopes: ["admin"], userId: null };
+
+/**
+ * Requests that need the admin scope: token management, dead letters, and
+ * pipeline operations that rewrite data for a session or the whole database.
+ * Paths are relative to the /api mount point.
+ */
+const ADMIN_ROUTES: Array<{ method: string | null; pattern: RegExp }> = [
+  { method: null, pattern: /^\/tokens(\/|$)/ },
+  { method: null, pattern: /^\/dead-letters(\/|$)/ },
+  { method: null, pattern: /^\/webhooks(\/|$)/ },
+  { method: "POST", pattern: /^\/sessions\/(archive|reprice|reap)$/ },
+  { method: "POST", pattern: /^\/sessions\/[^/]+\/(reparse|reprice|restore)$/ },
+  { method: "POST", pattern: /^\/workspaces\/(merge|unmerge)$/ },
+  { method: "POST", pattern: /^\/git-activity\/recorrelate$/ },
+];
+
+/** POST endpoints that only read data (bodies too large for a query string) */
+const READ_ONLY_POSTS: RegExp[] = [/^\/sessions\/batch-status$/];
+
+// ---------------------------------------------------------------------------
+// Token helpers
+// ---------------------------------------------------------------------------
+
+/** SHA-256 hex digest of a token — the form stored in api_tokens.token_hash */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token, "utf-8").digest("hex");
+}
+
+/**
+ * Generate a new random API token.
+ * Returns the plaintext (shown to the user once) plus what gets stored.
+ */
+export function generateApiToken(): { token: string; hash: string; prefix: string } {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return { token, hash: hashToken(token), prefix: token.slice(0, TOKEN_PREFIX_LENGTH) };
+}
+
+/**
+ * The scope a request needs, based on its method and path (relative to /api).
+ * Reads need "read", writes need "ingest", and the routes in ADMIN_ROUTES
+ * need "admin".
+ */
+export function requiredScope(method: string, path: string): ApiTokenScope {
+  const upper = method.toUpperCase();
+
+  for (const route of ADMIN_ROUTES) {
+    if ((route.method === null || route.method === upper) && route.pattern.test(path)) {
+      return "admin";
+    }
+  }
+
+  if (upper === "GET" || upper === "HEAD" || upper === "OPTIONS") return "read";
+  if (upper === "POST" && READ_ONLY_POSTS.some((p) => p.test(path))) return "read";
+  return "ingest";
+}
+
+/** Whether a set of scopes satisfies the required one (admin implies all) */
+export function hasScope(scopes: readonly ApiTokenScope[], required: ApiTokenScope): boolean {
+  return scopes.includes("admin") || scopes.includes(required);
+}
 
 /**
- * Create an Express middleware that validates Bearer token authentication.
+ * Create a verifier for raw Bearer tokens.
  *
- * @param apiKey - The expected API key to validate against
- * @returns Express request handler that rejects unauthenticated requests with 401
+ * @param apiKey - The static root API key
+ * @param sql - Database client for named tokens; without it only API_KEY is accepted
  */
-export function createAuthMiddleware(
-  apiKey: string,
-): (req: Request, res: Response, next: NextFunction) => void {
+export function createTokenVerifier(apiKey: string, sql?: Sql): TokenVerifier {
   // Pre-encode the API key as a Buffer once (avoids re-encoding on every request)
   const expectedKeyBuffer = Buffer.from(apiKey, "utf-8");
 
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const authHeader = req.headers.authorization;
+  /** token id → epoch ms of the last last_used_at write */
+  const lastTouched = new Map<string, number>();
 
-    // Missing Authorization header entirely
-    if (!authHeader) {
-      res.status(401).json({ error: "Missing or invalid API key" });
-      return;
-    }
+  function matchApiKey(token: string): AuthContext | null {
+    const receivedKeyBuffer = Buffer.from(token, "utf-8");
 
-    // Header must start with "Bearer " prefix (case-sensitive per RFC 6750)
-    if (!authHeader.startsWith("Bearer ")) {
-      res.status(401).json({ error: "Missing or invalid API key" });
-      return;
+    // timingSafeEqual requires equal lengths — a length mismatch is simply a wrong key
+    if (receivedKeyBuffer.length !== expectedKeyBuffer.length) return null;
+
+    // Constant-time comparison prevents timing attacks
+    return timingSafeEqual(receivedKeyBuffer, expectedKeyBuffer) ? ROOT_AUTH : null;
+  }
+
+  async function lookupToken(db: Sql, token: string): Promise<AuthContext | null> {
+    const [row] = await db`
+      SELECT id, name, scopes, user_id
+      FROM api_tokens
+      WHERE token_hash = ${hashToken(token)}
+        AND revoked_at IS NULL
+        AND (expires_at IS NULL OR expires_at > now())
+    `;
+    if (!row) return null;
+
+    // Fire-and-forget: usage tracking must never fail or slow down a request
+    const now = Date.now();
+    if (now - (lastTouched.get(row.id) ?? 0) >= LAST_USED_THROTTLE_MS) {
+      lastTouched.set(row.id, now);
+      db`UPDATE api_tokens SET last_used_at = now() WHERE id = ${row.id}`.then(
+        () => {},
+        () => {},
+      );
     }
 
-    // Extract the token after "Bearer "
-    const token = authHeader.slice(7);
+    return { tokenId: row.id, name: row.name, scopes: row.scopes, userId: row.user_id ?? null };
+  }
 
-    // Encode the received token to compare lengths before timingSafeEqual.
-    // timingSafeEqual requires both buffers to be the same length — if they
-    // differ, we still reject (but can't use timingSafeEqual directly).
-    const receivedKeyBuffer = Buffer.from(token, "utf-8");
+  return {
+    matchApiKey,
+    async verify(token: string): Promise<AuthContext | null> {
+      const root = matchApiKey(token);
+      if (root) return root;
+      if (!sql || !token.startsWith(TOKEN_PREFIX)) return null;
+      return lookupToken(sql, token);
+    },
+  };
+}
 
-    // Length mismatch means wrong key — but we still want constant-time-ish behavior.
-    // We compare against the expected buffer regardless to avoid leaking length info.
-    if (receivedKeyBuffer.length !== expectedKeyBuffer.length) {
+// ---------------------------------------------------------------------------
+// Middleware
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract the token from an Authorization header value.
+ * Returns null unless the header is "Bearer <non-empty token>" (case-sensitive per RFC 6750).
+ */
+export function extractBearerToken(authHeader: string | undefined): string | null {
+  if (!authHeader || !authHeader.startsWith("Bearer ")) return null;
+  const token = authHeader.slice(7);
+  return token.length > 0 ? token : null;
+}
+
+/**
+ * Create an Express middleware that validates Bearer token authentication
+ * and enforces token scopes.
+ *
+ * @param apiKey - The static root API key
+ * @param sql - Database client for named tokens (omit to accept only API_KEY)
+ * @returns Express request handler that rejects unauthenticated requests with
+ *          401 and under-scoped ones with 403
+ */
+export function createAuthMiddleware(
+  apiKey: string,
+  sql?: Sql,
+): (req: Request, res: Response, next: NextFunction) => void {
+  const verifier = createTokenVerifier(apiKey, sql);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const token = extractBearerToken(req.headers.authorization);
+    if (!token) {
       res.status(401).json({ error: "Missing or invalid API key" });
       return;
     }
 
-    // Constant-time comparison prevents timing attacks
-    if (!timingSafeEqual(receivedKeyBuffer, expectedKeyBuffer)) {
+    // Fast path: the root API key is checked synchronously and has every scope
+    const root = verifier.matchApiKey(token);
+    if (root) {
+      req.auth = root;
+      next();
+      return;
+    }
+
+    // Without a database only the API key can match
+    if (!sql) {
       res.status(401).json({ error: "Missing or invalid API key" });
       return;
     }
 
-    // Token is valid — proceed to the next middleware/route handler
-    next();
+    verifier.verify(token).then((auth) => {
+      if (!auth) {
+        res.status(401).json({ error: "Missing or invalid API key" });
+        return;
+      }
+
+      const scope = requiredScope(req.method, req.path);
+      if (!hasScope(auth.scopes, scope)) {
+        res.status(403).json({
+          error: "Insufficient scope",
+          details: `This request requires the "${scope}" scope`,
+        });
+        return;
+      }
+
+      req.auth = auth;
+      next();
+    }, next);
   };
 }
@@ -13,7 +13,7 @@
 
 import { describe, test, expect, mock } from "bun:test";
 import type { Event } from "@fuel-code/shared";
-import type { ProcessResult, EventHandlerRegistry } from "@fuel-code/core";
+import { EventHandlerRegistry, type ProcessResult } from "@fuel-code/core";
 import type { StreamEntry } from "../../redis/stream.js";
 import {
   startConsumer,
@@ -62,6 +62,8 @@ function createDeps(loggerOverride?: any): ConsumerDeps {
     sql: {} as any,
     registry: {
       listRegisteredTypes: () => ["session.start", "session.end"],
+      getHandler: (type: string) =>
+        type === "session.start" ? async function handleSessionStart() {} : undefined,
     } as unknown as EventHandlerRegistry,
     logger: loggerOverride ?? createMockLogger(),
   };
@@ -96,6 +98,7 @@ function createOverrides() {
       handlerResults: [],
     } as ProcessResult),
   );
+  const _recordDeadLetter = mock((_sql: unknown, _event: Event, _failure: unknown) => Promise.resolve());
 
   return {
     ensureConsumerGroup: _ensureConsumerGroup as any,
@@ -103,6 +106,7 @@ function createOverrides() {
     acknowledgeEntry: _acknowledgeEntry as any,
     claimPendingEntries: _claimPendingEntries as any,
     processEvent: _processEvent as any,
+    recordDeadLetter: _recordDeadLetter as any,
     reconnectDelayMs: 30,
     statsIntervalMs: 80,
     // Expose raw mocks for assertions
@@ -111,6 +115,7 @@ function createOverrides() {
     _acknowledgeEntry,
     _claimPendingEntries,
     _processEvent,
+    _recordDeadLetter,
   };
 }
 
@@ -188,6 +193,74 @@ describe("consumer — entry processing", () => {
     const ackCall = (overrides._acknowledgeEntry.mock.calls as any[])[0];
     expect(ackCall[1]).toBe("2000-0");
   });
+
+  test("hands processed events (not duplicates) to the webhook dispatcher", async () => {
+    const fresh = makeMockEvent({ id: "evt-new" });
+    const dup = makeMockEvent({ id: "evt-dup" });
+    const overrides = createOverrides();
+    let callCount = 0;
+
+    overrides._readFromStream.mockImplementation(() => {
+      callCount++;
+      if (callCount === 1) {
+        return delayedResolve([
+          { streamId: "3000-0", event: fresh },
+          { streamId: "3001-0", event: dup },
+        ] as StreamEntry[]);
+      }
+      return delayedResolve([] as StreamEntry[]);
+    });
+
+    overrides._processEvent.mockImplementation((_sql: unknown, event: Event) =>
+      Promise.resolve({
+        eventId: event.id,
+        workspaceId: "01JWORKSPACEULID0000000000",
+        status: event.id === "evt-dup" ? ("duplicate" as const) : ("processed" as const),
+        handlerResults: [],
+      }),
+    );
+
+    const eventProcessed = mock((_event: Event, _workspaceId: string) => {});
+    const deps = { ...createDeps(), webhooks: { eventProcessed } as any };
+    const consumer = startConsumer(deps, overrides);
+
+    await sleep(200);
+    await consumer.stop();
+
+    expect(eventProcessed).toHaveBeenCalledTimes(1);
+    expect((eventProcessed.mock.calls as any[])[0][0]).toEqual(fresh);
+    // The resolved workspace ULID, not the event's canonical workspace string
+    expect((eventProcessed.mock.calls as any[])[0][1]).toBe("01JWORKSPACEULID0000000000");
+  });
+
+  test("broadcasts processed events keyed by the resolved workspace ULID", async () => {
+    const event = makeMockEvent({ id: "evt-live", type: "git.commit", workspace_id: "github.com/acme/api" });
+    const overrides = createOverrides();
+    let callCount = 0;
+
+    overrides._readFromStream.mockImplementation(() => {
+      callCount++;
+      return delayedResolve(callCount === 1 ? [{ streamId: "3100-0", event }] : ([] as StreamEntry[]));
+    });
+    overrides._processEvent.mockImplementation(() =>
+      Promise.resolve({
+        eventId: "evt-live",
+        workspaceId: "01JWORKSPACEULID0000000000",
+        status: "processed" as const,
+        handlerResults: [],
+      }),
+    );
+
+    const broadcastEvent = mock((_event: Event, _workspaceId?: string) => {});
+    const deps = { ...createDeps(), broadcaster: { broadcastEvent } as any };
+    const consumer = startConsumer(deps, overrides);
+
+    await sleep(200);
+    await consumer.stop();
+
+    expect(broadcastEvent).toHaveBeenCalledTimes(1);
+    expect((broadcastEvent.mock.calls as any[])[0]).toEqual([event, "01JWORKSPACEULID0000000000"]);
+  });
 });
 
 describe("consumer — retry and dead-letter", () => {
@@ -231,6 +304,68 @@ describe("consumer — retry and dead-letter", () => {
     expect(permanentFailLog).toBeDefined();
   });
 
+  test("persists the dead-lettered event with failure context before acknowledging", async () => {
+    const event = makeMockEvent({ id: "evt-dead" });
+    const overrides = createOverrides();
+    let readCount = 0;
+
+    overrides._readFromStream.mockImplementation(() => {
+      readCount++;
+      if (readCount <= 3) {
+        return delayedResolve([{ streamId: "3500-0", event }] as StreamEntry[]);
+      }
+      return delayedResolve([] as StreamEntry[]);
+    });
+    overrides._processEvent.mockImplementation(() =>
+      Promise.reject(new Error("workspace resolve failed")),
+    );
+
+    const consumer = startConsumer(createDeps(), overrides);
+    await sleep(400);
+    await consumer.stop();
+
+    expect(overrides._recordDeadLetter).toHaveBeenCalledTimes(1);
+    const [, dlEvent, failure] = overrides._recordDeadLetter.mock.calls[0];
+    expect(dlEvent.id).toBe("evt-dead");
+    expect(failure).toEqual({
+      streamId: "3500-0",
+      attempts: 3,
+      error: "workspace resolve failed",
+      // No handler ran, so none is blamed
+      handlerName: null,
+    });
+    expect(overrides._acknowledgeEntry).toHaveBeenCalledWith(expect.anything(), "3500-0");
+  });
+
+  test("leaves the entry un-acked when the dead letter cannot be persisted", async () => {
+    const event = makeMockEvent({ id: "evt-dead-db-down", type: "git.commit" });
+    const overrides = createOverrides();
+    let readCount = 0;
+
+    overrides._readFromStream.mockImplementation(() => {
+      readCount++;
+      if (readCount <= 3) {
+        return delayedResolve([{ streamId: "3600-0", event }] as StreamEntry[]);
+      }
+      return delayedResolve([] as StreamEntry[]);
+    });
+    overrides._processEvent.mockImplementation(() => Promise.reject(new Error("db down")));
+    overrides._recordDeadLetter.mockImplementation(() => Promise.reject(new Error("db down")));
+
+    const logger = createMockLogger();
+    const consumer = startConsumer(createDeps(logger), overrides);
+    await sleep(400);
+    await consumer.stop();
+
+    expect(overrides._recordDeadLetter).toHaveBeenCalled();
+    expect(overrides._recordDeadLetter.mock.calls[0][2]).toMatchObject({ handlerName: null });
+    expect(overrides._acknowledgeEntry).not.toHaveBeenCalled();
+    const persistFailLog = logger.error.mock.calls.find(
+      (call: any[]) => typeof call[1] === "string" && call[1].includes("Failed to persist dead letter"),
+    );
+    expect(persistFailLog).toBeDefined();
+  });
+
   test("failed entries are NOT acknowledged before reaching max retries", async () => {
     const event = makeMockEvent({ id: "evt-retry" });
     const overrides = createOverrides();
@@ -262,6 +397,68 @@ describe("consumer — retry and dead-letter", () => {
     // Should have logged a warning about the transient failure
     expect(logger.warn).toHaveBeenCalled();
   });
+
+  test("a failing handler is retried, dead-lettered, and re-run by a replay", async () => {
+    // Real processEvent over a fake database: resolution queries return an
+    // id, and the events INSERT dedupes by event ID like ON CONFLICT does
+    const inserted = new Set<string>();
+    const sql: any = async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      if (strings.join("$").includes("INSERT INTO events")) {
+        const id = values[0] as string;
+        if (inserted.has(id)) return [];
+        inserted.add(id);
+      }
+      return [{ id: "row-1" }];
+    };
+
+    let broken = true;
+    let handled = 0;
+    const registry = new EventHandlerRegistry();
+    registry.register("session.start", async function handleSessionStart() {
+      if (broken) throw new Error("handler bug");
+      handled++;
+    });
+
+    const makeEntry = (streamId: string, replay?: boolean): StreamEntry => ({
+      streamId,
+      replay,
+      event: makeMockEvent({
+        id: "evt-handler-bug",
+        data: {
+          cc_session_id: "cc-1", cwd: "/test", git_branch: null, git_remote: null,
+          cc_version: null, model: null, source: "startup", transcript_path: "",
+        },
+      }),
+    });
+
+    const overrides = createOverrides();
+    delete (overrides as ConsumerOverrides).processEvent;
+    let readCount = 0;
+    overrides._readFromStream.mockImplementation(() => {
+      readCount++;
+      if (readCount <= 3) return delayedResolve([makeEntry("7000-0")]);
+      if (readCount === 4) {
+        // The handler bug is fixed and the dead letter replayed
+        broken = false;
+        return delayedResolve([makeEntry("7001-0", true)]);
+      }
+      return delayedResolve([] as StreamEntry[]);
+    });
+
+    const consumer = startConsumer({ ...createDeps(), sql, registry }, overrides);
+    await sleep(400);
+    await consumer.stop();
+
+    expect(overrides._recordDeadLetter).toHaveBeenCalledTimes(1);
+    expect(overrides._recordDeadLetter.mock.calls[0][2]).toEqual({
+      streamId: "7000-0",
+      attempts: 3,
+      error: "handler bug",
+      handlerName: "handleSessionStart",
+    });
+    expect(handled).toBe(1);
+    expect(overrides._acknowledgeEntry).toHaveBeenCalledWith(expect.anything(), "7001-0");
+  });
 });
 
 describe("consumer — stop()", () => {
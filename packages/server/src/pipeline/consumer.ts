@@ -3,7 +3,8 @@
  *
  * Reads events from the Redis Stream (via the consumer group) and dispatches
  * each one to the event processor. Handles retries, dead-lettering after 3
- * failures, pending entry reclamation on startup, and graceful shutdown.
+ * failures (persisted to dead_letter_events for later replay), pending entry
+ * reclamation on startup, and graceful shutdown.
  *
  * The consumer is started once during server boot and runs until stop() is
  * called (SIGTERM/SIGINT). It never crashes the process — all errors are
@@ -15,10 +16,20 @@
 import type Redis from "ioredis";
 import type { Sql } from "postgres";
 import type { Logger } from "pino";
-import type { EventHandlerRegistry, ProcessResult, PipelineDeps } from "@fuel-code/core";
+import type {
+  EventHandlerRegistry,
+  ProcessEventOptions,
+  ProcessResult,
+  PipelineDeps,
+  WebhookDispatcher,
+} from "@fuel-code/core";
 import type { Event } from "@fuel-code/shared";
-import { processEvent as processEventImpl } from "@fuel-code/core";
+import { processEvent as processEventImpl, metrics } from "@fuel-code/core";
 import type { WsBroadcaster } from "../ws/broadcaster.js";
+import {
+  recordDeadLetter as recordDeadLetterImpl,
+  type DeadLetterFailure,
+} from "./dead-letter.js";
 
 import {
   ensureConsumerGroup as ensureConsumerGroupImpl,
@@ -46,6 +57,8 @@ export interface ConsumerDeps {
   pipelineDeps?: PipelineDeps;
   /** Optional WebSocket broadcaster — when provided, broadcasts events after successful processing */
   broadcaster?: WsBroadcaster;
+  /** Optional webhook dispatcher — when provided, queues deliveries for newly processed events */
+  webhooks?: WebhookDispatcher;
 }
 
 /**
@@ -58,7 +71,15 @@ export interface ConsumerOverrides {
   readFromStream?: (redis: Redis, count: number, blockMs: number) => Promise<StreamEntry[]>;
   acknowledgeEntry?: (redis: Redis, streamId: string) => Promise<void>;
   claimPendingEntries?: (redis: Redis, minIdleMs: number, count: number) => Promise<StreamEntry[]>;
-  processEvent?: (sql: Sql, event: Event, registry: EventHandlerRegistry, logger: Logger, pipelineDeps?: PipelineDeps) => Promise<ProcessResult>;
+  processEvent?: (
+    sql: Sql,
+    event: Event,
+    registry: EventHandlerRegistry,
+    logger: Logger,
+    pipelineDeps?: PipelineDeps,
+    options?: ProcessEventOptions,
+  ) => Promise<ProcessResult>;
+  recordDeadLetter?: (sql: Sql, event: Event, failure: DeadLetterFailure) => Promise<void>;
   /** Override the reconnect delay (ms) for faster tests */
   reconnectDelayMs?: number;
   /** Override the stats interval (ms) for faster tests */
@@ -99,6 +120,15 @@ const DEFAULT_STATS_INTERVAL_MS = 60_000;
 /** Maximum time to wait for the loop to exit after stop() is called (ms) */
 const STOP_TIMEOUT_MS = 10_000;
 
+/**
+ * Stream entries handled by the consumer, by event type and status:
+ * processed, duplicate, error (will be retried) or dead_lettered
+ */
+const consumedEvents = metrics.counter(
+  "fuel_code_consumer_events_total",
+  "Stream entries handled by the event consumer, by event type and status",
+);
+
 // ---------------------------------------------------------------------------
 // Consumer implementation
 // ---------------------------------------------------------------------------
@@ -115,7 +145,8 @@ const STOP_TIMEOUT_MS = 10_000;
  *   - Reads up to 10 new entries, blocking 5s if none available
  *   - Processes each entry via processEvent
  *   - Acknowledges on success or duplicate
- *   - Retries failures up to 3 times, then dead-letters (ack + error log)
+ *   - Retries failures (including a failed handler) up to 3 times, then
+ *     dead-letters (persist + ack)
  *   - Logs stats every 60 seconds
  *
  * @param deps - Injected dependencies (redis, sql, registry, logger)
@@ -126,7 +157,7 @@ export function startConsumer(
   deps: ConsumerDeps,
   overrides?: ConsumerOverrides,
 ): ConsumerHandle {
-  const { redis, sql, registry, logger, pipelineDeps, broadcaster } = deps;
+  const { redis, sql, registry, logger, pipelineDeps, broadcaster, webhooks } = deps;
 
   // Resolve function implementations — use overrides for testing, defaults for production
   const ensureGroup = overrides?.ensureConsumerGroup ?? ensureConsumerGroupImpl;
@@ -134,6 +165,7 @@ export function startConsumer(
   const ackEntry = overrides?.acknowledgeEntry ?? acknowledgeEntryImpl;
   const claimPending = overrides?.claimPendingEntries ?? claimPendingEntriesImpl;
   const processEvt = overrides?.processEvent ?? processEventImpl;
+  const recordDeadLetter = overrides?.recordDeadLetter ?? recordDeadLetterImpl;
   const reconnectDelayMs = overrides?.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS;
   const statsIntervalMs = overrides?.statsIntervalMs ?? DEFAULT_STATS_INTERVAL_MS;
 
@@ -158,18 +190,39 @@ export function startConsumer(
    * @param entry - The stream entry containing a deserialized Event
    */
   async function handleEntry(entry: StreamEntry): Promise<void> {
+    // Name of the handler that failed, if that's what failed (null when
+    // resolution or the insert threw and no handler ran)
+    let handlerName: string | null = null;
+
     try {
-      const result = await processEvt(sql, entry.event, registry, logger, pipelineDeps);
+      // Retries and replays re-run the handler: the event row was inserted
+      // by the attempt whose handler failed, so it would dedupe otherwise
+      const result = await processEvt(sql, entry.event, registry, logger, pipelineDeps, {
+        redispatch: entry.replay || failureCounts.has(entry.streamId),
+      });
+
+      const handlerFailure = result.handlerResults.find((r) => !r.success);
+      if (handlerFailure) {
+        handlerName = registry.getHandler(entry.event.type)?.name || handlerFailure.type;
+        throw new Error(handlerFailure.error ?? `Handler for ${handlerFailure.type} failed`);
+      }
 
       if (result.status === "duplicate") {
         statsDuplicates++;
+        consumedEvents.inc({ event_type: entry.event.type, status: "duplicate" });
       } else {
         statsProcessed++;
+        consumedEvents.inc({ event_type: entry.event.type, status: "processed" });
+
+        // Queue webhook deliveries. Fire-and-forget, like the broadcasts below;
+        // duplicates are skipped so a replayed event is not delivered twice.
+        webhooks?.eventProcessed(entry.event, result.workspaceId);
 
         // Broadcast newly processed events to subscribed WebSocket clients.
         // Non-blocking — broadcastEvent is fire-and-forget with internal error handling.
         if (broadcaster) {
-          broadcaster.broadcastEvent(entry.event);
+          // Keyed by the resolved workspace ULID, like every workspace filter
+          broadcaster.broadcastEvent(entry.event, result.workspaceId);
 
           // Broadcast session lifecycle transitions for event types that cause them.
           // session.start -> lifecycle "detected", session.end -> lifecycle "ended".
@@ -182,6 +235,17 @@ export function startConsumer(
             }
           }
 
+          // Broadcast live prompts so TUI/CLI watchers see what's being worked on.
+          // Hook events carry the CC session ID in data (event.session_id is null).
+          if (eventType === "session.prompt" && workspace_id) {
+            broadcaster.broadcastSessionPrompt(
+              (eventData.cc_session_id as string) ?? session_id ?? "",
+              workspace_id,
+              eventData.prompt as string,
+              entry.event.timestamp,
+            );
+          }
+
           // Broadcast sub-agent status changes when agents start or stop.
           if (eventType === "subagent.start" && workspace_id) {
             broadcaster.broadcastSubagentUpdate(
@@ -225,6 +289,7 @@ export function startConsumer(
       failureCounts.delete(entry.streamId);
     } catch (err) {
       statsErrors++;
+      consumedEvents.inc({ event_type: entry.event.type, status: "error" });
 
       const currentFailures = (failureCounts.get(entry.streamId) ?? 0) + 1;
       failureCounts.set(entry.streamId, currentFailures);
@@ -232,7 +297,29 @@ export function startConsumer(
       const errorMsg = err instanceof Error ? err.message : String(err);
 
       if (currentFailures >= MAX_RETRIES) {
-        // Dead-letter: ack to prevent infinite retry, log permanent failure
+        // Dead-letter: persist the event for later replay, then ack to
+        // prevent infinite retry. If persistence itself fails, leave the
+        // entry un-acked so it is reclaimed on the next startup rather
+        // than lost.
+        try {
+          await recordDeadLetter(sql, entry.event, {
+            streamId: entry.streamId,
+            attempts: currentFailures,
+            error: errorMsg,
+            handlerName,
+          });
+        } catch (dlErr) {
+          logger.error(
+            {
+              eventId: entry.event.id,
+              streamId: entry.streamId,
+              error: dlErr instanceof Error ? dlErr.message : String(dlErr),
+            },
+            `Failed to persist dead letter for event ${entry.event.id} — leaving entry pending`,
+          );
+          return;
+        }
+
         logger.error(
           {
             eventId: entry.event.id,
@@ -240,9 +327,11 @@ export function startConsumer(
             streamId: entry.streamId,
             attempts: currentFailures,
             error: errorMsg,
+            handlerName,
           },
-          `Event ${entry.event.id} permanently failed after ${MAX_RETRIES} attempts: ${errorMsg}`,
+          `Event ${entry.event.id} permanently failed after ${MAX_RETRIES} attempts (dead-lettered): ${errorMsg}`,
         );
+        consumedEvents.inc({ event_type: entry.event.type, status: "dead_lettered" });
         await ackEntry(redis, entry.streamId);
         failureCounts.delete(entry.streamId);
       } else {
@@ -0,0 +1,64 @@
+/**
+ * Server-side dead-letter persistence for the event consumer.
+ *
+ * When an event fails processing MAX_RETRIES times, the consumer records it
+ * here before ACKing the stream entry, so the event survives for inspection
+ * and replay via /api/dead-letters instead of being dropped.
+ *
+ * Recording is an upsert on event_id: a replayed event that fails again
+ * updates its existing row (attempts, last_error, stream_id) and resets the
+ * status to 'pending' rather than creating a second row.
+ */
+
+import type { Sql } from "postgres";
+import type { Event } from "@fuel-code/shared";
+import { generateId } from "@fuel-code/shared";
+
+/** Failure context captured alongside the original event */
+export interface DeadLetterFailure {
+  /** Redis Stream entry ID of the failed delivery */
+  streamId: string;
+  /** Number of processing attempts made */
+  attempts: number;
+  /** Error message from the final attempt */
+  error: string;
+  /** Name of the handler that failed (null if the failure came before dispatch) */
+  handlerName: string | null;
+}
+
+/**
+ * Persist a permanently failed event to dead_letter_events.
+ * Throws if the insert fails — the caller decides whether to ACK.
+ *
+ * @param sql   - postgres.js tagged template client
+ * @param event - The original event as read from the stream
+ * @param failure - Stream ID, attempt count, last error, and handler name
+ */
+export async function recordDeadLetter(
+  sql: Sql,
+  event: Event,
+  failure: DeadLetterFailure,
+): Promise<void> {
+  await sql`
+    INSERT INTO dead_letter_events (
+      id, event_id, event_type, event, stream_id, attempts, last_error, handler_name
+    ) VALUES (
+      ${generateId()},
+      ${event.id},
+      ${event.type},
+      ${JSON.stringify(event)}::jsonb,
+      ${failure.streamId},
+      ${failure.attempts},
+      ${failure.error},
+      ${failure.handlerName}
+    )
+    ON CONFLICT (event_id) DO UPDATE SET
+      event          = EXCLUDED.event,
+      stream_id      = EXCLUDED.stream_id,
+      attempts       = dead_letter_events.attempts + EXCLUDED.attempts,
+      last_error     = EXCLUDED.last_error,
+      handler_name   = EXCLUDED.handler_name,
+      status         = 'pending',
+      last_failed_at = now()
+  `;
+}
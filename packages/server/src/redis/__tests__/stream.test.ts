@@ -9,6 +9,7 @@
  *   - publishToStream wraps errors in StorageError
  *   - publishBatchToStream handles empty input gracefully
  *   - ensureConsumerGroup silently ignores BUSYGROUP errors
+ *   - getStreamStats parses XINFO GROUPS replies
  */
 
 import { describe, test, expect, mock } from "bun:test";
@@ -27,6 +28,7 @@ import {
   readFromStream,
   acknowledgeEntry,
   claimPendingEntries,
+  getStreamStats,
 } from "../stream.js";
 import { checkRedisHealth } from "../client.js";
 import type { StreamEntry, BatchPublishResult } from "../stream.js";
@@ -324,6 +326,45 @@ describe("readFromStream — edge cases", () => {
   });
 });
 
+describe("getStreamStats", () => {
+  test("reads length, pending and lag for the consumer group", async () => {
+    const mockRedis = {
+      xlen: mock(() => Promise.resolve(42)),
+      xinfo: mock(() =>
+        Promise.resolve([
+          ["name", "other-group", "consumers", 1, "pending", 9, "lag", 9],
+          ["name", CONSUMER_GROUP, "consumers", 2, "pending", 3, "last-delivered-id", "1-0", "lag", 7],
+        ]),
+      ),
+    } as unknown as import("ioredis").default;
+
+    expect(await getStreamStats(mockRedis)).toEqual({ length: 42, pending: 3, lag: 7 });
+  });
+
+  test("reports lag as null when Redis does not know it", async () => {
+    const mockRedis = {
+      xlen: mock(() => Promise.resolve(5)),
+      xinfo: mock(() => Promise.resolve([["name", CONSUMER_GROUP, "pending", 0, "lag", null]])),
+    } as unknown as import("ioredis").default;
+
+    expect(await getStreamStats(mockRedis)).toEqual({ length: 5, pending: 0, lag: null });
+  });
+
+  test("wraps errors in StorageError", async () => {
+    const mockRedis = {
+      xlen: mock(() => Promise.reject(new Error("connection lost"))),
+    } as unknown as import("ioredis").default;
+
+    try {
+      await getStreamStats(mockRedis);
+      expect(true).toBe(false);
+    } catch (err) {
+      expect(err).toBeInstanceOf(StorageError);
+      expect((err as StorageError).code).toBe("STORAGE_REDIS_XINFO");
+    }
+  });
+});
+
 describe("checkRedisHealth — mock tests", () => {
   test("returns ok:true when PING responds with PONG", async () => {
     const mockRedis = {
@@ -19,5 +19,6 @@ export {
   readFromStream,
   acknowledgeEntry,
   claimPendingEntries,
+  getStreamStats,
 } from "./stream.js";
-export type { StreamEntry, BatchPublishResult } from "./stream.js";
+export type { StreamEntry, BatchPublishResult, StreamStats } from "./stream.js";
@@ -10,6 +10,7 @@
  *   - Consumer group reads (XREADGROUP with blocking)
  *   - Acknowledgement (XACK)
  *   - Pending entry reclamation (XAUTOCLAIM with XPENDING+XCLAIM fallback)
+ *   - Backlog stats for metrics (XLEN + XINFO GROUPS)
  *
  * All functions take a Redis instance as the first argument so they're
  * testable with mocks and don't hold module-level state.
@@ -47,6 +48,8 @@ export interface StreamEntry {
   streamId: string;
   /** The deserialized Event object stored in this entry */
   event: Event;
+  /** Set when the entry is a dead-letter replay (see publishToStream) */
+  replay?: boolean;
 }
 
 /** Result of a batch publish operation — reports per-event success/failure */
@@ -57,6 +60,19 @@ export interface BatchPublishResult {
   failed: Array<{ eventId: string; error: string }>;
 }
 
+/** Backlog of the events stream, as seen by the consumer group */
+export interface StreamStats {
+  /** Entries currently in the stream (XLEN) */
+  length: number;
+  /** Entries delivered to a consumer but not yet acknowledged */
+  pending: number;
+  /**
+   * Entries not yet delivered to the group. Null when Redis can't tell
+   * (before Redis 7, or after entries were trimmed) or the group is missing.
+   */
+  lag: number | null;
+}
+
 // ---------------------------------------------------------------------------
 // Consumer Group Setup
 // ---------------------------------------------------------------------------
@@ -109,6 +125,7 @@ function serializeEvent(event: Event): string[] {
     "data", JSON.stringify(event.data),
     "ingested_at", event.ingested_at ?? "",
     "blob_refs", JSON.stringify(event.blob_refs),
+    "user_id", event.user_id ?? "",
   ];
 }
 
@@ -129,6 +146,7 @@ function deserializeEvent(fields: Record<string, string>): Event {
     data: JSON.parse(fields.data || "{}"),
     ingested_at: fields.ingested_at || null,
     blob_refs: JSON.parse(fields.blob_refs || "[]"),
+    user_id: fields.user_id || null,
   };
 }
 
@@ -140,18 +158,22 @@ function deserializeEvent(fields: Record<string, string>): Event {
  *
  * @param redis - An ioredis client instance
  * @param event - The Event to publish
+ * @param options - replay: mark the entry as a dead-letter replay, so the
+ *   consumer re-runs the handler even though the event row already exists
  * @returns The Redis Stream entry ID assigned to this event
  * @throws StorageError if the XADD command fails
  */
 export async function publishToStream(
   redis: Redis,
   event: Event,
+  options: { replay?: boolean } = {},
 ): Promise<string> {
   try {
     const streamId = await redis.xadd(
       EVENTS_STREAM,
       "*",
       ...serializeEvent(event),
+      ...(options.replay ? ["replay", "1"] : []),
     );
     return streamId!;
   } catch (err: unknown) {
@@ -242,7 +264,9 @@ function parseStreamEntries(
     for (let i = 0; i < flatFields.length; i += 2) {
       fields[flatFields[i]] = flatFields[i + 1];
     }
-    return { streamId, event: deserializeEvent(fields) };
+    const entry: StreamEntry = { streamId, event: deserializeEvent(fields) };
+    if (fields.replay === "1") entry.replay = true;
+    return entry;
   });
 }
 
@@ -449,3 +473,46 @@ async function claimWithXpendingXclaim(
   // XCLAIM returns entries in the same format as XRANGE
   return parseStreamEntries(claimed as Array<[string, string[]]>);
 }
+
+// ---------------------------------------------------------------------------
+// Stream Stats
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the stream length and the consumer group's pending count and lag.
+ *
+ * XINFO GROUPS replies with one flat [field, value, ...] array per group;
+ * "lag" is only reported by Redis 7+ and is nil when it can't be computed.
+ *
+ * @param redis - An ioredis client instance
+ * @returns Stream length, pending entries and lag for CONSUMER_GROUP
+ */
+export async function getStreamStats(redis: Redis): Promise<StreamStats> {
+  try {
+    const length = await redis.xlen(EVENTS_STREAM);
+    const groups = (await redis.xinfo("GROUPS", EVENTS_STREAM)) as unknown[][];
+
+    for (const group of groups ?? []) {
+      const fields: Record<string, unknown> = {};
+      for (let i = 0; i + 1 < group.length; i += 2) {
+        fields[String(group[i])] = group[i + 1];
+      }
+      if (fields.name !== CONSUMER_GROUP) continue;
+
+      return {
+        length,
+        pending: Number(fields.pending ?? 0),
+        lag: fields.lag === null || fields.lag === undefined ? null : Number(fields.lag),
+      };
+    }
+
+    return { length, pending: 0, lag: null };
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new StorageError(
+      "Failed to read stream stats",
+      "STORAGE_REDIS_XINFO",
+      { stream: EVENTS_STREAM, group: CONSUMER_GROUP, error: message },
+    );
+  }
+}
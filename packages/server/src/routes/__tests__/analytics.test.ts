@@ -0,0 +1,298 @@
+/**
+ * Integration tests for the GET /api/analytics/usage endpoint.
+ *
+ * Uses a real Express app with a fragment-aware mock SQL (same approach as
+ * timeline.test.ts): composed fragments are merged into the outer query text
+ * so the handler can see which table and grouping a query used.
+ *
+ * Test coverage:
+ *   1. Day buckets read the daily_usage rollup; numeric strings become numbers
+ *   2. Totals sum the rows and recompute the cache hit ratio
+ *   3. Hour buckets and tag grouping aggregate sessions directly
+ *   4. group_by selects the grouping key and label
+ *   5. workspace_id filter is applied
+ *   6. from is aligned to the bucket start
+ *   7. Validation: bad bucket, bad group_by, from >= to, too many buckets
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import type { Server } from "node:http";
+import express from "express";
+import { logger } from "../../logger.js";
+import { createAuthMiddleware } from "../../middleware/auth.js";
+import { errorHandler } from "../../middleware/error-handler.js";
+import { createAnalyticsRouter, alignToBucket } from "../analytics.js";
+
+// ---------------------------------------------------------------------------
+// Test constants
+// ---------------------------------------------------------------------------
+
+const TEST_API_KEY = "fc_test_key_for_analytics";
+const AUTH_HEADER = `Bearer ${TEST_API_KEY}`;
+
+/** Aggregate rows as postgres.js returns them: bigint/numeric as strings */
+const ROLLUP_ROWS = [
+  {
+    bucket_start: new Date("2025-01-14T00:00:00.000Z"),
+    group_key: null,
+    group_label: null,
+    sessions: "2",
+    duration_ms: "7200000",
+    tokens_in: "1000",
+    tokens_out: "500",
+    cache_read_tokens: "3000",
+    cache_write_tokens: "1000",
+    cost_usd: "1.250000",
+    commits: "3",
+  },
+  {
+    bucket_start: new Date("2025-01-15T00:00:00.000Z"),
+    group_key: null,
+    group_label: null,
+    sessions: "1",
+    duration_ms: "1800000",
+    tokens_in: "0",
+    tokens_out: "0",
+    cache_read_tokens: "0",
+    cache_write_tokens: "0",
+    cost_usd: "0.000000",
+    commits: "0",
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Mock SQL factory
+// ---------------------------------------------------------------------------
+
+type QueryHandler = (queryText: string, values: unknown[]) => unknown[];
+
+/**
+ * Build a mock postgres.js sql function. Templates without a statement
+ * keyword are fragments; their text and values are merged into the query
+ * that embeds them before the handler sees it.
+ */
+function buildMockSql(queryHandler: QueryHandler) {
+  const FRAGMENT_MARKER = Symbol("sql-fragment");
+
+  interface SqlFragment {
+    [key: symbol]: true;
+    text: string;
+    values: unknown[];
+  }
+
+  function isFragment(val: unknown): val is SqlFragment {
+    return typeof val === "object" && val !== null && FRAGMENT_MARKER in val;
+  }
+
+  function sqlTaggedTemplate(strings: TemplateStringsArray, ...values: unknown[]): unknown {
+    const rawText = strings.join("$");
+    const allValues: unknown[] = [];
+    let fullText = rawText;
+
+    for (const v of values) {
+      if (isFragment(v)) {
+        fullText += " " + v.text;
+        allValues.push(...v.values);
+      } else {
+        allValues.push(v);
+      }
+    }
+
+    if (!/SELECT|UPDATE|INSERT|DELETE/i.test(rawText)) {
+      const fragment: SqlFragment = { [FRAGMENT_MARKER]: true, text: fullText, values: allValues };
+      return fragment;
+    }
+
+    return Promise.resolve(queryHandler(fullText, allValues));
+  }
+
+  return new Proxy(sqlTaggedTemplate, {
+    apply(_target, _thisArg, args) {
+      if (args[0] && Array.isArray(args[0]) && "raw" in args[0]) {
+        return sqlTaggedTemplate(args[0] as TemplateStringsArray, ...args.slice(1));
+      }
+      return args[0];
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Test app / server helpers
+// ---------------------------------------------------------------------------
+
+function buildTestApp(queryHandler: QueryHandler) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use("/api", createAuthMiddleware(TEST_API_KEY));
+  app.use("/api", createAnalyticsRouter({ sql: buildMockSql(queryHandler) as any, logger }));
+  app.use(errorHandler);
+  return app;
+}
+
+let server: Server;
+let baseUrl: string;
+let queries: Array<{ text: string; values: unknown[] }> = [];
+
+beforeAll(async () => {
+  // Record every query and answer with the canned rollup rows
+  const app = buildTestApp((text, values) => {
+    queries.push({ text, values });
+    return ROLLUP_ROWS;
+  });
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, () => {
+      const addr = server.address();
+      if (addr && typeof addr === "object") {
+        baseUrl = `http://127.0.0.1:${addr.port}`;
+      }
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+  });
+});
+
+/** GET with auth, resetting the recorded query log first */
+async function get(path: string) {
+  queries = [];
+  return fetch(`${baseUrl}${path}`, { headers: { Authorization: AUTH_HEADER } });
+}
+
+const RANGE = "from=2025-01-14T00:00:00Z&to=2025-01-16T00:00:00Z";
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe("GET /api/analytics/usage — rollup path", () => {
+  test("day buckets read daily_usage and convert numeric strings", async () => {
+    const res = await get(`/api/analytics/usage?bucket=day&${RANGE}`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0].text).toContain("FROM daily_usage du");
+    expect(queries[0].values).toContain("2025-01-14");
+    expect(queries[0].values).toContain("2025-01-15");
+
+    expect(body.bucket).toBe("day");
+    expect(body.group_by).toBeNull();
+    expect(body.from).toBe("2025-01-14T00:00:00.000Z");
+    expect(body.rows).toHaveLength(2);
+    expect(body.rows[0]).toEqual({
+      bucket_start: "2025-01-14T00:00:00.000Z",
+      group_key: null,
+      group_label: null,
+      sessions: 2,
+      duration_ms: 7200000,
+      tokens_in: 1000,
+      tokens_out: 500,
+      cache_read_tokens: 3000,
+      cache_write_tokens: 1000,
+      cache_hit_ratio: 0.6,
+      cost_usd: 1.25,
+      commits: 3,
+    });
+    // No input tokens at all → ratio is undefined rather than 0
+    expect(body.rows[1].cache_hit_ratio).toBeNull();
+  });
+
+  test("totals sum the rows and recompute the cache hit ratio", async () => {
+    const res = await get(`/api/analytics/usage?${RANGE}`);
+    const body = await res.json();
+
+    expect(body.totals.sessions).toBe(3);
+    expect(body.totals.duration_ms).toBe(9000000);
+    expect(body.totals.cost_usd).toBe(1.25);
+    expect(body.totals.commits).toBe(3);
+    expect(body.totals.cache_hit_ratio).toBe(0.6);
+  });
+
+  test("group_by=workspace groups by workspace id with its display name", async () => {
+    await get(`/api/analytics/usage?bucket=week&group_by=workspace&${RANGE}`);
+    expect(queries[0].text).toContain("FROM daily_usage du");
+    expect(queries[0].text).toContain("du.workspace_id");
+    expect(queries[0].text).toContain("w.display_name");
+    expect(queries[0].values).toContain("week");
+  });
+
+  test("workspace_id filter is applied", async () => {
+    await get(`/api/analytics/usage?workspace_id=ws-01&${RANGE}`);
+    expect(queries[0].text).toContain("AND du.workspace_id =");
+    expect(queries[0].values).toContain("ws-01");
+  });
+});
+
+describe("GET /api/analytics/usage — live path", () => {
+  test("hour buckets aggregate sessions directly", async () => {
+    const res = await get(
+      "/api/analytics/usage?bucket=hour&from=2025-01-15T00:00:00Z&to=2025-01-15T06:00:00Z",
+    );
+    expect(res.status).toBe(200);
+    expect(queries[0].text).toContain("FROM sessions s");
+    expect(queries[0].text).not.toContain("daily_usage");
+    expect(queries[0].values).toContain("2025-01-15T06:00:00.000Z");
+  });
+
+  test("group_by=tag unnests session tags even for day buckets", async () => {
+    const res = await get(`/api/analytics/usage?bucket=day&group_by=tag&${RANGE}`);
+    expect(res.status).toBe(200);
+    expect(queries[0].text).toContain("FROM sessions s");
+    expect(queries[0].text).toContain("unnest(s.tags)");
+    expect((await res.json()).group_by).toBe("tag");
+  });
+});
+
+describe("GET /api/analytics/usage — range handling", () => {
+  test("from is rounded down to the start of its bucket", async () => {
+    const res = await get(
+      "/api/analytics/usage?bucket=day&from=2025-01-14T15:30:00Z&to=2025-01-16T00:00:00Z",
+    );
+    expect((await res.json()).from).toBe("2025-01-14T00:00:00.000Z");
+  });
+
+  test("alignToBucket starts weeks on Monday (UTC)", () => {
+    // 2025-01-16 is a Thursday
+    const aligned = alignToBucket(new Date("2025-01-16T10:00:00Z"), "week");
+    expect(aligned.toISOString()).toBe("2025-01-13T00:00:00.000Z");
+  });
+});
+
+describe("GET /api/analytics/usage — validation", () => {
+  test("rejects an unknown bucket", async () => {
+    const res = await get("/api/analytics/usage?bucket=month");
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Invalid query parameters");
+  });
+
+  test("rejects an unknown group_by", async () => {
+    const res = await get("/api/analytics/usage?group_by=user");
+    expect(res.status).toBe(400);
+  });
+
+  test("rejects from >= to", async () => {
+    const res = await get(
+      "/api/analytics/usage?from=2025-01-16T00:00:00Z&to=2025-01-14T00:00:00Z",
+    );
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Invalid range");
+    expect(queries).toHaveLength(0);
+  });
+
+  test("rejects ranges with too many buckets", async () => {
+    const res = await get(
+      "/api/analytics/usage?bucket=hour&from=2024-01-01T00:00:00Z&to=2025-01-01T00:00:00Z",
+    );
+    expect(res.status).toBe(400);
+    expect((await res.json()).details).toContain("buckets");
+  });
+
+  test("requires auth", async () => {
+    const res = await fetch(`${baseUrl}/api/analytics/usage`);
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * Integration tests for the dead-letter API endpoints.
+ *
+ * Uses a real Express app with a fragment-aware mock SQL client and a mock
+ * Redis whose xadd records published events. Each executed query consumes
+ * the next queued result set, so tests script the DB responses in order.
+ *
+ * Test coverage:
+ *   - GET /api/dead-letters: list, filters, pagination, invalid cursor/status
+ *   - GET /api/dead-letters/:id: detail, 404
+ *   - POST /api/dead-letters/:id/replay: publishes + marks replayed, 404, 409
+ *   - DELETE /api/dead-letters/:id and bulk DELETE /api/dead-letters
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "node:http";
+import express from "express";
+import { logger } from "../../logger.js";
+import { createAuthMiddleware } from "../../middleware/auth.js";
+import { errorHandler } from "../../middleware/error-handler.js";
+import { createDeadLettersRouter } from "../dead-letters.js";
+import { EVENTS_STREAM } from "../../redis/stream.js";
+
+// ---------------------------------------------------------------------------
+// Test constants
+// ---------------------------------------------------------------------------
+
+const TEST_API_KEY = "fc_test_key_for_dead_letters";
+const AUTH_HEADER = `Bearer ${TEST_API_KEY}`;
+
+// ---------------------------------------------------------------------------
+// Sample test data
+// ---------------------------------------------------------------------------
+
+const sampleEvent = {
+  id: "evt-01",
+  type: "git.commit",
+  timestamp: "2025-01-15T10:00:00.000Z",
+  device_id: "dev-01",
+  workspace_id: "github.com/user/repo",
+  session_id: null,
+  data: { hash: "abc123" },
+  ingested_at: null,
+  blob_refs: [],
+};
+
+function makeDeadLetter(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    event_id: "evt-01",
+    event_type: "git.commit",
+    stream_id: "1700000000000-0",
+    attempts: 3,
+    last_error: "relation \"git_activity\" does not exist",
+    handler_name: "handleGitCommit",
+    status: "pending",
+    replay_count: 0,
+    first_failed_at: "2025-01-15T10:00:05.000Z",
+    last_failed_at: "2025-01-15T10:00:05.000Z",
+    replayed_at: null,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Mock SQL — scripted result sets, records every executed query
+// ---------------------------------------------------------------------------
+
+let queries: Array<{ text: string; values: unknown[] }> = [];
+let resultQueue: unknown[][] = [];
+
+/**
+ * Build a fragment-aware mock postgres.js sql tagged template function.
+ *
+ * Templates that don't start with a statement keyword are composable
+ * fragments and are inlined into the enclosing query's recorded text.
+ */
+function buildMockSql() {
+  const FRAGMENT_MARKER = Symbol("sql-fragment");
+
+  interface SqlFragment {
+    [key: symbol]: true;
+    text: string;
+    values: unknown[];
+  }
+
+  function isFragment(val: unknown): val is SqlFragment {
+    return typeof val === "object" && val !== null && FRAGMENT_MARKER in val;
+  }
+
+  function sqlTaggedTemplate(
+    strings: TemplateStringsArray,
+    ...values: unknown[]
+  ): unknown {
+    let text = strings[0];
+    const allValues: unknown[] = [];
+
+    values.forEach((v, idx) => {
+      if (isFragment(v)) {
+        text += v.text;
+        allValues.push(...v.values);
+      } else {
+        text += "$";
+        allValues.push(v);
+      }
+      text += strings[idx + 1];
+    });
+
+    if (!/^\s*(SELECT|UPDATE|DELETE|INSERT)/i.test(text)) {
+      return { [FRAGMENT_MARKER]: true, text, values: allValues } as SqlFragment;
+    }
+
+    queries.push({ text, values: allValues });
+    return Promise.resolve(resultQueue.shift() ?? []);
+  }
+
+  return new Proxy(sqlTaggedTemplate, {
+    apply(_target, _thisArg, args) {
+      if (args[0] && Array.isArray(args[0]) && "raw" in args[0]) {
+        return sqlTaggedTemplate(
+          args[0] as TemplateStringsArray,
+          ...args.slice(1),
+        );
+      }
+      return args[0];
+    },
+  });
+}
+
+/** Mock Redis — xadd records the stream key and serialized fields */
+let xaddCalls: unknown[][] = [];
+let xaddError: Error | null = null;
+const mockRedis = {
+  xadd: async (...args: unknown[]) => {
+    if (xaddError) throw xaddError;
+    xaddCalls.push(args);
+    return "1700000009999-0";
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Test server lifecycle
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use("/api", createAuthMiddleware(TEST_API_KEY));
+  app.use(
+    "/api",
+    createDeadLettersRouter({ sql: buildMockSql() as any, redis: mockRedis as any, logger }),
+  );
+  app.use(errorHandler);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, () => {
+      const addr = server.address();
+      if (addr && typeof addr === "object") {
+        baseUrl = `http://127.0.0.1:${addr.port}`;
+      }
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+  });
+});
+
+beforeEach(() => {
+  queries = [];
+  resultQueue = [];
+  xaddCalls = [];
+  xaddError = null;
+});
+
+/** Authenticated request against the test server */
+function request(method: string, path: string) {
+  return fetch(`${baseUrl}/api${path}`, {
+    method,
+    headers: { Authorization: AUTH_HEADER },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/dead-letters
+// ---------------------------------------------------------------------------
+
+describe("GET /api/dead-letters", () => {
+  test("lists dead letters newest failure first", async () => {
+    resultQueue = [[makeDeadLetter("dl-02"), makeDeadLetter("dl-01")]];
+
+    const res = await request("GET", "/dead-letters");
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.dead_letters).toHaveLength(2);
+    expect(body.dead_letters[0].id).toBe("dl-02");
+    expect(body.has_more).toBe(false);
+    expect(body.next_cursor).toBeNull();
+    expect(queries[0].text).toContain("ORDER BY last_failed_at DESC, id DESC");
+    expect(queries[0].text).not.toContain("WHERE");
+  });
+
+  test("applies status and event_type filters", async () => {
+    await request("GET", "/dead-letters?status=pending&event_type=git.commit");
+
+    expect(queries[0].text).toContain("WHERE status = $ AND event_type = $");
+    expect(queries[0].values).toContain("pending");
+    expect(queries[0].values).toContain("git.commit");
+  });
+
+  test("returns a cursor when more rows exist and accepts it back", async () => {
+    resultQueue = [[makeDeadLetter("dl-03"), makeDeadLetter("dl-02"), makeDeadLetter("dl-01")]];
+
+    const res = await request("GET", "/dead-letters?limit=2");
+    const body = await res.json();
+    expect(body.dead_letters).toHaveLength(2);
+    expect(body.has_more).toBe(true);
+
+    const decoded = JSON.parse(Buffer.from(body.next_cursor, "base64").toString("utf-8"));
+    expect(decoded).toEqual({ f: "2025-01-15T10:00:05.000Z", i: "dl-02" });
+
+    await request("GET", `/dead-letters?cursor=${encodeURIComponent(body.next_cursor)}`);
+    expect(queries[1].text).toContain("(last_failed_at, id) < ($::timestamptz, $)");
+    expect(queries[1].values).toContain("dl-02");
+  });
+
+  test("rejects an invalid cursor", async () => {
+    const res = await request("GET", "/dead-letters?cursor=not-a-cursor");
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Invalid cursor");
+  });
+
+  test("rejects an unknown status", async () => {
+    const res = await request("GET", "/dead-letters?status=lost");
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Invalid query parameters");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/dead-letters/:id
+// ---------------------------------------------------------------------------
+
+describe("GET /api/dead-letters/:id", () => {
+  test("returns the dead letter with its original event", async () => {
+    resultQueue = [[{ ...makeDeadLetter("dl-01"), event: sampleEvent }]];
+
+    const res = await request("GET", "/dead-letters/dl-01");
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.dead_letter.id).toBe("dl-01");
+    expect(body.dead_letter.event.id).toBe("evt-01");
+  });
+
+  test("returns 404 for an unknown id", async () => {
+    const res = await request("GET", "/dead-letters/nope");
+    expect(res.status).toBe(404);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/dead-letters/:id/replay
+// ---------------------------------------------------------------------------
+
+describe("POST /api/dead-letters/:id/replay", () => {
+  test("publishes the original event and marks the row replayed", async () => {
+    resultQueue = [
+      [{ id: "dl-01", event: sampleEvent, status: "pending" }],
+      [makeDeadLetter("dl-01", { status: "replayed", replay_count: 1 })],
+    ];
+
+    const res = await request("POST", "/dead-letters/dl-01/replay");
+    expect(res.status).toBe(202);
+
+    const body = await res.json();
+    expect(body.stream_id).toBe("1700000009999-0");
+    expect(body.dead_letter.status).toBe("replayed");
+
+    expect(xaddCalls).toHaveLength(1);
+    expect(xaddCalls[0][0]).toBe(EVENTS_STREAM);
+    expect(xaddCalls[0][xaddCalls[0].indexOf("id") + 1]).toBe("evt-01");
+    expect(xaddCalls[0][xaddCalls[0].indexOf("type") + 1]).toBe("git.commit");
+    expect(xaddCalls[0][xaddCalls[0].indexOf("replay") + 1]).toBe("1");
+
+    expect(queries[1].text).toContain("SET status       = 'replayed'");
+    expect(queries[1].text).toContain("replay_count = replay_count + 1");
+  });
+
+  test("returns 404 for an unknown id", async () => {
+    const res = await request("POST", "/dead-letters/nope/replay");
+    expect(res.status).toBe(404);
+    expect(xaddCalls).toHaveLength(0);
+  });
+
+  test("returns 409 when already replayed", async () => {
+    resultQueue = [[{ id: "dl-01", event: sampleEvent, status: "replayed" }]];
+
+    const res = await request("POST", "/dead-letters/dl-01/replay");
+    expect(res.status).toBe(409);
+    expect(xaddCalls).toHaveLength(0);
+  });
+
+  test("leaves the row pending when publishing fails", async () => {
+    resultQueue = [[{ id: "dl-01", event: sampleEvent, status: "pending" }]];
+    xaddError = new Error("Connection refused");
+
+    const res = await request("POST", "/dead-letters/dl-01/replay");
+    expect(res.status).toBe(503);
+    // Only the SELECT ran — no UPDATE
+    expect(queries).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// DELETE /api/dead-letters
+// ---------------------------------------------------------------------------
+
+describe("DELETE /api/dead-letters", () => {
+  test("deletes one dead letter by id", async () => {
+    resultQueue = [[{ id: "dl-01" }]];
+
+    const res = await request("DELETE", "/dead-letters/dl-01");
+    expect(res.status).toBe(204);
+    expect(queries[0].text).toContain("DELETE FROM dead_letter_events WHERE id = $");
+  });
+
+  test("returns 404 when deleting an unknown id", async () => {
+    const res = await request("DELETE", "/dead-letters/nope");
+    expect(res.status).toBe(404);
+  });
+
+  test("bulk deletes by status and event_type", async () => {
+    resultQueue = [[{ id: "dl-01" }, { id: "dl-02" }]];
+
+    const res = await request("DELETE", "/dead-letters?status=replayed&event_type=git.commit");
+    expect(res.status).toBe(200);
+    expect((await res.json()).deleted).toBe(2);
+    expect(queries[0].text).toContain("WHERE status = $ AND event_type = $");
+  });
+
+  test("refuses an unfiltered bulk delete", async () => {
+    const res = await request("DELETE", "/dead-letters");
+    expect(res.status).toBe(400);
+    expect(queries).toHaveLength(0);
+  });
+});
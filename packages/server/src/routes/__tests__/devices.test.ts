@@ -5,8 +5,8 @@
  * The mock SQL is a proxy that intercepts postgres.js tagged template calls
  * and returns canned data based on query patterns.
  *
- * Test coverage (11 tests):
- *   - GET /api/devices: list, aggregate fields, response shape
+ * Test coverage (13 tests):
+ *   - GET /api/devices: list, aggregate fields, response shape, stale online → offline
  *   - GET /api/devices/:id: detail, 404, response shape with workspaces/sessions/stats
  *   - Auth: 401 without token
  */
@@ -40,7 +40,8 @@ const DEVICE_1 = {
   status: "online",
   metadata: {},
   first_seen_at: "2025-01-01T00:00:00.000Z",
-  last_seen_at: "2025-01-15T14:00:00.000Z",
+  // Recent enough to still count as online
+  last_seen_at: new Date(Date.now() - 60_000).toISOString(),
   session_count: 8,
   workspace_count: 3,
   active_session_count: 1,
@@ -378,6 +379,32 @@ describe("GET /api/devices", () => {
       await new Promise<void>((r) => srv.close(() => r()));
     }
   });
+
+  test("reports an online device past the offline timeout as offline", async () => {
+    const staleHandler = () => [{ ...DEVICE_1, last_seen_at: "2025-01-15T14:00:00.000Z" }, DEVICE_2];
+    const sql = buildMockSql(staleHandler);
+    const app = express();
+    app.use(express.json());
+    app.use("/api", createAuthMiddleware(TEST_API_KEY));
+    app.use("/api", createDevicesRouter({ sql: sql as any, logger, offlineAfterMs: 10 * 60_000 }));
+    app.use(errorHandler);
+
+    const srv = await new Promise<Server>((resolve) => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    const addr = srv.address();
+    const url = addr && typeof addr === "object" ? `http://127.0.0.1:${addr.port}` : "";
+
+    try {
+      const res = await fetch(`${url}/api/devices`, {
+        headers: { Authorization: AUTH_HEADER },
+      });
+      const body = await res.json();
+      expect(body.devices.map((d: any) => d.status)).toEqual(["offline", "offline"]);
+    } finally {
+      await new Promise<void>((r) => srv.close(() => r()));
+    }
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -395,6 +422,12 @@ describe("GET /api/devices/:id", () => {
     expect(body.device.name).toBe("macbook-pro");
   });
 
+  test("device detail reports a recently seen device as online", async () => {
+    const res = await get("/api/devices/dev-01");
+    const body = await res.json();
+    expect(body.device.status).toBe("online");
+  });
+
   test("returns 404 for non-existent device", async () => {
     const res = await get("/api/devices/nonexistent-device");
     expect(res.status).toBe(404);
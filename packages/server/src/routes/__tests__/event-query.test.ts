@@ -0,0 +1,320 @@
+/**
+ * Integration tests for the event query endpoint.
+ *
+ * Uses a real Express app with a fragment-aware mock SQL client. Each executed
+ * query consumes the next queued result (rows, or an error to throw), and the
+ * flattened query text + values are recorded so tests can assert which
+ * filters were applied.
+ *
+ * Test coverage:
+ *   - GET /api/events: newest-first page, all filters, type globs
+ *   - Pagination: has_more + next_cursor, cursor round-trip in both orders
+ *   - format=ndjson: one event per line across internal pages, limit cap
+ *   - Validation: unknown type, bad date, invalid cursor, invalid jsonpath
+ *   - Auth: 401 without token
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "node:http";
+import express from "express";
+import { logger } from "../../logger.js";
+import { createAuthMiddleware } from "../../middleware/auth.js";
+import { errorHandler } from "../../middleware/error-handler.js";
+import { createEventQueryRouter } from "../event-query.js";
+
+// ---------------------------------------------------------------------------
+// Test constants
+// ---------------------------------------------------------------------------
+
+const TEST_API_KEY = "fc_test_key_for_event_query";
+const AUTH_HEADER = `Bearer ${TEST_API_KEY}`;
+
+// ---------------------------------------------------------------------------
+// Sample test data
+// ---------------------------------------------------------------------------
+
+function makeEvent(id: string, timestamp: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    type: "git.commit",
+    timestamp,
+    device_id: "dev-01",
+    workspace_id: "ws-01",
+    session_id: null,
+    data: { hash: "abc123", branch: "main" },
+    blob_refs: [],
+    ingested_at: timestamp,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Mock SQL — scripted result sets, records every executed query
+// ---------------------------------------------------------------------------
+
+let queries: Array<{ text: string; values: unknown[] }> = [];
+let resultQueue: Array<unknown[] | Error> = [];
+
+/**
+ * Build a fragment-aware mock postgres.js sql tagged template function.
+ *
+ * Templates without SELECT are treated as composable fragments. When a full
+ * query is executed, nested fragments are inlined so the recorded text reads
+ * like the final SQL (with "$" for each bound value).
+ */
+function buildMockSql() {
+  const FRAGMENT_MARKER = Symbol("sql-fragment");
+
+  interface SqlFragment {
+    [key: symbol]: true;
+    text: string;
+    values: unknown[];
+  }
+
+  function isFragment(val: unknown): val is SqlFragment {
+    return typeof val === "object" && val !== null && FRAGMENT_MARKER in val;
+  }
+
+  function sqlTaggedTemplate(
+    strings: TemplateStringsArray,
+    ...values: unknown[]
+  ): unknown {
+    let text = strings[0];
+    const allValues: unknown[] = [];
+
+    values.forEach((v, idx) => {
+      if (isFragment(v)) {
+        text += v.text;
+        allValues.push(...v.values);
+      } else {
+        text += "$";
+        allValues.push(v);
+      }
+      text += strings[idx + 1];
+    });
+
+    if (!/SELECT/i.test(text)) {
+      return { [FRAGMENT_MARKER]: true, text, values: allValues } as SqlFragment;
+    }
+
+    queries.push({ text, values: allValues });
+    const result = resultQueue.shift() ?? [];
+    return result instanceof Error ? Promise.reject(result) : Promise.resolve(result);
+  }
+
+  return new Proxy(sqlTaggedTemplate, {
+    apply(_target, _thisArg, args) {
+      if (args[0] && Array.isArray(args[0]) && "raw" in args[0]) {
+        return sqlTaggedTemplate(
+          args[0] as TemplateStringsArray,
+          ...args.slice(1),
+        );
+      }
+      return args[0];
+    },
+  });
+}
+
+/** Collapse whitespace so assertions don't depend on query indentation */
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// ---------------------------------------------------------------------------
+// Test server lifecycle
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use("/api", createAuthMiddleware(TEST_API_KEY));
+  app.use("/api", createEventQueryRouter({ sql: buildMockSql() as any, logger }));
+  app.use(errorHandler);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, () => {
+      const addr = server.address();
+      if (addr && typeof addr === "object") {
+        baseUrl = `http://127.0.0.1:${addr.port}`;
+      }
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+  });
+});
+
+beforeEach(() => {
+  queries = [];
+  resultQueue = [];
+});
+
+/** GET /api/events with the given query string params */
+async function getEvents(params: Record<string, string> = {}, auth = true) {
+  const qs = new URLSearchParams(params).toString();
+  return fetch(`${baseUrl}/api/events?${qs}`, {
+    headers: auth ? { Authorization: AUTH_HEADER } : {},
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("GET /api/events", () => {
+  test("returns the newest events first with no filters", async () => {
+    resultQueue = [[
+      makeEvent("evt-02", "2025-01-15T10:05:00.000Z"),
+      makeEvent("evt-01", "2025-01-15T10:00:00.000Z"),
+    ]];
+
+    const res = await getEvents();
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.events.map((e: any) => e.id)).toEqual(["evt-02", "evt-01"]);
+    expect(body.has_more).toBe(false);
+    expect(body.next_cursor).toBeNull();
+
+    const text = normalize(queries[0].text);
+    expect(text).not.toContain("WHERE");
+    expect(text).toContain("ORDER BY timestamp DESC, id DESC LIMIT $");
+    // Default page size 100, plus one row to detect more pages
+    expect(queries[0].values).toEqual([101]);
+  });
+
+  test("applies every filter", async () => {
+    const res = await getEvents({
+      type: "git.*,session.start",
+      workspace_id: "ws-01",
+      device_id: "dev-01",
+      session_id: "sess-01",
+      after: "2025-01-01T00:00:00Z",
+      before: "2025-02-01T00:00:00Z",
+      data: '$.branch == "main"',
+    });
+    expect(res.status).toBe(200);
+
+    const { text, values } = queries[0];
+    expect(normalize(text)).toContain(
+      "WHERE (type IN $ OR type LIKE $) AND workspace_id = $ AND device_id = $ AND session_id = $" +
+        " AND timestamp > $ AND timestamp < $ AND data @@ $::jsonpath",
+    );
+    expect(values).toEqual([
+      ["session.start"],
+      "git.%",
+      "ws-01",
+      "dev-01",
+      "sess-01",
+      "2025-01-01T00:00:00Z",
+      "2025-02-01T00:00:00Z",
+      '$.branch == "main"',
+      101,
+    ]);
+  });
+
+  test("a bare * type glob matches every type", async () => {
+    const res = await getEvents({ type: "*,git.commit" });
+    expect(res.status).toBe(200);
+    expect(normalize(queries[0].text)).not.toContain("type");
+  });
+
+  test("paginates over (timestamp, id) with an opaque cursor", async () => {
+    resultQueue = [[
+      makeEvent("evt-03", "2025-01-15T10:10:00.000Z"),
+      makeEvent("evt-02", "2025-01-15T10:05:00.000Z"),
+      makeEvent("evt-01", "2025-01-15T10:00:00.000Z"),
+    ]];
+
+    const first = await getEvents({ limit: "2" });
+    const body = await first.json();
+    expect(body.events.map((e: any) => e.id)).toEqual(["evt-03", "evt-02"]);
+    expect(body.has_more).toBe(true);
+    expect(JSON.parse(Buffer.from(body.next_cursor, "base64").toString())).toEqual({
+      t: "2025-01-15T10:05:00.000Z",
+      i: "evt-02",
+    });
+
+    await getEvents({ limit: "2", cursor: body.next_cursor });
+    expect(normalize(queries[1].text)).toContain("WHERE (timestamp, id) < ($::timestamptz, $)");
+    expect(queries[1].values).toEqual(["2025-01-15T10:05:00.000Z", "evt-02", 3]);
+
+    await getEvents({ order: "asc", cursor: body.next_cursor });
+    const ascending = normalize(queries[2].text);
+    expect(ascending).toContain("WHERE (timestamp, id) > ($::timestamptz, $)");
+    expect(ascending).toContain("ORDER BY timestamp ASC, id ASC");
+  });
+
+  test("format=ndjson streams every match across internal pages", async () => {
+    const firstPage = Array.from({ length: 500 }, (_, i) =>
+      makeEvent(`evt-${String(i).padStart(4, "0")}`, new Date(Date.UTC(2025, 0, 1, 0, 0, i)).toISOString()),
+    );
+    resultQueue = [firstPage, [makeEvent("evt-last", "2025-01-02T00:00:00.000Z")]];
+
+    const res = await getEvents({ format: "ndjson", order: "asc", type: "git.commit" });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toMatch(/^application\/x-ndjson/);
+
+    const lines = (await res.text()).trim().split("\n");
+    expect(lines).toHaveLength(501);
+    expect(JSON.parse(lines[0]).id).toBe("evt-0000");
+    expect(JSON.parse(lines[500]).id).toBe("evt-last");
+
+    // The second page continues after the last row of the first, same filters
+    expect(queries).toHaveLength(2);
+    expect(normalize(queries[1].text)).toContain("WHERE (type IN $) AND (timestamp, id) > ($::timestamptz, $)");
+    expect(queries[1].values).toEqual([["git.commit"], firstPage[499].timestamp, "evt-0499", 500]);
+  });
+
+  test("format=ndjson caps the export at limit", async () => {
+    resultQueue = [[
+      makeEvent("evt-02", "2025-01-15T10:05:00.000Z"),
+      makeEvent("evt-01", "2025-01-15T10:00:00.000Z"),
+    ]];
+
+    const res = await getEvents({ format: "ndjson", limit: "2" });
+    const lines = (await res.text()).trim().split("\n");
+    expect(lines.map((l) => JSON.parse(l).id)).toEqual(["evt-02", "evt-01"]);
+    expect(queries).toHaveLength(1);
+    expect(queries[0].values).toEqual([2]);
+  });
+
+  test("an invalid jsonpath predicate returns 400", async () => {
+    resultQueue = [
+      Object.assign(new Error('syntax error at or near "=" of jsonpath input'), { code: "42601" }),
+    ];
+
+    const res = await getEvents({ data: "$.branch = main", format: "ndjson" });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe("Invalid data predicate");
+  });
+
+  test("rejects unknown event types and malformed parameters", async () => {
+    expect((await getEvents({ type: "git.bogus" })).status).toBe(400);
+    expect((await getEvents({ after: "yesterday" })).status).toBe(400);
+    expect((await getEvents({ limit: "5000" })).status).toBe(400);
+
+    const res = await getEvents({ cursor: "not-a-cursor" });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Invalid cursor");
+
+    const badTimestamp = Buffer.from(JSON.stringify({ t: "not-a-date", i: "evt-01" })).toString("base64");
+    const edited = await getEvents({ cursor: badTimestamp });
+    expect(edited.status).toBe(400);
+    expect((await edited.json()).error).toBe("Invalid cursor");
+    expect(queries).toHaveLength(0);
+  });
+
+  test("returns 401 without auth", async () => {
+    const res = await getEvents({}, false);
+    expect(res.status).toBe(401);
+  });
+});
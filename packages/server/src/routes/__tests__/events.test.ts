@@ -15,6 +15,7 @@
  *   - No auth header → 401
  *   - Redis total failure → 503
  *   - Mixed batch: some valid, some invalid payload → partial acceptance
+ *   - Client-supplied user_id is ignored (set from the token instead)
  */
 
 import { describe, test, expect, beforeAll, afterAll, mock } from "bun:test";
@@ -43,7 +44,7 @@ function makeEvent(overrides: Partial<Event> = {}): Event {
     device_id: "device-test-1",
     workspace_id: "ws-test-1",
     session_id: null,
-    data: { status: "alive" },
+    data: { source: "hook" },
     ingested_at: null,
     blob_refs: [],
     ...overrides,
@@ -212,6 +213,20 @@ describe("POST /api/events/ingest", () => {
     expect(body.results).toHaveLength(5);
   });
 
+  test("client-supplied user_id is replaced with the token's user", async () => {
+    const event = { ...makeEvent(), user_id: "spoofed-user" };
+    mockSuccessfulPublish(mockRedis, 1);
+    mockRedis._mockPipeline.xadd.mockClear();
+
+    const res = await ingest({ events: [event] });
+    expect(res.status).toBe(202);
+
+    // The root API_KEY has no user, so the published entry is unattributed
+    const fields = mockRedis._mockPipeline.xadd.mock.calls[0] as unknown as string[];
+    expect(fields).not.toContain("spoofed-user");
+    expect(fields[fields.indexOf("user_id") + 1]).toBe("");
+  });
+
   test("empty events array → 400", async () => {
     const res = await ingest({ events: [] });
     expect(res.status).toBe(400);
@@ -361,9 +376,9 @@ describe("POST /api/events/ingest", () => {
   });
 
   test("event with unregistered type (no schema) → accepted (forward-compatible)", async () => {
-    // system.heartbeat has no registered payload schema — should pass through
+    // system.hooks.installed has no registered payload schema — should pass through
     const event = makeEvent({
-      type: "system.heartbeat",
+      type: "system.hooks.installed",
       data: { remote: "origin", branch: "main", arbitrary_field: true },
     });
     mockSuccessfulPublish(mockRedis, 1);
@@ -0,0 +1,192 @@
+/**
+ * Integration tests for the git activity endpoints.
+ *
+ * Uses a real Express app with a scripted mock SQL client: each tagged
+ * template call (including empty filter fragments) consumes the next queued
+ * result set, and sql.begin runs its callback against the same mock.
+ *
+ * Test coverage:
+ *   - POST /api/git-activity/recorrelate: links orphans, dry run, filters,
+ *     cursor round-trip, invalid body and cursor
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "node:http";
+import express from "express";
+import { logger } from "../../logger.js";
+import { createAuthMiddleware } from "../../middleware/auth.js";
+import { errorHandler } from "../../middleware/error-handler.js";
+import { createGitActivityRouter } from "../git-activity.js";
+
+// ---------------------------------------------------------------------------
+// Test constants
+// ---------------------------------------------------------------------------
+
+const TEST_API_KEY = "fc_test_key_for_git_activity";
+const AUTH_HEADER = `Bearer ${TEST_API_KEY}`;
+
+// ---------------------------------------------------------------------------
+// Mock SQL
+// ---------------------------------------------------------------------------
+
+let queries: Array<{ text: string; values: unknown[] }> = [];
+let resultQueue: unknown[][] = [];
+
+function buildMockSql() {
+  const sqlFn: any = (strings: TemplateStringsArray, ...values: unknown[]) => {
+    queries.push({ text: strings.join("$"), values });
+    const rows = resultQueue.shift() ?? [];
+    return Promise.resolve(Object.assign([...rows], { count: rows.length }));
+  };
+  sqlFn.begin = async (cb: (tx: any) => Promise<void>) => {
+    await cb(sqlFn);
+  };
+  return sqlFn;
+}
+
+// ---------------------------------------------------------------------------
+// Test server lifecycle
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use("/api", createAuthMiddleware(TEST_API_KEY));
+  app.use("/api", createGitActivityRouter({ sql: buildMockSql(), logger }));
+  app.use(errorHandler);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, () => {
+      const addr = server.address();
+      if (addr && typeof addr === "object") {
+        baseUrl = `http://127.0.0.1:${addr.port}`;
+      }
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+  });
+});
+
+beforeEach(() => {
+  queries = [];
+  resultQueue = [];
+});
+
+/** Authenticated POST against the test server */
+function post(path: string, body?: unknown) {
+  return fetch(`${baseUrl}/api${path}`, {
+    method: "POST",
+    headers: { Authorization: AUTH_HEADER, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/** An orphan row as returned by the re-correlation scan */
+function orphan(id: string, trailer: string | null = null) {
+  return {
+    id,
+    workspace_id: "ws-01",
+    device_id: "dev-01",
+    timestamp: "2025-01-01T10:30:00.000Z",
+    session_trailer: trailer,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/git-activity/recorrelate
+// ---------------------------------------------------------------------------
+
+describe("POST /api/git-activity/recorrelate", () => {
+  test("links orphans to sessions and reports counts", async () => {
+    resultQueue = [
+      [],                                            // workspace filter fragment
+      [],                                            // since filter fragment
+      [],                                            // cursor filter fragment
+      [orphan("git-1", "sess-1"), orphan("git-2")],  // orphan scan
+      [{ id: "sess-1" }],                            // git-1: trailer lookup
+      [],                                            // git-1: git_activity UPDATE
+      [],                                            // git-1: events UPDATE
+      [{ id: "sess-2", confidence: "heuristic" }],   // git-2: heuristic query
+      [],                                            // git-2: git_activity UPDATE
+      [],                                            // git-2: events UPDATE
+    ];
+
+    const res = await post("/git-activity/recorrelate", {});
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      scanned: 2,
+      correlated: 2,
+      byConfidence: { trailer: 1, active: 0, heuristic: 1 },
+      dryRun: false,
+      next_cursor: null,
+    });
+    expect(queries.filter((q) => q.text.includes("UPDATE git_activity"))).toHaveLength(2);
+  });
+
+  test("dry run with filters writes nothing", async () => {
+    resultQueue = [[], [], [], [orphan("git-1")], [{ id: "sess-1", confidence: "active" }]];
+
+    const res = await post("/git-activity/recorrelate", {
+      workspace_id: "ws-01",
+      since: "2025-01-01T00:00:00.000Z",
+      limit: 10,
+      dry_run: true,
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.correlated).toBe(1);
+    expect(body.dryRun).toBe(true);
+
+    expect(queries[0].values).toEqual(["ws-01"]);
+    expect(queries[1].values).toEqual(["2025-01-01T00:00:00.000Z"]);
+    expect(queries[3].values).toContain(11);
+    expect(queries.some((q) => q.text.includes("UPDATE"))).toBe(false);
+  });
+
+  test("returns a cursor that resumes after the batch", async () => {
+    resultQueue = [
+      [],
+      [],
+      [],
+      [orphan("git-1"), orphan("git-2")], // limit 1 + the look-ahead row
+      [],                                 // git-1: heuristic query — no match
+    ];
+
+    const res = await post("/git-activity/recorrelate", { limit: 1 });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.scanned).toBe(1);
+    expect(body.next_cursor).toBeString();
+
+    queries = [];
+    resultQueue = [];
+    const next = await post("/git-activity/recorrelate", { limit: 1, cursor: body.next_cursor });
+    expect(next.status).toBe(200);
+    expect(queries[2].text).toContain("(timestamp, id) >");
+    expect(queries[2].values).toEqual(["2025-01-01T10:30:00.000Z", "git-1"]);
+    expect((await next.json()).next_cursor).toBeNull();
+  });
+
+  test("rejects an invalid cursor", async () => {
+    const res = await post("/git-activity/recorrelate", { cursor: "not-a-cursor" });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Invalid cursor");
+    expect(queries).toHaveLength(0);
+  });
+
+  test("rejects an invalid body", async () => {
+    const res = await post("/git-activity/recorrelate", { since: "yesterday" });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe("Invalid request body");
+    expect(queries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Integration tests for GET /api/metrics.
+ *
+ * Uses a real Express app with the auth middleware, the events router (so
+ * ingest counters are recorded by real requests) and the metrics router,
+ * backed by a mock Redis that answers XADD pipelines, XLEN and XINFO GROUPS.
+ * The process-wide registry is reset before each test.
+ *
+ * Test coverage:
+ *   - Prometheus text format and content type
+ *   - Ingest accepted/rejected counters by event type
+ *   - Stream length, pending and lag gauges read at scrape time
+ *   - Redis failure drops the stream gauges but still returns 200
+ *   - WebSocket connection and pipeline queue gauges
+ *   - Requires authentication
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach, mock } from "bun:test";
+import type { Server } from "node:http";
+import express from "express";
+import type Redis from "ioredis";
+import { metrics } from "@fuel-code/core";
+import { generateId } from "@fuel-code/shared";
+import type { Event } from "@fuel-code/shared";
+import { logger } from "../../logger.js";
+import { createAuthMiddleware } from "../../middleware/auth.js";
+import { errorHandler } from "../../middleware/error-handler.js";
+import { createEventsRouter } from "../events.js";
+import { createMetricsRouter } from "../metrics.js";
+import { CONSUMER_GROUP } from "../../redis/stream.js";
+
+// ---------------------------------------------------------------------------
+// Test constants
+// ---------------------------------------------------------------------------
+
+const TEST_API_KEY = "fc_test_key_for_metrics";
+const AUTH_HEADER = `Bearer ${TEST_API_KEY}`;
+
+function makeEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    id: generateId(),
+    type: "system.heartbeat",
+    timestamp: new Date().toISOString(),
+    device_id: "device-test-1",
+    workspace_id: "ws-test-1",
+    session_id: null,
+    data: { source: "hook" },
+    ingested_at: null,
+    blob_refs: [],
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Mock Redis
+// ---------------------------------------------------------------------------
+
+let streamInfoError: Error | null = null;
+let groupLag: number | null = 4;
+let xaddCount = 0;
+
+const mockPipeline = {
+  xadd: mock(function (this: typeof mockPipeline) {
+    xaddCount++;
+    return this;
+  }),
+  exec: mock(() => {
+    const results = Array.from({ length: xaddCount }, (_, i) => [null, `1-${i}`]);
+    xaddCount = 0;
+    return Promise.resolve(results);
+  }),
+};
+
+const mockRedis = {
+  pipeline: () => mockPipeline,
+  xlen: mock(() => (streamInfoError ? Promise.reject(streamInfoError) : Promise.resolve(12))),
+  xinfo: mock(() =>
+    Promise.resolve([["name", CONSUMER_GROUP, "consumers", 1, "pending", 2, "lag", groupLag]]),
+  ),
+} as unknown as Redis;
+
+// ---------------------------------------------------------------------------
+// Test server lifecycle
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const sql = (() => Promise.resolve([])) as any;
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use("/api", createAuthMiddleware(TEST_API_KEY, sql));
+  app.use("/api", createEventsRouter({ redis: mockRedis }));
+  app.use("/api", createMetricsRouter({
+    redis: mockRedis,
+    logger,
+    getWsClientCount: () => 3,
+    getPipelineQueueDepth: () => 5,
+  }));
+  app.use(errorHandler);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, () => {
+      const addr = server.address();
+      if (addr && typeof addr === "object") {
+        baseUrl = `http://127.0.0.1:${addr.port}`;
+      }
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+  });
+});
+
+beforeEach(() => {
+  metrics.reset();
+  streamInfoError = null;
+  groupLag = 4;
+});
+
+/** Scrape the endpoint and return the exposition text */
+async function scrape(): Promise<string> {
+  const res = await fetch(`${baseUrl}/api/metrics`, { headers: { Authorization: AUTH_HEADER } });
+  expect(res.status).toBe(200);
+  return res.text();
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/metrics
+// ---------------------------------------------------------------------------
+
+describe("GET /api/metrics", () => {
+  test("serves the Prometheus text format", async () => {
+    const res = await fetch(`${baseUrl}/api/metrics`, { headers: { Authorization: AUTH_HEADER } });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toMatch(/^text\/plain;.*version=0\.0\.4/);
+
+    const text = await res.text();
+    expect(text).toContain("# TYPE fuel_code_ingest_events_total counter");
+    expect(text).toContain("# TYPE fuel_code_event_handler_duration_seconds histogram");
+    expect(text).toContain("# TYPE fuel_code_stream_lag gauge");
+  });
+
+  test("counts accepted and rejected ingest events by type", async () => {
+    const res = await fetch(`${baseUrl}/api/events/ingest`, {
+      method: "POST",
+      headers: { Authorization: AUTH_HEADER, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        events: [
+          makeEvent(),
+          makeEvent(),
+          makeEvent({ type: "session.start", session_id: "s-1", data: {} }),
+        ],
+      }),
+    });
+    expect(res.status).toBe(202);
+
+    const text = await scrape();
+    expect(text).toContain('fuel_code_ingest_events_total{event_type="system.heartbeat"} 2');
+    expect(text).toContain(
+      'fuel_code_ingest_rejected_total{event_type="session.start",reason="invalid_payload"} 1',
+    );
+  });
+
+  test("reports the stream backlog read at scrape time", async () => {
+    const text = await scrape();
+    expect(text).toContain("fuel_code_stream_length 12");
+    expect(text).toContain("fuel_code_stream_pending_entries 2");
+    expect(text).toContain("fuel_code_stream_lag 4");
+  });
+
+  test("omits lag when Redis cannot compute it", async () => {
+    groupLag = null;
+    const text = await scrape();
+    expect(text).toContain("fuel_code_stream_pending_entries 2");
+    expect(text).not.toMatch(/^fuel_code_stream_lag /m);
+  });
+
+  test("still responds when Redis is down, without stream gauges", async () => {
+    await scrape();
+    streamInfoError = new Error("connection refused");
+
+    const text = await scrape();
+    expect(text).not.toMatch(/^fuel_code_stream_length /m);
+    expect(text).toContain("fuel_code_ws_connections 3");
+  });
+
+  test("reports WebSocket connections and pipeline queue depth", async () => {
+    const text = await scrape();
+    expect(text).toContain("fuel_code_ws_connections 3");
+    expect(text).toContain("fuel_code_pipeline_queue_depth 5");
+  });
+
+  test("requires authentication", async () => {
+    const res = await fetch(`${baseUrl}/api/metrics`);
+    expect(res.status).toBe(401);
+  });
+});
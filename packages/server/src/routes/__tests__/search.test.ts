@@ -0,0 +1,287 @@
+/**
+ * Integration tests for the search API endpoint.
+ *
+ * Uses a real Express app with a fragment-aware mock SQL client. The mock
+ * flattens nested postgres.js fragments into a single query text + values
+ * list so tests can assert which filters were applied.
+ *
+ * Test coverage:
+ *   - GET /api/search: ranked hits, snippet passthrough
+ *   - Filters: workspace_id, device_id, tool_name, block_type, after/before
+ *   - Pagination: has_more + next_cursor, cursor round-trip, invalid cursor
+ *   - Validation: missing q, invalid block_type, invalid date
+ *   - Auth: 401 without token
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import type { Server } from "node:http";
+import express from "express";
+import { logger } from "../../logger.js";
+import { createAuthMiddleware } from "../../middleware/auth.js";
+import { errorHandler } from "../../middleware/error-handler.js";
+import { createSearchRouter } from "../search.js";
+
+// ---------------------------------------------------------------------------
+// Test constants
+// ---------------------------------------------------------------------------
+
+const TEST_API_KEY = "fc_test_key_for_search";
+const AUTH_HEADER = `Bearer ${TEST_API_KEY}`;
+
+// ---------------------------------------------------------------------------
+// Sample test data
+// ---------------------------------------------------------------------------
+
+function makeHit(id: string, rank: number, overrides: Record<string, unknown> = {}) {
+  return {
+    block_id: id,
+    session_id: "sess-01",
+    message_id: "msg-01",
+    block_type: "text",
+    tool_name: null,
+    rank,
+    ordinal: 4,
+    timestamp: "2025-01-15T10:05:00.000Z",
+    workspace_id: "ws-01",
+    workspace_name: "fuel-code",
+    device_id: "dev-01",
+    device_name: "macbook-pro",
+    session_lifecycle: "complete",
+    session_started_at: "2025-01-15T10:00:00.000Z",
+    session_summary: "Fixed the flaky redis test",
+    session_initial_prompt: "the redis test keeps failing",
+    snippet: "the <mark>flaky</mark> <mark>redis</mark> <mark>test</mark> times out",
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Mock SQL — records the last full query for assertions
+// ---------------------------------------------------------------------------
+
+let lastQuery: { text: string; values: unknown[] } | null = null;
+let nextRows: unknown[] = [];
+
+/**
+ * Build a fragment-aware mock postgres.js sql tagged template function.
+ *
+ * Templates without SELECT are treated as composable fragments. When a full
+ * query is executed, nested fragments are inlined so the recorded text reads
+ * like the final SQL (with "$" for each bound value).
+ */
+function buildMockSql() {
+  const FRAGMENT_MARKER = Symbol("sql-fragment");
+
+  interface SqlFragment {
+    [key: symbol]: true;
+    text: string;
+    values: unknown[];
+  }
+
+  function isFragment(val: unknown): val is SqlFragment {
+    return typeof val === "object" && val !== null && FRAGMENT_MARKER in val;
+  }
+
+  function sqlTaggedTemplate(
+    strings: TemplateStringsArray,
+    ...values: unknown[]
+  ): unknown {
+    let text = strings[0];
+    const allValues: unknown[] = [];
+
+    values.forEach((v, idx) => {
+      if (isFragment(v)) {
+        text += v.text;
+        allValues.push(...v.values);
+      } else {
+        text += "$";
+        allValues.push(v);
+      }
+      text += strings[idx + 1];
+    });
+
+    if (!/SELECT/i.test(text)) {
+      return { [FRAGMENT_MARKER]: true, text, values: allValues } as SqlFragment;
+    }
+
+    lastQuery = { text, values: allValues };
+    return Promise.resolve(nextRows);
+  }
+
+  return new Proxy(sqlTaggedTemplate, {
+    apply(_target, _thisArg, args) {
+      if (args[0] && Array.isArray(args[0]) && "raw" in args[0]) {
+        return sqlTaggedTemplate(
+          args[0] as TemplateStringsArray,
+          ...args.slice(1),
+        );
+      }
+      return args[0];
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Test server lifecycle
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use("/api", createAuthMiddleware(TEST_API_KEY));
+  app.use("/api", createSearchRouter({ sql: buildMockSql() as any, logger }));
+  app.use(errorHandler);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, () => {
+      const addr = server.address();
+      if (addr && typeof addr === "object") {
+        baseUrl = `http://127.0.0.1:${addr.port}`;
+      }
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+  });
+});
+
+/** GET /api/search with the given query string params */
+async function search(params: Record<string, string>, auth = true) {
+  lastQuery = null;
+  const qs = new URLSearchParams(params).toString();
+  return fetch(`${baseUrl}/api/search?${qs}`, {
+    headers: auth ? { Authorization: AUTH_HEADER } : {},
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("GET /api/search", () => {
+  test("returns ranked hits with snippets", async () => {
+    nextRows = [makeHit("cb-02", 0.6), makeHit("cb-01", 0.3)];
+
+    const res = await search({ q: "flaky redis test" });
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.results).toHaveLength(2);
+    expect(body.results[0].block_id).toBe("cb-02");
+    expect(body.results[0].snippet).toContain("<mark>redis</mark>");
+    expect(body.has_more).toBe(false);
+    expect(body.next_cursor).toBeNull();
+
+    // Query text is bound as a parameter to websearch_to_tsquery, never inlined
+    expect(lastQuery!.text).toContain("websearch_to_tsquery('english', $)");
+    expect(lastQuery!.values).toContain("flaky redis test");
+    expect(lastQuery!.text).toContain("ts_rank(");
+    expect(lastQuery!.text).toContain("ts_headline(");
+  });
+
+  test("uses the same document expression as the GIN index", async () => {
+    nextRows = [];
+    await search({ q: "redis" });
+
+    expect(lastQuery!.text).toContain(
+      "to_tsvector('english', COALESCE(cb.content_text, cb.thinking_text, cb.result_text, cb.tool_input::text)) @@ query",
+    );
+  });
+
+  test("applies workspace, device, tool_name, block_type, and date filters", async () => {
+    nextRows = [];
+    const res = await search({
+      q: "redis",
+      workspace_id: "ws-01",
+      device_id: "dev-01",
+      tool_name: "Bash",
+      block_type: "tool_result",
+      after: "2025-01-01T00:00:00Z",
+      before: "2025-02-01T00:00:00Z",
+    });
+    expect(res.status).toBe(200);
+
+    const text = lastQuery!.text;
+    expect(text).toContain("s.workspace_id = $");
+    expect(text).toContain("s.device_id = $");
+    expect(text).toContain("cb.tool_name = $");
+    expect(text).toContain("cb.block_type = $");
+    expect(text).toContain("s.started_at > $");
+    expect(text).toContain("s.started_at < $");
+    expect(lastQuery!.values).toEqual(
+      expect.arrayContaining(["ws-01", "dev-01", "Bash", "tool_result", "2025-01-01T00:00:00Z", "2025-02-01T00:00:00Z"]),
+    );
+  });
+
+  test("omits filters that were not requested", async () => {
+    nextRows = [];
+    await search({ q: "redis" });
+
+    const text = lastQuery!.text;
+    expect(text).not.toContain("s.workspace_id = $");
+    expect(text).not.toContain("cb.tool_name = $");
+    expect(text).not.toContain("::real");
+  });
+
+  test("paginates with has_more and a cursor that round-trips", async () => {
+    // limit=2 → router fetches 3 rows; the extra row signals has_more
+    nextRows = [makeHit("cb-03", 0.9), makeHit("cb-02", 0.5), makeHit("cb-01", 0.1)];
+
+    const res = await search({ q: "redis", limit: "2" });
+    const body = await res.json();
+    expect(body.results).toHaveLength(2);
+    expect(body.has_more).toBe(true);
+    expect(lastQuery!.values).toContain(3);
+
+    const decoded = JSON.parse(Buffer.from(body.next_cursor, "base64").toString("utf-8"));
+    expect(decoded).toEqual({ r: 0.5, i: "cb-02" });
+
+    // Feeding the cursor back adds the keyset condition with its values
+    nextRows = [makeHit("cb-01", 0.1)];
+    const res2 = await search({ q: "redis", limit: "2", cursor: body.next_cursor });
+    expect(res2.status).toBe(200);
+    expect(lastQuery!.text).toContain("cb.id) < ($::real, $)");
+    expect(lastQuery!.values).toEqual(expect.arrayContaining([0.5, "cb-02"]));
+
+    const body2 = await res2.json();
+    expect(body2.has_more).toBe(false);
+  });
+
+  test("rejects an invalid cursor with 400", async () => {
+    const res = await search({ q: "redis", cursor: "not-a-cursor" });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe("Invalid cursor");
+  });
+
+  test("rejects a missing or blank q with 400", async () => {
+    const res = await search({});
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Invalid query parameters");
+
+    const blank = await search({ q: "   " });
+    expect(blank.status).toBe(400);
+  });
+
+  test("rejects an unknown block_type with 400", async () => {
+    const res = await search({ q: "redis", block_type: "image" });
+    expect(res.status).toBe(400);
+  });
+
+  test("rejects a malformed date with 400", async () => {
+    const res = await search({ q: "redis", after: "yesterday" });
+    expect(res.status).toBe(400);
+  });
+
+  test("returns 401 without auth", async () => {
+    const res = await search({ q: "redis" }, false);
+    expect(res.status).toBe(401);
+  });
+});
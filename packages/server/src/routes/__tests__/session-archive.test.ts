@@ -0,0 +1,200 @@
+/**
+ * Integration tests for the session archive/restore endpoints.
+ *
+ * Uses a real Express app with a scripted mock SQL client: each executed
+ * query consumes the next queued result set. sql.begin runs its callback
+ * against the same mock, and sql.unsafe (batch inserts) is recorded too.
+ *
+ * Test coverage:
+ *   - POST /api/sessions/archive: dry run report, invalid body
+ *   - POST /api/sessions/:id/restore: restores from backup, 404, 409, 503
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "node:http";
+import express from "express";
+import { logger } from "../../logger.js";
+import { createAuthMiddleware } from "../../middleware/auth.js";
+import { errorHandler } from "../../middleware/error-handler.js";
+import { createSessionActionsRouter } from "../session-actions.js";
+
+// ---------------------------------------------------------------------------
+// Test constants
+// ---------------------------------------------------------------------------
+
+const TEST_API_KEY = "fc_test_key_for_session_archive";
+const AUTH_HEADER = `Bearer ${TEST_API_KEY}`;
+const TRANSCRIPT_KEY = "transcripts/github.com-user-repo/sess-01/raw.jsonl";
+
+// ---------------------------------------------------------------------------
+// Mock SQL and S3
+// ---------------------------------------------------------------------------
+
+let queries: Array<{ text: string; values: unknown[] }> = [];
+let resultQueue: unknown[][] = [];
+
+function buildMockSql() {
+  const sqlFn: any = (strings: TemplateStringsArray, ...values: unknown[]) => {
+    queries.push({ text: strings.join("$"), values });
+    const rows = resultQueue.shift() ?? [];
+    return Promise.resolve(Object.assign([...rows], { count: rows.length }));
+  };
+  sqlFn.unsafe = (text: string, values: unknown[]) => {
+    queries.push({ text, values });
+    return Promise.resolve([]);
+  };
+  sqlFn.begin = async (cb: (tx: unknown) => Promise<unknown>) => cb(sqlFn);
+  return sqlFn;
+}
+
+/** Parsed backup served by the mock S3 (null = missing object) */
+let backupBody: string | null = null;
+const downloads: string[] = [];
+const mockS3 = {
+  upload: async (key: string) => ({ key, size: 0 }),
+  download: async (key: string) => {
+    downloads.push(key);
+    if (backupBody === null) throw new Error(`NoSuchKey: ${key}`);
+    return backupBody;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Test server lifecycle
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const sql = buildMockSql();
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use("/api", createAuthMiddleware(TEST_API_KEY));
+  app.use(
+    "/api",
+    createSessionActionsRouter({
+      sql,
+      pipelineDeps: { sql, s3: mockS3, summaryConfig: { enabled: false }, logger } as any,
+      logger,
+    }),
+  );
+  app.use(errorHandler);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, () => {
+      const addr = server.address();
+      if (addr && typeof addr === "object") {
+        baseUrl = `http://127.0.0.1:${addr.port}`;
+      }
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+  });
+});
+
+beforeEach(() => {
+  queries = [];
+  resultQueue = [];
+  backupBody = null;
+  downloads.length = 0;
+});
+
+/** Authenticated POST against the test server */
+function post(path: string, body?: unknown) {
+  return fetch(`${baseUrl}/api${path}`, {
+    method: "POST",
+    headers: { Authorization: AUTH_HEADER, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/sessions/archive
+// ---------------------------------------------------------------------------
+
+describe("POST /api/sessions/archive", () => {
+  test("dry run reports candidates and reclaimable bytes", async () => {
+    resultQueue = [[
+      {
+        id: "sess-01",
+        ended_at: "2025-01-01T00:00:00.000Z",
+        message_count: "4",
+        message_bytes: "2048",
+        block_count: "6",
+        block_bytes: "1024",
+      },
+    ]];
+
+    const res = await post("/sessions/archive", { older_than_days: 30, dry_run: true });
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.dryRun).toBe(true);
+    expect(body.found).toBe(1);
+    expect(body.reclaimedBytes).toBe(3072);
+    expect(body.candidates[0].sessionId).toBe("sess-01");
+    expect(queries).toHaveLength(1);
+    expect(queries[0].values).toContain(30);
+    expect(downloads).toHaveLength(0);
+  });
+
+  test("rejects an invalid age", async () => {
+    const res = await post("/sessions/archive", { older_than_days: 0 });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Invalid request body");
+    expect(queries).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/sessions/:id/restore
+// ---------------------------------------------------------------------------
+
+describe("POST /api/sessions/:id/restore", () => {
+  test("re-inserts rows from the parsed backup", async () => {
+    backupBody = JSON.stringify({
+      messages: [{ id: "m-1", raw_message: {}, metadata: {} }],
+      contentBlocks: [{ id: "b-1", tool_input: null, metadata: {} }, { id: "b-2", tool_input: null, metadata: {} }],
+    });
+    resultQueue = [
+      [{ transcript_s3_key: TRANSCRIPT_KEY, archived_at: "2025-06-01T00:00:00.000Z" }],
+      [{ id: "sess-01" }],
+      // repriceSession: session row, then no assistant messages
+      [{ lifecycle: "complete", cost_estimate_usd: "0", archived_at: null }],
+      [],
+    ];
+
+    const res = await post("/sessions/sess-01/restore");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ session_id: "sess-01", messages_restored: 1, blocks_restored: 2 });
+    expect(downloads).toEqual(["transcripts/github.com-user-repo/sess-01/parsed.json"]);
+    expect(queries.some((q) => q.text.includes("INSERT INTO transcript_messages"))).toBe(true);
+  });
+
+  test("returns 404 for an unknown session", async () => {
+    const res = await post("/sessions/nope/restore");
+    expect(res.status).toBe(404);
+  });
+
+  test("returns 409 when the session is not archived", async () => {
+    resultQueue = [[{ transcript_s3_key: TRANSCRIPT_KEY, archived_at: null }]];
+
+    const res = await post("/sessions/sess-01/restore");
+    expect(res.status).toBe(409);
+    expect(downloads).toHaveLength(0);
+  });
+
+  test("returns 503 when the backup cannot be read", async () => {
+    resultQueue = [[{ transcript_s3_key: TRANSCRIPT_KEY, archived_at: "2025-06-01T00:00:00.000Z" }]];
+
+    const res = await post("/sessions/sess-01/restore");
+    expect(res.status).toBe(503);
+    expect((await res.json()).error).toBe("Parsed backup unavailable");
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Integration tests for the session reaper endpoints.
+ *
+ * Uses a real Express app with a scripted mock SQL client: each executed
+ * query (tagged template or sql.unsafe) consumes the next queued result set.
+ *
+ * Test coverage:
+ *   - POST /api/sessions/reap: dry run, threshold overrides, reaps as crash, invalid body
+ *   - POST /api/sessions/activity: records mtimes, reports closed sessions, invalid body
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "node:http";
+import express from "express";
+import { logger } from "../../logger.js";
+import { createAuthMiddleware } from "../../middleware/auth.js";
+import { errorHandler } from "../../middleware/error-handler.js";
+import { createSessionActionsRouter } from "../session-actions.js";
+
+// ---------------------------------------------------------------------------
+// Test constants
+// ---------------------------------------------------------------------------
+
+const TEST_API_KEY = "fc_test_key_for_session_reaper";
+const AUTH_HEADER = `Bearer ${TEST_API_KEY}`;
+
+// ---------------------------------------------------------------------------
+// Mock SQL
+// ---------------------------------------------------------------------------
+
+let queries: Array<{ text: string; values: unknown[] }> = [];
+let resultQueue: unknown[][] = [];
+const enqueued: string[] = [];
+
+function buildMockSql() {
+  const next = () => {
+    const rows = resultQueue.shift() ?? [];
+    return Promise.resolve(Object.assign([...rows], { count: rows.length }));
+  };
+  const sqlFn: any = (strings: TemplateStringsArray, ...values: unknown[]) => {
+    queries.push({ text: strings.join("$"), values });
+    return next();
+  };
+  sqlFn.unsafe = (text: string, values: unknown[]) => {
+    queries.push({ text, values });
+    return next();
+  };
+  return sqlFn;
+}
+
+// ---------------------------------------------------------------------------
+// Test server lifecycle
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const sql = buildMockSql();
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use("/api", createAuthMiddleware(TEST_API_KEY));
+  app.use(
+    "/api",
+    createSessionActionsRouter({
+      sql,
+      pipelineDeps: {
+        sql,
+        summaryConfig: { enabled: false },
+        logger,
+        enqueueSession: (id: string) => enqueued.push(id),
+      } as any,
+      logger,
+    }),
+  );
+  app.use(errorHandler);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, () => {
+      const addr = server.address();
+      if (addr && typeof addr === "object") {
+        baseUrl = `http://127.0.0.1:${addr.port}`;
+      }
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+  });
+});
+
+beforeEach(() => {
+  queries = [];
+  resultQueue = [];
+  enqueued.length = 0;
+});
+
+/** Authenticated POST against the test server */
+function post(path: string, body?: unknown) {
+  return fetch(`${baseUrl}/api${path}`, {
+    method: "POST",
+    headers: { Authorization: AUTH_HEADER, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/** A candidate row as returned by the reaper's sweep query */
+function candidate(id: string, transcriptKey: string | null = null) {
+  return {
+    id,
+    workspace_id: "ws-01",
+    started_at: "2025-01-01T10:00:00.000Z",
+    transcript_s3_key: transcriptKey,
+    last_activity_at: "2025-01-01T10:20:00.000Z",
+    reason: "device_offline",
+  };
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/sessions/reap
+// ---------------------------------------------------------------------------
+
+describe("POST /api/sessions/reap", () => {
+  test("dry run lists candidates without transitioning", async () => {
+    resultQueue = [[candidate("sess-01")]];
+
+    const res = await post("/sessions/reap", { dry_run: true });
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.dryRun).toBe(true);
+    expect(body.found).toBe(1);
+    expect(body.reaped).toBe(0);
+    expect(body.sessions[0]).toEqual({
+      sessionId: "sess-01",
+      reason: "device_offline",
+      lastActivityAt: "2025-01-01T10:20:00.000Z",
+      next: "awaiting_transcript",
+    });
+    expect(queries).toHaveLength(1);
+  });
+
+  test("converts threshold overrides to milliseconds", async () => {
+    const res = await post("/sessions/reap", { idle_minutes: 5, offline_minutes: 2, max_idle_hours: 1, limit: 3 });
+    expect(res.status).toBe(200);
+    expect(queries[0].values).toContain("300000 milliseconds");
+    expect(queries[0].values).toContain("120000 milliseconds");
+    expect(queries[0].values).toContain("3600000 milliseconds");
+    expect(queries[0].values).toContain(3);
+  });
+
+  test("ends sessions as crashed and queues those with a transcript", async () => {
+    resultQueue = [
+      [candidate("sess-01"), candidate("sess-02", "transcripts/ws/sess-02/raw.jsonl")],
+      [{ lifecycle: "ended" }],
+      [{ lifecycle: "ended" }],
+      [{ lifecycle: "transcript_ready" }],
+    ];
+
+    const res = await post("/sessions/reap", {});
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.reaped).toBe(2);
+    expect(body.reconciled).toBe(1);
+    expect(enqueued).toEqual(["sess-02"]);
+    expect(queries[1].values).toContain("crash");
+  });
+
+  test("rejects invalid thresholds", async () => {
+    const res = await post("/sessions/reap", { idle_minutes: 0 });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Invalid request body");
+    expect(queries).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/sessions/activity
+// ---------------------------------------------------------------------------
+
+describe("POST /api/sessions/activity", () => {
+  test("records mtimes and reports sessions the server has closed", async () => {
+    resultQueue = [
+      [{ id: "sess-01" }],
+      [],
+      [{ id: "sess-02", transcript_s3_key: null }],
+    ];
+
+    const res = await post("/sessions/activity", {
+      sessions: [
+        { id: "sess-01", transcript_mtime: "2025-01-01T10:30:00.000Z" },
+        { id: "sess-02", transcript_mtime: "2025-01-01T09:00:00.000Z" },
+      ],
+    });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ updated: 1, upload: ["sess-02"], closed: [] });
+  });
+
+  test("rejects a malformed mtime", async () => {
+    const res = await post("/sessions/activity", {
+      sessions: [{ id: "sess-01", transcript_mtime: "yesterday" }],
+    });
+    expect(res.status).toBe(400);
+    expect(queries).toHaveLength(0);
+  });
+});
@@ -10,10 +10,13 @@
  *   - GET /api/sessions/:id: detail, 404
  *   - GET /api/sessions/:id/teammates: list teammates, empty array, 404
  *   - GET /api/sessions/:id/teammates/:id/messages: message feed, 404
- *   - GET /api/sessions/:id/transcript: parsed messages, unparsed 404
+ *   - GET /api/sessions/:id/transcript: parsed messages, unparsed 404, archived backup
  *   - GET /api/sessions/:id/transcript/raw: presigned URL, redirect, 404
+ *   - GET /api/sessions/:id/blocks/:blockId/result: artifact URL, inline text, 400/404
  *   - GET /api/sessions/:id/events: session events, 404
+ *   - GET /api/sessions/:id/prompts: live-captured prompts, 404
  *   - GET /api/sessions/:id/git: stub response
+ *   - GET /api/sessions/:id/diff: replayed Write tool calls, archived backup, 404
  *   - PATCH /api/sessions/:id: tags, add_tags, remove_tags, summary, validation
  *   - Auth: 401 without token
  */
@@ -130,6 +133,59 @@ const TRANSCRIPT_MESSAGES = [
   },
 ];
 
+const CONTENT_BLOCKS = [
+  {
+    id: "cb-10",
+    session_id: "sess-01",
+    block_type: "tool_result",
+    result_text: "npm test output (truncated)",
+    result_s3_key: "artifacts/sess-01/toolu_01.txt",
+    metadata: { truncated: true, original_byte_length: 524288, artifact_content_type: "text/plain" },
+  },
+  {
+    id: "cb-11",
+    session_id: "sess-01",
+    block_type: "tool_result",
+    result_text: "ok",
+    result_s3_key: null,
+    metadata: {},
+  },
+  {
+    id: "cb-12",
+    session_id: "sess-01",
+    block_type: "text",
+    result_text: null,
+    result_s3_key: null,
+    metadata: {},
+  },
+];
+
+/** Tool calls replayed by GET /sessions/:id/diff */
+const DIFF_BLOCKS = [
+  {
+    session_id: "sess-01",
+    block_type: "tool_use",
+    tool_name: "Write",
+    tool_use_id: "toolu_w1",
+    tool_input: { file_path: "/home/dev/app/notes.md", content: "todo\n" },
+    tool_result_id: null,
+    is_error: false,
+    result_text: null,
+    metadata: {},
+  },
+  {
+    session_id: "sess-01",
+    block_type: "tool_result",
+    tool_name: null,
+    tool_use_id: null,
+    tool_input: null,
+    tool_result_id: "toolu_w1",
+    is_error: false,
+    result_text: "File created successfully",
+    metadata: {},
+  },
+];
+
 const SESSION_EVENTS = [
   {
     id: "evt-01",
@@ -142,6 +198,18 @@ const SESSION_EVENTS = [
   },
 ];
 
+const SESSION_PROMPTS = [
+  {
+    id: "sp-01",
+    session_id: "sess-01",
+    event_id: "evt-02",
+    prompt: "fix the flaky redis test",
+    submitted_at: "2025-01-15T10:00:05.000Z",
+    redacted: false,
+    truncated: false,
+  },
+];
+
 const TEAMMATES = [
   {
     id: "tm-01",
@@ -262,6 +330,9 @@ function createMockS3() {
     presignedUrl: mock(
       async (key: string) => `https://s3.example.com/${key}?signed=true`,
     ),
+    download: mock(async (key: string): Promise<string> => {
+      throw new Error(`NoSuchKey: ${key}`);
+    }),
   };
 }
 
@@ -364,12 +435,30 @@ function defaultQueryHandler(queryText: string, values: unknown[]): unknown[] {
     return TEAMMATE_MESSAGES.filter((m) => m.teammate_id === teammateId);
   }
 
+  // Single content block: FROM content_blocks WHERE id = ... AND session_id = ...
+  if (queryText.includes("FROM content_blocks") && queryText.includes("WHERE id =")) {
+    const [blockId, sessionId] = values;
+    return CONTENT_BLOCKS.filter((b) => b.id === blockId && b.session_id === sessionId);
+  }
+
+  // Diff source blocks: FROM content_blocks cb JOIN transcript_messages
+  if (queryText.includes("FROM content_blocks cb") && queryText.includes("tool_use")) {
+    const sessionId = values.find((v) => typeof v === "string");
+    return DIFF_BLOCKS.filter((b) => b.session_id === sessionId);
+  }
+
   // Transcript messages: FROM transcript_messages
   if (queryText.includes("FROM transcript_messages")) {
     const sessionId = values.find((v) => typeof v === "string");
     return TRANSCRIPT_MESSAGES.filter((m) => m.session_id === sessionId);
   }
 
+  // Prompts: FROM session_prompts
+  if (queryText.includes("FROM session_prompts")) {
+    const sessionId = values.find((v) => typeof v === "string");
+    return SESSION_PROMPTS.filter((p) => p.session_id === sessionId);
+  }
+
   // Events: FROM events
   if (queryText.includes("FROM events")) {
     const sessionId = values.find((v) => typeof v === "string");
@@ -489,6 +578,11 @@ describe("GET /api/sessions", () => {
     expect(res.status).toBe(200);
   });
 
+  test("accepts user_id filter", async () => {
+    const res = await get("/api/sessions?user_id=user-01");
+    expect(res.status).toBe(200);
+  });
+
   test("accepts valid lifecycle filter", async () => {
     const res = await get("/api/sessions?lifecycle=parsed,summarized");
     expect(res.status).toBe(200);
@@ -699,6 +793,50 @@ describe("GET /api/sessions/:id/transcript", () => {
     const body = await res.json();
     expect(body.error).toBe("Session not found");
   });
+
+  test("serves an archived session from its parsed backup", async () => {
+    const backup = {
+      messages: [
+        { id: "m-2", session_id: "sess-01", ordinal: 2, message_type: "assistant" },
+        { id: "m-1", session_id: "sess-01", ordinal: 1, message_type: "user" },
+      ],
+      contentBlocks: [
+        { id: "b-2", message_id: "m-2", block_order: 1, block_type: "text", content_text: "second" },
+        { id: "b-1", message_id: "m-2", block_order: 0, block_type: "text", content_text: "first" },
+      ],
+    };
+    mockS3.download.mockImplementation(async () => JSON.stringify(backup));
+    (SESSION_PARSED as Record<string, unknown>).archived_at = "2025-06-01T00:00:00.000Z";
+
+    try {
+      const res = await get("/api/sessions/sess-01/transcript");
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.messages.map((m: any) => m.id)).toEqual(["m-1", "m-2"]);
+      expect(body.messages[1].content_blocks.map((b: any) => b.content_text)).toEqual(["first", "second"]);
+      expect(mockS3.download).toHaveBeenCalledWith("transcripts/ws-01/sess-01/parsed.json");
+    } finally {
+      delete (SESSION_PARSED as Record<string, unknown>).archived_at;
+      mockS3.download.mockReset();
+    }
+  });
+
+  test("returns 503 when an archived session's backup is unreadable", async () => {
+    mockS3.download.mockImplementation(async () => {
+      throw new Error("NoSuchKey");
+    });
+    (SESSION_PARSED as Record<string, unknown>).archived_at = "2025-06-01T00:00:00.000Z";
+
+    try {
+      const res = await get("/api/sessions/sess-01/transcript");
+      expect(res.status).toBe(503);
+      expect((await res.json()).error).toBe("Archived transcript unavailable");
+    } finally {
+      delete (SESSION_PARSED as Record<string, unknown>).archived_at;
+      mockS3.download.mockReset();
+    }
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -747,6 +885,59 @@ describe("GET /api/sessions/:id/transcript/raw", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// GET /api/sessions/:id/blocks/:blockId/result
+// ---------------------------------------------------------------------------
+
+describe("GET /api/sessions/:id/blocks/:blockId/result", () => {
+  test("returns the artifact's presigned URL when redirect=false", async () => {
+    const res = await get("/api/sessions/sess-01/blocks/cb-10/result?redirect=false");
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body).toEqual({
+      block_id: "cb-10",
+      truncated: true,
+      content_type: "text/plain",
+      byte_length: 524288,
+      url: "https://s3.example.com/artifacts/sess-01/toolu_01.txt?signed=true",
+      content: null,
+    });
+  });
+
+  test("redirects to the artifact by default", async () => {
+    const res = await fetch(`${baseUrl}/api/sessions/sess-01/blocks/cb-10/result`, {
+      method: "GET",
+      headers: { Authorization: AUTH_HEADER },
+      redirect: "manual",
+    });
+    expect(res.status).toBe(302);
+    expect(res.headers.get("location")).toContain("artifacts/sess-01/toolu_01.txt");
+  });
+
+  test("serves inline results as text when there is no artifact", async () => {
+    const res = await get("/api/sessions/sess-01/blocks/cb-11/result");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/plain");
+    expect(await res.text()).toBe("ok");
+  });
+
+  test("returns 400 for blocks that are not tool results", async () => {
+    const res = await get("/api/sessions/sess-01/blocks/cb-12/result");
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Not a tool result");
+  });
+
+  test("returns 404 for unknown blocks and sessions", async () => {
+    const missingBlock = await get("/api/sessions/sess-01/blocks/nope/result");
+    expect(missingBlock.status).toBe(404);
+    expect((await missingBlock.json()).error).toBe("Content block not found");
+
+    const missingSession = await get("/api/sessions/nonexistent-id/blocks/cb-10/result");
+    expect(missingSession.status).toBe(404);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // GET /api/sessions/:id/events
 // ---------------------------------------------------------------------------
@@ -772,6 +963,26 @@ describe("GET /api/sessions/:id/events", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// GET /api/sessions/:id/prompts
+// ---------------------------------------------------------------------------
+
+describe("GET /api/sessions/:id/prompts", () => {
+  test("returns prompts for existing session in submission order", async () => {
+    const res = await get("/api/sessions/sess-01/prompts");
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.prompts).toHaveLength(1);
+    expect(body.prompts[0].prompt).toBe("fix the flaky redis test");
+  });
+
+  test("returns 404 for non-existent session", async () => {
+    const res = await get("/api/sessions/nonexistent-id/prompts");
+    expect(res.status).toBe(404);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // GET /api/sessions/:id/git
 // ---------------------------------------------------------------------------
@@ -791,6 +1002,67 @@ describe("GET /api/sessions/:id/git", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// GET /api/sessions/:id/diff
+// ---------------------------------------------------------------------------
+
+describe("GET /api/sessions/:id/diff", () => {
+  test("returns per-file diffs rebuilt from tool calls", async () => {
+    const res = await get("/api/sessions/sess-01/diff");
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.session_id).toBe("sess-01");
+    expect(body.files).toHaveLength(1);
+    expect(body.files[0]).toMatchObject({
+      path: "/home/dev/app/notes.md",
+      status: "added",
+      complete: true,
+      additions: 1,
+    });
+    expect(body.stats).toEqual({ files: 1, additions: 1, deletions: 0 });
+  });
+
+  test("replays an archived session's parsed backup before sub-agent blocks", async () => {
+    const backup = {
+      messages: [{ id: "m-1", session_id: "sess-01", ordinal: 1, message_type: "assistant" }],
+      contentBlocks: [
+        {
+          id: "b-1",
+          message_id: "m-1",
+          block_order: 0,
+          block_type: "tool_use",
+          tool_name: "Write",
+          tool_use_id: "toolu_a1",
+          tool_input: { file_path: "/home/dev/app/archived.ts", content: "a\nb\n" },
+        },
+      ],
+    };
+    mockS3.download.mockImplementation(async () => JSON.stringify(backup));
+    (SESSION_PARSED as Record<string, unknown>).archived_at = "2025-06-01T00:00:00.000Z";
+
+    try {
+      const res = await get("/api/sessions/sess-01/diff");
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.files.map((f: any) => f.path)).toEqual([
+        "/home/dev/app/archived.ts",
+        "/home/dev/app/notes.md",
+      ]);
+      expect(body.stats.additions).toBe(3);
+    } finally {
+      delete (SESSION_PARSED as Record<string, unknown>).archived_at;
+      mockS3.download.mockReset();
+    }
+  });
+
+  test("returns 404 for non-existent session", async () => {
+    const res = await get("/api/sessions/nonexistent-id/diff");
+    expect(res.status).toBe(404);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // PATCH /api/sessions/:id (tags and summary)
 // ---------------------------------------------------------------------------
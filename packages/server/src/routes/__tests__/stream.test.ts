@@ -0,0 +1,309 @@
+/**
+ * Integration tests for GET /api/stream (Server-Sent Events).
+ *
+ * Uses a real Express app with the auth middleware and the stream router,
+ * sharing one HTTP server with a real WS server whose replay buffer is backed
+ * by an in-memory Redis Stream (XADD/XRANGE). Streams are read with fetch.
+ *
+ * Test coverage:
+ *   - SSE headers, subscribed message, broadcasts with their seq as the id
+ *   - Query filters are applied server-side
+ *   - SSE and WebSocket clients share the broadcaster's client registry
+ *   - Last-Event-ID replays missed broadcasts; bad resume points resync
+ *   - Invalid filters are rejected with 400
+ *   - Requires authentication
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createServer, type Server } from "node:http";
+import express from "express";
+import WebSocket from "ws";
+import type Redis from "ioredis";
+import { compareWsSeq, type Event } from "@fuel-code/shared";
+import { logger } from "../../logger.js";
+import { createAuthMiddleware } from "../../middleware/auth.js";
+import { errorHandler } from "../../middleware/error-handler.js";
+import { createStreamRouter } from "../stream.js";
+import { createWsServer, createRedisReplayBuffer, type WsServerHandle } from "../../ws/index.js";
+
+// ---------------------------------------------------------------------------
+// Test constants
+// ---------------------------------------------------------------------------
+
+const TEST_API_KEY = "fc_test_key_for_stream";
+const AUTH_HEADER = `Bearer ${TEST_API_KEY}`;
+
+function makeEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    id: "01ARZ3NDEKTSV4RRFFQ69G5FAV",
+    type: "git.commit",
+    timestamp: "2025-01-01T00:00:00.000Z",
+    device_id: "device-1",
+    workspace_id: "ws-1",
+    session_id: "session-1",
+    data: {},
+    ingested_at: null,
+    blob_refs: [],
+    ...overrides,
+  };
+}
+
+/** In-memory Redis Stream supporting the XADD/XRANGE calls the replay buffer makes */
+function createFakeStreamRedis(): Redis {
+  const entries: Array<[string, string[]]> = [];
+  let lastMs = 0;
+  let counter = 0;
+
+  return {
+    async xadd(_key: string, ...args: string[]): Promise<string> {
+      const now = Date.now();
+      counter = now === lastMs ? counter + 1 : 0;
+      lastMs = now;
+      const id = `${now}-${counter}`;
+      entries.push([id, args.slice(args.indexOf("*") + 1)]);
+      return id;
+    },
+    async xrange(_key: string, start: string, _end: string, _count: string, count: number) {
+      const after = start.slice(1);
+      return entries.filter(([id]) => compareWsSeq(id, after) > 0).slice(0, count);
+    },
+  } as unknown as Redis;
+}
+
+// ---------------------------------------------------------------------------
+// SSE client
+// ---------------------------------------------------------------------------
+
+/** One parsed SSE message */
+interface SseMessage {
+  id?: string;
+  data: any;
+}
+
+/** An open stream that collects parsed messages as they arrive */
+interface SseClient {
+  res: Response;
+  messages: SseMessage[];
+  close(): void;
+}
+
+/** Open a stream and parse its messages in the background */
+async function openStream(query = "", headers: Record<string, string> = {}): Promise<SseClient> {
+  const controller = new AbortController();
+  const res = await fetch(`${baseUrl}/api/stream${query}`, {
+    headers: { Authorization: AUTH_HEADER, ...headers },
+    signal: controller.signal,
+  });
+  const messages: SseMessage[] = [];
+
+  (async () => {
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffer += decoder.decode(value, { stream: true });
+        let end: number;
+        while ((end = buffer.indexOf("\n\n")) !== -1) {
+          const block = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          const message: Partial<SseMessage> = {};
+          for (const line of block.split("\n")) {
+            if (line.startsWith("id: ")) message.id = line.slice(4);
+            if (line.startsWith("data: ")) message.data = JSON.parse(line.slice(6));
+          }
+          // Comments and the retry hint carry no data
+          if (message.data !== undefined) messages.push(message as SseMessage);
+        }
+      }
+    } catch {
+      // Aborted by close()
+    }
+  })();
+
+  return { res, messages, close: () => controller.abort() };
+}
+
+/** Poll until cond() holds, failing after timeoutMs */
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!cond()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await delay(10);
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ---------------------------------------------------------------------------
+// Test server lifecycle
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let wsHandle: WsServerHandle;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const sql = (() => Promise.resolve([])) as any;
+  const app = express();
+  app.use("/api", createAuthMiddleware(TEST_API_KEY, sql));
+  app.use("/api", createStreamRouter({
+    attachClient: (options) => wsHandle.attachClient(options),
+    logger,
+  }));
+  app.use(errorHandler);
+
+  server = createServer(app);
+  wsHandle = createWsServer({
+    httpServer: server,
+    logger,
+    apiKey: TEST_API_KEY,
+    replay: createRedisReplayBuffer({ redis: createFakeStreamRedis(), logger }),
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const addr = server.address();
+  if (addr && typeof addr === "object") {
+    baseUrl = `http://127.0.0.1:${addr.port}`;
+  }
+});
+
+afterAll(async () => {
+  await wsHandle.shutdown();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/stream
+// ---------------------------------------------------------------------------
+
+describe("GET /api/stream", () => {
+  test("streams subscribed broadcasts as SSE with their seq as the id", async () => {
+    const stream = await openStream();
+    try {
+      expect(stream.res.status).toBe(200);
+      expect(stream.res.headers.get("content-type")).toMatch(/^text\/event-stream/);
+      await waitFor(() => stream.messages.length === 1);
+      expect(stream.messages[0].data).toEqual({ type: "subscribed", subscription: "stream" });
+
+      const event = makeEvent();
+      wsHandle.broadcaster.broadcastEvent(event);
+      await waitFor(() => stream.messages.length === 2);
+
+      const { id, data } = stream.messages[1];
+      expect(data).toEqual({ type: "event", event, seq: id });
+      expect(id).toMatch(/^\d+-\d+$/);
+    } finally {
+      stream.close();
+    }
+  });
+
+  test("applies query filters server-side", async () => {
+    const stream = await openStream("?event_types=git.*&workspace_id=ws-1");
+    try {
+      await waitFor(() => stream.messages.length === 1);
+
+      wsHandle.broadcaster.broadcastEvent(makeEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FB0", type: "session.start" }));
+      wsHandle.broadcaster.broadcastEvent(makeEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FB1", workspace_id: "ws-2" }));
+      wsHandle.broadcaster.broadcastSessionUpdate("session-1", "ws-1", "parsed");
+      wsHandle.broadcaster.broadcastEvent(makeEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FB2", type: "git.push" }));
+
+      await waitFor(() => stream.messages.length === 2);
+      await delay(100);
+      expect(stream.messages.slice(1).map((m) => m.data.event?.id)).toEqual(["01ARZ3NDEKTSV4RRFFQ69G5FB2"]);
+    } finally {
+      stream.close();
+    }
+  });
+
+  test("shares the client registry with WebSocket clients", async () => {
+    // Streams from earlier tests detach once their connections close
+    await waitFor(() => wsHandle.getClientCount() === 0);
+    const stream = await openStream("?types=device.update");
+    const ws = new WebSocket(`${baseUrl.replace("http", "ws")}/api/ws`, {
+      headers: { Authorization: AUTH_HEADER },
+    });
+    const wsMessages: any[] = [];
+    ws.on("message", (data) => wsMessages.push(JSON.parse(data.toString())));
+    await new Promise<void>((resolve, reject) => {
+      ws.on("open", () => resolve());
+      ws.on("error", reject);
+    });
+
+    try {
+      ws.send(JSON.stringify({ type: "subscribe", filter: { types: ["device.update"] } }));
+      await waitFor(() => stream.messages.length === 1 && wsMessages.length === 1);
+      expect(wsHandle.getClientCount()).toBe(2);
+
+      wsHandle.broadcaster.broadcastDeviceUpdate("dev-1", "laptop", "online", "2025-01-01T00:00:00.000Z");
+      await waitFor(() => stream.messages.length === 2 && wsMessages.length === 2);
+      expect(stream.messages[1].data).toEqual(wsMessages[1]);
+    } finally {
+      ws.close();
+      stream.close();
+    }
+
+    // Disconnecting removes the stream from the registry
+    await waitFor(() => wsHandle.getClientCount() === 0);
+  });
+
+  test("Last-Event-ID replays broadcasts missed since that id", async () => {
+    const observer = await openStream("?session_id=session-9");
+    let lastEventId: string;
+    try {
+      await waitFor(() => observer.messages.length === 1);
+      wsHandle.broadcaster.broadcastEvent(makeEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FC0", session_id: "session-9" }));
+      await waitFor(() => observer.messages.length === 2);
+      lastEventId = observer.messages[1].id!;
+    } finally {
+      observer.close();
+    }
+
+    wsHandle.broadcaster.broadcastEvent(makeEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FC1", session_id: "session-9" }));
+    wsHandle.broadcaster.broadcastEvent(makeEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FC2", session_id: "session-other" }));
+    await delay(50);
+
+    const resumed = await openStream("?session_id=session-9", { "Last-Event-ID": lastEventId });
+    try {
+      await waitFor(() => resumed.messages.length === 2);
+      await delay(100);
+      expect(resumed.messages.map((m) => m.data.type)).toEqual(["subscribed", "event"]);
+      expect(resumed.messages[1].data.event.id).toBe("01ARZ3NDEKTSV4RRFFQ69G5FC1");
+      expect(compareWsSeq(resumed.messages[1].id!, lastEventId)).toBeGreaterThan(0);
+    } finally {
+      resumed.close();
+    }
+  });
+
+  test("an unusable resume point gets resync_required", async () => {
+    const stream = await openStream("?since=not-a-seq");
+    try {
+      await waitFor(() => stream.messages.length === 2);
+      expect(stream.messages[1].data).toEqual({
+        type: "resync_required",
+        subscription: "stream",
+        reason: "invalid_since",
+      });
+    } finally {
+      stream.close();
+    }
+  });
+
+  test("rejects invalid filters with 400", async () => {
+    const res = await fetch(`${baseUrl}/api/stream?types=session.bogus`, {
+      headers: { Authorization: AUTH_HEADER },
+    });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe("Invalid query parameters");
+  });
+
+  test("requires authentication", async () => {
+    const res = await fetch(`${baseUrl}/api/stream`);
+    expect(res.status).toBe(401);
+  });
+});
@@ -12,7 +12,7 @@
  *   4. Orphan git events (no session): returned as type='git_activity' items
  *   5. Interleaving: ordered by timestamp (session, orphan, session)
  *   6. workspace_id filter works
- *   7. device_id filter works
+ *   7. device_id and user_id filters work
  *   8. after filter works
  *   9. before filter works
  *   10. types=commit filter: only commits in git_activity
@@ -47,6 +47,7 @@ const SESSION_1 = {
   id: "sess-01",
   workspace_id: "ws-01",
   device_id: "dev-01",
+  user_id: "user-ada",
   lifecycle: "parsed",
   started_at: "2025-01-15T14:00:00.000Z",
   ended_at: "2025-01-15T15:00:00.000Z",
@@ -64,6 +65,7 @@ const SESSION_2 = {
   id: "sess-02",
   workspace_id: "ws-01",
   device_id: "dev-01",
+  user_id: "user-bob",
   lifecycle: "summarized",
   started_at: "2025-01-15T10:00:00.000Z",
   ended_at: "2025-01-15T11:00:00.000Z",
@@ -81,6 +83,7 @@ const SESSION_3 = {
   id: "sess-03",
   workspace_id: "ws-02",
   device_id: "dev-02",
+  user_id: null,
   lifecycle: "ended",
   started_at: "2025-01-15T08:00:00.000Z",
   ended_at: "2025-01-15T09:00:00.000Z",
@@ -165,6 +168,7 @@ const GIT_ORPHAN_COMMIT = {
   session_id: null,
   workspace_id: "ws-01",
   device_id: "dev-01",
+  user_id: "user-ada",
   workspace_name: "user/repo",
   device_name: "macbook-pro",
 };
@@ -184,6 +188,7 @@ const GIT_ORPHAN_MERGE = {
   session_id: null,
   workspace_id: "ws-01",
   device_id: "dev-01",
+  user_id: "user-ada",
   workspace_name: "user/repo",
   device_name: "macbook-pro",
 };
@@ -318,6 +323,11 @@ function defaultQueryHandler(queryText: string, values: unknown[]): unknown[] {
       const devId = values.find((v) => typeof v === "string" && v.startsWith("dev-"));
       if (devId) result = result.filter((s) => s.device_id === devId);
     }
+    // Apply user_id filter
+    if (queryText.includes("s.user_id =")) {
+      const userId = values.find((v) => typeof v === "string" && v.startsWith("user-"));
+      if (userId) result = result.filter((s) => s.user_id === userId);
+    }
     // Apply after filter
     if (queryText.includes("s.started_at >")) {
       const afterTs = values.find(
@@ -366,10 +376,12 @@ function defaultQueryHandler(queryText: string, values: unknown[]): unknown[] {
 
     const wsId = values.find((v) => typeof v === "string" && v.startsWith("ws-"));
     const devId = values.find((v) => typeof v === "string" && v.startsWith("dev-"));
+    const userId = values.find((v) => typeof v === "string" && v.startsWith("user-"));
     const typeFilter = values.find((v) => Array.isArray(v)) as string[] | undefined;
 
     if (wsId) result = result.filter((g) => g.workspace_id === wsId);
     if (devId) result = result.filter((g) => g.device_id === devId);
+    if (userId) result = result.filter((g) => g.user_id === userId);
     if (typeFilter) result = result.filter((g) => typeFilter.includes(g.type));
 
     return result;
@@ -692,7 +704,7 @@ describe("GET /api/timeline — workspace_id filter", () => {
 });
 
 // ---------------------------------------------------------------------------
-// 7. device_id filter
+// 7. device_id / user_id filters
 // ---------------------------------------------------------------------------
 
 describe("GET /api/timeline — device_id filter", () => {
@@ -709,6 +721,22 @@ describe("GET /api/timeline — device_id filter", () => {
   });
 });
 
+describe("GET /api/timeline — user_id filter", () => {
+  test("filters sessions and orphan git activity by user_id", async () => {
+    const res = await get("/api/timeline?user_id=user-bob");
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+
+    // Only session 2 belongs to user-bob; the orphan git events are user-ada's
+    const sessionItems = body.items.filter((i: any) => i.type === "session");
+    expect(sessionItems.length).toBe(1);
+    expect(sessionItems[0].session.id).toBe("sess-02");
+    expect(sessionItems[0].session.user_id).toBe("user-bob");
+    expect(body.items.filter((i: any) => i.type === "git_activity")).toHaveLength(0);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // 8. after filter
 // ---------------------------------------------------------------------------
@@ -925,6 +953,27 @@ describe("GET /api/timeline — git activity data field", () => {
   });
 });
 
+describe("GET /api/timeline — rewritten commits", () => {
+  test("session and orphan git queries skip rows superseded by amend/rebase", async () => {
+    const gitQueries: string[] = [];
+    const { url, close } = await withCustomServer((queryText, values) => {
+      if (queryText.includes("FROM git_activity ga")) gitQueries.push(queryText);
+      return defaultQueryHandler(queryText, values);
+    });
+
+    try {
+      const res = await get("/api/timeline", {}, url);
+      expect(res.status).toBe(200);
+      expect(gitQueries).toHaveLength(2);
+      for (const q of gitQueries) {
+        expect(q).toContain("superseded_by IS NULL");
+      }
+    } finally {
+      await close();
+    }
+  });
+});
+
 // ---------------------------------------------------------------------------
 // 15. Auth required
 // ---------------------------------------------------------------------------
@@ -0,0 +1,227 @@
+/**
+ * Integration tests for the API token endpoints.
+ *
+ * Uses a real Express app (with the real auth middleware, so scope checks
+ * are exercised) and a scripted mock SQL client: each executed query
+ * consumes the next queued result set.
+ *
+ * Test coverage:
+ *   - POST /api/tokens: returns the plaintext once, stores only the hash,
+ *     default scopes, invalid body, owning user created on first use
+ *   - GET /api/tokens: lists tokens without hashes
+ *   - DELETE /api/tokens/:id: revoke, 404, 409
+ *   - Non-admin tokens are refused (403)
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "node:http";
+import express from "express";
+import { logger } from "../../logger.js";
+import { createAuthMiddleware, hashToken } from "../../middleware/auth.js";
+import { errorHandler } from "../../middleware/error-handler.js";
+import { createTokensRouter } from "../tokens.js";
+
+// ---------------------------------------------------------------------------
+// Test constants
+// ---------------------------------------------------------------------------
+
+const TEST_API_KEY = "fc_test_key_for_tokens";
+const AUTH_HEADER = `Bearer ${TEST_API_KEY}`;
+
+function makeToken(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    name: "laptop",
+    token_prefix: "fc_abcdefg",
+    scopes: ["read", "ingest"],
+    user_id: null,
+    created_by: "API_KEY",
+    created_at: "2025-06-01T00:00:00.000Z",
+    expires_at: null,
+    last_used_at: null,
+    revoked_at: null,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Mock SQL
+// ---------------------------------------------------------------------------
+
+let queries: Array<{ text: string; values: unknown[] }> = [];
+let resultQueue: unknown[][] = [];
+
+function buildMockSql() {
+  const sqlFn: any = (first: unknown, ...values: unknown[]) => {
+    // sql(columns) identifier helper — not a query
+    if (!Array.isArray(first) || !("raw" in first)) return { helper: first };
+    queries.push({ text: (first as unknown as string[]).join("$"), values });
+    const rows = resultQueue.shift() ?? [];
+    return Promise.resolve(Object.assign([...rows], { count: rows.length }));
+  };
+  return sqlFn;
+}
+
+// ---------------------------------------------------------------------------
+// Test server lifecycle
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const sql = buildMockSql();
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use("/api", createAuthMiddleware(TEST_API_KEY, sql));
+  app.use("/api", createTokensRouter({ sql, logger }));
+  app.use(errorHandler);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, () => {
+      const addr = server.address();
+      if (addr && typeof addr === "object") {
+        baseUrl = `http://127.0.0.1:${addr.port}`;
+      }
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+  });
+});
+
+beforeEach(() => {
+  queries = [];
+  resultQueue = [];
+});
+
+/** Authenticated request against the test server */
+function request(method: string, path: string, body?: unknown, auth = AUTH_HEADER) {
+  return fetch(`${baseUrl}/api${path}`, {
+    method,
+    headers: { Authorization: auth, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/tokens
+// ---------------------------------------------------------------------------
+
+describe("POST /api/tokens", () => {
+  test("creates a token, returning the plaintext once and storing its hash", async () => {
+    resultQueue = [[makeToken("tok-1", { scopes: ["admin"] })]];
+
+    const res = await request("POST", "/tokens", { name: "ci", scopes: ["admin", "admin"], expires_in_days: 30 });
+    expect(res.status).toBe(201);
+
+    const body = await res.json();
+    expect(body.token).toMatch(/^fc_/);
+    expect(body.api_token.id).toBe("tok-1");
+
+    const [insert] = queries;
+    expect(insert.text).toContain("INSERT INTO api_tokens");
+    // values: id, name, hash, prefix, scopes, created_by, expires_at, user_id
+    expect(insert.values[1]).toBe("ci");
+    expect(insert.values[2]).toBe(hashToken(body.token));
+    expect(insert.values[3]).toBe(body.token.slice(0, 10));
+    expect(insert.values[4]).toEqual(["admin"]);
+    expect(insert.values[5]).toBe("API_KEY");
+    expect(typeof insert.values[6]).toBe("string");
+    expect(insert.values).not.toContain(body.token);
+  });
+
+  test("defaults to read + ingest without expiry", async () => {
+    resultQueue = [[makeToken("tok-2")]];
+
+    const res = await request("POST", "/tokens", { name: "laptop" });
+    expect(res.status).toBe(201);
+    expect(queries[0].values[4]).toEqual(["read", "ingest"]);
+    expect(queries[0].values[6]).toBeNull();
+    expect(queries[0].values[7]).toBeNull();
+  });
+
+  test("finds or creates the owning user and links the token", async () => {
+    resultQueue = [[{ id: "user-1" }], [makeToken("tok-3", { user_id: "user-1" })]];
+
+    const res = await request("POST", "/tokens", { name: "laptop", user: "ada", email: "ada@example.com" });
+    expect(res.status).toBe(201);
+
+    const body = await res.json();
+    expect(body.api_token.user_id).toBe("user-1");
+    expect(body.api_token.user_name).toBe("ada");
+
+    expect(queries[0].text).toContain("INSERT INTO users");
+    expect(queries[0].text).toContain("ON CONFLICT (name)");
+    expect(queries[0].values.slice(1)).toEqual(["ada", "ada@example.com"]);
+    expect(queries[1].text).toContain("INSERT INTO api_tokens");
+    expect(queries[1].values[7]).toBe("user-1");
+  });
+
+  test("rejects an unknown scope", async () => {
+    const res = await request("POST", "/tokens", { name: "laptop", scopes: ["write"] });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Invalid request body");
+    expect(queries).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/tokens
+// ---------------------------------------------------------------------------
+
+describe("GET /api/tokens", () => {
+  test("lists tokens newest first", async () => {
+    resultQueue = [[makeToken("tok-2"), makeToken("tok-1", { revoked_at: "2025-06-02T00:00:00.000Z" })]];
+
+    const res = await request("GET", "/tokens");
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.tokens.map((t: { id: string }) => t.id)).toEqual(["tok-2", "tok-1"]);
+    expect(queries[0].text).toContain("ORDER BY created_at DESC");
+  });
+
+  test("is refused for tokens without the admin scope", async () => {
+    const named = "fc_named_read_ingest_token";
+    resultQueue = [[{ id: "tok-1", name: "laptop", scopes: ["read", "ingest"] }]];
+
+    const res = await request("GET", "/tokens", undefined, `Bearer ${named}`);
+    expect(res.status).toBe(403);
+    // Only the token lookup (and its last_used_at touch) ran — no listing
+    expect(queries.some((q) => q.text.includes("ORDER BY created_at"))).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// DELETE /api/tokens/:id
+// ---------------------------------------------------------------------------
+
+describe("DELETE /api/tokens/:id", () => {
+  test("revokes an active token", async () => {
+    resultQueue = [[makeToken("tok-1", { revoked_at: "2025-06-02T00:00:00.000Z" })]];
+
+    const res = await request("DELETE", "/tokens/tok-1");
+    expect(res.status).toBe(200);
+    expect((await res.json()).api_token.revoked_at).toBe("2025-06-02T00:00:00.000Z");
+    expect(queries[0].text).toContain("SET revoked_at = now()");
+  });
+
+  test("returns 404 for an unknown token", async () => {
+    resultQueue = [[], []];
+
+    const res = await request("DELETE", "/tokens/nope");
+    expect(res.status).toBe(404);
+  });
+
+  test("returns 409 for an already revoked token", async () => {
+    resultQueue = [[], [{ id: "tok-1" }]];
+
+    const res = await request("DELETE", "/tokens/tok-1");
+    expect(res.status).toBe(409);
+  });
+});
@@ -11,6 +11,8 @@
  *   4. Upload for an "ended" session: stores in S3, enqueues reconcile
  *   5. No auth header: 401
  *   6. Empty body: 400
+ *   7. Compaction snapshot: stored under compact-{n}.jsonl, session untouched
+ *   8. Invalid compact_sequence: 400
  */
 
 import { describe, test, expect, beforeAll, afterAll, mock } from "bun:test";
@@ -264,8 +266,9 @@ async function uploadTranscript(
   sessionId: string,
   body: Buffer | string = Buffer.from('{"type":"test"}\n'),
   headers: Record<string, string> = {},
+  query = "",
 ) {
-  return fetch(`${baseUrl}/api/sessions/${sessionId}/transcript/upload`, {
+  return fetch(`${baseUrl}/api/sessions/${sessionId}/transcript/upload${query}`, {
     method: "POST",
     headers: {
       "Content-Type": "application/x-ndjson",
@@ -357,4 +360,26 @@ describe("POST /api/sessions/:id/transcript/upload", () => {
     // With streaming upload, empty body is caught via Content-Length check
     expect(body.error).toContain("Content-Length");
   });
+
+  test("compaction snapshot is stored next to the raw transcript without touching the session", async () => {
+    const updatesBefore = mockSqlResult.updateCalls.length;
+
+    // Even a session whose final transcript is uploaded can take snapshots
+    const res = await uploadTranscript(SESSION_ID_ALREADY, Buffer.from('{"type":"user"}\n'), {}, "?compact_sequence=1");
+    expect(res.status).toBe(202);
+
+    const body = await res.json();
+    expect(body.s3_key).toBe(`transcripts/${CANONICAL_ID}/${SESSION_ID_ALREADY}/compact-1.jsonl`);
+    expect(body.compact_sequence).toBe(1);
+    expect(body.pipeline_triggered).toBe(false);
+
+    const lastUpload = mockS3Result.uploads[mockS3Result.uploads.length - 1];
+    expect(lastUpload.key).toBe(body.s3_key);
+    expect(mockSqlResult.updateCalls.length).toBe(updatesBefore);
+  });
+
+  test("invalid compact_sequence returns 400", async () => {
+    const res = await uploadTranscript(SESSION_ID_DETECTED, undefined, {}, "?compact_sequence=-1");
+    expect(res.status).toBe(400);
+  });
 });
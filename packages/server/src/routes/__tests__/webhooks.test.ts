@@ -0,0 +1,321 @@
+/**
+ * Integration tests for the webhook endpoints.
+ *
+ * Uses a real Express app (with the real auth middleware, so scope checks
+ * are exercised), a scripted mock SQL client (each executed query consumes
+ * the next queued result set; conditional fragments are folded into the
+ * query that uses them), and a stub dispatcher for test deliveries.
+ *
+ * Test coverage:
+ *   - POST /api/webhooks: returns a generated secret once, filters and
+ *     workspace stored, invalid body, unknown workspace
+ *   - GET /api/webhooks: lists webhooks without secrets
+ *   - DELETE /api/webhooks/:id: delete, 404
+ *   - POST /api/webhooks/:id/test: returns the delivery, 404
+ *   - GET /api/webhooks/:id/deliveries: status filter and limit, 404
+ *   - Non-admin tokens are refused (403)
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "node:http";
+import express from "express";
+import type { WebhookDispatcher } from "@fuel-code/core";
+import { logger } from "../../logger.js";
+import { createAuthMiddleware } from "../../middleware/auth.js";
+import { errorHandler } from "../../middleware/error-handler.js";
+import { createWebhooksRouter } from "../webhooks.js";
+
+// ---------------------------------------------------------------------------
+// Test constants
+// ---------------------------------------------------------------------------
+
+const TEST_API_KEY = "fc_test_key_for_webhooks";
+const AUTH_HEADER = `Bearer ${TEST_API_KEY}`;
+const WORKSPACE_ID = "01JWORKSPACE00000000000000";
+
+function makeWebhook(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    url: "https://ci.example.com/hooks/fuel",
+    description: null,
+    event_types: ["session.complete"],
+    workspace_id: null,
+    secret_prefix: "whsec_abcdef",
+    created_by: "API_KEY",
+    created_at: "2025-06-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function makeDelivery(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    webhook_id: "wh-1",
+    event_type: "session.complete",
+    event_id: null,
+    payload: { id, type: "session.complete", workspace_id: WORKSPACE_ID, session_id: "s-1", timestamp: "2025-06-01T00:00:00.000Z", data: {} },
+    status: "succeeded",
+    attempts: 1,
+    next_attempt_at: null,
+    last_status_code: 200,
+    last_error: null,
+    created_at: "2025-06-01T00:00:00.000Z",
+    delivered_at: "2025-06-01T00:00:01.000Z",
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Mock SQL and dispatcher
+// ---------------------------------------------------------------------------
+
+let queries: Array<{ text: string; values: unknown[] }> = [];
+let resultQueue: unknown[][] = [];
+let testDelivery: unknown = null;
+let testedIds: string[] = [];
+
+const FRAGMENT_MARKER = Symbol("sql-fragment");
+
+function buildMockSql() {
+  const sqlFn: any = (first: unknown, ...values: unknown[]) => {
+    // sql(columns) identifier helper — not a query
+    if (!Array.isArray(first) || !("raw" in first)) return { helper: first };
+
+    let text = (first as unknown as string[]).join("$");
+    const allValues: unknown[] = [];
+    for (const v of values) {
+      if (v && typeof v === "object" && FRAGMENT_MARKER in v) {
+        text += " " + (v as any).text;
+        allValues.push(...(v as any).values);
+      } else {
+        allValues.push(v);
+      }
+    }
+
+    // Conditional fragments (sql`AND ...`, sql``) are not queries
+    if (!/SELECT|INSERT|UPDATE|DELETE/i.test(text)) {
+      return { [FRAGMENT_MARKER]: true, text, values: allValues };
+    }
+
+    queries.push({ text, values: allValues });
+    const rows = resultQueue.shift() ?? [];
+    return Promise.resolve(Object.assign([...rows], { count: rows.length }));
+  };
+  return sqlFn;
+}
+
+const dispatcher = {
+  sendTest: async (id: string) => {
+    testedIds.push(id);
+    return testDelivery;
+  },
+} as unknown as WebhookDispatcher;
+
+// ---------------------------------------------------------------------------
+// Test server lifecycle
+// ---------------------------------------------------------------------------
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const sql = buildMockSql();
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use("/api", createAuthMiddleware(TEST_API_KEY, sql));
+  app.use("/api", createWebhooksRouter({ sql, logger, dispatcher }));
+  app.use(errorHandler);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, () => {
+      const addr = server.address();
+      if (addr && typeof addr === "object") {
+        baseUrl = `http://127.0.0.1:${addr.port}`;
+      }
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+  });
+});
+
+beforeEach(() => {
+  queries = [];
+  resultQueue = [];
+  testDelivery = null;
+  testedIds = [];
+});
+
+/** Authenticated request against the test server */
+function request(method: string, path: string, body?: unknown, auth = AUTH_HEADER) {
+  return fetch(`${baseUrl}/api${path}`, {
+    method,
+    headers: { Authorization: auth, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/webhooks
+// ---------------------------------------------------------------------------
+
+describe("POST /api/webhooks", () => {
+  test("creates a webhook and returns a generated secret once", async () => {
+    resultQueue = [[makeWebhook("wh-1")]];
+
+    const res = await request("POST", "/webhooks", {
+      url: "https://ci.example.com/hooks/fuel",
+      event_types: ["session.complete", "git.*", "session.complete"],
+    });
+    expect(res.status).toBe(201);
+
+    const body = await res.json();
+    expect(body.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(body.webhook).toMatchObject({ id: "wh-1", workspace_name: null });
+    expect(body.webhook.secret).toBeUndefined();
+
+    const [insert] = queries;
+    expect(insert.text).toContain("INSERT INTO webhooks");
+    // values: id, url, secret, description, event_types, workspace_id, created_by, prefix length
+    expect(insert.values[1]).toBe("https://ci.example.com/hooks/fuel");
+    expect(insert.values[2]).toBe(body.secret);
+    expect(insert.values[4]).toEqual(["session.complete", "git.*"]);
+    expect(insert.values[5]).toBeNull();
+    expect(insert.values[6]).toBe("API_KEY");
+  });
+
+  test("scopes the webhook to an existing workspace and keeps a given secret", async () => {
+    resultQueue = [[{ display_name: "fuel-code" }], [makeWebhook("wh-2", { workspace_id: WORKSPACE_ID })]];
+
+    const res = await request("POST", "/webhooks", {
+      url: "http://localhost:9000/hook",
+      workspace_id: WORKSPACE_ID,
+      secret: "my-own-secret-1234",
+    });
+    expect(res.status).toBe(201);
+
+    const body = await res.json();
+    expect(body.secret).toBe("my-own-secret-1234");
+    expect(body.webhook.workspace_name).toBe("fuel-code");
+    expect(queries[1].values[5]).toBe(WORKSPACE_ID);
+  });
+
+  test("returns 404 for an unknown workspace", async () => {
+    resultQueue = [[]];
+
+    const res = await request("POST", "/webhooks", { url: "https://x.example.com", workspace_id: "nope" });
+    expect(res.status).toBe(404);
+    expect(queries).toHaveLength(1);
+  });
+
+  test("rejects unknown event types and non-http URLs", async () => {
+    for (const body of [
+      { url: "https://x.example.com", event_types: ["session.bogus"] },
+      { url: "ftp://x.example.com" },
+    ]) {
+      const res = await request("POST", "/webhooks", body);
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toBe("Invalid request body");
+    }
+    expect(queries).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/webhooks
+// ---------------------------------------------------------------------------
+
+describe("GET /api/webhooks", () => {
+  test("lists webhooks with their latest delivery, never the secret", async () => {
+    resultQueue = [[makeWebhook("wh-2", { last_delivery_status: "failed" }), makeWebhook("wh-1")]];
+
+    const res = await request("GET", "/webhooks");
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.webhooks.map((w: { id: string }) => w.id)).toEqual(["wh-2", "wh-1"]);
+    expect(queries[0].text).toContain("LEFT(w.secret");
+    expect(queries[0].text).not.toMatch(/SELECT[^(]*\bw\.secret\b/);
+  });
+
+  test("is refused for tokens without the admin scope", async () => {
+    resultQueue = [[{ id: "tok-1", name: "laptop", scopes: ["read", "ingest"] }]];
+
+    const res = await request("GET", "/webhooks", undefined, "Bearer fc_named_read_ingest_token");
+    expect(res.status).toBe(403);
+    expect(queries.some((q) => q.text.includes("FROM webhooks"))).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// DELETE /api/webhooks/:id
+// ---------------------------------------------------------------------------
+
+describe("DELETE /api/webhooks/:id", () => {
+  test("deletes a webhook", async () => {
+    resultQueue = [[{ id: "wh-1", url: "https://x.example.com" }]];
+
+    const res = await request("DELETE", "/webhooks/wh-1");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ deleted: true, id: "wh-1" });
+    expect(queries[0].text).toContain("DELETE FROM webhooks");
+  });
+
+  test("returns 404 for an unknown webhook", async () => {
+    const res = await request("DELETE", "/webhooks/nope");
+    expect(res.status).toBe(404);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/webhooks/:id/test
+// ---------------------------------------------------------------------------
+
+describe("POST /api/webhooks/:id/test", () => {
+  test("returns the test delivery", async () => {
+    testDelivery = makeDelivery("del-1", { event_type: "webhook.test" });
+
+    const res = await request("POST", "/webhooks/wh-1/test");
+    expect(res.status).toBe(200);
+    expect((await res.json()).delivery.event_type).toBe("webhook.test");
+    expect(testedIds).toEqual(["wh-1"]);
+  });
+
+  test("returns 404 for an unknown webhook", async () => {
+    const res = await request("POST", "/webhooks/nope/test");
+    expect(res.status).toBe(404);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/webhooks/:id/deliveries
+// ---------------------------------------------------------------------------
+
+describe("GET /api/webhooks/:id/deliveries", () => {
+  test("returns the log filtered by status", async () => {
+    resultQueue = [[{ id: "wh-1" }], [makeDelivery("del-2", { status: "failed" })]];
+
+    const res = await request("GET", "/webhooks/wh-1/deliveries?status=failed&limit=10");
+    expect(res.status).toBe(200);
+    expect((await res.json()).deliveries).toHaveLength(1);
+    expect(queries[1].text).toContain("AND status =");
+    expect(queries[1].values).toEqual(["wh-1", "failed", 10]);
+  });
+
+  test("defaults to the 50 newest deliveries of any status", async () => {
+    resultQueue = [[{ id: "wh-1" }], []];
+
+    await request("GET", "/webhooks/wh-1/deliveries");
+    expect(queries[1].text).not.toContain("AND status =");
+    expect(queries[1].values).toEqual(["wh-1", 50]);
+  });
+
+  test("returns 404 for an unknown webhook and 400 for a bad status", async () => {
+    expect((await request("GET", "/webhooks/nope/deliveries")).status).toBe(404);
+    expect((await request("GET", "/webhooks/wh-1/deliveries?status=lost")).status).toBe(400);
+  });
+});
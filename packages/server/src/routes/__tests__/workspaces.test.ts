@@ -5,10 +5,15 @@
  * The mock SQL is a proxy that intercepts postgres.js tagged template calls
  * and returns canned data based on query patterns.
  *
- * Test coverage (26 tests):
+ * Test coverage (28 tests):
  *   - GET /api/workspaces: list, pagination, cursor validation, limit validation
  *   - GET /api/workspaces/:id: ULID lookup, name lookup, canonical_id lookup,
- *     ambiguous name 400, 404, response shape, parallel queries
+ *     ambiguous name 400, 404, response shape, parallel queries,
+ *     per-user contributors and the user_id filter
+ *   - GET /api/workspaces/:id/files: chronological sessions and commits,
+ *     path normalization and directory matching, 400, 404
+ *   - POST /api/workspaces/merge, POST /api/workspaces/unmerge,
+ *     GET /api/workspaces/merges, and lookup through merged canonical IDs
  *   - Auth: 401 without token
  */
 
@@ -159,6 +164,27 @@ const WORKSPACE_STATS = {
   last_session_at: "2025-01-15T14:00:00.000Z",
 };
 
+const CONTRIBUTORS = [
+  {
+    user_id: "01JUSER00000000000000000A1",
+    user_name: "ada",
+    session_count: 3,
+    active_sessions: 1,
+    total_duration_ms: "12000000",
+    total_cost_usd: "1.75",
+    last_session_at: "2025-01-15T14:00:00.000Z",
+  },
+  {
+    user_id: null,
+    user_name: null,
+    session_count: 2,
+    active_sessions: 0,
+    total_duration_ms: "6000000",
+    total_cost_usd: "0.75",
+    last_session_at: "2025-01-12T09:00:00.000Z",
+  },
+];
+
 // ---------------------------------------------------------------------------
 // Mock SQL factory (fragment-aware, same pattern as timeline tests)
 // ---------------------------------------------------------------------------
@@ -213,7 +239,7 @@ function buildMockSql(
     return Promise.resolve(queryHandler(fullText, allValues));
   }
 
-  const proxy = new Proxy(sqlTaggedTemplate, {
+  const proxy: any = new Proxy(sqlTaggedTemplate, {
     apply(_target, _thisArg, args) {
       if (args[0] && Array.isArray(args[0]) && "raw" in args[0]) {
         return sqlTaggedTemplate(
@@ -225,6 +251,9 @@ function buildMockSql(
     },
   });
 
+  // Transactions run against the same mock
+  (sqlTaggedTemplate as any).begin = async (cb: (tx: unknown) => Promise<void>) => cb(proxy);
+
   return proxy;
 }
 
@@ -258,6 +287,11 @@ function defaultQueryHandler(queryText: string, values: unknown[]): unknown[] {
     return matches;
   }
 
+  // Per-user contributor breakdown
+  if (queryText.includes("FROM sessions s") && queryText.includes("LEFT JOIN users u")) {
+    return CONTRIBUTORS;
+  }
+
   // Recent sessions for workspace detail
   if (queryText.includes("FROM sessions s") && queryText.includes("JOIN devices d") && queryText.includes("s.workspace_id =")) {
     return RECENT_SESSIONS;
@@ -372,6 +406,15 @@ async function get(
   });
 }
 
+/** Authenticated POST with a JSON body */
+async function post(path: string, body: unknown, url?: string) {
+  return fetch(`${url || baseUrl}${path}`, {
+    method: "POST",
+    headers: { Authorization: AUTH_HEADER, "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
 /** Start a temporary server with a custom query handler. Returns base URL and cleanup. */
 async function withCustomServer(
   handler: (queryText: string, values: unknown[]) => unknown[],
@@ -729,6 +772,352 @@ describe("GET /api/workspaces/:id — response shape", () => {
   });
 });
 
+describe("GET /api/workspaces/:id — per-user activity", () => {
+  test("contributors break sessions down by user", async () => {
+    const res = await get(`/api/workspaces/${WORKSPACE_1.id}`);
+    const body = await res.json();
+
+    expect(body.contributors).toHaveLength(2);
+    expect(body.contributors[0].user_name).toBe("ada");
+    expect(body.contributors[0].session_count).toBe(3);
+    expect(body.contributors[1].user_id).toBeNull();
+  });
+
+  test("user_id filters sessions, devices, git summary, and stats but not contributors", async () => {
+    const seen: Array<{ text: string; values: unknown[] }> = [];
+    const { url, close } = await withCustomServer((queryText, values) => {
+      seen.push({ text: queryText, values });
+      return defaultQueryHandler(queryText, values);
+    });
+
+    try {
+      const userId = CONTRIBUTORS[0].user_id;
+      const res = await get(`/api/workspaces/${WORKSPACE_1.id}?user_id=${userId}`, {}, url);
+      expect(res.status).toBe(200);
+      expect((await res.json()).contributors).toHaveLength(2);
+
+      const filtered = seen.filter((q) => q.values.includes(userId));
+      expect(filtered.some((q) => q.text.includes("AND s.user_id ="))).toBe(true);
+      expect(filtered.some((q) => q.text.includes("AND d.user_id ="))).toBe(true);
+      expect(filtered.filter((q) => q.text.includes("AND user_id ="))).toHaveLength(2);
+
+      const contributorsQuery = seen.find((q) => q.text.includes("LEFT JOIN users u"));
+      expect(contributorsQuery?.values).not.toContain(userId);
+    } finally {
+      await close();
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Workspace merges
+// ---------------------------------------------------------------------------
+
+/** An active merge of a local workspace into WORKSPACE_1 */
+const MERGE_ROW = {
+  id: "01HQRS0000MERGE000001AAAAA",
+  source_workspace_id: "01HQRS0000WORKSPACE9LOCALA",
+  source_canonical_id: "local:abc123",
+  target_workspace_id: WORKSPACE_1.id,
+  target_canonical_id: WORKSPACE_1.canonical_id,
+  reason: "auto",
+  session_count: 2,
+  session_ids: ["sess-01", "sess-02"],
+  event_ids: [],
+  git_activity_ids: [],
+  moved_device_ids: [],
+  repointed_aliases: [],
+  source_workspace: { id: "01HQRS0000WORKSPACE9LOCALA", canonical_id: "local:abc123" },
+  source_devices: [],
+  merged_at: "2025-01-16T10:00:00.000Z",
+  unmerged_at: null,
+};
+
+/**
+ * Handler for merge tests: records every query, locks workspaces from
+ * ALL_WORKSPACES, serves MERGE_ROW when `hasMerge`, and falls back to the
+ * default lookups.
+ */
+function mergeQueryHandler(recorded: Array<{ text: string; values: unknown[] }>, hasMerge = true) {
+  return (queryText: string, values: unknown[]): unknown[] => {
+    recorded.push({ text: queryText, values });
+
+    if (queryText.includes("to_jsonb(workspaces)") && queryText.includes("FOR UPDATE")) {
+      return ALL_WORKSPACES.filter((w) => values.includes(w.id)).map((w) => ({ ...w, snapshot: w }));
+    }
+    if (queryText.includes("UPDATE sessions") && queryText.includes("RETURNING id")) {
+      return [{ id: "sess-01" }, { id: "sess-02" }];
+    }
+    if (queryText.includes("FROM workspace_merges")) {
+      return hasMerge ? [MERGE_ROW] : [];
+    }
+    return defaultQueryHandler(queryText, values);
+  };
+}
+
+describe("POST /api/workspaces/merge", () => {
+  test("merges the source into the target, resolving names and canonical IDs", async () => {
+    const recorded: Array<{ text: string; values: unknown[] }> = [];
+    const { url, close } = await withCustomServer(mergeQueryHandler(recorded));
+    try {
+      const res = await post(
+        "/api/workspaces/merge",
+        { source: "user/repo-beta", target: WORKSPACE_1.canonical_id },
+        url,
+      );
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.merged).toBe(true);
+      expect(body.sourceWorkspaceId).toBe(WORKSPACE_2.id);
+      expect(body.targetWorkspaceId).toBe(WORKSPACE_1.id);
+      expect(body.sessions).toBe(2);
+
+      const record = recorded.find((q) => q.text.includes("INSERT INTO workspace_merges"));
+      expect(record?.values).toContain("manual");
+      expect(recorded.some((q) => q.text.includes("DELETE FROM workspaces"))).toBe(true);
+    } finally {
+      await close();
+    }
+  });
+
+  test("returns 404 for an unknown workspace", async () => {
+    const res = await post("/api/workspaces/merge", {
+      source: "nobody/nothing",
+      target: WORKSPACE_1.id,
+    });
+    expect(res.status).toBe(404);
+
+    const body = await res.json();
+    expect(body.error).toBe("Workspace not found: nobody/nothing");
+  });
+
+  test("returns 409 when source and target are the same workspace", async () => {
+    const res = await post("/api/workspaces/merge", {
+      source: WORKSPACE_1.id,
+      target: WORKSPACE_1.canonical_id,
+    });
+    expect(res.status).toBe(409);
+  });
+
+  test("returns 400 for a missing target", async () => {
+    const res = await post("/api/workspaces/merge", { source: WORKSPACE_1.id });
+    expect(res.status).toBe(400);
+
+    const body = await res.json();
+    expect(body.error).toBe("Invalid request body");
+  });
+});
+
+describe("POST /api/workspaces/unmerge", () => {
+  test("restores the merged-away workspace", async () => {
+    const recorded: Array<{ text: string; values: unknown[] }> = [];
+    const { url, close } = await withCustomServer(mergeQueryHandler(recorded));
+    try {
+      const res = await post("/api/workspaces/unmerge", { canonical_id: "local:abc123" }, url);
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.unmerged).toBe(true);
+      expect(body.mergeId).toBe(MERGE_ROW.id);
+      expect(body.sourceWorkspaceId).toBe(MERGE_ROW.source_workspace_id);
+
+      expect(recorded.some((q) => q.text.includes("jsonb_populate_record("))).toBe(true);
+      expect(recorded.some((q) => q.text.includes("SET unmerged_at"))).toBe(true);
+    } finally {
+      await close();
+    }
+  });
+
+  test("returns 404 when there is no active merge", async () => {
+    const { url, close } = await withCustomServer(mergeQueryHandler([], false));
+    try {
+      const res = await post("/api/workspaces/unmerge", { merge_id: "01HQRS0000MERGE000009ZZZZZ" }, url);
+      expect(res.status).toBe(404);
+    } finally {
+      await close();
+    }
+  });
+
+  test("returns 400 unless exactly one of canonical_id and merge_id is given", async () => {
+    expect((await post("/api/workspaces/unmerge", {})).status).toBe(400);
+    expect(
+      (await post("/api/workspaces/unmerge", { canonical_id: "local:abc123", merge_id: MERGE_ROW.id })).status,
+    ).toBe(400);
+  });
+});
+
+describe("GET /api/workspaces/merges", () => {
+  test("lists active merges", async () => {
+    const recorded: Array<{ text: string; values: unknown[] }> = [];
+    const { url, close } = await withCustomServer(mergeQueryHandler(recorded));
+    try {
+      const res = await get("/api/workspaces/merges", {}, url);
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.merges).toHaveLength(1);
+      expect(body.merges[0]).toMatchObject({
+        id: MERGE_ROW.id,
+        sourceCanonicalId: "local:abc123",
+        targetCanonicalId: WORKSPACE_1.canonical_id,
+        reason: "auto",
+        sessions: 2,
+      });
+      expect(recorded[0].values).toEqual([false]);
+    } finally {
+      await close();
+    }
+  });
+
+  test("?all=true includes undone merges", async () => {
+    const recorded: Array<{ text: string; values: unknown[] }> = [];
+    const { url, close } = await withCustomServer(mergeQueryHandler(recorded));
+    try {
+      const res = await get("/api/workspaces/merges?all=true", {}, url);
+      expect(res.status).toBe(200);
+      expect(recorded[0].values).toEqual([true]);
+    } finally {
+      await close();
+    }
+  });
+});
+
+describe("GET /api/workspaces/:id — merged canonical IDs", () => {
+  test("a merged-away canonical ID resolves to the absorbing workspace", async () => {
+    const { url, close } = await withCustomServer((queryText, values) => {
+      if (queryText.includes("LOWER(display_name)") && queryText.includes("workspace_aliases")) {
+        return values.includes("local:abc123") ? [WORKSPACE_1] : [];
+      }
+      return defaultQueryHandler(queryText, values);
+    });
+    try {
+      const res = await get("/api/workspaces/local:abc123", {}, url);
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.workspace.id).toBe(WORKSPACE_1.id);
+    } finally {
+      await close();
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/workspaces/:id/files
+// ---------------------------------------------------------------------------
+
+/** session_files aggregates: one session and two commits touching src/auth */
+const FILE_SESSION_ROWS = [
+  {
+    session_id: "sess-01",
+    lifecycle: "summarized",
+    started_at: "2025-01-15T10:00:00.000Z",
+    summary: "Refactored the auth middleware",
+    initial_prompt: "Clean up auth",
+    first_accessed_at: "2025-01-15T10:05:00.000Z",
+    wrote: true,
+    paths: ["src/auth/middleware.ts", "src/auth/index.ts"],
+    tools: ["Read", "Edit"],
+  },
+];
+
+const FILE_COMMIT_ROWS = [
+  {
+    git_activity_id: "ga-02",
+    commit_sha: "bbbbbbb2222222",
+    message: "Tighten token checks",
+    branch: "main",
+    session_id: null,
+    timestamp: "2025-01-16T09:00:00.000Z",
+    paths: ["src/auth/middleware.ts"],
+  },
+  {
+    git_activity_id: "ga-01",
+    commit_sha: "aaaaaaa1111111",
+    message: "Refactor auth middleware",
+    branch: "main",
+    session_id: "sess-01",
+    timestamp: "2025-01-15T10:30:00.000Z",
+    paths: ["src/auth/index.ts", "src/auth/middleware.ts"],
+  },
+];
+
+/** Handler for file history tests: records queries, serves the rows above */
+function filesQueryHandler(recorded: Array<{ text: string; values: unknown[] }>) {
+  return (queryText: string, values: unknown[]): unknown[] => {
+    recorded.push({ text: queryText, values });
+    if (queryText.includes("FROM session_files sf") && queryText.includes("JOIN sessions s")) {
+      return FILE_SESSION_ROWS;
+    }
+    if (queryText.includes("FROM session_files sf") && queryText.includes("JOIN git_activity ga")) {
+      return FILE_COMMIT_ROWS;
+    }
+    return defaultQueryHandler(queryText, values);
+  };
+}
+
+describe("GET /api/workspaces/:id/files", () => {
+  test("merges sessions and commits oldest first", async () => {
+    const recorded: Array<{ text: string; values: unknown[] }> = [];
+    const { url, close } = await withCustomServer(filesQueryHandler(recorded));
+    try {
+      const res = await get(`/api/workspaces/${WORKSPACE_1.id}/files?path=src/auth`, {}, url);
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.workspace_id).toBe(WORKSPACE_1.id);
+      expect(body.path).toBe("src/auth");
+      expect(body.entries.map((e: any) => [e.kind, e.timestamp])).toEqual([
+        ["session", "2025-01-15T10:05:00.000Z"],
+        ["commit", "2025-01-15T10:30:00.000Z"],
+        ["commit", "2025-01-16T09:00:00.000Z"],
+      ]);
+      expect(body.entries[0]).toMatchObject({
+        session_id: "sess-01",
+        access: "write",
+        paths: ["src/auth/index.ts", "src/auth/middleware.ts"],
+        tools: ["Edit", "Read"],
+      });
+      expect(body.entries[1].commit_sha).toBe("aaaaaaa1111111");
+    } finally {
+      await close();
+    }
+  });
+
+  test("normalizes the path and matches files under a directory", async () => {
+    const recorded: Array<{ text: string; values: unknown[] }> = [];
+    const { url, close } = await withCustomServer(filesQueryHandler(recorded));
+    try {
+      const res = await get(`/api/workspaces/${WORKSPACE_1.id}/files?path=./src/auth_v2/`, {}, url);
+      expect((await res.json()).path).toBe("src/auth_v2");
+
+      const fileQueries = recorded.filter((q) => q.text.includes("FROM session_files sf"));
+      expect(fileQueries).toHaveLength(2);
+      for (const q of fileQueries) {
+        expect(q.values).toContain("src/auth_v2");
+        expect(q.values).toContain("src/auth\\_v2/%");
+      }
+
+      const commits = fileQueries.find((q) => q.text.includes("JOIN git_activity ga"));
+      expect(commits?.text).toContain("superseded_by IS NULL");
+    } finally {
+      await close();
+    }
+  });
+
+  test("returns 400 without a path", async () => {
+    const res = await get(`/api/workspaces/${WORKSPACE_1.id}/files`);
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Invalid query parameters");
+  });
+
+  test("returns 404 for an unknown workspace", async () => {
+    const res = await get("/api/workspaces/01HQRS0000NONEXISTENT000AA/files?path=src");
+    expect(res.status).toBe(404);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Auth
 // ---------------------------------------------------------------------------
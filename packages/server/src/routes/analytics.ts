@@ -0,0 +1,325 @@
+/**
+ * Usage analytics endpoint for fuel-code.
+ *
+ * GET /api/analytics/usage — tokens, cache hit ratio, cost, session count,
+ * duration, and commits in hour/day/week buckets, optionally grouped by
+ * workspace, device, model, or tag.
+ *
+ * Two query paths:
+ *   - Day and week buckets read the daily_usage rollup (maintained by
+ *     @fuel-code/core's refreshDailyUsage as sessions are parsed/repriced).
+ *   - Hour buckets, and grouping by tag, aggregate sessions directly: the
+ *     rollup is per day, and tags can change after a session is parsed.
+ *
+ * Buckets are aligned to UTC; the range start is rounded down to its bucket
+ * so every returned bucket is complete at the front. Empty buckets are
+ * omitted — clients fill gaps when charting.
+ */
+
+import { Router } from "express";
+import type { Request, Response, NextFunction } from "express";
+import type { Sql } from "postgres";
+import type { Logger } from "pino";
+import {
+  usageQuerySchema,
+  type UsageBucket,
+  type UsageGroupBy,
+  type UsageMetrics,
+  type UsageRow,
+} from "@fuel-code/shared";
+import { ROLLUP_LIFECYCLES } from "@fuel-code/core";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Dependencies injected into the analytics router for testability */
+export interface AnalyticsRouterDeps {
+  /** postgres.js SQL tagged template client */
+  sql: Sql;
+  /** Pino logger instance */
+  logger: Logger;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Bucket widths in ms (used for range defaults and the bucket-count cap) */
+const BUCKET_MS: Record<UsageBucket, number> = {
+  hour: HOUR_MS,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+};
+
+/** Default range when `from` is omitted: 24 hours, 30 days, or 12 weeks */
+const DEFAULT_BUCKET_COUNT: Record<UsageBucket, number> = {
+  hour: 24,
+  day: 30,
+  week: 12,
+};
+
+/** Upper bound on buckets per request, so hour buckets can't span years */
+const MAX_BUCKETS = 1000;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Round a date down to the start of its UTC bucket (weeks start Monday) */
+export function alignToBucket(date: Date, bucket: UsageBucket): Date {
+  const d = new Date(date);
+  if (bucket === "hour") {
+    d.setUTCMinutes(0, 0, 0);
+    return d;
+  }
+  d.setUTCHours(0, 0, 0, 0);
+  if (bucket === "week") {
+    // getUTCDay: 0 = Sunday … 6 = Saturday; step back to Monday
+    d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  }
+  return d;
+}
+
+/** cache_read share of all input tokens; null when there was no input */
+function cacheHitRatio(tokensIn: number, cacheRead: number, cacheWrite: number): number | null {
+  const input = tokensIn + cacheRead + cacheWrite;
+  return input > 0 ? cacheRead / input : null;
+}
+
+/** Convert a raw aggregate row (bigint/numeric come back as strings) into metrics */
+function toMetrics(row: Record<string, unknown>): UsageMetrics {
+  const tokensIn = Number(row.tokens_in) || 0;
+  const cacheRead = Number(row.cache_read_tokens) || 0;
+  const cacheWrite = Number(row.cache_write_tokens) || 0;
+  return {
+    sessions: Number(row.sessions) || 0,
+    duration_ms: Number(row.duration_ms) || 0,
+    tokens_in: tokensIn,
+    tokens_out: Number(row.tokens_out) || 0,
+    cache_read_tokens: cacheRead,
+    cache_write_tokens: cacheWrite,
+    cache_hit_ratio: cacheHitRatio(tokensIn, cacheRead, cacheWrite),
+    cost_usd: Number(row.cost_usd) || 0,
+    commits: Number(row.commits) || 0,
+  };
+}
+
+/** Sum metrics across rows, recomputing the cache hit ratio from the totals */
+function sumMetrics(rows: UsageMetrics[]): UsageMetrics {
+  const totals = {
+    sessions: 0,
+    duration_ms: 0,
+    tokens_in: 0,
+    tokens_out: 0,
+    cache_read_tokens: 0,
+    cache_write_tokens: 0,
+    cost_usd: 0,
+    commits: 0,
+  };
+  for (const r of rows) {
+    totals.sessions += r.sessions;
+    totals.duration_ms += r.duration_ms;
+    totals.tokens_in += r.tokens_in;
+    totals.tokens_out += r.tokens_out;
+    totals.cache_read_tokens += r.cache_read_tokens;
+    totals.cache_write_tokens += r.cache_write_tokens;
+    totals.cost_usd += r.cost_usd;
+    totals.commits += r.commits;
+  }
+  return {
+    ...totals,
+    cache_hit_ratio: cacheHitRatio(totals.tokens_in, totals.cache_read_tokens, totals.cache_write_tokens),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Router factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the analytics router with injected dependencies.
+ *
+ * @param deps - Database and logger dependencies
+ * @returns Express Router with GET /analytics/usage mounted
+ */
+export function createAnalyticsRouter(deps: AnalyticsRouterDeps): Router {
+  const { sql } = deps;
+  const router = Router();
+
+  /** Rollup query: day/week buckets from daily_usage */
+  function queryRollup(
+    bucket: UsageBucket,
+    groupBy: Exclude<UsageGroupBy, "tag"> | undefined,
+    from: Date,
+    to: Date,
+    filters: { workspaceId?: string; deviceId?: string },
+  ) {
+    const key =
+      groupBy === "workspace" ? sql`du.workspace_id`
+      : groupBy === "device" ? sql`du.device_id`
+      : groupBy === "model" ? sql`du.model`
+      : sql`NULL::text`;
+    const label =
+      groupBy === "workspace" ? sql`w.display_name`
+      : groupBy === "device" ? sql`d.name`
+      : groupBy === "model" ? sql`du.model`
+      : sql`NULL::text`;
+
+    // The range end is exclusive, so the last day is the one holding to - 1ms
+    const fromDay = from.toISOString().slice(0, 10);
+    const lastDay = new Date(to.getTime() - 1).toISOString().slice(0, 10);
+
+    return sql`
+      SELECT
+        (date_trunc(${bucket}, du.day::timestamp) AT TIME ZONE 'UTC') AS bucket_start,
+        ${key} AS group_key,
+        ${label} AS group_label,
+        SUM(du.sessions) AS sessions,
+        SUM(du.duration_ms) AS duration_ms,
+        SUM(du.tokens_in) AS tokens_in,
+        SUM(du.tokens_out) AS tokens_out,
+        SUM(du.cache_read_tokens) AS cache_read_tokens,
+        SUM(du.cache_write_tokens) AS cache_write_tokens,
+        SUM(du.cost_usd) AS cost_usd,
+        SUM(du.commits) AS commits
+      FROM daily_usage du
+      LEFT JOIN workspaces w ON w.id = du.workspace_id
+      LEFT JOIN devices d ON d.id = du.device_id
+      WHERE du.day >= ${fromDay} AND du.day <= ${lastDay}
+        ${filters.workspaceId ? sql`AND du.workspace_id = ${filters.workspaceId}` : sql``}
+        ${filters.deviceId ? sql`AND du.device_id = ${filters.deviceId}` : sql``}
+      GROUP BY 1, 2, 3
+      ORDER BY 1, 2
+    `;
+  }
+
+  /** Live query: any bucket straight from sessions (hour buckets, tag grouping) */
+  function queryLive(
+    bucket: UsageBucket,
+    groupBy: UsageGroupBy | undefined,
+    from: Date,
+    to: Date,
+    filters: { workspaceId?: string; deviceId?: string },
+  ) {
+    const key =
+      groupBy === "workspace" ? sql`s.workspace_id`
+      : groupBy === "device" ? sql`s.device_id`
+      : groupBy === "model" ? sql`COALESCE(s.model, 'unknown')`
+      : groupBy === "tag" ? sql`t.tag`
+      : sql`NULL::text`;
+    const label =
+      groupBy === "workspace" ? sql`w.display_name`
+      : groupBy === "device" ? sql`d.name`
+      : groupBy === "model" ? sql`COALESCE(s.model, 'unknown')`
+      : groupBy === "tag" ? sql`t.tag`
+      : sql`NULL::text`;
+
+    // One row per (session, tag) — untagged sessions drop out of tag grouping
+    const tagJoin = groupBy === "tag" ? sql`CROSS JOIN LATERAL unnest(s.tags) AS t(tag)` : sql``;
+
+    return sql`
+      SELECT
+        (date_trunc(${bucket}, s.started_at AT TIME ZONE 'UTC') AT TIME ZONE 'UTC') AS bucket_start,
+        ${key} AS group_key,
+        ${label} AS group_label,
+        COUNT(*) AS sessions,
+        COALESCE(SUM(s.duration_ms), 0) AS duration_ms,
+        COALESCE(SUM(s.tokens_in), 0) AS tokens_in,
+        COALESCE(SUM(s.tokens_out), 0) AS tokens_out,
+        COALESCE(SUM(s.cache_read_tokens), 0) AS cache_read_tokens,
+        COALESCE(SUM(s.cache_write_tokens), 0) AS cache_write_tokens,
+        COALESCE(SUM(s.cost_estimate_usd), 0) AS cost_usd,
+        COALESCE(SUM(c.commits), 0) AS commits
+      FROM sessions s
+      ${tagJoin}
+      LEFT JOIN workspaces w ON w.id = s.workspace_id
+      LEFT JOIN devices d ON d.id = s.device_id
+      LEFT JOIN LATERAL (
+        SELECT COUNT(*)::int AS commits
+        FROM git_activity ga
+        WHERE ga.session_id = s.id AND ga.type = 'commit' AND ga.superseded_by IS NULL
+      ) c ON true
+      WHERE s.started_at >= ${from.toISOString()}
+        AND s.started_at < ${to.toISOString()}
+        AND s.lifecycle IN ${sql(ROLLUP_LIFECYCLES)}
+        ${filters.workspaceId ? sql`AND s.workspace_id = ${filters.workspaceId}` : sql``}
+        ${filters.deviceId ? sql`AND s.device_id = ${filters.deviceId}` : sql``}
+      GROUP BY 1, 2, 3
+      ORDER BY 1, 2
+    `;
+  }
+
+  // =========================================================================
+  // GET /analytics/usage — Time-bucketed usage, optionally grouped
+  // =========================================================================
+  router.get(
+    "/analytics/usage",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parseResult = usageQuerySchema.safeParse(req.query);
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid query parameters",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const query = parseResult.data;
+        const bucket = query.bucket;
+        const to = query.to ? new Date(query.to) : new Date();
+        const from = alignToBucket(
+          query.from
+            ? new Date(query.from)
+            : new Date(to.getTime() - DEFAULT_BUCKET_COUNT[bucket] * BUCKET_MS[bucket]),
+          bucket,
+        );
+
+        if (from.getTime() >= to.getTime()) {
+          res.status(400).json({ error: "Invalid range", details: "from must be before to" });
+          return;
+        }
+
+        if ((to.getTime() - from.getTime()) / BUCKET_MS[bucket] > MAX_BUCKETS) {
+          res.status(400).json({
+            error: "Invalid range",
+            details: `At most ${MAX_BUCKETS} ${bucket} buckets per request — use a wider bucket or a shorter range`,
+          });
+          return;
+        }
+
+        const filters = { workspaceId: query.workspace_id, deviceId: query.device_id };
+        const groupBy = query.group_by;
+
+        const rawRows =
+          bucket === "hour" || groupBy === "tag"
+            ? await queryLive(bucket, groupBy, from, to, filters)
+            : await queryRollup(bucket, groupBy, from, to, filters);
+
+        const rows: UsageRow[] = rawRows.map((r: any) => ({
+          bucket_start: new Date(r.bucket_start).toISOString(),
+          group_key: r.group_key ?? null,
+          group_label: r.group_label ?? null,
+          ...toMetrics(r),
+        }));
+
+        res.json({
+          bucket,
+          group_by: groupBy ?? null,
+          from: from.toISOString(),
+          to: to.toISOString(),
+          rows,
+          totals: sumMetrics(rows),
+        });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  return router;
+}
@@ -63,6 +63,7 @@ export function createBackfillRouter(deps: {
         }
 
         const data = parseResult.data;
+        const userId = req.auth?.userId ?? null;
 
         // --- Resolve workspace (upsert by canonical ID) ---
         const workspaceId = await resolveOrCreateWorkspace(sql, data.workspace_canonical_id);
@@ -71,17 +72,18 @@ export function createBackfillRouter(deps: {
         await resolveOrCreateDevice(sql, data.device_id, {
           name: data.device_name,
           type: data.device_type,
+          userId,
         });
 
         // --- Insert session row with ON CONFLICT dedup ---
         const inserted = await sql`
           INSERT INTO sessions (
             id, workspace_id, device_id, lifecycle, started_at,
-            git_branch, source
+            git_branch, source, user_id
           ) VALUES (
             ${data.session_id}, ${workspaceId}, ${data.device_id}, 'detected',
             ${data.started_at}, ${data.git_branch ?? null},
-            ${data.source}
+            ${data.source}, ${userId}
           )
           ON CONFLICT (id) DO NOTHING
           RETURNING id
@@ -0,0 +1,344 @@
+/**
+ * Dead-letter API endpoints for fuel-code.
+ *
+ * Exposes events the consumer gave up on after MAX_RETRIES (persisted by
+ * pipeline/dead-letter.ts) so they can be inspected and replayed once the
+ * underlying handler bug is fixed:
+ *   - GET    /dead-letters            — List dead letters (newest failure first)
+ *   - GET    /dead-letters/:id        — Single dead letter with the full event
+ *   - POST   /dead-letters/:id/replay — Re-publish the event to the Redis Stream
+ *   - DELETE /dead-letters/:id        — Discard one dead letter
+ *   - DELETE /dead-letters            — Bulk discard by status and/or event_type
+ *
+ * Replay publishes the original event (same ID) back onto events:incoming,
+ * flagged as a replay, and marks the row 'replayed'. The event row usually
+ * exists already (the handler failed after it was inserted), so the flag
+ * tells the consumer to re-run the handler instead of skipping the event as
+ * a duplicate. If the replay fails again the consumer's upsert flips the row
+ * back to 'pending' with the new error.
+ *
+ * Cursor-based pagination uses base64-encoded { f: last_failed_at, i: id }
+ * cursors, ordered by (last_failed_at DESC, id DESC).
+ */
+
+import { Router } from "express";
+import type { Request, Response, NextFunction } from "express";
+import type { Sql } from "postgres";
+import type { Logger } from "pino";
+import type Redis from "ioredis";
+import { deadLetterQuerySchema, type Event } from "@fuel-code/shared";
+import { publishToStream } from "../redis/stream.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Dependencies injected into the dead-letters router for testability */
+export interface DeadLettersRouterDeps {
+  /** postgres.js SQL tagged template client */
+  sql: Sql;
+  /** ioredis client — replays are published to the events stream */
+  redis: Redis;
+  /** Pino logger instance */
+  logger: Logger;
+}
+
+/**
+ * Decoded cursor for keyset pagination.
+ * `f` = last_failed_at ISO string, `i` = dead letter ID.
+ */
+interface DeadLetterCursor {
+  f: string;
+  i: string;
+}
+
+/** Columns returned by the list endpoint (the full event is only in detail) */
+const LIST_COLUMNS = [
+  "id",
+  "event_id",
+  "event_type",
+  "stream_id",
+  "attempts",
+  "last_error",
+  "handler_name",
+  "status",
+  "replay_count",
+  "first_failed_at",
+  "last_failed_at",
+  "replayed_at",
+];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode a base64 dead-letter cursor into its components.
+ * Returns null if the cursor is invalid (malformed base64, bad JSON, or missing fields).
+ */
+function decodeCursor(cursorStr: string): DeadLetterCursor | null {
+  try {
+    const decoded = Buffer.from(cursorStr, "base64").toString("utf-8");
+    const parsed = JSON.parse(decoded);
+    if (typeof parsed.f === "string" && typeof parsed.i === "string") {
+      return { f: parsed.f, i: parsed.i };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/** Encode a dead-letter cursor from the last row's failure time and id. */
+function encodeCursor(lastFailedAt: string | Date, id: string): string {
+  const f = lastFailedAt instanceof Date ? lastFailedAt.toISOString() : lastFailedAt;
+  return Buffer.from(JSON.stringify({ f, i: id })).toString("base64");
+}
+
+// ---------------------------------------------------------------------------
+// Router factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the dead-letters router with injected dependencies.
+ *
+ * @param deps - Database, Redis, and logger dependencies
+ * @returns Express Router with dead-letter endpoints mounted at /dead-letters/*
+ */
+export function createDeadLettersRouter(deps: DeadLettersRouterDeps): Router {
+  const { sql, redis, logger } = deps;
+  const router = Router();
+
+  // =========================================================================
+  // GET /dead-letters — Paginated list with status / event_type filters
+  // =========================================================================
+  router.get(
+    "/dead-letters",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        // --- Validate query parameters with Zod ---
+        const parseResult = deadLetterQuerySchema.safeParse(req.query);
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid query parameters",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const query = parseResult.data;
+
+        // --- Decode cursor if provided ---
+        let cursor: DeadLetterCursor | null = null;
+        if (query.cursor) {
+          cursor = decodeCursor(query.cursor);
+          if (!cursor) {
+            res.status(400).json({
+              error: "Invalid cursor",
+              details: "Cursor must be a valid base64-encoded pagination token",
+            });
+            return;
+          }
+        }
+
+        // --- Build dynamic WHERE conditions ---
+        const conditions: ReturnType<typeof sql>[] = [];
+
+        if (query.status) {
+          conditions.push(sql`status = ${query.status}`);
+        }
+
+        if (query.event_type) {
+          conditions.push(sql`event_type = ${query.event_type}`);
+        }
+
+        if (cursor) {
+          conditions.push(sql`(last_failed_at, id) < (${cursor.f}::timestamptz, ${cursor.i})`);
+        }
+
+        const whereClause =
+          conditions.length > 0
+            ? sql`WHERE ${conditions.reduce((acc, cond) => sql`${acc} AND ${cond}`)}`
+            : sql``;
+
+        // Fetch limit + 1 rows to determine if there are more pages
+        const fetchLimit = query.limit + 1;
+
+        const rows = await sql`
+          SELECT ${sql(LIST_COLUMNS)}
+          FROM dead_letter_events
+          ${whereClause}
+          ORDER BY last_failed_at DESC, id DESC
+          LIMIT ${fetchLimit}
+        `;
+
+        // Determine pagination state from the extra row
+        const hasMore = rows.length > query.limit;
+        const deadLetters = hasMore ? rows.slice(0, query.limit) : rows;
+
+        const nextCursor =
+          hasMore && deadLetters.length > 0
+            ? encodeCursor(
+                deadLetters[deadLetters.length - 1].last_failed_at,
+                deadLetters[deadLetters.length - 1].id,
+              )
+            : null;
+
+        res.json({
+          dead_letters: deadLetters,
+          next_cursor: nextCursor,
+          has_more: hasMore,
+        });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  // =========================================================================
+  // GET /dead-letters/:id — Single dead letter including the original event
+  // =========================================================================
+  router.get(
+    "/dead-letters/:id",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const rows = await sql`
+          SELECT * FROM dead_letter_events WHERE id = ${req.params.id as string}
+        `;
+
+        if (rows.length === 0) {
+          res.status(404).json({ error: "Dead letter not found" });
+          return;
+        }
+
+        res.json({ dead_letter: rows[0] });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  // =========================================================================
+  // POST /dead-letters/:id/replay — Re-publish the event to the stream
+  // =========================================================================
+  router.post(
+    "/dead-letters/:id/replay",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const id = req.params.id as string;
+
+        const rows = await sql`
+          SELECT id, event, status FROM dead_letter_events WHERE id = ${id}
+        `;
+
+        if (rows.length === 0) {
+          res.status(404).json({ error: "Dead letter not found" });
+          return;
+        }
+
+        if (rows[0].status === "replayed") {
+          res.status(409).json({ error: "Dead letter has already been replayed" });
+          return;
+        }
+
+        // Publish first so a Redis failure leaves the row 'pending' and
+        // the replay can simply be retried.
+        const event = rows[0].event as Event;
+        const streamId = await publishToStream(redis, event, { replay: true });
+
+        const [updated] = await sql`
+          UPDATE dead_letter_events
+          SET status       = 'replayed',
+              replayed_at  = now(),
+              replay_count = replay_count + 1
+          WHERE id = ${id}
+          RETURNING ${sql(LIST_COLUMNS)}
+        `;
+
+        logger.info(
+          { deadLetterId: id, eventId: event.id, eventType: event.type, streamId },
+          "Dead letter replayed",
+        );
+
+        res.status(202).json({
+          dead_letter: updated,
+          stream_id: streamId,
+        });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  // =========================================================================
+  // DELETE /dead-letters/:id — Discard a single dead letter
+  // =========================================================================
+  router.delete(
+    "/dead-letters/:id",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const rows = await sql`
+          DELETE FROM dead_letter_events WHERE id = ${req.params.id as string}
+          RETURNING id
+        `;
+
+        if (rows.length === 0) {
+          res.status(404).json({ error: "Dead letter not found" });
+          return;
+        }
+
+        res.status(204).end();
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  // =========================================================================
+  // DELETE /dead-letters — Bulk discard by status and/or event_type
+  // =========================================================================
+  // At least one filter is required so a bare DELETE can't wipe the table.
+  router.delete(
+    "/dead-letters",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parseResult = deadLetterQuerySchema
+          .pick({ status: true, event_type: true })
+          .safeParse(req.query);
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid query parameters",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const { status, event_type } = parseResult.data;
+        if (!status && !event_type) {
+          res.status(400).json({
+            error: "Invalid query parameters",
+            details: "Bulk delete requires a status or event_type filter",
+          });
+          return;
+        }
+
+        const conditions: ReturnType<typeof sql>[] = [];
+        if (status) conditions.push(sql`status = ${status}`);
+        if (event_type) conditions.push(sql`event_type = ${event_type}`);
+        const whereClause = conditions.reduce((acc, cond) => sql`${acc} AND ${cond}`);
+
+        const rows = await sql`
+          DELETE FROM dead_letter_events WHERE ${whereClause}
+          RETURNING id
+        `;
+
+        logger.info({ status, eventType: event_type, deleted: rows.length }, "Dead letters deleted");
+        res.json({ deleted: rows.length });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  return router;
+}
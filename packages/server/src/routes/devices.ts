@@ -7,6 +7,9 @@
  *
  * All endpoints are read-only aggregation queries over existing tables.
  * Devices are populated by the event processor when events are ingested.
+ * Status is kept current by heartbeats and the server's periodic offline
+ * sweep; between sweeps, an 'online' device whose last_seen_at is older than
+ * the offline timeout is reported as 'offline'.
  * Auth is enforced by the upstream auth middleware on /api/*.
  *
  * No pagination needed: single-user system with a small number of devices.
@@ -16,6 +19,7 @@ import { Router } from "express";
 import type { Request, Response, NextFunction } from "express";
 import type { Sql } from "postgres";
 import type { Logger } from "pino";
+import { loadDeviceOfflineMs } from "@fuel-code/core";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -27,6 +31,22 @@ export interface DevicesRouterDeps {
   sql: Sql;
   /** Pino logger instance */
   logger: Logger;
+  /** Quiet time after which a device counts as offline (default: DEVICE_OFFLINE_MINUTES) */
+  offlineAfterMs?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Report an 'online' device that hasn't been seen within offlineAfterMs as
+ * 'offline', so the API doesn't lag behind the periodic sweep.
+ */
+function withCurrentStatus<T extends Record<string, unknown>>(row: T, offlineAfterMs: number, now: number): T {
+  if (row.status !== "online" || !row.last_seen_at) return row;
+  const lastSeen = new Date(row.last_seen_at as string | Date).getTime();
+  return now - lastSeen > offlineAfterMs ? { ...row, status: "offline" } : row;
 }
 
 // ---------------------------------------------------------------------------
@@ -41,6 +61,7 @@ export interface DevicesRouterDeps {
  */
 export function createDevicesRouter(deps: DevicesRouterDeps): Router {
   const { sql, logger } = deps;
+  const offlineAfterMs = deps.offlineAfterMs ?? loadDeviceOfflineMs();
   const router = Router();
 
   // =========================================================================
@@ -85,7 +106,8 @@ export function createDevicesRouter(deps: DevicesRouterDeps): Router {
           ORDER BY d.last_seen_at DESC
         `;
 
-        res.json({ devices: rows });
+        const now = Date.now();
+        res.json({ devices: rows.map((row) => withCurrentStatus(row, offlineAfterMs, now)) });
       } catch (err) {
         next(err);
       }
@@ -111,7 +133,7 @@ export function createDevicesRouter(deps: DevicesRouterDeps): Router {
           return;
         }
 
-        const device = deviceRows[0];
+        const device = withCurrentStatus(deviceRows[0], offlineAfterMs, Date.now());
 
         // --- Parallel queries for detail data ---
         const [workspaces, recentSessions] = await Promise.all([
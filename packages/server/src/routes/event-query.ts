@@ -0,0 +1,324 @@
+/**
+ * Event query endpoint for fuel-code.
+ *
+ * GET /api/events — raw events across sessions, including the ones no
+ * session-scoped endpoint reaches (orphan git activity, subagent and system
+ * events). Filters (all optional, ANDed):
+ *   - type: comma-separated event types or "prefix.*" globs
+ *   - workspace_id, device_id, session_id
+ *   - after / before: time range on the event timestamp
+ *   - data: SQL/JSON path predicate on the payload (data @@ jsonpath),
+ *     e.g. `$.branch == "main"` or `$.files_changed > 10`
+ *
+ * Cursor-based pagination uses base64-encoded { t: timestamp, i: id }
+ * cursors, ordered by (timestamp, id) — newest first unless order=asc. The
+ * workspace, device, type and session indexes all lead with timestamp after
+ * their filter column, so pages are index range scans.
+ *
+ * format=ndjson streams every matching event (up to `limit`, if given) as
+ * one JSON object per line, fetching keyset pages internally so memory stays
+ * flat however large the export is. A failure mid-stream destroys the
+ * response, so a truncated export never looks complete.
+ */
+
+import { Router } from "express";
+import type { Request, Response, NextFunction } from "express";
+import { once } from "node:events";
+import type { Sql } from "postgres";
+import type { Logger } from "pino";
+import { eventQuerySchema, type EventQuery } from "@fuel-code/shared";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Events per page when the JSON request has no limit */
+const DEFAULT_PAGE_SIZE = 100;
+
+/** Rows fetched per query while streaming an NDJSON export */
+const EXPORT_BATCH_SIZE = 500;
+
+/** SQLSTATE Postgres raises for a `data` predicate that isn't valid jsonpath */
+const INVALID_JSONPATH_CODE = "42601";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Dependencies injected into the event query router for testability */
+export interface EventQueryRouterDeps {
+  /** postgres.js SQL tagged template client */
+  sql: Sql;
+  /** Pino logger instance */
+  logger: Logger;
+}
+
+/**
+ * Decoded cursor for keyset pagination.
+ * `t` = event timestamp ISO string, `i` = event ID.
+ */
+interface EventCursor {
+  t: string;
+  i: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode a base64 event cursor into its components.
+ * Returns null if the cursor is invalid (malformed base64, bad JSON, missing
+ * fields, or a timestamp Postgres couldn't cast).
+ */
+function decodeCursor(cursorStr: string): EventCursor | null {
+  try {
+    const decoded = Buffer.from(cursorStr, "base64").toString("utf-8");
+    const parsed = JSON.parse(decoded);
+    if (typeof parsed.t === "string" && typeof parsed.i === "string" && !Number.isNaN(Date.parse(parsed.t))) {
+      return { t: parsed.t, i: parsed.i };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/** Cursor pointing just past an event row */
+function cursorAfter(row: Record<string, any>): EventCursor {
+  const t = row.timestamp instanceof Date ? row.timestamp.toISOString() : row.timestamp;
+  return { t, i: row.id };
+}
+
+/** Encode an event cursor as an opaque base64 pagination token. */
+function encodeCursor(cursor: EventCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64");
+}
+
+/** Whether a query failed because the `data` predicate isn't valid jsonpath */
+function isInvalidDataPredicate(err: unknown): boolean {
+  return (err as { code?: string } | null)?.code === INVALID_JSONPATH_CODE;
+}
+
+// ---------------------------------------------------------------------------
+// Router factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the event query router with injected dependencies.
+ *
+ * @param deps - Database and logger dependencies
+ * @returns Express Router with GET /events
+ */
+export function createEventQueryRouter(deps: EventQueryRouterDeps): Router {
+  const { sql, logger } = deps;
+  const router = Router();
+
+  /** WHERE conditions for the query's filters (everything but the cursor) */
+  function buildFilterConditions(query: EventQuery): ReturnType<typeof sql>[] {
+    const conditions: ReturnType<typeof sql>[] = [];
+
+    // A bare "*" matches every type, so the filter only applies without one
+    if (query.type && !query.type.includes("*")) {
+      const exact = query.type.filter((t) => !t.endsWith(".*"));
+      // "git.*" → LIKE 'git.%' (globs are [a-z.] only, nothing to escape)
+      const prefixes = query.type.filter((t) => t.endsWith(".*")).map((t) => `${t.slice(0, -1)}%`);
+
+      const typeConditions: ReturnType<typeof sql>[] = [];
+      if (exact.length > 0) typeConditions.push(sql`type IN ${sql(exact)}`);
+      for (const prefix of prefixes) typeConditions.push(sql`type LIKE ${prefix}`);
+      conditions.push(sql`(${typeConditions.reduce((acc, cond) => sql`${acc} OR ${cond}`)})`);
+    }
+
+    if (query.workspace_id) {
+      conditions.push(sql`workspace_id = ${query.workspace_id}`);
+    }
+
+    if (query.device_id) {
+      conditions.push(sql`device_id = ${query.device_id}`);
+    }
+
+    if (query.session_id) {
+      conditions.push(sql`session_id = ${query.session_id}`);
+    }
+
+    if (query.after) {
+      conditions.push(sql`timestamp > ${query.after}`);
+    }
+
+    if (query.before) {
+      conditions.push(sql`timestamp < ${query.before}`);
+    }
+
+    if (query.data) {
+      conditions.push(sql`data @@ ${query.data}::jsonpath`);
+    }
+
+    return conditions;
+  }
+
+  /** Fetch up to `limit` events after `cursor` in the query's order */
+  function fetchPage(
+    query: EventQuery,
+    filters: ReturnType<typeof sql>[],
+    cursor: EventCursor | null,
+    limit: number,
+  ) {
+    const conditions = [...filters];
+    const ascending = query.order === "asc";
+
+    if (cursor) {
+      conditions.push(
+        ascending
+          ? sql`(timestamp, id) > (${cursor.t}::timestamptz, ${cursor.i})`
+          : sql`(timestamp, id) < (${cursor.t}::timestamptz, ${cursor.i})`,
+      );
+    }
+
+    const whereClause =
+      conditions.length > 0
+        ? sql`WHERE ${conditions.reduce((acc, cond) => sql`${acc} AND ${cond}`)}`
+        : sql``;
+    const orderClause = ascending
+      ? sql`ORDER BY timestamp ASC, id ASC`
+      : sql`ORDER BY timestamp DESC, id DESC`;
+
+    return sql`
+      SELECT *
+      FROM events
+      ${whereClause}
+      ${orderClause}
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * Stream every matching event as NDJSON. The first page is fetched by the
+   * caller before any headers go out, so query errors can still become a 400/500.
+   */
+  async function streamExport(
+    req: Request,
+    res: Response,
+    query: EventQuery,
+    filters: ReturnType<typeof sql>[],
+    firstPage: Record<string, any>[],
+  ): Promise<void> {
+    let closed = false;
+    req.on("close", () => {
+      closed = true;
+    });
+
+    res.status(200).set({
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache",
+    });
+
+    let remaining = query.limit ?? Infinity;
+    let page = firstPage;
+    let sent = 0;
+
+    try {
+      for (;;) {
+        for (const row of page) {
+          // Respect backpressure so a slow client doesn't buffer the export in memory
+          if (!res.write(JSON.stringify(row) + "\n")) {
+            await Promise.race([once(res, "drain"), once(res, "close")]);
+          }
+          if (closed) return;
+          sent++;
+        }
+
+        remaining -= page.length;
+        if (page.length < EXPORT_BATCH_SIZE || remaining <= 0) break;
+        page = await fetchPage(query, filters, cursorAfter(page[page.length - 1]), Math.min(EXPORT_BATCH_SIZE, remaining));
+      }
+      res.end();
+    } catch (err) {
+      logger.error(
+        { error: err instanceof Error ? err.message : String(err), sent },
+        "Event export failed mid-stream",
+      );
+      res.destroy(err instanceof Error ? err : undefined);
+    }
+  }
+
+  // =========================================================================
+  // GET /events — Filtered events with keyset pagination or NDJSON export
+  // =========================================================================
+  router.get(
+    "/events",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        // --- Validate query parameters with Zod ---
+        const parseResult = eventQuerySchema.safeParse(req.query);
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid query parameters",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const query = parseResult.data;
+
+        // --- Decode cursor if provided ---
+        let cursor: EventCursor | null = null;
+        if (query.cursor) {
+          cursor = decodeCursor(query.cursor);
+          if (!cursor) {
+            res.status(400).json({
+              error: "Invalid cursor",
+              details: "Cursor must be a valid base64-encoded pagination token",
+            });
+            return;
+          }
+        }
+
+        const filters = buildFilterConditions(query);
+        const exporting = query.format === "ndjson";
+
+        // JSON pages fetch limit + 1 rows to determine if there are more pages
+        const pageSize = query.limit ?? DEFAULT_PAGE_SIZE;
+        const fetchLimit = exporting ? Math.min(EXPORT_BATCH_SIZE, query.limit ?? Infinity) : pageSize + 1;
+
+        let rows: Record<string, any>[];
+        try {
+          rows = await fetchPage(query, filters, cursor, fetchLimit);
+        } catch (err) {
+          if (isInvalidDataPredicate(err)) {
+            res.status(400).json({
+              error: "Invalid data predicate",
+              details: err instanceof Error ? err.message : String(err),
+            });
+            return;
+          }
+          throw err;
+        }
+
+        if (exporting) {
+          await streamExport(req, res, query, filters, rows);
+          return;
+        }
+
+        // Determine pagination state from the extra row
+        const hasMore = rows.length > pageSize;
+        const events = hasMore ? rows.slice(0, pageSize) : rows;
+
+        const nextCursor =
+          hasMore && events.length > 0
+            ? encodeCursor(cursorAfter(events[events.length - 1]))
+            : null;
+
+        res.json({
+          events,
+          next_cursor: nextCursor,
+          has_more: hasMore,
+        });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  return router;
+}
@@ -15,6 +15,8 @@
  *      validation are rejected individually (batch is NOT rejected).
  *   3. Publish valid events to Redis Stream via publishBatchToStream.
  *   4. Return 202 with per-event accept/reject results.
+ *
+ * Accepted and rejected events are counted per event type for /api/metrics.
  */
 
 import { Router } from "express";
@@ -27,6 +29,7 @@ import {
   validateEventPayload,
 } from "@fuel-code/shared";
 import type { Event } from "@fuel-code/shared";
+import { metrics } from "@fuel-code/core";
 import { publishBatchToStream } from "../redis/stream.js";
 import { logger } from "../logger.js";
 
@@ -46,6 +49,31 @@ interface EventError {
   error: string;
 }
 
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+/** Events published to the stream, by event type */
+const ingestedEvents = metrics.counter(
+  "fuel_code_ingest_events_total",
+  "Events accepted by POST /api/events/ingest and published to the stream, by event type",
+);
+
+/**
+ * Events rejected at ingest, by event type and reason: invalid_payload,
+ * publish_failed (per-event stream error) or stream_unavailable (503)
+ */
+const rejectedEvents = metrics.counter(
+  "fuel_code_ingest_rejected_total",
+  "Events rejected by POST /api/events/ingest, by event type and reason",
+);
+
+/** Whole batches refused with 400 because the envelope failed validation */
+const rejectedBatches = metrics.counter(
+  "fuel_code_ingest_invalid_batches_total",
+  "Ingest requests rejected because the batch envelope failed validation",
+);
+
 // ---------------------------------------------------------------------------
 // Router factory
 // ---------------------------------------------------------------------------
@@ -68,6 +96,7 @@ export function createEventsRouter(deps: { redis: Redis }): Router {
         parsed = ingestRequestSchema.parse(req.body);
       } catch (err) {
         if (err instanceof ZodError) {
+          rejectedBatches.inc();
           res.status(400).json({
             error: "Validation failed",
             details: err.issues,
@@ -92,6 +121,7 @@ export function createEventsRouter(deps: { redis: Redis }): Router {
 
         if (!payloadResult.success) {
           // Payload validation failed — reject this event, not the batch
+          rejectedEvents.inc({ event_type: event.type, reason: "invalid_payload" });
           results.push({ index: i, status: "rejected" });
           errors.push({
             index: i,
@@ -100,8 +130,13 @@ export function createEventsRouter(deps: { redis: Redis }): Router {
           continue;
         }
 
-        // Set server-side ingestion timestamp and push as a full Event
-        const fullEvent = { ...event, ingested_at: new Date().toISOString() } as Event;
+        // Set server-side ingestion timestamp and the token's user, and push
+        // as a full Event. user_id is never taken from the client.
+        const fullEvent = {
+          ...event,
+          ingested_at: new Date().toISOString(),
+          user_id: req.auth?.userId ?? null,
+        } as Event;
         valid.push(fullEvent);
         results.push({ index: i, status: "accepted" });
       }
@@ -115,6 +150,15 @@ export function createEventsRouter(deps: { redis: Redis }): Router {
 
           publishedCount = publishResult.succeeded.length;
 
+          const failedIds = new Set(publishResult.failed.map((f) => f.eventId));
+          for (const event of valid) {
+            if (failedIds.has(event.id)) {
+              rejectedEvents.inc({ event_type: event.type, reason: "publish_failed" });
+            } else {
+              ingestedEvents.inc({ event_type: event.type });
+            }
+          }
+
           // Handle per-event publish failures — mark them as rejected
           for (const failure of publishResult.failed) {
             // Find the original index by matching event IDs
@@ -137,6 +181,9 @@ export function createEventsRouter(deps: { redis: Redis }): Router {
           }
         } catch (err) {
           // Total Redis failure — return 503 with retry hint
+          for (const event of valid) {
+            rejectedEvents.inc({ event_type: event.type, reason: "stream_unavailable" });
+          }
           logger.error(
             { err },
             "Redis stream publish failed entirely — event pipeline unavailable",
@@ -0,0 +1,129 @@
+/**
+ * Git activity maintenance endpoints for fuel-code.
+ *
+ *   - POST /git-activity/recorrelate — retry session correlation for orphan
+ *     git_activity rows (session_id IS NULL)
+ *
+ * Commits made before the prepare-commit-msg trailer hook was installed, or
+ * whose trailer named a session the server hadn't seen yet, are recorded
+ * as orphans. Re-correlation links them by their stored Fuel-Session
+ * trailer, then by the live correlator's heuristics.
+ *
+ * Each call examines one batch of orphans, oldest first. When more remain
+ * the response carries a `next_cursor` (base64-encoded { t: timestamp,
+ * i: id }) that resumes after the batch, past rows that matched nothing.
+ *
+ * Requires the admin scope (enforced by the auth middleware).
+ */
+
+import { Router } from "express";
+import type { Request, Response, NextFunction } from "express";
+import type { Sql } from "postgres";
+import type { Logger } from "pino";
+import { recorrelateOrphanGitActivity, type RecorrelateCursor } from "@fuel-code/core";
+import { gitRecorrelateRequestSchema } from "@fuel-code/shared";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Dependencies injected into the git activity router for testability */
+export interface GitActivityRouterDeps {
+  /** postgres.js SQL tagged template client */
+  sql: Sql;
+  /** Pino logger instance */
+  logger: Logger;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode a base64 re-correlation cursor.
+ * Returns null if the cursor is invalid (malformed base64, bad JSON, missing
+ * fields, or a timestamp that doesn't parse).
+ */
+function decodeCursor(cursorStr: string): RecorrelateCursor | null {
+  try {
+    const decoded = Buffer.from(cursorStr, "base64").toString("utf-8");
+    const parsed = JSON.parse(decoded);
+    if (typeof parsed.t === "string" && typeof parsed.i === "string" && !Number.isNaN(Date.parse(parsed.t))) {
+      return { timestamp: new Date(parsed.t), id: parsed.i };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/** Encode a re-correlation cursor as an opaque base64 token. */
+function encodeCursor(cursor: RecorrelateCursor): string {
+  return Buffer.from(JSON.stringify({ t: cursor.timestamp.toISOString(), i: cursor.id })).toString("base64");
+}
+
+// ---------------------------------------------------------------------------
+// Router factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the git activity router with injected dependencies.
+ *
+ * @param deps - Database and logger dependencies
+ * @returns Express Router with POST /git-activity/recorrelate
+ */
+export function createGitActivityRouter(deps: GitActivityRouterDeps): Router {
+  const { sql, logger } = deps;
+  const router = Router();
+
+  // =========================================================================
+  // POST /git-activity/recorrelate — Link orphan git activity to sessions
+  // =========================================================================
+  router.post(
+    "/git-activity/recorrelate",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parseResult = gitRecorrelateRequestSchema.safeParse(req.body ?? {});
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid request body",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const { workspace_id, since, limit, dry_run, cursor } = parseResult.data;
+
+        let after: RecorrelateCursor | undefined;
+        if (cursor) {
+          after = decodeCursor(cursor) ?? undefined;
+          if (!after) {
+            res.status(400).json({
+              error: "Invalid cursor",
+              details: "Cursor must be a valid base64-encoded pagination token",
+            });
+            return;
+          }
+        }
+
+        const { next, ...result } = await recorrelateOrphanGitActivity(sql, {
+          workspaceId: workspace_id,
+          since: since ? new Date(since) : undefined,
+          limit,
+          after,
+          dryRun: dry_run,
+        });
+
+        logger.info(
+          { scanned: result.scanned, correlated: result.correlated, dryRun: result.dryRun },
+          "Re-correlated orphan git activity",
+        );
+        res.json({ ...result, next_cursor: next ? encodeCursor(next) : null });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  return router;
+}
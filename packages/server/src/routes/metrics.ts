@@ -0,0 +1,119 @@
+/**
+ * Prometheus metrics endpoint for fuel-code.
+ *
+ * GET /api/metrics — the process-wide metrics registry from @fuel-code/core
+ * in the Prometheus text exposition format. Covers:
+ *   - Ingest: accepted and rejected events by type (routes/events.ts)
+ *   - Stream: length, pending entries and consumer group lag (read here)
+ *   - Consumer: handled entries by type and status (pipeline/consumer.ts)
+ *   - Handlers: per-EventType latency histograms (core event-processor)
+ *   - Reconcile: duration of each pipeline step (core reconcile-session)
+ *   - Summaries: Anthropic API requests and errors, including 429s
+ *   - S3: command latency by operation and outcome (aws/s3.ts)
+ *   - WebSocket: open connections and messages sent by type
+ *
+ * Counters and histograms are recorded where the work happens; gauges that
+ * describe current state (stream backlog, WS connections, pipeline queue)
+ * are sampled when the endpoint is scraped.
+ *
+ * Requires the read scope, like every other GET — point Prometheus at it with
+ * a read-only token as its bearer token.
+ */
+
+import { Router } from "express";
+import type { Request, Response, NextFunction } from "express";
+import type Redis from "ioredis";
+import type { Logger } from "pino";
+import { metrics, METRICS_CONTENT_TYPE } from "@fuel-code/core";
+import { getStreamStats } from "../redis/stream.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Dependencies injected into the metrics router for testability */
+export interface MetricsRouterDeps {
+  /** ioredis client used to read the events stream backlog */
+  redis: Redis;
+  /** Pino logger instance */
+  logger: Logger;
+  /** Returns the current number of connected WebSocket clients */
+  getWsClientCount?: () => number;
+  /** Returns the number of sessions waiting in the pipeline queue */
+  getPipelineQueueDepth?: () => number;
+}
+
+// ---------------------------------------------------------------------------
+// Scrape-time gauges
+// ---------------------------------------------------------------------------
+
+const streamLength = metrics.gauge(
+  "fuel_code_stream_length",
+  "Entries in the events stream",
+);
+
+const streamPending = metrics.gauge(
+  "fuel_code_stream_pending_entries",
+  "Events stream entries delivered to the consumer group but not yet acknowledged",
+);
+
+const streamLag = metrics.gauge(
+  "fuel_code_stream_lag",
+  "Events stream entries not yet delivered to the consumer group",
+);
+
+const wsConnections = metrics.gauge(
+  "fuel_code_ws_connections",
+  "Connected WebSocket clients",
+);
+
+const pipelineQueueDepth = metrics.gauge(
+  "fuel_code_pipeline_queue_depth",
+  "Sessions waiting in the reconcile pipeline queue",
+);
+
+// ---------------------------------------------------------------------------
+// Router factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the metrics router with injected dependencies.
+ *
+ * @param deps - Redis client, logger and optional state accessors
+ * @returns Express Router with GET /metrics
+ */
+export function createMetricsRouter(deps: MetricsRouterDeps): Router {
+  const { redis, logger, getWsClientCount, getPipelineQueueDepth } = deps;
+  const router = Router();
+
+  router.get(
+    "/metrics",
+    async (_req: Request, res: Response, next: NextFunction) => {
+      try {
+        // A Redis outage must not break the scrape: drop the stream gauges
+        // (absent series, rather than stale values) and report the rest
+        try {
+          const stats = await getStreamStats(redis);
+          streamLength.set(stats.length);
+          streamPending.set(stats.pending);
+          if (stats.lag === null) streamLag.reset();
+          else streamLag.set(stats.lag);
+        } catch (err) {
+          logger.warn({ err }, "Failed to read stream stats for metrics");
+          streamLength.reset();
+          streamPending.reset();
+          streamLag.reset();
+        }
+
+        if (getWsClientCount) wsConnections.set(getWsClientCount());
+        if (getPipelineQueueDepth) pipelineQueueDepth.set(getPipelineQueueDepth());
+
+        res.type(METRICS_CONTENT_TYPE).send(metrics.render());
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  return router;
+}
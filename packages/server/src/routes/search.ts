@@ -0,0 +1,232 @@
+/**
+ * Full-text search endpoint for fuel-code.
+ *
+ * GET /api/search?q=... — ranked Postgres full-text search over parsed
+ * transcript content blocks, returning one hit per matching block with a
+ * highlighted snippet and enough session context to group hits by session.
+ *
+ * Each content block keeps its searchable text in exactly one column
+ * (content_text, thinking_text, result_text, or tool_input), so the search
+ * document is the COALESCE of those. The expression must stay identical to
+ * the one in migration 007 so the GIN index is used.
+ *
+ * Ranking uses ts_rank; snippets use ts_headline with <mark></mark> around
+ * matched terms. ts_headline re-parses the whole document, so it only runs
+ * on the final page of hits (outer query), never on every candidate row.
+ *
+ * Cursor-based pagination uses base64-encoded { r: rank, i: block_id }
+ * cursors, ordered by (rank DESC, id DESC).
+ */
+
+import { Router } from "express";
+import type { Request, Response, NextFunction } from "express";
+import type { Sql } from "postgres";
+import type { Logger } from "pino";
+import { searchQuerySchema } from "@fuel-code/shared";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Dependencies injected into the search router for testability */
+export interface SearchRouterDeps {
+  /** postgres.js SQL tagged template client */
+  sql: Sql;
+  /** Pino logger instance */
+  logger: Logger;
+}
+
+/**
+ * Decoded cursor for keyset pagination.
+ * `r` = ts_rank of the last hit, `i` = content block ID.
+ */
+interface SearchCursor {
+  r: number;
+  i: string;
+}
+
+/** ts_headline options: short multi-fragment snippets with <mark> highlights */
+const HEADLINE_OPTIONS =
+  "StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter= … ";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode a base64 search cursor into its components.
+ * Returns null if the cursor is invalid (malformed base64, bad JSON, or missing fields).
+ */
+function decodeCursor(cursorStr: string): SearchCursor | null {
+  try {
+    const decoded = Buffer.from(cursorStr, "base64").toString("utf-8");
+    const parsed = JSON.parse(decoded);
+    if (typeof parsed.r === "number" && typeof parsed.i === "string") {
+      return { r: parsed.r, i: parsed.i };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/** Encode a search cursor from the last hit's rank and block id. */
+function encodeCursor(rank: number, id: string): string {
+  return Buffer.from(JSON.stringify({ r: rank, i: id })).toString("base64");
+}
+
+// ---------------------------------------------------------------------------
+// Router factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the search router with injected dependencies.
+ *
+ * @param deps - Database and logger dependencies
+ * @returns Express Router with GET /search
+ */
+export function createSearchRouter(deps: SearchRouterDeps): Router {
+  const { sql } = deps;
+  const router = Router();
+
+  // =========================================================================
+  // GET /search — Ranked full-text search over transcript content blocks
+  // =========================================================================
+  router.get(
+    "/search",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        // --- Validate query parameters with Zod ---
+        const parseResult = searchQuerySchema.safeParse(req.query);
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid query parameters",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const query = parseResult.data;
+
+        // --- Decode cursor if provided ---
+        let cursor: SearchCursor | null = null;
+        if (query.cursor) {
+          cursor = decodeCursor(query.cursor);
+          if (!cursor) {
+            res.status(400).json({
+              error: "Invalid cursor",
+              details: "Cursor must be a valid base64-encoded pagination token",
+            });
+            return;
+          }
+        }
+
+        // Searchable document and rank expressions, shared between the
+        // WHERE clause, the cursor condition, and the SELECT list.
+        const document = sql`to_tsvector('english', COALESCE(cb.content_text, cb.thinking_text, cb.result_text, cb.tool_input::text))`;
+        const rank = sql`ts_rank(${document}, query)`;
+
+        // --- Build dynamic WHERE conditions ---
+        const conditions: ReturnType<typeof sql>[] = [sql`${document} @@ query`];
+
+        if (query.workspace_id) {
+          conditions.push(sql`s.workspace_id = ${query.workspace_id}`);
+        }
+
+        if (query.device_id) {
+          conditions.push(sql`s.device_id = ${query.device_id}`);
+        }
+
+        if (query.tool_name) {
+          conditions.push(sql`cb.tool_name = ${query.tool_name}`);
+        }
+
+        if (query.block_type) {
+          conditions.push(sql`cb.block_type = ${query.block_type}`);
+        }
+
+        if (query.after) {
+          conditions.push(sql`s.started_at > ${query.after}`);
+        }
+
+        if (query.before) {
+          conditions.push(sql`s.started_at < ${query.before}`);
+        }
+
+        if (cursor) {
+          // Keyset pagination over (rank DESC, id DESC). The cursor rank is
+          // cast to real so it compares exactly against ts_rank's float4.
+          conditions.push(sql`(${rank}, cb.id) < (${cursor.r}::real, ${cursor.i})`);
+        }
+
+        const whereClause = conditions.reduce((acc, cond) => sql`${acc} AND ${cond}`);
+
+        // Fetch limit + 1 rows to determine if there are more pages
+        const fetchLimit = query.limit + 1;
+
+        const rows = await sql`
+          WITH hits AS (
+            SELECT cb.id AS block_id,
+                   cb.session_id,
+                   cb.message_id,
+                   cb.block_type,
+                   cb.tool_name,
+                   COALESCE(cb.content_text, cb.thinking_text, cb.result_text, cb.tool_input::text) AS document,
+                   ${rank} AS rank,
+                   query,
+                   tm.ordinal,
+                   tm.timestamp,
+                   s.workspace_id,
+                   s.device_id,
+                   s.lifecycle AS session_lifecycle,
+                   s.started_at AS session_started_at,
+                   s.summary AS session_summary,
+                   s.initial_prompt AS session_initial_prompt,
+                   w.display_name AS workspace_name,
+                   d.name AS device_name
+            FROM content_blocks cb
+            CROSS JOIN websearch_to_tsquery('english', ${query.q}) AS query
+            JOIN transcript_messages tm ON tm.id = cb.message_id
+            JOIN sessions s ON s.id = cb.session_id
+            JOIN workspaces w ON s.workspace_id = w.id
+            JOIN devices d ON s.device_id = d.id
+            WHERE ${whereClause}
+            ORDER BY rank DESC, cb.id DESC
+            LIMIT ${fetchLimit}
+          )
+          SELECT block_id, session_id, message_id, block_type, tool_name,
+                 rank, ordinal, timestamp,
+                 workspace_id, workspace_name, device_id, device_name,
+                 session_lifecycle, session_started_at, session_summary,
+                 session_initial_prompt,
+                 ts_headline('english', document, query, ${HEADLINE_OPTIONS}) AS snippet
+          FROM hits
+          ORDER BY rank DESC, block_id DESC
+        `;
+
+        // Determine pagination state from the extra row
+        const hasMore = rows.length > query.limit;
+        const results = hasMore ? rows.slice(0, query.limit) : rows;
+
+        // Build the next cursor from the last hit in the result set
+        const nextCursor =
+          hasMore && results.length > 0
+            ? encodeCursor(
+                results[results.length - 1].rank,
+                results[results.length - 1].block_id,
+              )
+            : null;
+
+        res.json({
+          results,
+          next_cursor: nextCursor,
+          has_more: hasMore,
+        });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  return router;
+}
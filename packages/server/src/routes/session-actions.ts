@@ -10,6 +10,28 @@
  *   - Session must have a transcript_s3_key (409 if missing)
  *   - Session must have ended (409 if lifecycle is 'detected')
  *   - resetSessionForReparse must succeed (409 if session can't be reset)
+ *
+ * POST /api/sessions/:id/reprice — recomputes a parsed session's message
+ * costs, cost_estimate_usd, and per-model cost_breakdown with the current
+ * pricing registry. Synchronous: works from stored token counts, no reparse.
+ *
+ * POST /api/sessions/reprice — bulk variant for sessions costed with an
+ * older pricing version (or all parsed sessions with { all: true }).
+ *
+ * POST /api/sessions/archive — prunes parsed transcript rows for complete
+ * sessions older than { older_than_days } after verifying the parsed.json
+ * backup in S3. { dry_run: true } reports the reclaimable space instead.
+ *
+ * POST /api/sessions/:id/restore — re-inserts an archived session's parsed
+ * rows from its parsed.json backup.
+ *
+ * POST /api/sessions/reap — ends detected sessions that have gone quiet
+ * (crashed CC, sleeping laptop) with end_reason 'crash'. Thresholds in the
+ * body override the server's REAPER_* config; { dry_run: true } only lists
+ * the candidates.
+ *
+ * POST /api/sessions/activity — the CLI reports transcript mtimes for the
+ * sessions it has open and learns which of them the server has closed.
  */
 
 import { Router } from "express";
@@ -19,8 +41,21 @@ import type { Logger } from "pino";
 import {
   resetSessionForReparse,
   reconcileSession,
+  repriceSession,
+  repriceStaleSessions,
+  archiveOldSessions,
+  restoreSession,
+  reapAbandonedSessions,
+  recordTranscriptActivity,
+  loadReaperConfig,
   type PipelineDeps,
 } from "@fuel-code/core";
+import {
+  repriceRequestSchema,
+  archiveRequestSchema,
+  reapRequestSchema,
+  transcriptActivitySchema,
+} from "@fuel-code/shared";
 
 /**
  * Trigger the pipeline for a session, preferring the bounded queue when
@@ -49,7 +84,8 @@ function triggerPipeline(pipelineDeps: PipelineDeps, sessionId: string, logger:
  * @param deps.sql          - postgres.js SQL client for session lookups/updates
  * @param deps.pipelineDeps - Pipeline dependencies for triggering post-processing
  * @param deps.logger       - Pino logger for structured logging
- * @returns Express Router with POST /sessions/:id/reparse
+ * @returns Express Router with POST /sessions/:id/reparse, /sessions/:id/reprice, /sessions/reprice,
+ *          /sessions/archive, /sessions/:id/restore, /sessions/reap, /sessions/activity
  */
 export function createSessionActionsRouter(deps: {
   sql: Sql;
@@ -127,5 +163,215 @@ export function createSessionActionsRouter(deps: {
     },
   );
 
+  /**
+   * POST /sessions/reprice
+   *
+   * Reprices sessions whose cost_breakdown was computed with an older
+   * PRICING_VERSION (or is missing). Runs synchronously and returns the
+   * sweep counts.
+   */
+  router.post(
+    "/sessions/reprice",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parseResult = repriceRequestSchema.safeParse(req.body ?? {});
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid request body",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const result = await repriceStaleSessions(sql, logger, parseResult.data);
+        res.json(result);
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  /**
+   * POST /sessions/:id/reprice
+   *
+   * Recomputes one session's costs from its stored transcript_messages.
+   * 404 if the session doesn't exist, 409 if it hasn't been parsed yet.
+   */
+  router.post(
+    "/sessions/:id/reprice",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const sessionId = req.params.id as string;
+        const result = await repriceSession(sql, sessionId);
+
+        if (result.reason === "not_found") {
+          res.status(404).json({ error: "Session not found" });
+          return;
+        }
+
+        if (result.reason === "not_parsed") {
+          res.status(409).json({ error: "Session has not been parsed yet. Cannot reprice." });
+          return;
+        }
+
+        if (result.reason === "archived") {
+          res.status(409).json({ error: "Session is archived. Restore it before repricing." });
+          return;
+        }
+
+        res.json({
+          session_id: sessionId,
+          pricing_version: result.pricingVersion,
+          messages_repriced: result.messagesRepriced,
+          previous_cost_usd: result.previousCostUsd,
+          cost_usd: result.costUsd,
+        });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  /**
+   * POST /sessions/archive
+   *
+   * Archives complete sessions older than older_than_days, oldest first.
+   * Runs synchronously and returns the sweep counts; with dry_run the
+   * candidate list and reclaimable bytes are returned and nothing changes.
+   */
+  router.post(
+    "/sessions/archive",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parseResult = archiveRequestSchema.safeParse(req.body ?? {});
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid request body",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const { older_than_days, limit, dry_run } = parseResult.data;
+        const result = await archiveOldSessions(
+          { sql, s3: pipelineDeps.s3, logger },
+          { olderThanDays: older_than_days, limit, dryRun: dry_run },
+        );
+        res.json(result);
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  /**
+   * POST /sessions/:id/restore
+   *
+   * Re-inserts an archived session's transcript_messages and content_blocks
+   * from the parsed.json backup. 404 if the session doesn't exist, 409 if it
+   * isn't archived, 503 if the backup can't be read from S3.
+   */
+  router.post(
+    "/sessions/:id/restore",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const sessionId = req.params.id as string;
+        const result = await restoreSession({ sql, s3: pipelineDeps.s3, logger }, sessionId);
+
+        if (result.reason === "not_found") {
+          res.status(404).json({ error: "Session not found" });
+          return;
+        }
+
+        if (result.reason === "not_archived") {
+          res.status(409).json({ error: "Session is not archived." });
+          return;
+        }
+
+        if (result.reason === "no_backup") {
+          res.status(503).json({
+            error: "Parsed backup unavailable",
+            details: "The parsed.json backup could not be read from S3",
+          });
+          return;
+        }
+
+        res.json({
+          session_id: sessionId,
+          messages_restored: result.messagesRestored,
+          blocks_restored: result.blocksRestored,
+        });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  /**
+   * POST /sessions/reap
+   *
+   * Runs the abandoned-session reaper now. Thresholds not given in the body
+   * fall back to the server's REAPER_* configuration. Returns the sweep
+   * result, including each reaped session and whether it was queued for
+   * reconcile or is waiting for the CLI to upload its transcript.
+   */
+  router.post(
+    "/sessions/reap",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parseResult = reapRequestSchema.safeParse(req.body ?? {});
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid request body",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const { idle_minutes, offline_minutes, max_idle_hours, limit, dry_run } = parseResult.data;
+        const config = loadReaperConfig();
+        const result = await reapAbandonedSessions(sql, pipelineDeps, {
+          idleMs: idle_minutes !== undefined ? idle_minutes * 60_000 : config.idleMs,
+          offlineMs: offline_minutes !== undefined ? offline_minutes * 60_000 : config.offlineMs,
+          maxIdleMs: max_idle_hours !== undefined ? max_idle_hours * 3_600_000 : config.maxIdleMs,
+          limit: limit ?? config.limit,
+          dryRun: dry_run,
+        });
+        res.json(result);
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  /**
+   * POST /sessions/activity
+   *
+   * Records transcript mtimes for sessions the CLI still has open. The
+   * response lists sessions that are no longer open: `upload` ones were
+   * ended without a transcript (reaped) and the CLI should upload it;
+   * `closed` ones need nothing more.
+   */
+  router.post(
+    "/sessions/activity",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parseResult = transcriptActivitySchema.safeParse(req.body ?? {});
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid request body",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const result = await recordTranscriptActivity(sql, parseResult.data.sessions);
+        res.json(result);
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
   return router;
 }
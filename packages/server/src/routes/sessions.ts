@@ -10,9 +10,14 @@
  *   - GET  /api/sessions/:id/teammates      — Teammates participating in this session
  *   - GET  /api/sessions/:id/teammates/:teammateId/messages — Stitched message feed for a teammate
  *   - GET  /api/sessions/:id/transcript     — Parsed messages with nested content blocks
+ *                                             (served from the S3 parsed backup once archived)
  *   - GET  /api/sessions/:id/transcript/raw — Presigned S3 URL for raw transcript
+ *   - GET  /api/sessions/:id/blocks/:blockId/result — Full output of a tool result
+ *                                             (presigned S3 URL when it was too large to keep inline)
  *   - GET  /api/sessions/:id/events         — Events belonging to this session
+ *   - GET  /api/sessions/:id/prompts        — Prompts captured live by the UserPromptSubmit hook
  *   - GET  /api/sessions/:id/git            — Git activity (stub, populated in Phase 3)
+ *   - GET  /api/sessions/:id/diff           — Per-file diffs rebuilt from Write/Edit/MultiEdit calls
  *   - PATCH /api/sessions/:id               — Update tags or summary
  *
  * All endpoints require Bearer token auth (enforced by upstream auth middleware).
@@ -30,25 +35,36 @@ import {
   sessionPatchSchema,
   parseLifecycleParam,
   batchStatusRequestSchema,
+  type ParseResult,
+  type ParsedContentBlock,
+  type ToolResultLocation,
 } from "@fuel-code/shared";
+import {
+  loadParsedBackup,
+  loadSessionDiffSource,
+  reconstructSessionDiff,
+  type DiffSourceBlock,
+} from "@fuel-code/core";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
 /**
- * S3 client subset needed by sessions router — only presigned URL generation.
- * Matches the presignedUrl method from FuelCodeS3Client in aws/s3.ts.
+ * S3 client subset needed by sessions router — presigned URL generation for
+ * raw transcripts, and downloads for reading archived transcripts from their
+ * parsed backup. Matches the methods from FuelCodeS3Client in aws/s3.ts.
  */
 interface S3PresignClient {
   presignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+  download(key: string): Promise<string>;
 }
 
 /** Dependencies injected into the sessions router for testability */
 export interface SessionsRouterDeps {
   /** postgres.js SQL tagged template client */
   sql: Sql;
-  /** Optional S3 client for raw transcript presigned URLs */
+  /** Optional S3 client for raw transcript URLs and archived transcripts */
   s3?: S3PresignClient;
   /** Pino logger instance */
   logger: Logger;
@@ -94,6 +110,43 @@ function encodeCursor(started_at: string, id: string): string {
   );
 }
 
+/**
+ * Shape an archived session's parsed backup like the transcript query's rows:
+ * main-transcript messages by ordinal, each with its content blocks nested.
+ */
+function messagesFromBackup(backup: ParseResult): Record<string, unknown>[] {
+  const blocksByMessage = new Map<string, Record<string, unknown>[]>();
+  for (const b of backup.contentBlocks) {
+    const list = blocksByMessage.get(b.message_id) ?? [];
+    list.push({
+      id: b.id,
+      block_order: b.block_order,
+      block_type: b.block_type,
+      content_text: b.content_text,
+      thinking_text: b.thinking_text,
+      tool_name: b.tool_name,
+      tool_use_id: b.tool_use_id,
+      tool_input: b.tool_input,
+      tool_result_id: b.tool_result_id,
+      is_error: b.is_error,
+      result_text: b.result_text,
+      result_s3_key: b.result_s3_key ?? null,
+      metadata: b.metadata,
+    });
+    blocksByMessage.set(b.message_id, list);
+  }
+
+  return [...backup.messages]
+    .sort((a, b) => a.ordinal - b.ordinal)
+    .map((m) => ({
+      ...m,
+      subagent_id: null,
+      content_blocks: (blocksByMessage.get(m.id) ?? []).sort(
+        (a, b) => (a.block_order as number) - (b.block_order as number),
+      ),
+    }));
+}
+
 // ---------------------------------------------------------------------------
 // Router factory
 // ---------------------------------------------------------------------------
@@ -166,6 +219,10 @@ export function createSessionsRouter(deps: SessionsRouterDeps): Router {
           conditions.push(sql`s.device_id = ${query.device_id}`);
         }
 
+        if (query.user_id) {
+          conditions.push(sql`s.user_id = ${query.user_id}`);
+        }
+
         if (lifecycleValues && lifecycleValues.length > 0) {
           conditions.push(sql`s.lifecycle IN ${sql(lifecycleValues)}`);
         }
@@ -536,6 +593,10 @@ export function createSessionsRouter(deps: SessionsRouterDeps): Router {
   //   - No param (default): main session messages only (subagent_id IS NULL)
   //   - ?subagent_id=all: all messages (main + all sub-agents) by timestamp
   //   - ?subagent_id=<ulid>: messages for a specific sub-agent (404 if not found)
+  //
+  // Archived sessions have no main-transcript rows; those messages are read
+  // from the parsed.json backup in S3 instead (sub-agent rows are never
+  // archived and still come from the database).
   // =========================================================================
   router.get(
     "/sessions/:id/transcript",
@@ -547,7 +608,7 @@ export function createSessionsRouter(deps: SessionsRouterDeps): Router {
         // First verify the session exists and check its lifecycle.
         // Transcript is available once the session reaches 'complete' lifecycle.
         const sessionRows = await sql`
-          SELECT id, lifecycle
+          SELECT id, lifecycle, transcript_s3_key, archived_at
           FROM sessions
           WHERE id = ${id}
         `;
@@ -569,6 +630,28 @@ export function createSessionsRouter(deps: SessionsRouterDeps): Router {
           return;
         }
 
+        // Archived: load main-transcript messages from the parsed backup
+        const isArchived = Boolean(session.archived_at) && (!subagentId || subagentId === "all");
+        let archivedMessages: Record<string, unknown>[] = [];
+        if (isArchived) {
+          const backup = s3
+            ? await loadParsedBackup(s3, session.transcript_s3_key as string, id as string)
+            : null;
+          if (!backup) {
+            res.status(503).json({
+              error: "Archived transcript unavailable",
+              details: "The session is archived and its parsed backup could not be read from S3",
+            });
+            return;
+          }
+          archivedMessages = messagesFromBackup(backup);
+
+          if (!subagentId) {
+            res.json({ messages: archivedMessages });
+            return;
+          }
+        }
+
         // Build the subagent WHERE filter based on the query parameter.
         // Default (no param): only main session messages where subagent_id is null.
         // "all": no subagent filter, returns everything ordered by timestamp.
@@ -577,7 +660,8 @@ export function createSessionsRouter(deps: SessionsRouterDeps): Router {
         if (!subagentId) {
           subagentFilter = sql`AND tm.subagent_id IS NULL`;
         } else if (subagentId === "all") {
-          subagentFilter = sql``;
+          // Archived sessions only have sub-agent rows left in the database
+          subagentFilter = isArchived ? sql`AND tm.subagent_id IS NOT NULL` : sql``;
         } else {
           // Validate the sub-agent exists for this session before querying messages
           const subagentRows = await sql`
@@ -659,6 +743,16 @@ export function createSessionsRouter(deps: SessionsRouterDeps): Router {
             })
           : rows;
 
+        if (isArchived) {
+          const merged: Record<string, unknown>[] = [
+            ...archivedMessages.map((m) => ({ ...m, subagent: null })),
+            ...messages,
+          ];
+          merged.sort((a, b) => (a.ordinal as number) - (b.ordinal as number));
+          res.json({ messages: merged });
+          return;
+        }
+
         res.json({ messages });
       } catch (err) {
         next(err);
@@ -758,6 +852,117 @@ export function createSessionsRouter(deps: SessionsRouterDeps): Router {
     },
   );
 
+  // =========================================================================
+  // GET /sessions/:id/blocks/:blockId/result — Full output of a tool result
+  //
+  // Tool results larger than the parser's inline limit keep only a preview in
+  // content_blocks; reconcile uploads the full output to S3 and records it in
+  // result_s3_key. This endpoint redirects to a presigned URL for that object,
+  // or serves result_text as text/plain when there is no artifact.
+  //
+  // ?redirect=false returns a ToolResultLocation JSON body instead.
+  // Archived sessions resolve main-transcript blocks from the parsed backup.
+  // =========================================================================
+  router.get(
+    "/sessions/:id/blocks/:blockId/result",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { id, blockId } = req.params;
+
+        const sessionRows = await sql`
+          SELECT id, transcript_s3_key, archived_at
+          FROM sessions
+          WHERE id = ${id}
+        `;
+
+        if (sessionRows.length === 0) {
+          res.status(404).json({ error: "Session not found" });
+          return;
+        }
+
+        const session = sessionRows[0];
+
+        const blockRows = await sql`
+          SELECT id, block_type, result_text, result_s3_key, metadata
+          FROM content_blocks
+          WHERE id = ${blockId} AND session_id = ${id}
+        `;
+
+        let block = blockRows[0] as
+          | Pick<ParsedContentBlock, "id" | "block_type" | "result_text" | "result_s3_key" | "metadata">
+          | undefined;
+
+        // Archived main-transcript blocks only exist in the parsed backup
+        if (!block && session.archived_at && s3) {
+          const backup = await loadParsedBackup(s3, session.transcript_s3_key as string, id as string);
+          block = backup?.contentBlocks.find((b) => b.id === blockId);
+        }
+
+        if (!block) {
+          res.status(404).json({ error: "Content block not found" });
+          return;
+        }
+
+        if (block.block_type !== "tool_result") {
+          res.status(400).json({
+            error: "Not a tool result",
+            details: `Block ${blockId} is a ${block.block_type} block`,
+          });
+          return;
+        }
+
+        const metadata = (block.metadata ?? {}) as Record<string, unknown>;
+        const truncated = metadata.truncated === true;
+        const resultText = block.result_text ?? "";
+
+        // No artifact: the stored text is all there is
+        if (!block.result_s3_key) {
+          if (req.query.redirect === "false") {
+            const location: ToolResultLocation = {
+              block_id: block.id,
+              truncated,
+              content_type: "text/plain",
+              byte_length: Buffer.byteLength(resultText, "utf-8"),
+              url: null,
+              content: resultText,
+            };
+            res.json(location);
+            return;
+          }
+          res.type("text/plain").send(resultText);
+          return;
+        }
+
+        if (!s3) {
+          res.status(503).json({
+            error: "S3 not configured",
+            details: "Full tool output downloads require S3 to be configured",
+          });
+          return;
+        }
+
+        const url = await s3.presignedUrl(block.result_s3_key);
+
+        if (req.query.redirect === "false") {
+          const location: ToolResultLocation = {
+            block_id: block.id,
+            truncated,
+            content_type: (metadata.artifact_content_type as string | undefined) ?? "application/octet-stream",
+            byte_length: (metadata.original_byte_length as number | undefined) ?? 0,
+            url,
+            content: null,
+          };
+          res.json(location);
+          return;
+        }
+
+        res.redirect(302, url);
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
   // =========================================================================
   // GET /sessions/:id/events — Events belonging to this session
   // =========================================================================
@@ -792,6 +997,39 @@ export function createSessionsRouter(deps: SessionsRouterDeps): Router {
     },
   );
 
+  // =========================================================================
+  // GET /sessions/:id/prompts — Prompts captured live by the prompt hook
+  // =========================================================================
+  router.get(
+    "/sessions/:id/prompts",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { id } = req.params;
+
+        // Verify the session exists first
+        const sessionRows = await sql`
+          SELECT id FROM sessions WHERE id = ${id}
+        `;
+
+        if (sessionRows.length === 0) {
+          res.status(404).json({ error: "Session not found" });
+          return;
+        }
+
+        const prompts = await sql`
+          SELECT id, session_id, event_id, prompt, submitted_at, redacted, truncated
+          FROM session_prompts
+          WHERE session_id = ${id}
+          ORDER BY submitted_at ASC
+        `;
+
+        res.json({ prompts });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
   // =========================================================================
   // GET /sessions/:id/git — Git activity (stub for Phase 3)
   // =========================================================================
@@ -812,10 +1050,13 @@ export function createSessionsRouter(deps: SessionsRouterDeps): Router {
         }
 
         // Query git_activity table for all git events correlated to this session.
+        // Commits superseded by an amend/rebase are skipped — their rewrites
+        // carry the current SHA.
         // LIMIT 500 as a defensive upper bound to prevent unbounded result sets.
         const gitActivity = await sql`
           SELECT * FROM git_activity
           WHERE session_id = ${id}
+            AND superseded_by IS NULL
           ORDER BY timestamp ASC
           LIMIT 500
         `;
@@ -826,6 +1067,59 @@ export function createSessionsRouter(deps: SessionsRouterDeps): Router {
     },
   );
 
+  // =========================================================================
+  // GET /sessions/:id/diff — Code changes rebuilt from tool calls
+  // =========================================================================
+  //
+  // Archived sessions keep their main-transcript blocks only in the parsed
+  // backup; they are replayed first, followed by the sub-agent blocks still
+  // in the database.
+  // =========================================================================
+  router.get(
+    "/sessions/:id/diff",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { id } = req.params;
+
+        const sessionRows = await sql`
+          SELECT id, transcript_s3_key, archived_at
+          FROM sessions
+          WHERE id = ${id}
+        `;
+
+        if (sessionRows.length === 0) {
+          res.status(404).json({ error: "Session not found" });
+          return;
+        }
+
+        const session = sessionRows[0];
+        const source = await loadSessionDiffSource(sql, id as string);
+        let blocks = source.blocks;
+
+        if (session.archived_at) {
+          const backup = s3
+            ? await loadParsedBackup(s3, session.transcript_s3_key as string, id as string)
+            : null;
+          if (!backup) {
+            res.status(503).json({
+              error: "Archived transcript unavailable",
+              details: "The session is archived and its parsed backup could not be read from S3",
+            });
+            return;
+          }
+          const archivedBlocks = messagesFromBackup(backup).flatMap(
+            (m) => m.content_blocks as DiffSourceBlock[],
+          );
+          blocks = [...archivedBlocks, ...blocks];
+        }
+
+        res.json(reconstructSessionDiff(id as string, blocks, { cwd: source.cwd }));
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
   // =========================================================================
   // PATCH /sessions/:id — Update tags or summary
   // =========================================================================
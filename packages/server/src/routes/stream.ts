@@ -0,0 +1,167 @@
+/**
+ * Server-Sent Events stream — the WebSocket broadcasts over plain HTTP.
+ *
+ * GET /api/stream — for clients that can't use /api/ws: curl in shell
+ * scripts, editor extensions, proxies that break WebSocket upgrades. The
+ * `data` of each SSE message is a ServerMessage JSON, exactly as sent over
+ * the WebSocket; broadcasts carry their seq as the SSE `id`.
+ *
+ * Query parameters form one subscription filter (see streamQuerySchema):
+ *   - types, event_types, lifecycles: comma-separated lists
+ *   - workspace_id, session_id, device_id
+ * With none, the stream receives every broadcast.
+ *
+ * Resume: EventSource sends the last id it saw as Last-Event-ID when it
+ * reconnects; other clients can send that header too, or pass ?since=.
+ * Missed broadcasts are replayed first, or a resync_required message is
+ * sent when they can't be — the same as a WebSocket `subscribe ... since`.
+ *
+ * Auth is the usual Bearer header (read scope). The stream joins the WS
+ * server's client registry via attachClient(), so both transports receive
+ * the same broadcasts. A comment line is written periodically so idle
+ * proxies keep the connection open.
+ *
+ *   curl -N -H "Authorization: Bearer $TOKEN" "$URL/api/stream?event_types=git.*"
+ */
+
+import { Router } from "express";
+import type { Request, Response } from "express";
+import type { Logger } from "pino";
+import { WebSocket } from "ws";
+import { streamQuerySchema, type WsSubscriptionFilter } from "@fuel-code/shared";
+import type { ClientSocket, WsServerHandle } from "../ws/index.js";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Interval between heartbeat comments (ms) */
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+/** Reconnect delay suggested to EventSource clients (ms) */
+const RETRY_MS = 3_000;
+
+/** Subscription ID reported in the stream's subscribed / resync_required messages */
+const STREAM_SUBSCRIPTION = "stream";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Dependencies injected into the stream router for testability */
+export interface StreamRouterDeps {
+  /** Registers a stream with the WS server's broadcaster (WsServerHandle.attachClient) */
+  attachClient: WsServerHandle["attachClient"];
+  /** Pino logger instance */
+  logger: Logger;
+  /** Override the heartbeat interval for testing (ms) */
+  heartbeatIntervalMs?: number;
+}
+
+// ---------------------------------------------------------------------------
+// SSE adapter
+// ---------------------------------------------------------------------------
+
+/**
+ * Adapt an SSE response to the ClientSocket the broadcaster writes to.
+ * Messages with a seq get it as the event ID, which EventSource sends back
+ * as Last-Event-ID on reconnect.
+ */
+function createSseSocket(res: Response): ClientSocket {
+  let readyState: number = WebSocket.OPEN;
+
+  const end = () => {
+    if (readyState !== WebSocket.OPEN) return;
+    readyState = WebSocket.CLOSED;
+    res.end();
+  };
+
+  return {
+    get readyState() {
+      return readyState;
+    },
+
+    send(data: string, cb?: (err?: Error) => void): void {
+      let seq: unknown;
+      try {
+        seq = JSON.parse(data).seq;
+      } catch {
+        // Not our JSON — send it without an ID
+      }
+      const id = typeof seq === "string" ? `id: ${seq}\n` : "";
+      res.write(`${id}data: ${data}\n\n`, (err) => cb?.(err ?? undefined));
+    },
+
+    close: end,
+
+    terminate(): void {
+      readyState = WebSocket.CLOSED;
+      res.destroy();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Router factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the stream router with injected dependencies.
+ *
+ * @param deps - WS server registration, logger
+ * @returns Express Router with GET /stream
+ */
+export function createStreamRouter(deps: StreamRouterDeps): Router {
+  const { attachClient, logger } = deps;
+  const heartbeatIntervalMs = deps.heartbeatIntervalMs ?? HEARTBEAT_INTERVAL_MS;
+  const router = Router();
+
+  router.get("/stream", (req: Request, res: Response) => {
+    const parseResult = streamQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: parseResult.error.issues,
+      });
+      return;
+    }
+
+    const { since: sinceParam, ...filterParams } = parseResult.data;
+    const filter = Object.fromEntries(
+      Object.entries(filterParams).filter(([, value]) => value !== undefined),
+    ) as WsSubscriptionFilter;
+    const since = req.get("Last-Event-ID") || sinceParam;
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stop nginx-style proxies from buffering the stream
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const detach = attachClient({
+      socket: createSseSocket(res),
+      subscription: STREAM_SUBSCRIPTION,
+      filter,
+      since,
+      tokenName: req.auth?.name ?? "unknown",
+    });
+
+    const heartbeat = setInterval(() => res.write(": keepalive\n\n"), heartbeatIntervalMs);
+    heartbeat.unref?.();
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      detach();
+    });
+
+    res.on("error", (err) => {
+      logger.warn({ error: err.message }, "SSE stream write failed");
+    });
+  });
+
+  return router;
+}
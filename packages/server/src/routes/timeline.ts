@@ -10,7 +10,7 @@
  * session-based using cursor-encoded keyset pagination.
  *
  * Query strategy (4 steps):
- *   1. Fetch sessions (paginated, filtered by workspace/device/time/cursor)
+ *   1. Fetch sessions (paginated, filtered by workspace/device/user/time/cursor)
  *   2. Batch-fetch git activity for those sessions
  *   3. Fetch orphan git activity (session_id IS NULL) in the same time range
  *   4. Merge and interleave sessions + orphan git groups by timestamp
@@ -134,6 +134,10 @@ export function createTimelineRouter(deps: TimelineRouterDeps): Router {
           sessionConditions.push(sql`s.device_id = ${query.device_id}`);
         }
 
+        if (query.user_id) {
+          sessionConditions.push(sql`s.user_id = ${query.user_id}`);
+        }
+
         if (query.after) {
           sessionConditions.push(sql`s.started_at > ${query.after}`);
         }
@@ -161,7 +165,7 @@ export function createTimelineRouter(deps: TimelineRouterDeps): Router {
         const fetchLimit = query.limit + 1;
 
         const sessionRows = await sql`
-          SELECT s.id, s.workspace_id, s.device_id, s.lifecycle,
+          SELECT s.id, s.workspace_id, s.device_id, s.user_id, s.lifecycle,
                  s.started_at, s.ended_at, s.duration_ms, s.summary,
                  s.cost_estimate_usd, s.total_messages, s.tags,
                  w.display_name AS workspace_name,
@@ -213,6 +217,7 @@ export function createTimelineRouter(deps: TimelineRouterDeps): Router {
             FROM git_activity ga
             WHERE ga.session_id IN ${sql(sessionIds)}
               AND ga.type IN ${sql(query.types)}
+              AND ga.superseded_by IS NULL
             ORDER BY ga.timestamp ASC
           `;
         } else {
@@ -222,6 +227,7 @@ export function createTimelineRouter(deps: TimelineRouterDeps): Router {
                    ga.timestamp, ga.data, ga.session_id
             FROM git_activity ga
             WHERE ga.session_id IN ${sql(sessionIds)}
+              AND ga.superseded_by IS NULL
             ORDER BY ga.timestamp ASC
           `;
         }
@@ -255,6 +261,8 @@ export function createTimelineRouter(deps: TimelineRouterDeps): Router {
         // Build orphan query conditions
         const orphanConditions: ReturnType<typeof sql>[] = [
           sql`ga.session_id IS NULL`,
+          // Commits replaced by an amend/rebase are hidden in favour of their rewrites
+          sql`ga.superseded_by IS NULL`,
           sql`ga.timestamp >= ${timeRangeStart}`,
           sql`ga.timestamp <= ${timeRangeEnd}`,
         ];
@@ -267,6 +275,10 @@ export function createTimelineRouter(deps: TimelineRouterDeps): Router {
           orphanConditions.push(sql`ga.device_id = ${query.device_id}`);
         }
 
+        if (query.user_id) {
+          orphanConditions.push(sql`ga.user_id = ${query.user_id}`);
+        }
+
         if (query.types) {
           orphanConditions.push(sql`ga.type IN ${sql(query.types)}`);
         }
@@ -303,6 +315,7 @@ export function createTimelineRouter(deps: TimelineRouterDeps): Router {
             workspace_name: s.workspace_name,
             device_id: s.device_id,
             device_name: s.device_name,
+            user_id: s.user_id,
             lifecycle: s.lifecycle,
             started_at: s.started_at,
             ended_at: s.ended_at,
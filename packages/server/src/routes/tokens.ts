@@ -0,0 +1,182 @@
+/**
+ * API token management endpoints for fuel-code.
+ *
+ * Named, scoped tokens replace sharing the single API_KEY between machines:
+ *   - GET    /tokens     — List tokens (newest first), including revoked ones
+ *   - POST   /tokens     — Create a token; the plaintext is returned only here
+ *   - DELETE /tokens/:id — Revoke a token
+ *
+ * A token can belong to a user (created by name on first use); everything
+ * ingested with it is attributed to that user.
+ *
+ * Every route requires the admin scope (enforced by the auth middleware).
+ * Only the SHA-256 hash of a token is stored, so a lost token can't be
+ * recovered — revoke it and create a new one. Revoked rows are kept so
+ * listings show when a token was cut off.
+ */
+
+import { Router } from "express";
+import type { Request, Response, NextFunction } from "express";
+import type { Sql } from "postgres";
+import type { Logger } from "pino";
+import { createApiTokenSchema, generateId } from "@fuel-code/shared";
+import { generateApiToken } from "../middleware/auth.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Dependencies injected into the tokens router for testability */
+export interface TokensRouterDeps {
+  /** postgres.js SQL tagged template client */
+  sql: Sql;
+  /** Pino logger instance */
+  logger: Logger;
+}
+
+/** Columns returned to clients — everything except token_hash */
+const TOKEN_COLUMNS = [
+  "id",
+  "name",
+  "token_prefix",
+  "scopes",
+  "user_id",
+  "created_by",
+  "created_at",
+  "expires_at",
+  "last_used_at",
+  "revoked_at",
+];
+
+// ---------------------------------------------------------------------------
+// Router factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the tokens router with injected dependencies.
+ *
+ * @param deps - Database and logger dependencies
+ * @returns Express Router with token endpoints mounted at /tokens/*
+ */
+export function createTokensRouter(deps: TokensRouterDeps): Router {
+  const { sql, logger } = deps;
+  const router = Router();
+
+  // =========================================================================
+  // GET /tokens — All tokens, newest first
+  // =========================================================================
+  router.get(
+    "/tokens",
+    async (_req: Request, res: Response, next: NextFunction) => {
+      try {
+        const tokens = await sql`
+          SELECT ${sql(TOKEN_COLUMNS)},
+                 (SELECT u.name FROM users u WHERE u.id = api_tokens.user_id) AS user_name
+          FROM api_tokens
+          ORDER BY created_at DESC, id DESC
+        `;
+
+        res.json({ tokens });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  // =========================================================================
+  // POST /tokens — Create a named token and return its plaintext once
+  // =========================================================================
+  router.post(
+    "/tokens",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parseResult = createApiTokenSchema.safeParse(req.body ?? {});
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid request body",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const body = parseResult.data;
+        const id = generateId();
+        const { token, hash, prefix } = generateApiToken();
+        const scopes = [...new Set(body.scopes)];
+        const expiresAt = body.expires_in_days
+          ? new Date(Date.now() + body.expires_in_days * 86_400_000).toISOString()
+          : null;
+        const createdBy = req.auth?.name ?? null;
+
+        // Find or create the owning user. The no-op DO UPDATE makes RETURNING
+        // yield the existing row on conflict; email is only set on insert.
+        let userId: string | null = null;
+        if (body.user) {
+          const [user] = await sql`
+            INSERT INTO users (id, name, email)
+            VALUES (${generateId()}, ${body.user}, ${body.email ?? null})
+            ON CONFLICT (name) DO UPDATE SET name = EXCLUDED.name
+            RETURNING id
+          `;
+          userId = user.id;
+        }
+
+        const [apiToken] = await sql`
+          INSERT INTO api_tokens (id, name, token_hash, token_prefix, scopes, created_by, expires_at, user_id)
+          VALUES (${id}, ${body.name}, ${hash}, ${prefix}, ${scopes}::text[], ${createdBy}, ${expiresAt}, ${userId})
+          RETURNING ${sql(TOKEN_COLUMNS)}
+        `;
+
+        logger.info(
+          { tokenId: id, name: body.name, scopes, createdBy, userId },
+          "API token created",
+        );
+
+        res.status(201).json({
+          api_token: { ...apiToken, user_name: body.user ?? null },
+          token,
+        });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  // =========================================================================
+  // DELETE /tokens/:id — Revoke a token (takes effect on the next request)
+  // =========================================================================
+  router.delete(
+    "/tokens/:id",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const id = req.params.id as string;
+
+        const [revoked] = await sql`
+          UPDATE api_tokens
+          SET revoked_at = now()
+          WHERE id = ${id} AND revoked_at IS NULL
+          RETURNING ${sql(TOKEN_COLUMNS)}
+        `;
+
+        if (!revoked) {
+          // Distinguish "no such token" from "already revoked"
+          const [existing] = await sql`SELECT id FROM api_tokens WHERE id = ${id}`;
+          if (!existing) {
+            res.status(404).json({ error: "Token not found" });
+          } else {
+            res.status(409).json({ error: "Token has already been revoked" });
+          }
+          return;
+        }
+
+        logger.info({ tokenId: id, revokedBy: req.auth?.name }, "API token revoked");
+
+        res.json({ api_token: revoked });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  return router;
+}
@@ -8,6 +8,7 @@
  *
  * Key behaviors:
  *   - Idempotent: if transcript_s3_key is already set, returns 200 (no re-upload)
+ *   - ?compact_sequence=N stores a pre-compaction snapshot instead (PreCompact hook)
  *   - Accepts uploads for sessions in any lifecycle state (detected, ended)
  *   - After upload, transitions session to 'transcript_ready' and triggers pipeline
  *   - Buffers req body then uploads to S3
@@ -18,7 +19,11 @@ import { Router } from "express";
 import type { Request, Response, NextFunction } from "express";
 import type { Sql } from "postgres";
 import type { Logger } from "pino";
-import { buildTranscriptKey, buildSubagentTranscriptKey } from "@fuel-code/shared";
+import {
+  buildTranscriptKey,
+  buildSubagentTranscriptKey,
+  buildCompactSnapshotKey,
+} from "@fuel-code/shared";
 import type { FuelCodeS3Client } from "../aws/s3.js";
 import type { PipelineDeps } from "@fuel-code/core";
 import { reconcileSession, transitionSession } from "@fuel-code/core";
@@ -75,6 +80,11 @@ export function createTranscriptUploadRouter(deps: {
    * the subagent S3 key path and linked to the subagent row instead of
    * the session. No pipeline trigger for subagent uploads — the pipeline
    * handles sub-agent transcript parsing after the main transcript is parsed.
+   *
+   * When ?compact_sequence=<n> is present, the body is a snapshot of a live
+   * session's transcript taken just before compaction n. It is stored next
+   * to the raw transcript and touches neither the session row nor the
+   * pipeline — the final upload at session end is still the one parsed.
    */
   router.post(
     "/:id/transcript/upload",
@@ -83,6 +93,17 @@ export function createTranscriptUploadRouter(deps: {
         const sessionId = req.params.id as string;
         const subagentId = (req.query.subagent_id as string | undefined)?.trim() || null;
 
+        const compactParam = req.query.compact_sequence as string | undefined;
+        const compactSequence = compactParam !== undefined ? Number(compactParam) : null;
+        if (compactSequence !== null && (!Number.isInteger(compactSequence) || compactSequence < 0)) {
+          res.status(400).json({ error: "compact_sequence must be a non-negative integer" });
+          return;
+        }
+        if (compactSequence !== null && subagentId) {
+          res.status(400).json({ error: "compact_sequence cannot be combined with subagent_id" });
+          return;
+        }
+
         // --- Step 1: Validate Content-Length is present and within limits ---
         const contentLength = parseInt(req.headers["content-length"] || "0", 10);
         if (!contentLength || contentLength === 0) {
@@ -111,8 +132,9 @@ export function createTranscriptUploadRouter(deps: {
         const session = sessionRows[0];
 
         // --- Step 3: Idempotency (main transcript only) ---
-        // Sub-agent uploads skip this check — each sub-agent has its own key.
-        if (!subagentId && session.transcript_s3_key) {
+        // Sub-agent uploads and compaction snapshots skip this check — each
+        // has its own key.
+        if (!subagentId && compactSequence === null && session.transcript_s3_key) {
           res.status(200).json({
             status: "already_uploaded",
             s3_key: session.transcript_s3_key,
@@ -137,7 +159,9 @@ export function createTranscriptUploadRouter(deps: {
         // --- Step 5: Build the S3 key ---
         const s3Key = subagentId
           ? buildSubagentTranscriptKey(canonicalId, sessionId, subagentId)
-          : buildTranscriptKey(canonicalId, sessionId);
+          : compactSequence !== null
+            ? buildCompactSnapshotKey(canonicalId, sessionId, compactSequence)
+            : buildTranscriptKey(canonicalId, sessionId);
 
         logger.info(
           { sessionId, subagentId, s3Key, contentLength },
@@ -157,7 +181,15 @@ export function createTranscriptUploadRouter(deps: {
         await s3.upload(s3Key, body, "application/x-ndjson");
 
         // --- Step 7: Update DB with the S3 key ---
-        if (subagentId) {
+        if (compactSequence !== null) {
+          // Compaction snapshot: archival only, the session row is untouched
+          res.status(202).json({
+            status: "uploaded",
+            s3_key: s3Key,
+            compact_sequence: compactSequence,
+            pipeline_triggered: false,
+          });
+        } else if (subagentId) {
           // Sub-agent upload: update the subagent row's transcript_s3_key.
           // Uses (session_id, agent_id) unique index to find the right row.
           await sql`
@@ -0,0 +1,240 @@
+/**
+ * Webhook management endpoints for fuel-code.
+ *
+ * Webhooks POST matching events to other tools (chat, CI):
+ *   - GET    /webhooks                — List webhooks with their latest delivery
+ *   - POST   /webhooks                — Create a webhook; the secret is returned only here
+ *   - DELETE /webhooks/:id            — Delete a webhook and its delivery log
+ *   - POST   /webhooks/:id/test       — Send a webhook.test delivery right now
+ *   - GET    /webhooks/:id/deliveries — Delivery log, newest first
+ *
+ * Every route requires the admin scope (enforced by the auth middleware).
+ * Deliveries are queued and sent by the WebhookDispatcher from
+ * @fuel-code/core; this router only manages the configuration and exposes
+ * the log.
+ */
+
+import { Router } from "express";
+import type { Request, Response, NextFunction } from "express";
+import type { Sql } from "postgres";
+import type { Logger } from "pino";
+import { randomBytes } from "node:crypto";
+import type { WebhookDispatcher } from "@fuel-code/core";
+import {
+  createWebhookSchema,
+  webhookDeliveriesQuerySchema,
+  generateId,
+} from "@fuel-code/shared";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Dependencies injected into the webhooks router for testability */
+export interface WebhooksRouterDeps {
+  /** postgres.js SQL tagged template client */
+  sql: Sql;
+  /** Pino logger instance */
+  logger: Logger;
+  /** Sends test deliveries */
+  dispatcher: WebhookDispatcher;
+}
+
+/** Prefix of generated signing secrets */
+const SECRET_PREFIX = "whsec_";
+
+/** Characters of the secret shown in listings */
+const SECRET_PREFIX_LENGTH = 12;
+
+// ---------------------------------------------------------------------------
+// Router factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the webhooks router with injected dependencies.
+ *
+ * @param deps - Database, logger and dispatcher dependencies
+ * @returns Express Router with webhook endpoints mounted at /webhooks/*
+ */
+export function createWebhooksRouter(deps: WebhooksRouterDeps): Router {
+  const { sql, logger, dispatcher } = deps;
+  const router = Router();
+
+  // =========================================================================
+  // GET /webhooks — All webhooks, newest first, with their latest delivery
+  // =========================================================================
+  router.get(
+    "/webhooks",
+    async (_req: Request, res: Response, next: NextFunction) => {
+      try {
+        const webhooks = await sql`
+          SELECT w.id, w.url, w.description, w.event_types, w.workspace_id,
+                 ws.display_name AS workspace_name,
+                 LEFT(w.secret, ${SECRET_PREFIX_LENGTH}) AS secret_prefix,
+                 w.created_by, w.created_at,
+                 last.created_at AS last_delivery_at,
+                 last.status AS last_delivery_status
+          FROM webhooks w
+          LEFT JOIN workspaces ws ON ws.id = w.workspace_id
+          LEFT JOIN LATERAL (
+            SELECT d.created_at, d.status
+            FROM webhook_deliveries d
+            WHERE d.webhook_id = w.id
+            ORDER BY d.created_at DESC
+            LIMIT 1
+          ) last ON true
+          ORDER BY w.created_at DESC, w.id DESC
+        `;
+
+        res.json({ webhooks });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  // =========================================================================
+  // POST /webhooks — Create a webhook and return its secret once
+  // =========================================================================
+  router.post(
+    "/webhooks",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parseResult = createWebhookSchema.safeParse(req.body ?? {});
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid request body",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const body = parseResult.data;
+
+        let workspaceName: string | null = null;
+        if (body.workspace_id) {
+          const [workspace] = await sql`
+            SELECT display_name FROM workspaces WHERE id = ${body.workspace_id}
+          `;
+          if (!workspace) {
+            res.status(404).json({ error: "Workspace not found" });
+            return;
+          }
+          workspaceName = workspace.display_name;
+        }
+
+        const id = generateId();
+        const secret = body.secret ?? SECRET_PREFIX + randomBytes(24).toString("hex");
+        const eventTypes = [...new Set(body.event_types)];
+        const createdBy = req.auth?.name ?? null;
+
+        // The secret is returned once, alongside the webhook; listings only show its prefix
+        const [webhook] = await sql`
+          INSERT INTO webhooks (id, url, secret, description, event_types, workspace_id, created_by)
+          VALUES (${id}, ${body.url}, ${secret}, ${body.description ?? null},
+                  ${eventTypes}::text[], ${body.workspace_id ?? null}, ${createdBy})
+          RETURNING id, url, description, event_types, workspace_id,
+                    LEFT(secret, ${SECRET_PREFIX_LENGTH}) AS secret_prefix,
+                    created_by, created_at
+        `;
+
+        logger.info(
+          { webhookId: id, url: body.url, eventTypes, workspaceId: body.workspace_id, createdBy },
+          "Webhook created",
+        );
+
+        res.status(201).json({ webhook: { ...webhook, workspace_name: workspaceName }, secret });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  // =========================================================================
+  // DELETE /webhooks/:id — Delete a webhook (its deliveries cascade)
+  // =========================================================================
+  router.delete(
+    "/webhooks/:id",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const id = req.params.id as string;
+
+        const [deleted] = await sql`
+          DELETE FROM webhooks WHERE id = ${id} RETURNING id, url
+        `;
+        if (!deleted) {
+          res.status(404).json({ error: "Webhook not found" });
+          return;
+        }
+
+        logger.info({ webhookId: id, deletedBy: req.auth?.name }, "Webhook deleted");
+
+        res.json({ deleted: true, id });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  // =========================================================================
+  // POST /webhooks/:id/test — Deliver a webhook.test event immediately
+  // =========================================================================
+  router.post(
+    "/webhooks/:id/test",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const delivery = await dispatcher.sendTest(req.params.id as string);
+        if (!delivery) {
+          res.status(404).json({ error: "Webhook not found" });
+          return;
+        }
+
+        res.json({ delivery });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  // =========================================================================
+  // GET /webhooks/:id/deliveries — Delivery log, newest first
+  // =========================================================================
+  router.get(
+    "/webhooks/:id/deliveries",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parseResult = webhookDeliveriesQuerySchema.safeParse(req.query);
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid query parameters",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const { status, limit } = parseResult.data;
+        const id = req.params.id as string;
+
+        const [webhook] = await sql`SELECT id FROM webhooks WHERE id = ${id}`;
+        if (!webhook) {
+          res.status(404).json({ error: "Webhook not found" });
+          return;
+        }
+
+        const deliveries = await sql`
+          SELECT * FROM webhook_deliveries
+          WHERE webhook_id = ${id}
+            ${status ? sql`AND status = ${status}` : sql``}
+          ORDER BY created_at DESC, id DESC
+          LIMIT ${limit}
+        `;
+
+        res.json({ deliveries });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  return router;
+}
@@ -3,10 +3,16 @@
  *
  * Provides REST endpoints for querying workspaces:
  *   - GET /workspaces       — List all workspaces with aggregate session stats and cursor pagination
- *   - GET /workspaces/:id   — Workspace detail with recent sessions, devices, git summary, and stats
+ *   - GET /workspaces/:id   — Workspace detail with recent sessions, devices, git summary, stats,
+ *                             and a per-user contributor breakdown (?user_id= narrows to one person)
+ *   - GET /workspaces/:id/files?path= — Sessions and commits that touched a file or directory
+ *   - POST /workspaces/merge   — Fold one workspace into another (admin)
+ *   - POST /workspaces/unmerge — Undo a merge (admin)
+ *   - GET /workspaces/merges   — List recorded merges (?all=true includes undone ones)
  *
- * All endpoints are read-only aggregation queries over existing tables.
  * Workspaces are populated by the event processor when events are ingested.
+ * A workspace can be referenced by ULID, canonical ID (including the
+ * canonical ID of a workspace merged into it), or display name.
  * Auth is enforced by the upstream auth middleware on /api/*.
  */
 
@@ -15,6 +21,13 @@ import type { Request, Response, NextFunction } from "express";
 import type { Sql } from "postgres";
 import type { Logger } from "pino";
 import { z } from "zod";
+import { mergeWorkspaces, unmergeWorkspace, listWorkspaceMerges, normalizeFilePath } from "@fuel-code/core";
+import {
+  workspaceMergeRequestSchema,
+  workspaceUnmergeRequestSchema,
+  workspaceMergeListQuerySchema,
+  type FileHistoryEntry,
+} from "@fuel-code/shared";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -47,6 +60,20 @@ const workspaceListQuerySchema = z.object({
   cursor: z.string().optional(),
 });
 
+/** Query parameter schema for GET /workspaces/:id detail endpoint */
+const workspaceDetailQuerySchema = z.object({
+  /** Restrict sessions, devices, git activity, and stats to one user */
+  user_id: z.string().optional(),
+});
+
+/** Query parameter schema for GET /workspaces/:id/files */
+const workspaceFilesQuerySchema = z.object({
+  /** Repo-relative file or directory ("." for the whole repository) */
+  path: z.string().min(1),
+  /** Most recent sessions and commits to return (each) */
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -86,6 +113,37 @@ function isUlid(value: string): boolean {
   return /^[0-9A-Za-z]{26}$/.test(value);
 }
 
+/**
+ * Find the workspaces a reference could mean: exact ULID match, or a
+ * case-insensitive display_name / exact canonical_id match. A canonical ID
+ * that was merged away resolves to the workspace that absorbed it.
+ * More than one row means the name is ambiguous.
+ */
+async function findWorkspaces(sql: Sql, ref: string): Promise<any[]> {
+  if (isUlid(ref)) {
+    return sql`
+      SELECT * FROM workspaces WHERE id = ${ref}
+    `;
+  }
+  return sql`
+    SELECT * FROM workspaces
+    WHERE LOWER(display_name) = LOWER(${ref}) OR canonical_id = ${ref}
+      OR id IN (SELECT workspace_id FROM workspace_aliases WHERE canonical_id = ${ref})
+  `;
+}
+
+/** 400 body for a reference that matches several workspaces */
+function ambiguousBody(matches: any[]) {
+  return {
+    error: "Ambiguous workspace name",
+    matches: matches.map((w: any) => ({
+      id: w.id,
+      canonical_id: w.canonical_id,
+      display_name: w.display_name,
+    })),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Router factory
 // ---------------------------------------------------------------------------
@@ -186,6 +244,31 @@ export function createWorkspacesRouter(deps: WorkspacesRouterDeps): Router {
     },
   );
 
+  // =========================================================================
+  // GET /workspaces/merges — Recorded merges, newest first
+  // (registered before /workspaces/:id so "merges" isn't taken as an id)
+  // =========================================================================
+  router.get(
+    "/workspaces/merges",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parseResult = workspaceMergeListQuerySchema.safeParse(req.query);
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid query parameters",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const merges = await listWorkspaceMerges(sql, parseResult.data.all === "true");
+        res.json({ merges });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
   // =========================================================================
   // GET /workspaces/:id — Workspace detail with sessions, devices, git, stats
   // =========================================================================
@@ -195,21 +278,18 @@ export function createWorkspacesRouter(deps: WorkspacesRouterDeps): Router {
       try {
         const id = req.params.id as string;
 
-        // --- Resolve workspace by ULID, canonical_id, or display_name ---
-        let workspaceRows: any[];
-
-        if (isUlid(id)) {
-          // ULID lookup: exact match on primary key
-          workspaceRows = await sql`
-            SELECT * FROM workspaces WHERE id = ${id}
-          `;
-        } else {
-          // Name/canonical lookup: case-insensitive display_name or exact canonical_id
-          workspaceRows = await sql`
-            SELECT * FROM workspaces
-            WHERE LOWER(display_name) = LOWER(${id}) OR canonical_id = ${id}
-          `;
+        const parseResult = workspaceDetailQuerySchema.safeParse(req.query);
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid query parameters",
+            details: parseResult.error.issues,
+          });
+          return;
         }
+        const userId = parseResult.data.user_id;
+
+        // --- Resolve workspace by ULID, canonical_id, or display_name ---
+        const workspaceRows = await findWorkspaces(sql, id);
 
         if (workspaceRows.length === 0) {
           res.status(404).json({ error: "Workspace not found" });
@@ -218,31 +298,29 @@ export function createWorkspacesRouter(deps: WorkspacesRouterDeps): Router {
 
         // If multiple matches on display_name, return 400 ambiguous
         if (workspaceRows.length > 1) {
-          res.status(400).json({
-            error: "Ambiguous workspace name",
-            matches: workspaceRows.map((w: any) => ({
-              id: w.id,
-              canonical_id: w.canonical_id,
-              display_name: w.display_name,
-            })),
-          });
+          res.status(400).json(ambiguousBody(workspaceRows));
           return;
         }
 
         const workspace = workspaceRows[0];
 
+        // --- Optional per-user filter, one fragment per table alias ---
+        const sessionUserFilter = userId ? sql`AND s.user_id = ${userId}` : sql``;
+        const deviceUserFilter = userId ? sql`AND d.user_id = ${userId}` : sql``;
+        const userFilter = userId ? sql`AND user_id = ${userId}` : sql``;
+
         // --- Parallel queries for detail data ---
-        const [recentSessions, devices, gitSummary, stats] =
+        const [recentSessions, devices, gitSummary, stats, contributors] =
           await Promise.all([
             // Recent sessions (last 10) with device names
             sql`
               SELECT s.id, s.lifecycle, s.started_at, s.ended_at, s.duration_ms,
                      s.summary, s.cost_estimate_usd, s.total_messages, s.tags,
-                     s.model, s.git_branch,
+                     s.model, s.git_branch, s.user_id,
                      d.name AS device_name, d.id AS device_id, d.type AS device_type
               FROM sessions s
               JOIN devices d ON s.device_id = d.id
-              WHERE s.workspace_id = ${workspace.id}
+              WHERE s.workspace_id = ${workspace.id} ${sessionUserFilter}
               ORDER BY s.started_at DESC
               LIMIT 10
             `,
@@ -252,7 +330,7 @@ export function createWorkspacesRouter(deps: WorkspacesRouterDeps): Router {
               SELECT d.*, wd.local_path, wd.hooks_installed, wd.git_hooks_installed, wd.last_active_at
               FROM devices d
               JOIN workspace_devices wd ON wd.device_id = d.id
-              WHERE wd.workspace_id = ${workspace.id}
+              WHERE wd.workspace_id = ${workspace.id} ${deviceUserFilter}
               ORDER BY wd.last_active_at DESC
             `,
 
@@ -264,7 +342,7 @@ export function createWorkspacesRouter(deps: WorkspacesRouterDeps): Router {
                 array_agg(DISTINCT branch) FILTER (WHERE branch IS NOT NULL) AS active_branches,
                 MAX(timestamp) AS last_commit_at
               FROM git_activity
-              WHERE workspace_id = ${workspace.id}
+              WHERE workspace_id = ${workspace.id} AND superseded_by IS NULL ${userFilter}
             `,
 
             // Aggregate stats across all sessions for this workspace
@@ -280,7 +358,26 @@ export function createWorkspacesRouter(deps: WorkspacesRouterDeps): Router {
                 MIN(started_at) AS first_session_at,
                 MAX(started_at) AS last_session_at
               FROM sessions
-              WHERE workspace_id = ${workspace.id}
+              WHERE workspace_id = ${workspace.id} ${userFilter}
+            `,
+
+            // Per-person activity on this workspace (always unfiltered, so
+            // clients can offer the user_id filter). Unattributed sessions
+            // group under user_id = null.
+            sql`
+              SELECT
+                s.user_id,
+                u.name AS user_name,
+                COUNT(*)::int AS session_count,
+                COUNT(CASE WHEN s.lifecycle = 'detected' THEN 1 END)::int AS active_sessions,
+                COALESCE(SUM(s.duration_ms), 0) AS total_duration_ms,
+                COALESCE(SUM(s.cost_estimate_usd), 0) AS total_cost_usd,
+                MAX(s.started_at) AS last_session_at
+              FROM sessions s
+              LEFT JOIN users u ON u.id = s.user_id
+              WHERE s.workspace_id = ${workspace.id}
+              GROUP BY s.user_id, u.name
+              ORDER BY last_session_at DESC
             `,
           ]);
 
@@ -297,6 +394,7 @@ export function createWorkspacesRouter(deps: WorkspacesRouterDeps): Router {
             last_commit_at: gitRow.last_commit_at ?? null,
           },
           stats: stats[0] || null,
+          contributors,
         });
       } catch (err) {
         next(err);
@@ -304,5 +402,204 @@ export function createWorkspacesRouter(deps: WorkspacesRouterDeps): Router {
     },
   );
 
+  // =========================================================================
+  // GET /workspaces/:id/files — File history from the session_files index
+  // =========================================================================
+  //
+  // Matches the path itself and, for a directory, every file under it.
+  // Returns the most recent `limit` sessions and commits, merged oldest first.
+  // Commits superseded by an amend/rebase are left out.
+  // =========================================================================
+  router.get(
+    "/workspaces/:id/files",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const id = req.params.id as string;
+
+        const parseResult = workspaceFilesQuerySchema.safeParse(req.query);
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid query parameters",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+        const { limit } = parseResult.data;
+        const path = normalizeFilePath(parseResult.data.path);
+
+        const workspaceRows = await findWorkspaces(sql, id);
+        if (workspaceRows.length === 0) {
+          res.status(404).json({ error: "Workspace not found" });
+          return;
+        }
+        if (workspaceRows.length > 1) {
+          res.status(400).json(ambiguousBody(workspaceRows));
+          return;
+        }
+        const workspace = workspaceRows[0];
+
+        // "" is the repository root: every indexed file matches
+        const dirPattern = path.replace(/[\\%_]/g, "\\$&") + "/%";
+        const pathFilter = path
+          ? sql`AND (sf.path = ${path} OR sf.path LIKE ${dirPattern})`
+          : sql``;
+
+        const [sessionRows, commitRows] = await Promise.all([
+          sql`
+            SELECT s.id AS session_id, s.lifecycle, s.started_at, s.summary, s.initial_prompt,
+                   MIN(sf.first_accessed_at) AS first_accessed_at,
+                   BOOL_OR(sf.access = 'write') AS wrote,
+                   ARRAY_AGG(DISTINCT sf.path) AS paths,
+                   ARRAY_AGG(DISTINCT sf.tool_name) AS tools
+            FROM session_files sf
+            JOIN sessions s ON s.id = sf.session_id
+            WHERE s.workspace_id = ${workspace.id} ${pathFilter}
+            GROUP BY s.id
+            ORDER BY first_accessed_at DESC
+            LIMIT ${limit}
+          `,
+          sql`
+            SELECT ga.id AS git_activity_id, ga.commit_sha, ga.message, ga.branch,
+                   ga.session_id, ga.timestamp,
+                   ARRAY_AGG(sf.path ORDER BY sf.path) AS paths
+            FROM session_files sf
+            JOIN git_activity ga ON ga.id = sf.git_activity_id
+            WHERE ga.workspace_id = ${workspace.id}
+              AND ga.superseded_by IS NULL ${pathFilter}
+            GROUP BY ga.id
+            ORDER BY ga.timestamp DESC
+            LIMIT ${limit}
+          `,
+        ]);
+
+        const entries: FileHistoryEntry[] = [
+          ...sessionRows.map((r: any): FileHistoryEntry => ({
+            kind: "session",
+            timestamp: r.first_accessed_at,
+            session_id: r.session_id,
+            lifecycle: r.lifecycle,
+            started_at: r.started_at,
+            summary: r.summary ?? null,
+            initial_prompt: r.initial_prompt ?? null,
+            access: r.wrote ? "write" : "read",
+            paths: [...(r.paths ?? [])].sort(),
+            tools: [...(r.tools ?? [])].sort(),
+          })),
+          ...commitRows.map((r: any): FileHistoryEntry => ({
+            kind: "commit",
+            timestamp: r.timestamp,
+            git_activity_id: r.git_activity_id,
+            commit_sha: r.commit_sha ?? null,
+            message: r.message ?? null,
+            branch: r.branch ?? null,
+            session_id: r.session_id ?? null,
+            paths: r.paths ?? [],
+          })),
+        ];
+        entries.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+        res.json({ workspace_id: workspace.id, path, entries });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  // =========================================================================
+  // POST /workspaces/merge — Fold the source workspace into the target
+  // =========================================================================
+  router.post(
+    "/workspaces/merge",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parseResult = workspaceMergeRequestSchema.safeParse(req.body ?? {});
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid request body",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        // --- Resolve both references to exactly one workspace each ---
+        const resolved: any[] = [];
+        for (const ref of [parseResult.data.source, parseResult.data.target]) {
+          const rows = await findWorkspaces(sql, ref);
+          if (rows.length === 0) {
+            res.status(404).json({ error: `Workspace not found: ${ref}` });
+            return;
+          }
+          if (rows.length > 1) {
+            res.status(400).json(ambiguousBody(rows));
+            return;
+          }
+          resolved.push(rows[0]);
+        }
+        const [source, target] = resolved;
+
+        const result = await mergeWorkspaces(sql, source.id, target.id, "manual");
+        if (!result.merged) {
+          const errors: Record<string, [number, string]> = {
+            not_found: [404, "Workspace not found"],
+            same_workspace: [409, "Source and target are the same workspace"],
+            unassociated: [409, "The _unassociated workspace cannot be merged"],
+          };
+          const [status, error] = errors[result.reason ?? "not_found"];
+          res.status(status).json({ error });
+          return;
+        }
+
+        logger.info(
+          { sourceWorkspaceId: source.id, targetWorkspaceId: target.id, mergeId: result.mergeId },
+          "Workspaces merged",
+        );
+        res.json(result);
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  // =========================================================================
+  // POST /workspaces/unmerge — Restore a merged-away workspace
+  // =========================================================================
+  router.post(
+    "/workspaces/unmerge",
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parseResult = workspaceUnmergeRequestSchema.safeParse(req.body ?? {});
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: "Invalid request body",
+            details: parseResult.error.issues,
+          });
+          return;
+        }
+
+        const ref = (parseResult.data.merge_id ?? parseResult.data.canonical_id) as string;
+        const result = await unmergeWorkspace(sql, ref);
+        if (!result.unmerged) {
+          if (result.reason === "target_missing") {
+            res.status(409).json({
+              error: "The merge target was itself merged away; unmerge it first",
+              target_workspace_id: result.targetWorkspaceId,
+            });
+          } else {
+            res.status(404).json({ error: "No active merge found" });
+          }
+          return;
+        }
+
+        logger.info(
+          { sourceWorkspaceId: result.sourceWorkspaceId, mergeId: result.mergeId },
+          "Workspace merge undone",
+        );
+        res.json(result);
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
   return router;
 }
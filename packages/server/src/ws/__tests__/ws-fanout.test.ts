@@ -0,0 +1,241 @@
+/**
+ * Tests for cross-instance WebSocket fan-out (Redis pub/sub).
+ *
+ * Two WS servers run in-process on their own HTTP servers, sharing one
+ * in-memory Redis stand-in that implements PUBLISH/SUBSCRIBE with ioredis'
+ * "message" event (each server gets its own publisher and subscriber
+ * connection, as in production). Real WebSocket clients connect to each.
+ *
+ *   - A broadcast on one instance reaches clients on both, exactly once
+ *   - Subscriptions are matched by the receiving instance
+ *   - The message format is the same as a single-instance broadcast
+ *   - Publish failures still deliver to local clients
+ *   - Shutdown stops relaying
+ */
+
+import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
+import { EventEmitter } from "node:events";
+import { createServer, type Server as HttpServer } from "node:http";
+import WebSocket from "ws";
+import type Redis from "ioredis";
+import type { Event } from "@fuel-code/shared";
+import { createWsServer, createRedisFanout, WS_FANOUT_CHANNEL, type WsServerHandle } from "../index.js";
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const API_KEY = "test-api-key-fanout";
+
+/** No-op Pino-like logger with mock spy methods */
+function createMockLogger() {
+  const logger: any = {
+    info: mock(() => {}),
+    warn: mock(() => {}),
+    error: mock(() => {}),
+    debug: mock(() => {}),
+    child: mock(() => logger),
+  };
+  return logger;
+}
+
+function makeMockEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    id: "01ARZ3NDEKTSV4RRFFQ69G5FAV",
+    type: "session.start",
+    timestamp: "2025-01-01T00:00:00.000Z",
+    device_id: "device-1",
+    workspace_id: "ws-1",
+    session_id: "session-1",
+    data: { cwd: "/test" },
+    ingested_at: null,
+    blob_refs: [],
+    ...overrides,
+  };
+}
+
+/**
+ * One in-memory "Redis server": clients publish to and subscribe on shared
+ * channels. Messages are delivered asynchronously, like real pub/sub.
+ */
+function createFakeRedis() {
+  const connections = new Set<EventEmitter & { channels: Set<string> }>();
+  let publishError: Error | null = null;
+
+  function connect(): Redis {
+    const conn = Object.assign(new EventEmitter(), {
+      channels: new Set<string>(),
+      async publish(channel: string, payload: string): Promise<number> {
+        if (publishError) throw publishError;
+        let receivers = 0;
+        for (const other of connections) {
+          if (!other.channels.has(channel)) continue;
+          receivers++;
+          setTimeout(() => other.emit("message", channel, payload), 0);
+        }
+        return receivers;
+      },
+      async subscribe(channel: string): Promise<number> {
+        conn.channels.add(channel);
+        return conn.channels.size;
+      },
+      async unsubscribe(channel: string): Promise<number> {
+        conn.channels.delete(channel);
+        return conn.channels.size;
+      },
+    });
+    connections.add(conn);
+    return conn as unknown as Redis;
+  }
+
+  return {
+    connect,
+    failPublishes(err: Error | null) {
+      publishError = err;
+    },
+    subscriberCount(channel: string): number {
+      return [...connections].filter((c) => c.channels.has(channel)).length;
+    },
+  };
+}
+
+interface Instance {
+  httpServer: HttpServer;
+  ws: WsServerHandle;
+  port: number;
+}
+
+/** Start an HTTP + WS server whose fan-out uses the shared fake Redis */
+async function startInstance(redis: ReturnType<typeof createFakeRedis>): Promise<Instance> {
+  const httpServer = createServer();
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  const addr = httpServer.address();
+  const port = typeof addr === "object" && addr ? addr.port : 0;
+
+  const logger = createMockLogger();
+  const ws = createWsServer({
+    httpServer,
+    logger,
+    apiKey: API_KEY,
+    fanout: createRedisFanout({ publisher: redis.connect(), subscriber: redis.connect(), logger }),
+  });
+  return { httpServer, ws, port };
+}
+
+/** Connected client that records every message it receives */
+interface RecordingClient {
+  ws: WebSocket;
+  messages: any[];
+}
+
+async function connectAndSubscribe(port: number, subscription: Record<string, string>): Promise<RecordingClient> {
+  const ws = new WebSocket(`ws://127.0.0.1:${port}/api/ws`, {
+    headers: { Authorization: `Bearer ${API_KEY}` },
+  });
+  const messages: any[] = [];
+  ws.on("message", (data) => messages.push(JSON.parse(data.toString())));
+  await new Promise<void>((resolve, reject) => {
+    ws.on("open", () => resolve());
+    ws.on("error", reject);
+  });
+
+  ws.send(JSON.stringify({ type: "subscribe", ...subscription }));
+  await waitFor(() => messages.some((m) => m.type === "subscribed"));
+  messages.length = 0;
+  return { ws, messages };
+}
+
+/** Poll until cond() holds, failing after timeoutMs */
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!cond()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await delay(10);
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ---------------------------------------------------------------------------
+// Test suite
+// ---------------------------------------------------------------------------
+
+describe("WebSocket fan-out across instances", () => {
+  let redis: ReturnType<typeof createFakeRedis>;
+  let a: Instance;
+  let b: Instance;
+  let clients: WebSocket[];
+
+  beforeEach(async () => {
+    redis = createFakeRedis();
+    a = await startInstance(redis);
+    b = await startInstance(redis);
+    clients = [];
+  });
+
+  afterEach(async () => {
+    for (const ws of clients) ws.close();
+    for (const instance of [a, b]) {
+      // Some tests already shut an instance down
+      try { instance.httpServer.close(); } catch {}
+      try { await instance.ws.shutdown(); } catch {}
+    }
+  });
+
+  async function connect(instance: Instance, subscription: Record<string, string>) {
+    const client = await connectAndSubscribe(instance.port, subscription);
+    clients.push(client.ws);
+    return client;
+  }
+
+  test("a broadcast on one instance reaches clients on both, exactly once", async () => {
+    const onA = await connect(a, { scope: "all" });
+    const onB = await connect(b, { scope: "all" });
+
+    const event = makeMockEvent();
+    b.ws.broadcaster.broadcastEvent(event);
+
+    await waitFor(() => onA.messages.length > 0 && onB.messages.length > 0);
+    await delay(100);
+    expect(onA.messages).toEqual([{ type: "event", event }]);
+    expect(onB.messages).toEqual([{ type: "event", event }]);
+  });
+
+  test("the receiving instance applies its clients' subscriptions", async () => {
+    const ws1 = await connect(a, { workspace_id: "ws-1" });
+    const session2 = await connect(a, { session_id: "session-2" });
+
+    b.ws.broadcaster.broadcastEvent(makeMockEvent({ workspace_id: "ws-other", session_id: "session-other" }));
+    b.ws.broadcaster.broadcastSessionUpdate("session-2", "ws-2", "summarized", "Did things");
+    b.ws.broadcaster.broadcastEvent(makeMockEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FB0" }));
+
+    await waitFor(() => ws1.messages.length > 0 && session2.messages.length > 0);
+    await delay(100);
+    expect(ws1.messages.map((m) => m.event?.id)).toEqual(["01ARZ3NDEKTSV4RRFFQ69G5FB0"]);
+    expect(session2.messages).toEqual([
+      { type: "session.update", session_id: "session-2", lifecycle: "summarized", summary: "Did things" },
+    ]);
+  });
+
+  test("publish failures still deliver to local clients", async () => {
+    const onA = await connect(a, { scope: "all" });
+    const onB = await connect(b, { scope: "all" });
+    redis.failPublishes(new Error("connection lost"));
+
+    a.ws.broadcaster.broadcastDeviceUpdate("dev-1", "laptop", "online", "2025-01-01T00:00:00.000Z");
+
+    await waitFor(() => onA.messages.length > 0);
+    await delay(100);
+    expect(onA.messages[0].type).toBe("device.update");
+    expect(onB.messages).toEqual([]);
+  });
+
+  test("shutdown unsubscribes from the fan-out channel", async () => {
+    expect(redis.subscriberCount(WS_FANOUT_CHANNEL)).toBe(2);
+    a.httpServer.close();
+    await a.ws.shutdown();
+    expect(redis.subscriberCount(WS_FANOUT_CHANNEL)).toBe(1);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Tests for WebSocket resume: sequenced broadcasts and the Redis replay buffer.
+ *
+ * A WS server runs in-process with a replay buffer backed by an in-memory
+ * Redis stand-in that implements XADD (auto IDs) and XRANGE (exclusive start,
+ * COUNT). Real WebSocket clients connect and subscribe.
+ *
+ *   - Broadcasts are stamped with increasing seqs
+ *   - Subscribing with `since` replays missed broadcasts matching the subscription
+ *   - Two resumed subscriptions don't replay the same broadcast twice
+ *   - Expired, invalid and oversized gaps get resync_required
+ */
+
+import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
+import { createServer, type Server as HttpServer } from "node:http";
+import WebSocket from "ws";
+import type Redis from "ioredis";
+import { compareWsSeq, type Event } from "@fuel-code/shared";
+import { createWsServer, createRedisReplayBuffer, type WsServerHandle } from "../index.js";
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const API_KEY = "test-api-key-replay";
+
+/** No-op Pino-like logger with mock spy methods */
+function createMockLogger() {
+  const logger: any = {
+    info: mock(() => {}),
+    warn: mock(() => {}),
+    error: mock(() => {}),
+    debug: mock(() => {}),
+    child: mock(() => logger),
+  };
+  return logger;
+}
+
+function makeMockEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    id: "01ARZ3NDEKTSV4RRFFQ69G5FAV",
+    type: "session.start",
+    timestamp: "2025-01-01T00:00:00.000Z",
+    device_id: "device-1",
+    workspace_id: "ws-1",
+    session_id: "session-1",
+    data: { cwd: "/test" },
+    ingested_at: null,
+    blob_refs: [],
+    ...overrides,
+  };
+}
+
+/** In-memory Redis Stream supporting the XADD/XRANGE calls the replay buffer makes */
+function createFakeStreamRedis(): Redis {
+  const entries: Array<[string, string[]]> = [];
+  let lastMs = 0;
+  let counter = 0;
+
+  return {
+    async xadd(_key: string, ...args: string[]): Promise<string> {
+      const now = Date.now();
+      counter = now === lastMs ? counter + 1 : 0;
+      lastMs = now;
+      const id = `${now}-${counter}`;
+      // Fields follow the "*" ID argument
+      entries.push([id, args.slice(args.indexOf("*") + 1)]);
+      return id;
+    },
+    async xrange(_key: string, start: string, _end: string, _count: string, count: number) {
+      const after = start.slice(1);
+      return entries.filter(([id]) => compareWsSeq(id, after) > 0).slice(0, count);
+    },
+  } as unknown as Redis;
+}
+
+/** Connected client that records every message it receives */
+interface RecordingClient {
+  ws: WebSocket;
+  messages: any[];
+}
+
+/** Poll until cond() holds, failing after timeoutMs */
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!cond()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await delay(10);
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ---------------------------------------------------------------------------
+// Test suite
+// ---------------------------------------------------------------------------
+
+describe("WebSocket resume with replay", () => {
+  let httpServer: HttpServer;
+  let wsHandle: WsServerHandle;
+  let port: number;
+  let clients: WebSocket[];
+
+  async function start(maxReplay?: number): Promise<void> {
+    httpServer = createServer();
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    const addr = httpServer.address();
+    port = typeof addr === "object" && addr ? addr.port : 0;
+
+    const logger = createMockLogger();
+    wsHandle = createWsServer({
+      httpServer,
+      logger,
+      apiKey: API_KEY,
+      replay: createRedisReplayBuffer({ redis: createFakeStreamRedis(), logger, maxReplay }),
+    });
+  }
+
+  async function connect(): Promise<RecordingClient> {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/api/ws`, {
+      headers: { Authorization: `Bearer ${API_KEY}` },
+    });
+    clients.push(ws);
+    const messages: any[] = [];
+    ws.on("message", (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise<void>((resolve, reject) => {
+      ws.on("open", () => resolve());
+      ws.on("error", reject);
+    });
+    return { ws, messages };
+  }
+
+  /** Broadcast an event and wait until `observer` has received it; returns its seq */
+  async function broadcastAndWait(event: Event, observer: RecordingClient): Promise<string> {
+    const before = observer.messages.length;
+    wsHandle.broadcaster.broadcastEvent(event);
+    await waitFor(() => observer.messages.length > before);
+    return observer.messages[observer.messages.length - 1].seq;
+  }
+
+  beforeEach(() => {
+    clients = [];
+  });
+
+  afterEach(async () => {
+    for (const ws of clients) ws.close();
+    httpServer.close();
+    await wsHandle.shutdown();
+  });
+
+  test("broadcasts are stamped with increasing seqs", async () => {
+    await start();
+    const client = await connect();
+    client.ws.send(JSON.stringify({ type: "subscribe", scope: "all" }));
+    await waitFor(() => client.messages.length === 1);
+
+    const first = await broadcastAndWait(makeMockEvent(), client);
+    const second = await broadcastAndWait(makeMockEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FB0" }), client);
+
+    expect(first).toMatch(/^\d+-\d+$/);
+    expect(compareWsSeq(second, first)).toBeGreaterThan(0);
+  });
+
+  test("subscribing with since replays missed broadcasts for that subscription", async () => {
+    await start();
+    const observer = await connect();
+    observer.ws.send(JSON.stringify({ type: "subscribe", scope: "all" }));
+    await waitFor(() => observer.messages.length === 1);
+
+    const since = await broadcastAndWait(makeMockEvent(), observer);
+    await broadcastAndWait(makeMockEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FB1" }), observer);
+    await broadcastAndWait(makeMockEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FB2", workspace_id: "ws-2" }), observer);
+
+    const resumed = await connect();
+    resumed.ws.send(JSON.stringify({ type: "subscribe", workspace_id: "ws-1", since }));
+    await waitFor(() => resumed.messages.length === 2);
+
+    expect(resumed.messages[0]).toEqual({ type: "subscribed", subscription: "workspace:ws-1" });
+    expect(resumed.messages[1].event.id).toBe("01ARZ3NDEKTSV4RRFFQ69G5FB1");
+    expect(resumed.messages[1].seq).toBeDefined();
+
+    // Live broadcasts keep flowing after the replay
+    wsHandle.broadcaster.broadcastEvent(makeMockEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FB3" }));
+    await waitFor(() => resumed.messages.length === 3);
+    expect(resumed.messages[2].event.id).toBe("01ARZ3NDEKTSV4RRFFQ69G5FB3");
+  });
+
+  test("overlapping resumed subscriptions replay each broadcast once", async () => {
+    await start();
+    const observer = await connect();
+    observer.ws.send(JSON.stringify({ type: "subscribe", scope: "all" }));
+    await waitFor(() => observer.messages.length === 1);
+
+    const since = await broadcastAndWait(makeMockEvent(), observer);
+    await broadcastAndWait(makeMockEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FB1" }), observer);
+
+    const resumed = await connect();
+    resumed.ws.send(JSON.stringify({ type: "subscribe", scope: "all", since }));
+    resumed.ws.send(JSON.stringify({ type: "subscribe", workspace_id: "ws-1", since }));
+    await waitFor(() => resumed.messages.filter((m) => m.type === "subscribed").length === 2);
+    await delay(100);
+
+    const events = resumed.messages.filter((m) => m.type === "event");
+    expect(events.map((m) => m.event.id)).toEqual(["01ARZ3NDEKTSV4RRFFQ69G5FB1"]);
+  });
+
+  test("expired and malformed resume points get resync_required", async () => {
+    await start();
+    const client = await connect();
+    client.ws.send(JSON.stringify({ type: "subscribe", scope: "all", since: "1000-0" }));
+    client.ws.send(JSON.stringify({ type: "subscribe", session_id: "session-1", since: "not-a-seq" }));
+    await waitFor(() => client.messages.length === 4);
+
+    expect(client.messages).toEqual([
+      { type: "subscribed", subscription: "all" },
+      { type: "resync_required", subscription: "all", reason: "expired" },
+      { type: "subscribed", subscription: "session:session-1" },
+      { type: "resync_required", subscription: "session:session-1", reason: "invalid_since" },
+    ]);
+  });
+
+  test("gaps larger than maxReplay get resync_required", async () => {
+    await start(1);
+    const observer = await connect();
+    observer.ws.send(JSON.stringify({ type: "subscribe", scope: "all" }));
+    await waitFor(() => observer.messages.length === 1);
+
+    const since = await broadcastAndWait(makeMockEvent(), observer);
+    await broadcastAndWait(makeMockEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FB1" }), observer);
+    await broadcastAndWait(makeMockEvent({ id: "01ARZ3NDEKTSV4RRFFQ69G5FB2" }), observer);
+
+    const resumed = await connect();
+    resumed.ws.send(JSON.stringify({ type: "subscribe", scope: "all", since }));
+    await waitFor(() => resumed.messages.length === 2);
+    expect(resumed.messages[1]).toEqual({ type: "resync_required", subscription: "all", reason: "too_many" });
+  });
+});
@@ -2,32 +2,75 @@
  * WebSocket broadcaster — dispatches real-time updates to subscribed clients.
  *
  * The broadcaster is the outbound half of the WS system. It receives domain
- * events (new events, session updates, remote updates) and fans them out to
+ * events (new events, session updates, live prompts, remote updates) and fans them out to
  * connected clients whose subscriptions match.
  *
  * Broadcast is non-blocking: ws.send() is fire-and-forget with an error
  * callback that logs failures rather than throwing. This ensures a slow or
  * disconnecting client never blocks the event pipeline.
  *
- * Subscription matching:
+ * createSessionNotifier() adapts the broadcaster to core's SessionNotifier so
+ * the reconcile pipeline can report lifecycle progress (transcript_ready →
+ * parsed → summarized → complete/failed) without depending on the WS layer.
+ * createDeviceNotifier() does the same for device presence (heartbeats and
+ * the periodic offline sweep).
+ *
+ * Subscription matching — each broadcast is described by a BroadcastFilter
+ * (its type, workspace, session, device, event type, lifecycle) and a client
+ * receives it if any of its subscriptions matches:
  *   - "all" — client receives everything
  *   - "workspace:<id>" — client receives events/updates for that workspace
  *   - "session:<id>" — client receives events/updates for that session
+ *   - filter subscriptions — every criterion of the WsSubscriptionFilter matches
+ *
+ * Device updates are not scoped to a workspace, so workspace and session
+ * subscribers don't receive them.
+ *
+ * With a WsFanout (multi-instance deployments), each broadcast is also
+ * published to the other server instances, which deliver it to their own
+ * matching clients via deliverToClients (see fanout.ts).
+ *
+ * With a ReplayBuffer, each broadcast is first appended to it and stamped
+ * with the returned `seq`, so clients can resume after a reconnect (see
+ * replay.ts). Appends resolve in order, so broadcasts keep their order.
+ *
+ * Every message handed to a client socket is counted by type in
+ * fuel_code_ws_messages_sent_total (see /api/metrics).
  */
 
 import { WebSocket } from "ws";
 import type { Logger } from "pino";
-import type { Event } from "@fuel-code/shared";
-import type { ConnectedClient, ServerMessage, SessionStats } from "./types.js";
+import type { Event, DeviceStatus, WsBroadcastType, WsSubscriptionFilter } from "@fuel-code/shared";
+import { metrics, type SessionNotifier, type DeviceNotifier } from "@fuel-code/core";
+import type { ConnectedClient, ServerBroadcastMessage, SessionStats } from "./types.js";
+import type { WsFanout } from "./fanout.js";
+import type { ReplayBuffer } from "./replay.js";
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+/** Messages sent to WebSocket clients, by message type (one per recipient) */
+export const wsMessagesSent = metrics.counter(
+  "fuel_code_ws_messages_sent_total",
+  "Messages sent to WebSocket clients, by message type",
+);
 
 // ---------------------------------------------------------------------------
 // Filter types — describe which clients should receive a broadcast
 // ---------------------------------------------------------------------------
 
-/** Filter criteria for matching clients to a broadcast */
+/** What a broadcast is about — matched against clients' subscriptions */
 export interface BroadcastFilter {
+  /** Broadcast message type (absent on broadcasts relayed or buffered by older servers) */
+  type?: WsBroadcastType;
   workspace_id?: string;
   session_id?: string;
+  device_id?: string;
+  /** Event type, for `event` broadcasts */
+  event_type?: string;
+  /** Lifecycle, for `session.update` broadcasts */
+  lifecycle?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -44,8 +87,12 @@ export interface BroadcastSubagentInfo {
 
 /** Public interface for broadcasting updates to WebSocket clients */
 export interface WsBroadcaster {
-  /** Broadcast a new event to clients subscribed to its workspace or session */
-  broadcastEvent(event: Event): void;
+  /**
+   * Broadcast a new event to clients subscribed to its workspace or session.
+   * `workspaceId` is the resolved workspace ULID that subscriptions use;
+   * event.workspace_id (the canonical remote string) is only the fallback.
+   */
+  broadcastEvent(event: Event, workspaceId?: string): void;
   /** Broadcast a session lifecycle change with optional summary and stats */
   broadcastSessionUpdate(
     sessionId: string,
@@ -54,6 +101,13 @@ export interface WsBroadcaster {
     summary?: string,
     stats?: SessionStats,
   ): void;
+  /** Broadcast a prompt submitted in a live session */
+  broadcastSessionPrompt(
+    sessionId: string,
+    workspaceId: string,
+    prompt: string,
+    submittedAt: string,
+  ): void;
   /** Broadcast a remote environment status change (future use) */
   broadcastRemoteUpdate(
     remoteEnvId: string,
@@ -74,6 +128,106 @@ export interface WsBroadcaster {
     workspaceId?: string,
     memberCount?: number,
   ): void;
+  /** Broadcast a device presence change (heartbeat or went offline) */
+  broadcastDeviceUpdate(
+    deviceId: string,
+    name: string,
+    status: DeviceStatus,
+    lastSeenAt: string,
+  ): void;
+}
+
+// ---------------------------------------------------------------------------
+// Local delivery
+// ---------------------------------------------------------------------------
+
+/** Whether an event type passes a list of exact types and "prefix.*" globs */
+function eventTypeMatches(patterns: readonly string[], eventType: string): boolean {
+  return patterns.some(
+    (p) => p === "*" || p === eventType || (p.endsWith(".*") && eventType.startsWith(p.slice(0, -1))),
+  );
+}
+
+/**
+ * Check if a single subscription's filter matches a broadcast. Scope
+ * subscriptions are stored as filters too: "all" is {}, "workspace:<id>"
+ * is { workspace_id }, "session:<id>" is { session_id }.
+ */
+export function subscriptionMatchesFilter(
+  subscription: WsSubscriptionFilter,
+  filter: BroadcastFilter,
+): boolean {
+  if (subscription.types && !(filter.type && subscription.types.includes(filter.type))) return false;
+  if (subscription.workspace_id && subscription.workspace_id !== filter.workspace_id) return false;
+  if (subscription.session_id && subscription.session_id !== filter.session_id) return false;
+  if (subscription.device_id && subscription.device_id !== filter.device_id) return false;
+  if (
+    subscription.event_types &&
+    !(filter.event_type && eventTypeMatches(subscription.event_types, filter.event_type))
+  ) {
+    return false;
+  }
+  if (subscription.lifecycles && !(filter.lifecycle && subscription.lifecycles.includes(filter.lifecycle))) {
+    return false;
+  }
+  return true;
+}
+
+/** Check if any of a client's subscriptions match a broadcast filter */
+function clientMatchesFilter(
+  client: ConnectedClient,
+  filter: BroadcastFilter,
+): boolean {
+  for (const subscription of client.subscriptions.values()) {
+    if (subscriptionMatchesFilter(subscription, filter)) return true;
+  }
+  return false;
+}
+
+/**
+ * Send a message to every client in `clients` matching the filter.
+ * Non-blocking — errors are logged, not thrown, and failing clients removed.
+ * Clients in the middle of a replay get it queued instead (see ws/index.ts).
+ *
+ * @param clients - Live reference to the connected clients map
+ * @param logger  - Pino logger for send failures
+ */
+export function deliverToClients(
+  clients: Map<string, ConnectedClient>,
+  logger: Logger,
+  msg: ServerBroadcastMessage,
+  filter: BroadcastFilter,
+): void {
+  const payload = JSON.stringify(msg);
+
+  for (const client of clients.values()) {
+    if (!clientMatchesFilter(client, filter)) continue;
+    if (client.ws.readyState !== WebSocket.OPEN) continue;
+    if (client.heldBroadcasts) {
+      client.heldBroadcasts.push(msg);
+      continue;
+    }
+
+    try {
+      wsMessagesSent.inc({ type: msg.type });
+      client.ws.send(payload, (err) => {
+        if (err) {
+          logger.warn(
+            { clientId: client.id, error: err.message },
+            "Failed to send WebSocket message — removing client",
+          );
+          clients.delete(client.id);
+        }
+      });
+    } catch (err) {
+      // ws.send can throw if the connection is already closed — remove the client
+      logger.warn(
+        { clientId: client.id, error: err instanceof Error ? err.message : String(err) },
+        "WebSocket send threw synchronously — removing client",
+      );
+      clients.delete(client.id);
+    }
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -85,67 +239,45 @@ export interface WsBroadcaster {
  *
  * @param clients - Live reference to the connected clients map (mutated by WS server)
  * @param logger  - Pino logger for error/debug logging
+ * @param fanout  - Optional cross-instance fan-out; broadcasts are also published to it
+ * @param replay  - Optional replay buffer; broadcasts are appended and stamped with a seq
  */
 export function createBroadcaster(
   clients: Map<string, ConnectedClient>,
   logger: Logger,
+  fanout?: WsFanout,
+  replay?: ReplayBuffer,
 ): WsBroadcaster {
-  /**
-   * Check if a client's subscriptions match a broadcast filter.
-   *
-   * A client matches if any of:
-   *   - It has the "all" subscription
-   *   - It subscribes to the specific workspace_id
-   *   - It subscribes to the specific session_id
-   */
-  function clientMatchesFilter(
-    client: ConnectedClient,
-    filter: BroadcastFilter,
-  ): boolean {
-    if (client.subscriptions.has("all")) return true;
-    if (filter.workspace_id && client.subscriptions.has(`workspace:${filter.workspace_id}`)) return true;
-    if (filter.session_id && client.subscriptions.has(`session:${filter.session_id}`)) return true;
-    return false;
+  /** Deliver to this instance's matching clients and hand off to the fan-out */
+  function dispatch(msg: ServerBroadcastMessage, filter: BroadcastFilter): void {
+    deliverToClients(clients, logger, msg, filter);
+    fanout?.publish(msg, filter);
   }
 
   /**
-   * Core dispatch: send a message to all clients matching the filter.
-   * Non-blocking — errors are logged, not thrown.
+   * Core dispatch: stamp the broadcast with its replay seq (when buffered),
+   * then deliver it locally and to the other instances.
    */
-  function broadcastToMatching(msg: ServerMessage, filter: BroadcastFilter): void {
-    const payload = JSON.stringify(msg);
-
-    for (const client of clients.values()) {
-      if (!clientMatchesFilter(client, filter)) continue;
-      if (client.ws.readyState !== WebSocket.OPEN) continue;
-
-      try {
-        client.ws.send(payload, (err) => {
-          if (err) {
-            logger.warn(
-              { clientId: client.id, error: err.message },
-              "Failed to send WebSocket message — removing client",
-            );
-            clients.delete(client.id);
-          }
-        });
-      } catch (err) {
-        // ws.send can throw if the connection is already closed — remove the client
-        logger.warn(
-          { clientId: client.id, error: err instanceof Error ? err.message : String(err) },
-          "WebSocket send threw synchronously — removing client",
-        );
-        clients.delete(client.id);
-      }
+  function broadcastToMatching(msg: ServerBroadcastMessage, filter: BroadcastFilter): void {
+    if (!replay) {
+      dispatch(msg, filter);
+      return;
     }
+    // append() never rejects; without a seq the broadcast still goes out
+    void replay.append(msg, filter).then((seq) => {
+      dispatch(seq ? { ...msg, seq } : msg, filter);
+    });
   }
 
   return {
-    broadcastEvent(event: Event): void {
-      const msg: ServerMessage = { type: "event", event };
+    broadcastEvent(event: Event, workspaceId?: string): void {
+      const msg: ServerBroadcastMessage = { type: "event", event };
       broadcastToMatching(msg, {
-        workspace_id: event.workspace_id,
+        type: "event",
+        workspace_id: workspaceId ?? event.workspace_id,
         session_id: event.session_id ?? undefined,
+        device_id: event.device_id,
+        event_type: event.type,
       });
     },
 
@@ -156,7 +288,7 @@ export function createBroadcaster(
       summary?: string,
       stats?: SessionStats,
     ): void {
-      const msg: ServerMessage = {
+      const msg: ServerBroadcastMessage = {
         type: "session.update",
         session_id: sessionId,
         lifecycle,
@@ -164,6 +296,28 @@ export function createBroadcaster(
         ...(stats !== undefined ? { stats } : {}),
       };
       broadcastToMatching(msg, {
+        type: "session.update",
+        workspace_id: workspaceId,
+        session_id: sessionId,
+        lifecycle,
+      });
+    },
+
+    broadcastSessionPrompt(
+      sessionId: string,
+      workspaceId: string,
+      prompt: string,
+      submittedAt: string,
+    ): void {
+      const msg: ServerBroadcastMessage = {
+        type: "session.prompt",
+        session_id: sessionId,
+        workspace_id: workspaceId,
+        prompt,
+        submitted_at: submittedAt,
+      };
+      broadcastToMatching(msg, {
+        type: "session.prompt",
         workspace_id: workspaceId,
         session_id: sessionId,
       });
@@ -175,13 +329,13 @@ export function createBroadcaster(
       status: string,
       publicIp?: string,
     ): void {
-      const msg: ServerMessage = {
+      const msg: ServerBroadcastMessage = {
         type: "remote.update",
         remote_env_id: remoteEnvId,
         status,
         ...(publicIp !== undefined ? { public_ip: publicIp } : {}),
       };
-      broadcastToMatching(msg, { workspace_id: workspaceId });
+      broadcastToMatching(msg, { type: "remote.update", workspace_id: workspaceId });
     },
 
     broadcastSubagentUpdate(
@@ -189,13 +343,14 @@ export function createBroadcaster(
       workspaceId: string,
       subagent: BroadcastSubagentInfo,
     ): void {
-      const msg: ServerMessage = {
+      const msg: ServerBroadcastMessage = {
         type: "subagent.update",
         session_id: sessionId,
         workspace_id: workspaceId,
         subagent,
       };
       broadcastToMatching(msg, {
+        type: "subagent.update",
         workspace_id: workspaceId,
         session_id: sessionId,
       });
@@ -207,7 +362,7 @@ export function createBroadcaster(
       workspaceId?: string,
       memberCount?: number,
     ): void {
-      const msg: ServerMessage = {
+      const msg: ServerBroadcastMessage = {
         type: "team.update",
         team_name: teamName,
         ...(leadSessionId !== undefined ? { lead_session_id: leadSessionId } : {}),
@@ -215,8 +370,65 @@ export function createBroadcaster(
         member_count: memberCount ?? 1,
       };
       broadcastToMatching(msg, {
+        type: "team.update",
         ...(workspaceId !== undefined ? { workspace_id: workspaceId } : {}),
       });
     },
+
+    broadcastDeviceUpdate(
+      deviceId: string,
+      name: string,
+      status: DeviceStatus,
+      lastSeenAt: string,
+    ): void {
+      const msg: ServerBroadcastMessage = {
+        type: "device.update",
+        device_id: deviceId,
+        name,
+        status,
+        last_seen_at: lastSeenAt,
+      };
+      // No workspace — devices span workspaces, so workspace/session subscribers don't match
+      broadcastToMatching(msg, { type: "device.update", device_id: deviceId });
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reconcile pipeline adapter
+// ---------------------------------------------------------------------------
+
+/**
+ * Adapt a broadcaster to the SessionNotifier interface injected into the
+ * reconcile pipeline via PipelineDeps.notifier.
+ */
+export function createSessionNotifier(broadcaster: WsBroadcaster): SessionNotifier {
+  return {
+    sessionUpdated(update): void {
+      broadcaster.broadcastSessionUpdate(
+        update.sessionId,
+        update.workspaceId,
+        update.lifecycle,
+        update.summary,
+        update.stats,
+      );
+    },
+  };
+}
+
+/**
+ * Adapt a broadcaster to the DeviceNotifier interface injected into the
+ * event pipeline via PipelineDeps.deviceNotifier.
+ */
+export function createDeviceNotifier(broadcaster: WsBroadcaster): DeviceNotifier {
+  return {
+    deviceUpdated(update): void {
+      broadcaster.broadcastDeviceUpdate(
+        update.deviceId,
+        update.name,
+        update.status,
+        update.lastSeenAt,
+      );
+    },
   };
 }
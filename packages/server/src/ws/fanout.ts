@@ -0,0 +1,139 @@
+/**
+ * Cross-instance WebSocket fan-out over Redis pub/sub.
+ *
+ * With several server replicas behind a load balancer, the consumer group
+ * splits the event stream between them, so each replica only broadcasts the
+ * events it consumed itself — to the clients connected to it. The fan-out
+ * closes that gap: every broadcast is delivered to local clients right away
+ * and also published on one Redis channel, and every other instance relays
+ * it to its own matching clients.
+ *
+ * Envelopes carry the publishing instance's ID; an instance ignores its own
+ * envelopes (it already delivered them locally), so each client receives a
+ * broadcast exactly once. Clients see the same message JSON as before.
+ *
+ * If publishing fails (Redis down), local clients still get the message —
+ * the server degrades to single-instance behaviour rather than dropping it.
+ *
+ * Pub/sub needs a dedicated subscriber connection: once a Redis client has
+ * subscribed it can't run other commands. Publishing uses a regular client.
+ */
+
+import type Redis from "ioredis";
+import type { Logger } from "pino";
+import { generateId } from "@fuel-code/shared";
+import type { ServerBroadcastMessage } from "./types.js";
+import type { BroadcastFilter } from "./broadcaster.js";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Redis pub/sub channel carrying broadcasts between server instances */
+export const WS_FANOUT_CHANNEL = "fuel-code:ws:broadcast";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A broadcast as published on WS_FANOUT_CHANNEL */
+interface FanoutEnvelope {
+  /** Instance that published (and already delivered) the broadcast */
+  origin: string;
+  filter: BroadcastFilter;
+  message: ServerBroadcastMessage;
+}
+
+/** Delivers a broadcast to this instance's matching clients */
+export type FanoutDeliver = (msg: ServerBroadcastMessage, filter: BroadcastFilter) => void;
+
+/** Relays broadcasts between server instances */
+export interface WsFanout {
+  /** Unique ID of this instance on the channel */
+  readonly instanceId: string;
+  /** Publish a broadcast (already delivered locally) to the other instances. Never throws. */
+  publish(msg: ServerBroadcastMessage, filter: BroadcastFilter): void;
+  /** Subscribe to the channel; deliver is called for broadcasts from other instances */
+  start(deliver: FanoutDeliver): Promise<void>;
+  /** Unsubscribe from the channel */
+  stop(): Promise<void>;
+}
+
+/** Options for createRedisFanout */
+export interface RedisFanoutOptions {
+  /** Client used to PUBLISH (any regular connection) */
+  publisher: Redis;
+  /** Dedicated connection used to SUBSCRIBE */
+  subscriber: Redis;
+  /** Pino logger instance */
+  logger: Logger;
+  /** Override the instance ID (defaults to a fresh ULID) */
+  instanceId?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Redis implementation
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a fan-out that relays broadcasts through WS_FANOUT_CHANNEL.
+ *
+ * @param options - Publisher and subscriber clients, logger
+ * @returns A WsFanout to pass to createWsServer
+ */
+export function createRedisFanout(options: RedisFanoutOptions): WsFanout {
+  const { publisher, subscriber, logger } = options;
+  const instanceId = options.instanceId ?? generateId();
+
+  let onMessage: ((channel: string, payload: string) => void) | null = null;
+
+  return {
+    instanceId,
+
+    publish(msg: ServerBroadcastMessage, filter: BroadcastFilter): void {
+      const envelope: FanoutEnvelope = { origin: instanceId, filter, message: msg };
+      publisher.publish(WS_FANOUT_CHANNEL, JSON.stringify(envelope)).catch((err: unknown) => {
+        logger.warn(
+          { error: err instanceof Error ? err.message : String(err), type: msg.type },
+          "Failed to publish WebSocket broadcast to other instances",
+        );
+      });
+    },
+
+    async start(deliver: FanoutDeliver): Promise<void> {
+      onMessage = (channel, payload) => {
+        if (channel !== WS_FANOUT_CHANNEL) return;
+
+        let envelope: FanoutEnvelope;
+        try {
+          envelope = JSON.parse(payload);
+        } catch {
+          logger.warn({ channel }, "Ignoring malformed WebSocket fan-out message");
+          return;
+        }
+
+        // Our own broadcasts were delivered locally when published
+        if (envelope.origin === instanceId) return;
+        deliver(envelope.message, envelope.filter ?? {});
+      };
+
+      subscriber.on("message", onMessage);
+      await subscriber.subscribe(WS_FANOUT_CHANNEL);
+      logger.info({ channel: WS_FANOUT_CHANNEL, instanceId }, "WebSocket fan-out subscribed");
+    },
+
+    async stop(): Promise<void> {
+      if (!onMessage) return;
+      subscriber.off("message", onMessage);
+      onMessage = null;
+      try {
+        await subscriber.unsubscribe(WS_FANOUT_CHANNEL);
+      } catch (err) {
+        logger.warn(
+          { error: err instanceof Error ? err.message : String(err) },
+          "Failed to unsubscribe from WebSocket fan-out channel",
+        );
+      }
+    },
+  };
+}
@@ -6,22 +6,65 @@
  * keepalive. Paired with the broadcaster module for outbound message dispatch.
  *
  * Connection lifecycle:
- *   1. Client connects to /api/ws?token=<api_key>
- *   2. Server validates token — rejects with 4001 if invalid
+ *   1. Client connects to /api/ws with a token (see below)
+ *   2. Server validates token — rejects with 4001 if invalid, 4003 if the
+ *      token lacks the "read" scope
  *   3. On valid auth: assigns ULID client ID, adds to clients map
  *   4. Client sends subscribe/unsubscribe/pong messages
  *   5. Server sends event/session.update/remote.update/ping/error messages
  *   6. Ping/pong keepalive: 30s interval, 10s pong timeout (40s total)
  *   7. On close: removes from clients map, cleans up subscriptions
+ *
+ * Subscriptions are scopes ("all", a workspace, a session) or filters on
+ * broadcast type, event type, device and lifecycle (matched in
+ * broadcaster.ts). Filter subscriptions are removed by their ID.
+ *
+ * Server-Sent Events streams (GET /api/stream) join the same client registry
+ * through attachClient(), so both transports get identical broadcasts, replay
+ * and resync behaviour. SSE clients can't answer pings and are skipped by the
+ * keepalive; the stream route writes its own heartbeat comments.
+ *
+ * When given a WsFanout (Redis pub/sub), broadcasts reach clients connected
+ * to any server instance, not just the one whose consumer handled the event.
+ *
+ * When given a ReplayBuffer, broadcasts carry a `seq` and a reconnecting
+ * client can subscribe with `since: <last seq>` to receive what it missed.
+ * If the gap can't be replayed, the server sends `resync_required` and the
+ * client refetches instead.
+ *
+ * Tokens are the same API_KEY / api_tokens tokens the HTTP API accepts, and
+ * are read from (in order):
+ *   - an `Authorization: Bearer <token>` header (CLI, anything that can set headers)
+ *   - a `fuel-code.bearer.<token>` subprotocol, offered alongside `fuel-code`
+ *     (browsers, which can't set headers on a WebSocket upgrade)
+ * Never from the URL: a `?token=` query parameter is ignored, since URLs end
+ * up in proxy and access logs.
  */
 
 import { WebSocketServer, WebSocket } from "ws";
 import type { Server as HttpServer } from "node:http";
+import type { IncomingMessage } from "node:http";
 import type { Logger } from "pino";
-import { generateId } from "@fuel-code/shared";
-
-import type { ConnectedClient, ClientMessage, ServerMessage } from "./types.js";
-import { createBroadcaster, type WsBroadcaster } from "./broadcaster.js";
+import type { Sql } from "postgres";
+import {
+  compareWsSeq,
+  generateId,
+  wsFilterSubscribeSchema,
+  type WsSubscriptionFilter,
+} from "@fuel-code/shared";
+
+import type { ClientSocket, ConnectedClient, ClientMessage, ServerMessage } from "./types.js";
+import {
+  createBroadcaster,
+  deliverToClients,
+  subscriptionMatchesFilter,
+  wsMessagesSent,
+  type BroadcastFilter,
+  type WsBroadcaster,
+} from "./broadcaster.js";
+import type { WsFanout } from "./fanout.js";
+import type { ReplayBuffer } from "./replay.js";
+import { createTokenVerifier, extractBearerToken, hasScope } from "../middleware/auth.js";
 
 // ---------------------------------------------------------------------------
 // Configuration constants
@@ -33,6 +76,12 @@ const PING_INTERVAL_MS = 30_000;
 /** Time after ping before a non-responsive client is terminated (ms) */
 const PONG_TIMEOUT_MS = 10_000;
 
+/** Subprotocol the server selects when a client authenticates via subprotocol */
+const WS_PROTOCOL = "fuel-code";
+
+/** Prefix of the subprotocol that carries a Bearer token */
+const BEARER_PROTOCOL_PREFIX = "fuel-code.bearer.";
+
 // ---------------------------------------------------------------------------
 // Public interface
 // ---------------------------------------------------------------------------
@@ -43,20 +92,41 @@ export interface WsServerOptions {
   httpServer: HttpServer;
   /** Pino logger instance */
   logger: Logger;
-  /** API key for authenticating WebSocket connections */
+  /** Root API key for authenticating WebSocket connections */
   apiKey: string;
+  /** Database client for named api_tokens (omit to accept only the API key) */
+  sql?: Sql;
   /** Override ping interval for testing (ms) */
   pingIntervalMs?: number;
   /** Override pong timeout for testing (ms) */
   pongTimeoutMs?: number;
+  /** Cross-instance fan-out (omit when running a single instance) */
+  fanout?: WsFanout;
+  /** Replay buffer for resuming subscriptions (omit to disable `since`) */
+  replay?: ReplayBuffer;
+}
+
+/** A client on another transport (SSE) joining the broadcaster's registry */
+export interface AttachClientOptions {
+  /** Connection broadcasts are written to */
+  socket: ClientSocket;
+  /** Subscription ID (echoed in subscribed / resync_required messages) */
+  subscription: string;
+  filter: WsSubscriptionFilter;
+  /** Seq to resume after (replayed like a WebSocket `subscribe ... since`) */
+  since?: string;
+  /** Token name, for logs */
+  tokenName: string;
 }
 
 /** Handle returned by createWsServer for integration and shutdown */
 export interface WsServerHandle {
   /** Broadcaster for dispatching events to subscribed clients */
   broadcaster: WsBroadcaster;
-  /** Current number of connected clients */
+  /** Current number of connected clients (WebSocket and SSE) */
   getClientCount(): number;
+  /** Register an SSE client with one subscription; returns a function that removes it */
+  attachClient(options: AttachClientOptions): () => void;
   /** Graceful shutdown: close all connections, clear intervals, close WSS */
   shutdown(): Promise<void>;
 }
@@ -68,13 +138,13 @@ export interface WsServerHandle {
 /**
  * Create and start the WebSocket server on the given HTTP server.
  *
- * The WSS handles the upgrade request for /api/ws, validates the token query
- * parameter, and manages the full client lifecycle. Returns a handle with
+ * The WSS handles the upgrade request for /api/ws, validates the client's
+ * token, and manages the full client lifecycle. Returns a handle with
  * the broadcaster (for the consumer to call), client count (for health), and
  * shutdown (for graceful teardown).
  */
 export function createWsServer(options: WsServerOptions): WsServerHandle {
-  const { httpServer, logger: log, apiKey } = options;
+  const { httpServer, logger: log, apiKey, sql, fanout, replay } = options;
   const pingIntervalMs = options.pingIntervalMs ?? PING_INTERVAL_MS;
   const pongTimeoutMs = options.pongTimeoutMs ?? PONG_TIMEOUT_MS;
 
@@ -82,50 +152,110 @@ export function createWsServer(options: WsServerOptions): WsServerHandle {
   const clients = new Map<string, ConnectedClient>();
 
   /** The ws WebSocketServer instance */
-  const wss = new WebSocketServer({ server: httpServer, path: "/api/ws" });
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: "/api/ws",
+    // Token-bearing clients offer "fuel-code" too; select it so the
+    // handshake never echoes the token subprotocol back.
+    handleProtocols: (protocols) => (protocols.has(WS_PROTOCOL) ? WS_PROTOCOL : false),
+  });
+
+  /** Shared with the HTTP auth middleware: API_KEY or a named api_tokens token */
+  const verifier = createTokenVerifier(apiKey, sql);
 
   /** The broadcaster that dispatches messages to matching clients */
-  const broadcaster = createBroadcaster(clients, log);
+  const broadcaster = createBroadcaster(clients, log, fanout, replay);
+
+  // Relay broadcasts published by other instances to our own clients
+  fanout?.start((msg, filter) => {
+    if (msg.seq) replay?.observe(msg.seq);
+    deliverToClients(clients, log, msg, filter);
+  }).catch((err) => {
+    log.error({ err }, "Failed to subscribe to WebSocket fan-out — only local broadcasts will be delivered");
+  });
 
   // -------------------------------------------------------------------------
   // Connection handling
   // -------------------------------------------------------------------------
 
   wss.on("connection", (ws: WebSocket, req) => {
-    // --- Auth: validate token query param ---
-    const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
-    const token = url.searchParams.get("token");
+    // Token verification may hit the database, so messages that arrive before
+    // it finishes (clients subscribe right after "open") are held until then.
+    let client: ConnectedClient | null = null;
+    const pending: WebSocket.RawData[] = [];
+
+    ws.on("message", (data) => {
+      if (client) {
+        handleRawMessage(client, data);
+      } else {
+        pending.push(data);
+      }
+    });
 
-    if (!token || token !== apiKey) {
+    // --- Auth: validate token from header or subprotocol ---
+    const token = extractToken(req);
+    if (!token) {
       ws.close(4001, "Unauthorized");
       return;
     }
 
-    // --- Authenticated: set up client state ---
+    verifier.verify(token).then(
+      (auth) => {
+        if (!auth) {
+          ws.close(4001, "Unauthorized");
+          return;
+        }
+        if (!hasScope(auth.scopes, "read")) {
+          ws.close(4003, "Insufficient scope");
+          return;
+        }
+        // The client may have given up while the token was being checked
+        if (ws.readyState !== WebSocket.OPEN) return;
+
+        client = registerClient(ws, auth.name);
+        for (const data of pending.splice(0)) handleRawMessage(client, data);
+      },
+      (err) => {
+        log.error(
+          { error: err instanceof Error ? err.message : String(err) },
+          "WebSocket token verification failed",
+        );
+        ws.close(1011, "Internal error");
+      },
+    );
+  });
+
+  /** Pull the client's token from its upgrade request (see module doc for precedence) */
+  function extractToken(req: IncomingMessage): string | null {
+    const fromHeader = extractBearerToken(req.headers.authorization);
+    if (fromHeader) return fromHeader;
+
+    const protocols = (req.headers["sec-websocket-protocol"] ?? "").split(",").map((p) => p.trim());
+    const bearer = protocols.find((p) => p.startsWith(BEARER_PROTOCOL_PREFIX));
+    if (bearer && bearer.length > BEARER_PROTOCOL_PREFIX.length) {
+      return bearer.slice(BEARER_PROTOCOL_PREFIX.length);
+    }
+
+    return null;
+  }
+
+  /** Set up state and handlers for a client whose token has been verified */
+  function registerClient(ws: WebSocket, tokenName: string): ConnectedClient {
     const clientId = generateId();
     const client: ConnectedClient = {
       id: clientId,
       ws,
-      subscriptions: new Set(),
+      transport: "ws",
+      subscriptions: new Map(),
       isAlive: true,
       connectedAt: new Date(),
+      deliveredAfter: new Map(),
+      heldBroadcasts: null,
+      subscribeChain: Promise.resolve(),
     };
 
     clients.set(clientId, client);
-    log.info({ clientId }, "WebSocket client connected");
-
-    // --- Message handling ---
-    ws.on("message", (data) => {
-      let msg: ClientMessage;
-      try {
-        msg = JSON.parse(data.toString());
-      } catch {
-        sendMessage(ws, { type: "error", message: "Invalid JSON" });
-        return;
-      }
-
-      handleClientMessage(client, msg);
-    });
+    log.info({ clientId, token: tokenName }, "WebSocket client connected");
 
     // --- Close handling ---
     ws.on("close", () => {
@@ -138,7 +268,22 @@ export function createWsServer(options: WsServerOptions): WsServerHandle {
       log.error({ clientId, error: err.message }, "WebSocket client error");
       ws.close();
     });
-  });
+
+    return client;
+  }
+
+  /** Parse a raw frame as JSON and dispatch it */
+  function handleRawMessage(client: ConnectedClient, data: WebSocket.RawData): void {
+    let msg: ClientMessage;
+    try {
+      msg = JSON.parse(data.toString());
+    } catch {
+      sendMessage(client.ws, { type: "error", message: "Invalid JSON" });
+      return;
+    }
+
+    handleClientMessage(client, msg);
+  }
 
   // -------------------------------------------------------------------------
   // Client message dispatch
@@ -178,37 +323,144 @@ export function createWsServer(options: WsServerOptions): WsServerHandle {
     msg: ClientMessage & { type: "subscribe" },
   ): void {
     let subscription: string;
+    let filter: WsSubscriptionFilter;
 
-    if ("scope" in msg && msg.scope === "all") {
+    if ("filter" in msg) {
+      const parsed = wsFilterSubscribeSchema.safeParse({ filter: msg.filter, id: msg.id });
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        sendMessage(client.ws, {
+          type: "error",
+          message: `Invalid subscribe filter: ${issue.path.join(".")}: ${issue.message}`,
+        });
+        return;
+      }
+      subscription = parsed.data.id ?? `filter:${generateId()}`;
+      filter = parsed.data.filter;
+    } else if ("scope" in msg && msg.scope === "all") {
       subscription = "all";
+      filter = {};
     } else if ("workspace_id" in msg && msg.workspace_id) {
       subscription = `workspace:${msg.workspace_id}`;
+      filter = { workspace_id: msg.workspace_id };
     } else if ("session_id" in msg && msg.session_id) {
       subscription = `session:${msg.session_id}`;
+      filter = { session_id: msg.session_id };
     } else {
       sendMessage(client.ws, { type: "error", message: "Invalid subscribe message" });
       return;
     }
 
-    client.subscriptions.add(subscription);
+    queueSubscription(client, subscription, filter, msg.since);
+  }
+
+  /**
+   * Add a subscription after any still in progress. Subscribes are handled
+   * one at a time so a replay's held broadcasts aren't flushed by a later one.
+   */
+  function queueSubscription(
+    client: ConnectedClient,
+    subscription: string,
+    filter: WsSubscriptionFilter,
+    since: string | undefined,
+  ): void {
+    client.subscribeChain = client.subscribeChain
+      .then(() => addSubscription(client, subscription, filter, since))
+      .catch((err) => {
+        client.heldBroadcasts = null;
+        log.error(
+          { clientId: client.id, error: err instanceof Error ? err.message : String(err) },
+          "WebSocket subscribe failed",
+        );
+      });
+  }
+
+  /**
+   * Add a subscription and, when `since` is given, replay the broadcasts it
+   * missed. Live broadcasts are held while the replay is read and sent, then
+   * flushed, so the client sees everything once and in order.
+   */
+  async function addSubscription(
+    client: ConnectedClient,
+    subscription: string,
+    filter: WsSubscriptionFilter,
+    since: string | undefined,
+  ): Promise<void> {
+    if (since === undefined || !replay) {
+      client.subscriptions.set(subscription, filter);
+      sendMessage(client.ws, { type: "subscribed", subscription });
+      const latest = replay?.lastSeq();
+      if (latest) client.deliveredAfter.set(subscription, latest);
+      if (since !== undefined) {
+        sendMessage(client.ws, { type: "resync_required", subscription, reason: "unavailable" });
+      }
+      return;
+    }
+
+    client.heldBroadcasts = [];
+    client.subscriptions.set(subscription, filter);
     sendMessage(client.ws, { type: "subscribed", subscription });
+
+    const result = await replay.readSince(since);
+    const replayed = new Set<string>();
+    if (!result.ok) {
+      sendMessage(client.ws, { type: "resync_required", subscription, reason: result.reason });
+    } else {
+      for (const entry of result.entries) {
+        if (!subscriptionMatchesFilter(filter, entry.filter)) continue;
+        if (deliveredByOtherSubscription(client, subscription, entry.seq, entry.filter)) continue;
+        sendMessage(client.ws, { ...entry.message, seq: entry.seq });
+        replayed.add(entry.seq);
+      }
+      client.deliveredAfter.set(subscription, since);
+    }
+
+    // Flush what arrived meanwhile, minus anything the replay already covered
+    const held = client.heldBroadcasts ?? [];
+    client.heldBroadcasts = null;
+    for (const msg of held) {
+      if (msg.seq && replayed.has(msg.seq)) continue;
+      sendMessage(client.ws, msg);
+    }
+  }
+
+  /** Whether another of the client's subscriptions already delivered this broadcast */
+  function deliveredByOtherSubscription(
+    client: ConnectedClient,
+    subscription: string,
+    seq: string,
+    filter: BroadcastFilter,
+  ): boolean {
+    for (const [other, otherFilter] of client.subscriptions) {
+      if (other === subscription || !subscriptionMatchesFilter(otherFilter, filter)) continue;
+      const after = client.deliveredAfter.get(other);
+      if (after && compareWsSeq(seq, after) > 0) return true;
+    }
+    return false;
   }
 
   function handleUnsubscribe(
     client: ConnectedClient,
     msg: ClientMessage & { type: "unsubscribe" },
   ): void {
-    if ("workspace_id" in msg && msg.workspace_id) {
+    if ("subscription" in msg && msg.subscription) {
+      client.subscriptions.delete(msg.subscription);
+      client.deliveredAfter.delete(msg.subscription);
+      sendMessage(client.ws, { type: "unsubscribed", subscription: msg.subscription });
+    } else if ("workspace_id" in msg && msg.workspace_id) {
       const subscription = `workspace:${msg.workspace_id}`;
       client.subscriptions.delete(subscription);
+      client.deliveredAfter.delete(subscription);
       sendMessage(client.ws, { type: "unsubscribed", subscription });
     } else if ("session_id" in msg && msg.session_id) {
       const subscription = `session:${msg.session_id}`;
       client.subscriptions.delete(subscription);
+      client.deliveredAfter.delete(subscription);
       sendMessage(client.ws, { type: "unsubscribed", subscription });
     } else {
       // No specific target — clear all subscriptions and send a single ack
       client.subscriptions.clear();
+      client.deliveredAfter.clear();
       sendMessage(client.ws, { type: "unsubscribed", subscription: "all" });
     }
   }
@@ -225,6 +477,7 @@ export function createWsServer(options: WsServerOptions): WsServerHandle {
    */
   const pingInterval = setInterval(() => {
     for (const client of clients.values()) {
+      if (client.transport !== "ws") continue;
       // Mark as not-alive before sending ping — the pong handler will flip it back
       client.isAlive = false;
       sendMessage(client.ws, { type: "ping" });
@@ -251,11 +504,12 @@ export function createWsServer(options: WsServerOptions): WsServerHandle {
   // Utilities
   // -------------------------------------------------------------------------
 
-  /** Send a JSON message to a WebSocket, handling errors gracefully */
-  function sendMessage(ws: WebSocket, msg: ServerMessage): void {
+  /** Send a JSON message to a client connection, handling errors gracefully */
+  function sendMessage(ws: ClientSocket, msg: ServerMessage): void {
     if (ws.readyState !== WebSocket.OPEN) return;
 
     try {
+      wsMessagesSent.inc({ type: msg.type });
       ws.send(JSON.stringify(msg), (err) => {
         if (err) {
           log.warn({ error: err.message }, "Failed to send WebSocket message");
@@ -280,10 +534,38 @@ export function createWsServer(options: WsServerOptions): WsServerHandle {
       return clients.size;
     },
 
+    attachClient({ socket, subscription, filter, since, tokenName }: AttachClientOptions): () => void {
+      const clientId = generateId();
+      const client: ConnectedClient = {
+        id: clientId,
+        ws: socket,
+        transport: "sse",
+        subscriptions: new Map(),
+        isAlive: true,
+        connectedAt: new Date(),
+        deliveredAfter: new Map(),
+        heldBroadcasts: null,
+        subscribeChain: Promise.resolve(),
+      };
+
+      clients.set(clientId, client);
+      log.info({ clientId, token: tokenName }, "SSE stream client connected");
+      queueSubscription(client, subscription, filter, since);
+
+      return () => {
+        if (clients.delete(clientId)) {
+          log.info({ clientId }, "SSE stream client disconnected");
+        }
+      };
+    },
+
     async shutdown(): Promise<void> {
       // Stop ping interval
       clearInterval(pingInterval);
 
+      // Stop relaying other instances' broadcasts
+      await fanout?.stop();
+
       // Close all client connections
       for (const client of clients.values()) {
         client.ws.close(1001, "Server shutting down");
@@ -309,4 +591,7 @@ export function createWsServer(options: WsServerOptions): WsServerHandle {
 
 // Re-export types and broadcaster for convenience
 export type { WsBroadcaster } from "./broadcaster.js";
-export type { ConnectedClient } from "./types.js";
+export { createRedisFanout, WS_FANOUT_CHANNEL, type WsFanout } from "./fanout.js";
+export { createRedisReplayBuffer, WS_REPLAY_STREAM, type ReplayBuffer } from "./replay.js";
+export { createSessionNotifier, createDeviceNotifier } from "./broadcaster.js";
+export type { ConnectedClient, ClientSocket } from "./types.js";
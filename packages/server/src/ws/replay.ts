@@ -0,0 +1,165 @@
+/**
+ * WebSocket replay buffer — lets clients resume after a reconnect.
+ *
+ * Every broadcast is appended to a Redis Stream before it is delivered, and
+ * the entry ID becomes the message's `seq`. Because all server instances
+ * append to the same stream, sequence IDs are monotonic across the fleet.
+ * The stream is trimmed by age (XADD MINID ~), so it only holds the last few
+ * minutes of broadcasts — enough to cover a laptop sleep or a deploy.
+ *
+ * On `subscribe ... since`, readSince() returns the entries after `since`
+ * (the WS server filters them by the new subscription), or a reason to send
+ * resync_required instead: the resume point is older than the window, the
+ * gap holds more than maxReplay entries, or Redis can't be read.
+ *
+ * If appending fails, the broadcast goes out without a seq; clients keep
+ * resuming from the last seq they saw.
+ */
+
+import type Redis from "ioredis";
+import type { Logger } from "pino";
+import {
+  compareWsSeq,
+  isWsSeq,
+  wsSeqTime,
+  type ServerBroadcastMessage,
+  type ServerResyncRequiredMessage,
+} from "@fuel-code/shared";
+import type { BroadcastFilter } from "./broadcaster.js";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Redis Stream holding recent broadcasts */
+export const WS_REPLAY_STREAM = "fuel-code:ws:replay";
+
+/** How long broadcasts stay replayable (ms) */
+const DEFAULT_RETENTION_MS = 15 * 60_000;
+
+/** Largest gap replayed to one subscription; beyond it the client resyncs */
+const DEFAULT_MAX_REPLAY = 1_000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One buffered broadcast */
+export interface ReplayEntry {
+  seq: string;
+  message: ServerBroadcastMessage;
+  filter: BroadcastFilter;
+}
+
+/** Outcome of readSince: the missed entries, or why they can't be replayed */
+export type ReplayResult =
+  | { ok: true; entries: ReplayEntry[] }
+  | { ok: false; reason: ServerResyncRequiredMessage["reason"] };
+
+/** Short-retention buffer of sequenced broadcasts */
+export interface ReplayBuffer {
+  /** Append a broadcast; resolves with its seq, or null if it couldn't be stored */
+  append(message: ServerBroadcastMessage, filter: BroadcastFilter): Promise<string | null>;
+  /** Broadcasts after `since`, oldest first */
+  readSince(since: string): Promise<ReplayResult>;
+  /** Latest seq this instance appended or relayed (null before the first) */
+  lastSeq(): string | null;
+  /** Record a seq relayed from another instance */
+  observe(seq: string): void;
+}
+
+/** Options for createRedisReplayBuffer */
+export interface RedisReplayBufferOptions {
+  redis: Redis;
+  logger: Logger;
+  /** How long broadcasts stay replayable (default 15 minutes) */
+  retentionMs?: number;
+  /** Largest gap replayed to one subscription (default 1000) */
+  maxReplay?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Redis implementation
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a replay buffer on the WS_REPLAY_STREAM Redis Stream.
+ *
+ * @param options - Redis client, logger, retention and replay limits
+ */
+export function createRedisReplayBuffer(options: RedisReplayBufferOptions): ReplayBuffer {
+  const { redis, logger } = options;
+  const retentionMs = options.retentionMs ?? DEFAULT_RETENTION_MS;
+  const maxReplay = options.maxReplay ?? DEFAULT_MAX_REPLAY;
+
+  let latest: string | null = null;
+  const observe = (seq: string) => {
+    if (latest === null || compareWsSeq(seq, latest) > 0) latest = seq;
+  };
+
+  return {
+    async append(message, filter) {
+      try {
+        // MINID ~ trims entries older than the window (approximately, which is cheaper)
+        const minId = `${Date.now() - retentionMs}-0`;
+        const seq = await redis.xadd(
+          WS_REPLAY_STREAM,
+          "MINID",
+          "~",
+          minId,
+          "*",
+          "message",
+          JSON.stringify(message),
+          "filter",
+          JSON.stringify(filter),
+        );
+        if (seq) observe(seq);
+        return seq;
+      } catch (err) {
+        logger.warn(
+          { error: err instanceof Error ? err.message : String(err), type: message.type },
+          "Failed to append WebSocket broadcast to the replay buffer",
+        );
+        return null;
+      }
+    },
+
+    async readSince(since) {
+      if (!isWsSeq(since)) return { ok: false, reason: "invalid_since" };
+      if (wsSeqTime(since) < Date.now() - retentionMs) return { ok: false, reason: "expired" };
+
+      let raw: Array<[string, string[]]>;
+      try {
+        // "(" makes the start exclusive: everything after the client's last seq
+        raw = await redis.xrange(WS_REPLAY_STREAM, `(${since}`, "+", "COUNT", maxReplay + 1);
+      } catch (err) {
+        logger.warn(
+          { error: err instanceof Error ? err.message : String(err), since },
+          "Failed to read the WebSocket replay buffer",
+        );
+        return { ok: false, reason: "unavailable" };
+      }
+
+      if (raw.length > maxReplay) return { ok: false, reason: "too_many" };
+
+      const entries: ReplayEntry[] = [];
+      for (const [seq, fields] of raw) {
+        const values: Record<string, string> = {};
+        for (let i = 0; i + 1 < fields.length; i += 2) values[fields[i]] = fields[i + 1];
+        try {
+          entries.push({
+            seq,
+            message: JSON.parse(values.message),
+            filter: JSON.parse(values.filter ?? "{}"),
+          });
+        } catch {
+          logger.warn({ seq }, "Skipping malformed WebSocket replay entry");
+        }
+      }
+      return { ok: true, entries };
+    },
+
+    lastSeq: () => latest,
+    observe,
+  };
+}
@@ -2,12 +2,11 @@
  * Server-internal WebSocket types.
  *
  * ConnectedClient tracks the state of a single authenticated WebSocket connection:
- * its unique ID, subscription set, and keepalive status. The WS server module
- * manages a Map<string, ConnectedClient> for all active connections.
+ * its unique ID, subscriptions, and keepalive status. The WS server module
+ * manages a Map<string, ConnectedClient> for all active connections — including
+ * Server-Sent Events streams (GET /api/stream), which share the broadcaster.
  */
 
-import type WebSocket from "ws";
-
 // Re-export shared WS types so server code can import from one place
 export type {
   ClientMessage,
@@ -18,31 +17,65 @@ export type {
   ClientPongMessage,
   ServerEventMessage,
   ServerSessionUpdateMessage,
+  ServerSessionPromptMessage,
   ServerRemoteUpdateMessage,
+  ServerDeviceUpdateMessage,
   ServerSubagentUpdateMessage,
   ServerTeamUpdateMessage,
   ServerPingMessage,
   ServerErrorMessage,
   ServerSubscribedMessage,
   ServerUnsubscribedMessage,
+  ServerResyncRequiredMessage,
+  ServerBroadcastMessage,
+  WsSubscriptionFilter,
 } from "@fuel-code/shared";
+import type { ServerBroadcastMessage, WsSubscriptionFilter } from "@fuel-code/shared";
+
+/**
+ * The part of a client connection the broadcaster writes to. A `ws`
+ * WebSocket satisfies it; SSE streams adapt their response (routes/stream.ts).
+ */
+export interface ClientSocket {
+  /** WebSocket readyState constants: only OPEN (1) connections are written to */
+  readonly readyState: number;
+  /** Send one serialized ServerMessage */
+  send(data: string, cb?: (err?: Error) => void): void;
+  close(code?: number, reason?: string): void;
+  terminate(): void;
+}
 
 /**
  * Server-side representation of a connected WebSocket client.
  *
  * Each authenticated connection gets a ULID client ID and maintains its own
- * set of subscriptions. The keepalive flag tracks ping/pong health — if
+ * subscriptions. The keepalive flag tracks ping/pong health — if
  * a client doesn't respond to ping within the timeout, it's terminated.
  */
 export interface ConnectedClient {
   /** ULID assigned on connection — used for logging and subscription management */
   id: string;
-  /** The underlying WebSocket connection */
-  ws: WebSocket;
-  /** Set of active subscriptions: "all", "workspace:<id>", "session:<id>" */
-  subscriptions: Set<string>;
+  /** The underlying connection: a WebSocket, or an SSE stream */
+  ws: ClientSocket;
+  /** How the client is connected; only WebSocket clients answer pings */
+  transport: "ws" | "sse";
+  /**
+   * Active subscriptions by ID ("all", "workspace:<id>", "session:<id>", or
+   * the ID of a filter subscription) -> the filter they match with
+   */
+  subscriptions: Map<string, WsSubscriptionFilter>;
   /** Tracks whether the client has responded to the latest ping */
   isAlive: boolean;
   /** Timestamp when this client connected */
   connectedAt: Date;
+  /**
+   * Subscription -> seq after which it has delivered every matching broadcast
+   * (its resume point, or the latest seq when it was added). Replays skip
+   * broadcasts another subscription already delivered.
+   */
+  deliveredAfter: Map<string, string>;
+  /** Live broadcasts held back while a replay is being sent (null otherwise) */
+  heldBroadcasts: ServerBroadcastMessage[] | null;
+  /** Serializes subscribe handling so replays don't interleave */
+  subscribeChain: Promise<void>;
 }
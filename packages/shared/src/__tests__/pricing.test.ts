@@ -0,0 +1,156 @@
+/**
+ * Tests for the model-aware pricing registry.
+ *
+ * Covers prefix resolution (longest match wins, unknown-model fallback),
+ * per-TTL cache write pricing, long-context tier selection, and the
+ * per-model cost breakdown accumulator.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  PRICING_VERSION,
+  MODEL_PRICING,
+  DEFAULT_MODEL_PRICING,
+  resolveModelPricing,
+  computeMessageCost,
+  usageFromTokenUsage,
+  addToCostBreakdown,
+  createCostBreakdown,
+} from "../pricing.js";
+
+/** Build a MessageTokenUsage with zeros for unspecified fields */
+function usage(partial: {
+  input?: number;
+  output?: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+  cacheWrite1h?: number;
+}) {
+  return {
+    input_tokens: partial.input ?? 0,
+    output_tokens: partial.output ?? 0,
+    cache_read_tokens: partial.cacheRead ?? 0,
+    cache_write_tokens: partial.cacheWrite ?? 0,
+    cache_write_1h_tokens: partial.cacheWrite1h ?? 0,
+  };
+}
+
+describe("resolveModelPricing", () => {
+  test("matches dated model IDs by prefix", () => {
+    expect(resolveModelPricing("claude-opus-4-1-20250805")).toBe(MODEL_PRICING["claude-opus-4"]);
+    expect(resolveModelPricing("claude-3-5-haiku-20241022")).toBe(MODEL_PRICING["claude-3-5-haiku"]);
+  });
+
+  test("prefers the longest matching prefix", () => {
+    expect(resolveModelPricing("claude-opus-4-5-20251101")).toBe(MODEL_PRICING["claude-opus-4-5"]);
+    expect(resolveModelPricing("claude-opus-4-5-20251101").input).toBe(5);
+  });
+
+  test("falls back to default pricing for unknown or missing models", () => {
+    expect(resolveModelPricing("<synthetic>")).toBe(DEFAULT_MODEL_PRICING);
+    expect(resolveModelPricing(null)).toBe(DEFAULT_MODEL_PRICING);
+    expect(resolveModelPricing(undefined)).toBe(DEFAULT_MODEL_PRICING);
+  });
+});
+
+describe("computeMessageCost", () => {
+  test("returns null when no usage fields are present", () => {
+    expect(
+      computeMessageCost("claude-sonnet-4-5", {
+        input_tokens: null,
+        output_tokens: null,
+        cache_read_tokens: null,
+        cache_write_tokens: null,
+      }),
+    ).toBeNull();
+  });
+
+  test("prices Opus and Haiku differently for the same usage", () => {
+    const u = usage({ input: 100_000, output: 100_000 });
+    expect(computeMessageCost("claude-opus-4-1-20250805", u)).toBeCloseTo(9, 6);
+    expect(computeMessageCost("claude-haiku-4-5-20251001", u)).toBeCloseTo(0.6, 6);
+    expect(computeMessageCost("claude-sonnet-4-5-20250929", u)).toBeCloseTo(1.8, 6);
+  });
+
+  test("prices 1h cache writes at the 1h rate and the rest at the 5m rate", () => {
+    // Sonnet: 5m write $3.75/MTok, 1h write $6/MTok
+    const cost = computeMessageCost(
+      "claude-sonnet-4-5",
+      usage({ cacheWrite: 100_000, cacheWrite1h: 25_000 }),
+    );
+    expect(cost).toBeCloseTo((75_000 * 3.75 + 25_000 * 6) / 1_000_000, 6);
+  });
+
+  test("clamps an oversized 1h split to the total cache write count", () => {
+    const cost = computeMessageCost(
+      "claude-sonnet-4-5",
+      usage({ cacheWrite: 100_000, cacheWrite1h: 500_000 }),
+    );
+    expect(cost).toBeCloseTo(0.6, 6);
+  });
+
+  test("applies the long-context tier when total input exceeds the threshold", () => {
+    // 150K input + 60K cache read = 210K total input > 200K → long-context rates
+    const long = computeMessageCost(
+      "claude-sonnet-4-20250514",
+      usage({ input: 150_000, cacheRead: 60_000, output: 1_000 }),
+    );
+    expect(long).toBeCloseTo((150_000 * 6 + 60_000 * 0.6 + 1_000 * 22.5) / 1_000_000, 6);
+
+    // Exactly at the threshold stays on standard rates
+    const standard = computeMessageCost("claude-sonnet-4-20250514", usage({ input: 200_000 }));
+    expect(standard).toBeCloseTo(0.6, 6);
+  });
+
+  test("ignores long-context size for models without a long-context tier", () => {
+    const cost = computeMessageCost("claude-opus-4-1", usage({ input: 500_000 }));
+    expect(cost).toBeCloseTo(7.5, 6);
+  });
+});
+
+describe("usageFromTokenUsage", () => {
+  test("maps raw transcript usage including the 1h cache split", () => {
+    expect(
+      usageFromTokenUsage({
+        input_tokens: 10,
+        output_tokens: 20,
+        cache_read_input_tokens: 30,
+        cache_creation_input_tokens: 40,
+        cache_creation: { ephemeral_5m_input_tokens: 15, ephemeral_1h_input_tokens: 25 },
+      }),
+    ).toEqual({
+      input_tokens: 10,
+      output_tokens: 20,
+      cache_read_tokens: 30,
+      cache_write_tokens: 40,
+      cache_write_1h_tokens: 25,
+    });
+  });
+
+  test("returns all nulls for missing usage", () => {
+    const u = usageFromTokenUsage(undefined);
+    expect(u.input_tokens).toBeNull();
+    expect(u.cache_write_1h_tokens).toBeNull();
+  });
+});
+
+describe("cost breakdown", () => {
+  test("accumulates per model and stamps the pricing version", () => {
+    const breakdown = createCostBreakdown();
+    addToCostBreakdown(breakdown, "claude-opus-4-1", usage({ input: 100, output: 10 }), 0.5);
+    addToCostBreakdown(breakdown, "claude-opus-4-1", usage({ input: 50, cacheWrite: 5 }), 0.25);
+    addToCostBreakdown(breakdown, null, usage({ output: 1 }), null);
+
+    expect(breakdown.pricing_version).toBe(PRICING_VERSION);
+    expect(breakdown.models["claude-opus-4-1"]).toEqual({
+      messages: 2,
+      tokens_in: 150,
+      tokens_out: 10,
+      cache_read_tokens: 0,
+      cache_write_tokens: 5,
+      cost_usd: 0.75,
+    });
+    expect(breakdown.models.unknown.messages).toBe(1);
+    expect(breakdown.models.unknown.cost_usd).toBe(0);
+  });
+});
@@ -10,6 +10,7 @@ import {
   buildTranscriptKey,
   buildParsedBackupKey,
   buildArtifactKey,
+  buildCompactSnapshotKey,
 } from "../s3-keys.js";
 
 describe("buildTranscriptKey", () => {
@@ -26,6 +27,13 @@ describe("buildParsedBackupKey", () => {
   });
 });
 
+describe("buildCompactSnapshotKey", () => {
+  test("returns a per-compaction path next to the raw transcript", () => {
+    const key = buildCompactSnapshotKey("github.com/user/repo", "abc-123", 2);
+    expect(key).toBe("transcripts/github.com/user/repo/abc-123/compact-2.jsonl");
+  });
+});
+
 describe("buildArtifactKey", () => {
   test("returns correct path for a session, artifact id, and extension", () => {
     const key = buildArtifactKey("abc-123", "artifact-1", "json");
@@ -208,8 +208,25 @@ describe("validateEventPayload", () => {
     }
   });
 
-  test("unregistered event type (system.heartbeat) passes through", () => {
-    const result = validateEventPayload("system.heartbeat", {});
+  test("unregistered event type (system.hooks.installed) passes through", () => {
+    const result = validateEventPayload("system.hooks.installed", {});
     expect(result.success).toBe(true);
   });
+
+  test("system.heartbeat requires a known source", () => {
+    expect(validateEventPayload("system.heartbeat", { source: "drain", queue_depth: 0 }).success).toBe(true);
+    expect(validateEventPayload("system.heartbeat", {}).success).toBe(false);
+    expect(validateEventPayload("system.heartbeat", { source: "cron" }).success).toBe(false);
+  });
+
+  test("git.rewrite requires a known kind and at least one mapping", () => {
+    const mappings = [{ old_sha: "abc123", new_sha: "def456" }];
+    expect(validateEventPayload("git.rewrite", { kind: "amend", mappings }).success).toBe(true);
+    expect(validateEventPayload("git.rewrite", { kind: "rebase", branch: "main", mappings }).success).toBe(true);
+    expect(validateEventPayload("git.rewrite", { kind: "amend", mappings: [] }).success).toBe(false);
+    expect(validateEventPayload("git.rewrite", { kind: "squash", mappings }).success).toBe(false);
+    expect(
+      validateEventPayload("git.rewrite", { kind: "rebase", mappings: [{ old_sha: "abc123" }] }).success,
+    ).toBe(false);
+  });
 });
@@ -28,6 +28,29 @@ describe("sessionCompactPayloadSchema", () => {
     expect(result.success).toBe(true);
   });
 
+  test("accepts trigger and snapshot_s3_key from the PreCompact hook", () => {
+    const payload = {
+      cc_session_id: "cc-sess-001",
+      compact_sequence: 1,
+      transcript_path: "/home/user/.claude/projects/x/cc-sess-001.jsonl",
+      trigger: "auto",
+      snapshot_s3_key: "transcripts/github.com/user/repo/cc-sess-001/compact-1.jsonl",
+    };
+    const result = sessionCompactPayloadSchema.safeParse(payload);
+    expect(result.success).toBe(true);
+  });
+
+  test("rejects an unknown trigger", () => {
+    const payload = {
+      cc_session_id: "cc-sess-001",
+      compact_sequence: 0,
+      transcript_path: "transcripts/sess.jsonl",
+      trigger: "scheduled",
+    };
+    const result = sessionCompactPayloadSchema.safeParse(payload);
+    expect(result.success).toBe(false);
+  });
+
   test("rejects missing cc_session_id", () => {
     const payload = {
       compact_sequence: 0,
@@ -0,0 +1,85 @@
+/**
+ * Tests for session diff -> patch rendering.
+ *
+ * The patch must stay `git apply` compatible: only complete files get a
+ * "diff --git" section, and skipped files are listed as "#" comments.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { formatHunkHeader, formatSessionPatch } from "../session-patch.js";
+import type { SessionDiff, SessionDiffFile } from "../types/session-diff.js";
+
+function makeFile(overrides: Partial<SessionDiffFile> = {}): SessionDiffFile {
+  return {
+    path: "src/a.ts",
+    status: "modified",
+    complete: true,
+    operations: 1,
+    additions: 1,
+    deletions: 1,
+    hunks: [{ old_start: 3, old_lines: 1, new_start: 3, new_lines: 1, lines: ["-old", "+new"] }],
+    ...overrides,
+  };
+}
+
+function makeDiff(files: SessionDiffFile[]): SessionDiff {
+  return {
+    session_id: "sess-1",
+    files,
+    stats: { files: files.length, additions: 0, deletions: 0 },
+  };
+}
+
+describe("formatHunkHeader", () => {
+  test("formats a positioned hunk", () => {
+    expect(formatHunkHeader(makeFile().hunks[0])).toBe("@@ -3,1 +3,1 @@");
+  });
+
+  test("flags a hunk without a position", () => {
+    const hunk = { ...makeFile().hunks[0], old_start: null, new_start: null };
+    expect(formatHunkHeader(hunk)).toBe("@@ (position unknown) @@");
+  });
+});
+
+describe("formatSessionPatch", () => {
+  test("renders modified and added files", () => {
+    const patch = formatSessionPatch(makeDiff([
+      makeFile(),
+      makeFile({
+        path: "src/new.ts",
+        status: "added",
+        hunks: [{ old_start: 0, old_lines: 0, new_start: 1, new_lines: 1, lines: ["+x"] }],
+      }),
+    ]));
+
+    expect(patch).toBe([
+      "diff --git a/src/a.ts b/src/a.ts",
+      "--- a/src/a.ts",
+      "+++ b/src/a.ts",
+      "@@ -3,1 +3,1 @@",
+      "-old",
+      "+new",
+      "diff --git a/src/new.ts b/src/new.ts",
+      "new file mode 100644",
+      "--- /dev/null",
+      "+++ b/src/new.ts",
+      "@@ -0,0 +1,1 @@",
+      "+x",
+      "",
+    ].join("\n"));
+  });
+
+  test("lists incomplete files as comments instead of hunks", () => {
+    const patch = formatSessionPatch(makeDiff([makeFile({ path: "lib/b.ts", complete: false })]));
+    expect(patch).toBe("# skipped lib/b.ts: original content unknown, hunks cannot be positioned\n");
+  });
+
+  test("strips the leading slash from absolute paths", () => {
+    const patch = formatSessionPatch(makeDiff([makeFile({ path: "/tmp/c.txt" })]));
+    expect(patch.split("\n")[0]).toBe("diff --git a/tmp/c.txt b/tmp/c.txt");
+  });
+
+  test("returns an empty string for an empty diff", () => {
+    expect(formatSessionPatch(makeDiff([]))).toBe("");
+  });
+});
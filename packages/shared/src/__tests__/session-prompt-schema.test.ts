@@ -0,0 +1,61 @@
+/**
+ * Tests for the session.prompt Zod schema and its registration
+ * in the payload validation registry.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  sessionPromptPayloadSchema,
+  MAX_SESSION_PROMPT_CHARS,
+} from "../schemas/session-prompt.js";
+import { validateEventPayload } from "../schemas/payload-registry.js";
+import { EVENT_TYPES } from "../types/event.js";
+
+describe("sessionPromptPayloadSchema", () => {
+  test("validates a minimal payload and defaults the flags", () => {
+    const result = sessionPromptPayloadSchema.safeParse({
+      cc_session_id: "cc-sess-001",
+      prompt: "fix the flaky redis test",
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.redacted).toBe(false);
+      expect(result.data.truncated).toBe(false);
+    }
+  });
+
+  test("accepts redaction flags and a null git_branch", () => {
+    const result = sessionPromptPayloadSchema.safeParse({
+      cc_session_id: "cc-sess-001",
+      prompt: "use token [REDACTED]",
+      redacted: true,
+      truncated: false,
+      git_branch: null,
+    });
+    expect(result.success).toBe(true);
+  });
+
+  test("rejects empty cc_session_id", () => {
+    const result = sessionPromptPayloadSchema.safeParse({ cc_session_id: "", prompt: "hi" });
+    expect(result.success).toBe(false);
+  });
+
+  test("rejects prompts over the max length", () => {
+    const result = sessionPromptPayloadSchema.safeParse({
+      cc_session_id: "cc-sess-001",
+      prompt: "x".repeat(MAX_SESSION_PROMPT_CHARS + 1),
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("validateEventPayload with session.prompt", () => {
+  test("session.prompt is a known event type", () => {
+    expect(EVENT_TYPES).toContain("session.prompt");
+  });
+
+  test("invalid session.prompt data returns error", () => {
+    const result = validateEventPayload("session.prompt", { cc_session_id: "cc-sess-001" });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for webhook signing, verification, and event filter matching,
+ * plus the webhook creation schema's filter validation.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { createHmac } from "crypto";
+import { signWebhookPayload, verifyWebhookSignature, webhookEventMatches } from "../webhooks.js";
+import { createWebhookSchema } from "../schemas/webhook.js";
+
+const SECRET = "whsec_test_secret_value";
+const BODY = JSON.stringify({ id: "d1", type: "session.end" });
+const NOW = 1_750_000_000;
+
+describe("signWebhookPayload", () => {
+  test("is an HMAC-SHA256 of timestamp.body", () => {
+    const expected = createHmac("sha256", SECRET).update(`${NOW}.${BODY}`).digest("hex");
+    expect(signWebhookPayload(SECRET, NOW, BODY)).toBe(`sha256=${expected}`);
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  const signature = signWebhookPayload(SECRET, NOW, BODY);
+
+  test("accepts a fresh, correctly signed body", () => {
+    expect(verifyWebhookSignature(SECRET, BODY, String(NOW), signature, 300, NOW + 10)).toBe(true);
+  });
+
+  test("rejects a tampered body, wrong secret, or missing headers", () => {
+    expect(verifyWebhookSignature(SECRET, BODY + " ", String(NOW), signature, 300, NOW)).toBe(false);
+    expect(verifyWebhookSignature("other_secret_value", BODY, String(NOW), signature, 300, NOW)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, BODY, undefined, signature, 300, NOW)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, BODY, String(NOW), "sha256=abc", 300, NOW)).toBe(false);
+  });
+
+  test("rejects stale timestamps", () => {
+    expect(verifyWebhookSignature(SECRET, BODY, String(NOW), signature, 300, NOW + 301)).toBe(false);
+  });
+});
+
+describe("webhookEventMatches", () => {
+  test("empty filters and * match everything", () => {
+    expect(webhookEventMatches([], "git.commit")).toBe(true);
+    expect(webhookEventMatches(["*"], "session.summarized")).toBe(true);
+  });
+
+  test("matches exact types and prefix wildcards", () => {
+    expect(webhookEventMatches(["session.end", "git.*"], "git.push")).toBe(true);
+    expect(webhookEventMatches(["session.end", "git.*"], "session.end")).toBe(true);
+    expect(webhookEventMatches(["session.end", "git.*"], "session.start")).toBe(false);
+    expect(webhookEventMatches(["git.*"], "gitx.push")).toBe(false);
+  });
+
+  test("heartbeats need an exact filter", () => {
+    expect(webhookEventMatches([], "system.heartbeat")).toBe(false);
+    expect(webhookEventMatches(["system.*"], "system.heartbeat")).toBe(false);
+    expect(webhookEventMatches(["system.heartbeat"], "system.heartbeat")).toBe(true);
+  });
+});
+
+describe("createWebhookSchema", () => {
+  test("defaults to every event and accepts known types and wildcards", () => {
+    const parsed = createWebhookSchema.parse({
+      url: "https://ci.example.com/hook",
+      event_types: ["session.summarized", "git.*"],
+    });
+    expect(parsed.event_types).toEqual(["session.summarized", "git.*"]);
+    expect(createWebhookSchema.parse({ url: "http://localhost:9000" }).event_types).toEqual([]);
+  });
+
+  test("rejects unknown event types and non-http URLs", () => {
+    expect(createWebhookSchema.safeParse({ url: "https://x.test", event_types: ["session.ended"] }).success).toBe(false);
+    expect(createWebhookSchema.safeParse({ url: "ftp://x.test" }).success).toBe(false);
+  });
+});
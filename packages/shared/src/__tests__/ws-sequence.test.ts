@@ -0,0 +1,31 @@
+/**
+ * Tests for WebSocket broadcast sequence ID helpers.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { compareWsSeq, isWsSeq, wsSeqTime } from "../ws-sequence.js";
+
+describe("isWsSeq", () => {
+  test("accepts Redis stream IDs only", () => {
+    expect(isWsSeq("1750000000000-0")).toBe(true);
+    expect(isWsSeq("1750000000000-12")).toBe(true);
+    expect(isWsSeq("1750000000000")).toBe(false);
+    expect(isWsSeq("abc-0")).toBe(false);
+    expect(isWsSeq("")).toBe(false);
+  });
+});
+
+describe("compareWsSeq", () => {
+  test("orders by time, then counter, numerically", () => {
+    expect(compareWsSeq("9-0", "10-0")).toBeLessThan(0);
+    expect(compareWsSeq("10-2", "10-10")).toBeLessThan(0);
+    expect(compareWsSeq("10-1", "10-0")).toBeGreaterThan(0);
+    expect(compareWsSeq("10-1", "10-1")).toBe(0);
+  });
+});
+
+describe("wsSeqTime", () => {
+  test("returns the millisecond part", () => {
+    expect(wsSeqTime("1750000000000-3")).toBe(1750000000000);
+  });
+});
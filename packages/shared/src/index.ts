@@ -6,6 +6,7 @@
  *   - Zod validation schemas for event payloads
  *   - ULID generation and validation utilities
  *   - Git remote URL normalization and workspace ID derivation
+ *   - Model-aware pricing registry for cost estimation
  *   - Structured error hierarchy
  */
 
@@ -24,5 +25,17 @@ export * from "./canonical.js";
 // S3 key construction utilities
 export * from "./s3-keys.js";
 
+// Model-aware pricing registry and cost computation
+export * from "./pricing.js";
+
 // Structured error classes
 export * from "./errors.js";
+
+// Session diff -> git-apply-able patch rendering
+export * from "./session-patch.js";
+
+// Webhook delivery signing/verification and event filter matching
+export * from "./webhooks.js";
+
+// WebSocket broadcast sequence IDs (resume after reconnect)
+export * from "./ws-sequence.js";
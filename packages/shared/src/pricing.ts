@@ -0,0 +1,261 @@
+/**
+ * Model-aware pricing registry for Claude API cost estimation.
+ *
+ * Costs are estimated per assistant message from its token usage and the
+ * model that produced it. Prices are keyed by model-ID prefix so dated
+ * snapshots ("claude-sonnet-4-5-20250929") resolve without listing every
+ * release; the longest matching prefix wins, so "claude-opus-4-5" beats
+ * "claude-opus-4".
+ *
+ * Pricing rules modelled here:
+ *   - Cache writes are priced by TTL: 5-minute writes at 1.25x input,
+ *     1-hour writes at 2x input. When usage omits the per-TTL split,
+ *     all cache_creation_input_tokens are priced as 5-minute writes.
+ *   - Long-context tier: for models that support it, a request whose total
+ *     input (input + cache read + cache write) exceeds the threshold is
+ *     billed entirely at the long-context rates.
+ *   - Unknown models fall back to DEFAULT_MODEL_PRICING (Sonnet rates) so
+ *     the estimate never silently drops to zero.
+ *
+ * PRICING_VERSION must be bumped whenever a rate changes. Sessions record
+ * the version they were costed with, which lets the reprice action find
+ * and recompute stale sessions without reparsing transcripts.
+ */
+
+import type { TokenUsage } from "./types/transcript.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Per-million-token rates (USD) for one pricing tier */
+export interface TokenRates {
+  input: number;
+  output: number;
+  cache_read: number;
+  cache_write_5m: number;
+  cache_write_1h: number;
+}
+
+/** Pricing for a model family, with an optional long-context tier */
+export interface ModelPricing extends TokenRates {
+  /** Rates applied when a request's total input exceeds threshold_tokens */
+  long_context?: TokenRates & { threshold_tokens: number };
+}
+
+/** Token counts needed to price a single message */
+export interface MessageTokenUsage {
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cache_read_tokens: number | null;
+  /** Total cache write tokens (5m + 1h) */
+  cache_write_tokens: number | null;
+  /** 1-hour TTL portion of cache_write_tokens (0 when unknown) */
+  cache_write_1h_tokens?: number | null;
+}
+
+/** Cost and token totals for one model within a session */
+export interface ModelCostEntry {
+  messages: number;
+  tokens_in: number;
+  tokens_out: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  cost_usd: number;
+}
+
+/** Per-model cost breakdown persisted on sessions.cost_breakdown */
+export interface SessionCostBreakdown {
+  /** PRICING_VERSION the costs were computed with */
+  pricing_version: string;
+  /** Keyed by the model ID as reported in the transcript ("unknown" if absent) */
+  models: Record<string, ModelCostEntry>;
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** Bump whenever any rate in MODEL_PRICING changes */
+export const PRICING_VERSION = "2025-11-24";
+
+/** Standard long-context threshold: requests over 200K input tokens */
+const LONG_CONTEXT_THRESHOLD = 200_000;
+
+const OPUS_4: ModelPricing = {
+  input: 15,
+  output: 75,
+  cache_read: 1.5,
+  cache_write_5m: 18.75,
+  cache_write_1h: 30,
+};
+
+const SONNET: ModelPricing = {
+  input: 3,
+  output: 15,
+  cache_read: 0.3,
+  cache_write_5m: 3.75,
+  cache_write_1h: 6,
+};
+
+/** Sonnet 4.x with the 1M-context beta tier */
+const SONNET_4: ModelPricing = {
+  ...SONNET,
+  long_context: {
+    threshold_tokens: LONG_CONTEXT_THRESHOLD,
+    input: 6,
+    output: 22.5,
+    cache_read: 0.6,
+    cache_write_5m: 7.5,
+    cache_write_1h: 12,
+  },
+};
+
+/**
+ * Pricing keyed by model-ID prefix. Order does not matter — lookup picks
+ * the longest matching prefix.
+ */
+export const MODEL_PRICING: Readonly<Record<string, ModelPricing>> = {
+  "claude-opus-4-5": {
+    input: 5,
+    output: 25,
+    cache_read: 0.5,
+    cache_write_5m: 6.25,
+    cache_write_1h: 10,
+  },
+  "claude-opus-4": OPUS_4,
+  "claude-3-opus": OPUS_4,
+  "claude-sonnet-4": SONNET_4,
+  "claude-3-7-sonnet": SONNET,
+  "claude-3-5-sonnet": SONNET,
+  "claude-haiku-4-5": {
+    input: 1,
+    output: 5,
+    cache_read: 0.1,
+    cache_write_5m: 1.25,
+    cache_write_1h: 2,
+  },
+  "claude-3-5-haiku": {
+    input: 0.8,
+    output: 4,
+    cache_read: 0.08,
+    cache_write_5m: 1,
+    cache_write_1h: 1.6,
+  },
+  "claude-3-haiku": {
+    input: 0.25,
+    output: 1.25,
+    cache_read: 0.03,
+    cache_write_5m: 0.3,
+    cache_write_1h: 0.5,
+  },
+};
+
+/** Fallback when the model is missing or not in the registry */
+export const DEFAULT_MODEL_PRICING: ModelPricing = SONNET;
+
+// ---------------------------------------------------------------------------
+// Lookup and cost computation
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve pricing for a model ID by longest matching prefix.
+ * Returns DEFAULT_MODEL_PRICING for null or unrecognized models.
+ */
+export function resolveModelPricing(model: string | null | undefined): ModelPricing {
+  if (!model) return DEFAULT_MODEL_PRICING;
+
+  let best: string | null = null;
+  for (const prefix of Object.keys(MODEL_PRICING)) {
+    if (model.startsWith(prefix) && (best === null || prefix.length > best.length)) {
+      best = prefix;
+    }
+  }
+
+  return best ? MODEL_PRICING[best] : DEFAULT_MODEL_PRICING;
+}
+
+/**
+ * Extract the token counts needed for pricing from a raw transcript usage
+ * object, including the 1-hour cache write split when present.
+ */
+export function usageFromTokenUsage(usage: TokenUsage | null | undefined): MessageTokenUsage {
+  return {
+    input_tokens: usage?.input_tokens ?? null,
+    output_tokens: usage?.output_tokens ?? null,
+    cache_read_tokens: usage?.cache_read_input_tokens ?? null,
+    cache_write_tokens: usage?.cache_creation_input_tokens ?? null,
+    cache_write_1h_tokens: usage?.cache_creation?.ephemeral_1h_input_tokens ?? null,
+  };
+}
+
+/**
+ * Compute the estimated USD cost of one message.
+ * Returns null if the message carries no usage data at all.
+ */
+export function computeMessageCost(
+  model: string | null | undefined,
+  usage: MessageTokenUsage,
+): number | null {
+  const { input_tokens, output_tokens, cache_read_tokens, cache_write_tokens } = usage;
+  if (input_tokens == null && output_tokens == null && cache_read_tokens == null && cache_write_tokens == null) {
+    return null;
+  }
+
+  const input = input_tokens ?? 0;
+  const output = output_tokens ?? 0;
+  const cacheRead = cache_read_tokens ?? 0;
+  const cacheWrite = cache_write_tokens ?? 0;
+  // Clamp the 1h portion so inconsistent usage can't produce negative 5m tokens
+  const cacheWrite1h = Math.min(usage.cache_write_1h_tokens ?? 0, cacheWrite);
+  const cacheWrite5m = cacheWrite - cacheWrite1h;
+
+  const pricing = resolveModelPricing(model);
+  const totalInput = input + cacheRead + cacheWrite;
+  const rates: TokenRates =
+    pricing.long_context && totalInput > pricing.long_context.threshold_tokens
+      ? pricing.long_context
+      : pricing;
+
+  return (
+    (input * rates.input +
+      output * rates.output +
+      cacheRead * rates.cache_read +
+      cacheWrite5m * rates.cache_write_5m +
+      cacheWrite1h * rates.cache_write_1h) /
+    1_000_000
+  );
+}
+
+/**
+ * Accumulate one priced message into a session cost breakdown (mutates).
+ * Messages without a model are grouped under "unknown".
+ */
+export function addToCostBreakdown(
+  breakdown: SessionCostBreakdown,
+  model: string | null | undefined,
+  usage: MessageTokenUsage,
+  costUsd: number | null,
+): void {
+  const key = model || "unknown";
+  const entry = (breakdown.models[key] ??= {
+    messages: 0,
+    tokens_in: 0,
+    tokens_out: 0,
+    cache_read_tokens: 0,
+    cache_write_tokens: 0,
+    cost_usd: 0,
+  });
+
+  entry.messages++;
+  entry.tokens_in += usage.input_tokens ?? 0;
+  entry.tokens_out += usage.output_tokens ?? 0;
+  entry.cache_read_tokens += usage.cache_read_tokens ?? 0;
+  entry.cache_write_tokens += usage.cache_write_tokens ?? 0;
+  entry.cost_usd += costUsd ?? 0;
+}
+
+/** Create an empty breakdown stamped with the current PRICING_VERSION */
+export function createCostBreakdown(): SessionCostBreakdown {
+  return { pricing_version: PRICING_VERSION, models: {} };
+}
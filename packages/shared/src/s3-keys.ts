@@ -7,6 +7,7 @@
  * Key patterns:
  *   - transcripts/{workspaceCanonicalId}/{sessionId}/raw.jsonl   — raw CC transcript
  *   - transcripts/{workspaceCanonicalId}/{sessionId}/parsed.json — parsed backup
+ *   - transcripts/{workspaceCanonicalId}/{sessionId}/compact-{n}.jsonl — snapshot before compaction n
  *   - artifacts/{sessionId}/{artifactId}.{ext}                   — large tool result blobs
  */
 
@@ -33,6 +34,18 @@ export function buildSubagentTranscriptKey(
   return `transcripts/${workspaceCanonicalId}/${sessionId}/subagents/${agentId}.jsonl`;
 }
 
+/**
+ * Build the S3 key for a transcript snapshot taken just before a compaction.
+ * @returns `transcripts/{workspaceCanonicalId}/{sessionId}/compact-{compactSequence}.jsonl`
+ */
+export function buildCompactSnapshotKey(
+  workspaceCanonicalId: string,
+  sessionId: string,
+  compactSequence: number,
+): string {
+  return `transcripts/${workspaceCanonicalId}/${sessionId}/compact-${compactSequence}.jsonl`;
+}
+
 /**
  * Build the S3 key for a parsed transcript backup.
  * @returns `transcripts/{workspaceCanonicalId}/{sessionId}/parsed.json`
@@ -0,0 +1,38 @@
+/**
+ * Zod validation schema for the POST /api/tokens request body.
+ *
+ * Creates a named API token. Scopes default to read + ingest, which is what
+ * a developer machine running the CLI and hooks needs; admin has to be asked
+ * for explicitly. `expires_in_days` is optional — omit it for a token that
+ * never expires.
+ */
+
+import { z } from "zod";
+import { API_TOKEN_SCOPES } from "../types/api-token.js";
+
+/**
+ * Schema for POST /api/tokens body.
+ *
+ * Fields:
+ *   - name: Label for the token (1-100 chars), e.g. the machine it's for
+ *   - scopes: Non-empty list of scopes (default ["read", "ingest"])
+ *   - expires_in_days: Days until the token expires (1-3650, optional)
+ *   - user: Name of the user the token belongs to — created if it doesn't
+ *     exist yet; omit for a service token with unattributed activity
+ *   - email: Email recorded for a newly created user (ignored otherwise)
+ */
+export const createApiTokenSchema = z.object({
+  /** Label for the token */
+  name: z.string().trim().min(1).max(100),
+  /** Granted scopes (duplicates are removed by the server) */
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1).default(["read", "ingest"]),
+  /** Days until expiry — omitted means the token never expires */
+  expires_in_days: z.number().int().min(1).max(3650).optional(),
+  /** Owning user's name (created on first use) */
+  user: z.string().trim().min(1).max(100).optional(),
+  /** Email for a newly created user */
+  email: z.string().email().optional(),
+});
+
+/** Inferred type for a parsed token creation body */
+export type CreateApiTokenRequest = z.infer<typeof createApiTokenSchema>;
@@ -0,0 +1,32 @@
+/**
+ * Zod validation schema for the GET /api/dead-letters query parameters.
+ *
+ * Lists events the server consumer gave up on, newest failure first. All
+ * filters are optional. `limit` is coerced from string to number since
+ * Express query params are always strings.
+ */
+
+import { z } from "zod";
+
+/**
+ * Schema for GET /api/dead-letters query parameters.
+ *
+ * Filters:
+ *   - status: "pending" (default view in the CLI) or "replayed"
+ *   - event_type: Only dead letters for this event type (e.g., "git.commit")
+ *   - limit: Number of rows per page (default 50, max 250)
+ *   - cursor: Opaque pagination token (base64 JSON with { f, i } fields)
+ */
+export const deadLetterQuerySchema = z.object({
+  /** Filter by dead-letter status */
+  status: z.enum(["pending", "replayed"]).optional(),
+  /** Filter by original event type */
+  event_type: z.string().optional(),
+  /** Number of rows per page (default 50, max 250) */
+  limit: z.coerce.number().int().min(1).max(250).default(50),
+  /** Opaque pagination cursor — base64-encoded JSON { f: last_failed_at, i: id } */
+  cursor: z.string().optional(),
+});
+
+/** Inferred type for parsed dead-letter query parameters */
+export type DeadLetterQuery = z.infer<typeof deadLetterQuerySchema>;
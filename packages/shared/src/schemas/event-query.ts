@@ -0,0 +1,58 @@
+/**
+ * Zod validation schema for the GET /api/events query parameters.
+ *
+ * Queries raw events across sessions — including events with no session
+ * (orphan git activity, system events). All filters are optional and ANDed.
+ * `limit` is coerced from string to number since Express query params are
+ * always strings. `type` is a comma-separated list of event types or globs
+ * that gets transformed into an array.
+ */
+
+import { z } from "zod";
+import { eventTypeFilterSchema } from "./ws-subscription.js";
+
+/**
+ * Schema for GET /api/events query parameters.
+ *
+ * Filters:
+ *   - type: Comma-separated event types or globs (e.g., "git.*,session.start")
+ *   - workspace_id / device_id / session_id: Exact IDs
+ *   - after: Only events after this ISO-8601 timestamp
+ *   - before: Only events before this ISO-8601 timestamp
+ *   - data: SQL/JSON path predicate on the payload (e.g., '$.branch == "main"')
+ *   - order: "desc" (newest first, default) or "asc"
+ *   - format: "json" (one page) or "ndjson" (every match, streamed)
+ *   - limit: Events per page (default 100, max 1000); caps the total for ndjson
+ *   - cursor: Opaque pagination token (base64 JSON with { t, i } fields)
+ */
+export const eventQuerySchema = z.object({
+  /** Comma-separated event types or "prefix.*" globs — transformed to array */
+  type: z
+    .string()
+    .transform((val) => val.split(",").map((t) => t.trim()).filter(Boolean))
+    .pipe(z.array(eventTypeFilterSchema).min(1).max(50))
+    .optional(),
+  /** Filter to a specific workspace (ULID) */
+  workspace_id: z.string().min(1).optional(),
+  /** Filter to a specific device */
+  device_id: z.string().min(1).optional(),
+  /** Filter to a specific session */
+  session_id: z.string().min(1).optional(),
+  /** Only include events after this ISO-8601 datetime */
+  after: z.string().datetime({ offset: true }).optional(),
+  /** Only include events before this ISO-8601 datetime */
+  before: z.string().datetime({ offset: true }).optional(),
+  /** SQL/JSON path predicate evaluated against each event's data (jsonb @@) */
+  data: z.string().min(1).max(1000).optional(),
+  /** Sort direction over (timestamp, id) */
+  order: z.enum(["asc", "desc"]).default("desc"),
+  /** Response format — ndjson streams every matching event */
+  format: z.enum(["json", "ndjson"]).default("json"),
+  /** Events per page (json default 100); total cap for ndjson (default unlimited) */
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+  /** Opaque pagination cursor — base64-encoded JSON { t: timestamp, i: event_id } */
+  cursor: z.string().optional(),
+});
+
+/** Inferred type for parsed event query parameters */
+export type EventQuery = z.infer<typeof eventQuerySchema>;
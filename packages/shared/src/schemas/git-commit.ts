@@ -3,6 +3,8 @@
  *
  * Emitted by the post-commit git hook when a commit is made.
  * Captures the commit hash, message, author info, branch, and diff stats.
+ * When the optional prepare-commit-msg hook is installed, the commit's
+ * `Fuel-Session: <id>` trailer is forwarded for exact session correlation.
  */
 
 import { z } from "zod";
@@ -33,6 +35,8 @@ export const gitCommitPayloadSchema = z.object({
     path: z.string(),
     status: z.string(),
   })).optional(),
+  /** Session ID from the commit's Fuel-Session trailer (optional) */
+  session_trailer: z.string().min(1).optional(),
 });
 
 /** Inferred TypeScript type for git.commit payloads */
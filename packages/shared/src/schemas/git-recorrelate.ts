@@ -0,0 +1,27 @@
+/**
+ * Zod validation schema for the git activity re-correlation endpoint.
+ */
+
+import { z } from "zod";
+
+/**
+ * Schema for POST /api/git-activity/recorrelate — retry session correlation
+ * for orphan git_activity rows (no session). Rows are matched by their
+ * Fuel-Session trailer first, then by the live correlator's heuristics.
+ * With `dry_run`, matches are counted but nothing is written. Rows are
+ * examined oldest first; pass the response's `next_cursor` back as `cursor`
+ * to continue past rows that still matched nothing.
+ */
+export const gitRecorrelateRequestSchema = z.object({
+  /** Restrict to one workspace (ULID) */
+  workspace_id: z.string().trim().min(1).optional(),
+  /** Only rows at or after this time */
+  since: z.string().datetime({ offset: true }).optional(),
+  limit: z.number().int().min(1).max(10000).default(1000),
+  /** Opaque pagination cursor — base64-encoded JSON { t: timestamp, i: id } */
+  cursor: z.string().optional(),
+  dry_run: z.boolean().default(false),
+});
+
+/** Inferred type for a re-correlation request */
+export type GitRecorrelateRequest = z.infer<typeof gitRecorrelateRequestSchema>;
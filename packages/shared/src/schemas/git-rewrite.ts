@@ -0,0 +1,36 @@
+/**
+ * Zod schema for the git.rewrite event payload.
+ *
+ * Emitted by the post-rewrite git hook after `git commit --amend` or
+ * `git rebase`. Carries the old -> new SHA mapping git reports on stdin so
+ * git_activity rows for rewritten commits can be superseded.
+ */
+
+import { z } from "zod";
+
+/** One rewritten commit: the SHA that no longer exists and its replacement */
+export const gitRewriteMappingSchema = z.object({
+  /** SHA of the commit before the rewrite */
+  old_sha: z.string().min(1),
+  /** SHA of the commit that replaced it */
+  new_sha: z.string().min(1),
+});
+
+/**
+ * Payload schema for "git.rewrite" events.
+ * This is the `data` field of an Event with type "git.rewrite".
+ */
+export const gitRewritePayloadSchema = z.object({
+  /** Which command rewrote the commits */
+  kind: z.enum(["amend", "rebase"]),
+  /** Branch checked out when the rewrite finished */
+  branch: z.string().optional(),
+  /** Old -> new SHA pairs, in the order git reported them */
+  mappings: z.array(gitRewriteMappingSchema).min(1),
+});
+
+/** Inferred TypeScript type for a single rewrite mapping */
+export type GitRewriteMapping = z.infer<typeof gitRewriteMappingSchema>;
+
+/** Inferred TypeScript type for git.rewrite payloads */
+export type GitRewritePayload = z.infer<typeof gitRewritePayloadSchema>;
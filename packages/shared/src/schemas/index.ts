@@ -6,10 +6,12 @@ export * from "./event-base.js";
 export * from "./session-start.js";
 export * from "./session-end.js";
 export * from "./session-compact.js";
+export * from "./session-prompt.js";
 export * from "./git-commit.js";
 export * from "./git-push.js";
 export * from "./git-checkout.js";
 export * from "./git-merge.js";
+export * from "./git-rewrite.js";
 export * from "./subagent-start.js";
 export * from "./subagent-stop.js";
 export * from "./team-create.js";
@@ -17,6 +19,16 @@ export * from "./team-message.js";
 export * from "./skill-invoke.js";
 export * from "./worktree-create.js";
 export * from "./worktree-remove.js";
+export * from "./system-heartbeat.js";
 export * from "./payload-registry.js";
 export * from "./session-query.js";
 export * from "./timeline-query.js";
+export * from "./search-query.js";
+export * from "./dead-letter-query.js";
+export * from "./event-query.js";
+export * from "./api-token.js";
+export * from "./usage-query.js";
+export * from "./workspace-merge.js";
+export * from "./git-recorrelate.js";
+export * from "./webhook.js";
+export * from "./ws-subscription.js";
@@ -15,10 +15,12 @@ import type { EventType } from "../types/event.js";
 import { sessionStartPayloadSchema } from "./session-start.js";
 import { sessionEndPayloadSchema } from "./session-end.js";
 import { sessionCompactPayloadSchema } from "./session-compact.js";
+import { sessionPromptPayloadSchema } from "./session-prompt.js";
 import { gitCommitPayloadSchema } from "./git-commit.js";
 import { gitPushPayloadSchema } from "./git-push.js";
 import { gitCheckoutPayloadSchema } from "./git-checkout.js";
 import { gitMergePayloadSchema } from "./git-merge.js";
+import { gitRewritePayloadSchema } from "./git-rewrite.js";
 import { subagentStartPayloadSchema } from "./subagent-start.js";
 import { subagentStopPayloadSchema } from "./subagent-stop.js";
 import { teamCreatePayloadSchema } from "./team-create.js";
@@ -26,6 +28,7 @@ import { teamMessagePayloadSchema } from "./team-message.js";
 import { skillInvokePayloadSchema } from "./skill-invoke.js";
 import { worktreeCreatePayloadSchema } from "./worktree-create.js";
 import { worktreeRemovePayloadSchema } from "./worktree-remove.js";
+import { systemHeartbeatPayloadSchema } from "./system-heartbeat.js";
 
 /**
  * Registry mapping event types to their payload Zod schemas.
@@ -35,10 +38,12 @@ export const PAYLOAD_SCHEMAS: Partial<Record<EventType, z.ZodSchema>> = {
   "session.start": sessionStartPayloadSchema,
   "session.end": sessionEndPayloadSchema,
   "session.compact": sessionCompactPayloadSchema,
+  "session.prompt": sessionPromptPayloadSchema,
   "git.commit": gitCommitPayloadSchema,
   "git.push": gitPushPayloadSchema,
   "git.checkout": gitCheckoutPayloadSchema,
   "git.merge": gitMergePayloadSchema,
+  "git.rewrite": gitRewritePayloadSchema,
   "subagent.start": subagentStartPayloadSchema,
   "subagent.stop": subagentStopPayloadSchema,
   "team.create": teamCreatePayloadSchema,
@@ -46,6 +51,7 @@ export const PAYLOAD_SCHEMAS: Partial<Record<EventType, z.ZodSchema>> = {
   "skill.invoke": skillInvokePayloadSchema,
   "worktree.create": worktreeCreatePayloadSchema,
   "worktree.remove": worktreeRemovePayloadSchema,
+  "system.heartbeat": systemHeartbeatPayloadSchema,
 };
 
 /**
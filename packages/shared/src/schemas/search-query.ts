@@ -0,0 +1,57 @@
+/**
+ * Zod validation schema for the GET /api/search query parameters.
+ *
+ * The search endpoint runs ranked Postgres full-text search over parsed
+ * transcript content blocks. `q` is required and is passed to
+ * websearch_to_tsquery, so users can write natural queries like
+ * `flaky redis test` or `"connection refused" -docker`.
+ *
+ * All filters are optional. `limit` is coerced from string to number since
+ * Express query params are always strings.
+ */
+
+import { z } from "zod";
+
+/** Content block types that can be searched (matches content_blocks.block_type) */
+export const SEARCH_BLOCK_TYPES = [
+  "text",
+  "thinking",
+  "tool_use",
+  "tool_result",
+] as const;
+
+/**
+ * Schema for GET /api/search query parameters.
+ *
+ * Filters:
+ *   - workspace_id: Only search sessions in this workspace
+ *   - device_id: Only search sessions on this device
+ *   - tool_name: Only search blocks produced by this tool (e.g., "Bash")
+ *   - block_type: Only search this kind of content block
+ *   - after / before: Only search sessions started within this range
+ *   - limit: Number of hits per page (default 20, max 100)
+ *   - cursor: Opaque pagination token (base64 JSON with { r, i } fields)
+ */
+export const searchQuerySchema = z.object({
+  /** Search text — interpreted with websearch_to_tsquery syntax */
+  q: z.string().trim().min(1).max(500),
+  /** Filter to a specific workspace (ULID) */
+  workspace_id: z.string().optional(),
+  /** Filter to a specific device (ULID) */
+  device_id: z.string().optional(),
+  /** Filter to blocks produced by a specific tool (e.g., "Bash", "Edit") */
+  tool_name: z.string().optional(),
+  /** Filter to a specific content block type */
+  block_type: z.enum(SEARCH_BLOCK_TYPES).optional(),
+  /** Only include sessions started after this ISO-8601 datetime */
+  after: z.string().datetime({ offset: true }).optional(),
+  /** Only include sessions started before this ISO-8601 datetime */
+  before: z.string().datetime({ offset: true }).optional(),
+  /** Number of hits per page (default 20, max 100) */
+  limit: z.coerce.number().int().min(1).default(20).transform(v => Math.min(v, 100)),
+  /** Opaque pagination cursor — base64-encoded JSON { r: rank, i: block_id } */
+  cursor: z.string().optional(),
+});
+
+/** Inferred type for parsed search query parameters */
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
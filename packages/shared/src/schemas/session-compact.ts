@@ -1,9 +1,10 @@
 /**
  * Zod schema for the session.compact event payload.
  *
- * Emitted when a Claude Code session is compacted (context window reset).
- * The compact_sequence increments with each compaction, allowing the parser
- * to distinguish which transcript segment a message belongs to.
+ * Emitted by the PreCompact hook just before a Claude Code session is
+ * compacted (context window reset). The compact_sequence increments with each
+ * compaction, matching the compact_sequence the parser assigns to transcript
+ * messages after that boundary.
  */
 
 import { z } from "zod";
@@ -17,8 +18,12 @@ export const sessionCompactPayloadSchema = z.object({
   cc_session_id: z.string().min(1),
   /** Monotonically increasing sequence number for this compaction (0-based) */
   compact_sequence: z.number().int().nonnegative(),
-  /** S3 path where the transcript is stored */
+  /** Path to the transcript JSONL on the machine running Claude Code */
   transcript_path: z.string(),
+  /** What started the compaction: /compact ("manual") or a full context ("auto") */
+  trigger: z.enum(["manual", "auto"]).optional(),
+  /** S3 key of the transcript snapshot taken at this boundary, if one was uploaded */
+  snapshot_s3_key: z.string().nullable().optional(),
 });
 
 /** Inferred TypeScript type for session.compact payloads */
@@ -0,0 +1,33 @@
+/**
+ * Zod schema for the session.prompt event payload.
+ *
+ * Emitted by the UserPromptSubmit hook each time the user submits a prompt,
+ * so live sessions show what's being worked on before the transcript is
+ * parsed. Redaction (if configured) happens on the CLI before emit — the
+ * server only ever sees the redacted text.
+ */
+
+import { z } from "zod";
+
+/** Max prompt length (chars) the CLI sends; longer prompts are truncated */
+export const MAX_SESSION_PROMPT_CHARS = 10_000;
+
+/**
+ * Payload schema for "session.prompt" events.
+ * This is the `data` field of an Event with type "session.prompt".
+ */
+export const sessionPromptPayloadSchema = z.object({
+  /** Claude Code's internal session identifier — links to the session.start event */
+  cc_session_id: z.string().min(1),
+  /** The submitted prompt text (after redaction and truncation) */
+  prompt: z.string().max(MAX_SESSION_PROMPT_CHARS),
+  /** Whether any configured redaction pattern matched */
+  redacted: z.boolean().default(false),
+  /** Whether the prompt was cut to MAX_SESSION_PROMPT_CHARS */
+  truncated: z.boolean().default(false),
+  /** Branch checked out when the prompt was submitted (used if session.start was missed) */
+  git_branch: z.string().nullable().optional(),
+});
+
+/** Inferred TypeScript type for session.prompt payloads */
+export type SessionPromptPayload = z.infer<typeof sessionPromptPayloadSchema>;
@@ -5,6 +5,9 @@
  *   - GET /api/sessions — list with filtering and cursor-based pagination
  *   - PATCH /api/sessions/:id — update tags or summary
  *   - POST /api/sessions/batch-status — bulk lifecycle status lookup
+ *   - POST /api/sessions/reprice — bulk cost recomputation
+ *   - POST /api/sessions/reap — end abandoned detected sessions
+ *   - POST /api/sessions/activity — transcript mtimes reported by the CLI
  *
  * The sessionListQuerySchema validates query string parameters (all optional),
  * with coerce on `limit` since query strings are always strings.
@@ -41,6 +44,8 @@ export const sessionListQuerySchema = z.object({
   workspace_id: z.string().optional(),
   /** Filter sessions belonging to this device (ULID) */
   device_id: z.string().optional(),
+  /** Filter sessions attributed to this user (ULID) */
+  user_id: z.string().optional(),
   /** Comma-separated lifecycle values (e.g., "parsed,summarized") — validated after split */
   lifecycle: z.string().optional(),
   /** Sessions started after this ISO-8601 timestamp */
@@ -144,3 +149,65 @@ export const backfillSessionRequestSchema = z.object({
 
 /** Inferred type for backfill session creation request */
 export type BackfillSessionRequest = z.infer<typeof backfillSessionRequestSchema>;
+
+/**
+ * Schema for POST /api/sessions/reprice — recompute costs for parsed sessions
+ * using the current pricing registry. By default only sessions costed with an
+ * older pricing version are repriced; `all` forces every parsed session.
+ */
+export const repriceRequestSchema = z.object({
+  all: z.boolean().default(false),
+  limit: z.number().int().min(1).max(5000).default(500),
+});
+
+/** Inferred type for bulk reprice request */
+export type RepriceRequest = z.infer<typeof repriceRequestSchema>;
+
+/**
+ * Schema for POST /api/sessions/archive — prune parsed transcript rows for
+ * complete sessions that ended more than `older_than_days` ago. With
+ * `dry_run`, nothing is deleted and the reclaimable space is reported.
+ */
+export const archiveRequestSchema = z.object({
+  older_than_days: z.number().int().min(1).default(90),
+  limit: z.number().int().min(1).max(5000).default(100),
+  dry_run: z.boolean().default(false),
+});
+
+/** Inferred type for archive sweep request */
+export type ArchiveRequest = z.infer<typeof archiveRequestSchema>;
+
+/**
+ * Schema for POST /api/sessions/reap — end detected sessions that have gone
+ * quiet (crashed CC, sleeping laptop). Thresholds override the server's
+ * REAPER_* configuration for this run; `dry_run` only reports candidates.
+ */
+export const reapRequestSchema = z.object({
+  idle_minutes: z.number().int().min(1).optional(),
+  offline_minutes: z.number().int().min(1).optional(),
+  max_idle_hours: z.number().int().min(1).optional(),
+  limit: z.number().int().min(1).max(5000).optional(),
+  dry_run: z.boolean().default(false),
+});
+
+/** Inferred type for reaper sweep request */
+export type ReapRequest = z.infer<typeof reapRequestSchema>;
+
+/**
+ * Schema for POST /api/sessions/activity — the CLI reports the transcript
+ * file mtime of each session it still has open, so the reaper can tell a
+ * long quiet turn from a dead session.
+ */
+export const transcriptActivitySchema = z.object({
+  sessions: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        transcript_mtime: z.string().datetime({ offset: true }),
+      }),
+    )
+    .max(200),
+});
+
+/** Inferred type for a transcript activity report */
+export type TranscriptActivityReport = z.infer<typeof transcriptActivitySchema>;
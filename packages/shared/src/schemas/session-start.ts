@@ -16,6 +16,11 @@ export const sessionStartPayloadSchema = z.object({
   cc_session_id: z.string().min(1),
   /** Working directory where the session started */
   cwd: z.string().min(1),
+  /**
+   * Top level of the git worktree containing cwd (absent outside a repo and
+   * for events from older CLIs) — tool paths are indexed relative to it
+   */
+  git_root: z.string().min(1).optional(),
   /** Git branch at session start (null if not in a git repo) */
   git_branch: z.string().nullable(),
   /** Git remote URL at session start (null if not in a git repo) */
@@ -28,6 +33,12 @@ export const sessionStartPayloadSchema = z.object({
   source: z.enum(["startup", "resume", "clear", "compact", "backfill"]),
   /** S3 path where the transcript will be stored */
   transcript_path: z.string(),
+  /**
+   * The repo's "local:<sha256 of first commit>" ID, sent when the repo has a
+   * remote so the server can fold a workspace recorded before the remote was
+   * added into this one
+   */
+  local_workspace_id: z.string().startsWith("local:").optional(),
 });
 
 /** Inferred TypeScript type for session.start payloads */
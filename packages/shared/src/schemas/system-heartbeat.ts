@@ -0,0 +1,26 @@
+/**
+ * Zod schema for the system.heartbeat event payload.
+ *
+ * Sent by the CLI at most once a minute, piggybacked on hook emits and sent
+ * after background drains, so the server knows which devices are active.
+ * The event's device_id identifies the machine; the payload only carries
+ * what sent it and a little local state for diagnostics.
+ */
+
+import { z } from "zod";
+
+/**
+ * Payload schema for "system.heartbeat" events.
+ * This is the `data` field of an Event with type "system.heartbeat".
+ */
+export const systemHeartbeatPayloadSchema = z.object({
+  /** Which CLI path sent the heartbeat */
+  source: z.enum(["hook", "drain"]),
+  /** Events still waiting in the local queue */
+  queue_depth: z.number().int().nonnegative().optional(),
+  /** Claude Code sessions currently open on this machine */
+  active_sessions: z.number().int().nonnegative().optional(),
+});
+
+/** Inferred TypeScript type for system.heartbeat payloads */
+export type SystemHeartbeatPayload = z.infer<typeof systemHeartbeatPayloadSchema>;
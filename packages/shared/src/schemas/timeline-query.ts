@@ -19,6 +19,7 @@ import { z } from "zod";
  * Filters:
  *   - workspace_id: Show only sessions/activity for this workspace
  *   - device_id: Show only sessions/activity for this device
+ *   - user_id: Show only sessions/activity attributed to this user
  *   - after: Only sessions started after this ISO-8601 timestamp
  *   - before: Only sessions started before this ISO-8601 timestamp
  *   - types: Comma-separated git activity types to include (commit,push,checkout,merge)
@@ -30,6 +31,8 @@ export const timelineQuerySchema = z.object({
   workspace_id: z.string().optional(),
   /** Filter to a specific device (ULID) */
   device_id: z.string().optional(),
+  /** Filter to activity attributed to a specific user (ULID) */
+  user_id: z.string().optional(),
   /** Only include sessions started after this ISO-8601 datetime */
   after: z.string().datetime({ offset: true }).optional(),
   /** Only include sessions started before this ISO-8601 datetime */
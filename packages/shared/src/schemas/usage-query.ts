@@ -0,0 +1,37 @@
+/**
+ * Zod validation schema for the GET /api/analytics/usage query parameters.
+ *
+ * Usage is reported in hour/day/week buckets over [from, to). When omitted,
+ * `to` defaults to now and `from` to a window sized for the bucket (24 hours,
+ * 30 days, or 12 weeks), so a bare request returns a useful chart.
+ */
+
+import { z } from "zod";
+import { USAGE_BUCKETS, USAGE_GROUP_BYS } from "../types/usage.js";
+
+/**
+ * Schema for GET /api/analytics/usage query parameters.
+ *
+ * Fields:
+ *   - bucket: hour, day (default), or week
+ *   - group_by: workspace, device, model, or tag (optional)
+ *   - from / to: ISO-8601 range bounds (optional, see defaults above)
+ *   - workspace_id / device_id: Restrict to one workspace or device
+ */
+export const usageQuerySchema = z.object({
+  /** Bucket width */
+  bucket: z.enum(USAGE_BUCKETS).default("day"),
+  /** Optional grouping dimension */
+  group_by: z.enum(USAGE_GROUP_BYS).optional(),
+  /** Range start (inclusive) */
+  from: z.string().datetime({ offset: true }).optional(),
+  /** Range end (exclusive) */
+  to: z.string().datetime({ offset: true }).optional(),
+  /** Filter to a specific workspace (ULID) */
+  workspace_id: z.string().optional(),
+  /** Filter to a specific device */
+  device_id: z.string().optional(),
+});
+
+/** Inferred type for parsed usage query parameters */
+export type UsageQuery = z.infer<typeof usageQuerySchema>;
@@ -0,0 +1,53 @@
+/**
+ * Zod validation schemas for the webhook endpoints.
+ *
+ * Event filters are exact event types (session.end, session.summarized, ...)
+ * or "prefix.*" wildcards; an empty list means every event.
+ */
+
+import { z } from "zod";
+import { EVENT_TYPES } from "../types/event.js";
+import { WEBHOOK_DELIVERY_STATUSES, WEBHOOK_SESSION_EVENT_TYPES } from "../types/webhook.js";
+
+/** Every event type a webhook can subscribe to */
+const WEBHOOK_EVENT_TYPES: readonly string[] = [...EVENT_TYPES, ...WEBHOOK_SESSION_EVENT_TYPES];
+
+/** An exact webhook event type or a "prefix.*" wildcard */
+const webhookEventFilterSchema = z
+  .string()
+  .trim()
+  .refine(
+    (f) => f === "*" || WEBHOOK_EVENT_TYPES.includes(f) || /^[a-z]+(\.[a-z]+)*\.\*$/.test(f),
+    { message: "Unknown event type (use an event type or a wildcard like git.*)" },
+  );
+
+/**
+ * Schema for POST /api/webhooks body.
+ *
+ * Fields:
+ *   - url: Receiver URL (http or https)
+ *   - event_types: Filters (default [] = every event)
+ *   - workspace_id: Only deliver this workspace's events (omit for all)
+ *   - description: Optional label
+ *   - secret: Signing secret (16-200 chars); generated when omitted
+ */
+export const createWebhookSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url()
+    .refine((u) => /^https?:\/\//i.test(u), { message: "URL must use http or https" }),
+  event_types: z.array(webhookEventFilterSchema).max(50).default([]),
+  workspace_id: z.string().min(1).optional(),
+  description: z.string().trim().max(200).optional(),
+  secret: z.string().min(16).max(200).optional(),
+});
+
+/** Inferred type for a parsed webhook creation body */
+export type CreateWebhookRequest = z.infer<typeof createWebhookSchema>;
+
+/** Schema for GET /api/webhooks/:id/deliveries query parameters */
+export const webhookDeliveriesQuerySchema = z.object({
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(250).default(50),
+});
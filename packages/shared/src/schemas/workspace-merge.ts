@@ -0,0 +1,43 @@
+/**
+ * Zod validation schemas for the workspace merge endpoints.
+ *
+ * Workspaces are referenced the same way as in GET /api/workspaces/:id —
+ * by ULID, canonical ID, or display name.
+ */
+
+import { z } from "zod";
+
+/**
+ * Schema for POST /api/workspaces/merge — fold `source` into `target`.
+ * The source workspace is removed; its canonical ID becomes an alias of the
+ * target.
+ */
+export const workspaceMergeRequestSchema = z.object({
+  source: z.string().trim().min(1),
+  target: z.string().trim().min(1),
+});
+
+/** Inferred type for a workspace merge request */
+export type WorkspaceMergeRequest = z.infer<typeof workspaceMergeRequestSchema>;
+
+/**
+ * Schema for POST /api/workspaces/unmerge — undo a merge, identified by the
+ * merged-away workspace's canonical ID (its latest merge) or the merge ID.
+ */
+export const workspaceUnmergeRequestSchema = z
+  .object({
+    canonical_id: z.string().trim().min(1).optional(),
+    merge_id: z.string().trim().min(1).optional(),
+  })
+  .refine((body) => (body.canonical_id === undefined) !== (body.merge_id === undefined), {
+    message: "Provide exactly one of canonical_id or merge_id",
+  });
+
+/** Inferred type for a workspace unmerge request */
+export type WorkspaceUnmergeRequest = z.infer<typeof workspaceUnmergeRequestSchema>;
+
+/** Schema for GET /api/workspaces/merges query parameters */
+export const workspaceMergeListQuerySchema = z.object({
+  /** Also list merges that were undone */
+  all: z.enum(["true", "false"]).optional(),
+});
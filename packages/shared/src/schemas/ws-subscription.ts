@@ -0,0 +1,67 @@
+/**
+ * Zod validation schemas for WebSocket subscription filters, and the same
+ * filters as GET /api/stream (Server-Sent Events) query parameters.
+ *
+ * Event type filters are exact event types or "prefix.*" globs (git.*);
+ * list fields must be non-empty when given — omit a field to match anything.
+ * As query parameters, list fields are comma-separated.
+ */
+
+import { z } from "zod";
+import { EVENT_TYPES } from "../types/event.js";
+import { WS_BROADCAST_TYPES } from "../types/ws.js";
+
+/** An exact event type or a "prefix.*" glob (also the `type` filter of GET /api/events) */
+export const eventTypeFilterSchema = z
+  .string()
+  .refine(
+    (f) => f === "*" || (EVENT_TYPES as readonly string[]).includes(f) || /^[a-z]+(\.[a-z]+)*\.\*$/.test(f),
+    { message: "Unknown event type (use an event type or a glob like git.*)" },
+  );
+
+const typesListSchema = z.array(z.enum(WS_BROADCAST_TYPES)).min(1);
+const eventTypesListSchema = z.array(eventTypeFilterSchema).min(1).max(50);
+const lifecyclesListSchema = z.array(z.string().min(1)).min(1).max(20);
+
+/** Schema for the `filter` of a subscribe message (see WsSubscriptionFilter) */
+export const wsSubscriptionFilterSchema = z
+  .object({
+    types: typesListSchema.optional(),
+    event_types: eventTypesListSchema.optional(),
+    workspace_id: z.string().min(1).optional(),
+    session_id: z.string().min(1).optional(),
+    device_id: z.string().min(1).optional(),
+    lifecycles: lifecyclesListSchema.optional(),
+  })
+  .strict();
+
+/** Schema for the filter and optional client-chosen ID of a filter subscription */
+export const wsFilterSubscribeSchema = z.object({
+  filter: wsSubscriptionFilterSchema,
+  id: z.string().min(1).max(128).optional(),
+});
+
+/** Split a comma-separated query parameter into its non-empty items */
+function splitList(value: string): string[] {
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Schema for GET /api/stream query parameters: one subscription filter
+ * (omit everything to receive every broadcast) plus `since`, the seq to
+ * resume after when the client can't send a Last-Event-ID header.
+ *
+ * Example: ?types=session.update&lifecycles=complete,failed&workspace_id=...
+ */
+export const streamQuerySchema = z.object({
+  types: z.string().transform(splitList).pipe(typesListSchema).optional(),
+  event_types: z.string().transform(splitList).pipe(eventTypesListSchema).optional(),
+  workspace_id: z.string().min(1).optional(),
+  session_id: z.string().min(1).optional(),
+  device_id: z.string().min(1).optional(),
+  lifecycles: z.string().transform(splitList).pipe(lifecyclesListSchema).optional(),
+  since: z.string().min(1).optional(),
+});
+
+/** Inferred type for parsed stream query parameters */
+export type StreamQuery = z.infer<typeof streamQuerySchema>;
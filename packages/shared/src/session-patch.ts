@@ -0,0 +1,51 @@
+/**
+ * Render a SessionDiff (GET /api/sessions/:id/diff) as a git-apply-able patch.
+ *
+ * Only complete files are included: an incomplete file's hunks have no
+ * known position. Each skipped file is listed in a leading "#" comment,
+ * which git apply ignores.
+ */
+
+import type { SessionDiff, SessionDiffHunk } from "./types/session-diff.js";
+
+/** Format a hunk header: "@@ -12,7 +12,8 @@" */
+export function formatHunkHeader(hunk: SessionDiffHunk): string {
+  if (hunk.old_start === null || hunk.new_start === null) {
+    return "@@ (position unknown) @@";
+  }
+  return `@@ -${hunk.old_start},${hunk.old_lines} +${hunk.new_start},${hunk.new_lines} @@`;
+}
+
+/**
+ * Render the complete files of a session diff as a unified patch
+ * (`git apply` / `patch -p1` compatible). Returns "" when nothing applies.
+ */
+export function formatSessionPatch(diff: SessionDiff): string {
+  const out: string[] = [];
+
+  for (const file of diff.files) {
+    if (!file.complete) {
+      out.push(`# skipped ${file.path}: original content unknown, hunks cannot be positioned`);
+    }
+  }
+
+  for (const file of diff.files) {
+    if (!file.complete) continue;
+    // a/ and b/ prefixes need a relative path
+    const path = file.path.replace(/^\/+/, "");
+    out.push(`diff --git a/${path} b/${path}`);
+    if (file.status === "added") {
+      out.push("new file mode 100644");
+      out.push("--- /dev/null");
+    } else {
+      out.push(`--- a/${path}`);
+    }
+    out.push(`+++ b/${path}`);
+    for (const hunk of file.hunks) {
+      out.push(formatHunkHeader(hunk));
+      out.push(...hunk.lines);
+    }
+  }
+
+  return out.length > 0 ? out.join("\n") + "\n" : "";
+}
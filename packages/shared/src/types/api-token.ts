@@ -0,0 +1,52 @@
+/**
+ * ApiToken type definitions.
+ *
+ * API tokens authenticate CLIs and hooks against the backend. Each token has
+ * a name (usually the machine it lives on), a set of scopes, an optional
+ * expiry, and can be revoked individually. Only a SHA-256 hash of the token
+ * is stored; the plaintext is shown once, when the token is created.
+ */
+
+/**
+ * Token scopes:
+ *   - "read": query sessions, timeline, workspaces, and the WebSocket feed
+ *   - "ingest": submit events and transcripts, tag sessions, dismiss prompts
+ *   - "admin": everything, including token management and pipeline operations
+ *     (reparse, reprice, archive, dead letters)
+ */
+export type ApiTokenScope = "read" | "ingest" | "admin";
+
+/**
+ * Runtime array of all ApiTokenScope values.
+ * Used by the token creation schema and by the CLI's --scope validation.
+ */
+export const API_TOKEN_SCOPES = ["read", "ingest", "admin"] as const;
+
+/**
+ * ApiToken interface — maps to the `api_tokens` Postgres table, minus the
+ * token hash (which never leaves the server).
+ */
+export interface ApiToken {
+  /** ULID primary key */
+  id: string;
+  /** Human-readable label, e.g. "johns-macbook" */
+  name: string;
+  /** First characters of the token, for recognising it in listings */
+  token_prefix: string;
+  /** Granted scopes */
+  scopes: ApiTokenScope[];
+  /** User the token belongs to (null for service tokens) */
+  user_id: string | null;
+  /** Name of that user, joined in by the API */
+  user_name: string | null;
+  /** Name of the token that created this one (null for the root API_KEY) */
+  created_by: string | null;
+  /** When the token was created */
+  created_at: string;
+  /** When the token stops working (null = never) */
+  expires_at: string | null;
+  /** When the token last authenticated a request (updated at most once a minute) */
+  last_used_at: string | null;
+  /** When the token was revoked (null = active) */
+  revoked_at: string | null;
+}
@@ -0,0 +1,49 @@
+/**
+ * DeadLetterEvent type definitions.
+ *
+ * A dead-lettered event is one the server's Redis Stream consumer could not
+ * process after exhausting its retries. Instead of being dropped, the original
+ * event is stored in the `dead_letter_events` table with the failure context
+ * so it can be inspected and replayed once the underlying bug is fixed.
+ */
+
+import type { Event } from "./event.js";
+
+/**
+ * Dead-letter status:
+ *   - "pending": failed and awaiting inspection/replay
+ *   - "replayed": re-published to the event stream (a new failure resets it to pending)
+ */
+export type DeadLetterStatus = "pending" | "replayed";
+
+/**
+ * DeadLetterEvent interface — maps to the `dead_letter_events` Postgres table.
+ */
+export interface DeadLetterEvent {
+  /** ULID primary key */
+  id: string;
+  /** ID of the original event (unique — repeat failures update the same row) */
+  event_id: string;
+  /** Type of the original event (denormalized for filtering) */
+  event_type: string;
+  /** The original event exactly as read from the stream */
+  event: Event;
+  /** Redis Stream entry ID of the most recent failed delivery */
+  stream_id: string;
+  /** Processing attempts made before the event was dead-lettered */
+  attempts: number;
+  /** Error message from the final attempt */
+  last_error: string;
+  /** Name of the handler that failed (null if the failure came before dispatch) */
+  handler_name: string | null;
+  /** Current status */
+  status: DeadLetterStatus;
+  /** Number of times this event has been replayed */
+  replay_count: number;
+  /** When the event was first dead-lettered */
+  first_failed_at: string;
+  /** When the event was most recently dead-lettered */
+  last_failed_at: string;
+  /** When the event was last replayed (null if never) */
+  replayed_at: string | null;
+}
@@ -22,6 +22,8 @@ export interface Device {
   type: DeviceType;
   /** Human-readable name (e.g., hostname) */
   name: string;
+  /** User the device belongs to — the owner of the last token it reported with */
+  user_id?: string | null;
   /** Current status */
   status: DeviceStatus;
   /** OS/platform info (e.g., "darwin", "linux") */
@@ -4,7 +4,7 @@
  * Events are the core data primitive — every user action, system signal,
  * and lifecycle transition is captured as an Event and ingested to the backend.
  *
- * There are 21 event types across 7 categories:
+ * There are 23 event types across 7 categories:
  *   - session.*    — Claude Code session lifecycle
  *   - git.*        — git operations detected by hooks
  *   - remote.*     — remote dev environment provisioning
@@ -15,15 +15,17 @@
  *   - worktree.*   — git worktree lifecycle
  */
 
-/** All 21 event types in the fuel-code system */
+/** All 23 event types in the fuel-code system */
 export type EventType =
   | "session.start"
   | "session.end"
   | "session.compact"
+  | "session.prompt"
   | "git.commit"
   | "git.push"
   | "git.checkout"
   | "git.merge"
+  | "git.rewrite"
   | "remote.provision.start"
   | "remote.provision.ready"
   | "remote.provision.error"
@@ -48,10 +50,12 @@ export const EVENT_TYPES = [
   "session.start",
   "session.end",
   "session.compact",
+  "session.prompt",
   "git.commit",
   "git.push",
   "git.checkout",
   "git.merge",
+  "git.rewrite",
   "remote.provision.start",
   "remote.provision.ready",
   "remote.provision.error",
@@ -102,6 +106,11 @@ export interface Event {
   data: Record<string, unknown>;
   /** Server-side timestamp of when this event was ingested (null before ingestion) */
   ingested_at: string | null;
+  /**
+   * User the ingesting API token belongs to. Set by the server at ingest —
+   * never trusted from the client. Null/absent for unattributed events.
+   */
+  user_id?: string | null;
   /** References to blobs in S3 associated with this event */
   blob_refs: BlobRef[];
 }
@@ -0,0 +1,62 @@
+/**
+ * File history type definitions.
+ *
+ * The session_files index records which files each session read or wrote
+ * (from its Read, Grep, Edit, MultiEdit and Write tool calls) and which files
+ * each commit changed (from git.commit file_list). GET
+ * /api/workspaces/:id/files?path= reads it to list, oldest first, the
+ * sessions and commits that touched a file or any file under a directory.
+ *
+ * Paths are relative to the repository root: tool paths are made relative to
+ * the session's working directory; commit paths already are.
+ */
+
+/** Whether a tool call read a file or changed it (commits always write) */
+export type FileAccessKind = "read" | "write";
+
+/** Runtime array of all FileAccessKind values */
+export const FILE_ACCESS_KINDS = ["read", "write"] as const;
+
+/** A session that touched the path */
+export interface FileHistorySessionEntry {
+  kind: "session";
+  /** When the session first touched a matching file */
+  timestamp: string;
+  session_id: string;
+  lifecycle: string;
+  started_at: string;
+  summary: string | null;
+  initial_prompt: string | null;
+  /** "write" if the session changed any matching file, else "read" */
+  access: FileAccessKind;
+  /** Matching files the session touched */
+  paths: string[];
+  /** Tools used on them */
+  tools: string[];
+}
+
+/** A commit that changed the path (superseded commits are left out) */
+export interface FileHistoryCommitEntry {
+  kind: "commit";
+  /** Commit time */
+  timestamp: string;
+  git_activity_id: string;
+  commit_sha: string | null;
+  message: string | null;
+  branch: string | null;
+  /** Session the commit was correlated to, if any */
+  session_id: string | null;
+  /** Matching files the commit changed */
+  paths: string[];
+}
+
+export type FileHistoryEntry = FileHistorySessionEntry | FileHistoryCommitEntry;
+
+/** Response of GET /api/workspaces/:id/files */
+export interface FileHistoryResponse {
+  workspace_id: string;
+  /** Normalized path queried ("" for the whole repository) */
+  path: string;
+  /** Sessions and commits, oldest first */
+  entries: FileHistoryEntry[];
+}
@@ -7,6 +7,9 @@
  *
  * The session_id is nullable — git activity outside an active Claude Code
  * session is stored as "orphan" workspace-level activity.
+ *
+ * Commit rows rewritten by an amend or rebase are superseded (superseded_by
+ * holds the replacement SHA) and hidden from session and timeline views.
  */
 
 /** The type of git operation */
@@ -22,6 +25,8 @@ export interface GitActivity {
   workspace_id: string;
   /** Device where this git operation occurred */
   device_id: string;
+  /** User whose token reported this operation (null if unattributed) */
+  user_id?: string | null;
   /** Session this activity is correlated with (null for orphan events) */
   session_id: string | null;
   /** Type of git operation */
@@ -40,6 +45,10 @@ export interface GitActivity {
   deletions: number | null;
   /** When the git operation occurred */
   timestamp: string;
+  /** SHA of the commit that replaced this one via amend/rebase (null if current) */
+  superseded_by?: string | null;
+  /** When the rewrite that superseded this row happened */
+  superseded_at?: string | null;
   /** Additional structured data (e.g., push refs, checkout from/to) */
   data: Record<string, unknown>;
   /** When this row was created */
@@ -13,4 +13,12 @@ export * from "./subagent.js";
 export * from "./team.js";
 export * from "./teammate.js";
 export * from "./skill.js";
+export * from "./prompt.js";
 export * from "./worktree.js";
+export * from "./dead-letter.js";
+export * from "./api-token.js";
+export * from "./user.js";
+export * from "./usage.js";
+export * from "./session-diff.js";
+export * from "./file-history.js";
+export * from "./webhook.js";
@@ -0,0 +1,17 @@
+/**
+ * SessionPrompt — maps to the `session_prompts` Postgres table.
+ *
+ * One row per prompt submitted in a Claude Code session, captured in real
+ * time by the UserPromptSubmit hook (session.prompt events).
+ */
+export interface SessionPrompt {
+  id: string;
+  session_id: string;
+  /** ID of the session.prompt event that produced this row */
+  event_id: string;
+  /** Prompt text (already redacted by the CLI if patterns are configured) */
+  prompt: string;
+  submitted_at: string;
+  redacted: boolean;
+  truncated: boolean;
+}
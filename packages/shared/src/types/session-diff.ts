@@ -0,0 +1,55 @@
+/**
+ * Session diff type definitions.
+ *
+ * GET /api/sessions/:id/diff replays a session's Write, Edit and MultiEdit
+ * tool calls into per-file unified diffs (see @fuel-code/core session-diff.ts).
+ * A file's original content is known when the session created it, or read it
+ * with the Read tool before changing it; otherwise only the edited fragments
+ * are known and the file is marked incomplete.
+ */
+
+/** How a file was changed over the session */
+export type SessionDiffFileStatus = "added" | "modified";
+
+/** One unified-diff hunk */
+export interface SessionDiffHunk {
+  /** First line of the hunk in the original file (1-based), null if unknown */
+  old_start: number | null;
+  old_lines: number;
+  /** First line of the hunk in the changed file (1-based), null if unknown */
+  new_start: number | null;
+  new_lines: number;
+  /**
+   * Hunk body: each line prefixed with " ", "-" or "+", plus
+   * "\ No newline at end of file" after a final line without one
+   */
+  lines: string[];
+}
+
+/** Net change to one file */
+export interface SessionDiffFile {
+  /** Path relative to the session's working directory (absolute paths outside it keep their leading "/") */
+  path: string;
+  status: SessionDiffFileStatus;
+  /**
+   * True when hunk positions are exact and the file can be included in a
+   * git-apply-able patch; false when the original content was never seen
+   */
+  complete: boolean;
+  /** Number of Write/Edit/MultiEdit calls that touched the file */
+  operations: number;
+  additions: number;
+  deletions: number;
+  hunks: SessionDiffHunk[];
+}
+
+/** Response of GET /api/sessions/:id/diff */
+export interface SessionDiff {
+  session_id: string;
+  files: SessionDiffFile[];
+  stats: {
+    files: number;
+    additions: number;
+    deletions: number;
+  };
+}
@@ -11,6 +11,7 @@ import type { SessionSkill } from './skill.js';
 import type { SessionWorktree } from './worktree.js';
 import type { Team } from './team.js';
 import type { Teammate } from './teammate.js';
+import type { SessionCostBreakdown } from '../pricing.js';
 
 /**
  * Session lifecycle states — unified progression through the pipeline.
@@ -50,6 +51,8 @@ export interface Session {
   workspace_id: string;
   /** Device that ran this session */
   device_id: string;
+  /** User whose token reported this session (null if unattributed) */
+  user_id?: string | null;
   /** Claude Code's own session identifier (from CC internals) */
   cc_session_id: string;
   /** Current lifecycle state */
@@ -82,6 +85,20 @@ export interface Session {
   /** Permission mode the session ran under (e.g. "plan", "auto-edit") */
   permission_mode?: string;
 
+  /** Per-model cost breakdown (null until the transcript is parsed) */
+  cost_breakdown?: SessionCostBreakdown | null;
+
+  /** Number of context compactions recorded by the PreCompact hook */
+  compact_count?: number;
+  /** When each compaction happened, oldest first */
+  compacted_at?: string[];
+
+  /** When the parsed transcript rows were archived to S3 (null if not archived) */
+  archived_at?: string | null;
+
+  /** Last transcript file mtime reported by the CLI while the session was open */
+  transcript_mtime?: string | null;
+
   // -- Joined data (populated by detail queries, not stored inline) --
 
   /** Subagents spawned during this session */
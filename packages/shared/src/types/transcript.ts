@@ -11,6 +11,8 @@
  *   3. Stats — aggregate numbers derived from parsed data
  */
 
+import type { SessionCostBreakdown } from "../pricing.js";
+
 // ---------------------------------------------------------------------------
 // Raw JSONL structures (what the parser reads)
 // ---------------------------------------------------------------------------
@@ -40,6 +42,14 @@ export interface RawTranscriptLine {
   timestamp?: string;
   uuid?: string;
   permissionMode?: string;
+  /** System line subtype — "compact_boundary" marks a context compaction */
+  subtype?: string;
+  /** Top-level text of system lines (e.g., "Conversation compacted") */
+  content?: string;
+  /** Set on the synthetic user message that carries the compaction summary */
+  isCompactSummary?: boolean;
+  /** Present on compact_boundary lines */
+  compactMetadata?: { trigger?: string; preTokens?: number };
   message?: {
     role?: string;
     model?: string;
@@ -201,6 +211,49 @@ export interface ParseResult {
   permission_mode?: string;
   /** Session ID this session was resumed from */
   resumed_from_session_id?: string;
+
+  /**
+   * Full content of tool results too large to keep inline. The matching
+   * content blocks hold a truncated preview; the reconciler uploads these
+   * to S3 and sets result_s3_key. Never persisted in the parsed backup.
+   */
+  artifacts?: ToolResultArtifact[];
+}
+
+/** Full content of an oversized tool result, awaiting upload to S3 */
+export interface ToolResultArtifact {
+  /** content_blocks.id of the truncated tool_result block */
+  block_id: string;
+  /** Stable artifact id for the S3 key (the tool_use_id, so reparses overwrite) */
+  artifact_id: string;
+  /** Full result: text, JSON, or base64-encoded binary (images) */
+  content: string;
+  encoding: "utf-8" | "base64";
+  /** MIME type stored with the S3 object */
+  content_type: string;
+  /** File extension for the S3 key */
+  ext: string;
+  /** Decoded size in bytes */
+  byte_length: number;
+}
+
+/**
+ * Where to read a tool result's full output
+ * (GET /api/sessions/:id/blocks/:blockId/result?redirect=false).
+ * Exactly one of url/content is set: url for results stored in S3,
+ * content for results that fit inline or whose upload failed.
+ */
+export interface ToolResultLocation {
+  block_id: string;
+  /** True when the transcript view only holds a preview of this result */
+  truncated: boolean;
+  content_type: string;
+  /** Size of the full output in bytes */
+  byte_length: number;
+  /** Presigned S3 URL for the full output */
+  url: string | null;
+  /** Inline result text */
+  content: string | null;
 }
 
 /** Aggregate statistics computed from a parsed transcript */
@@ -216,6 +269,8 @@ export interface TranscriptStats {
   cache_read_tokens: number;
   cache_write_tokens: number;
   cost_estimate_usd: number;
+  /** Per-model cost/token totals, stamped with the pricing version used */
+  cost_breakdown: SessionCostBreakdown;
   duration_ms: number;
   initial_prompt: string | null;
 }
@@ -0,0 +1,69 @@
+/**
+ * Usage analytics type definitions.
+ *
+ * GET /api/analytics/usage returns token, cost, and activity totals split into
+ * time buckets and optionally grouped by a dimension. Day and week buckets are
+ * read from the daily_usage rollup; hour buckets (and tag grouping, since tags
+ * can change after a session is parsed) are computed from sessions directly.
+ */
+
+/** Width of a time bucket. Buckets are aligned to UTC (weeks start Monday). */
+export type UsageBucket = "hour" | "day" | "week";
+
+/** Runtime array of all UsageBucket values */
+export const USAGE_BUCKETS = ["hour", "day", "week"] as const;
+
+/**
+ * Dimensions usage can be grouped by. Sessions count toward their primary
+ * model (sessions.model); a session with several tags counts toward each.
+ */
+export type UsageGroupBy = "workspace" | "device" | "model" | "tag";
+
+/** Runtime array of all UsageGroupBy values */
+export const USAGE_GROUP_BYS = ["workspace", "device", "model", "tag"] as const;
+
+/** Aggregated metrics for a bucket (or the whole range) */
+export interface UsageMetrics {
+  /** Parsed sessions started in the bucket */
+  sessions: number;
+  /** Total session wall-clock duration */
+  duration_ms: number;
+  /** Uncached input tokens */
+  tokens_in: number;
+  /** Output tokens */
+  tokens_out: number;
+  /** Input tokens served from the prompt cache */
+  cache_read_tokens: number;
+  /** Input tokens written to the prompt cache */
+  cache_write_tokens: number;
+  /** cache_read / (tokens_in + cache_read + cache_write); null with no input */
+  cache_hit_ratio: number | null;
+  /** Estimated cost in USD */
+  cost_usd: number;
+  /** Commits made during those sessions */
+  commits: number;
+}
+
+/** One bucket of one group */
+export interface UsageRow extends UsageMetrics {
+  /** Start of the bucket (ISO-8601, UTC) */
+  bucket_start: string;
+  /** Group identifier (workspace/device ID, model, or tag); null when ungrouped */
+  group_key: string | null;
+  /** Human-readable group name (workspace/device name; same as key otherwise) */
+  group_label: string | null;
+}
+
+/** Response body of GET /api/analytics/usage */
+export interface UsageResponse {
+  bucket: UsageBucket;
+  group_by: UsageGroupBy | null;
+  /** Start of the requested range (ISO-8601) */
+  from: string;
+  /** End of the requested range (ISO-8601, exclusive) */
+  to: string;
+  /** Non-empty buckets, ordered by bucket_start then group_key */
+  rows: UsageRow[];
+  /** Sum over all rows (multi-tagged sessions count once per tag) */
+  totals: UsageMetrics;
+}
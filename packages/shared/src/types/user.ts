@@ -0,0 +1,22 @@
+/**
+ * User type definitions.
+ *
+ * A User is a person on a shared backend. API tokens belong to a user, and
+ * events ingested with a user's token are attributed to them — as are the
+ * sessions, git activity, and devices those events create. Events ingested
+ * with the root API_KEY (or before users existed) are unattributed.
+ */
+
+/**
+ * User interface — maps to the `users` Postgres table.
+ */
+export interface User {
+  /** ULID primary key */
+  id: string;
+  /** Unique handle, e.g. "john" */
+  name: string;
+  /** Email address, used for display only (null if not provided) */
+  email: string | null;
+  /** When the user was created */
+  created_at: string;
+}
@@ -0,0 +1,118 @@
+/**
+ * Webhook type definitions.
+ *
+ * Webhooks push fuel-code activity to other tools (chat, CI). Each webhook
+ * has a target URL, a signing secret, optional event-type filters and an
+ * optional workspace filter. Every matching event becomes a row in
+ * webhook_deliveries, which is POSTed with an HMAC signature and retried
+ * with exponential backoff until it succeeds or runs out of attempts.
+ *
+ * Webhooks receive the ingested event types (session.start, git.commit, ...)
+ * plus the session lifecycle milestones reached by the reconcile pipeline
+ * (WEBHOOK_SESSION_EVENT_TYPES).
+ */
+
+import type { SessionStats } from "./ws.js";
+
+/**
+ * Pipeline milestones delivered as webhook events, alongside EVENT_TYPES:
+ *   - "session.parsed": transcript parsed, stats available
+ *   - "session.summarized": LLM summary written
+ *   - "session.complete": pipeline finished
+ *   - "session.failed": pipeline gave up on the session
+ */
+export const WEBHOOK_SESSION_EVENT_TYPES = [
+  "session.parsed",
+  "session.summarized",
+  "session.complete",
+  "session.failed",
+] as const;
+
+/** Sent by POST /api/webhooks/:id/test; ignores event filters */
+export const WEBHOOK_TEST_EVENT_TYPE = "webhook.test";
+
+/** Delivery states: pending until a 2xx response or the last failed attempt */
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+/** Runtime array of all WebhookDeliveryStatus values */
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "succeeded", "failed"] as const;
+
+/**
+ * Webhook interface — maps to the `webhooks` Postgres table, minus the
+ * secret (returned once, when the webhook is created).
+ */
+export interface Webhook {
+  /** ULID primary key */
+  id: string;
+  /** Receiver URL (http or https) */
+  url: string;
+  /** Optional label */
+  description: string | null;
+  /**
+   * Event types to deliver: exact types or "prefix.*" wildcards
+   * (e.g. "git.*"). Empty means every event except system.heartbeat,
+   * which is only delivered when listed.
+   */
+  event_types: string[];
+  /** Only deliver this workspace's events (null = all workspaces) */
+  workspace_id: string | null;
+  /** Display name of that workspace, joined in by the API */
+  workspace_name: string | null;
+  /** First characters of the secret, for recognising it in listings */
+  secret_prefix: string;
+  /** Name of the token that created the webhook */
+  created_by: string | null;
+  created_at: string;
+  /** Most recent delivery, joined in by the list endpoint */
+  last_delivery_at?: string | null;
+  last_delivery_status?: WebhookDeliveryStatus | null;
+}
+
+/** One attempt-tracked delivery of an event to a webhook */
+export interface WebhookDelivery {
+  /** ULID primary key; also sent as the X-Fuel-Code-Delivery header */
+  id: string;
+  webhook_id: string;
+  event_type: string;
+  /** Source event ID for ingested events (null for pipeline milestones) */
+  event_id: string | null;
+  /** The JSON body POSTed to the receiver */
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  /** Attempts made so far */
+  attempts: number;
+  /** When the next attempt is due (null once succeeded or failed) */
+  next_attempt_at: string | null;
+  /** HTTP status of the last attempt (null if it never got a response) */
+  last_status_code: number | null;
+  /** Network error or truncated response body of the last failed attempt */
+  last_error: string | null;
+  created_at: string;
+  /** When the receiver accepted it */
+  delivered_at: string | null;
+}
+
+/** Body of every webhook POST */
+export interface WebhookPayload {
+  /** Delivery ID (same as X-Fuel-Code-Delivery) */
+  id: string;
+  /** Event type (same as X-Fuel-Code-Event) */
+  type: string;
+  workspace_id: string | null;
+  session_id: string | null;
+  /** When the event happened */
+  timestamp: string;
+  /** The ingested Event, or a WebhookSessionData for pipeline milestones */
+  data: unknown;
+}
+
+/** `data` of a session.parsed/summarized/complete/failed delivery */
+export interface WebhookSessionData {
+  session_id: string;
+  workspace_id: string;
+  lifecycle: string;
+  summary: string | null;
+  stats: SessionStats | null;
+  /** Commits correlated to the session so far (superseded ones excluded) */
+  commits: Array<{ sha: string; message: string | null; branch: string | null }>;
+}
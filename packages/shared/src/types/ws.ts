@@ -6,10 +6,22 @@
  *
  * Message flow:
  *   Client -> Server: subscribe, unsubscribe, pong
- *   Server -> Client: event, session.update, remote.update, ping, error, subscribed, unsubscribed
+ *   Server -> Client: event, session.update, remote.update, device.update, ping, error, subscribed, unsubscribed,
+ *                     resync_required
+ *
+ * Broadcasts (event, session.*, remote/device/subagent/team updates) carry a
+ * `seq` — a monotonically increasing sequence ID (see ws-sequence.ts). After a
+ * reconnect, a client re-subscribes with `since` set to the last seq it saw and
+ * the server replays what it missed, or answers resync_required when the gap is
+ * no longer retained and views should refetch instead.
+ *
+ * Besides the "all" / workspace / session scopes, clients can subscribe with a
+ * WsSubscriptionFilter (broadcast types, event type globs, device, lifecycle)
+ * matched server-side, and unsubscribe by the subscription's ID.
  */
 
 import type { Event } from "./event.js";
+import type { DeviceStatus } from "./device.js";
 
 // ---------------------------------------------------------------------------
 // Session stats — lightweight counters sent with session.update messages
@@ -23,21 +35,75 @@ export interface SessionStats {
   total_cost_usd?: number;
   /** Session duration in milliseconds */
   duration_ms?: number;
+  /** Input tokens consumed (available once parsed) */
+  tokens_in?: number;
+  /** Output tokens generated (available once parsed) */
+  tokens_out?: number;
+  /** Number of tool invocations (available once parsed) */
+  tool_use_count?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Subscription filters
+// ---------------------------------------------------------------------------
+
+/** Broadcast message types a filtered subscription can select */
+export const WS_BROADCAST_TYPES = [
+  "event",
+  "session.update",
+  "session.prompt",
+  "remote.update",
+  "device.update",
+  "subagent.update",
+  "team.update",
+] as const;
+
+export type WsBroadcastType = (typeof WS_BROADCAST_TYPES)[number];
+
+/**
+ * Criteria of a filtered subscription. Every field given must match; a
+ * broadcast that doesn't carry the field (e.g. `lifecycles` against an event)
+ * doesn't match. An empty filter matches everything, like scope "all".
+ */
+export interface WsSubscriptionFilter {
+  /** Broadcast types to receive, e.g. ["team.update", "subagent.update"] */
+  types?: WsBroadcastType[];
+  /** Event types or "prefix.*" globs, e.g. ["git.*"] (matches `event` broadcasts) */
+  event_types?: string[];
+  workspace_id?: string;
+  session_id?: string;
+  /** Events from this device, and its device.update broadcasts */
+  device_id?: string;
+  /** session.update lifecycles to receive, e.g. ["complete", "failed"] */
+  lifecycles?: string[];
 }
 
 // ---------------------------------------------------------------------------
 // Client -> Server messages
 // ---------------------------------------------------------------------------
 
-/** Subscribe to a scope: all events, a specific workspace, or a specific session */
-export type ClientSubscribeMessage =
+/**
+ * Subscribe to a scope (all events, a workspace, or a session) or to a
+ * filter. A filter subscription is identified by `id` (generated by the
+ * server when omitted) and acknowledged with it as `subscription`.
+ * With `since` (the seq of the last broadcast received), matching broadcasts
+ * sent after it are replayed first.
+ */
+export type ClientSubscribeMessage = (
   | { type: "subscribe"; scope: "all" }
   | { type: "subscribe"; workspace_id: string }
-  | { type: "subscribe"; session_id: string };
+  | { type: "subscribe"; session_id: string }
+  | { type: "subscribe"; filter: WsSubscriptionFilter; id?: string }
+) & { since?: string };
 
-/** Unsubscribe from a specific workspace/session, or clear all subscriptions */
+/**
+ * Unsubscribe by subscription ID, from a specific workspace/session, or
+ * clear all subscriptions (no target).
+ */
 export interface ClientUnsubscribeMessage {
   type: "unsubscribe";
+  /** Subscription ID from the `subscribed` acknowledgement */
+  subscription?: string;
   workspace_id?: string;
   session_id?: string;
 }
@@ -57,14 +123,23 @@ export type ClientMessage =
 // Server -> Client messages
 // ---------------------------------------------------------------------------
 
+/** Sequence stamp carried by every broadcast message */
+export interface ServerBroadcastSequence {
+  /**
+   * Position of this broadcast in the server's replay buffer. Absent when the
+   * buffer was unavailable; clients resume from the last seq they did see.
+   */
+  seq?: string;
+}
+
 /** A new event was ingested that matches the client's subscription */
-export interface ServerEventMessage {
+export interface ServerEventMessage extends ServerBroadcastSequence {
   type: "event";
   event: Event;
 }
 
 /** A session's lifecycle, summary, or stats changed */
-export interface ServerSessionUpdateMessage {
+export interface ServerSessionUpdateMessage extends ServerBroadcastSequence {
   type: "session.update";
   session_id: string;
   lifecycle: string;
@@ -72,16 +147,35 @@ export interface ServerSessionUpdateMessage {
   stats?: SessionStats;
 }
 
+/** A prompt was submitted in a live session (UserPromptSubmit hook) */
+export interface ServerSessionPromptMessage extends ServerBroadcastSequence {
+  type: "session.prompt";
+  session_id: string;
+  workspace_id: string;
+  /** Prompt text, already redacted by the submitting CLI */
+  prompt: string;
+  submitted_at: string;
+}
+
 /** A remote environment's status changed (future use) */
-export interface ServerRemoteUpdateMessage {
+export interface ServerRemoteUpdateMessage extends ServerBroadcastSequence {
   type: "remote.update";
   remote_env_id: string;
   status: string;
   public_ip?: string;
 }
 
+/** A device sent a heartbeat or went offline */
+export interface ServerDeviceUpdateMessage extends ServerBroadcastSequence {
+  type: "device.update";
+  device_id: string;
+  name: string;
+  status: DeviceStatus;
+  last_seen_at: string;
+}
+
 /** A sub-agent's status changed (started, completed, or failed) */
-export interface ServerSubagentUpdateMessage {
+export interface ServerSubagentUpdateMessage extends ServerBroadcastSequence {
   type: "subagent.update";
   session_id: string;
   workspace_id: string;
@@ -94,7 +188,7 @@ export interface ServerSubagentUpdateMessage {
 }
 
 /** A team was created or its membership changed */
-export interface ServerTeamUpdateMessage {
+export interface ServerTeamUpdateMessage extends ServerBroadcastSequence {
   type: "team.update";
   team_name: string;
   lead_session_id?: string;
@@ -125,14 +219,38 @@ export interface ServerUnsubscribedMessage {
   subscription: string;
 }
 
+/**
+ * The replay gap of a `subscribe ... since` could not be filled: it is older
+ * than the retained window, too large, or the buffer is unavailable. The
+ * subscription is active; views should refetch their data.
+ */
+export interface ServerResyncRequiredMessage {
+  type: "resync_required";
+  subscription: string;
+  reason: "expired" | "too_many" | "invalid_since" | "unavailable";
+}
+
+/** Messages fanned out to every matching subscriber (and replayable) */
+export type ServerBroadcastMessage =
+  | ServerEventMessage
+  | ServerSessionUpdateMessage
+  | ServerSessionPromptMessage
+  | ServerRemoteUpdateMessage
+  | ServerDeviceUpdateMessage
+  | ServerSubagentUpdateMessage
+  | ServerTeamUpdateMessage;
+
 /** Union of all messages the server can send to a client */
 export type ServerMessage =
   | ServerEventMessage
   | ServerSessionUpdateMessage
+  | ServerSessionPromptMessage
   | ServerRemoteUpdateMessage
+  | ServerDeviceUpdateMessage
   | ServerSubagentUpdateMessage
   | ServerTeamUpdateMessage
   | ServerPingMessage
   | ServerErrorMessage
   | ServerSubscribedMessage
-  | ServerUnsubscribedMessage;
+  | ServerUnsubscribedMessage
+  | ServerResyncRequiredMessage;
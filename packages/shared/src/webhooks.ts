@@ -0,0 +1,85 @@
+/**
+ * Webhook signing and event filter matching.
+ *
+ * Every delivery is POSTed with:
+ *   - X-Fuel-Code-Event:     the event type
+ *   - X-Fuel-Code-Delivery:  the delivery ID (stable across retries)
+ *   - X-Fuel-Code-Timestamp: Unix seconds when this attempt was signed
+ *   - X-Fuel-Code-Signature: "sha256=" + hex HMAC-SHA256 of
+ *                            "<timestamp>.<raw body>" keyed with the secret
+ *
+ * Signing the timestamp lets receivers reject replays of old deliveries.
+ * Receivers can use verifyWebhookSignature() directly.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+/** Header names sent with every delivery */
+export const WEBHOOK_HEADERS = {
+  event: "X-Fuel-Code-Event",
+  delivery: "X-Fuel-Code-Delivery",
+  timestamp: "X-Fuel-Code-Timestamp",
+  signature: "X-Fuel-Code-Signature",
+} as const;
+
+/** Default age after which verifyWebhookSignature rejects a delivery (s) */
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Sign a delivery body.
+ *
+ * @param secret    - The webhook's secret
+ * @param timestamp - Unix seconds, sent as X-Fuel-Code-Timestamp
+ * @param body      - The exact request body
+ * @returns The X-Fuel-Code-Signature header value
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`, "utf-8").digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Check a received delivery's signature and timestamp.
+ * Compares in constant time; returns false for stale or malformed input.
+ *
+ * @param secret           - The webhook's secret
+ * @param body             - The raw request body, exactly as received
+ * @param timestampHeader  - X-Fuel-Code-Timestamp
+ * @param signatureHeader  - X-Fuel-Code-Signature
+ * @param toleranceSeconds - Maximum age of the timestamp (default 300)
+ * @param nowSeconds       - Current Unix time (injectable for tests)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  timestampHeader: string | null | undefined,
+  signatureHeader: string | null | undefined,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+  nowSeconds: number = Math.floor(Date.now() / 1000),
+): boolean {
+  if (!timestampHeader || !signatureHeader) return false;
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp) || Math.abs(nowSeconds - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signatureHeader);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Event types too frequent for catch-all filters; delivered only when listed */
+const EXPLICIT_ONLY_EVENT_TYPES = new Set(["system.heartbeat"]);
+
+/**
+ * Whether an event type passes a webhook's filters: an empty list or "*"
+ * matches everything, "git.*" matches every type under "git.". Heartbeats
+ * only match a filter naming them exactly.
+ */
+export function webhookEventMatches(filters: readonly string[], eventType: string): boolean {
+  if (EXPLICIT_ONLY_EVENT_TYPES.has(eventType)) return filters.includes(eventType);
+  if (filters.length === 0) return true;
+  return filters.some((f) =>
+    f === "*" || f === eventType || (f.endsWith(".*") && eventType.startsWith(f.slice(0, -1))),
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * WebSocket broadcast sequence IDs.
+ *
+ * Every broadcast is appended to a Redis Stream on the server, and its
+ * stream entry ID ("<ms>-<n>") becomes the message's `seq`. Stream IDs are
+ * monotonically increasing across all server instances, and their first
+ * part is the append time in ms — which tells the server whether a resume
+ * point is still inside the retained window.
+ *
+ * They don't sort as strings ("10-0" < "9-0"), so compare with compareWsSeq.
+ */
+
+/** Format of a sequence ID: "<milliseconds>-<counter>" */
+const WS_SEQ_REGEX = /^\d+-\d+$/;
+
+/** Check if a string is a well-formed sequence ID */
+export function isWsSeq(seq: string): boolean {
+  return WS_SEQ_REGEX.test(seq);
+}
+
+/**
+ * Compare two sequence IDs: negative if a is earlier, positive if later,
+ * 0 if equal. Both must be well-formed (see isWsSeq).
+ */
+export function compareWsSeq(a: string, b: string): number {
+  const [aMs, aN] = a.split("-").map(Number);
+  const [bMs, bN] = b.split("-").map(Number);
+  return aMs !== bMs ? aMs - bMs : aN - bN;
+}
+
+/** Time (ms since epoch) at which the broadcast with this sequence ID was sent */
+export function wsSeqTime(seq: string): number {
+  return Number(seq.split("-")[0]);
+}